@@ -6,11 +6,17 @@ export const metadata: Metadata = {
   title: "アカウント設定",
   description: "プラン管理、通知設定、プロフィール情報の確認と変更。"
 };
+import AccountDeletionPanel from "@/app/components/AccountDeletionPanel";
 import AlertsInbox from "@/app/components/AlertsInbox";
 import AnalyticsPageView from "@/app/components/AnalyticsPageView";
+import CalendarFeedPanel from "@/app/components/CalendarFeedPanel";
+import DecisionFrameEditor from "@/app/components/DecisionFrameEditor";
+import DecisionExportPanel from "@/app/components/DecisionExportPanel";
 import MemberControls from "@/app/components/MemberControls";
 import NotificationPreferencesForm from "@/app/components/NotificationPreferencesForm";
 import { resolveAlertsErrorMessage, syncUserAlerts } from "@/app/lib/alerts";
+import { isCalendarFeedConfigured, loadCalendarFeedState } from "@/app/lib/calendarFeed";
+import { loadCustomDecisionFrames } from "@/app/lib/decisionFrames";
 import { buildLoginPath, buildOnboardingPath, resolveSafeNextPath } from "@/app/lib/onboarding";
 import {
   formatMembershipDate,
@@ -20,6 +26,7 @@ import {
   resolvePlanName
 } from "@/app/lib/membership";
 import { getViewerFromCookies } from "@/app/lib/viewer";
+import { resolveVapidConfig } from "@/app/lib/webPush";
 import {
   ACTIVE_SUBSCRIPTION_LABELS,
   BUDGET_SENSITIVITY_LABELS,
@@ -88,6 +95,9 @@ export default async function AccountPage({
         preferences: null,
         error: null
       };
+  const calendarFeedState =
+    viewer && isCalendarFeedConfigured() ? await loadCalendarFeedState(viewer.userId) : null;
+  const decisionFrameState = viewer ? await loadCustomDecisionFrames(viewer.userId) : null;
   const subscription = readParam(params.subscription);
   const membershipBadge = resolveMembershipBadgeLabel(viewer?.isPaid ?? false);
   const planName = resolvePlanName(viewer?.planType ?? null, viewer?.isPaid ?? false);
@@ -304,7 +314,107 @@ export default async function AccountPage({
               <h2>通知の管理</h2>
             </div>
 
-            <NotificationPreferencesForm preferences={alertState.preferences} />
+            <NotificationPreferencesForm
+              preferences={alertState.preferences}
+              vapidPublicKey={resolveVapidConfig()?.publicKey ?? null}
+            />
+          </section>
+        ) : null}
+
+        {viewer && calendarFeedState ? (
+          <section className={styles.section}>
+            <div>
+              <p className={styles.eyebrow}>カレンダー</p>
+              <h2>カレンダー連携</h2>
+            </div>
+
+            <ul className={styles.list}>
+              <li>ウォッチリストと採用した判断の期限、結果を記録する日を、お使いのカレンダーに予定として表示します。</li>
+              <li>URL は自分専用です。共有してしまった場合は再発行すると、古い URL は使えなくなります。</li>
+              <li>各トピックカードの「カレンダーに追加」から、1件ずつ予定を追加することもできます。</li>
+            </ul>
+
+            {viewer.isPaid || calendarFeedState.feed ? (
+              <CalendarFeedPanel initialUrl={calendarFeedState.feed?.url ?? null} />
+            ) : (
+              <p className={styles.sectionLead}>カレンダー連携は有料会員向けの機能です。</p>
+            )}
+          </section>
+        ) : null}
+
+        {viewer && decisionFrameState ? (
+          <section className={styles.section}>
+            <div>
+              <p className={styles.eyebrow}>判断フレーム</p>
+              <h2>自分の判断フレーム</h2>
+            </div>
+
+            <ul className={styles.list}>
+              <li>入力項目と計算式（例: 費用 ÷ 使う時間）、採用・見送りのラインを決めて、自分専用の判断基準を作れます。</li>
+              <li>作ったフレームは、トピックカードや AI で作ったカードの計算ツールで選んで使えます。</li>
+            </ul>
+
+            {viewer.isPaid || decisionFrameState.frames.length > 0 ? (
+              <DecisionFrameEditor initialFrames={decisionFrameState.frames} canEdit={viewer.isPaid} />
+            ) : (
+              <p className={styles.sectionLead}>自分の判断フレームは有料会員向けの機能です。</p>
+            )}
+            {decisionFrameState.error ? (
+              <p className={styles.sectionLead}>判断フレームを読み込めませんでした。時間をおいて再読み込みしてください。</p>
+            ) : null}
+          </section>
+        ) : null}
+
+        {viewer ? (
+          <section className={styles.section}>
+            <div>
+              <p className={styles.eyebrow}>お便り</p>
+              <h2>番組へのお便り</h2>
+            </div>
+
+            <ul className={styles.list}>
+              <li>取り上げてほしい話題や質問を番組に送れます。</li>
+              <li>送ったお便りの確認状況は、お便りページでいつでも確認できます。</li>
+            </ul>
+
+            <div className={styles.ctaRow}>
+              <Link href="/letters" className={styles.primaryLink}>
+                お便りを送る・確認する
+              </Link>
+            </div>
+          </section>
+        ) : null}
+
+        {viewer ? (
+          <section className={styles.section}>
+            <div>
+              <p className={styles.eyebrow}>データ</p>
+              <h2>履歴の書き出しと復元</h2>
+            </div>
+
+            <ul className={styles.list}>
+              <li>採用履歴・ウォッチリスト・AI で作ったカードを CSV / JSON で書き出せます。</li>
+              <li>JSON はこのサービスに読み込んで復元できます。同じカードは重複して保存されません。</li>
+            </ul>
+
+            <DecisionExportPanel page="/account" />
+          </section>
+        ) : null}
+
+        {viewer ? (
+          <section className={styles.section}>
+            <div>
+              <p className={styles.eyebrow}>アカウント</p>
+              <h2>データのダウンロードとアカウント削除</h2>
+            </div>
+
+            <ul className={styles.list}>
+              <li>プロフィール・購読状況・設定・お便り・利用ログなど、保有しているデータを JSON でダウンロードできます。</li>
+              <li>削除は登録メールアドレスに届く確認コードで本人確認してから実行します。有料プランは同時に解約されます。</li>
+              <li>番組で紹介済み、またはチップ付きのお便りは匿名化して残り、それ以外のデータは削除されます。元に戻すことはできません。</li>
+            </ul>
+
+            <AccountDeletionPanel />
           </section>
         ) : null}
       </div>
@@ -8,6 +8,7 @@ const NAV_ITEMS = [
   { href: "/admin/analytics", label: "Analytics" },
   { href: "/admin/trends", label: "Trends" },
   { href: "/admin/job-runs", label: "Job Runs" },
+  { href: "/admin/letters", label: "Letters" },
   { href: "/admin/manual-publish", label: "Publish" }
 ] as const;
 
@@ -1,6 +1,8 @@
 import { requireAdmin } from "@/app/lib/adminGuard";
+import { loadConfidenceCalibration } from "@/app/lib/confidenceCalibration";
 import { createServiceRoleClient } from "@/app/lib/supabaseClients";
 import { buildAnalyticsOverview, type AnalyticsEventRow } from "@/src/lib/analytics";
+import { CALIBRATION_DIMENSIONS } from "@/src/lib/confidenceCalibration";
 import s from "../admin.module.css";
 
 export const dynamic = "force-dynamic";
@@ -34,9 +36,22 @@ const loadAnalyticsEvents = async (): Promise<{ rows: AnalyticsEventRow[]; error
   }
 };
 
+const formatPercent = (value: number | null): string => {
+  return value === null ? "-" : `${Math.round(value * 100)}%`;
+};
+
+const formatGap = (observed: number | null, predicted: number | null): string => {
+  if (observed === null || predicted === null) return "-";
+  const gap = Math.round((observed - predicted) * 100);
+  return `${gap > 0 ? "+" : ""}${gap}pt`;
+};
+
 export default async function AdminAnalyticsPage() {
   await requireAdmin("/admin/analytics");
-  const { rows, error } = await loadAnalyticsEvents();
+  const [{ rows, error }, { calibration, error: calibrationError }] = await Promise.all([
+    loadAnalyticsEvents(),
+    loadConfidenceCalibration()
+  ]);
   const overview = buildAnalyticsOverview(rows, WINDOW_DAYS);
 
   return (
@@ -157,6 +172,98 @@ export default async function AdminAnalyticsPage() {
           )}
         </article>
       </section>
+
+      <section className={s.card}>
+        <h2 className={s.cardHeader}>Confidence Calibration</h2>
+        <p className={s.pageCaption}>
+          判断カードの confidence_score 帯ごとに、保存された判断の結果（success / regret、neutral は除外）を集計した reliability diagram です。
+          灰色が予測 (平均 confidence)、緑が実測の success 率です。
+        </p>
+        {calibrationError ? <p className={s.errorText}>calibration load error: {calibrationError}</p> : null}
+        {calibration.overall.sampleCount === 0 ? (
+          <p className={s.emptyText}>outcome data is empty</p>
+        ) : (
+          <div className={s.tableWrap}>
+            <table className={s.table}>
+              <thead>
+                <tr>
+                  <th>band</th>
+                  <th>samples</th>
+                  <th>resolved</th>
+                  <th>predicted</th>
+                  <th>observed</th>
+                  <th>gap</th>
+                  <th>diagram</th>
+                </tr>
+              </thead>
+              <tbody>
+                {calibration.overall.bands.map((band) => (
+                  <tr key={band.band.key}>
+                    <td>{band.band.label}</td>
+                    <td>{band.sampleCount}</td>
+                    <td>{band.resolvedCount}</td>
+                    <td>{formatPercent(band.meanConfidence)}</td>
+                    <td>{formatPercent(band.observedSuccessRate)}</td>
+                    <td>{formatGap(band.observedSuccessRate, band.meanConfidence)}</td>
+                    <td>
+                      <div className={s.reliabilityBars}>
+                        <div className={s.reliabilityTrack}>
+                          <span
+                            className={s.reliabilityPredicted}
+                            style={{ width: formatPercent(band.meanConfidence ?? 0) }}
+                          />
+                        </div>
+                        <div className={s.reliabilityTrack}>
+                          <span
+                            className={s.reliabilityObserved}
+                            style={{ width: formatPercent(band.observedSuccessRate ?? 0) }}
+                          />
+                        </div>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {calibration.overall.sampleCount > 0 ? (
+        <section className={s.card}>
+          <h2 className={s.cardHeader}>Calibration by Segment</h2>
+          <div className={s.tableWrap}>
+            <table className={s.table}>
+              <thead>
+                <tr>
+                  <th>dimension</th>
+                  <th>segment</th>
+                  <th>samples</th>
+                  <th>resolved</th>
+                  <th>predicted</th>
+                  <th>observed</th>
+                  <th>gap</th>
+                </tr>
+              </thead>
+              <tbody>
+                {CALIBRATION_DIMENSIONS.flatMap((dimension) =>
+                  calibration.segments[dimension].map((table) => (
+                    <tr key={`${dimension}:${table.key}`}>
+                      <td>{dimension}</td>
+                      <td>{table.key}</td>
+                      <td>{table.sampleCount}</td>
+                      <td>{table.resolvedCount}</td>
+                      <td>{formatPercent(table.meanConfidence)}</td>
+                      <td>{formatPercent(table.observedSuccessRate)}</td>
+                      <td>{formatGap(table.observedSuccessRate, table.meanConfidence)}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      ) : null}
     </main>
   );
 }
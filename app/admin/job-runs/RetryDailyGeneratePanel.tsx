@@ -1,14 +1,18 @@
 "use client";
 
 import { useState } from "react";
+import { DAILY_GENERATE_STEPS, type DailyGenerateStep } from "@/src/lib/dailyGenerateCheckpoints";
 import { getMessages } from "@/src/lib/i18n/messages";
 import type { Locale } from "@/src/lib/i18n/locale";
 import s from "../admin.module.css";
 
+type RetryMode = "failed" | "from" | "only" | "full";
+
 type RetryResponse = {
   ok: boolean;
   disabled?: boolean;
   episodeDate: string;
+  stoppedBefore?: string | null;
   runId: string | null;
   status: number;
   error: string | null;
@@ -35,6 +39,8 @@ export default function RetryDailyGeneratePanel({
   locale: Locale;
 }) {
   const [episodeDate, setEpisodeDate] = useState(defaultEpisodeDate);
+  const [mode, setMode] = useState<RetryMode>("failed");
+  const [step, setStep] = useState<DailyGenerateStep>("write-script-ja");
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<RetryResponse | null>(null);
 
@@ -51,7 +57,11 @@ export default function RetryDailyGeneratePanel({
         headers: {
           "Content-Type": "application/json"
         },
-        body: JSON.stringify({ episodeDate })
+        body: JSON.stringify({
+          episodeDate,
+          mode,
+          ...(mode === "from" || mode === "only" ? { step } : {})
+        })
       });
 
       const json = (await response.json().catch(() => null)) as unknown;
@@ -96,6 +106,41 @@ export default function RetryDailyGeneratePanel({
           value={episodeDate}
           onChange={(event) => setEpisodeDate(event.target.value)}
         />
+        <label className={s.inlineLabel} htmlFor="retry-mode-select">
+          {t.retryModeLabel}
+        </label>
+        <select
+          id="retry-mode-select"
+          className={s.fieldInput}
+          style={{ width: "auto" }}
+          value={mode}
+          onChange={(event) => setMode(event.target.value as RetryMode)}
+        >
+          <option value="failed">{t.retryModeFailed}</option>
+          <option value="from">{t.retryModeFrom}</option>
+          <option value="only">{t.retryModeOnly}</option>
+          <option value="full">{t.retryModeFull}</option>
+        </select>
+        {mode === "from" || mode === "only" ? (
+          <>
+            <label className={s.inlineLabel} htmlFor="retry-step-select">
+              {t.retryStepLabel}
+            </label>
+            <select
+              id="retry-step-select"
+              className={s.fieldInput}
+              style={{ width: "auto" }}
+              value={step}
+              onChange={(event) => setStep(event.target.value as DailyGenerateStep)}
+            >
+              {DAILY_GENERATE_STEPS.map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+          </>
+        ) : null}
         <button type="button" className={s.btnPrimary} onClick={onRetry} disabled={loading || !episodeDate}>
           {loading ? t.retrying : t.retryButton}
         </button>
@@ -104,7 +149,9 @@ export default function RetryDailyGeneratePanel({
       {result ? (
         <p className={result.ok ? s.successInline : s.errorInline} style={{ marginTop: "0.75rem" }}>
           {result.ok
-            ? `${t.successPrefix}: ${t.invokedLabel} (run_id=${result.runId ?? "-"}, status=${result.status})`
+            ? `${t.successPrefix}: ${t.invokedLabel} (run_id=${result.runId ?? "-"}, status=${result.status}${
+                result.stoppedBefore ? `, ${t.stoppedBeforeLabel}=${result.stoppedBefore}` : ""
+              })`
             : result.disabled
               ? `${t.disabledPrefix}: ${result.error ?? t.retryDisabledFallback}`
               : `${t.failedPrefix}: ${result.error ?? t.retryFailedFallback} (status=${result.status}, run_id=${result.runId ?? "-"})`}
@@ -1,6 +1,7 @@
 import Link from "next/link";
 import { requireAdmin } from "@/app/lib/adminGuard";
 import { createServiceRoleClient } from "@/app/lib/supabaseClients";
+import { DAILY_GENERATE_CHECKPOINT_JOB_TYPE } from "@/src/lib/dailyGenerateCheckpoints";
 import { resolveLocale } from "@/src/lib/i18n/locale";
 import { getMessages } from "@/src/lib/i18n/messages";
 import RetryDailyGeneratePanel from "./RetryDailyGeneratePanel";
@@ -610,7 +611,11 @@ export default async function JobRunsPage({
                   <tbody>
                     {group.steps.map((step) => (
                       <tr key={step.id}>
-                        <td>{step.job_type}</td>
+                        <td>
+                          {step.job_type === DAILY_GENERATE_CHECKPOINT_JOB_TYPE
+                            ? `${t.checkpointLabel}: ${readPayloadString(step.payload, "step") ?? "-"}`
+                            : step.job_type}
+                        </td>
                         <td>
                           <span className={`${s.badge} ${s[BADGE_CLASS[step.status]]}`}>
                             {step.status}
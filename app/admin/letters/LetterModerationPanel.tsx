@@ -0,0 +1,201 @@
+"use client";
+
+import { useState } from "react";
+import type { LetterModerationItem } from "@/app/lib/letters";
+import {
+  LETTER_CATEGORY_LABELS,
+  LETTER_LISTENER_STATUS_LABELS,
+  isLetterCategory,
+  resolveLetterListenerStatus,
+  type LetterListenerStatus
+} from "@/src/lib/letters";
+import s from "../admin.module.css";
+
+type ModerationResponse = {
+  ok: boolean;
+  letter?: LetterModerationItem;
+  error?: string;
+};
+
+type RowResult = {
+  ok: boolean;
+  message: string;
+};
+
+const STATUS_BADGE_CLASS: Record<LetterListenerStatus, string> = {
+  pending: s.badgeRunning,
+  approved: s.badgeSuccess,
+  used: s.badgeSkipped,
+  blocked: s.badgeFailed
+};
+
+const isModerationResponse = (value: unknown): value is ModerationResponse => {
+  if (!value || typeof value !== "object") return false;
+  const row = value as Record<string, unknown>;
+
+  return (
+    typeof row.ok === "boolean" &&
+    (typeof row.error === "string" || typeof row.error === "undefined") &&
+    (typeof row.letter === "undefined" || (Boolean(row.letter) && typeof row.letter === "object"))
+  );
+};
+
+const formatDateTime = (value: string | null | undefined): string => {
+  if (!value) return "-";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString("ja-JP", { hour12: false });
+};
+
+export default function LetterModerationPanel({ letters }: { letters: LetterModerationItem[] }) {
+  const [rows, setRows] = useState(letters);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [results, setResults] = useState<Record<string, RowResult>>({});
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const moderate = async (letterId: string, action: "approve" | "block") => {
+    setPendingId(letterId);
+    setResults((current) => {
+      const next = { ...current };
+      delete next[letterId];
+      return next;
+    });
+
+    try {
+      const response = await fetch(`/api/admin/letters/${encodeURIComponent(letterId)}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ action, reason: reasons[letterId] ?? "" })
+      });
+
+      const json = (await response.json().catch(() => null)) as unknown;
+      if (!isModerationResponse(json)) {
+        setResults((current) => ({
+          ...current,
+          [letterId]: { ok: false, message: `invalid_response (status=${response.status})` }
+        }));
+        return;
+      }
+
+      if (!json.ok || !json.letter) {
+        setResults((current) => ({
+          ...current,
+          [letterId]: { ok: false, message: json.error ?? `moderation_failed (status=${response.status})` }
+        }));
+        return;
+      }
+
+      const updated = json.letter;
+      setRows((current) => current.map((row) => (row.id === updated.id ? updated : row)));
+      setResults((current) => ({
+        ...current,
+        [letterId]: { ok: true, message: action === "approve" ? "approved" : "blocked" }
+      }));
+    } catch (error) {
+      setResults((current) => ({
+        ...current,
+        [letterId]: { ok: false, message: error instanceof Error ? error.message : "unknown_error" }
+      }));
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <section className={s.card}>
+      <h2 className={s.cardHeader}>Moderation Queue</h2>
+      {rows.length === 0 ? (
+        <p className={s.emptyText}>no letters</p>
+      ) : (
+        <div className={s.tableWrap}>
+          <table className={s.table}>
+            <thead>
+              <tr>
+                <th>received</th>
+                <th>from</th>
+                <th>letter</th>
+                <th>status</th>
+                <th>actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                const status = resolveLetterListenerStatus(row);
+                const result = results[row.id];
+                const isBusy = pendingId === row.id;
+                const isUsed = row.is_used === true;
+
+                return (
+                  <tr key={row.id}>
+                    <td>{formatDateTime(row.created_at)}</td>
+                    <td>
+                      <div>{row.display_name}</div>
+                      <div style={{ fontSize: "0.78rem", color: "#94a3b8" }}>
+                        {isLetterCategory(row.category) ? LETTER_CATEGORY_LABELS[row.category] : row.category ?? "-"}
+                        {row.tip_amount ? ` / tip ${row.tip_amount}` : ""}
+                      </div>
+                    </td>
+                    <td className={s.titleCell} style={{ whiteSpace: "pre-wrap" }}>
+                      {row.text}
+                    </td>
+                    <td>
+                      <span className={`${s.badge} ${STATUS_BADGE_CLASS[status]}`}>
+                        {LETTER_LISTENER_STATUS_LABELS[status]}
+                      </span>
+                      {row.blocked_reason ? (
+                        <div style={{ fontSize: "0.78rem", color: "#94a3b8" }}>{row.blocked_reason}</div>
+                      ) : null}
+                      {row.moderated_at ? (
+                        <div style={{ fontSize: "0.78rem", color: "#94a3b8" }}>
+                          {formatDateTime(row.moderated_at)} {row.moderated_by ?? ""}
+                        </div>
+                      ) : null}
+                    </td>
+                    <td>
+                      {isUsed ? (
+                        <span className={s.emptyText}>used</span>
+                      ) : (
+                        <div className={s.inlineControls}>
+                          <button
+                            type="button"
+                            className={s.btnPrimary}
+                            onClick={() => moderate(row.id, "approve")}
+                            disabled={isBusy || status === "approved"}
+                          >
+                            Approve
+                          </button>
+                          <input
+                            type="text"
+                            className={s.fieldInput}
+                            placeholder="block reason"
+                            value={reasons[row.id] ?? ""}
+                            onChange={(event) =>
+                              setReasons((current) => ({ ...current, [row.id]: event.target.value }))
+                            }
+                          />
+                          <button
+                            type="button"
+                            className={s.btnPrimary}
+                            onClick={() => moderate(row.id, "block")}
+                            disabled={isBusy || !(reasons[row.id] ?? "").trim()}
+                          >
+                            Block
+                          </button>
+                        </div>
+                      )}
+                      {result ? (
+                        <p className={result.ok ? s.successInline : s.errorInline}>{result.message}</p>
+                      ) : null}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
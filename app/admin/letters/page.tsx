@@ -0,0 +1,63 @@
+import Link from "next/link";
+import { requireAdmin } from "@/app/lib/adminGuard";
+import { loadLetterModerationQueue, type LetterModerationFilter } from "@/app/lib/letters";
+import LetterModerationPanel from "./LetterModerationPanel";
+import s from "../admin.module.css";
+
+export const dynamic = "force-dynamic";
+
+type SearchParams = {
+  status?: string | string[];
+};
+
+const FILTERS: { value: LetterModerationFilter; label: string }[] = [
+  { value: "pending", label: "pending" },
+  { value: "approved", label: "approved" },
+  { value: "blocked", label: "blocked" },
+  { value: "all", label: "all" }
+];
+
+const resolveFilter = (value: string | string[] | undefined): LetterModerationFilter => {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return FILTERS.find((filter) => filter.value === raw)?.value ?? "pending";
+};
+
+export default async function AdminLettersPage({
+  searchParams
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  await requireAdmin("/admin/letters");
+  const params = await searchParams;
+  const filter = resolveFilter(params.status);
+  const { letters, error } = await loadLetterModerationQueue(filter);
+
+  return (
+    <main className={s.container}>
+      <div className={s.pageHeader}>
+        <h1 className={s.pageTitle}>Letters</h1>
+        <p className={s.pageCaption}>
+          リスナーから届いたお便りを確認し、番組で扱う候補として承認するか、理由を添えてブロックします。
+          daily-generate は承認済み (moderation_status = ok) のお便りだけを読み込みます。
+        </p>
+      </div>
+
+      <div className={s.filterRow}>
+        <span>status:</span>
+        {FILTERS.map((item) =>
+          item.value === filter ? (
+            <strong key={item.value}>{item.label}</strong>
+          ) : (
+            <Link key={item.value} href={`/admin/letters?status=${item.value}`}>
+              {item.label}
+            </Link>
+          )
+        )}
+      </div>
+
+      {error ? <p className={s.errorText}>load error: {error}</p> : null}
+
+      <LetterModerationPanel letters={letters} />
+    </main>
+  );
+}
@@ -0,0 +1,34 @@
+import { jsonResponse, checkRateLimit } from "@/app/lib/apiResponse";
+import { loadPersonalDataArchive } from "@/app/lib/accountDeletion";
+import { generalLimiter, extractRateLimitKey } from "@/app/lib/rateLimit";
+import { getViewerFromCookies } from "@/app/lib/viewer";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  const rateLimitResponse = await checkRateLimit(generalLimiter, extractRateLimitKey(request));
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const viewer = await getViewerFromCookies();
+  if (!viewer) {
+    return jsonResponse({ ok: false, error: "unauthorized" }, 401);
+  }
+
+  const { archive, error } = await loadPersonalDataArchive({
+    userId: viewer.userId,
+    email: viewer.email
+  });
+
+  if (error || !archive) {
+    return jsonResponse({ ok: false, error: error ?? "export_failed" }, 500);
+  }
+
+  return new Response(JSON.stringify(archive, null, 2), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="personal-data-${archive.exported_at.slice(0, 10)}.json"`,
+      "Cache-Control": "no-store"
+    }
+  });
+}
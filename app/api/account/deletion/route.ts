@@ -0,0 +1,145 @@
+import Stripe from "stripe";
+import { cookies } from "next/headers";
+import {
+  cancelStripeSubscriptions,
+  clearAccountDeletionChallenge,
+  purgeAccountData,
+  readAccountDeletionChallenge,
+  recordAccountDeletionFailure,
+  saveAccountDeletionChallenge
+} from "@/app/lib/accountDeletion";
+import { notifyAccountChange, sendAccountDeletionCodeEmail } from "@/app/lib/accountSecurityNotifications";
+import { jsonResponse, getRequiredEnv, checkRateLimit } from "@/app/lib/apiResponse";
+import { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE } from "@/app/lib/authCookies";
+import { verifyCsrfOrigin } from "@/app/lib/csrf";
+import { adminLimiter, extractRateLimitKey } from "@/app/lib/rateLimit";
+import { getViewerFromCookies } from "@/app/lib/viewer";
+import {
+  evaluateAccountDeletionChallenge,
+  generateAccountDeletionCode,
+  hashAccountDeletionCode,
+  isAccountDeletionConfirmPhrase
+} from "@/app/lib/accountDeletionToken";
+import {
+  ACCOUNT_DELETION_CODE_TTL_MINUTES,
+  describeAccountDeletion,
+  resolveDeletionResendCooldownSeconds
+} from "@/src/lib/accountDeletion";
+
+export const runtime = "nodejs";
+
+type AccountDeletionRequest = {
+  action?: unknown;
+  code?: unknown;
+  confirmation?: unknown;
+};
+
+export async function POST(request: Request) {
+  // Sensitive and rarely used: share the strict admin limiter (10 req / 10 min).
+  const rateLimitResponse = await checkRateLimit(adminLimiter, extractRateLimitKey(request));
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const csrf = verifyCsrfOrigin(request);
+  if (!csrf.ok) {
+    return jsonResponse({ ok: false, error: csrf.error }, 403);
+  }
+
+  const viewer = await getViewerFromCookies();
+  if (!viewer) {
+    return jsonResponse({ ok: false, error: "unauthorized" }, 401);
+  }
+
+  if (!viewer.email) {
+    return jsonResponse({ ok: false, error: "email_required" }, 400);
+  }
+
+  const body = (await request.json().catch(() => ({}))) as AccountDeletionRequest;
+  const action = body.action === "request_code" || body.action === "confirm" ? body.action : null;
+  if (!action) {
+    return jsonResponse({ ok: false, error: "invalid_action" }, 400);
+  }
+
+  try {
+    const challenge = await readAccountDeletionChallenge(viewer.userId);
+
+    if (action === "request_code") {
+      const cooldownSeconds = resolveDeletionResendCooldownSeconds(challenge?.sent_at ?? null);
+      if (cooldownSeconds > 0) {
+        return jsonResponse({ ok: false, error: "code_resend_cooldown", retryAfterSeconds: cooldownSeconds }, 429);
+      }
+
+      const code = generateAccountDeletionCode();
+      const sentAt = new Date();
+      await saveAccountDeletionChallenge({
+        userId: viewer.userId,
+        codeHash: hashAccountDeletionCode(viewer.userId, code),
+        expiresAt: new Date(sentAt.getTime() + ACCOUNT_DELETION_CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+        sentAt: sentAt.toISOString()
+      });
+
+      const emailResult = await sendAccountDeletionCodeEmail({
+        to: viewer.email,
+        code,
+        expiresInMinutes: ACCOUNT_DELETION_CODE_TTL_MINUTES,
+        request
+      });
+
+      if (!emailResult.ok) {
+        await clearAccountDeletionChallenge(viewer.userId).catch(() => undefined);
+        return jsonResponse({ ok: false, error: "code_send_failed" }, 503);
+      }
+
+      return jsonResponse({ ok: true, expiresInMinutes: ACCOUNT_DELETION_CODE_TTL_MINUTES });
+    }
+
+    if (!isAccountDeletionConfirmPhrase(body.confirmation)) {
+      return jsonResponse({ ok: false, error: "confirmation_required" }, 400);
+    }
+
+    const verification = evaluateAccountDeletionChallenge({
+      userId: viewer.userId,
+      challenge,
+      code: typeof body.code === "string" ? body.code : ""
+    });
+
+    if (!verification.ok) {
+      if (verification.error === "invalid_deletion_code" && challenge) {
+        await recordAccountDeletionFailure(viewer.userId, challenge.failed_attempts + 1);
+      }
+      return jsonResponse({ ok: false, error: verification.error }, verification.error === "invalid_deletion_code" ? 400 : 409);
+    }
+
+    let cancelledSubscriptionCount = 0;
+    try {
+      cancelledSubscriptionCount = await cancelStripeSubscriptions(
+        viewer.userId,
+        () => new Stripe(getRequiredEnv("STRIPE_SECRET_KEY"))
+      );
+    } catch (error) {
+      console.error("account_deletion_stripe_cancel_error", { error, userId: viewer.userId });
+      return jsonResponse({ ok: false, error: "subscription_cancel_failed" }, 502);
+    }
+
+    const { anonymisedLetterCount } = await purgeAccountData(viewer.userId, viewer.email);
+
+    const notification = await notifyAccountChange({
+      email: viewer.email,
+      request,
+      changeLabel: "アカウント",
+      changes: describeAccountDeletion({ cancelledSubscriptionCount, anonymisedLetterCount }),
+      forgetRecipient: true
+    });
+    if (!notification.ok && notification.error) {
+      console.error("account_deletion_notification_error", { error: notification.error, userId: viewer.userId });
+    }
+
+    const cookieStore = await cookies();
+    cookieStore.delete(ACCESS_TOKEN_COOKIE);
+    cookieStore.delete(REFRESH_TOKEN_COOKIE);
+
+    return jsonResponse({ ok: true, deleted: true, cancelledSubscriptionCount });
+  } catch (error) {
+    console.error("account_deletion_error", { error, userId: viewer.userId, action });
+    return jsonResponse({ ok: false, error: error instanceof Error ? error.message : "account_deletion_failed" }, 500);
+  }
+}
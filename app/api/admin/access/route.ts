@@ -231,7 +231,9 @@ const sendAdminAccessCodeEmail = async (params: {
       "",
       `確認コード: ${params.code}`,
       `対象画面: ${params.nextPath}`
-    ].join("\n")
+    ].join("\n"),
+    category: "admin_access",
+    sensitive: true
   });
 
   return result;
@@ -247,7 +249,7 @@ export async function POST(request: Request) {
     return json({ ok: false, error: csrf.error }, 403);
   }
 
-  const rateLimitResponse = checkRateLimit(adminLimiter, extractRateLimitKey(request));
+  const rateLimitResponse = await checkRateLimit(adminLimiter, extractRateLimitKey(request));
   if (rateLimitResponse) {
     return rateLimitResponse;
   }
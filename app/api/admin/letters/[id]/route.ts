@@ -0,0 +1,65 @@
+import { verifyAdmin } from "@/app/lib/adminGuard";
+import { verifyCsrfOrigin } from "@/app/lib/csrf";
+import { jsonResponse, checkRateLimit } from "@/app/lib/apiResponse";
+import { applyLetterModeration } from "@/app/lib/letters";
+import { generalLimiter, extractRateLimitKey } from "@/app/lib/rateLimit";
+import { normalizeLetterBlockReason } from "@/src/lib/letters";
+
+export const runtime = "nodejs";
+
+type ModerateLetterRequest = {
+  action?: unknown;
+  reason?: unknown;
+};
+
+// Moderation is a queue of one-click actions, so it uses the general limiter
+// instead of adminLimiter (10 req / 10 min), which is sized for auth/control.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const rateLimitResponse = await checkRateLimit(generalLimiter, extractRateLimitKey(request));
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const csrf = verifyCsrfOrigin(request);
+  if (!csrf.ok) {
+    return jsonResponse({ ok: false, error: csrf.error }, 403);
+  }
+
+  const admin = await verifyAdmin();
+  if (!admin) {
+    return jsonResponse({ ok: false, error: "admin_auth_required" }, 403);
+  }
+
+  const { id } = await params;
+  if (!id.trim()) {
+    return jsonResponse({ ok: false, error: "letter_id_required" }, 400);
+  }
+
+  const body = (await request.json().catch(() => ({}))) as ModerateLetterRequest;
+  if (body.action !== "approve" && body.action !== "block") {
+    return jsonResponse({ ok: false, error: "invalid_action" }, 400);
+  }
+
+  const reason = normalizeLetterBlockReason(body.reason);
+  if (body.action === "block" && !reason) {
+    return jsonResponse({ ok: false, error: "block_reason_required" }, 400);
+  }
+
+  const { letter, error } = await applyLetterModeration({
+    letterId: id,
+    action: body.action,
+    reason,
+    moderatedBy: admin.email ?? admin.userId
+  });
+
+  if (error) {
+    return jsonResponse({ ok: false, error }, 500);
+  }
+
+  if (!letter) {
+    return jsonResponse({ ok: false, error: "letter_not_found_or_used" }, 404);
+  }
+
+  return jsonResponse({ ok: true, letter });
+}
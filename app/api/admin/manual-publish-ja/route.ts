@@ -33,7 +33,7 @@ const resolveTtsBaseUrl = (request: NextRequest): string => {
 };
 
 export async function POST(request: NextRequest) {
-  const rateLimitResponse = checkRateLimit(adminLimiter, extractRateLimitKey(request));
+  const rateLimitResponse = await checkRateLimit(adminLimiter, extractRateLimitKey(request));
   if (rateLimitResponse) {
     return rateLimitResponse;
   }
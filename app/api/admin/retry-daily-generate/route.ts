@@ -3,13 +3,24 @@ import { verifyAdmin } from "@/app/lib/adminGuard";
 import { verifyCsrfOrigin } from "@/app/lib/csrf";
 import { adminLimiter, extractRateLimitKey } from "@/app/lib/rateLimit";
 import { checkRateLimit } from "@/app/lib/apiResponse";
+import {
+  isDailyGenerateResumeMode,
+  isDailyGenerateStep,
+  type DailyGenerateResumeMode,
+  type DailyGenerateStep
+} from "@/src/lib/dailyGenerateCheckpoints";
 
 const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
+/** `full` reruns every step; the others are passed to daily-generate as `resumeMode`. */
+type RetryMode = DailyGenerateResumeMode | "full";
+
 type RetryResponse = {
   ok: boolean;
   disabled?: boolean;
   episodeDate: string;
+  mode?: RetryMode;
+  stoppedBefore?: string | null;
   runId: string | null;
   status: number;
   error: string | null;
@@ -62,7 +73,7 @@ const buildResponse = (value: RetryResponse, status?: number) => {
 };
 
 export async function POST(req: NextRequest) {
-  const rateLimitResponse = checkRateLimit(adminLimiter, extractRateLimitKey(req));
+  const rateLimitResponse = await checkRateLimit(adminLimiter, extractRateLimitKey(req));
   if (rateLimitResponse) {
     return rateLimitResponse;
   }
@@ -90,6 +101,11 @@ export async function POST(req: NextRequest) {
   const body = (await req.json().catch(() => ({}))) as unknown;
   const requestedDate = isRecord(body) && typeof body.episodeDate === "string" ? body.episodeDate : null;
   const episodeDate = requestedDate && DATE_PATTERN.test(requestedDate) ? requestedDate : fallbackEpisodeDate;
+  const requestedMode = isRecord(body) ? body.mode : undefined;
+  const mode: RetryMode =
+    requestedMode === "full" || isDailyGenerateResumeMode(requestedMode) ? requestedMode : "failed";
+  const step: DailyGenerateStep | null =
+    isRecord(body) && isDailyGenerateStep(body.step) ? body.step : null;
 
   const admin = await verifyAdmin();
   if (!admin && !isLocalEnvironment(supabaseUrl)) {
@@ -106,6 +122,20 @@ export async function POST(req: NextRequest) {
     );
   }
 
+  if ((mode === "from" || mode === "only") && !step) {
+    return buildResponse(
+      {
+        ok: false,
+        episodeDate,
+        mode,
+        runId: null,
+        status: 400,
+        error: "retry_step_required"
+      },
+      400
+    );
+  }
+
   if (!functionsBaseUrl || !serviceRoleKey) {
     return buildResponse(
       {
@@ -128,7 +158,11 @@ export async function POST(req: NextRequest) {
         Authorization: `Bearer ${serviceRoleKey}`,
         apikey: serviceRoleKey
       },
-      body: JSON.stringify({ episodeDate }),
+      body: JSON.stringify({
+        episodeDate,
+        ...(mode === "full" ? {} : { resumeMode: mode }),
+        ...(step && (mode === "from" || mode === "only") ? { resumeStep: step } : {})
+      }),
       cache: "no-store"
     });
 
@@ -136,10 +170,14 @@ export async function POST(req: NextRequest) {
     const runId = isRecord(payload) && typeof payload.runId === "string" ? payload.runId : null;
     const ok = response.ok && isRecord(payload) && payload.ok === true;
     const error = isRecord(payload) && typeof payload.error === "string" ? payload.error : null;
+    const stoppedBefore =
+      isRecord(payload) && typeof payload.stoppedBefore === "string" ? payload.stoppedBefore : null;
 
     return buildResponse({
       ok,
       episodeDate,
+      mode,
+      stoppedBefore,
       runId,
       status: response.status,
       error: ok ? null : error ?? `daily_generate_http_${response.status}`
@@ -18,7 +18,7 @@ export async function PATCH(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const rateLimitResponse = checkRateLimit(generalLimiter, extractRateLimitKey(request));
+  const rateLimitResponse = await checkRateLimit(generalLimiter, extractRateLimitKey(request));
   if (rateLimitResponse) return rateLimitResponse;
 
   const csrf = verifyCsrfOrigin(request);
@@ -8,8 +8,10 @@ import {
 } from "@/app/lib/accountSecurityNotifications";
 import {
   loadUserNotificationPreferences,
+  recordNotificationPreferenceChange,
   upsertUserNotificationPreferences
 } from "@/app/lib/userNotificationPreferences";
+import { parseNotificationDeliverySchedule } from "@/src/lib/alertDelivery";
 
 export const runtime = "nodejs";
 
@@ -17,6 +19,13 @@ type NotificationPreferencesRequest = {
   weeklyDigestEnabled?: unknown;
   deadlineAlertEnabled?: unknown;
   outcomeReminderEnabled?: unknown;
+  timezone?: unknown;
+  deliveryWindowStartHour?: unknown;
+  deliveryWindowEndHour?: unknown;
+  quietHoursStartHour?: unknown;
+  quietHoursEndHour?: unknown;
+  dailyBundleEnabled?: unknown;
+  pushEnabled?: unknown;
 };
 
 const toBoolean = (value: unknown): boolean | null => {
@@ -41,7 +50,7 @@ export async function GET() {
 }
 
 export async function POST(request: Request) {
-  const rateLimitResponse = checkRateLimit(generalLimiter, extractRateLimitKey(request));
+  const rateLimitResponse = await checkRateLimit(generalLimiter, extractRateLimitKey(request));
   if (rateLimitResponse) return rateLimitResponse;
 
   const csrf = verifyCsrfOrigin(request);
@@ -68,10 +77,31 @@ export async function POST(request: Request) {
     return jsonResponse({ ok: false, error: current.error }, 500);
   }
 
+  const pushEnabled = body.pushEnabled === undefined ? current.preferences.pushEnabled : toBoolean(body.pushEnabled);
+  if (pushEnabled === null) {
+    return jsonResponse({ ok: false, error: "invalid_notification_preferences" }, 400);
+  }
+
+  // Schedule fields are optional; omitted ones keep their saved values.
+  const schedule = parseNotificationDeliverySchedule({
+    timezone: body.timezone ?? current.preferences.timezone,
+    deliveryWindowStartHour: body.deliveryWindowStartHour ?? current.preferences.deliveryWindowStartHour,
+    deliveryWindowEndHour: body.deliveryWindowEndHour ?? current.preferences.deliveryWindowEndHour,
+    quietHoursStartHour: "quietHoursStartHour" in body ? body.quietHoursStartHour : current.preferences.quietHoursStartHour,
+    quietHoursEndHour: "quietHoursEndHour" in body ? body.quietHoursEndHour : current.preferences.quietHoursEndHour,
+    dailyBundleEnabled: body.dailyBundleEnabled ?? current.preferences.dailyBundleEnabled
+  });
+
+  if (!schedule) {
+    return jsonResponse({ ok: false, error: "invalid_notification_schedule" }, 400);
+  }
+
   const { preferences, error } = await upsertUserNotificationPreferences(viewer.userId, {
     weeklyDigestEnabled,
     deadlineAlertEnabled,
-    outcomeReminderEnabled
+    outcomeReminderEnabled,
+    ...schedule,
+    pushEnabled
   });
 
   if (error) {
@@ -80,6 +110,19 @@ export async function POST(request: Request) {
 
   const changes = describeNotificationPreferenceChanges(current.preferences, preferences);
   if (changes.length > 0) {
+    void recordNotificationPreferenceChange({
+      userId: viewer.userId,
+      source: "settings",
+      before: current.preferences,
+      after: preferences,
+      changes
+    }).catch((auditError: unknown) => {
+      console.error("notification_preference_audit_error", {
+        error: auditError instanceof Error ? auditError.message : auditError,
+        userId: viewer.userId
+      });
+    });
+
     void notifyAccountChange({
       email: viewer.email,
       request,
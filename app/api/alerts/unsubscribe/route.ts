@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { checkRateLimit, jsonResponse, toNonEmptyString } from "@/app/lib/apiResponse";
+import { EMAIL_UNSUBSCRIBE_PAGE_PATH, unsubscribeWithToken } from "@/app/lib/emailUnsubscribe";
+import { extractRateLimitKey, generalLimiter } from "@/app/lib/rateLimit";
+
+export const runtime = "nodejs";
+
+/**
+ * Clients that open the List-Unsubscribe URL in a browser land on the
+ * confirmation page instead; GET never changes anything, since link
+ * scanners prefetch URLs in emails.
+ */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const target = new URL(EMAIL_UNSUBSCRIBE_PAGE_PATH, url.origin);
+  const token = url.searchParams.get("token");
+  if (token) {
+    target.searchParams.set("token", token);
+  }
+
+  return NextResponse.redirect(target, { status: 303 });
+}
+
+/**
+ * RFC 8058 one-click unsubscribe. Mail clients POST `List-Unsubscribe=One-Click`
+ * as a form body with the token in the query string; the confirmation page
+ * sends `{ token }` as JSON. No login or CSRF check: the signed token is the
+ * credential, and the request comes from the mail provider, not our origin.
+ */
+export async function POST(request: Request) {
+  const rateLimitResponse = await checkRateLimit(generalLimiter, extractRateLimitKey(request));
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const url = new URL(request.url);
+  let token = toNonEmptyString(url.searchParams.get("token"));
+  if (!token && request.headers.get("content-type")?.includes("application/json")) {
+    const body = (await request.json().catch(() => ({}))) as { token?: unknown };
+    token = toNonEmptyString(body.token);
+  }
+
+  if (!token) {
+    return jsonResponse({ ok: false, error: "invalid_unsubscribe_token" }, 400);
+  }
+
+  const result = await unsubscribeWithToken(token);
+  if (!result.ok) {
+    return jsonResponse({ ok: false, error: result.error }, result.status);
+  }
+
+  return jsonResponse({
+    ok: true,
+    scope: result.scope,
+    preferences: result.preferences
+  });
+}
@@ -12,7 +12,7 @@ type TrackAnalyticsRequest = {
 };
 
 export async function POST(request: Request): Promise<Response> {
-  const rateLimitResponse = checkRateLimit(analyticsLimiter, extractRateLimitKey(request));
+  const rateLimitResponse = await checkRateLimit(analyticsLimiter, extractRateLimitKey(request));
   if (rateLimitResponse) return rateLimitResponse;
 
   const viewer = await getViewerFromCookies();
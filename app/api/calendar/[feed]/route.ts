@@ -0,0 +1,52 @@
+import { checkRateLimit } from "@/app/lib/apiResponse";
+import { loadCalendarFeedByToken } from "@/app/lib/calendarFeed";
+import { extractRateLimitKey, generalLimiter } from "@/app/lib/rateLimit";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const decodeFeedSegment = (feed: string): string | null => {
+  try {
+    return decodeURIComponent(feed);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * `/api/calendar/<token>.ics`, polled by calendar apps without cookies: the
+ * signed token is the credential. Malformed, unknown, rotated and disabled
+ * tokens all get the same 404.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ feed: string }> }
+): Promise<Response> {
+  const rateLimitResponse = await checkRateLimit(generalLimiter, extractRateLimitKey(request));
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const { feed } = await params;
+  const match = decodeFeedSegment(feed)?.match(/^(.+)\.ics$/i);
+  if (!match) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  const { calendar, error } = await loadCalendarFeedByToken(match[1]);
+  if (error === "calendar_feed_not_found") {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  if (error || calendar === null) {
+    console.error("calendar_feed_error", { error });
+    return new Response("Internal Server Error", { status: 500 });
+  }
+
+  return new Response(calendar, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="decisions.ics"',
+      "Cache-Control": "private, no-store"
+    }
+  });
+}
@@ -0,0 +1,60 @@
+import { jsonResponse, checkRateLimit } from "@/app/lib/apiResponse";
+import { loadJudgmentCardCalendar } from "@/app/lib/calendarFeed";
+import { generalLimiter, extractRateLimitKey } from "@/app/lib/rateLimit";
+import { getViewerFromCookies } from "@/app/lib/viewer";
+import { recordAnalyticsEvent } from "@/src/lib/analytics";
+import { isCalendarJudgmentCardId } from "@/src/lib/calendarFeed";
+
+export const runtime = "nodejs";
+
+/** "Add to calendar" for one card's deadline. Deadlines are a paid detail. */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const rateLimitResponse = await checkRateLimit(generalLimiter, extractRateLimitKey(request));
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const viewer = await getViewerFromCookies();
+  if (!viewer) {
+    return jsonResponse({ ok: false, error: "unauthorized" }, 401);
+  }
+
+  if (!viewer.isPaid) {
+    return jsonResponse({ ok: false, error: "paid_plan_required" }, 403);
+  }
+
+  const { id } = await params;
+  if (!isCalendarJudgmentCardId(id)) {
+    return jsonResponse({ ok: false, error: "card_not_found" }, 404);
+  }
+
+  const { calendar, error } = await loadJudgmentCardCalendar(id);
+  if (error === "card_not_found" || error === "card_has_no_deadline") {
+    return jsonResponse({ ok: false, error }, 404);
+  }
+
+  if (error || calendar === null) {
+    return jsonResponse({ ok: false, error: error ?? "calendar_card_load_failed" }, 500);
+  }
+
+  try {
+    await recordAnalyticsEvent({
+      eventName: "calendar_card_download",
+      viewer,
+      source: "judgment_card",
+      properties: { judgment_card_id: id }
+    });
+  } catch (analyticsError) {
+    console.error("calendar_card_analytics_error", { error: analyticsError });
+  }
+
+  return new Response(calendar, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `attachment; filename="decision-${id}.ics"`,
+      "Cache-Control": "no-store"
+    }
+  });
+}
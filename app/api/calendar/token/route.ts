@@ -0,0 +1,81 @@
+import { verifyCsrfOrigin } from "@/app/lib/csrf";
+import { jsonResponse, checkRateLimit } from "@/app/lib/apiResponse";
+import { disableCalendarFeed, isCalendarFeedConfigured, loadCalendarFeedState, rotateCalendarFeedToken } from "@/app/lib/calendarFeed";
+import { generalLimiter, extractRateLimitKey } from "@/app/lib/rateLimit";
+import { getViewerFromCookies, type ViewerState } from "@/app/lib/viewer";
+import { recordAnalyticsEvent } from "@/src/lib/analytics";
+
+export const runtime = "nodejs";
+
+const recordCalendarFeedEvent = async (
+  eventName: "calendar_feed_enable" | "calendar_feed_rotate" | "calendar_feed_disable",
+  viewer: ViewerState
+) => {
+  try {
+    await recordAnalyticsEvent({ eventName, viewer, source: "account_settings" });
+  } catch (error) {
+    console.error("calendar_feed_analytics_error", { error, eventName });
+  }
+};
+
+/** Turns the feed on, or replaces the URL when it is already on. */
+export async function POST(request: Request) {
+  const rateLimitResponse = await checkRateLimit(generalLimiter, extractRateLimitKey(request));
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const csrf = verifyCsrfOrigin(request);
+  if (!csrf.ok) {
+    return jsonResponse({ ok: false, error: csrf.error }, 403);
+  }
+
+  const viewer = await getViewerFromCookies();
+  if (!viewer) {
+    return jsonResponse({ ok: false, error: "unauthorized" }, 401);
+  }
+
+  if (!viewer.isPaid) {
+    return jsonResponse({ ok: false, error: "paid_plan_required" }, 403);
+  }
+
+  if (!isCalendarFeedConfigured()) {
+    return jsonResponse({ ok: false, error: "calendar_feed_not_configured" }, 503);
+  }
+
+  const { feed: previous, error: loadError } = await loadCalendarFeedState(viewer.userId);
+  if (loadError) {
+    return jsonResponse({ ok: false, error: loadError }, 500);
+  }
+
+  const { feed, error } = await rotateCalendarFeedToken(viewer.userId);
+  if (error || !feed) {
+    return jsonResponse({ ok: false, error: error ?? "calendar_feed_rotate_failed" }, 500);
+  }
+
+  await recordCalendarFeedEvent(previous ? "calendar_feed_rotate" : "calendar_feed_enable", viewer);
+
+  return jsonResponse({ ok: true, url: feed.url });
+}
+
+export async function DELETE(request: Request) {
+  const rateLimitResponse = await checkRateLimit(generalLimiter, extractRateLimitKey(request));
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const csrf = verifyCsrfOrigin(request);
+  if (!csrf.ok) {
+    return jsonResponse({ ok: false, error: csrf.error }, 403);
+  }
+
+  const viewer = await getViewerFromCookies();
+  if (!viewer) {
+    return jsonResponse({ ok: false, error: "unauthorized" }, 401);
+  }
+
+  const { error } = await disableCalendarFeed(viewer.userId);
+  if (error) {
+    return jsonResponse({ ok: false, error }, 500);
+  }
+
+  await recordCalendarFeedEvent("calendar_feed_disable", viewer);
+
+  return jsonResponse({ ok: true });
+}
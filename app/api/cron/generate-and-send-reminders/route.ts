@@ -1,6 +1,7 @@
 import { createServiceRoleClient } from "@/app/lib/supabaseClients";
-import { sendEmail } from "@/app/lib/email";
-import { buildAlertEmail } from "@/app/lib/emailTemplates";
+import { deliverAlertEmails } from "@/app/lib/alertEmailDelivery";
+import { buildAlertDeliveryDueFilter, markAlertsHeldBack } from "@/app/lib/alerts";
+import { loadAlertRecipientPreferences } from "@/app/lib/userNotificationPreferences";
 import {
   buildOutcomeReminderAlerts,
   buildWatchlistDueSoonAlerts,
@@ -49,13 +50,6 @@ type ProfileRow = {
   email: string | null;
 };
 
-type NotificationPreferencesRow = {
-  user_id: string;
-  weekly_digest_enabled: boolean;
-  deadline_alert_enabled: boolean;
-  outcome_reminder_enabled: boolean;
-};
-
 type AlertType = "deadline_due_soon" | "outcome_reminder" | "weekly_digest_ready" | "watchlist_due_soon";
 type AlertSourceKind = "judgment_card" | "user_decision" | "weekly_digest";
 type AlertUrgency = "critical" | "high" | "medium" | "low";
@@ -169,18 +163,9 @@ export async function POST(request: Request) {
   }
 
   // Step 4: Fetch notification preferences
-  const { data: prefRows, error: prefError } = await supabase
-    .from("user_notification_preferences")
-    .select("user_id, weekly_digest_enabled, deadline_alert_enabled, outcome_reminder_enabled")
-    .in("user_id", userIds);
-
+  const { recipients, error: prefError } = await loadAlertRecipientPreferences(userIds);
   if (prefError) {
-    return jsonResponse({ ok: false, error: prefError.message }, 500);
-  }
-
-  const prefsByUserId = new Map<string, NotificationPreferencesRow>();
-  for (const row of (prefRows as NotificationPreferencesRow[] | null) ?? []) {
-    prefsByUserId.set(row.user_id, row);
+    return jsonResponse({ ok: false, error: prefError }, 500);
   }
 
   // Step 5: Generate alert candidates per user
@@ -204,10 +189,10 @@ export async function POST(request: Request) {
   }
 
   for (const userId of userIds) {
-    const prefs = prefsByUserId.get(userId);
+    const prefs = recipients.get(userId)?.preferences;
 
     // Generate outcome reminder alerts
-    if (prefs?.outcome_reminder_enabled !== false) {
+    if (prefs?.outcomeReminderEnabled !== false) {
       const userDecisions = decisionsByUser.get(userId) ?? [];
       const outcomeDecisions: OutcomeReminderDecision[] = userDecisions.map((d) => ({
         id: d.id,
@@ -229,7 +214,7 @@ export async function POST(request: Request) {
     }
 
     // Generate watchlist due soon alerts
-    if (prefs?.deadline_alert_enabled !== false) {
+    if (prefs?.deadlineAlertEnabled !== false) {
       const userWatchlist = watchlistByUser.get(userId) ?? [];
       const watchlistForAlerts = userWatchlist.map((w) => ({
         id: w.id,
@@ -293,6 +278,7 @@ export async function POST(request: Request) {
     .eq("is_sent", false)
     .is("dismissed_at", null)
     .in("alert_type", ["outcome_reminder", "watchlist_due_soon"])
+    .or(buildAlertDeliveryDueFilter(now))
     .order("created_at", { ascending: true })
     .limit(MAX_EMAILS_PER_RUN);
 
@@ -321,22 +307,11 @@ export async function POST(request: Request) {
 
   const unsentAlerts = (unsentRows as AlertRow[] | null) ?? [];
 
-  let sent = 0;
-  let skipped = 0;
-  let failed = 0;
-  const sentIds: string[] = [];
-
-  for (const alertRow of unsentAlerts) {
-    const email = emailByUserId.get(alertRow.user_id);
-    if (!email) {
-      skipped++;
-      continue;
-    }
-
+  const storedAlerts = unsentAlerts.map((alertRow): StoredAlertForEmail => {
     const payload = alertRow.alert_payload ?? {};
     const links = Array.isArray(payload.links) ? payload.links.filter(isAlertLink) : [];
 
-    const storedAlert: StoredAlertForEmail = {
+    return {
       id: alertRow.id,
       userId: alertRow.user_id,
       alertType: alertRow.alert_type as AlertType,
@@ -357,21 +332,18 @@ export async function POST(request: Request) {
       previewLimited: Boolean(payload.preview_limited),
       links
     };
+  });
 
-    const emailContent = buildAlertEmail(storedAlert);
-    const result = await sendEmail({
-      to: email,
-      subject: emailContent.subject,
-      html: emailContent.html,
-      text: emailContent.text
-    });
-
-    if (result.ok) {
-      sent++;
-      sentIds.push(alertRow.id);
-    } else {
-      failed++;
-    }
+  const { sentIds, heldBack, sent, queued, skipped, failed, deferred, bundled } = await deliverAlertEmails({
+    alerts: storedAlerts,
+    emailByUserId,
+    recipientPreferences: recipients,
+    now
+  });
+
+  const { error: holdError } = await markAlertsHeldBack(heldBack);
+  if (holdError) {
+    console.error("alert_hold_save_error", { error: holdError });
   }
 
   // Mark sent alerts
@@ -382,5 +354,5 @@ export async function POST(request: Request) {
       .in("id", sentIds);
   }
 
-  return jsonResponse({ ok: true, generated, sent, skipped, failed });
+  return jsonResponse({ ok: true, generated, sent, queued, skipped, failed, deferred, bundled });
 }
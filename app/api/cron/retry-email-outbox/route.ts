@@ -0,0 +1,26 @@
+import { jsonResponse } from "@/app/lib/apiResponse";
+import { retryOutboxEmails } from "@/app/lib/email";
+
+export const runtime = "nodejs";
+
+const MAX_RETRIES_PER_RUN = 50;
+
+export async function POST(request: Request) {
+  // Authenticate via CRON_SECRET (timing-safe comparison)
+  const { verifyCronSecret } = await import("@/app/lib/cronAuth");
+  const cronAuth = verifyCronSecret(request);
+  if (!cronAuth.ok) {
+    return jsonResponse({ ok: false, error: cronAuth.error }, cronAuth.status);
+  }
+
+  try {
+    const summary = await retryOutboxEmails({ limit: MAX_RETRIES_PER_RUN });
+    return jsonResponse({ ok: true, ...summary });
+  } catch (error) {
+    console.error("email_outbox_retry_error", { error });
+    return jsonResponse(
+      { ok: false, error: error instanceof Error ? error.message : "email_outbox_retry_failed" },
+      500
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { jsonResponse } from "@/app/lib/apiResponse";
+import { deliverAlertPushes } from "@/app/lib/alertPushDelivery";
+import { loadPendingPushAlerts, markAlertsHeldBack, markAlertsPushed } from "@/app/lib/alerts";
+import { loadPushSubscriptions } from "@/app/lib/pushSubscriptions";
+import { loadAlertRecipientPreferences } from "@/app/lib/userNotificationPreferences";
+import { resolveVapidConfig } from "@/app/lib/webPush";
+import { PUSH_ALERT_MAX_AGE_HOURS } from "@/src/lib/pushNotifications";
+
+export const runtime = "nodejs";
+
+const MAX_ALERTS_PER_RUN = 100;
+
+export async function POST(request: Request) {
+  // Authenticate via CRON_SECRET (timing-safe comparison)
+  const { verifyCronSecret } = await import("@/app/lib/cronAuth");
+  const cronAuth = verifyCronSecret(request);
+  if (!cronAuth.ok) {
+    return jsonResponse({ ok: false, error: cronAuth.error }, cronAuth.status);
+  }
+
+  const config = resolveVapidConfig();
+  if (!config) {
+    return jsonResponse({ ok: false, error: "web_push_not_configured" }, 503);
+  }
+
+  const now = new Date();
+  const since = new Date(now.getTime() - PUSH_ALERT_MAX_AGE_HOURS * 60 * 60 * 1000).toISOString();
+
+  // Alerts come from syncUserAlerts / the reminder cron (buildUserAlertCandidates)
+  const { alerts, error: alertError } = await loadPendingPushAlerts({ since, limit: MAX_ALERTS_PER_RUN, now });
+  if (alertError) {
+    return jsonResponse({ ok: false, error: alertError }, 500);
+  }
+
+  if (alerts.length === 0) {
+    return jsonResponse({ ok: true, sent: 0, skipped: 0, failed: 0 });
+  }
+
+  const userIds = [...new Set(alerts.map((alert) => alert.userId))];
+
+  const { subscriptionsByUserId, error: subscriptionError } = await loadPushSubscriptions(userIds);
+  if (subscriptionError) {
+    return jsonResponse({ ok: false, error: subscriptionError }, 500);
+  }
+
+  const { recipients, error: prefError } = await loadAlertRecipientPreferences(userIds);
+  if (prefError) {
+    return jsonResponse({ ok: false, error: prefError }, 500);
+  }
+
+  const { sentIds, heldBack, sent, skipped, failed, deferred, removedSubscriptions } = await deliverAlertPushes({
+    alerts,
+    subscriptionsByUserId,
+    recipientPreferences: recipients,
+    config,
+    now
+  });
+
+  const { error: holdError } = await markAlertsHeldBack(heldBack, "push_deliver_after");
+  if (holdError) {
+    console.error("alert_hold_save_error", { error: holdError, channel: "push" });
+  }
+
+  const { error: updateError } = await markAlertsPushed(sentIds, now.toISOString());
+  if (updateError) {
+    return jsonResponse({
+      ok: true,
+      sent,
+      skipped,
+      failed,
+      deferred,
+      removedSubscriptions,
+      warning: `pushed ${sent} alerts but failed to update push_sent_at: ${updateError}`
+    });
+  }
+
+  return jsonResponse({ ok: true, sent, skipped, failed, deferred, removedSubscriptions });
+}
@@ -1,27 +1,16 @@
 import { createServiceRoleClient } from "@/app/lib/supabaseClients";
 import { sendEmail } from "@/app/lib/email";
-import { buildAlertEmail } from "@/app/lib/emailTemplates";
-import {
-  buildWeeklyDigestReadyAlerts,
-  type AlertWeeklyDigest,
-  type UserAlertCandidate
-} from "@/src/lib/alerts";
+import { buildWeeklyDigestEmail } from "@/app/lib/emailTemplates";
+import { buildEmailUnsubscribeLinks } from "@/app/lib/emailUnsubscribe";
+import { buildWeeklyDigestReadyAlerts, type AlertWeeklyDigest } from "@/src/lib/alerts";
 import { buildWeeklyDecisionDigest } from "@/src/lib/weeklyDecisionDigest";
-import type { JudgmentType } from "@/src/lib/judgmentCards";
+import type { JudgmentThresholdJson, JudgmentType } from "@/src/lib/judgmentCards";
+import type { OutcomeReminderDecision } from "@/src/lib/outcomeReminder";
 
 export const runtime = "nodejs";
 
 const MAX_EMAILS_PER_RUN = 50;
 
-type AlertLink = {
-  href: string;
-  label: string;
-};
-
-type AlertType = "deadline_due_soon" | "outcome_reminder" | "weekly_digest_ready" | "watchlist_due_soon";
-type AlertSourceKind = "judgment_card" | "user_decision" | "weekly_digest";
-type AlertUrgency = "critical" | "high" | "medium" | "low";
-
 type ProfileRow = {
   id: string;
   email: string | null;
@@ -34,6 +23,10 @@ type NotificationPreferencesRow = {
   outcome_reminder_enabled: boolean;
 };
 
+type DecisionRow = OutcomeReminderDecision & {
+  user_id: string;
+};
+
 type SubscriptionRow = {
   user_id: string;
   status: string;
@@ -57,50 +50,13 @@ type JudgmentCardRow = {
   deadline_at: string | null;
   genre: string | null;
   frame_type: string | null;
+  threshold_json: JudgmentThresholdJson | null;
   created_at: string;
   episodes: JoinedEpisodeRow | JoinedEpisodeRow[] | null;
 };
 
-type StoredAlertForEmail = {
-  id: string;
-  userId: string;
-  alertType: AlertType;
-  alertTypeLabel: string;
-  sourceId: string;
-  sourceKind: AlertSourceKind;
-  episodeId: string | null;
-  title: string;
-  summary: string;
-  urgency: AlertUrgency;
-  dueAt: string | null;
-  isRead: boolean;
-  isSent: boolean;
-  createdAt: string;
-  updatedAt: string;
-  judgmentCardId: string | null;
-  userDecisionId: string | null;
-  previewLimited: boolean;
-  links: AlertLink[];
-};
-
-const ALERT_TYPE_LABELS: Record<string, string> = {
-  deadline_due_soon: "期限アラート",
-  watchlist_due_soon: "ウォッチリスト期限",
-  outcome_reminder: "結果リマインダー",
-  weekly_digest_ready: "週次ダイジェスト"
-};
-
 const PAID_STATUSES = new Set(["trialing", "active", "past_due"]);
 
-const isAlertLink = (value: unknown): value is AlertLink => {
-  return Boolean(
-    value &&
-      typeof value === "object" &&
-      typeof (value as AlertLink).href === "string" &&
-      typeof (value as AlertLink).label === "string"
-  );
-};
-
 const resolveJoinedEpisode = (
   value: JoinedEpisodeRow | JoinedEpisodeRow[] | null
 ): JoinedEpisodeRow | null => {
@@ -128,7 +84,7 @@ export async function POST(request: Request) {
   const { data: cardRows, error: cardError } = await supabase
     .from("episode_judgment_cards")
     .select(
-      "id, episode_id, topic_title, judgment_type, judgment_summary, deadline_at, genre, frame_type, created_at, episodes!inner(id, title, lang, genre, status, published_at)"
+      "id, episode_id, topic_title, judgment_type, judgment_summary, deadline_at, genre, frame_type, threshold_json, created_at, episodes!inner(id, title, lang, genre, status, published_at)"
     )
     .eq("episodes.status", "published")
     .gte("episodes.published_at", windowStart.toISOString())
@@ -157,6 +113,7 @@ export async function POST(request: Request) {
         deadline_at: row.deadline_at,
         genre: row.genre ?? episode.genre,
         frame_type: row.frame_type,
+        threshold_json: row.threshold_json,
         created_at: row.created_at
       };
     })
@@ -303,9 +260,7 @@ export async function POST(request: Request) {
   // Step 6: Send unsent weekly_digest_ready alerts
   const { data: unsentRows, error: unsentError } = await supabase
     .from("user_alerts")
-    .select(
-      "id, user_id, alert_type, source_id, source_kind, episode_id, title, summary, urgency, due_at, is_read, is_sent, dismissed_at, created_at, updated_at, alert_payload"
-    )
+    .select("id, user_id")
     .eq("is_sent", false)
     .is("dismissed_at", null)
     .eq("alert_type", "weekly_digest_ready")
@@ -319,27 +274,37 @@ export async function POST(request: Request) {
   type AlertRow = {
     id: string;
     user_id: string;
-    alert_type: string;
-    source_id: string;
-    source_kind: string;
-    episode_id: string | null;
-    title: string;
-    summary: string;
-    urgency: string;
-    due_at: string | null;
-    is_read: boolean;
-    is_sent: boolean;
-    dismissed_at: string | null;
-    created_at: string;
-    updated_at: string;
-    alert_payload: Record<string, unknown> | null;
   };
 
   const unsentAlerts = (unsentRows as AlertRow[] | null) ?? [];
 
+  // Unresolved decisions of the recipients, for the "record your outcome" section
+  const recipientIds = [...new Set(unsentAlerts.map((row) => row.user_id))];
+  const decisionsByUserId = new Map<string, OutcomeReminderDecision[]>();
+  if (recipientIds.length > 0) {
+    const { data: decisionRows, error: decisionError } = await supabase
+      .from("user_decisions")
+      .select("id, user_id, judgment_card_id, episode_id, topic_title, frame_type, genre, decision_type, outcome, created_at, deadline_at")
+      .in("user_id", recipientIds)
+      .is("outcome", null)
+      .order("created_at", { ascending: true })
+      .limit(500);
+
+    if (decisionError) {
+      console.error("weekly_digest_decisions_error", { error: decisionError.message });
+    }
+
+    for (const row of (decisionRows as DecisionRow[] | null) ?? []) {
+      const list = decisionsByUserId.get(row.user_id) ?? [];
+      list.push(row);
+      decisionsByUserId.set(row.user_id, list);
+    }
+  }
+
   let sent = 0;
   let skipped = 0;
   let failed = 0;
+  let queued = 0;
   const sentIds: string[] = [];
 
   for (const alertRow of unsentAlerts) {
@@ -349,42 +314,33 @@ export async function POST(request: Request) {
       continue;
     }
 
-    const payload = alertRow.alert_payload ?? {};
-    const links = Array.isArray(payload.links) ? payload.links.filter(isAlertLink) : [];
-
-    const storedAlert: StoredAlertForEmail = {
-      id: alertRow.id,
-      userId: alertRow.user_id,
-      alertType: alertRow.alert_type as AlertType,
-      alertTypeLabel: ALERT_TYPE_LABELS[alertRow.alert_type] ?? alertRow.alert_type,
-      sourceId: alertRow.source_id,
-      sourceKind: alertRow.source_kind as AlertSourceKind,
-      episodeId: alertRow.episode_id,
-      title: alertRow.title,
-      summary: alertRow.summary,
-      urgency: alertRow.urgency as AlertUrgency,
-      dueAt: alertRow.due_at,
-      isRead: alertRow.is_read,
-      isSent: alertRow.is_sent,
-      createdAt: alertRow.created_at,
-      updatedAt: alertRow.updated_at,
-      judgmentCardId: typeof payload.judgment_card_id === "string" ? payload.judgment_card_id : null,
-      userDecisionId: typeof payload.user_decision_id === "string" ? payload.user_decision_id : null,
-      previewLimited: Boolean(payload.preview_limited),
-      links
-    };
-
-    const emailContent = buildAlertEmail(storedAlert);
+    const unsubscribe = buildEmailUnsubscribeLinks({ userId: alertRow.user_id, scope: "weekly_digest" });
+    const emailContent = buildWeeklyDigestEmail({
+      cards,
+      decisions: decisionsByUserId.get(alertRow.user_id) ?? [],
+      isPaid: paidUserIds.has(alertRow.user_id),
+      windowStart: windowStart.toISOString(),
+      windowEnd: windowEnd.toISOString(),
+      now,
+      unsubscribeUrl: unsubscribe?.pageUrl
+    });
     const result = await sendEmail({
       to: email,
       subject: emailContent.subject,
       html: emailContent.html,
-      text: emailContent.text
+      text: emailContent.text,
+      headers: unsubscribe?.headers,
+      userId: alertRow.user_id,
+      category: "alert"
     });
 
     if (result.ok) {
       sent++;
       sentIds.push(alertRow.id);
+    } else if (result.queued) {
+      // The outbox retries it; marking it sent keeps the next run from sending a duplicate.
+      queued++;
+      sentIds.push(alertRow.id);
     } else {
       failed++;
     }
@@ -398,5 +354,5 @@ export async function POST(request: Request) {
       .in("id", sentIds);
   }
 
-  return jsonResponse({ ok: true, generated, sent, skipped, failed, totalCards });
+  return jsonResponse({ ok: true, generated, sent, queued, skipped, failed, totalCards });
 }
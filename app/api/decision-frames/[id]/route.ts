@@ -0,0 +1,101 @@
+import { verifyCsrfOrigin } from "@/app/lib/csrf";
+import { jsonResponse, checkRateLimit } from "@/app/lib/apiResponse";
+import { deleteCustomDecisionFrame, updateCustomDecisionFrame } from "@/app/lib/decisionFrames";
+import { generalLimiter, extractRateLimitKey } from "@/app/lib/rateLimit";
+import { getViewerFromCookies, type ViewerState } from "@/app/lib/viewer";
+import { recordAnalyticsEvent } from "@/src/lib/analytics";
+import { parseCustomDecisionFrameDefinition } from "@/src/lib/customDecisionFrames";
+
+export const runtime = "nodejs";
+
+const recordDecisionFrameEvent = async (
+  eventName: "decision_frame_update" | "decision_frame_delete",
+  viewer: ViewerState
+) => {
+  try {
+    await recordAnalyticsEvent({ eventName, viewer, source: "account_settings" });
+  } catch (error) {
+    console.error("decision_frame_analytics_error", { error, eventName });
+  }
+};
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const rateLimitResponse = await checkRateLimit(generalLimiter, extractRateLimitKey(request));
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const csrf = verifyCsrfOrigin(request);
+  if (!csrf.ok) {
+    return jsonResponse({ ok: false, error: csrf.error }, 403);
+  }
+
+  const viewer = await getViewerFromCookies();
+  if (!viewer) {
+    return jsonResponse({ ok: false, error: "unauthorized" }, 401);
+  }
+
+  if (!viewer.isPaid) {
+    return jsonResponse({ ok: false, error: "paid_plan_required" }, 403);
+  }
+
+  const { id } = await params;
+  if (!id.trim()) {
+    return jsonResponse({ ok: false, error: "decision_frame_id_required" }, 400);
+  }
+
+  const body = await request.json().catch(() => null);
+  const parsed = parseCustomDecisionFrameDefinition(body);
+  if (!parsed.ok) {
+    return jsonResponse({ ok: false, error: parsed.error }, 400);
+  }
+
+  const { frame, error } = await updateCustomDecisionFrame(viewer.userId, id, parsed.definition);
+  if (error) {
+    return jsonResponse({ ok: false, error }, 500);
+  }
+  if (!frame) {
+    return jsonResponse({ ok: false, error: "decision_frame_not_found" }, 404);
+  }
+
+  await recordDecisionFrameEvent("decision_frame_update", viewer);
+
+  return jsonResponse({ ok: true, frame });
+}
+
+/** Deleting stays available after the plan lapses so users can tidy up. */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const rateLimitResponse = await checkRateLimit(generalLimiter, extractRateLimitKey(request));
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const csrf = verifyCsrfOrigin(request);
+  if (!csrf.ok) {
+    return jsonResponse({ ok: false, error: csrf.error }, 403);
+  }
+
+  const viewer = await getViewerFromCookies();
+  if (!viewer) {
+    return jsonResponse({ ok: false, error: "unauthorized" }, 401);
+  }
+
+  const { id } = await params;
+  if (!id.trim()) {
+    return jsonResponse({ ok: false, error: "decision_frame_id_required" }, 400);
+  }
+
+  const { deleted, error } = await deleteCustomDecisionFrame(viewer.userId, id);
+  if (error) {
+    return jsonResponse({ ok: false, error }, 500);
+  }
+  if (!deleted) {
+    return jsonResponse({ ok: false, error: "decision_frame_not_found" }, 404);
+  }
+
+  await recordDecisionFrameEvent("decision_frame_delete", viewer);
+
+  return jsonResponse({ ok: true });
+}
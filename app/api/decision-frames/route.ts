@@ -0,0 +1,72 @@
+import { verifyCsrfOrigin } from "@/app/lib/csrf";
+import { jsonResponse, checkRateLimit } from "@/app/lib/apiResponse";
+import { createCustomDecisionFrame, loadCustomDecisionFrames } from "@/app/lib/decisionFrames";
+import { generalLimiter, extractRateLimitKey } from "@/app/lib/rateLimit";
+import { getViewerFromCookies } from "@/app/lib/viewer";
+import { recordAnalyticsEvent } from "@/src/lib/analytics";
+import { CUSTOM_DECISION_FRAME_LIMIT, parseCustomDecisionFrameDefinition } from "@/src/lib/customDecisionFrames";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  const rateLimitResponse = await checkRateLimit(generalLimiter, extractRateLimitKey(request));
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const viewer = await getViewerFromCookies();
+  if (!viewer) {
+    return jsonResponse({ ok: false, error: "unauthorized" }, 401);
+  }
+
+  const { frames, error } = await loadCustomDecisionFrames(viewer.userId);
+  if (error) {
+    return jsonResponse({ ok: false, error }, 500);
+  }
+
+  return jsonResponse({ ok: true, frames });
+}
+
+export async function POST(request: Request) {
+  const rateLimitResponse = await checkRateLimit(generalLimiter, extractRateLimitKey(request));
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const csrf = verifyCsrfOrigin(request);
+  if (!csrf.ok) {
+    return jsonResponse({ ok: false, error: csrf.error }, 403);
+  }
+
+  const viewer = await getViewerFromCookies();
+  if (!viewer) {
+    return jsonResponse({ ok: false, error: "unauthorized" }, 401);
+  }
+
+  if (!viewer.isPaid) {
+    return jsonResponse({ ok: false, error: "paid_plan_required" }, 403);
+  }
+
+  const body = await request.json().catch(() => null);
+  const parsed = parseCustomDecisionFrameDefinition(body);
+  if (!parsed.ok) {
+    return jsonResponse({ ok: false, error: parsed.error }, 400);
+  }
+
+  const { frame, error } = await createCustomDecisionFrame(viewer.userId, parsed.definition);
+  if (error === "decision_frame_limit_reached") {
+    return jsonResponse({ ok: false, error, limit: CUSTOM_DECISION_FRAME_LIMIT }, 403);
+  }
+  if (error || !frame) {
+    return jsonResponse({ ok: false, error: error ?? "decision_frame_create_failed" }, 500);
+  }
+
+  try {
+    await recordAnalyticsEvent({
+      eventName: "decision_frame_create",
+      viewer,
+      source: "account_settings",
+      properties: { field_count: frame.fields.length, better: frame.better }
+    });
+  } catch (analyticsError) {
+    console.error("decision_frame_analytics_error", { error: analyticsError, eventName: "decision_frame_create" });
+  }
+
+  return jsonResponse({ ok: true, frame }, 201);
+}
@@ -0,0 +1,42 @@
+import { jsonResponse, checkRateLimit } from "@/app/lib/apiResponse";
+import { loadDecisionExport } from "@/app/lib/decisionExport";
+import { generalLimiter, extractRateLimitKey } from "@/app/lib/rateLimit";
+import { getViewerFromCookies } from "@/app/lib/viewer";
+import {
+  buildDecisionExportFilename,
+  buildDecisionHistoryCsv,
+  isDecisionExportFormat
+} from "@/src/lib/decisionExport";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  const rateLimitResponse = await checkRateLimit(generalLimiter, extractRateLimitKey(request));
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const viewer = await getViewerFromCookies();
+  if (!viewer) {
+    return jsonResponse({ ok: false, error: "unauthorized" }, 401);
+  }
+
+  const format = new URL(request.url).searchParams.get("format") ?? "json";
+  if (!isDecisionExportFormat(format)) {
+    return jsonResponse({ ok: false, error: "invalid_format" }, 400);
+  }
+
+  const { document, error } = await loadDecisionExport(viewer.userId);
+  if (error) {
+    return jsonResponse({ ok: false, error }, 500);
+  }
+
+  const body = format === "csv" ? buildDecisionHistoryCsv(document.decisions) : JSON.stringify(document, null, 2);
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${buildDecisionExportFilename("decision-history", format)}"`,
+      "Cache-Control": "no-store"
+    }
+  });
+}
@@ -0,0 +1,52 @@
+import { verifyCsrfOrigin } from "@/app/lib/csrf";
+import { jsonResponse, checkRateLimit } from "@/app/lib/apiResponse";
+import { importDecisionExport } from "@/app/lib/decisionExport";
+import { expensiveLimiter, extractRateLimitKey } from "@/app/lib/rateLimit";
+import { getViewerFromCookies } from "@/app/lib/viewer";
+import { MAX_IMPORT_BYTES, parseDecisionImportPayload } from "@/src/lib/decisionExport";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  const rateLimitResponse = await checkRateLimit(expensiveLimiter, extractRateLimitKey(request));
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const csrf = verifyCsrfOrigin(request);
+  if (!csrf.ok) {
+    return jsonResponse({ ok: false, error: csrf.error }, 403);
+  }
+
+  const viewer = await getViewerFromCookies();
+  if (!viewer) {
+    return jsonResponse({ ok: false, error: "unauthorized" }, 401);
+  }
+
+  const rawBody = await request.text().catch(() => "");
+  if (new TextEncoder().encode(rawBody).byteLength > MAX_IMPORT_BYTES) {
+    return jsonResponse({ ok: false, error: "import_too_large" }, 413);
+  }
+
+  let body: unknown = null;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return jsonResponse({ ok: false, error: "invalid_json" }, 400);
+  }
+
+  const parsed = parseDecisionImportPayload(body);
+  if (!parsed.ok) {
+    return jsonResponse({ ok: false, error: parsed.error }, parsed.error === "import_too_large" ? 413 : 400);
+  }
+
+  const { result, error } = await importDecisionExport({
+    userId: viewer.userId,
+    isPaid: viewer.isPaid,
+    payload: parsed.payload
+  });
+
+  if (error || !result) {
+    return jsonResponse({ ok: false, error: error ?? "import_failed" }, 500);
+  }
+
+  return jsonResponse({ ok: true, invalidRows: parsed.invalidCount, ...result });
+}
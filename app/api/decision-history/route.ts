@@ -12,7 +12,7 @@ type SaveDecisionRequest = {
 };
 
 export async function POST(request: Request) {
-  const rateLimitResponse = checkRateLimit(generalLimiter, extractRateLimitKey(request));
+  const rateLimitResponse = await checkRateLimit(generalLimiter, extractRateLimitKey(request));
   if (rateLimitResponse) return rateLimitResponse;
 
   const csrf = verifyCsrfOrigin(request);
@@ -1,7 +1,7 @@
 import { createServiceRoleClient } from "@/app/lib/supabaseClients";
-import { sendEmail } from "@/app/lib/email";
-import { buildAlertEmail } from "@/app/lib/emailTemplates";
-import type { StoredUserAlert } from "@/app/lib/alerts";
+import { deliverAlertEmails } from "@/app/lib/alertEmailDelivery";
+import { buildAlertDeliveryDueFilter, markAlertsHeldBack, type StoredUserAlert } from "@/app/lib/alerts";
+import { loadAlertRecipientPreferences } from "@/app/lib/userNotificationPreferences";
 
 export const runtime = "nodejs";
 
@@ -33,12 +33,6 @@ type ProfileRow = {
   email: string | null;
 };
 
-type NotificationPreferencesRow = {
-  weekly_digest_enabled: boolean;
-  deadline_alert_enabled: boolean;
-  outcome_reminder_enabled: boolean;
-};
-
 type AlertLink = {
   href: string;
   label: string;
@@ -87,25 +81,6 @@ const toStoredAlert = (row: AlertRow): StoredUserAlert => {
   };
 };
 
-const isAlertTypeEnabledForUser = (
-  alertType: AlertType,
-  prefs: NotificationPreferencesRow | null
-): boolean => {
-  if (!prefs) return true; // Default: all enabled
-
-  switch (alertType) {
-    case "deadline_due_soon":
-    case "watchlist_due_soon":
-      return prefs.deadline_alert_enabled;
-    case "outcome_reminder":
-      return prefs.outcome_reminder_enabled;
-    case "weekly_digest_ready":
-      return prefs.weekly_digest_enabled;
-    default:
-      return true;
-  }
-};
-
 import { jsonResponse } from "@/app/lib/apiResponse";
 
 export async function POST(request: Request) {
@@ -117,8 +92,9 @@ export async function POST(request: Request) {
   }
 
   const supabase = createServiceRoleClient();
+  const now = new Date();
 
-  // Fetch unsent, non-dismissed alerts
+  // Fetch unsent, non-dismissed alerts that are not held back until later
   const { data: alertRows, error: alertError } = await supabase
     .from("user_alerts")
     .select(
@@ -126,6 +102,7 @@ export async function POST(request: Request) {
     )
     .eq("is_sent", false)
     .is("dismissed_at", null)
+    .or(buildAlertDeliveryDueFilter(now))
     .order("created_at", { ascending: true })
     .limit(MAX_BATCH_SIZE);
 
@@ -159,56 +136,22 @@ export async function POST(request: Request) {
     }
   }
 
-  // Fetch notification preferences
-  const { data: prefRows, error: prefError } = await supabase
-    .from("user_notification_preferences")
-    .select("user_id, weekly_digest_enabled, deadline_alert_enabled, outcome_reminder_enabled")
-    .in("user_id", userIds);
-
+  // Fetch notification preferences (alert types, delivery window, daily bundle)
+  const { recipients, error: prefError } = await loadAlertRecipientPreferences(userIds);
   if (prefError) {
-    return jsonResponse({ ok: false, error: prefError.message }, 500);
+    return jsonResponse({ ok: false, error: prefError }, 500);
   }
 
-  const prefsByUserId = new Map<string, NotificationPreferencesRow>();
-  for (const row of (prefRows as (NotificationPreferencesRow & { user_id: string })[] | null) ?? []) {
-    prefsByUserId.set(row.user_id, row);
-  }
-
-  // Process each alert
-  let sent = 0;
-  let skipped = 0;
-  let failed = 0;
-  const sentIds: string[] = [];
-
-  for (const alertRow of alerts) {
-    const email = emailByUserId.get(alertRow.user_id);
-    if (!email) {
-      skipped++;
-      continue;
-    }
+  const { sentIds, heldBack, sent, queued, skipped, failed, deferred, bundled } = await deliverAlertEmails({
+    alerts: alerts.map(toStoredAlert),
+    emailByUserId,
+    recipientPreferences: recipients,
+    now
+  });
 
-    const prefs = prefsByUserId.get(alertRow.user_id) ?? null;
-    if (!isAlertTypeEnabledForUser(alertRow.alert_type, prefs)) {
-      skipped++;
-      continue;
-    }
-
-    const storedAlert = toStoredAlert(alertRow);
-    const emailContent = buildAlertEmail(storedAlert);
-
-    const result = await sendEmail({
-      to: email,
-      subject: emailContent.subject,
-      html: emailContent.html,
-      text: emailContent.text
-    });
-
-    if (result.ok) {
-      sent++;
-      sentIds.push(alertRow.id);
-    } else {
-      failed++;
-    }
+  const { error: holdError } = await markAlertsHeldBack(heldBack);
+  if (holdError) {
+    console.error("alert_hold_save_error", { error: holdError });
   }
 
   // Mark sent alerts as is_sent = true
@@ -229,5 +172,5 @@ export async function POST(request: Request) {
     }
   }
 
-  return jsonResponse({ ok: true, sent, skipped, failed });
+  return jsonResponse({ ok: true, sent, queued, skipped, failed, deferred, bundled });
 }
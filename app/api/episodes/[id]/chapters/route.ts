@@ -0,0 +1,39 @@
+import { loadPodcastEpisodeScript } from "@/app/lib/episodeTimeline";
+import {
+  buildEpisodeChapters,
+  buildPodcastChaptersDocument,
+  PODCAST_CHAPTERS_CONTENT_TYPE
+} from "@/src/lib/episodeChapters";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const { id } = await params;
+  const { episode, error } = await loadPodcastEpisodeScript(id);
+  if (error) {
+    return new Response("Internal Server Error", { status: 500 });
+  }
+
+  const chapters = episode
+    ? buildEpisodeChapters({
+        script: episode.script,
+        durationSec: episode.durationSec,
+        audioSections: episode.audioSections,
+        judgmentCards: episode.judgmentCards
+      })
+    : [];
+  if (chapters.length === 0) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  return new Response(JSON.stringify(buildPodcastChaptersDocument(chapters)), {
+    headers: {
+      "Content-Type": `${PODCAST_CHAPTERS_CONTENT_TYPE}; charset=utf-8`,
+      "Cache-Control": "public, max-age=3600, s-maxage=3600"
+    }
+  });
+}
@@ -0,0 +1,102 @@
+import { verifyCsrfOrigin } from "@/app/lib/csrf";
+import { jsonResponse, checkRateLimit } from "@/app/lib/apiResponse";
+import { isListenableEpisode, loadListeningProgress, saveListeningProgress } from "@/app/lib/listeningProgress";
+import { analyticsLimiter, extractRateLimitKey } from "@/app/lib/rateLimit";
+import { getViewerFromCookies } from "@/app/lib/viewer";
+import { recordAnalyticsEvent } from "@/src/lib/analytics";
+import { isListeningProgressEpisodeId, parseListeningProgressInput } from "@/src/lib/listeningProgress";
+
+export const runtime = "nodejs";
+
+/** 400 for a malformed id, 404 when the episode is missing or unpublished; null when it can be used. */
+const checkEpisode = async (episodeId: string): Promise<Response | null> => {
+  if (!isListeningProgressEpisodeId(episodeId)) {
+    return jsonResponse({ ok: false, error: "invalid_episode_id" }, 400);
+  }
+
+  const { listenable, error } = await isListenableEpisode(episodeId);
+  if (error) {
+    return jsonResponse({ ok: false, error }, 500);
+  }
+
+  return listenable ? null : jsonResponse({ ok: false, error: "episode_not_found" }, 404);
+};
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const viewer = await getViewerFromCookies();
+  if (!viewer) {
+    return jsonResponse({ ok: false, error: "unauthorized" }, 401);
+  }
+
+  const { id } = await params;
+  const episodeResponse = await checkEpisode(id);
+  if (episodeResponse) return episodeResponse;
+
+  const { progressByEpisodeId, error } = await loadListeningProgress(viewer.userId, [id]);
+  if (error) {
+    return jsonResponse({ ok: false, error }, 500);
+  }
+
+  return jsonResponse({
+    ok: true,
+    progress: progressByEpisodeId[id] ?? null
+  });
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const rateLimitResponse = await checkRateLimit(analyticsLimiter, extractRateLimitKey(request));
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const csrf = verifyCsrfOrigin(request);
+  if (!csrf.ok) {
+    return jsonResponse({ ok: false, error: csrf.error }, 403);
+  }
+
+  const viewer = await getViewerFromCookies();
+  if (!viewer) {
+    return jsonResponse({ ok: false, error: "unauthorized" }, 401);
+  }
+
+  const { id } = await params;
+  const episodeResponse = await checkEpisode(id);
+  if (episodeResponse) return episodeResponse;
+
+  const input = parseListeningProgressInput(await request.json().catch(() => null));
+  if (!input) {
+    return jsonResponse({ ok: false, error: "invalid_listening_progress" }, 400);
+  }
+
+  const { progress, completedNow, error } = await saveListeningProgress({
+    userId: viewer.userId,
+    episodeId: id,
+    input
+  });
+
+  if (error) {
+    return jsonResponse({ ok: false, error }, 500);
+  }
+
+  if (completedNow) {
+    try {
+      await recordAnalyticsEvent({
+        eventName: "listening_progress_complete",
+        viewer,
+        source: "listening_progress",
+        properties: {
+          episode_id: id,
+          duration_sec: input.durationSec
+        }
+      });
+    } catch (analyticsError) {
+      console.error("listen_complete_analytics_error", { error: analyticsError, episodeId: id });
+    }
+  }
+
+  return jsonResponse({ ok: true, progress });
+}
@@ -0,0 +1,50 @@
+import { loadPodcastEpisodeScript } from "@/app/lib/episodeTimeline";
+import { getViewerFromCookies, getViewerFromRequest } from "@/app/lib/viewer";
+import { resolveSpokenSections } from "@/src/lib/episodeChapters";
+import {
+  buildEpisodeTranscript,
+  EPISODE_TRANSCRIPT_CONTENT_TYPES,
+  isEpisodeTranscriptFormat
+} from "@/src/lib/episodeTranscript";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const formatParam = new URL(request.url).searchParams.get("format") ?? "vtt";
+  if (!isEpisodeTranscriptFormat(formatParam)) {
+    return new Response("Bad Request", { status: 400 });
+  }
+
+  const { id } = await params;
+  const { episode, error } = await loadPodcastEpisodeScript(id);
+  if (error) {
+    return new Response("Internal Server Error", { status: 500 });
+  }
+
+  if (!episode || resolveSpokenSections(episode.script).length === 0) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  // Same gate as `full_script` on the episode pages: only paid viewers read past the preview.
+  const viewer = (await getViewerFromRequest(request)) ?? (await getViewerFromCookies());
+  const transcript = buildEpisodeTranscript(
+    {
+      script: episode.script,
+      durationSec: episode.durationSec,
+      audioSections: episode.audioSections,
+      maxChars: viewer?.isPaid ? null : episode.previewChars
+    },
+    formatParam
+  );
+
+  return new Response(transcript, {
+    headers: {
+      "Content-Type": `${EPISODE_TRANSCRIPT_CONTENT_TYPES[formatParam]}; charset=utf-8`,
+      "Cache-Control": "private, max-age=3600"
+    }
+  });
+}
@@ -7,6 +7,12 @@ import {
   INTEREST_TOPIC_LABELS,
   ACTIVE_SUBSCRIPTION_LABELS
 } from "@/src/lib/userPreferences";
+import {
+  ChatCompletionError,
+  isChatCompletionConfigured,
+  requestChatCompletion,
+  resolveChatCompletionConfig
+} from "@/src/lib/llm/chatCompletion";
 
 export const runtime = "nodejs";
 
@@ -135,20 +141,6 @@ type GenerateCardRequest = {
   inputText?: unknown;
 };
 
-type OpenAIMessage = {
-  role: string;
-  content: string;
-};
-
-type OpenAIChoice = {
-  message?: OpenAIMessage;
-};
-
-type OpenAIResponse = {
-  choices?: OpenAIChoice[];
-  error?: { message?: string };
-};
-
 type GeneratedCardJson = {
   topic_title?: unknown;
   genre?: unknown;
@@ -213,7 +205,7 @@ const parseGeneratedCard = (raw: GeneratedCardJson) => {
 };
 
 export async function POST(request: Request) {
-  const rateLimitResponse = checkRateLimit(expensiveLimiter, extractRateLimitKey(request));
+  const rateLimitResponse = await checkRateLimit(expensiveLimiter, extractRateLimitKey(request));
   if (rateLimitResponse) return rateLimitResponse;
 
   const csrf = verifyCsrfOrigin(request);
@@ -270,9 +262,9 @@ export async function POST(request: Request) {
     );
   }
 
-  // Call OpenAI
-  const apiKey = process.env.OPENAI_API_KEY?.trim();
-  if (!apiKey) {
+  // Call the configured LLM provider (OpenAI, a local server or fixture replay)
+  const llmConfig = resolveChatCompletionConfig((name) => process.env[name]);
+  if (!isChatCompletionConfigured(llmConfig)) {
     return jsonResponse({ ok: false, error: "ai_not_configured" }, 503);
   }
 
@@ -289,15 +281,11 @@ export async function POST(request: Request) {
     async start(controller) {
       controller.enqueue(sseEvent("status", { status: "generating" }));
 
-      let aiResponse: Response;
+      let rawContent: string;
       try {
-        aiResponse = await fetch("https://api.openai.com/v1/chat/completions", {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${apiKey}`,
-            "Content-Type": "application/json"
-          },
-          body: JSON.stringify({
+        rawContent = await requestChatCompletion(
+          llmConfig,
+          {
             model: "gpt-4o-mini",
             temperature: 0.7,
             response_format: { type: "json_object" },
@@ -305,26 +293,14 @@ export async function POST(request: Request) {
               { role: "system", content: SYSTEM_PROMPT },
               { role: "user", content: userMessage }
             ]
-          }),
-          signal: AbortSignal.timeout(30_000)
-        });
-      } catch {
-        controller.enqueue(sseEvent("error", { error: "ai_timeout" }));
-        controller.close();
-        return;
-      }
-
-      if (!aiResponse.ok) {
-        controller.enqueue(sseEvent("error", { error: "ai_error" }));
-        controller.close();
-        return;
-      }
-
-      const aiBody = (await aiResponse.json().catch(() => null)) as OpenAIResponse | null;
-      const rawContent = aiBody?.choices?.[0]?.message?.content;
-
-      if (!rawContent) {
-        controller.enqueue(sseEvent("error", { error: "ai_empty_response" }));
+          },
+          { timeoutMs: 30_000 }
+        );
+      } catch (error) {
+        const kind = error instanceof ChatCompletionError ? error.kind : null;
+        const code =
+          kind === "request_failed" ? "ai_timeout" : kind === "empty_response" ? "ai_empty_response" : "ai_error";
+        controller.enqueue(sseEvent("error", { error: code }));
         controller.close();
         return;
       }
@@ -0,0 +1,95 @@
+import { verifyCsrfOrigin } from "@/app/lib/csrf";
+import { jsonResponse, checkRateLimit } from "@/app/lib/apiResponse";
+import { countUserLettersSince, insertUserLetter, loadUserLetters } from "@/app/lib/letters";
+import { generalLimiter, extractRateLimitKey } from "@/app/lib/rateLimit";
+import { getViewerFromCookies } from "@/app/lib/viewer";
+import {
+  hasReachedDailyLetterLimit,
+  MAX_LETTERS_PER_DAY,
+  resolveLetterListenerStatus,
+  validateLetterSubmission,
+  type LetterRecord
+} from "@/src/lib/letters";
+
+export const runtime = "nodejs";
+
+type CreateLetterRequest = {
+  displayName?: unknown;
+  text?: unknown;
+  category?: unknown;
+};
+
+const DAILY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// blocked_reason is an internal moderation note, so it is not returned to listeners.
+const toListenerLetter = (letter: LetterRecord) => {
+  const status = resolveLetterListenerStatus(letter);
+
+  return {
+    id: letter.id,
+    displayName: letter.display_name,
+    text: letter.text,
+    category: letter.category,
+    status,
+    createdAt: letter.created_at
+  };
+};
+
+export async function GET() {
+  const viewer = await getViewerFromCookies();
+  if (!viewer) {
+    return jsonResponse({ ok: false, error: "unauthorized" }, 401);
+  }
+
+  const { letters, error } = await loadUserLetters(viewer.userId);
+  if (error) {
+    return jsonResponse({ ok: false, error }, 500);
+  }
+
+  return jsonResponse({ ok: true, letters: letters.map(toListenerLetter) });
+}
+
+export async function POST(request: Request) {
+  const rateLimitResponse = await checkRateLimit(generalLimiter, extractRateLimitKey(request));
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const csrf = verifyCsrfOrigin(request);
+  if (!csrf.ok) {
+    return jsonResponse({ ok: false, error: csrf.error }, 403);
+  }
+
+  const viewer = await getViewerFromCookies();
+  if (!viewer) {
+    return jsonResponse({ ok: false, error: "unauthorized" }, 401);
+  }
+
+  const body = (await request.json().catch(() => ({}))) as CreateLetterRequest;
+  const validation = validateLetterSubmission(body);
+  if (!validation.ok) {
+    return jsonResponse({ ok: false, error: validation.error }, 400);
+  }
+
+  const since = new Date(Date.now() - DAILY_WINDOW_MS).toISOString();
+  const { count, error: countError } = await countUserLettersSince(viewer.userId, since);
+  if (countError) {
+    return jsonResponse({ ok: false, error: countError }, 500);
+  }
+
+  if (hasReachedDailyLetterLimit(count)) {
+    return jsonResponse(
+      {
+        ok: false,
+        error: "letter_daily_limit_reached",
+        limit: MAX_LETTERS_PER_DAY
+      },
+      429
+    );
+  }
+
+  const { letter, error } = await insertUserLetter(viewer.userId, validation.value);
+  if (error || !letter) {
+    return jsonResponse({ ok: false, error: error ?? "letter_insert_failed" }, 500);
+  }
+
+  return jsonResponse({ ok: true, letter: toListenerLetter(letter) }, 201);
+}
@@ -1,13 +1,22 @@
 import { ImageResponse } from "@vercel/og";
+import { NextRequest } from "next/server";
+import { GENRE_LABELS } from "@/src/lib/labels";
 
 export const runtime = "edge";
 
 /**
  * Square podcast cover art (1400x1400) for Apple Podcasts / Spotify.
  * Apple requires minimum 1400x1400, recommended 3000x3000.
+ * `?lang=en` and `?genre=<genre>` label the covers of the English and genre feeds.
  * @see https://podcasters.apple.com/support/896-artwork-requirements
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const isEnglish = searchParams.get("lang") === "en";
+  const genreLabel = GENRE_LABELS[searchParams.get("genre")?.trim().toLowerCase() ?? ""] ?? null;
+  const edition = isEnglish ? "AI PODCAST · ENGLISH" : genreLabel ? `AI PODCAST · ${genreLabel}` : "AI PODCAST";
+  const tagline = isEnglish ? "Listen, and your decisions get sorted." : "聴くだけで、判断が整理される。";
+
   return new ImageResponse(
     (
       <div
@@ -87,7 +96,7 @@ export async function GET() {
             textTransform: "uppercase" as const,
           }}
         >
-          AI PODCAST
+          {edition}
         </span>
 
         {/* Tagline */}
@@ -100,7 +109,7 @@ export async function GET() {
             maxWidth: "1000px",
           }}
         >
-          聴くだけで、判断が整理される。
+          {tagline}
         </span>
       </div>
     ),
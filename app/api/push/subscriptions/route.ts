@@ -0,0 +1,98 @@
+import { verifyCsrfOrigin } from "@/app/lib/csrf";
+import { jsonResponse, checkRateLimit } from "@/app/lib/apiResponse";
+import { generalLimiter, extractRateLimitKey } from "@/app/lib/rateLimit";
+import { getViewerFromCookies, type ViewerState } from "@/app/lib/viewer";
+import { deletePushSubscription, savePushSubscription } from "@/app/lib/pushSubscriptions";
+import { resolveVapidConfig } from "@/app/lib/webPush";
+import { recordAnalyticsEvent } from "@/src/lib/analytics";
+import { parsePushSubscriptionInput } from "@/src/lib/pushNotifications";
+
+export const runtime = "nodejs";
+
+type PushSubscriptionRequest = {
+  subscription?: unknown;
+  endpoint?: unknown;
+};
+
+const recordPushEvent = async (
+  eventName: "push_subscribe" | "push_unsubscribe",
+  viewer: ViewerState
+) => {
+  try {
+    await recordAnalyticsEvent({ eventName, viewer, source: "account_settings" });
+  } catch (error) {
+    console.error("push_subscription_analytics_error", { error, eventName });
+  }
+};
+
+export async function POST(request: Request) {
+  const rateLimitResponse = await checkRateLimit(generalLimiter, extractRateLimitKey(request));
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const csrf = verifyCsrfOrigin(request);
+  if (!csrf.ok) {
+    return jsonResponse({ ok: false, error: csrf.error }, 403);
+  }
+
+  const viewer = await getViewerFromCookies();
+  if (!viewer) {
+    return jsonResponse({ ok: false, error: "unauthorized" }, 401);
+  }
+
+  if (!resolveVapidConfig()) {
+    return jsonResponse({ ok: false, error: "web_push_not_configured" }, 503);
+  }
+
+  const body = (await request.json().catch(() => ({}))) as PushSubscriptionRequest;
+  const subscription = parsePushSubscriptionInput(body.subscription);
+  if (!subscription) {
+    return jsonResponse({ ok: false, error: "invalid_push_subscription" }, 400);
+  }
+
+  const { error } = await savePushSubscription({
+    userId: viewer.userId,
+    subscription,
+    userAgent: request.headers.get("user-agent")
+  });
+
+  if (error) {
+    return jsonResponse({ ok: false, error }, 500);
+  }
+
+  await recordPushEvent("push_subscribe", viewer);
+
+  return jsonResponse({ ok: true });
+}
+
+export async function DELETE(request: Request) {
+  const rateLimitResponse = await checkRateLimit(generalLimiter, extractRateLimitKey(request));
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const csrf = verifyCsrfOrigin(request);
+  if (!csrf.ok) {
+    return jsonResponse({ ok: false, error: csrf.error }, 403);
+  }
+
+  const viewer = await getViewerFromCookies();
+  if (!viewer) {
+    return jsonResponse({ ok: false, error: "unauthorized" }, 401);
+  }
+
+  const body = (await request.json().catch(() => ({}))) as PushSubscriptionRequest;
+  if (typeof body.endpoint !== "string" || !body.endpoint.trim()) {
+    return jsonResponse({ ok: false, error: "push_endpoint_required" }, 400);
+  }
+
+  const { error } = await deletePushSubscription({
+    userId: viewer.userId,
+    endpoint: body.endpoint
+  });
+
+  if (error) {
+    return jsonResponse({ ok: false, error }, 500);
+  }
+
+  await recordPushEvent("push_unsubscribe", viewer);
+
+  return jsonResponse({ ok: true });
+}
@@ -22,7 +22,7 @@ const getOrigin = (request: Request): string => {
 };
 
 export async function POST(request: Request): Promise<Response> {
-  const rateLimitResponse = checkRateLimit(paymentLimiter, extractRateLimitKey(request));
+  const rateLimitResponse = await checkRateLimit(paymentLimiter, extractRateLimitKey(request));
   if (rateLimitResponse) return rateLimitResponse;
 
   const csrf = verifyCsrfOrigin(request);
@@ -78,7 +78,7 @@ const insertPendingSubscription = async (params: {
 };
 
 export async function POST(request: Request): Promise<Response> {
-  const rateLimitResponse = checkRateLimit(paymentLimiter, extractRateLimitKey(request));
+  const rateLimitResponse = await checkRateLimit(paymentLimiter, extractRateLimitKey(request));
   if (rateLimitResponse) return rateLimitResponse;
 
   const csrf = verifyCsrfOrigin(request);
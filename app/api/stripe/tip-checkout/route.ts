@@ -0,0 +1,153 @@
+import Stripe from "stripe";
+import { verifyCsrfOrigin } from "@/app/lib/csrf";
+import { jsonResponse, getRequiredEnv, checkRateLimit, toNonEmptyString } from "@/app/lib/apiResponse";
+import { countUserLettersSince, insertUserLetter, loadTippableUserLetter } from "@/app/lib/letters";
+import { paymentLimiter, extractRateLimitKey } from "@/app/lib/rateLimit";
+import { getViewerFromCookies } from "@/app/lib/viewer";
+import { buildPublicEpisodePath } from "@/src/lib/episodeLinks";
+import {
+  hasReachedDailyLetterLimit,
+  isTipAmount,
+  MAX_LETTERS_PER_DAY,
+  TIP_AMOUNTS_JPY,
+  validateLetterSubmission,
+  type LetterRecord
+} from "@/src/lib/letters";
+
+export const runtime = "nodejs";
+
+type TipCheckoutRequest = {
+  amount?: unknown;
+  letterId?: unknown;
+  episodeId?: unknown;
+  displayName?: unknown;
+  text?: unknown;
+  category?: unknown;
+};
+
+const DAILY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const getOrigin = (request: Request): string => {
+  const appBaseUrl = process.env.APP_BASE_URL;
+  if (appBaseUrl) {
+    return appBaseUrl.replace(/\/+$/, "");
+  }
+
+  const requestUrl = new URL(request.url);
+  return requestUrl.origin;
+};
+
+const resolveReturnPath = (episodeId: string | null): string => {
+  return episodeId ? buildPublicEpisodePath(encodeURIComponent(episodeId)) : "/letters";
+};
+
+export async function POST(request: Request): Promise<Response> {
+  const rateLimitResponse = await checkRateLimit(paymentLimiter, extractRateLimitKey(request));
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const csrf = verifyCsrfOrigin(request);
+  if (!csrf.ok) {
+    return jsonResponse({ ok: false, error: csrf.error }, 403);
+  }
+
+  const viewer = await getViewerFromCookies();
+  if (!viewer) {
+    return jsonResponse({ ok: false, error: "unauthorized" }, 401);
+  }
+
+  const body = (await request.json().catch(() => ({}))) as TipCheckoutRequest;
+  if (!isTipAmount(body.amount)) {
+    return jsonResponse({ ok: false, error: "invalid_tip_amount", allowedAmounts: [...TIP_AMOUNTS_JPY] }, 400);
+  }
+
+  const amount = body.amount;
+  const episodeId = toNonEmptyString(body.episodeId);
+  const existingLetterId = toNonEmptyString(body.letterId);
+
+  let stripe: Stripe;
+  try {
+    stripe = new Stripe(getRequiredEnv("STRIPE_SECRET_KEY"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "configuration_error";
+    return jsonResponse({ ok: false, error: message }, 500);
+  }
+
+  let letter: LetterRecord;
+  if (existingLetterId) {
+    const { letter: existingLetter, error } = await loadTippableUserLetter(viewer.userId, existingLetterId);
+    if (error) {
+      return jsonResponse({ ok: false, error }, 500);
+    }
+    if (!existingLetter) {
+      return jsonResponse({ ok: false, error: "letter_not_found" }, 404);
+    }
+    letter = existingLetter;
+  } else {
+    const validation = validateLetterSubmission(body);
+    if (!validation.ok) {
+      return jsonResponse({ ok: false, error: validation.error }, 400);
+    }
+
+    const since = new Date(Date.now() - DAILY_WINDOW_MS).toISOString();
+    const { count, error: countError } = await countUserLettersSince(viewer.userId, since);
+    if (countError) {
+      return jsonResponse({ ok: false, error: countError }, 500);
+    }
+
+    if (hasReachedDailyLetterLimit(count)) {
+      return jsonResponse({ ok: false, error: "letter_daily_limit_reached", limit: MAX_LETTERS_PER_DAY }, 429);
+    }
+
+    const { letter: insertedLetter, error } = await insertUserLetter(viewer.userId, validation.value);
+    if (error || !insertedLetter) {
+      return jsonResponse({ ok: false, error: error ?? "letter_insert_failed" }, 500);
+    }
+    letter = insertedLetter;
+  }
+
+  try {
+    const origin = getOrigin(request);
+    const returnPath = resolveReturnPath(episodeId);
+    const metadata = {
+      letter_id: letter.id,
+      user_id: viewer.userId,
+      ...(episodeId ? { episode_id: episodeId } : {})
+    };
+
+    // The webhook reads payment_intent.metadata.letter_id when it records the tip,
+    // so the letter id must be on the PaymentIntent, not only on the session.
+    const session = await stripe.checkout.sessions.create({
+      mode: "payment",
+      client_reference_id: viewer.userId,
+      customer_email: viewer.stripeCustomerId ? undefined : viewer.email ?? undefined,
+      customer: viewer.stripeCustomerId ?? undefined,
+      success_url: `${origin}${returnPath}?tip=success&letter_id=${letter.id}`,
+      cancel_url: `${origin}${returnPath}?tip=cancel&letter_id=${letter.id}`,
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            currency: "jpy",
+            unit_amount: amount,
+            product_data: {
+              name: "お便りチップ"
+            }
+          }
+        }
+      ],
+      metadata,
+      payment_intent_data: {
+        metadata
+      }
+    });
+
+    return jsonResponse({
+      ok: true,
+      url: session.url,
+      letterId: letter.id
+    });
+  } catch (error) {
+    console.error("tip_checkout_create_error", { error, letterId: letter.id });
+    return jsonResponse({ ok: false, error: "checkout_create_failed", letterId: letter.id }, 500);
+  }
+}
@@ -11,6 +11,16 @@ type InsertTipInput = {
   letter_id: string | null;
 };
 
+type MarkTipRefundedInput = {
+  provider_payment_id: string;
+  refunded_amount: number;
+  refunded_at: string;
+};
+
+type RefundedTip = {
+  letter_id: string | null;
+};
+
 type UpsertProfileInput = {
   user_id: string;
   email?: string | null;
@@ -47,6 +57,7 @@ type StripeWebhookDeps = {
   stripe: Stripe;
   webhookSecret: string;
   insertTip: (tip: InsertTipInput) => Promise<InsertTipResult>;
+  markTipRefunded: (refund: MarkTipRefundedInput) => Promise<RefundedTip | null>;
   upsertProfile: (profile: UpsertProfileInput) => Promise<void>;
   upsertSubscription: (subscription: UpsertSubscriptionInput) => Promise<void>;
   updateSubscriptionByCheckoutSessionId: (
@@ -102,6 +113,14 @@ const resolveSubscriptionId = (
   return subscription.id;
 };
 
+const resolvePaymentIntentId = (
+  paymentIntent: string | Stripe.PaymentIntent | null
+): string | null => {
+  if (!paymentIntent) return null;
+  if (typeof paymentIntent === "string") return paymentIntent;
+  return paymentIntent.id;
+};
+
 const resolveIsoDate = (unixTimestamp: number | null | undefined): string | null => {
   if (typeof unixTimestamp !== "number" || !Number.isFinite(unixTimestamp) || unixTimestamp <= 0) {
     return null;
@@ -127,6 +146,20 @@ const createRuntimeDeps = async (): Promise<StripeWebhookDeps> => {
       const { error } = await supabase.from("tips").insert(tip);
       return { error: error ? { code: error.code, message: error.message } : null };
     },
+    markTipRefunded: async (refund: MarkTipRefundedInput) => {
+      const { data, error } = await supabase
+        .from("tips")
+        .update({
+          refunded_amount: refund.refunded_amount,
+          refunded_at: refund.refunded_at
+        })
+        .eq("provider_payment_id", refund.provider_payment_id)
+        .select("letter_id")
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data as RefundedTip | null) ?? null;
+    },
     upsertProfile: async (profile: UpsertProfileInput) => {
       const { error } = await supabase.from("profiles").upsert(profile, {
         onConflict: "user_id"
@@ -214,6 +247,47 @@ const handlePaymentIntentSucceeded = async (
   return jsonResponse({ ok: true, providerPaymentId });
 };
 
+/**
+ * Any refund (full or partial) takes the tip out of daily-generate's
+ * tip-first ordering; the letter stays in the normal unread queue.
+ */
+const handleChargeRefunded = async (
+  charge: Stripe.Charge,
+  deps: StripeWebhookDeps
+): Promise<Response> => {
+  const providerPaymentId = resolvePaymentIntentId(charge.payment_intent);
+  if (!providerPaymentId || charge.amount_refunded <= 0) {
+    return jsonResponse({
+      ok: true,
+      ignored: true,
+      eventType: "charge.refunded",
+      reason: "missing_payment_intent_or_refund"
+    });
+  }
+
+  const tip = await deps.markTipRefunded({
+    provider_payment_id: providerPaymentId,
+    refunded_amount: charge.amount_refunded,
+    refunded_at: new Date().toISOString()
+  });
+
+  if (!tip) {
+    return jsonResponse({
+      ok: true,
+      ignored: true,
+      eventType: "charge.refunded",
+      reason: "tip_not_found"
+    });
+  }
+
+  return jsonResponse({
+    ok: true,
+    eventType: "charge.refunded",
+    providerPaymentId,
+    letterId: tip.letter_id
+  });
+};
+
 const handleCheckoutSessionCompleted = async (
   session: Stripe.Checkout.Session,
   deps: StripeWebhookDeps
@@ -394,6 +468,8 @@ export async function handleStripeWebhook(request: Request, deps: StripeWebhookD
     switch (event.type) {
       case "payment_intent.succeeded":
         return handlePaymentIntentSucceeded(event.data.object as Stripe.PaymentIntent, deps);
+      case "charge.refunded":
+        return handleChargeRefunded(event.data.object as Stripe.Charge, deps);
       case "checkout.session.completed":
         return handleCheckoutSessionCompleted(event.data.object as Stripe.Checkout.Session, deps);
       case "customer.subscription.created":
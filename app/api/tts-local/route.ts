@@ -5,7 +5,7 @@ import { expensiveLimiter, extractRateLimitKey } from "@/app/lib/rateLimit";
 export const runtime = "nodejs";
 
 export async function POST(request: Request): Promise<Response> {
-  const rateLimitResponse = checkRateLimit(expensiveLimiter, extractRateLimitKey(request));
+  const rateLimitResponse = await checkRateLimit(expensiveLimiter, extractRateLimitKey(request));
   if (rateLimitResponse) return rateLimitResponse;
 
   return handleTtsRequest(request);
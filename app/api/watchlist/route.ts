@@ -23,7 +23,7 @@ const resolveRequestedStatus = (value: unknown): WatchlistStatus | null => {
 };
 
 export async function POST(request: Request) {
-  const rateLimitResponse = checkRateLimit(generalLimiter, extractRateLimitKey(request));
+  const rateLimitResponse = await checkRateLimit(generalLimiter, extractRateLimitKey(request));
   if (rateLimitResponse) return rateLimitResponse;
 
   const csrf = verifyCsrfOrigin(request);
@@ -0,0 +1,144 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { ACCOUNT_DELETION_CONFIRM_PHRASE } from "@/src/lib/accountDeletion";
+import styles from "./account-deletion-panel.module.css";
+
+type DeletionStep = "idle" | "code_sent";
+
+type DeletionResponse =
+  | {
+      ok: true;
+      expiresInMinutes?: number;
+      deleted?: boolean;
+    }
+  | {
+      ok: false;
+      error: string;
+      retryAfterSeconds?: number;
+    };
+
+const ERROR_MESSAGES: Record<string, string> = {
+  code_resend_cooldown: "確認コードは少し時間をおいてから再送してください。",
+  code_send_failed: "確認コードのメール送信に失敗しました。時間をおいて再度お試しください。",
+  confirmation_required: `確認のため「${ACCOUNT_DELETION_CONFIRM_PHRASE}」と入力してください。`,
+  invalid_deletion_code: "確認コードが正しくありません。",
+  deletion_code_expired: "確認コードの有効期限が切れました。もう一度コードを送信してください。",
+  deletion_attempts_exceeded: "入力回数の上限に達しました。もう一度コードを送信してください。",
+  deletion_not_requested: "先に確認コードを送信してください。",
+  subscription_cancel_failed: "有料プランの解約に失敗したため、削除を中止しました。時間をおいて再度お試しください。"
+};
+
+export default function AccountDeletionPanel() {
+  const [step, setStep] = useState<DeletionStep>("idle");
+  const [code, setCode] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const postDeletion = async (body: Record<string, string>): Promise<DeletionResponse | null> => {
+    const response = await fetch("/api/account/deletion", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body)
+    });
+    return (await response.json().catch(() => null)) as DeletionResponse | null;
+  };
+
+  const requestCode = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const payload = await postDeletion({ action: "request_code" });
+      if (!payload || !payload.ok) {
+        setError(ERROR_MESSAGES[payload && !payload.ok ? payload.error : ""] ?? "確認コードを送信できませんでした。");
+        return;
+      }
+
+      setStep("code_sent");
+      setNotice(`登録メールアドレスに確認コードを送りました。${payload.expiresInMinutes ?? 15}分以内に入力してください。`);
+    } catch {
+      setError("確認コードを送信できませんでした。");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const onConfirm = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const payload = await postDeletion({ action: "confirm", code, confirmation });
+      if (!payload || !payload.ok) {
+        setError(ERROR_MESSAGES[payload && !payload.ok ? payload.error : ""] ?? "アカウントを削除できませんでした。");
+        return;
+      }
+
+      window.location.assign("/?account_deleted=1");
+    } catch {
+      setError("アカウントを削除できませんでした。");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className={styles.panel}>
+      <div className={styles.actionRow}>
+        <a href="/api/account/data-export" className={styles.linkButton} download>
+          保有データをダウンロード（JSON）
+        </a>
+      </div>
+
+      {step === "idle" ? (
+        <div className={styles.actionRow}>
+          <button type="button" className={styles.dangerButton} onClick={() => void requestCode()} disabled={isSubmitting}>
+            {isSubmitting ? "送信中..." : "アカウントを削除する"}
+          </button>
+        </div>
+      ) : (
+        <form className={styles.panel} onSubmit={(event) => void onConfirm(event)}>
+          <label className={styles.field}>
+            確認コード（6桁）
+            <input
+              className={styles.input}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={code}
+              onChange={(event) => setCode(event.target.value)}
+            />
+          </label>
+          <label className={styles.field}>
+            確認のため「{ACCOUNT_DELETION_CONFIRM_PHRASE}」と入力
+            <input
+              className={styles.input}
+              value={confirmation}
+              onChange={(event) => setConfirmation(event.target.value)}
+            />
+          </label>
+          <div className={styles.actionRow}>
+            <button
+              type="submit"
+              className={styles.dangerButton}
+              disabled={isSubmitting || code.trim().length !== 6 || confirmation.trim() !== ACCOUNT_DELETION_CONFIRM_PHRASE}
+            >
+              {isSubmitting ? "削除中..." : "完全に削除する"}
+            </button>
+            <button type="button" className={styles.linkButton} onClick={() => void requestCode()} disabled={isSubmitting}>
+              コードを再送する
+            </button>
+          </div>
+        </form>
+      )}
+
+      {notice ? <p className={styles.hint}>{notice}</p> : null}
+      {error ? <p className={styles.error} role="alert">{error}</p> : null}
+    </div>
+  );
+}
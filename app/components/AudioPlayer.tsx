@@ -1,16 +1,33 @@
 "use client";
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import styles from "./audio-player.module.css";
+import EpisodeTranscript, { type EpisodeTranscriptCue } from "./EpisodeTranscript";
+import { useListeningProgress } from "./useListeningProgress";
+
+export type AudioPlayerChapter = {
+  title: string;
+  startTime: number;
+  endTime: number;
+  /** Card rendered as `#card-<id>` on the page; highlighted while its section plays. */
+  judgmentCardId?: string | null;
+};
 
 type AudioPlayerProps = {
   src: string | null;
   title: string;
   description?: string | null;
+  /** Enables cross-device position sync for signed-in listeners. */
+  episodeId?: string | null;
+  chapters?: AudioPlayerChapter[];
+  /** Sentence cues shown under the player; the spoken one is highlighted. */
+  transcript?: EpisodeTranscriptCue[];
   onEnded?: () => void;
 };
 
 const RATES = [1, 1.25, 1.5, 1.75, 2] as const;
+const NO_CHAPTERS: AudioPlayerChapter[] = [];
+const NO_TRANSCRIPT: EpisodeTranscriptCue[] = [];
 
 const formatTime = (seconds: number): string => {
   if (!Number.isFinite(seconds) || seconds < 0) return "0:00";
@@ -19,9 +36,15 @@ const formatTime = (seconds: number): string => {
   return `${m}:${s.toString().padStart(2, "0")}`;
 };
 
-const storageKey = (src: string) => `audio-pos:${src}`;
-
-export default function AudioPlayer({ src, title, description, onEnded }: AudioPlayerProps) {
+export default function AudioPlayer({
+  src,
+  title,
+  description,
+  episodeId,
+  chapters = NO_CHAPTERS,
+  transcript = NO_TRANSCRIPT,
+  onEnded
+}: AudioPlayerProps) {
   const audioRef = useRef<HTMLAudioElement>(null);
   const progressRef = useRef<HTMLDivElement>(null);
   const isDraggingRef = useRef(false);
@@ -33,34 +56,12 @@ export default function AudioPlayer({ src, title, description, onEnded }: AudioP
   const [playbackRate, setPlaybackRate] = useState(1);
   const [showRemaining, setShowRemaining] = useState(false);
   const [error, setError] = useState<string | null>(null);
-
-  // Restore saved position on load
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio || !src) return;
-
-    const saved = localStorage.getItem(storageKey(src));
-    if (saved) {
-      const pos = parseFloat(saved);
-      if (Number.isFinite(pos) && pos > 0) {
-        audio.currentTime = pos;
-      }
-    }
-  }, [src]);
-
-  // Persist position periodically
-  useEffect(() => {
-    if (!src || !isPlaying) return;
-
-    const interval = setInterval(() => {
-      const audio = audioRef.current;
-      if (audio && audio.currentTime > 0) {
-        localStorage.setItem(storageKey(src), String(audio.currentTime));
-      }
-    }, 5000);
-
-    return () => clearInterval(interval);
-  }, [src, isPlaying]);
+  const {
+    onLoadedMetadata: restorePosition,
+    onTimeUpdate: syncPosition,
+    onPause: savePosition,
+    onEnded: markFinished
+  } = useListeningProgress({ episodeId, src });
 
   const togglePlay = useCallback(() => {
     const audio = audioRef.current;
@@ -94,6 +95,37 @@ export default function AudioPlayer({ src, title, description, onEnded }: AudioP
     setCurrentTime(ratio * duration);
   }, [duration]);
 
+  const activeChapterIndex = useMemo(() => {
+    let active = -1;
+    chapters.forEach((chapter, index) => {
+      if (currentTime >= chapter.startTime) active = index;
+    });
+    return active;
+  }, [chapters, currentTime]);
+  const activeCardId = chapters[activeChapterIndex]?.judgmentCardId ?? null;
+
+  const jumpTo = useCallback((time: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = time;
+    setCurrentTime(time);
+    if (audio.paused) {
+      audio.play().catch(() => setError("再生に失敗しました"));
+    }
+  }, []);
+
+  // Highlight the judgment card of the section that is playing
+  useEffect(() => {
+    if (!activeCardId) return;
+    const card = document.getElementById(`card-${activeCardId}`);
+    if (!card) return;
+
+    card.dataset.nowPlaying = "true";
+    return () => {
+      delete card.dataset.nowPlaying;
+    };
+  }, [activeCardId]);
+
   // Mouse events for progress bar
   const handleProgressMouseDown = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
     isDraggingRef.current = true;
@@ -141,13 +173,20 @@ export default function AudioPlayer({ src, title, description, onEnded }: AudioP
 
     const onTimeUpdate = () => {
       if (!isDraggingRef.current) setCurrentTime(audio.currentTime);
+      syncPosition(audio);
+    };
+    const onLoadedMetadata = () => {
+      setDuration(audio.duration);
+      restorePosition(audio);
     };
-    const onLoadedMetadata = () => setDuration(audio.duration);
     const onPlay = () => { setIsPlaying(true); setIsBuffering(false); setError(null); };
-    const onPause = () => setIsPlaying(false);
+    const onPause = () => {
+      setIsPlaying(false);
+      savePosition(audio);
+    };
     const onEndedHandler = () => {
       setIsPlaying(false);
-      if (src) localStorage.removeItem(storageKey(src));
+      markFinished(audio);
       onEnded?.();
     };
     const onError = () => setError("音声の読み込みに失敗しました");
@@ -162,6 +201,7 @@ export default function AudioPlayer({ src, title, description, onEnded }: AudioP
     audio.addEventListener("error", onError);
     audio.addEventListener("waiting", onWaiting);
     audio.addEventListener("canplay", onCanPlay);
+    if (audio.readyState >= 1) onLoadedMetadata();
 
     return () => {
       audio.removeEventListener("timeupdate", onTimeUpdate);
@@ -173,7 +213,7 @@ export default function AudioPlayer({ src, title, description, onEnded }: AudioP
       audio.removeEventListener("waiting", onWaiting);
       audio.removeEventListener("canplay", onCanPlay);
     };
-  }, [onEnded, src]);
+  }, [markFinished, onEnded, restorePosition, savePosition, syncPosition]);
 
   const progress = duration > 0 ? (currentTime / duration) * 100 : 0;
   const remaining = duration - currentTime;
@@ -285,6 +325,28 @@ export default function AudioPlayer({ src, title, description, onEnded }: AudioP
         </button>
       </div>
 
+      {chapters.length > 0 ? (
+        <ol className={styles.chapters} aria-label="チャプター">
+          {chapters.map((chapter, index) => (
+            <li key={`${chapter.startTime}-${chapter.title}`}>
+              <button
+                type="button"
+                className={`${styles.chapterBtn} ${index === activeChapterIndex ? styles.chapterActive : ""}`.trim()}
+                onClick={() => jumpTo(chapter.startTime)}
+                aria-current={index === activeChapterIndex ? "true" : undefined}
+              >
+                <span className={styles.chapterTime}>{formatTime(chapter.startTime)}</span>
+                <span>{chapter.title}</span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      ) : null}
+
+      {transcript.length > 0 ? (
+        <EpisodeTranscript cues={transcript} currentTime={currentTime} isPlaying={isPlaying} onSeek={jumpTo} />
+      ) : null}
+
       {error ? <p className={styles.error} role="alert">{error}</p> : null}
     </div>
   );
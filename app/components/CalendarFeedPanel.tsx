@@ -0,0 +1,120 @@
+"use client";
+
+import { useState } from "react";
+import styles from "./decision-history-controls.module.css";
+
+type CalendarFeedPanelProps = {
+  initialUrl: string | null;
+};
+
+type CalendarTokenResponse = { ok: true; url?: string } | { ok: false; error: string };
+
+const ERROR_MESSAGES: Record<string, string> = {
+  paid_plan_required: "カレンダー連携は有料会員向けの機能です。",
+  calendar_feed_not_configured: "現在カレンダー連携は利用できません。"
+};
+
+/** `webcal://` makes calendar apps offer to subscribe instead of downloading once. */
+const toWebcalUrl = (url: string): string => url.replace(/^https?:\/\//, "webcal://");
+
+export default function CalendarFeedPanel({ initialUrl }: CalendarFeedPanelProps) {
+  const [url, setUrl] = useState(initialUrl);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (method: "POST" | "DELETE"): Promise<CalendarTokenResponse | null> => {
+    setIsSubmitting(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/calendar/token", { method });
+      const payload = (await response.json().catch(() => null)) as CalendarTokenResponse | null;
+      if (!response.ok || !payload || !payload.ok) {
+        const code = payload && !payload.ok ? payload.error : "";
+        setError(ERROR_MESSAGES[code] ?? "更新に失敗しました。時間をおいてもう一度お試しください。");
+        return null;
+      }
+      return payload;
+    } catch {
+      setError("更新に失敗しました。時間をおいてもう一度お試しください。");
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const onIssue = async () => {
+    if (url && !window.confirm("新しい URL を発行すると、今の URL で登録したカレンダーは更新されなくなります。続けますか？")) {
+      return;
+    }
+
+    const payload = await request("POST");
+    if (payload?.ok && payload.url) {
+      setMessage(url ? "新しい URL を発行しました。カレンダーアプリで登録し直してください。" : "カレンダー URL を発行しました。");
+      setUrl(payload.url);
+    }
+  };
+
+  const onDisable = async () => {
+    const payload = await request("DELETE");
+    if (payload?.ok) {
+      setUrl(null);
+      setMessage("カレンダー連携を停止しました。");
+    }
+  };
+
+  const onCopy = async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      setMessage("URL をコピーしました。");
+    } catch {
+      // Clipboard unavailable; the field stays selectable
+    }
+  };
+
+  return (
+    <div className={styles.quickOutcomeStack}>
+      {url ? (
+        <>
+          <input
+            className={styles.urlField}
+            value={url}
+            readOnly
+            aria-label="カレンダー URL"
+            onFocus={(event) => event.target.select()}
+          />
+          <div className={styles.actionRow}>
+            <a href={toWebcalUrl(url)} className={`${styles.button} ${styles.linkButton}`.trim()}>
+              カレンダーアプリで登録
+            </a>
+            <button type="button" className={`${styles.button} ${styles.buttonGhost}`} onClick={() => void onCopy()}>
+              URL をコピー
+            </button>
+            <button
+              type="button"
+              className={`${styles.button} ${styles.buttonGhost}`}
+              onClick={() => void onIssue()}
+              disabled={isSubmitting}
+            >
+              URL を再発行
+            </button>
+            <button type="button" className={styles.buttonDanger} onClick={() => void onDisable()} disabled={isSubmitting}>
+              連携を停止
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className={styles.actionRow}>
+          <button type="button" className={styles.button} onClick={() => void onIssue()} disabled={isSubmitting}>
+            カレンダー URL を発行
+          </button>
+        </div>
+      )}
+      {message ? <p className={styles.hint}>{message}</p> : null}
+      {error ? <p className={styles.error} role="alert">{error}</p> : null}
+    </div>
+  );
+}
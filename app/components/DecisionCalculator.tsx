@@ -7,21 +7,26 @@ import {
   describeDecisionCalculatorThresholds,
   evaluateDecisionCalculator,
   resolveDecisionCalculatorAvailability,
+  resolveDecisionCalculatorCurrency,
+  type CustomDecisionFrameInputs,
   type DecisionCalculatorFieldId,
   type DecisionCalculatorInputs,
   type DecisionCalculatorLocale,
   type SupportedDecisionFrame
 } from "@/app/lib/decisionCalculator";
 import { track } from "@/src/lib/analytics";
+import type { CustomDecisionFrame } from "@/src/lib/customDecisionFrames";
 import type { JudgmentCard } from "@/src/lib/judgmentCards";
 import styles from "./decision-calculator.module.css";
 
 type DecisionCalculatorProps = {
   card: Pick<
     JudgmentCard,
-    "id" | "episode_id" | "genre" | "frame_type" | "judgment_type" | "threshold_json" | "topic_title"
+    "id" | "episode_id" | "genre" | "frame_type" | "judgment_type" | "threshold_json" | "topic_title" | "deadline_at"
   >;
   isPaid: boolean;
+  /** The viewer's own frames; offered in a selector next to the card's built-in frame. */
+  customFrames?: CustomDecisionFrame[];
   locale?: DecisionCalculatorLocale;
   analyticsPage?: string;
   analyticsSource?: string;
@@ -29,6 +34,7 @@ type DecisionCalculatorProps = {
 
 type FieldDefinition = {
   id: DecisionCalculatorFieldId;
+  type: "number" | "date";
   label: string;
   unit: string;
   step: string;
@@ -46,6 +52,7 @@ const copy = {
     upgradeCopy: "このトピックカードを自分の数字で再評価できます。",
     upgradeCta: "有料会員で再判定",
     submit: "再判定する",
+    frameSelectLabel: "判断フレーム",
     thresholdLabel: "判定ルール",
     resultLabel: "再判定結果",
     reasonLabel: "理由",
@@ -61,6 +68,7 @@ const copy = {
     upgradeCopy: "Unlock the calculator for this judgment card.",
     upgradeCta: "Upgrade to recalculate",
     submit: "Run calculation",
+    frameSelectLabel: "Decision frame",
     thresholdLabel: "Decision rule",
     resultLabel: "Result",
     reasonLabel: "Reason",
@@ -69,19 +77,32 @@ const copy = {
   }
 } as const;
 
-const getFields = (frame: SupportedDecisionFrame, locale: DecisionCalculatorLocale): FieldDefinition[] => {
+const resolveCurrencyUnit = (currency: string, locale: DecisionCalculatorLocale): string => {
+  return currency === "JPY" && locale === "ja" ? "円" : currency;
+};
+
+const getFields = (
+  frame: SupportedDecisionFrame,
+  locale: DecisionCalculatorLocale,
+  currency: string
+): FieldDefinition[] => {
+  const currencyUnit = resolveCurrencyUnit(currency, locale);
+  const priceStep = currency === "JPY" ? "1" : "0.01";
+
   if (frame === "Frame A") {
     return [
       {
         id: "price",
+        type: "number",
         label: locale === "ja" ? "価格" : "Price",
-        unit: locale === "ja" ? "円" : "JPY",
-        step: "1",
+        unit: currencyUnit,
+        step: priceStep,
         min: "0",
         placeholder: locale === "ja" ? "3600" : "3600"
       },
       {
         id: "play_time",
+        type: "number",
         label: locale === "ja" ? "プレイ時間" : "Play Time",
         unit: locale === "ja" ? "時間" : "hours",
         step: "0.1",
@@ -95,14 +116,16 @@ const getFields = (frame: SupportedDecisionFrame, locale: DecisionCalculatorLoca
     return [
       {
         id: "monthly_cost",
+        type: "number",
         label: locale === "ja" ? "月額" : "Monthly Cost",
-        unit: locale === "ja" ? "円" : "JPY",
-        step: "1",
+        unit: currencyUnit,
+        step: priceStep,
         min: "0",
         placeholder: locale === "ja" ? "1140" : "1140"
       },
       {
         id: "watch_time",
+        type: "number",
         label: locale === "ja" ? "視聴時間" : "Watch Time",
         unit: locale === "ja" ? "時間" : "hours",
         step: "0.1",
@@ -112,9 +135,51 @@ const getFields = (frame: SupportedDecisionFrame, locale: DecisionCalculatorLoca
     ];
   }
 
+  if (frame === "Frame C") {
+    return [
+      {
+        id: "sale_price",
+        type: "number",
+        label: locale === "ja" ? "セール価格" : "Sale Price",
+        unit: currencyUnit,
+        step: priceStep,
+        min: "0",
+        placeholder: "2980"
+      },
+      {
+        id: "regular_price",
+        type: "number",
+        label: locale === "ja" ? "通常価格" : "Regular Price",
+        unit: currencyUnit,
+        step: priceStep,
+        min: "0",
+        placeholder: "5980"
+      },
+      {
+        id: "sale_end",
+        type: "date",
+        label: locale === "ja" ? "セール終了日" : "Sale Ends",
+        unit: "",
+        step: "1",
+        min: "",
+        placeholder: ""
+      },
+      {
+        id: "planned_use_date",
+        type: "date",
+        label: locale === "ja" ? "実行予定日" : "Planned Use Date",
+        unit: "",
+        step: "1",
+        min: "",
+        placeholder: ""
+      }
+    ];
+  }
+
   return [
     {
       id: "ad_time",
+      type: "number",
       label: locale === "ja" ? "広告時間" : "Ad Time",
       unit: locale === "ja" ? "分" : "minutes",
       step: "1",
@@ -123,6 +188,7 @@ const getFields = (frame: SupportedDecisionFrame, locale: DecisionCalculatorLoca
     },
     {
       id: "watch_time",
+      type: "number",
       label: locale === "ja" ? "視聴時間" : "Watch Time",
       unit: locale === "ja" ? "分" : "minutes",
       step: "1",
@@ -132,23 +198,47 @@ const getFields = (frame: SupportedDecisionFrame, locale: DecisionCalculatorLoca
   ];
 };
 
+const DATE_FIELD_IDS = new Set<DecisionCalculatorFieldId>(["sale_end", "planned_use_date"]);
+
 const parseInputs = (values: Partial<Record<DecisionCalculatorFieldId, string>>): DecisionCalculatorInputs => {
   return Object.fromEntries(
     Object.entries(values)
       .map(([key, value]) => {
         const normalized = value?.replace(/,/g, "").trim() ?? "";
         if (!normalized) return [key, undefined];
+        if (DATE_FIELD_IDS.has(key as DecisionCalculatorFieldId)) return [key, normalized];
 
         const parsed = Number(normalized);
         return [key, Number.isFinite(parsed) ? parsed : undefined];
       })
-      .filter((entry): entry is [DecisionCalculatorFieldId, number] => typeof entry[1] === "number")
+      .filter(
+        (entry): entry is [DecisionCalculatorFieldId, number | string] =>
+          typeof entry[1] === "number" || typeof entry[1] === "string"
+      )
+  );
+};
+
+const parseCustomInputs = (values: Partial<Record<string, string>>): CustomDecisionFrameInputs => {
+  return Object.fromEntries(
+    Object.entries(values)
+      .map(([key, value]) => [key, Number(value?.replace(/,/g, "").trim() || Number.NaN)] as const)
+      .filter(([, value]) => Number.isFinite(value))
   );
 };
 
+const toJstDateInputValue = (value: string | null): string | undefined => {
+  if (!value) return undefined;
+
+  const timestamp = Date.parse(value);
+  if (!Number.isFinite(timestamp)) return undefined;
+
+  return new Date(timestamp + 9 * 60 * 60 * 1000).toISOString().slice(0, 10);
+};
+
 export default function DecisionCalculator({
   card,
   isPaid,
+  customFrames = [],
   locale = "ja",
   analyticsPage,
   analyticsSource = "judgment_card_calculator"
@@ -157,33 +247,61 @@ export default function DecisionCalculator({
     frameType: card.frame_type,
     isPaid
   });
+  const usableCustomFrames = isPaid ? customFrames : [];
   const text = copy[locale];
   const [isOpen, setIsOpen] = useState(false);
-  const [values, setValues] = useState<Partial<Record<DecisionCalculatorFieldId, string>>>({});
+  const [values, setValues] = useState<Partial<Record<DecisionCalculatorFieldId, string>>>(() => ({
+    sale_end: toJstDateInputValue(card.deadline_at)
+  }));
+  const [customValues, setCustomValues] = useState<Partial<Record<string, string>>>({});
+  // "" selects the card's built-in frame; cards without one start on the first custom frame.
+  const [selectedFrameId, setSelectedFrameId] = useState(() =>
+    availability.frame ? "" : (usableCustomFrames[0]?.id ?? "")
+  );
 
-  if (!availability.frame) {
+  const builtInFrame = availability.frame;
+  const customFrame = usableCustomFrames.find((frame) => frame.id === selectedFrameId) ?? null;
+
+  if (!builtInFrame && !customFrame) {
     return null;
   }
 
   const thresholdInfo = describeDecisionCalculatorThresholds({
     card,
+    customFrame,
     locale
   });
-  const fields = getFields(availability.frame, locale);
-  const evaluation = availability.isVisible
-    ? evaluateDecisionCalculator({
-        card,
-        inputs: parseInputs(values),
-        locale
-      })
-    : null;
+  const currency = resolveDecisionCalculatorCurrency({ card });
+  const fields: Array<Omit<FieldDefinition, "id"> & { id: string }> = customFrame
+    ? customFrame.fields.map((field) => ({
+        id: field.key,
+        type: "number",
+        label: field.label,
+        unit: field.unit,
+        step: "any",
+        min: "",
+        placeholder: ""
+      }))
+    : getFields(builtInFrame as SupportedDecisionFrame, locale, currency);
+  const fieldValues: Partial<Record<string, string>> = customFrame ? customValues : values;
+  const evaluation =
+    customFrame || availability.isVisible
+      ? evaluateDecisionCalculator({
+          card,
+          inputs: customFrame ? parseCustomInputs(customValues) : parseInputs(values),
+          customFrame,
+          locale
+        })
+      : null;
+  const frameLabel = customFrame ? customFrame.name : formatFrameTypeLabel(builtInFrame, builtInFrame ?? "");
+  const analyticsFrameType = customFrame ? "Custom" : (card.frame_type ?? undefined);
 
-  if (!availability.isVisible) {
+  if (!customFrame && !availability.isVisible) {
     return (
       <section className={styles.panel}>
         <div className={styles.header}>
           <div>
-            <p className={styles.eyebrow}>{formatFrameTypeLabel(availability.frame, availability.frame)}</p>
+            <p className={styles.eyebrow}>{frameLabel}</p>
             <h5>{text.upgradeTitle}</h5>
           </div>
           <TrackedLink
@@ -219,7 +337,7 @@ export default function DecisionCalculator({
         episode_id: card.episode_id,
         judgment_card_id: card.id,
         genre: card.genre ?? undefined,
-        frame_type: card.frame_type ?? undefined,
+        frame_type: analyticsFrameType,
         judgment_type: card.judgment_type
       };
 
@@ -239,7 +357,7 @@ export default function DecisionCalculator({
       episode_id: card.episode_id,
       judgment_card_id: card.id,
       genre: card.genre ?? undefined,
-      frame_type: card.frame_type ?? undefined,
+      frame_type: analyticsFrameType,
       judgment_type: card.judgment_type,
       calculator_metric: evaluation.metricDisplay,
       calculator_result: evaluation.judgmentType
@@ -253,7 +371,7 @@ export default function DecisionCalculator({
     <section className={styles.panel}>
       <div className={styles.header}>
         <div>
-          <p className={styles.eyebrow}>{formatFrameTypeLabel(availability.frame, availability.frame)}</p>
+          <p className={styles.eyebrow}>{frameLabel}</p>
           <h5>{text.title}</h5>
         </div>
         <button type="button" className={styles.toggleButton} onClick={handleToggle}>
@@ -265,26 +383,52 @@ export default function DecisionCalculator({
 
       {isOpen ? (
         <div className={styles.body}>
+          {usableCustomFrames.length > 0 ? (
+            <label className={styles.field}>
+              <span>{text.frameSelectLabel}</span>
+              <select
+                className={styles.frameSelect}
+                value={selectedFrameId}
+                onChange={(event) => {
+                  setSelectedFrameId(event.target.value);
+                  setCustomValues({});
+                }}
+              >
+                {builtInFrame ? <option value="">{formatFrameTypeLabel(builtInFrame, builtInFrame)}</option> : null}
+                {usableCustomFrames.map((frame) => (
+                  <option key={frame.id} value={frame.id}>
+                    {frame.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+
           <div className={styles.fieldGrid}>
             {fields.map((field) => (
               <label key={field.id} className={styles.field}>
                 <span>{field.label}</span>
                 <div className={styles.inputWrap}>
                   <input
-                    type="number"
-                    inputMode="decimal"
-                    min={field.min}
+                    type={field.type}
+                    inputMode={field.type === "number" ? "decimal" : undefined}
+                    min={field.min || undefined}
                     step={field.step}
-                    value={values[field.id] ?? ""}
+                    value={fieldValues[field.id] ?? ""}
                     onChange={(event) =>
-                      setValues((current) => ({
-                        ...current,
-                        [field.id]: event.target.value
-                      }))
+                      customFrame
+                        ? setCustomValues((current) => ({
+                            ...current,
+                            [field.id]: event.target.value
+                          }))
+                        : setValues((current) => ({
+                            ...current,
+                            [field.id]: event.target.value
+                          }))
                     }
                     placeholder={field.placeholder}
                   />
-                  <small>{field.unit}</small>
+                  {field.unit ? <small>{field.unit}</small> : null}
                 </div>
               </label>
             ))}
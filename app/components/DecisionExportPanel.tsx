@@ -0,0 +1,127 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState, type ChangeEvent } from "react";
+import { track } from "@/src/lib/analytics";
+import styles from "./decision-history-controls.module.css";
+
+type DecisionExportPanelProps = {
+  page: string;
+};
+
+type ImportSection = {
+  imported: number;
+  skipped: Record<string, number>;
+};
+
+type ImportResponse =
+  | {
+      ok: true;
+      invalidRows: number;
+      decisions: ImportSection;
+      watchlist: ImportSection;
+      generatedCards: ImportSection;
+    }
+  | {
+      ok: false;
+      error: string;
+    };
+
+const IMPORT_ERROR_MESSAGES: Record<string, string> = {
+  invalid_json: "JSON ファイルを読み込めませんでした。",
+  invalid_export_document: "このサイトから書き出した JSON ファイルを選んでください。",
+  unsupported_export_version: "このバージョンの書き出しファイルには対応していません。",
+  import_too_large: "ファイルが大きすぎます。"
+};
+
+const countSkipped = (section: ImportSection): number => {
+  return Object.values(section.skipped).reduce((sum, value) => sum + value, 0);
+};
+
+const EXPORT_LINKS = [
+  { href: "/api/decision-history/export?format=csv", label: "履歴を CSV で書き出す", scope: "history", format: "csv" },
+  { href: "/api/decision-history/export?format=json", label: "履歴を JSON で書き出す", scope: "history", format: "json" },
+  { href: "/api/watchlist/export?format=csv", label: "ウォッチリストを CSV で書き出す", scope: "watchlist", format: "csv" }
+] as const;
+
+export default function DecisionExportPanel({ page }: DecisionExportPanelProps) {
+  const router = useRouter();
+  const [isImporting, setIsImporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const onFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setIsImporting(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/decision-history/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: await file.text()
+      });
+
+      const payload = (await response.json().catch(() => null)) as ImportResponse | null;
+      if (!response.ok || !payload || !payload.ok) {
+        const code = payload && !payload.ok ? payload.error : "";
+        setError(IMPORT_ERROR_MESSAGES[code] ?? "読み込みに失敗しました。");
+        return;
+      }
+
+      const imported = payload.decisions.imported + payload.watchlist.imported + payload.generatedCards.imported;
+      const skipped =
+        countSkipped(payload.decisions) + countSkipped(payload.watchlist) + countSkipped(payload.generatedCards);
+      setMessage(`${imported}件を復元しました。重複・対象外の${skipped + payload.invalidRows}件はスキップしました。`);
+
+      track("decision_import", {
+        page,
+        source: "decision_export_panel",
+        imported_count: imported,
+        skipped_count: skipped,
+        invalid_count: payload.invalidRows
+      });
+      router.refresh();
+    } catch {
+      setError("読み込みに失敗しました。");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className={styles.quickOutcomeStack}>
+      <div className={styles.actionRow}>
+        {EXPORT_LINKS.map((link) => (
+          <a
+            key={link.href}
+            href={link.href}
+            className={`${styles.button} ${styles.buttonGhost} ${styles.linkButton}`.trim()}
+            download
+            onClick={() =>
+              track("decision_export", {
+                page,
+                source: "decision_export_panel",
+                scope: link.scope,
+                format: link.format
+              })
+            }
+          >
+            {link.label}
+          </a>
+        ))}
+      </div>
+      <label className={styles.hint}>
+        JSON から復元する（同じカードは重複しません）
+        <input type="file" accept="application/json,.json" onChange={(event) => void onFileChange(event)} disabled={isImporting} />
+      </label>
+      {isImporting ? <p className={styles.hint}>読み込み中...</p> : null}
+      {message ? <p className={styles.hint}>{message}</p> : null}
+      {error ? <p className={styles.error} role="alert">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,335 @@
+"use client";
+
+import { useState } from "react";
+import {
+  CUSTOM_DECISION_FRAME_LIMIT,
+  CUSTOM_DECISION_FRAME_MAX_FIELDS,
+  type CustomDecisionFrame,
+  type CustomDecisionFrameDirection
+} from "@/src/lib/customDecisionFrames";
+import styles from "./decision-frame-editor.module.css";
+
+type DecisionFrameEditorProps = {
+  initialFrames: CustomDecisionFrame[];
+  canEdit: boolean;
+};
+
+type FieldDraft = {
+  key: string;
+  label: string;
+  unit: string;
+};
+
+type FrameDraft = {
+  name: string;
+  fields: FieldDraft[];
+  formula: string;
+  metricLabel: string;
+  metricUnit: string;
+  better: CustomDecisionFrameDirection;
+  useNowAt: string;
+  skipAt: string;
+};
+
+type FrameResponse = { ok: true; frame?: CustomDecisionFrame } | { ok: false; error: string };
+
+const ERROR_MESSAGES: Record<string, string> = {
+  paid_plan_required: "自分の判断フレームは有料会員向けの機能です。",
+  decision_frame_limit_reached: `判断フレームは ${CUSTOM_DECISION_FRAME_LIMIT} 件まで保存できます。`,
+  decision_frame_not_found: "判断フレームが見つかりませんでした。ページを再読み込みしてください。",
+  invalid_frame_name: "フレーム名を入力してください。",
+  invalid_frame_fields: `入力項目は 1〜${CUSTOM_DECISION_FRAME_MAX_FIELDS} 件で、それぞれ表示名が必要です。`,
+  invalid_frame_field_key: "変数名は半角英字で始まる英数字と _ で入力してください。",
+  duplicate_frame_field_key: "同じ変数名が重複しています。",
+  invalid_frame_metric_label: "結果の名前を入力してください。",
+  invalid_frame_thresholds: "判定ラインを確認してください。低いほど良い場合は「採用」≦「見送り」、高いほど良い場合は「採用」≧「見送り」です。",
+  formula_empty: "計算式を入力してください。",
+  formula_too_long: "計算式が長すぎます。",
+  formula_syntax_error: "計算式を読み取れませんでした。括弧や演算子を確認してください。",
+  formula_unknown_variable: "計算式に入力項目にない変数名が含まれています。",
+  formula_unknown_function: "使える関数は min / max / abs / round です。",
+  formula_too_deep: "計算式の入れ子が深すぎます。"
+};
+
+const FALLBACK_ERROR = "保存に失敗しました。時間をおいてもう一度お試しください。";
+
+const EMPTY_DRAFT: FrameDraft = {
+  name: "",
+  fields: [
+    { key: "cost", label: "費用", unit: "円" },
+    { key: "hours", label: "使う時間", unit: "時間" }
+  ],
+  formula: "cost / hours",
+  metricLabel: "1時間あたりの費用",
+  metricUnit: "円/時間",
+  better: "lower",
+  useNowAt: "",
+  skipAt: ""
+};
+
+const toDraft = (frame: CustomDecisionFrame): FrameDraft => ({
+  name: frame.name,
+  fields: frame.fields.map((field) => ({ ...field })),
+  formula: frame.formula,
+  metricLabel: frame.metricLabel,
+  metricUnit: frame.metricUnit,
+  better: frame.better,
+  useNowAt: String(frame.useNowAt),
+  skipAt: String(frame.skipAt)
+});
+
+const describeBoundaries = (frame: CustomDecisionFrame): string => {
+  const unit = frame.metricUnit;
+  return frame.better === "lower"
+    ? `${frame.useNowAt}${unit}以下で採用 / ${frame.skipAt}${unit}超で見送る`
+    : `${frame.useNowAt}${unit}以上で採用 / ${frame.skipAt}${unit}未満で見送る`;
+};
+
+export default function DecisionFrameEditor({ initialFrames, canEdit }: DecisionFrameEditorProps) {
+  const [frames, setFrames] = useState(initialFrames);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<FrameDraft | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (
+    url: string,
+    method: "POST" | "PUT" | "DELETE",
+    body?: unknown
+  ): Promise<FrameResponse | null> => {
+    setIsSubmitting(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined
+      });
+      const payload = (await response.json().catch(() => null)) as FrameResponse | null;
+      if (!response.ok || !payload || !payload.ok) {
+        const code = payload && !payload.ok ? payload.error : "";
+        setError(ERROR_MESSAGES[code] ?? FALLBACK_ERROR);
+        return null;
+      }
+      return payload;
+    } catch {
+      setError(FALLBACK_ERROR);
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const startEditing = (frame: CustomDecisionFrame | null) => {
+    setEditingId(frame?.id ?? null);
+    setDraft(frame ? toDraft(frame) : { ...EMPTY_DRAFT, fields: EMPTY_DRAFT.fields.map((field) => ({ ...field })) });
+    setMessage(null);
+    setError(null);
+  };
+
+  const updateDraft = (patch: Partial<FrameDraft>) => {
+    setDraft((current) => (current ? { ...current, ...patch } : current));
+  };
+
+  const updateField = (index: number, patch: Partial<FieldDraft>) => {
+    setDraft((current) =>
+      current
+        ? {
+            ...current,
+            fields: current.fields.map((field, fieldIndex) => (fieldIndex === index ? { ...field, ...patch } : field))
+          }
+        : current
+    );
+  };
+
+  const onSave = async () => {
+    if (!draft) return;
+
+    const payload = await request(
+      editingId ? `/api/decision-frames/${editingId}` : "/api/decision-frames",
+      editingId ? "PUT" : "POST",
+      draft
+    );
+    const saved = payload?.ok ? payload.frame : null;
+    if (!saved) return;
+
+    setFrames((current) =>
+      editingId ? current.map((frame) => (frame.id === saved.id ? saved : frame)) : [...current, saved]
+    );
+    setDraft(null);
+    setEditingId(null);
+    setMessage(editingId ? "判断フレームを更新しました。" : "判断フレームを保存しました。");
+  };
+
+  const onDelete = async (frame: CustomDecisionFrame) => {
+    if (!window.confirm(`「${frame.name}」を削除しますか？`)) {
+      return;
+    }
+
+    const payload = await request(`/api/decision-frames/${frame.id}`, "DELETE");
+    if (payload?.ok) {
+      setFrames((current) => current.filter((item) => item.id !== frame.id));
+      if (editingId === frame.id) {
+        setDraft(null);
+        setEditingId(null);
+      }
+      setMessage("判断フレームを削除しました。");
+    }
+  };
+
+  return (
+    <div className={styles.editor}>
+      {frames.length > 0 ? (
+        <ul className={styles.frameList}>
+          {frames.map((frame) => (
+            <li key={frame.id} className={styles.frameItem}>
+              <div>
+                <strong>{frame.name}</strong>
+                <p>
+                  {frame.metricLabel} = <code>{frame.formula}</code>
+                </p>
+                <p>{describeBoundaries(frame)}</p>
+              </div>
+              <div className={styles.actionRow}>
+                {canEdit ? (
+                  <button type="button" className={styles.buttonGhost} onClick={() => startEditing(frame)} disabled={isSubmitting}>
+                    編集
+                  </button>
+                ) : null}
+                <button type="button" className={styles.buttonDanger} onClick={() => void onDelete(frame)} disabled={isSubmitting}>
+                  削除
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className={styles.hint}>まだ判断フレームはありません。</p>
+      )}
+
+      {canEdit && !draft && frames.length < CUSTOM_DECISION_FRAME_LIMIT ? (
+        <div className={styles.actionRow}>
+          <button type="button" className={styles.button} onClick={() => startEditing(null)}>
+            判断フレームを追加
+          </button>
+        </div>
+      ) : null}
+
+      {draft ? (
+        <form
+          className={styles.form}
+          onSubmit={(event) => {
+            event.preventDefault();
+            void onSave();
+          }}
+        >
+          <label className={styles.field}>
+            <span>フレーム名</span>
+            <input value={draft.name} onChange={(event) => updateDraft({ name: event.target.value })} placeholder="例: 1時間あたりの費用" />
+          </label>
+
+          <fieldset className={styles.fieldset}>
+            <legend>入力項目</legend>
+            {draft.fields.map((field, index) => (
+              <div key={index} className={styles.fieldRow}>
+                <input
+                  value={field.key}
+                  onChange={(event) => updateField(index, { key: event.target.value })}
+                  aria-label="変数名"
+                  placeholder="変数名 (cost)"
+                />
+                <input
+                  value={field.label}
+                  onChange={(event) => updateField(index, { label: event.target.value })}
+                  aria-label="表示名"
+                  placeholder="表示名"
+                />
+                <input
+                  value={field.unit}
+                  onChange={(event) => updateField(index, { unit: event.target.value })}
+                  aria-label="単位"
+                  placeholder="単位"
+                />
+                <button
+                  type="button"
+                  className={styles.buttonGhost}
+                  onClick={() => updateDraft({ fields: draft.fields.filter((_, fieldIndex) => fieldIndex !== index) })}
+                  disabled={draft.fields.length <= 1}
+                >
+                  削除
+                </button>
+              </div>
+            ))}
+            {draft.fields.length < CUSTOM_DECISION_FRAME_MAX_FIELDS ? (
+              <button
+                type="button"
+                className={styles.buttonGhost}
+                onClick={() => updateDraft({ fields: [...draft.fields, { key: "", label: "", unit: "" }] })}
+              >
+                項目を追加
+              </button>
+            ) : null}
+          </fieldset>
+
+          <label className={styles.field}>
+            <span>計算式</span>
+            <input value={draft.formula} onChange={(event) => updateDraft({ formula: event.target.value })} placeholder="cost / hours" />
+            <small>変数名と + - × ÷ ( )、min / max / abs / round が使えます。</small>
+          </label>
+
+          <div className={styles.fieldGrid}>
+            <label className={styles.field}>
+              <span>結果の名前</span>
+              <input value={draft.metricLabel} onChange={(event) => updateDraft({ metricLabel: event.target.value })} />
+            </label>
+            <label className={styles.field}>
+              <span>結果の単位</span>
+              <input value={draft.metricUnit} onChange={(event) => updateDraft({ metricUnit: event.target.value })} />
+            </label>
+            <label className={styles.field}>
+              <span>良い方向</span>
+              <select
+                value={draft.better}
+                onChange={(event) => updateDraft({ better: event.target.value === "higher" ? "higher" : "lower" })}
+              >
+                <option value="lower">低いほど良い</option>
+                <option value="higher">高いほど良い</option>
+              </select>
+            </label>
+            <label className={styles.field}>
+              <span>{draft.better === "lower" ? "この値以下なら採用" : "この値以上なら採用"}</span>
+              <input inputMode="decimal" value={draft.useNowAt} onChange={(event) => updateDraft({ useNowAt: event.target.value })} />
+            </label>
+            <label className={styles.field}>
+              <span>{draft.better === "lower" ? "この値を超えたら見送る" : "この値を下回ったら見送る"}</span>
+              <input inputMode="decimal" value={draft.skipAt} onChange={(event) => updateDraft({ skipAt: event.target.value })} />
+            </label>
+          </div>
+
+          <div className={styles.actionRow}>
+            <button type="submit" className={styles.button} disabled={isSubmitting}>
+              {editingId ? "更新する" : "保存する"}
+            </button>
+            <button
+              type="button"
+              className={styles.buttonGhost}
+              onClick={() => {
+                setDraft(null);
+                setEditingId(null);
+              }}
+              disabled={isSubmitting}
+            >
+              キャンセル
+            </button>
+          </div>
+        </form>
+      ) : null}
+
+      {message ? <p className={styles.hint}>{message}</p> : null}
+      {error ? <p className={styles.error} role="alert">{error}</p> : null}
+    </div>
+  );
+}
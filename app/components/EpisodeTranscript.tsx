@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import styles from "./episode-transcript.module.css";
+
+export type EpisodeTranscriptCue = {
+  startTime: number;
+  endTime: number;
+  text: string;
+};
+
+type EpisodeTranscriptProps = {
+  cues: EpisodeTranscriptCue[];
+  currentTime: number;
+  isPlaying: boolean;
+  onSeek: (time: number) => void;
+};
+
+export default function EpisodeTranscript({ cues, currentTime, isPlaying, onSeek }: EpisodeTranscriptProps) {
+  const listRef = useRef<HTMLOListElement>(null);
+  const [autoScroll, setAutoScroll] = useState(true);
+
+  const activeIndex = useMemo(() => {
+    let active = -1;
+    cues.forEach((cue, index) => {
+      if (currentTime >= cue.startTime) active = index;
+    });
+    return active;
+  }, [cues, currentTime]);
+
+  // Keep the spoken sentence in view without moving the page itself
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list || !isPlaying || !autoScroll || activeIndex < 0) return;
+    const item = list.children[activeIndex] as HTMLElement | undefined;
+    if (!item) return;
+    list.scrollTo({ top: item.offsetTop - list.clientHeight / 3, behavior: "smooth" });
+  }, [activeIndex, autoScroll, isPlaying]);
+
+  return (
+    <section className={styles.transcript} aria-label="文字起こし">
+      <div className={styles.header}>
+        <p className={styles.label}>文字起こし</p>
+        <label className={styles.follow}>
+          <input type="checkbox" checked={autoScroll} onChange={(event) => setAutoScroll(event.target.checked)} />
+          再生位置に追従
+        </label>
+      </div>
+      <ol ref={listRef} className={styles.list}>
+        {cues.map((cue, index) => (
+          <li key={`${cue.startTime}-${index}`}>
+            <button
+              type="button"
+              className={`${styles.cue} ${index === activeIndex ? styles.cueActive : ""}`.trim()}
+              onClick={() => onSeek(cue.startTime)}
+              aria-current={index === activeIndex ? "true" : undefined}
+            >
+              {cue.text}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
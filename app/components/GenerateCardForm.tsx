@@ -1,7 +1,9 @@
 "use client";
 
 import { useCallback, useEffect, useRef, useState } from "react";
+import DecisionCalculator from "@/app/components/DecisionCalculator";
 import { track } from "@/src/lib/analytics";
+import type { CustomDecisionFrame } from "@/src/lib/customDecisionFrames";
 import { GENRE_LABELS, JUDGMENT_TYPE_BADGE_LABELS, OUTCOME_LABELS } from "@/src/lib/labels";
 import styles from "./generate-card-form.module.css";
 
@@ -86,9 +88,11 @@ const parseSSELines = (
 type GenerateCardFormProps = {
   isPaid: boolean;
   showWelcome?: boolean;
+  /** Generated cards have no built-in frame, so the calculator only appears with custom frames. */
+  customFrames?: CustomDecisionFrame[];
 };
 
-export default function GenerateCardForm({ isPaid, showWelcome = false }: GenerateCardFormProps) {
+export default function GenerateCardForm({ isPaid, showWelcome = false, customFrames = [] }: GenerateCardFormProps) {
   const [inputText, setInputText] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [streamPhase, setStreamPhase] = useState<StreamPhase>("idle");
@@ -375,6 +379,17 @@ export default function GenerateCardForm({ isPaid, showWelcome = false }: Genera
                 </div>
               ) : null}
 
+              {customFrames.length > 0 ? (
+                <DecisionCalculator
+                  card={{ ...card, frame_type: null }}
+                  isPaid={isPaid}
+                  customFrames={customFrames}
+                  locale="ja"
+                  analyticsPage="/decisions"
+                  analyticsSource="generated_card_calculator"
+                />
+              ) : null}
+
               {card.outcome ? (
                 <div className={styles.actionRow}>
                   <span className={`${styles.outcomeBadge} ${styles[`outcome_${card.outcome}`]}`.trim()}>
@@ -0,0 +1,207 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { track } from "@/src/lib/analytics";
+import {
+  LETTER_CATEGORIES,
+  LETTER_CATEGORY_LABELS,
+  LETTER_DISPLAY_NAME_MAX_LENGTH,
+  LETTER_TEXT_MAX_LENGTH,
+  LETTER_TEXT_MIN_LENGTH,
+  MAX_LETTERS_PER_DAY,
+  TIP_AMOUNTS_JPY,
+  type LetterCategory,
+  type TipAmount
+} from "@/src/lib/letters";
+import styles from "./letter-form.module.css";
+
+type SubmitResponse =
+  | { ok: true; letter?: { id: string; status: string }; url?: string | null }
+  | { ok: false; error: string };
+
+type LetterFormProps = {
+  /** "tip" sends the letter through Stripe Checkout with a one-off tip. */
+  mode?: "letter" | "tip";
+  episodeId?: string;
+  page?: string;
+};
+
+const ERROR_MESSAGES: Record<string, string> = {
+  display_name_required: "ラジオネームを入力してください。",
+  display_name_too_long: `ラジオネームは${LETTER_DISPLAY_NAME_MAX_LENGTH}文字以内にしてください。`,
+  letter_text_required: "本文を入力してください。",
+  letter_text_too_short: `本文は${LETTER_TEXT_MIN_LENGTH}文字以上で書いてください。`,
+  letter_text_too_long: `本文は${LETTER_TEXT_MAX_LENGTH}文字以内にしてください。`,
+  letter_contains_url: "URL やドメイン名は送れません。サービス名だけ書いてください。",
+  letter_contains_email: "メールアドレスは書かないでください。",
+  letter_contains_phone_number: "電話番号は書かないでください。",
+  letter_contains_postal_code: "郵便番号や住所は書かないでください。",
+  letter_contains_card_number: "カード番号などの数字列は書かないでください。",
+  invalid_category: "カテゴリを選び直してください。",
+  letter_daily_limit_reached: `お便りは1日${MAX_LETTERS_PER_DAY}通までです。明日また送ってください。`,
+  rate_limit_exceeded: "短時間に送信が続いています。少し待ってから再度お試しください。",
+  unauthorized: "ログインが切れています。再度ログインしてください。",
+  invalid_tip_amount: "チップの金額を選び直してください。",
+  checkout_create_failed: "決済ページを開けませんでした。お便りは保存されているので、時間をおいて再度お試しください。"
+};
+
+const resolveErrorMessage = (error: string): string => {
+  return ERROR_MESSAGES[error] ?? "お便りの送信に失敗しました。時間をおいて再度お試しください。";
+};
+
+const isSubmitResponse = (value: unknown): value is SubmitResponse => {
+  if (!value || typeof value !== "object") return false;
+  const row = value as Record<string, unknown>;
+  return row.ok === true
+    ? (Boolean(row.letter) && typeof row.letter === "object") || typeof row.url === "string"
+    : typeof row.error === "string";
+};
+
+export default function LetterForm({ mode = "letter", episodeId, page = "/letters" }: LetterFormProps) {
+  const router = useRouter();
+  const isTip = mode === "tip";
+  const [tipAmount, setTipAmount] = useState<TipAmount>(TIP_AMOUNTS_JPY[1]);
+  const [displayName, setDisplayName] = useState("");
+  const [category, setCategory] = useState<LetterCategory>("topic_request");
+  const [text, setText] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+
+  const textLength = Array.from(text.trim()).length;
+
+  const onSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    setSubmitted(false);
+
+    try {
+      const response = await fetch(isTip ? "/api/stripe/tip-checkout" : "/api/letters", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          isTip ? { displayName, category, text, amount: tipAmount, episodeId } : { displayName, category, text }
+        )
+      });
+      const json = (await response.json().catch(() => null)) as unknown;
+
+      if (!isSubmitResponse(json)) {
+        setError(resolveErrorMessage("invalid_response"));
+        return;
+      }
+
+      if (!json.ok) {
+        setError(resolveErrorMessage(json.error));
+        return;
+      }
+
+      track("letter_submit", {
+        page,
+        source: isTip ? "tip_letter_form" : "letter_form",
+        episode_id: episodeId,
+        letter_category: category,
+        tip_amount: isTip ? tipAmount : undefined
+      });
+
+      if (isTip) {
+        if (!json.url) {
+          setError(resolveErrorMessage("checkout_create_failed"));
+          return;
+        }
+        window.location.href = json.url;
+        return;
+      }
+
+      setText("");
+      setSubmitted(true);
+      router.refresh();
+    } catch {
+      setError(resolveErrorMessage("network_error"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form className={styles.form} onSubmit={onSubmit}>
+      <label className={styles.field}>
+        ラジオネーム
+        <input
+          className={styles.input}
+          value={displayName}
+          maxLength={LETTER_DISPLAY_NAME_MAX_LENGTH}
+          onChange={(event) => setDisplayName(event.target.value)}
+          placeholder="例: 週末ゲーマー"
+        />
+      </label>
+
+      <label className={styles.field}>
+        カテゴリ
+        <select
+          className={styles.select}
+          value={category}
+          onChange={(event) => setCategory(event.target.value as LetterCategory)}
+        >
+          {LETTER_CATEGORIES.map((value) => (
+            <option key={value} value={value}>
+              {LETTER_CATEGORY_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className={styles.field}>
+        本文
+        <textarea
+          className={styles.textarea}
+          value={text}
+          maxLength={LETTER_TEXT_MAX_LENGTH}
+          onChange={(event) => setText(event.target.value)}
+          placeholder="取り上げてほしい話題や、迷っている判断を書いてください。"
+        />
+      </label>
+
+      {isTip ? (
+        <fieldset className={styles.tipOptions}>
+          <legend>チップ</legend>
+          {TIP_AMOUNTS_JPY.map((amount) => (
+            <label key={amount} className={styles.tipOption}>
+              <input
+                type="radio"
+                name="tip-amount"
+                value={amount}
+                checked={tipAmount === amount}
+                onChange={() => setTipAmount(amount)}
+              />
+              {amount.toLocaleString("ja-JP")}円
+            </label>
+          ))}
+        </fieldset>
+      ) : null}
+
+      {error ? <p className={styles.error}>{error}</p> : null}
+      {submitted ? <p className={styles.success}>お便りを受け付けました。確認後に番組で紹介することがあります。</p> : null}
+
+      <div className={styles.formFooter}>
+        <span className={styles.counter}>
+          {textLength} / {LETTER_TEXT_MAX_LENGTH}
+        </span>
+        <button
+          type="submit"
+          className={styles.submitButton}
+          disabled={isSubmitting || !displayName.trim() || textLength < LETTER_TEXT_MIN_LENGTH}
+        >
+          {isSubmitting
+            ? "送信中..."
+            : isTip
+              ? `${tipAmount.toLocaleString("ja-JP")}円のチップと送る`
+              : "お便りを送る"}
+        </button>
+      </div>
+    </form>
+  );
+}
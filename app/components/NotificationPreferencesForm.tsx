@@ -3,14 +3,36 @@
 import { useEffect, useState, useTransition } from "react";
 import { useRouter } from "next/navigation";
 import type { UserNotificationPreferences } from "@/src/lib/alerts";
+import PushSubscriptionControl from "./PushSubscriptionControl";
 import styles from "./notification-preferences-form.module.css";
 
 type NotificationPreferencesFormProps = {
   preferences: UserNotificationPreferences;
+  /** VAPID public key; `null` hides the device registration button. */
+  vapidPublicKey: string | null;
+};
+
+const TIMEZONE_OPTIONS = [
+  { value: "Asia/Tokyo", label: "日本時間 (JST)" },
+  { value: "Asia/Seoul", label: "ソウル" },
+  { value: "Asia/Shanghai", label: "北京・台北" },
+  { value: "Asia/Singapore", label: "シンガポール" },
+  { value: "Europe/London", label: "ロンドン" },
+  { value: "Europe/Berlin", label: "ベルリン・パリ" },
+  { value: "America/New_York", label: "ニューヨーク" },
+  { value: "America/Los_Angeles", label: "ロサンゼルス" },
+  { value: "UTC", label: "UTC" }
+];
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const ERROR_MESSAGES: Record<string, string> = {
+  invalid_notification_schedule: "配信時間帯とおやすみ時間は、開始と終了を別の時刻にしてください。"
 };
 
 export default function NotificationPreferencesForm({
-  preferences
+  preferences,
+  vapidPublicKey
 }: NotificationPreferencesFormProps) {
   const router = useRouter();
   const [formState, setFormState] = useState(preferences);
@@ -33,7 +55,8 @@ export default function NotificationPreferencesForm({
     });
 
     if (!response.ok) {
-      setStatus("保存に失敗しました。");
+      const payload = (await response.json().catch(() => null)) as { error?: string } | null;
+      setStatus(ERROR_MESSAGES[payload?.error ?? ""] ?? "保存に失敗しました。");
       return;
     }
 
@@ -96,6 +119,168 @@ export default function NotificationPreferencesForm({
         </div>
       </label>
 
+      <div className={styles.schedule}>
+        <h3>メールを受け取る時間</h3>
+        <p>時間外に届いたお知らせは、次の配信時間帯にまとめて送ります。</p>
+
+        <label className={styles.field}>
+          タイムゾーン
+          <select
+            value={formState.timezone}
+            onChange={(event) =>
+              setFormState((current) => ({
+                ...current,
+                timezone: event.target.value
+              }))
+            }
+          >
+            {TIMEZONE_OPTIONS.some((option) => option.value === formState.timezone) ? null : (
+              <option value={formState.timezone}>{formState.timezone}</option>
+            )}
+            {TIMEZONE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className={styles.hourRange}>
+          <label className={styles.field}>
+            配信時間帯
+            <select
+              value={formState.deliveryWindowStartHour}
+              onChange={(event) =>
+                setFormState((current) => ({
+                  ...current,
+                  deliveryWindowStartHour: Number(event.target.value)
+                }))
+              }
+            >
+              {HOURS.map((hour) => (
+                <option key={hour} value={hour}>
+                  {hour}:00
+                </option>
+              ))}
+            </select>
+          </label>
+          <span>〜</span>
+          <label className={styles.field}>
+            <span className={styles.srOnly}>配信時間帯の終了</span>
+            <select
+              value={formState.deliveryWindowEndHour}
+              onChange={(event) =>
+                setFormState((current) => ({
+                  ...current,
+                  deliveryWindowEndHour: Number(event.target.value)
+                }))
+              }
+            >
+              {HOURS.map((hour) => hour + 1).map((hour) => (
+                <option key={hour} value={hour}>
+                  {hour}:00
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <label className={styles.inlineOption}>
+          <input
+            type="checkbox"
+            checked={formState.quietHoursStartHour !== null}
+            onChange={(event) =>
+              setFormState((current) => ({
+                ...current,
+                quietHoursStartHour: event.target.checked ? 22 : null,
+                quietHoursEndHour: event.target.checked ? 7 : null
+              }))
+            }
+          />
+          おやすみ時間を設定する
+        </label>
+
+        {formState.quietHoursStartHour !== null && formState.quietHoursEndHour !== null ? (
+          <div className={styles.hourRange}>
+            <label className={styles.field}>
+              おやすみ時間
+              <select
+                value={formState.quietHoursStartHour}
+                onChange={(event) =>
+                  setFormState((current) => ({
+                    ...current,
+                    quietHoursStartHour: Number(event.target.value)
+                  }))
+                }
+              >
+                {HOURS.map((hour) => (
+                  <option key={hour} value={hour}>
+                    {hour}:00
+                  </option>
+                ))}
+              </select>
+            </label>
+            <span>〜</span>
+            <label className={styles.field}>
+              <span className={styles.srOnly}>おやすみ時間の終了</span>
+              <select
+                value={formState.quietHoursEndHour}
+                onChange={(event) =>
+                  setFormState((current) => ({
+                    ...current,
+                    quietHoursEndHour: Number(event.target.value)
+                  }))
+                }
+              >
+                {HOURS.map((hour) => (
+                  <option key={hour} value={hour}>
+                    {hour}:00
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        ) : null}
+      </div>
+
+      <label className={styles.option}>
+        <input
+          type="checkbox"
+          checked={formState.dailyBundleEnabled}
+          onChange={(event) =>
+            setFormState((current) => ({
+              ...current,
+              dailyBundleEnabled: event.target.checked
+            }))
+          }
+        />
+        <div>
+          <h3>1日1通にまとめる</h3>
+          <p>期限のお知らせと結果の記録リマインドを、配信時間帯の最初に1通のメールにまとめて送ります。</p>
+        </div>
+      </label>
+
+      <div className={styles.pushOption}>
+        <label className={styles.option}>
+          <input
+            type="checkbox"
+            checked={formState.pushEnabled}
+            onChange={(event) =>
+              setFormState((current) => ({
+                ...current,
+                pushEnabled: event.target.checked
+              }))
+            }
+          />
+          <div>
+            <h3>ブラウザ通知</h3>
+            <p>上でオンにしたお知らせを、登録した端末にもブラウザ通知で届けます。配信時間帯とおやすみ時間はメールと同じです。</p>
+          </div>
+        </label>
+
+        {formState.pushEnabled && vapidPublicKey ? <PushSubscriptionControl vapidPublicKey={vapidPublicKey} /> : null}
+      </div>
+
       <div className={styles.actions}>
         <button type="button" className={styles.submitButton} disabled={isPending} onClick={() => void save()}>
           保存する
@@ -1,7 +1,8 @@
 "use client";
 
 import { useCallback, useState } from "react";
-import AudioPlayer from "./AudioPlayer";
+import AudioPlayer, { type AudioPlayerChapter } from "./AudioPlayer";
+import type { EpisodeTranscriptCue } from "./EpisodeTranscript";
 import { track } from "@/src/lib/analytics";
 import styles from "./post-listen-cta.module.css";
 
@@ -13,6 +14,8 @@ type PostListenCTAProps = {
   hasCards: boolean;
   page: string;
   episodeId?: string;
+  chapters?: AudioPlayerChapter[];
+  transcript?: EpisodeTranscriptCue[];
 };
 
 export default function PostListenCTA({
@@ -22,7 +25,9 @@ export default function PostListenCTA({
   cardsAnchorId = "topic-cards",
   hasCards,
   page,
-  episodeId
+  episodeId,
+  chapters,
+  transcript
 }: PostListenCTAProps) {
   const [showCTA, setShowCTA] = useState(false);
 
@@ -53,6 +58,9 @@ export default function PostListenCTA({
         src={src}
         title={title}
         description={description}
+        episodeId={episodeId}
+        chapters={chapters}
+        transcript={transcript}
         onEnded={onEnded}
       />
 
@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import styles from "./notification-preferences-form.module.css";
+
+type PushSubscriptionControlProps = {
+  vapidPublicKey: string;
+};
+
+type PushState = "loading" | "unsupported" | "denied" | "subscribed" | "unsubscribed";
+
+const SERVICE_WORKER_PATH = "/sw.js";
+
+const decodeBase64Url = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  const binary = window.atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+};
+
+const isPushSupported = (): boolean => {
+  return typeof window !== "undefined" && "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+};
+
+export default function PushSubscriptionControl({ vapidPublicKey }: PushSubscriptionControlProps) {
+  const [pushState, setPushState] = useState<PushState>("loading");
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isPushSupported()) {
+      setPushState("unsupported");
+      return;
+    }
+
+    if (Notification.permission === "denied") {
+      setPushState("denied");
+      return;
+    }
+
+    void navigator.serviceWorker
+      .getRegistration(SERVICE_WORKER_PATH)
+      .then((registration) => registration?.pushManager.getSubscription() ?? null)
+      .then((subscription) => setPushState(subscription ? "subscribed" : "unsubscribed"))
+      .catch(() => setPushState("unsubscribed"));
+  }, []);
+
+  const subscribe = async () => {
+    setIsBusy(true);
+    setStatus(null);
+
+    try {
+      const permission = await Notification.requestPermission();
+      if (permission !== "granted") {
+        setPushState(permission === "denied" ? "denied" : "unsubscribed");
+        return;
+      }
+
+      const registration = await navigator.serviceWorker.register(SERVICE_WORKER_PATH);
+      await navigator.serviceWorker.ready;
+      const subscription =
+        (await registration.pushManager.getSubscription()) ??
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: decodeBase64Url(vapidPublicKey)
+        }));
+
+      const response = await fetch("/api/push/subscriptions", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ subscription: subscription.toJSON() })
+      });
+
+      if (!response.ok) {
+        await subscription.unsubscribe();
+        setStatus("この端末を登録できませんでした。");
+        return;
+      }
+
+      setPushState("subscribed");
+      setStatus("この端末でブラウザ通知を受け取ります。");
+    } catch {
+      setStatus("この端末を登録できませんでした。");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const unsubscribe = async () => {
+    setIsBusy(true);
+    setStatus(null);
+
+    try {
+      const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_PATH);
+      const subscription = await registration?.pushManager.getSubscription();
+      if (subscription) {
+        await fetch("/api/push/subscriptions", {
+          method: "DELETE",
+          headers: {
+            "Content-Type": "application/json"
+          },
+          body: JSON.stringify({ endpoint: subscription.endpoint })
+        });
+        await subscription.unsubscribe();
+      }
+
+      setPushState("unsubscribed");
+      setStatus("この端末のブラウザ通知を解除しました。");
+    } catch {
+      setStatus("解除に失敗しました。");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (pushState === "loading") {
+    return null;
+  }
+
+  if (pushState === "unsupported") {
+    return <p className={styles.status}>このブラウザはブラウザ通知に対応していません。</p>;
+  }
+
+  if (pushState === "denied") {
+    return <p className={styles.status}>ブラウザの設定で通知がブロックされています。</p>;
+  }
+
+  return (
+    <div className={styles.actions}>
+      <button
+        type="button"
+        className={styles.secondaryButton}
+        disabled={isBusy}
+        onClick={() => void (pushState === "subscribed" ? unsubscribe() : subscribe())}
+      >
+        {pushState === "subscribed" ? "この端末の通知を解除" : "この端末で通知を受け取る"}
+      </button>
+      {status ? <p className={styles.status} aria-live="polite">{status}</p> : null}
+    </div>
+  );
+}
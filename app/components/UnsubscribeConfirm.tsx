@@ -0,0 +1,58 @@
+"use client";
+
+import { useState } from "react";
+import styles from "./unsubscribe-confirm.module.css";
+
+type UnsubscribeResponse = { ok: true } | { ok: false; error: string };
+
+const ERROR_MESSAGES: Record<string, string> = {
+  invalid_unsubscribe_token: "このリンクは無効です。ログインして通知設定から変更してください。",
+  unsubscribe_token_expired: "このリンクは有効期限が切れています。ログインして通知設定から変更してください。"
+};
+
+export default function UnsubscribeConfirm({ token, scopeLabel }: { token: string; scopeLabel: string }) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const onUnsubscribe = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/alerts/unsubscribe", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token })
+      });
+      const payload = (await response.json().catch(() => null)) as UnsubscribeResponse | null;
+      if (!payload || !payload.ok) {
+        setError(ERROR_MESSAGES[payload && !payload.ok ? payload.error : ""] ?? "配信を停止できませんでした。");
+        return;
+      }
+
+      setDone(true);
+    } catch {
+      setError("配信を停止できませんでした。");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (done) {
+    return (
+      <div className={styles.panel}>
+        <p className={styles.notice}>「{scopeLabel}」のメール配信を停止しました。</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.panel}>
+      <button type="button" className={styles.button} onClick={() => void onUnsubscribe()} disabled={isSubmitting}>
+        {isSubmitting ? "停止中..." : "配信を停止する"}
+      </button>
+      {error ? <p className={styles.error}>{error}</p> : null}
+    </div>
+  );
+}
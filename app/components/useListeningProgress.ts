@@ -0,0 +1,160 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import {
+  LISTENING_PROGRESS_SYNC_INTERVAL_MS,
+  MIN_SAVED_POSITION_SEC,
+  resolveResumePosition,
+  type ListeningProgressSummary
+} from "@/src/lib/listeningProgress";
+
+type UseListeningProgressParams = {
+  episodeId: string | null | undefined;
+  src: string | null;
+  onSynced?: (progress: ListeningProgressSummary) => void;
+};
+
+type ProgressResponse = {
+  ok: boolean;
+  progress?: ListeningProgressSummary | null;
+};
+
+// Signed-out listeners keep the position on this device only.
+const storageKey = (id: string) => `audio-pos:${id}`;
+
+const toDuration = (audio: HTMLAudioElement): number | null => {
+  return Number.isFinite(audio.duration) && audio.duration > 0 ? audio.duration : null;
+};
+
+/**
+ * Restores and saves the playback position of one episode. Signed-in
+ * listeners sync through `/api/episodes/[id]/progress`; the handlers are
+ * wired to the `<audio>` element's events by the caller.
+ */
+export const useListeningProgress = ({ episodeId, src, onSynced }: UseListeningProgressParams) => {
+  const storageId = episodeId ?? src;
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const pendingResumeRef = useRef<number | null>(null);
+  const isSignedInRef = useRef(false);
+  const lastSyncAtRef = useRef(0);
+  const onSyncedRef = useRef(onSynced);
+
+  useEffect(() => {
+    onSyncedRef.current = onSynced;
+  }, [onSynced]);
+
+  const applyResume = useCallback(() => {
+    const audio = audioRef.current;
+    const position = pendingResumeRef.current;
+    if (!audio || position === null || audio.readyState < 1) return;
+
+    pendingResumeRef.current = null;
+    if (position > 0 && audio.currentTime < MIN_SAVED_POSITION_SEC) {
+      audio.currentTime = position;
+    }
+  }, []);
+
+  useEffect(() => {
+    pendingResumeRef.current = null;
+    isSignedInRef.current = false;
+    lastSyncAtRef.current = Date.now();
+    if (!storageId) return;
+
+    const restoreFromStorage = () => {
+      const saved = Number.parseFloat(localStorage.getItem(storageKey(storageId)) ?? "");
+      pendingResumeRef.current = Number.isFinite(saved) && saved > 0 ? saved : 0;
+      applyResume();
+    };
+
+    if (!episodeId) {
+      restoreFromStorage();
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/episodes/${encodeURIComponent(episodeId)}/progress`)
+      .then(async (response) => {
+        if (cancelled) return;
+        if (!response.ok) {
+          restoreFromStorage();
+          return;
+        }
+
+        const payload = (await response.json()) as ProgressResponse;
+        if (cancelled) return;
+        isSignedInRef.current = true;
+        pendingResumeRef.current = resolveResumePosition(payload.progress ?? null);
+        applyResume();
+      })
+      .catch(() => {
+        if (!cancelled) restoreFromStorage();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [applyResume, episodeId, storageId]);
+
+  const sync = useCallback(
+    (audio: HTMLAudioElement, ended: boolean) => {
+      if (!storageId) return;
+
+      const durationSec = toDuration(audio);
+      const positionSec = ended ? durationSec ?? audio.currentTime : audio.currentTime;
+      if (!ended && positionSec < MIN_SAVED_POSITION_SEC) return;
+      lastSyncAtRef.current = Date.now();
+
+      if (!isSignedInRef.current || !episodeId) {
+        if (ended) {
+          localStorage.removeItem(storageKey(storageId));
+        } else {
+          localStorage.setItem(storageKey(storageId), String(positionSec));
+        }
+        return;
+      }
+
+      void fetch(`/api/episodes/${encodeURIComponent(episodeId)}/progress`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ positionSec, durationSec, ended }),
+        keepalive: true
+      })
+        .then((response) => (response.ok ? (response.json() as Promise<ProgressResponse>) : null))
+        .then((payload) => {
+          if (payload?.progress) onSyncedRef.current?.(payload.progress);
+        })
+        .catch(() => undefined);
+    },
+    [episodeId, storageId]
+  );
+
+  const onLoadedMetadata = useCallback(
+    (audio: HTMLAudioElement) => {
+      audioRef.current = audio;
+      applyResume();
+    },
+    [applyResume]
+  );
+
+  const onTimeUpdate = useCallback(
+    (audio: HTMLAudioElement) => {
+      if (!audio.paused && Date.now() - lastSyncAtRef.current >= LISTENING_PROGRESS_SYNC_INTERVAL_MS) {
+        sync(audio, false);
+      }
+    },
+    [sync]
+  );
+
+  const onPause = useCallback(
+    (audio: HTMLAudioElement) => {
+      if (!audio.ended) sync(audio, false);
+    },
+    [sync]
+  );
+
+  const onEnded = useCallback((audio: HTMLAudioElement) => sync(audio, true), [sync]);
+
+  return { onLoadedMetadata, onTimeUpdate, onPause, onEnded };
+};
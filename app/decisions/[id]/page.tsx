@@ -10,6 +10,7 @@ import MemberControls from "@/app/components/MemberControls";
 import PremiumPreview from "@/app/components/PremiumPreview";
 import ShareButton from "@/app/components/ShareButton";
 import TrackedLink from "@/app/components/TrackedLink";
+import { loadCustomDecisionFrames } from "@/app/lib/decisionFrames";
 import { formatThresholdHighlights } from "@/app/lib/judgmentAccess";
 import { buildLoginPath } from "@/app/lib/onboarding";
 import { loadPublishedEpisodeById } from "@/app/lib/episodes";
@@ -102,6 +103,10 @@ export default async function EpisodeDetailPage({
     isPaid: viewer.isPaid,
     userId: viewer.userId
   });
+  // Custom frames are a calculator extra; a load failure just hides the selector.
+  const { frames: customFrames } = viewer.isPaid
+    ? await loadCustomDecisionFrames(viewer.userId)
+    : { frames: [] };
   const publicEpisodePath = buildPublicEpisodePath(id);
   const displayTitle = episode
     ? resolveDisplayEpisodeTitle({
@@ -153,6 +158,7 @@ export default async function EpisodeDetailPage({
                 hasCards={episode.judgment_cards.length > 0}
                 page={`/decisions/${id}`}
                 episodeId={episode.id}
+                chapters={episode.chapters}
               />
               <div className={styles.shareRow}>
                 <ShareButton
@@ -186,7 +192,7 @@ export default async function EpisodeDetailPage({
             ) : (
               <div className={styles.cardGrid}>
                 {episode.judgment_cards.map((card) => (
-                  <article key={card.id} className={styles.card}>
+                  <article key={card.id} id={`card-${card.id}`} className={styles.card}>
                     <AnalyticsEventOnRender
                       eventName="judgment_card_impression"
                       properties={{
@@ -235,7 +241,12 @@ export default async function EpisodeDetailPage({
                           {card.deadline_at ? (
                             <div>
                               <dt>見直しタイミング</dt>
-                              <dd>{formatDateTime(card.deadline_at)}</dd>
+                              <dd>
+                                {formatDateTime(card.deadline_at)}{" "}
+                                <a href={`/api/calendar/cards/${card.id}`} className={styles.calendarLink} download>
+                                  カレンダーに追加
+                                </a>
+                              </dd>
                             </div>
                           ) : null}
                         </dl>
@@ -256,6 +267,7 @@ export default async function EpisodeDetailPage({
                         <DecisionCalculator
                           card={card}
                           isPaid={viewer.isPaid}
+                          customFrames={customFrames}
                           locale="ja"
                           analyticsPage={`/decisions/${id}`}
                           analyticsSource="episode_detail_card"
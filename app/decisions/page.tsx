@@ -7,6 +7,7 @@ import ShareButton from "@/app/components/ShareButton";
 import TrackedLink from "@/app/components/TrackedLink";
 import TutorialTrigger from "@/app/components/TutorialTrigger";
 import type { Metadata } from "next";
+import { loadCustomDecisionFrames } from "@/app/lib/decisionFrames";
 import { loadPublishedEpisodes } from "@/app/lib/episodes";
 import { buildLoginPath, buildOnboardingPath } from "@/app/lib/onboarding";
 import { formatGenreLabel, formatTopicTitle, JUDGMENT_TYPE_LABELS } from "@/app/lib/uiText";
@@ -42,6 +43,7 @@ export default async function DecisionsPage({
     isPaid,
     userId: viewer?.userId
   });
+  const { frames: customFrames } = isPaid ? await loadCustomDecisionFrames(viewer.userId) : { frames: [] };
 
   const latestEpisode = episodes.length > 0 ? episodes[0] : null;
   const judgmentCards = latestEpisode?.judgment_cards ?? [];
@@ -217,7 +219,7 @@ export default async function DecisionsPage({
       </div>
 
       {/* --- AI Consult --- */}
-      <GenerateCardForm isPaid={isPaid} showWelcome={showWelcome} />
+      <GenerateCardForm isPaid={isPaid} showWelcome={showWelcome} customFrames={customFrames} />
     </main>
   );
 }
@@ -7,16 +7,18 @@ import AnalyticsEventOnRender from "@/app/components/AnalyticsEventOnRender";
 import AnalyticsPageView from "@/app/components/AnalyticsPageView";
 import DecisionCalculator from "@/app/components/DecisionCalculator";
 import ShareButton from "@/app/components/ShareButton";
+import { useListeningProgress } from "@/app/components/useListeningProgress";
 import { isWithinFreeAccessWindow } from "@/app/lib/contentAccess";
 import { formatThresholdHighlights } from "@/app/lib/judgmentAccess";
 import { formatFrameTypeLabel } from "@/app/lib/uiText";
 import { PRODUCT_NAME } from "@/src/lib/brand";
+import type { CustomDecisionFrame } from "@/src/lib/customDecisionFrames";
 import { buildPublicEpisodePath } from "@/src/lib/episodeLinks";
 import { getMessages } from "@/src/lib/i18n/messages";
 import type { Locale } from "@/src/lib/i18n/locale";
 import { useLocale } from "@/src/lib/i18n/useLocale";
 import styles from "./episodes.module.css";
-import type { EpisodeRow, EpisodesViewer, ViewLang } from "./types";
+import type { EpisodeListeningProgress, EpisodeRow, EpisodesViewer, ViewLang } from "./types";
 
 type SourceMeta = {
   source: string;
@@ -39,9 +41,11 @@ type EpisodeGroup = {
 };
 
 type EpisodesViewProps = {
+  customFrames: CustomDecisionFrame[];
   episodes: EpisodeRow[];
   initialLocale: Locale;
   initialViewLang: ViewLang;
+  listeningProgress: EpisodeListeningProgress;
   loadError: string | null;
   viewer: EpisodesViewer;
 };
@@ -284,9 +288,11 @@ const resolveViewLang = (value: string | null, initialViewLang: ViewLang): ViewL
 };
 
 export default function EpisodesView({
+  customFrames,
   episodes,
   initialLocale,
   initialViewLang,
+  listeningProgress: initialListeningProgress,
   loadError,
   viewer
 }: EpisodesViewProps) {
@@ -328,6 +334,7 @@ export default function EpisodesView({
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMiniPlayerHidden, setIsMiniPlayerHidden] = useState(true);
   const [playbackError, setPlaybackError] = useState<string | null>(null);
+  const [listeningProgress, setListeningProgress] = useState(initialListeningProgress);
 
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const cardRefs = useRef(new Map<string, HTMLDivElement>());
@@ -449,6 +456,14 @@ export default function EpisodesView({
 
   const selectedEpisode = resolvedSelectedEpisodeId ? episodesById.get(resolvedSelectedEpisodeId) ?? null : null;
   const activeEpisode = activeEpisodeId ? episodesById.get(activeEpisodeId) ?? null : null;
+  const onListeningProgressSynced = useCallback((progress: EpisodeListeningProgress[string]) => {
+    setListeningProgress((current) => ({ ...current, [progress.episodeId]: progress }));
+  }, []);
+  const playbackProgress = useListeningProgress({
+    episodeId: activeEpisodeId,
+    src: activeEpisode?.audio_url ?? null,
+    onSynced: onListeningProgressSynced
+  });
   const selectedScriptText = isPaid
     ? selectedEpisode?.full_script ?? null
     : selectedEpisode?.preview_text ?? null;
@@ -576,6 +591,7 @@ export default function EpisodesView({
                         : episode.published_at
                           ? t.statusPublished
                           : t.statusReady;
+                      const listeningState = listeningProgress[episode.id]?.state ?? null;
 
                       return (
                         <div
@@ -594,6 +610,12 @@ export default function EpisodesView({
                               </span>
                             ) : null}
                             {isPlayingCard ? <span className={styles.liveBadge}>{t.activeBadge}</span> : null}
+                            {!isPlayingCard && listeningState === "in_progress" ? (
+                              <span className={styles.progressBadge}>{t.listeningInProgressBadge}</span>
+                            ) : null}
+                            {!isPlayingCard && listeningState === "finished" ? (
+                              <span className={styles.finishedBadge}>{t.listeningFinishedBadge}</span>
+                            ) : null}
                           </div>
 
                           {rows.length > 1 || stripLangSuffix(episode.title) !== group.topic ? (
@@ -702,6 +724,7 @@ export default function EpisodesView({
                           <DecisionCalculator
                             card={card}
                             isPaid={isPaid}
+                            customFrames={customFrames}
                             locale={locale}
                             analyticsPage="/episodes"
                             analyticsSource="episodes_detail_panel"
@@ -726,11 +749,11 @@ export default function EpisodesView({
                               </ul>
                             </>
                           ) : null}
-                          {isPaid && formatThresholdHighlights(card.threshold_json).length > 0 ? (
+                          {isPaid && formatThresholdHighlights(card.threshold_json, { locale }).length > 0 ? (
                             <>
                               <p className={styles.metaLine}>{t.thresholdLabel}</p>
                               <ul className={styles.watchList}>
-                                {formatThresholdHighlights(card.threshold_json).map((item) => (
+                                {formatThresholdHighlights(card.threshold_json, { locale }).map((item) => (
                                   <li key={item}>{item}</li>
                                 ))}
                               </ul>
@@ -885,9 +908,17 @@ export default function EpisodesView({
             preload="metadata"
             src={activeEpisode?.audio_url ?? undefined}
             className={styles.audioPlayer}
+            onLoadedMetadata={(event) => playbackProgress.onLoadedMetadata(event.currentTarget)}
+            onTimeUpdate={(event) => playbackProgress.onTimeUpdate(event.currentTarget)}
             onPlay={() => setIsPlaying(true)}
-            onPause={() => setIsPlaying(false)}
-            onEnded={() => setIsPlaying(false)}
+            onPause={(event) => {
+              setIsPlaying(false);
+              playbackProgress.onPause(event.currentTarget);
+            }}
+            onEnded={(event) => {
+              setIsPlaying(false);
+              playbackProgress.onEnded(event.currentTarget);
+            }}
             onError={() => setPlaybackError(messageSet.common.unknownError)}
           />
 
@@ -1,6 +1,7 @@
 import type { Metadata } from "next";
 import Link from "next/link";
 import { notFound } from "next/navigation";
+import LetterForm from "@/app/components/LetterForm";
 import MemberControls from "@/app/components/MemberControls";
 import PostListenCTA from "@/app/components/PostListenCTA";
 import ShareButton from "@/app/components/ShareButton";
@@ -85,12 +86,24 @@ export async function generateMetadata({
   };
 }
 
+type SearchParams = {
+  tip?: string | string[];
+};
+
+const readParam = (value: string | string[] | undefined): string | null => {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+};
+
 export default async function PublicEpisodePage({
-  params
+  params,
+  searchParams
 }: {
   params: Promise<{ id: string }>;
+  searchParams: Promise<SearchParams>;
 }) {
   const { id } = await params;
+  const tipStatus = readParam((await searchParams).tip);
   const viewer = await getViewerFromCookies();
   const isPaid = viewer?.isPaid ?? false;
   const publicPath = buildPublicEpisodePath(id);
@@ -169,6 +182,8 @@ export default async function PublicEpisodePage({
               hasCards={episode.judgment_cards.length > 0}
               page={publicPath}
               episodeId={episode.id}
+              chapters={episode.chapters}
+              transcript={episode.transcript}
             />
             <div className={styles.playerActions}>
               <ShareButton
@@ -203,7 +218,7 @@ export default async function PublicEpisodePage({
             {episode.judgment_cards.length > 0 ? (
               <div className={styles.cardGrid}>
                 {episode.judgment_cards.map((card) => (
-                  <article key={card.id} className={styles.card}>
+                  <article key={card.id} id={`card-${card.id}`} className={styles.card}>
                     <div className={styles.cardHeader}>
                       <span className={`${styles.badge} ${styles[`badge_${card.judgment_type}`]}`.trim()}>
                         {JUDGMENT_TYPE_LABELS[card.judgment_type]}
@@ -227,7 +242,12 @@ export default async function PublicEpisodePage({
                           {card.deadline_at ? (
                             <div>
                               <dt>見直しタイミング</dt>
-                              <dd>{formatDateTime(card.deadline_at)}</dd>
+                              <dd>
+                                {formatDateTime(card.deadline_at)}{" "}
+                                <a href={`/api/calendar/cards/${card.id}`} className={styles.calendarLink} download>
+                                  カレンダーに追加
+                                </a>
+                              </dd>
                             </div>
                           ) : null}
                         </dl>
@@ -280,6 +300,34 @@ export default async function PublicEpisodePage({
             ) : null}
           </section>
 
+          <section className={styles.section}>
+            <div className={styles.sectionHeader}>
+              <h2>お便りとチップを送る</h2>
+            </div>
+            {tipStatus === "success" ? (
+              <p className={styles.summaryText}>
+                チップを受け付けました。運営の確認後、次回以降の放送で優先してお便りを紹介します。
+              </p>
+            ) : null}
+            {tipStatus === "cancel" ? (
+              <p className={styles.summaryText}>
+                決済はキャンセルされました。お便りは確認待ちとして保存されています。
+              </p>
+            ) : null}
+            <p className={styles.summaryText}>
+              チップ付きのお便りは、運営が確認したあと通常のお便りより優先して番組で紹介されます。
+            </p>
+            {viewer ? (
+              <LetterForm mode="tip" episodeId={episode.id} page={publicPath} />
+            ) : (
+              <div className={styles.ctaRow}>
+                <Link href={buildLoginPath(publicPath)} className={styles.primaryLink}>
+                  ログインしてお便りを送る
+                </Link>
+              </div>
+            )}
+          </section>
+
           <section className={styles.section}>
             <div className={styles.sectionHeader}>
               <h2>{isPaid ? "フルスクリプト" : "公開プレビュー"}</h2>
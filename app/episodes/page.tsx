@@ -1,4 +1,6 @@
 import { loadPublishedEpisodes } from "@/app/lib/episodes";
+import { loadListeningProgress } from "@/app/lib/listeningProgress";
+import { loadCustomDecisionFrames } from "@/app/lib/decisionFrames";
 import { getViewerFromCookies } from "@/app/lib/viewer";
 import { resolveLocale } from "@/src/lib/i18n/locale";
 import {
@@ -63,6 +65,17 @@ export default async function EpisodesPage({
     isPaid: viewer?.isPaid ?? false
   });
 
+  // Progress is decoration; a load failure just hides the badges.
+  const { progressByEpisodeId: listeningProgress } = viewer
+    ? await loadListeningProgress(
+        viewer.userId,
+        episodes.map((episode) => episode.id)
+      )
+    : { progressByEpisodeId: {} };
+  const { frames: customFrames } = viewer?.isPaid
+    ? await loadCustomDecisionFrames(viewer.userId)
+    : { frames: [] };
+
   const siteUrl = process.env.NEXT_PUBLIC_SITE_URL ?? DEFAULT_SITE_URL;
 
   const jsonLd = {
@@ -88,9 +101,11 @@ export default async function EpisodesPage({
         dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
       />
       <EpisodesView
+        customFrames={customFrames}
         episodes={episodes}
         initialLocale={locale}
         initialViewLang={initialViewLang}
+        listeningProgress={listeningProgress}
         loadError={error}
         viewer={viewer}
       />
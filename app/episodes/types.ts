@@ -1,5 +1,6 @@
 import type { PublishedEpisodeRow } from "@/app/lib/episodes";
 import type { ViewerState } from "@/app/lib/viewer";
+import type { ListeningProgressSummary } from "@/src/lib/listeningProgress";
 
 export type EpisodeLang = "ja" | "en";
 
@@ -10,3 +11,5 @@ export type EpisodeRow = PublishedEpisodeRow;
 export type ViewLang = "all" | "ja" | "en";
 
 export type EpisodesViewer = ViewerState | null;
+
+export type EpisodeListeningProgress = Record<string, ListeningProgressSummary>;
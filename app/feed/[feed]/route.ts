@@ -0,0 +1,32 @@
+import { buildPodcastFeedResponse } from "@/app/lib/podcastFeed";
+import { isGenreAllowed, normalizeGenre, resolveAllowedGenres } from "@/src/lib/genre/allowedGenres";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 3600; // Cache for 1 hour
+
+const decodeFeedSegment = (feed: string): string | null => {
+  try {
+    return decodeURIComponent(feed);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * `/feed/<genre>.xml`; `/feed/en.xml` is served by its own static route.
+ * Malformed paths get the same 404 as unknown genres.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ feed: string }> }
+): Promise<Response> {
+  const { feed } = await params;
+  const match = decodeFeedSegment(feed)?.match(/^(.+)\.xml$/i);
+  const genre = match ? normalizeGenre(match[1]) : null;
+
+  if (!genre || !isGenreAllowed(genre, resolveAllowedGenres(process.env.ALLOWED_GENRES))) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  return buildPodcastFeedResponse({ language: "ja", genre });
+}
@@ -0,0 +1,8 @@
+import { buildPodcastFeedResponse } from "@/app/lib/podcastFeed";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 3600; // Cache for 1 hour
+
+export async function GET(): Promise<Response> {
+  return buildPodcastFeedResponse({ language: "en" });
+}
@@ -1,6 +1,7 @@
 import type { Metadata } from "next";
 import { redirect } from "next/navigation";
 import AnalyticsPageView from "@/app/components/AnalyticsPageView";
+import DecisionExportPanel from "@/app/components/DecisionExportPanel";
 import DecisionOutcomeSelect from "@/app/components/DecisionOutcomeSelect";
 
 export const metadata: Metadata = {
@@ -371,6 +372,16 @@ export default async function HistoryPage() {
           </div>
         )}
       </section>
+
+      <section className={styles.section}>
+        <div className={styles.sectionHeading}>
+          <div>
+            <p className={styles.sectionEyebrow}>データ</p>
+            <h2>履歴の書き出しと復元</h2>
+          </div>
+        </div>
+        <DecisionExportPanel page="/history" />
+      </section>
     </main>
   );
 }
@@ -0,0 +1,86 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import AnalyticsPageView from "@/app/components/AnalyticsPageView";
+import LetterForm from "@/app/components/LetterForm";
+import { loadUserLetters } from "@/app/lib/letters";
+import { buildLoginPath } from "@/app/lib/onboarding";
+import { getViewerFromCookies } from "@/app/lib/viewer";
+import {
+  LETTER_CATEGORY_LABELS,
+  LETTER_LISTENER_STATUS_LABELS,
+  isLetterCategory,
+  resolveLetterListenerStatus
+} from "@/src/lib/letters";
+import styles from "@/app/member-surface.module.css";
+
+export const metadata: Metadata = {
+  title: "お便り",
+  description: "番組へのお便りを送り、確認状況をチェックできます。"
+};
+
+export const dynamic = "force-dynamic";
+
+const formatDateTime = (value: string): string => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString("ja-JP", { timeZone: "Asia/Tokyo", hour12: false });
+};
+
+export default async function LettersPage() {
+  const viewer = await getViewerFromCookies();
+  if (!viewer) {
+    redirect(buildLoginPath("/letters"));
+  }
+
+  const { letters, error } = await loadUserLetters(viewer.userId);
+
+  return (
+    <main className={styles.page}>
+      <AnalyticsPageView page="/letters" pageEventName="letters_view" />
+
+      <section className={styles.hero}>
+        <div className={styles.heroCopy}>
+          <p className={styles.eyebrow}>Letters</p>
+          <h1>番組にお便りを送る</h1>
+          <p className={styles.lead}>
+            取り上げてほしい話題や、迷っている判断を送ってください。運営が確認したお便りだけが番組で紹介されます。
+          </p>
+          <p className={styles.sublead}>
+            URL・メールアドレス・電話番号などの個人情報は送信できません。
+          </p>
+        </div>
+      </section>
+
+      <section className={styles.section}>
+        <h2>新しいお便り</h2>
+        <LetterForm />
+      </section>
+
+      <section className={styles.section}>
+        <h2>送ったお便り</h2>
+        {error ? <p className={styles.errorText}>お便りの読み込みに失敗しました。時間をおいて再度お試しください。</p> : null}
+        {!error && letters.length === 0 ? (
+          <p className={styles.emptyState}>まだお便りはありません。</p>
+        ) : (
+          <ul className={styles.list}>
+            {letters.map((letter) => {
+              const status = resolveLetterListenerStatus(letter);
+
+              return (
+                <li key={letter.id} className={styles.card}>
+                  <p className={styles.metaText}>
+                    {formatDateTime(letter.created_at)} ・{" "}
+                    {isLetterCategory(letter.category) ? LETTER_CATEGORY_LABELS[letter.category] : "その他"} ・{" "}
+                    <strong>{LETTER_LISTENER_STATUS_LABELS[status]}</strong>
+                  </p>
+                  <h3>{letter.display_name}</h3>
+                  <p style={{ whiteSpace: "pre-wrap" }}>{letter.text}</p>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+    </main>
+  );
+}
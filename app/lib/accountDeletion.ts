@@ -0,0 +1,255 @@
+import type Stripe from "stripe";
+import {
+  ACCOUNT_PURGE_TABLES,
+  buildPersonalDataArchive,
+  DELETED_LISTENER_DISPLAY_NAME,
+  isCancellableSubscriptionStatus,
+  PERSONAL_DATA_TABLES,
+  type PersonalDataArchive,
+  type PersonalDataTable
+} from "@/src/lib/accountDeletion";
+import type { AccountDeletionChallenge } from "./accountDeletionToken";
+import { loadDecisionExport } from "./decisionExport";
+import { createServiceRoleClient } from "./supabaseClients";
+
+type AccountDeletionChallengeRow = AccountDeletionChallenge & {
+  sent_at: string | null;
+};
+
+type SubscriptionRow = {
+  stripe_subscription_id: string | null;
+  status: string | null;
+};
+
+type LetterRow = {
+  id: string;
+  is_used: boolean | null;
+};
+
+const ANALYTICS_EXPORT_LIMIT = 10000;
+
+export const loadPersonalDataArchive = async (params: {
+  userId: string;
+  email: string | null;
+}): Promise<{ archive: PersonalDataArchive | null; error: string | null }> => {
+  try {
+    const supabase = createServiceRoleClient();
+    const [decisionExport, ...tableResults] = await Promise.all([
+      loadDecisionExport(params.userId),
+      ...PERSONAL_DATA_TABLES.map((table) => {
+        const query = supabase.from(table).select("*").eq("user_id", params.userId);
+        return table === "analytics_events"
+          ? query.order("created_at", { ascending: false }).limit(ANALYTICS_EXPORT_LIMIT)
+          : query;
+      })
+    ]);
+
+    if (decisionExport.error) {
+      return { archive: null, error: decisionExport.error };
+    }
+
+    const tables: Partial<Record<PersonalDataTable, Record<string, unknown>[]>> = {};
+    for (const [index, table] of PERSONAL_DATA_TABLES.entries()) {
+      const { data, error } = tableResults[index];
+      if (error) {
+        return { archive: null, error: error.message };
+      }
+      tables[table] = (data as Record<string, unknown>[] | null) ?? [];
+    }
+
+    return {
+      archive: buildPersonalDataArchive({
+        userId: params.userId,
+        email: params.email,
+        tables,
+        decisionExport: decisionExport.document
+      }),
+      error: null
+    };
+  } catch (error) {
+    return {
+      archive: null,
+      error: error instanceof Error ? error.message : "unknown_error"
+    };
+  }
+};
+
+export const readAccountDeletionChallenge = async (userId: string): Promise<AccountDeletionChallengeRow | null> => {
+  const supabase = createServiceRoleClient();
+  const { data, error } = await supabase
+    .from("account_deletion_requests")
+    .select("code_hash, expires_at, sent_at, failed_attempts")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as AccountDeletionChallengeRow | null) ?? null;
+};
+
+export const saveAccountDeletionChallenge = async (params: {
+  userId: string;
+  codeHash: string;
+  expiresAt: string;
+  sentAt: string;
+}): Promise<void> => {
+  const supabase = createServiceRoleClient();
+  const { error } = await supabase.from("account_deletion_requests").upsert(
+    {
+      user_id: params.userId,
+      code_hash: params.codeHash,
+      expires_at: params.expiresAt,
+      sent_at: params.sentAt,
+      failed_attempts: 0
+    },
+    { onConflict: "user_id" }
+  );
+
+  if (error) {
+    throw error;
+  }
+};
+
+export const recordAccountDeletionFailure = async (userId: string, failedAttempts: number): Promise<void> => {
+  const supabase = createServiceRoleClient();
+  const { error } = await supabase
+    .from("account_deletion_requests")
+    .update({ failed_attempts: failedAttempts })
+    .eq("user_id", userId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+export const clearAccountDeletionChallenge = async (userId: string): Promise<void> => {
+  const supabase = createServiceRoleClient();
+  const { error } = await supabase.from("account_deletion_requests").delete().eq("user_id", userId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+/**
+ * Cancels every live Stripe subscription of the user immediately. Runs before
+ * any data is removed so a Stripe failure leaves the account intact.
+ */
+export const cancelStripeSubscriptions = async (userId: string, getStripe: () => Stripe): Promise<number> => {
+  const supabase = createServiceRoleClient();
+  const { data, error } = await supabase
+    .from("subscriptions")
+    .select("stripe_subscription_id, status")
+    .eq("user_id", userId);
+
+  if (error) {
+    throw error;
+  }
+
+  const subscriptionIds = Array.from(
+    new Set(
+      ((data as SubscriptionRow[] | null) ?? []).flatMap((row) =>
+        row.stripe_subscription_id && isCancellableSubscriptionStatus(row.status) ? [row.stripe_subscription_id] : []
+      )
+    )
+  );
+
+  if (subscriptionIds.length === 0) {
+    return 0;
+  }
+
+  const stripe = getStripe();
+  for (const subscriptionId of subscriptionIds) {
+    try {
+      await stripe.subscriptions.cancel(subscriptionId);
+    } catch (cancelError) {
+      // Already cancelled on the Stripe side; nothing left to bill.
+      if ((cancelError as { code?: string }).code !== "resource_missing") {
+        throw cancelError;
+      }
+    }
+  }
+
+  return subscriptionIds.length;
+};
+
+/**
+ * Purges or anonymises everything tied to the user, then deletes the auth user.
+ * Letters that aired or carry a tip are kept for the broadcast / payment record
+ * under an anonymous name; other letters are deleted. Analytics events lose
+ * their user_id (events without an anonymous_id are deleted). Outbox rows sent
+ * to the account address without a user_id (account security mail) go too.
+ */
+export const purgeAccountData = async (
+  userId: string,
+  email: string | null
+): Promise<{ anonymisedLetterCount: number }> => {
+  const supabase = createServiceRoleClient();
+
+  const { data: letterData, error: lettersError } = await supabase
+    .from("letters")
+    .select("id, is_used")
+    .eq("user_id", userId);
+  if (lettersError) throw lettersError;
+
+  const letters = (letterData as LetterRow[] | null) ?? [];
+  const letterIds = letters.map((letter) => letter.id);
+  const tippedLetterIds = new Set<string>();
+  if (letterIds.length > 0) {
+    const { data: tipData, error: tipsError } = await supabase.from("tips").select("letter_id").in("letter_id", letterIds);
+    if (tipsError) throw tipsError;
+    for (const tip of (tipData as Array<{ letter_id: string | null }> | null) ?? []) {
+      if (tip.letter_id) tippedLetterIds.add(tip.letter_id);
+    }
+  }
+
+  const keptLetterIds = letters
+    .filter((letter) => letter.is_used || tippedLetterIds.has(letter.id))
+    .map((letter) => letter.id);
+  const deletedLetterIds = letterIds.filter((id) => !keptLetterIds.includes(id));
+
+  if (keptLetterIds.length > 0) {
+    const { error } = await supabase
+      .from("letters")
+      .update({
+        user_id: null,
+        display_name: DELETED_LISTENER_DISPLAY_NAME,
+        is_blocked: true,
+        blocked_reason: "account_deleted"
+      })
+      .in("id", keptLetterIds);
+    if (error) throw error;
+  }
+
+  if (deletedLetterIds.length > 0) {
+    const { error } = await supabase.from("letters").delete().in("id", deletedLetterIds);
+    if (error) throw error;
+  }
+
+  const { error: anonymousEventsError } = await supabase
+    .from("analytics_events")
+    .delete()
+    .eq("user_id", userId)
+    .is("anonymous_id", null);
+  if (anonymousEventsError) throw anonymousEventsError;
+
+  const { error: analyticsError } = await supabase.from("analytics_events").update({ user_id: null }).eq("user_id", userId);
+  if (analyticsError) throw analyticsError;
+
+  for (const table of ACCOUNT_PURGE_TABLES) {
+    const { error } = await supabase.from(table).delete().eq("user_id", userId);
+    if (error) throw error;
+  }
+
+  if (email) {
+    const { error } = await supabase.from("email_outbox").delete().eq("to_email", email);
+    if (error) throw error;
+  }
+
+  const { error: authError } = await supabase.auth.admin.deleteUser(userId);
+  if (authError) throw authError;
+
+  return { anonymisedLetterCount: keptLetterIds.length };
+};
@@ -0,0 +1,63 @@
+import { createHash, randomInt, timingSafeEqual } from "node:crypto";
+import { ACCOUNT_DELETION_CONFIRM_PHRASE, ACCOUNT_DELETION_MAX_ATTEMPTS } from "../../src/lib/accountDeletion.ts";
+
+export type AccountDeletionChallenge = {
+  code_hash: string | null;
+  expires_at: string;
+  failed_attempts: number;
+};
+
+export type AccountDeletionChallengeError =
+  | "deletion_not_requested"
+  | "deletion_code_expired"
+  | "deletion_attempts_exceeded"
+  | "invalid_deletion_code";
+
+export const generateAccountDeletionCode = (): string => {
+  return String(randomInt(0, 1_000_000)).padStart(6, "0");
+};
+
+export const hashAccountDeletionCode = (userId: string, code: string): string => {
+  return createHash("sha256").update(`account_deletion.${userId}.${code.trim()}`).digest("hex");
+};
+
+export const isAccountDeletionConfirmPhrase = (value: unknown): boolean => {
+  return typeof value === "string" && value.trim() === ACCOUNT_DELETION_CONFIRM_PHRASE;
+};
+
+/**
+ * Checks a submitted code against the stored challenge. Expired or exhausted
+ * challenges fail before the code is compared.
+ */
+export const evaluateAccountDeletionChallenge = (params: {
+  userId: string;
+  challenge: AccountDeletionChallenge | null;
+  code: string;
+  now?: Date;
+}): { ok: true } | { ok: false; error: AccountDeletionChallengeError } => {
+  const { challenge } = params;
+  if (!challenge?.code_hash) {
+    return { ok: false, error: "deletion_not_requested" };
+  }
+
+  const expiresAt = new Date(challenge.expires_at).getTime();
+  if (!Number.isFinite(expiresAt) || expiresAt <= (params.now ?? new Date()).getTime()) {
+    return { ok: false, error: "deletion_code_expired" };
+  }
+
+  if (challenge.failed_attempts >= ACCOUNT_DELETION_MAX_ATTEMPTS) {
+    return { ok: false, error: "deletion_attempts_exceeded" };
+  }
+
+  if (!/^\d{6}$/.test(params.code.trim())) {
+    return { ok: false, error: "invalid_deletion_code" };
+  }
+
+  const inputBuffer = Buffer.from(hashAccountDeletionCode(params.userId, params.code));
+  const expectedBuffer = Buffer.from(challenge.code_hash);
+  if (inputBuffer.length !== expectedBuffer.length || !timingSafeEqual(inputBuffer, expectedBuffer)) {
+    return { ok: false, error: "invalid_deletion_code" };
+  }
+
+  return { ok: true };
+};
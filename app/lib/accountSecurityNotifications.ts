@@ -9,6 +9,7 @@ import {
   type UserPreferences
 } from "../../src/lib/userPreferences.ts";
 import { type UserNotificationPreferences } from "../../src/lib/alerts.ts";
+import { formatDeliveryHourRange } from "../../src/lib/alertDelivery.ts";
 import { sendEmail } from "./email.ts";
 import { createServiceRoleClient } from "./supabaseClients.ts";
 
@@ -34,6 +35,8 @@ type AccountChangeNotificationParams = {
   request: Request;
   changeLabel: string;
   changes: string[];
+  /** The account is gone; see `forgetRecipient` on `sendEmail`. */
+  forgetRecipient?: boolean;
 };
 
 type NotificationResult = {
@@ -258,7 +261,8 @@ const sendLoginNotificationEmail = async (params: {
       lead,
       items
     }),
-    text: buildEmailText({ title, lead, items })
+    text: buildEmailText({ title, lead, items }),
+    category: "account_security"
   });
 };
 
@@ -269,6 +273,7 @@ const sendAccountChangeNotificationEmail = async (params: {
   changedAt: string;
   ipAddress: string | null;
   userAgent: string | null;
+  forgetRecipient?: boolean;
 }) => {
   const title = "アカウント設定が更新されました";
   const lead = `${params.changeLabel} に変更がありました。`;
@@ -290,7 +295,41 @@ const sendAccountChangeNotificationEmail = async (params: {
       lead,
       items
     }),
-    text: buildEmailText({ title, lead, items })
+    text: buildEmailText({ title, lead, items }),
+    category: "account_security",
+    forgetRecipient: params.forgetRecipient
+  });
+};
+
+export const sendAccountDeletionCodeEmail = async (params: {
+  to: string;
+  code: string;
+  expiresInMinutes: number;
+  request: Request;
+}) => {
+  const title = "アカウント削除の確認コード";
+  const lead = `アカウント削除の手続きが開始されました。${params.expiresInMinutes} 分以内に確認コードを入力すると、アカウントと関連データが削除されます。`;
+  const items = [
+    `確認コード: ${params.code}`,
+    ...renderContextList({
+      changedAt: new Date().toISOString(),
+      ipAddress: extractClientIp(params.request),
+      userAgent: extractUserAgent(params.request)
+    })
+  ];
+
+  return sendEmail({
+    to: params.to,
+    subject: `【${BRAND_NAME}】アカウント削除の確認コード`,
+    html: buildEmailHtml({
+      eyebrow: "ACCOUNT DELETION",
+      title,
+      lead,
+      items
+    }),
+    text: buildEmailText({ title, lead, items }),
+    category: "account_security",
+    sensitive: true
   });
 };
 
@@ -350,6 +389,12 @@ export const describeUserPreferencesChanges = (
   return changes;
 };
 
+const formatQuietHours = (preferences: UserNotificationPreferences): string => {
+  return preferences.quietHoursStartHour === null || preferences.quietHoursEndHour === null
+    ? "なし"
+    : formatDeliveryHourRange(preferences.quietHoursStartHour, preferences.quietHoursEndHour);
+};
+
 export const describeNotificationPreferenceChanges = (
   before: UserNotificationPreferences,
   after: UserNotificationPreferences
@@ -368,6 +413,30 @@ export const describeNotificationPreferenceChanges = (
     changes.push(`結果の記録リマインド: ${before.outcomeReminderEnabled ? "有効" : "無効"} → ${after.outcomeReminderEnabled ? "有効" : "無効"}`);
   }
 
+  if (before.timezone !== after.timezone) {
+    changes.push(`タイムゾーン: ${before.timezone} → ${after.timezone}`);
+  }
+
+  const beforeWindow = formatDeliveryHourRange(before.deliveryWindowStartHour, before.deliveryWindowEndHour);
+  const afterWindow = formatDeliveryHourRange(after.deliveryWindowStartHour, after.deliveryWindowEndHour);
+  if (beforeWindow !== afterWindow) {
+    changes.push(`配信時間帯: ${beforeWindow} → ${afterWindow}`);
+  }
+
+  const beforeQuietHours = formatQuietHours(before);
+  const afterQuietHours = formatQuietHours(after);
+  if (beforeQuietHours !== afterQuietHours) {
+    changes.push(`おやすみ時間: ${beforeQuietHours} → ${afterQuietHours}`);
+  }
+
+  if (before.dailyBundleEnabled !== after.dailyBundleEnabled) {
+    changes.push(`1日1通にまとめる: ${before.dailyBundleEnabled ? "有効" : "無効"} → ${after.dailyBundleEnabled ? "有効" : "無効"}`);
+  }
+
+  if (before.pushEnabled !== after.pushEnabled) {
+    changes.push(`ブラウザ通知: ${before.pushEnabled ? "有効" : "無効"} → ${after.pushEnabled ? "有効" : "無効"}`);
+  }
+
   return changes;
 };
 
@@ -435,7 +504,8 @@ export const notifyAccountChange = async (
     changes: params.changes,
     changedAt: new Date().toISOString(),
     ipAddress: extractClientIp(params.request),
-    userAgent: extractUserAgent(params.request)
+    userAgent: extractUserAgent(params.request),
+    forgetRecipient: params.forgetRecipient
   });
 
   if (!result.ok) {
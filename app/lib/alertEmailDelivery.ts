@@ -0,0 +1,181 @@
+import { DEFAULT_USER_NOTIFICATION_PREFERENCES, type AlertUrgency } from "@/src/lib/alerts";
+import {
+  ALERT_RECHECK_DELAY_MS,
+  isAlertChannelEnabled,
+  isDailyBundleAlertType,
+  isDailyBundleDue,
+  resolveAlertDeliveryDecision,
+  resolveNextAlertDeliveryAt
+} from "@/src/lib/alertDelivery";
+import { resolveEmailUnsubscribeScope } from "@/src/lib/emailUnsubscribe";
+import type { AlertDeliveryHold, StoredUserAlert } from "./alerts";
+import { sendEmail } from "./email";
+import { buildAlertBundleEmail, buildAlertEmail, type EmailContent } from "./emailTemplates";
+import { buildEmailUnsubscribeLinks } from "./emailUnsubscribe";
+import { markDailyBundleSent, type AlertRecipientPreferences } from "./userNotificationPreferences";
+
+export type AlertEmailDeliverySummary = {
+  /** Emails delivered; a daily bundle counts once. */
+  sent: number;
+  queued: number;
+  skipped: number;
+  failed: number;
+  /** Alerts left unsent until the user's next delivery window. */
+  deferred: number;
+  /** Alerts delivered inside a daily bundle. */
+  bundled: number;
+  /** Alerts to mark `is_sent`. */
+  sentIds: string[];
+  /** Unsent alerts and when to try them again (`user_alerts.deliver_after`). */
+  heldBack: AlertDeliveryHold[];
+};
+
+const URGENCY_ORDER: Record<AlertUrgency, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3
+};
+
+/**
+ * Sends unsent alerts by email, honoring each user's alert types, delivery
+ * window, quiet hours and daily bundle setting. Shared by
+ * /api/email/send-alerts and /api/cron/generate-and-send-reminders.
+ */
+export const deliverAlertEmails = async (params: {
+  alerts: StoredUserAlert[];
+  emailByUserId: Map<string, string>;
+  recipientPreferences: Map<string, AlertRecipientPreferences>;
+  now?: Date;
+}): Promise<AlertEmailDeliverySummary> => {
+  const now = params.now ?? new Date();
+  const summary: AlertEmailDeliverySummary = {
+    sent: 0,
+    queued: 0,
+    skipped: 0,
+    failed: 0,
+    deferred: 0,
+    bundled: 0,
+    sentIds: [],
+    heldBack: []
+  };
+  const recheckAt = new Date(now.getTime() + ALERT_RECHECK_DELAY_MS).toISOString();
+  const holdBack = (alerts: StoredUserAlert[], deliverAfter: string) => {
+    if (alerts.length > 0) {
+      summary.heldBack.push({ alertIds: alerts.map((alert) => alert.id), deliverAfter });
+    }
+  };
+
+  const alertsByUserId = new Map<string, StoredUserAlert[]>();
+  for (const alert of params.alerts) {
+    const list = alertsByUserId.get(alert.userId) ?? [];
+    list.push(alert);
+    alertsByUserId.set(alert.userId, list);
+  }
+
+  const send = async (userId: string, email: string, content: EmailContent, headers?: Record<string, string>) => {
+    const result = await sendEmail({
+      to: email,
+      subject: content.subject,
+      html: content.html,
+      text: content.text,
+      headers,
+      userId,
+      category: "alert"
+    });
+
+    if (result.ok) {
+      summary.sent++;
+      return true;
+    }
+    if (result.queued) {
+      // The outbox retries it; marking it sent keeps the next run from sending a duplicate.
+      summary.queued++;
+      return true;
+    }
+    summary.failed++;
+    return false;
+  };
+
+  for (const [userId, userAlerts] of alertsByUserId) {
+    const email = params.emailByUserId.get(userId);
+    const recipient = params.recipientPreferences.get(userId);
+    const preferences = recipient?.preferences ?? DEFAULT_USER_NOTIFICATION_PREFERENCES;
+    const enabledAlerts = userAlerts.filter((alert) => isAlertChannelEnabled("email", alert.alertType, preferences));
+    summary.skipped += userAlerts.length - enabledAlerts.length;
+    holdBack(userAlerts.filter((alert) => !enabledAlerts.includes(alert)), recheckAt);
+
+    if (!email) {
+      summary.skipped += enabledAlerts.length;
+      holdBack(enabledAlerts, recheckAt);
+      continue;
+    }
+
+    if (!resolveAlertDeliveryDecision(preferences, now).send) {
+      summary.deferred += enabledAlerts.length;
+      holdBack(enabledAlerts, resolveNextAlertDeliveryAt({ schedule: preferences, now }).toISOString());
+      continue;
+    }
+
+    const bundleAlerts = preferences.dailyBundleEnabled
+      ? enabledAlerts.filter((alert) => isDailyBundleAlertType(alert.alertType))
+      : [];
+    const singleAlerts = enabledAlerts.filter((alert) => !bundleAlerts.includes(alert));
+
+    if (bundleAlerts.length > 0) {
+      if (isDailyBundleDue({ schedule: preferences, lastBundleSentAt: recipient?.dailyBundleSentAt ?? null, now })) {
+        const sorted = [...bundleAlerts].sort((left, right) => URGENCY_ORDER[left.urgency] - URGENCY_ORDER[right.urgency]);
+        const unsubscribe = buildEmailUnsubscribeLinks({ userId, scope: "all" });
+        const delivered = await send(
+          userId,
+          email,
+          buildAlertBundleEmail(sorted, { unsubscribeUrl: unsubscribe?.pageUrl }),
+          unsubscribe?.headers
+        );
+
+        if (delivered) {
+          summary.bundled += sorted.length;
+          summary.sentIds.push(...sorted.map((alert) => alert.id));
+          try {
+            await markDailyBundleSent(userId, now.toISOString());
+          } catch (error) {
+            console.error("daily_bundle_state_save_error", {
+              error: error instanceof Error ? error.message : error,
+              userId
+            });
+          }
+        }
+      } else {
+        // Today's bundle already went out; these wait for tomorrow's.
+        summary.deferred += bundleAlerts.length;
+        holdBack(
+          bundleAlerts,
+          resolveNextAlertDeliveryAt({
+            schedule: preferences,
+            now,
+            lastBundleSentAt: recipient?.dailyBundleSentAt ?? null
+          }).toISOString()
+        );
+      }
+    }
+
+    for (const alert of singleAlerts) {
+      const unsubscribe = buildEmailUnsubscribeLinks({
+        userId,
+        scope: resolveEmailUnsubscribeScope(alert.alertType)
+      });
+      const delivered = await send(
+        userId,
+        email,
+        buildAlertEmail(alert, { unsubscribeUrl: unsubscribe?.pageUrl }),
+        unsubscribe?.headers
+      );
+
+      if (delivered) {
+        summary.sentIds.push(alert.id);
+      }
+    }
+  }
+
+  return summary;
+};
@@ -0,0 +1,167 @@
+import { DEFAULT_USER_NOTIFICATION_PREFERENCES, type AlertUrgency } from "@/src/lib/alerts";
+import {
+  isAlertChannelEnabled,
+  resolveAlertDeliveryDecision,
+  resolveNextAlertDeliveryAt
+} from "@/src/lib/alertDelivery";
+import { recordAnalyticsEvent } from "@/src/lib/analytics";
+import {
+  PUSH_SUBSCRIPTION_MAX_FAILURES,
+  buildAlertPushPayload,
+  isPushAlertFresh,
+  isPushServiceEndpoint
+} from "@/src/lib/pushNotifications";
+import type { AlertDeliveryHold, StoredUserAlert } from "./alerts";
+import { savePushSubscriptionResults, type StoredPushSubscription } from "./pushSubscriptions";
+import type { AlertRecipientPreferences } from "./userNotificationPreferences";
+import { sendWebPush, type VapidConfig } from "./webPush";
+
+export type AlertPushDeliverySummary = {
+  /** Alerts pushed to at least one of the user's devices. */
+  sent: number;
+  skipped: number;
+  failed: number;
+  /** Alerts held back by the delivery window or quiet hours. */
+  deferred: number;
+  /** Subscriptions deleted because the push service dropped them. */
+  removedSubscriptions: number;
+  /** Alerts to stamp with `push_sent_at`. */
+  sentIds: string[];
+  /** Deferred alerts to stamp with `push_deliver_after`, so they leave the send batch until then. */
+  heldBack: AlertDeliveryHold[];
+};
+
+const PUSH_URGENCY: Record<AlertUrgency, "low" | "normal" | "high"> = {
+  critical: "high",
+  high: "high",
+  medium: "normal",
+  low: "low"
+};
+
+/**
+ * Pushes unsent alerts to every subscribed browser of their user, honoring
+ * the push channel switch, alert types, delivery window and quiet hours.
+ * Each delivered alert is recorded as a `push_delivered` analytics event.
+ */
+export const deliverAlertPushes = async (params: {
+  alerts: StoredUserAlert[];
+  subscriptionsByUserId: Map<string, StoredPushSubscription[]>;
+  recipientPreferences: Map<string, AlertRecipientPreferences>;
+  config: VapidConfig;
+  now?: Date;
+}): Promise<AlertPushDeliverySummary> => {
+  const now = params.now ?? new Date();
+  const summary: AlertPushDeliverySummary = {
+    sent: 0,
+    skipped: 0,
+    failed: 0,
+    deferred: 0,
+    removedSubscriptions: 0,
+    sentIds: [],
+    heldBack: []
+  };
+  const heldBackIds = new Map<string, string[]>();
+  const deliveredSubscriptionIds = new Set<string>();
+  const failureCounts = new Map<string, number>();
+  const removedSubscriptionIds = new Set<string>();
+
+  for (const alert of params.alerts) {
+    const preferences = params.recipientPreferences.get(alert.userId)?.preferences ?? DEFAULT_USER_NOTIFICATION_PREFERENCES;
+    // Rows saved before endpoints were limited to known push services are never sent to.
+    const subscriptions = (params.subscriptionsByUserId.get(alert.userId) ?? []).filter(
+      (subscription) => !removedSubscriptionIds.has(subscription.id) && isPushServiceEndpoint(subscription.endpoint)
+    );
+
+    if (
+      subscriptions.length === 0 ||
+      !isAlertChannelEnabled("push", alert.alertType, preferences) ||
+      !isPushAlertFresh(alert.createdAt, now)
+    ) {
+      // Stamped anyway so the next run does not look at it again.
+      summary.skipped++;
+      summary.sentIds.push(alert.id);
+      continue;
+    }
+
+    if (!resolveAlertDeliveryDecision(preferences, now).send) {
+      summary.deferred++;
+      const deliverAfter = resolveNextAlertDeliveryAt({ schedule: preferences, now }).toISOString();
+      heldBackIds.set(deliverAfter, [...(heldBackIds.get(deliverAfter) ?? []), alert.id]);
+      continue;
+    }
+
+    const payload = buildAlertPushPayload(alert);
+    let deliveredDevices = 0;
+
+    for (const subscription of subscriptions) {
+      const result = await sendWebPush(subscription, JSON.stringify(payload), params.config, {
+        urgency: PUSH_URGENCY[alert.urgency]
+      });
+
+      if (result.ok) {
+        deliveredDevices++;
+        deliveredSubscriptionIds.add(subscription.id);
+        failureCounts.delete(subscription.id);
+        continue;
+      }
+
+      const failureCount = (failureCounts.get(subscription.id) ?? subscription.failureCount) + 1;
+      if (result.expired || failureCount >= PUSH_SUBSCRIPTION_MAX_FAILURES) {
+        removedSubscriptionIds.add(subscription.id);
+        failureCounts.delete(subscription.id);
+      } else {
+        failureCounts.set(subscription.id, failureCount);
+      }
+
+      console.error("web_push_send_error", {
+        error: result.error,
+        status: result.status,
+        subscriptionId: subscription.id
+      });
+    }
+
+    if (deliveredDevices === 0) {
+      summary.failed++;
+      continue;
+    }
+
+    summary.sent++;
+    summary.sentIds.push(alert.id);
+
+    try {
+      await recordAnalyticsEvent({
+        eventName: "push_delivered",
+        userId: alert.userId,
+        source: "web_push",
+        properties: {
+          alert_id: alert.id,
+          alert_type: alert.alertType,
+          devices: deliveredDevices
+        }
+      });
+    } catch (error) {
+      console.error("push_delivered_analytics_error", {
+        error: error instanceof Error ? error.message : error,
+        alertId: alert.id
+      });
+    }
+  }
+
+  summary.removedSubscriptions = removedSubscriptionIds.size;
+  summary.heldBack = [...heldBackIds].map(([deliverAfter, alertIds]) => ({ alertIds, deliverAfter }));
+
+  try {
+    await savePushSubscriptionResults({
+      deliveredIds: [...deliveredSubscriptionIds].filter((id) => !removedSubscriptionIds.has(id)),
+      failureCounts,
+      removedIds: [...removedSubscriptionIds],
+      now
+    });
+  } catch (error) {
+    console.error("push_subscription_state_save_error", {
+      error: error instanceof Error ? error.message : error
+    });
+  }
+
+  return summary;
+};
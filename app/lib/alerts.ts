@@ -395,3 +395,97 @@ export const updateUserAlertState = async (params: {
     };
   }
 };
+
+/**
+ * Unread alerts not yet pushed, oldest first; `since` keeps stale ones out and
+ * alerts the push run held back wait until their `push_deliver_after`.
+ */
+export const loadPendingPushAlerts = async (params: {
+  since: string;
+  limit: number;
+  now: Date;
+}): Promise<{ alerts: StoredUserAlert[]; error: string | null }> => {
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from("user_alerts")
+      .select(USER_ALERTS_SELECT)
+      .is("push_sent_at", null)
+      .is("dismissed_at", null)
+      .eq("is_read", false)
+      .gte("created_at", params.since)
+      .or(buildAlertDeliveryDueFilter(params.now, "push_deliver_after"))
+      .order("created_at", { ascending: true })
+      .limit(params.limit);
+
+    if (error) {
+      return {
+        alerts: [],
+        error: error.message
+      };
+    }
+
+    return {
+      alerts: ((data as UserAlertRow[] | null) ?? []).map(toStoredAlert),
+      error: null
+    };
+  } catch (error) {
+    return {
+      alerts: [],
+      error: error instanceof Error ? error.message : "user_alerts_load_failed"
+    };
+  }
+};
+
+export type AlertDeliveryHold = {
+  alertIds: string[];
+  deliverAfter: string;
+};
+
+/** `deliver_after` for the email runs, `push_deliver_after` for the push run. */
+export type AlertHoldColumn = "deliver_after" | "push_deliver_after";
+
+/** Filter for a send batch: unsent alerts whose hold column has passed. */
+export const buildAlertDeliveryDueFilter = (now: Date, column: AlertHoldColumn = "deliver_after"): string => {
+  return `${column}.is.null,${column}.lte.${now.toISOString()}`;
+};
+
+/** Stores the hold time on alerts a run held back, so the next runs of that channel skip them until then. */
+export const markAlertsHeldBack = async (
+  holds: AlertDeliveryHold[],
+  column: AlertHoldColumn = "deliver_after"
+): Promise<{ error: string | null }> => {
+  const supabase = createServiceRoleClient();
+
+  for (const hold of holds) {
+    for (let index = 0; index < hold.alertIds.length; index += SUPABASE_BATCH_SIZE) {
+      const batch = hold.alertIds.slice(index, index + SUPABASE_BATCH_SIZE);
+      const { error } = await supabase.from("user_alerts").update({ [column]: hold.deliverAfter }).in("id", batch);
+
+      if (error) {
+        return { error: error.message };
+      }
+    }
+  }
+
+  return { error: null };
+};
+
+export const markAlertsPushed = async (alertIds: string[], pushedAt: string): Promise<{ error: string | null }> => {
+  if (alertIds.length === 0) {
+    return { error: null };
+  }
+
+  const supabase = createServiceRoleClient();
+
+  for (let index = 0; index < alertIds.length; index += SUPABASE_BATCH_SIZE) {
+    const batch = alertIds.slice(index, index + SUPABASE_BATCH_SIZE);
+    const { error } = await supabase.from("user_alerts").update({ push_sent_at: pushedAt }).in("id", batch);
+
+    if (error) {
+      return { error: error.message };
+    }
+  }
+
+  return { error: null };
+};
@@ -31,11 +31,11 @@ export const getRequiredEnv = (name: string): string => {
  * Check a rate limiter and return a 429 response if the limit is exceeded.
  * Returns null if the request is allowed.
  */
-export const checkRateLimit = (
-  limiter: { check: (key: string) => { allowed: boolean; remaining: number; retryAfterMs?: number } },
+export const checkRateLimit = async (
+  limiter: { check: (key: string) => Promise<{ allowed: boolean; remaining: number; retryAfterMs?: number }> },
   key: string
-): Response | null => {
-  const result = limiter.check(key);
+): Promise<Response | null> => {
+  const result = await limiter.check(key);
   if (!result.allowed) {
     return new Response(
       JSON.stringify({ ok: false, error: "rate_limit_exceeded" }),
@@ -0,0 +1,267 @@
+import { DEFAULT_SITE_URL, PRODUCT_NAME } from "@/src/lib/brand";
+import {
+  buildCalendarEvents,
+  buildJudgmentCardCalendarEvent,
+  serializeCalendar,
+  type CalendarJudgmentCard
+} from "@/src/lib/calendarFeed";
+import { createCalendarFeedToken, verifyCalendarFeedToken } from "./calendarFeedToken";
+import { loadDecisionHistory } from "./decisionHistory";
+import { createServiceRoleClient } from "./supabaseClients";
+import { isPaidSubscriptionStatus } from "./viewer";
+import { loadUserWatchlist } from "./watchlist";
+
+const APP_BASE_URL = process.env.APP_BASE_URL?.trim() || DEFAULT_SITE_URL;
+
+export const CALENDAR_FEED_API_PATH = "/api/calendar";
+export const CALENDAR_FEED_NAME = `${PRODUCT_NAME} 判断カレンダー`;
+
+export type CalendarFeedState = {
+  url: string;
+  createdAt: string;
+};
+
+type CalendarFeedRow = {
+  user_id: string;
+  token_version: number;
+  created_at: string;
+};
+
+type CalendarCardRow = CalendarJudgmentCard & {
+  episodes: { status: string; published_at: string | null } | null;
+};
+
+const getCalendarFeedSecret = (): string | null => {
+  const value = process.env.CALENDAR_FEED_SECRET?.trim();
+  return value ? value : null;
+};
+
+/** False when CALENDAR_FEED_SECRET is unset; the feed UI and API are then off. */
+export const isCalendarFeedConfigured = (): boolean => getCalendarFeedSecret() !== null;
+
+const toFeedState = (row: CalendarFeedRow, secret: string): CalendarFeedState => {
+  const token = createCalendarFeedToken({ userId: row.user_id, version: row.token_version }, secret);
+  return {
+    url: `${APP_BASE_URL}${CALENDAR_FEED_API_PATH}/${token}.ics`,
+    createdAt: row.created_at
+  };
+};
+
+/** `feed` is null until the user turns the feed on from /account. */
+export const loadCalendarFeedState = async (
+  userId: string
+): Promise<{ feed: CalendarFeedState | null; error: string | null }> => {
+  const secret = getCalendarFeedSecret();
+  if (!secret) {
+    return { feed: null, error: null };
+  }
+
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from("calendar_feeds")
+      .select("user_id, token_version, created_at")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      return { feed: null, error: error.message };
+    }
+
+    const row = (data as CalendarFeedRow | null) ?? null;
+    return { feed: row ? toFeedState(row, secret) : null, error: null };
+  } catch (error) {
+    return { feed: null, error: error instanceof Error ? error.message : "calendar_feed_load_failed" };
+  }
+};
+
+/** Turns the feed on, or issues a new URL and invalidates the old one. */
+export const rotateCalendarFeedToken = async (
+  userId: string
+): Promise<{ feed: CalendarFeedState | null; error: string | null }> => {
+  const secret = getCalendarFeedSecret();
+  if (!secret) {
+    return { feed: null, error: "calendar_feed_not_configured" };
+  }
+
+  try {
+    const supabase = createServiceRoleClient();
+    const { data: existingData, error: existingError } = await supabase
+      .from("calendar_feeds")
+      .select("user_id, token_version, created_at")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (existingError) {
+      return { feed: null, error: existingError.message };
+    }
+
+    const existing = (existingData as CalendarFeedRow | null) ?? null;
+    const { data, error } = await supabase
+      .from("calendar_feeds")
+      .upsert({ user_id: userId, token_version: (existing?.token_version ?? 0) + 1 }, { onConflict: "user_id" })
+      .select("user_id, token_version, created_at")
+      .single();
+
+    if (error) {
+      return { feed: null, error: error.message };
+    }
+
+    return { feed: toFeedState(data as CalendarFeedRow, secret), error: null };
+  } catch (error) {
+    return { feed: null, error: error instanceof Error ? error.message : "calendar_feed_rotate_failed" };
+  }
+};
+
+export const disableCalendarFeed = async (userId: string): Promise<{ error: string | null }> => {
+  try {
+    const supabase = createServiceRoleClient();
+    const { error } = await supabase.from("calendar_feeds").delete().eq("user_id", userId);
+    return { error: error?.message ?? null };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "calendar_feed_disable_failed" };
+  }
+};
+
+const loadIsPaidUser = async (userId: string): Promise<{ isPaid: boolean; error: string | null }> => {
+  const supabase = createServiceRoleClient();
+  const { data, error } = await supabase
+    .from("subscriptions")
+    .select("status")
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    return { isPaid: false, error: error.message };
+  }
+
+  return { isPaid: isPaidSubscriptionStatus((data as { status: string | null } | null)?.status ?? null), error: null };
+};
+
+/**
+ * Resolves a feed URL token to the ICS body. Rotated or disabled tokens are
+ * reported as not found. A lapsed plan keeps the URL working but empties the
+ * calendar, since deadlines are a paid detail.
+ */
+export const loadCalendarFeedByToken = async (
+  token: string,
+  now = new Date()
+): Promise<{ calendar: string | null; error: string | null }> => {
+  const secret = getCalendarFeedSecret();
+  const verified = secret ? verifyCalendarFeedToken(token, secret) : null;
+  if (!verified?.ok) {
+    return { calendar: null, error: "calendar_feed_not_found" };
+  }
+
+  const { userId, version } = verified.payload;
+
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from("calendar_feeds")
+      .select("user_id, token_version, created_at")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      return { calendar: null, error: error.message };
+    }
+
+    if ((data as CalendarFeedRow | null)?.token_version !== version) {
+      return { calendar: null, error: "calendar_feed_not_found" };
+    }
+
+    const { isPaid, error: planError } = await loadIsPaidUser(userId);
+    if (planError) {
+      return { calendar: null, error: planError };
+    }
+
+    if (!isPaid) {
+      return { calendar: serializeCalendar({ name: CALENDAR_FEED_NAME, events: [], now }), error: null };
+    }
+
+    const [historyState, watchlistState] = await Promise.all([
+      loadDecisionHistory(userId),
+      loadUserWatchlist({
+        userId,
+        filters: {
+          status: null,
+          genre: null,
+          frameType: null,
+          urgency: null,
+          sort: "newest"
+        }
+      })
+    ]);
+
+    if (historyState.error || watchlistState.error) {
+      return { calendar: null, error: historyState.error ?? watchlistState.error };
+    }
+
+    const events = buildCalendarEvents({
+      watchlistItems: watchlistState.items.map((item) => ({
+        judgment_card_id: item.judgment_card_id,
+        episode_id: item.episode_id,
+        topic_title: item.topic_title,
+        deadline_at: item.deadline_at,
+        status: item.status,
+        history_decision_id: item.history_decision_id
+      })),
+      decisions: historyState.entries.map((entry) => ({
+        id: entry.id,
+        judgment_card_id: entry.judgment_card_id,
+        episode_id: entry.episode_id,
+        topic_title: entry.topic_title,
+        frame_type: entry.frame_type,
+        genre: entry.genre,
+        decision_type: entry.decision_type,
+        outcome: entry.outcome,
+        created_at: entry.created_at,
+        deadline_at: entry.deadline_at
+      })),
+      baseUrl: APP_BASE_URL,
+      now
+    });
+
+    return { calendar: serializeCalendar({ name: CALENDAR_FEED_NAME, events, now }), error: null };
+  } catch (error) {
+    return { calendar: null, error: error instanceof Error ? error.message : "calendar_feed_load_failed" };
+  }
+};
+
+/** One published card's deadline as a downloadable `.ics` body. */
+export const loadJudgmentCardCalendar = async (
+  cardId: string,
+  now = new Date()
+): Promise<{ calendar: string | null; error: string | null }> => {
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from("episode_judgment_cards")
+      .select("id, episode_id, topic_title, action_text, deadline_at, episodes!inner(status, published_at)")
+      .eq("id", cardId)
+      .eq("episodes.status", "published")
+      .not("episodes.published_at", "is", null)
+      .maybeSingle();
+
+    if (error) {
+      return { calendar: null, error: error.message };
+    }
+
+    const card = (data as CalendarCardRow | null) ?? null;
+    if (!card) {
+      return { calendar: null, error: "card_not_found" };
+    }
+
+    const event = buildJudgmentCardCalendarEvent(card, APP_BASE_URL);
+    if (!event) {
+      return { calendar: null, error: "card_has_no_deadline" };
+    }
+
+    return { calendar: serializeCalendar({ name: CALENDAR_FEED_NAME, events: [event], now }), error: null };
+  } catch (error) {
+    return { calendar: null, error: error instanceof Error ? error.message : "calendar_card_load_failed" };
+  }
+};
@@ -0,0 +1,40 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * The token is the whole credential for a calendar feed URL. It does not
+ * expire; rotating bumps `calendar_feeds.token_version`, which invalidates
+ * every URL signed with an older version.
+ */
+export type CalendarFeedTokenPayload = {
+  userId: string;
+  version: number;
+};
+
+const signPayload = (payload: CalendarFeedTokenPayload, secret: string): string => {
+  const message = `calendar.${payload.userId}.${payload.version}`;
+  return createHmac("sha256", secret).update(message).digest("base64url");
+};
+
+export const createCalendarFeedToken = (payload: CalendarFeedTokenPayload, secret: string): string => {
+  return `${payload.userId}.${payload.version}.${signPayload(payload, secret)}`;
+};
+
+export const verifyCalendarFeedToken = (
+  token: string | null | undefined,
+  secret: string
+): { ok: true; payload: CalendarFeedTokenPayload } | { ok: false; error: "invalid_calendar_token" } => {
+  const [userId, versionRaw, signature, ...rest] = (token ?? "").trim().split(".");
+  const version = Number(versionRaw);
+  if (!userId || !Number.isInteger(version) || version <= 0 || !signature || rest.length > 0) {
+    return { ok: false, error: "invalid_calendar_token" };
+  }
+
+  const payload: CalendarFeedTokenPayload = { userId, version };
+  const receivedBuffer = Buffer.from(signature);
+  const expectedBuffer = Buffer.from(signPayload(payload, secret));
+  if (receivedBuffer.length !== expectedBuffer.length || !timingSafeEqual(receivedBuffer, expectedBuffer)) {
+    return { ok: false, error: "invalid_calendar_token" };
+  }
+
+  return { ok: true, payload };
+};
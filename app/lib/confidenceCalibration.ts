@@ -0,0 +1,78 @@
+import type { DecisionOutcome } from "@/src/lib/decisionProfile";
+import type { JudgmentType } from "@/src/lib/judgmentCards";
+import {
+  buildConfidenceCalibration,
+  type CalibrationSample,
+  type ConfidenceCalibration
+} from "@/src/lib/confidenceCalibration";
+import { createServiceRoleClient } from "./supabaseClients";
+
+type CalibrationCardRow = {
+  confidence_score: number | string | null;
+  frame_type: string | null;
+  genre: string | null;
+  judgment_type: JudgmentType;
+};
+
+type CalibrationDecisionRow = {
+  outcome: DecisionOutcome | null;
+  episode_judgment_cards: CalibrationCardRow | CalibrationCardRow[] | null;
+};
+
+const SAMPLE_LIMIT = 5000;
+
+const resolveCardRow = (row: CalibrationDecisionRow): CalibrationCardRow | null => {
+  if (Array.isArray(row.episode_judgment_cards)) {
+    return row.episode_judgment_cards[0] ?? null;
+  }
+  return row.episode_judgment_cards;
+};
+
+const toSample = (row: CalibrationDecisionRow): CalibrationSample | null => {
+  const card = resolveCardRow(row);
+  if (!card || !row.outcome) return null;
+
+  const confidence = typeof card.confidence_score === "string" ? Number(card.confidence_score) : card.confidence_score;
+
+  return {
+    confidence_score: typeof confidence === "number" && Number.isFinite(confidence) ? confidence : null,
+    frame_type: card.frame_type,
+    genre: card.genre,
+    judgment_type: card.judgment_type,
+    outcome: row.outcome
+  };
+};
+
+/**
+ * Builds the confidence calibration from every saved decision that has an
+ * outcome, across all users (service role). Only card-level fields are read.
+ */
+export const loadConfidenceCalibration = async (): Promise<{
+  calibration: ConfidenceCalibration;
+  error: string | null;
+}> => {
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from("user_decisions")
+      .select("outcome, episode_judgment_cards!inner(confidence_score, frame_type, genre, judgment_type)")
+      .not("outcome", "is", null)
+      .order("updated_at", { ascending: false })
+      .limit(SAMPLE_LIMIT);
+
+    if (error) {
+      return { calibration: buildConfidenceCalibration([]), error: error.message };
+    }
+
+    const samples = ((data ?? []) as unknown as CalibrationDecisionRow[])
+      .map(toSample)
+      .filter((sample): sample is CalibrationSample => sample !== null);
+
+    return { calibration: buildConfidenceCalibration(samples), error: null };
+  } catch (error) {
+    return {
+      calibration: buildConfidenceCalibration([]),
+      error: error instanceof Error ? error.message : "unknown_error"
+    };
+  }
+};
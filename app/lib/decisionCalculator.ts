@@ -1,12 +1,44 @@
 import type { JudgmentCard, JudgmentThresholdEntry, JudgmentThresholdJson, JudgmentType } from "@/src/lib/judgmentCards";
+import {
+  BASE_CURRENCY,
+  convertCurrency,
+  formatCurrencyAmount,
+  readThresholdEntryCurrency,
+  resolveFxRateTable,
+  resolveThresholdCurrency,
+  type FxRateTable
+} from "../../src/lib/currency.ts";
+import { resolveCustomFrameJudgment, type CustomDecisionFrameDefinition } from "../../src/lib/customDecisionFrames.ts";
+import { evaluateDecisionExpression, parseDecisionExpression } from "../../src/lib/decisionExpression.ts";
 
 export type DecisionCalculatorLocale = "ja" | "en";
 
-export type SupportedDecisionFrame = "Frame A" | "Frame B" | "Frame D";
+export type SupportedDecisionFrame = "Frame A" | "Frame B" | "Frame C" | "Frame D";
 
-export type DecisionCalculatorFieldId = "price" | "play_time" | "monthly_cost" | "watch_time" | "ad_time";
+/** A built-in frame, or `Custom` when a user-defined frame was applied to the card. */
+export type DecisionCalculatorFrame = SupportedDecisionFrame | "Custom";
 
-export type DecisionCalculatorInputs = Partial<Record<DecisionCalculatorFieldId, number>>;
+export type DecisionCalculatorNumericFieldId =
+  | "price"
+  | "play_time"
+  | "monthly_cost"
+  | "watch_time"
+  | "ad_time"
+  | "sale_price"
+  | "regular_price";
+
+export type DecisionCalculatorDateFieldId = "sale_end" | "planned_use_date";
+
+export type DecisionCalculatorFieldId = DecisionCalculatorNumericFieldId | DecisionCalculatorDateFieldId;
+
+export type DecisionCalculatorInputs = Partial<Record<DecisionCalculatorNumericFieldId, number>> &
+  Partial<Record<DecisionCalculatorDateFieldId, string>>;
+
+/** Inputs for a custom frame, keyed by its field keys. */
+export type CustomDecisionFrameInputs = Partial<Record<string, number>>;
+
+type DecisionCalculatorCard = Pick<JudgmentCard, "frame_type" | "threshold_json"> &
+  Partial<Pick<JudgmentCard, "deadline_at">>;
 
 export type DecisionCalculatorAvailability = {
   frame: SupportedDecisionFrame | null;
@@ -16,7 +48,8 @@ export type DecisionCalculatorAvailability = {
 };
 
 export type DecisionCalculatorEvaluation = {
-  frame: SupportedDecisionFrame;
+  frame: DecisionCalculatorFrame;
+  currency: string;
   judgmentType: JudgmentType;
   judgmentLabel: string;
   metricLabel: string;
@@ -27,7 +60,8 @@ export type DecisionCalculatorEvaluation = {
 };
 
 export type DecisionCalculatorThresholdSummary = {
-  frame: SupportedDecisionFrame;
+  frame: DecisionCalculatorFrame;
+  currency: string;
   metricLabel: string;
   summary: string;
 };
@@ -37,7 +71,16 @@ type UnitCostThresholds = {
   skipAbove: number;
 };
 
-const FRAME_TYPES = new Set<SupportedDecisionFrame>(["Frame A", "Frame B", "Frame D"]);
+type CurrencyContext = {
+  currency: string;
+  fxRates: FxRateTable;
+};
+
+const FRAME_TYPES = new Set<SupportedDecisionFrame>(["Frame A", "Frame B", "Frame C", "Frame D"]);
+
+const DEFAULT_SALE_USE_WINDOW_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY_RE = /^\d{4}-\d{2}-\d{2}$/;
 
 const toFiniteNumber = (value: unknown): number | null => {
   if (typeof value === "number" && Number.isFinite(value)) {
@@ -64,21 +107,39 @@ const normalizeThresholdEntries = (value: unknown): JudgmentThresholdEntry[] =>
     : [];
 };
 
-const readThresholdNumbers = (entries: JudgmentThresholdEntry[] | undefined): number[] => {
+const readThresholdNumbers = (entries: JudgmentThresholdEntry[] | undefined, money?: CurrencyContext): number[] => {
   return Array.from(
     new Set(
       (entries ?? [])
-        .map((entry) => toFiniteNumber(entry.value))
+        .map((entry) => {
+          const value = toFiniteNumber(entry.value);
+          const entryCurrency = readThresholdEntryCurrency(entry);
+          if (value === null || !money || !entryCurrency) return value;
+
+          return convertCurrency(value, entryCurrency, money.currency, money.fxRates);
+        })
         .filter((value): value is number => value !== null && value >= 0)
     )
   ).sort((left, right) => left - right);
 };
 
+const resolveCurrencyContext = (thresholdJson: JudgmentThresholdJson, fxRates?: FxRateTable): CurrencyContext => {
+  const rates = fxRates ?? resolveFxRateTable();
+  const currency = resolveThresholdCurrency(thresholdJson);
+
+  // Unknown currencies cannot be compared against the yen defaults, so fall back to yen.
+  return {
+    currency: rates[currency] ? currency : BASE_CURRENCY,
+    fxRates: rates
+  };
+};
+
 const readUnitCostThresholds = (
   thresholdJson: JudgmentThresholdJson,
-  defaults: UnitCostThresholds
+  defaultsJpy: UnitCostThresholds,
+  money: CurrencyContext
 ): UnitCostThresholds => {
-  const candidates = readThresholdNumbers(normalizeThresholdEntries(thresholdJson.unit_cost));
+  const candidates = readThresholdNumbers(normalizeThresholdEntries(thresholdJson.unit_cost), money);
   if (candidates.length >= 2) {
     return {
       useNowMax: candidates[0],
@@ -86,7 +147,10 @@ const readUnitCostThresholds = (
     };
   }
 
-  return defaults;
+  return {
+    useNowMax: convertCurrency(defaultsJpy.useNowMax, BASE_CURRENCY, money.currency, money.fxRates) ?? defaultsJpy.useNowMax,
+    skipAbove: convertCurrency(defaultsJpy.skipAbove, BASE_CURRENCY, money.currency, money.fxRates) ?? defaultsJpy.skipAbove
+  };
 };
 
 const readRatioThreshold = (thresholdJson: JudgmentThresholdJson, defaultLimit: number): number => {
@@ -94,6 +158,30 @@ const readRatioThreshold = (thresholdJson: JudgmentThresholdJson, defaultLimit:
   return candidates[0] ?? defaultLimit;
 };
 
+const readSaleUseWindowDays = (thresholdJson: JudgmentThresholdJson): number => {
+  const candidates = readThresholdNumbers(
+    normalizeThresholdEntries(thresholdJson.time_limit).filter((entry) => entry.unit === "day")
+  ).filter((value) => value > 0);
+  return candidates[0] ?? DEFAULT_SALE_USE_WINDOW_DAYS;
+};
+
+const parseDateInput = (value: string | null | undefined): number | null => {
+  const normalized = value?.trim() ?? "";
+  if (!normalized) return null;
+
+  // Date-only inputs come from <input type="date"> and count until the end of that JST day.
+  const parsed = DATE_ONLY_RE.test(normalized) ? Date.parse(`${normalized}T23:59:59+09:00`) : Date.parse(normalized);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const formatDate = (timestamp: number, locale: DecisionCalculatorLocale): string => {
+  return new Intl.DateTimeFormat(locale === "ja" ? "ja-JP" : "en-US", {
+    timeZone: "Asia/Tokyo",
+    month: "short",
+    day: "numeric"
+  }).format(new Date(timestamp));
+};
+
 const formatDecimal = (value: number, digits: number, locale: DecisionCalculatorLocale): string => {
   return new Intl.NumberFormat(locale === "ja" ? "ja-JP" : "en-US", {
     minimumFractionDigits: 0,
@@ -101,12 +189,8 @@ const formatDecimal = (value: number, digits: number, locale: DecisionCalculator
   }).format(value);
 };
 
-const formatCurrency = (value: number, locale: DecisionCalculatorLocale): string => {
-  return new Intl.NumberFormat(locale === "ja" ? "ja-JP" : "en-US", {
-    style: "currency",
-    currency: "JPY",
-    maximumFractionDigits: 0
-  }).format(value);
+const formatCurrency = (value: number, locale: DecisionCalculatorLocale, money: CurrencyContext): string => {
+  return formatCurrencyAmount(value, money.currency, locale);
 };
 
 const resolveJudgmentLabel = (judgmentType: JudgmentType, locale: DecisionCalculatorLocale): string => {
@@ -127,33 +211,34 @@ const evaluateUnitCost = (params: {
   hours: number;
   thresholdJson: JudgmentThresholdJson;
   locale: DecisionCalculatorLocale;
+  money: CurrencyContext;
 }): DecisionCalculatorEvaluation | null => {
   if (params.cost <= 0 || params.hours <= 0) return null;
 
   const metricValue = params.cost / params.hours;
   const thresholds =
     params.frame === "Frame A"
-      ? readUnitCostThresholds(params.thresholdJson, { useNowMax: 500, skipAbove: 800 })
-      : readUnitCostThresholds(params.thresholdJson, { useNowMax: 600, skipAbove: 1000 });
+      ? readUnitCostThresholds(params.thresholdJson, { useNowMax: 500, skipAbove: 800 }, params.money)
+      : readUnitCostThresholds(params.thresholdJson, { useNowMax: 600, skipAbove: 1000 }, params.money);
 
   const judgmentType: JudgmentType =
     metricValue <= thresholds.useNowMax ? "use_now" : metricValue > thresholds.skipAbove ? "skip" : "watch";
   const metricDisplay =
     params.locale === "ja"
-      ? `${formatCurrency(metricValue, params.locale)}/時間`
-      : `${formatCurrency(metricValue, params.locale)}/hour`;
+      ? `${formatCurrency(metricValue, params.locale, params.money)}/時間`
+      : `${formatCurrency(metricValue, params.locale, params.money)}/hour`;
   const thresholdSummary =
     params.locale === "ja"
-      ? `${formatCurrency(thresholds.useNowMax, params.locale)}/時間以下で採用、${formatCurrency(thresholds.skipAbove, params.locale)}/時間超で見送る`
-      : `Use now at or below ${formatCurrency(thresholds.useNowMax, params.locale)}/hour, skip above ${formatCurrency(thresholds.skipAbove, params.locale)}/hour`;
+      ? `${formatCurrency(thresholds.useNowMax, params.locale, params.money)}/時間以下で採用、${formatCurrency(thresholds.skipAbove, params.locale, params.money)}/時間超で見送る`
+      : `Use now at or below ${formatCurrency(thresholds.useNowMax, params.locale, params.money)}/hour, skip above ${formatCurrency(thresholds.skipAbove, params.locale, params.money)}/hour`;
 
   let reason = "";
   if (params.locale === "ja") {
     reason =
       judgmentType === "use_now"
-        ? `1時間単価は ${metricDisplay} で、許容ラインの ${formatCurrency(thresholds.useNowMax, params.locale)}/時間 以下です。`
+        ? `1時間単価は ${metricDisplay} で、許容ラインの ${formatCurrency(thresholds.useNowMax, params.locale, params.money)}/時間 以下です。`
         : judgmentType === "skip"
-          ? `1時間単価は ${metricDisplay} で、見送るラインの ${formatCurrency(thresholds.skipAbove, params.locale)}/時間 を超えています。`
+          ? `1時間単価は ${metricDisplay} で、見送るラインの ${formatCurrency(thresholds.skipAbove, params.locale, params.money)}/時間 を超えています。`
           : `1時間単価は ${metricDisplay} で、採用基準と見送る基準の間です。`;
   } else {
     reason =
@@ -166,6 +251,7 @@ const evaluateUnitCost = (params: {
 
   return {
     frame: params.frame,
+    currency: params.money.currency,
     judgmentType,
     judgmentLabel: resolveJudgmentLabel(judgmentType, params.locale),
     metricLabel: params.locale === "ja" ? "1時間単価" : "Cost per hour",
@@ -181,6 +267,7 @@ const evaluateAdRatio = (params: {
   watchTime: number;
   thresholdJson: JudgmentThresholdJson;
   locale: DecisionCalculatorLocale;
+  money: CurrencyContext;
 }): DecisionCalculatorEvaluation | null => {
   if (params.adTime < 0 || params.watchTime <= 0) return null;
 
@@ -204,6 +291,7 @@ const evaluateAdRatio = (params: {
 
   return {
     frame: "Frame D",
+    currency: params.money.currency,
     judgmentType,
     judgmentLabel: resolveJudgmentLabel(judgmentType, params.locale),
     metricLabel: params.locale === "ja" ? "広告比率" : "Ad ratio",
@@ -214,6 +302,176 @@ const evaluateAdRatio = (params: {
   };
 };
 
+const describeSaleThreshold = (windowDays: number, locale: DecisionCalculatorLocale): string => {
+  return locale === "ja"
+    ? `実行予定日がセール終了から${windowDays}日以内なら採用、それより先なら様子見、予定日が入らなければ買わない`
+    : `Use now if you will use it within ${windowDays} days of the sale ending, watch if later, skip if it does not fit your calendar`;
+};
+
+const evaluateSalePurchase = (params: {
+  salePrice: number;
+  regularPrice: number;
+  saleEnd: string | null;
+  plannedUseDate: string | null;
+  thresholdJson: JudgmentThresholdJson;
+  locale: DecisionCalculatorLocale;
+  money: CurrencyContext;
+  now: Date;
+}): DecisionCalculatorEvaluation | null => {
+  if (params.salePrice <= 0 || params.regularPrice <= 0) return null;
+
+  const nowMs = params.now.getTime();
+  const saleEndMs = parseDateInput(params.saleEnd);
+  const plannedUseMs = parseDateInput(params.plannedUseDate);
+  if (plannedUseMs !== null && plannedUseMs < nowMs) return null;
+
+  const windowDays = readSaleUseWindowDays(params.thresholdJson);
+  const savings = params.regularPrice - params.salePrice;
+  const metricValue = Math.max(0, (savings / params.regularPrice) * 100);
+  const metricDisplay =
+    params.locale === "ja"
+      ? `${formatDecimal(metricValue, 1, params.locale)}%オフ`
+      : `${formatDecimal(metricValue, 1, params.locale)}% off`;
+  const thresholdSummary = describeSaleThreshold(windowDays, params.locale);
+
+  let judgmentType: JudgmentType;
+  let reason: string;
+
+  if (savings <= 0) {
+    judgmentType = "skip";
+    reason =
+      params.locale === "ja"
+        ? "セール価格が通常価格を下回っていないため、急いで買う理由がありません。"
+        : "The sale price is not below the regular price, so there is no reason to rush.";
+  } else if (saleEndMs !== null && saleEndMs < nowMs) {
+    judgmentType = "skip";
+    reason =
+      params.locale === "ja"
+        ? `セールは ${formatDate(saleEndMs, params.locale)} に終了しています。次のセールを待ちます。`
+        : `The sale ended on ${formatDate(saleEndMs, params.locale)}. Wait for the next one.`;
+  } else if (plannedUseMs === null) {
+    judgmentType = "skip";
+    reason =
+      params.locale === "ja"
+        ? `${formatCurrency(savings, params.locale, params.money)}安くなりますが、実行予定日がカレンダーに入らないので買いません。`
+        : `It saves ${formatCurrency(savings, params.locale, params.money)}, but without a planned use date it does not fit your calendar.`;
+  } else {
+    const daysAfterSale = saleEndMs === null ? 0 : Math.ceil((plannedUseMs - saleEndMs) / DAY_MS);
+
+    if (daysAfterSale <= windowDays) {
+      judgmentType = "use_now";
+      reason =
+        params.locale === "ja"
+          ? `${formatCurrency(savings, params.locale, params.money)}安く、${formatDate(plannedUseMs, params.locale)} に使う予定がカレンダーに入っています。`
+          : `It saves ${formatCurrency(savings, params.locale, params.money)} and you plan to use it on ${formatDate(plannedUseMs, params.locale)}.`;
+    } else {
+      judgmentType = "watch";
+      reason =
+        params.locale === "ja"
+          ? `実行予定日がセール終了から${daysAfterSale}日後です。使う直前の価格を見てから判断します。`
+          : `You plan to use it ${daysAfterSale} days after the sale ends. Check the price again closer to that date.`;
+    }
+  }
+
+  return {
+    frame: "Frame C",
+    currency: params.money.currency,
+    judgmentType,
+    judgmentLabel: resolveJudgmentLabel(judgmentType, params.locale),
+    metricLabel: params.locale === "ja" ? "割引率" : "Discount",
+    metricValue,
+    metricDisplay,
+    thresholdSummary,
+    reason
+  };
+};
+
+const formatCustomMetric = (value: number, unit: string, locale: DecisionCalculatorLocale): string => {
+  const number = formatDecimal(value, 2, locale);
+  if (!unit) return number;
+  return locale === "ja" ? `${number}${unit}` : `${number} ${unit}`;
+};
+
+const describeCustomFrameThreshold = (
+  definition: CustomDecisionFrameDefinition,
+  locale: DecisionCalculatorLocale
+): string => {
+  const useNowAt = formatCustomMetric(definition.useNowAt, definition.metricUnit, locale);
+  const skipAt = formatCustomMetric(definition.skipAt, definition.metricUnit, locale);
+
+  if (definition.better === "lower") {
+    return locale === "ja"
+      ? `${useNowAt}以下で採用、${skipAt}超で見送る`
+      : `Use now at or below ${useNowAt}, skip above ${skipAt}`;
+  }
+
+  return locale === "ja"
+    ? `${useNowAt}以上で採用、${skipAt}未満で見送る`
+    : `Use now at or above ${useNowAt}, skip below ${skipAt}`;
+};
+
+/** Every field is required; a formula that cannot be computed (e.g. ÷ 0) gives no result. */
+const evaluateCustomFrame = (params: {
+  definition: CustomDecisionFrameDefinition;
+  inputs: CustomDecisionFrameInputs;
+  locale: DecisionCalculatorLocale;
+  money: CurrencyContext;
+}): DecisionCalculatorEvaluation | null => {
+  const { definition, locale } = params;
+  const parsed = parseDecisionExpression(
+    definition.formula,
+    definition.fields.map((field) => field.key)
+  );
+  if (!parsed.ok || definition.fields.some((field) => typeof params.inputs[field.key] !== "number")) {
+    return null;
+  }
+
+  const metricValue = evaluateDecisionExpression(parsed.expression, params.inputs);
+  if (metricValue === null) return null;
+
+  const judgmentType = resolveCustomFrameJudgment(definition, metricValue);
+  const metricDisplay = formatCustomMetric(metricValue, definition.metricUnit, locale);
+  const useNowAt = formatCustomMetric(definition.useNowAt, definition.metricUnit, locale);
+  const skipAt = formatCustomMetric(definition.skipAt, definition.metricUnit, locale);
+
+  const lowerIsBetter = definition.better === "lower";
+  let reason: string;
+  if (locale === "ja") {
+    reason =
+      judgmentType === "use_now"
+        ? `${definition.metricLabel}は ${metricDisplay} で、採用ラインの ${useNowAt} を満たしています。`
+        : judgmentType === "skip"
+          ? `${definition.metricLabel}は ${metricDisplay} で、見送るラインの ${skipAt} を${lowerIsBetter ? "越えて" : "下回って"}います。`
+          : `${definition.metricLabel}は ${metricDisplay} で、採用基準と見送る基準の間です。`;
+  } else {
+    reason =
+      judgmentType === "use_now"
+        ? `Your ${definition.metricLabel} is ${metricDisplay}, which meets the use-now line of ${useNowAt}.`
+        : judgmentType === "skip"
+          ? `Your ${definition.metricLabel} is ${metricDisplay}, which is ${lowerIsBetter ? "above" : "below"} the skip line of ${skipAt}.`
+          : `Your ${definition.metricLabel} is ${metricDisplay}, which sits between the use-now and skip lines.`;
+  }
+
+  return {
+    frame: "Custom",
+    currency: params.money.currency,
+    judgmentType,
+    judgmentLabel: resolveJudgmentLabel(judgmentType, locale),
+    metricLabel: definition.metricLabel,
+    metricValue,
+    metricDisplay,
+    thresholdSummary: describeCustomFrameThreshold(definition, locale),
+    reason
+  };
+};
+
+export const resolveDecisionCalculatorCurrency = (params: {
+  card: Pick<JudgmentCard, "threshold_json">;
+  fxRates?: FxRateTable;
+}): string => {
+  return resolveCurrencyContext(params.card.threshold_json ?? {}, params.fxRates).currency;
+};
+
 export const normalizeDecisionFrame = (frameType: string | null | undefined): SupportedDecisionFrame | null => {
   if (!frameType) return null;
   return FRAME_TYPES.has(frameType as SupportedDecisionFrame) ? (frameType as SupportedDecisionFrame) : null;
@@ -234,82 +492,143 @@ export const resolveDecisionCalculatorAvailability = (params: {
   };
 };
 
+/**
+ * Re-scores a card with the viewer's numbers. With `customFrame`, the user's
+ * own frame is applied instead of the card's built-in one, so it also works
+ * for cards without a supported `frame_type` (e.g. AI-generated cards).
+ */
 export const evaluateDecisionCalculator = (params: {
-  card: Pick<JudgmentCard, "frame_type" | "threshold_json">;
-  inputs: DecisionCalculatorInputs;
+  card: DecisionCalculatorCard;
+  inputs: DecisionCalculatorInputs | CustomDecisionFrameInputs;
+  customFrame?: CustomDecisionFrameDefinition | null;
   locale?: DecisionCalculatorLocale;
+  fxRates?: FxRateTable;
+  now?: Date;
 }): DecisionCalculatorEvaluation | null => {
+  const locale = params.locale ?? "ja";
+  const thresholdJson = params.card.threshold_json ?? {};
+  const money = resolveCurrencyContext(thresholdJson, params.fxRates);
+
+  if (params.customFrame) {
+    return evaluateCustomFrame({
+      definition: params.customFrame,
+      inputs: params.inputs as CustomDecisionFrameInputs,
+      locale,
+      money
+    });
+  }
+
   const frame = normalizeDecisionFrame(params.card.frame_type);
   if (!frame) return null;
 
-  const locale = params.locale ?? "ja";
-  const thresholdJson = params.card.threshold_json ?? {};
+  const inputs = params.inputs as DecisionCalculatorInputs;
 
   if (frame === "Frame A") {
     return evaluateUnitCost({
       frame,
-      cost: params.inputs.price ?? 0,
-      hours: params.inputs.play_time ?? 0,
+      cost: inputs.price ?? 0,
+      hours: inputs.play_time ?? 0,
       thresholdJson,
-      locale
+      locale,
+      money
     });
   }
 
   if (frame === "Frame B") {
     return evaluateUnitCost({
       frame,
-      cost: params.inputs.monthly_cost ?? 0,
-      hours: params.inputs.watch_time ?? 0,
+      cost: inputs.monthly_cost ?? 0,
+      hours: inputs.watch_time ?? 0,
       thresholdJson,
-      locale
+      locale,
+      money
+    });
+  }
+
+  if (frame === "Frame C") {
+    return evaluateSalePurchase({
+      salePrice: inputs.sale_price ?? 0,
+      regularPrice: inputs.regular_price ?? 0,
+      saleEnd: inputs.sale_end || params.card.deadline_at || null,
+      plannedUseDate: inputs.planned_use_date ?? null,
+      thresholdJson,
+      locale,
+      money,
+      now: params.now ?? new Date()
     });
   }
 
   return evaluateAdRatio({
-    adTime: params.inputs.ad_time ?? 0,
-    watchTime: params.inputs.watch_time ?? 0,
+    adTime: inputs.ad_time ?? 0,
+    watchTime: inputs.watch_time ?? 0,
     thresholdJson,
-    locale
+    locale,
+    money
   });
 };
 
 export const describeDecisionCalculatorThresholds = (params: {
-  card: Pick<JudgmentCard, "frame_type" | "threshold_json">;
+  card: DecisionCalculatorCard;
+  customFrame?: CustomDecisionFrameDefinition | null;
   locale?: DecisionCalculatorLocale;
+  fxRates?: FxRateTable;
 }): DecisionCalculatorThresholdSummary | null => {
-  const frame = normalizeDecisionFrame(params.card.frame_type);
-  if (!frame) return null;
-
   const locale = params.locale ?? "ja";
   const thresholdJson = params.card.threshold_json ?? {};
+  const money = resolveCurrencyContext(thresholdJson, params.fxRates);
+
+  if (params.customFrame) {
+    return {
+      frame: "Custom",
+      currency: money.currency,
+      metricLabel: params.customFrame.metricLabel,
+      summary: describeCustomFrameThreshold(params.customFrame, locale)
+    };
+  }
+
+  const frame = normalizeDecisionFrame(params.card.frame_type);
+  if (!frame) return null;
 
   if (frame === "Frame A") {
-    const thresholds = readUnitCostThresholds(thresholdJson, { useNowMax: 500, skipAbove: 800 });
+    const thresholds = readUnitCostThresholds(thresholdJson, { useNowMax: 500, skipAbove: 800 }, money);
     return {
       frame,
+      currency: money.currency,
       metricLabel: locale === "ja" ? "1時間単価" : "Cost per hour",
       summary:
         locale === "ja"
-          ? `${formatCurrency(thresholds.useNowMax, locale)}/時間以下なら採用、${formatCurrency(thresholds.skipAbove, locale)}/時間超なら見送る`
-          : `Use now at or below ${formatCurrency(thresholds.useNowMax, locale)}/hour, skip above ${formatCurrency(thresholds.skipAbove, locale)}/hour`
+          ? `${formatCurrency(thresholds.useNowMax, locale, money)}/時間以下なら採用、${formatCurrency(thresholds.skipAbove, locale, money)}/時間超なら見送る`
+          : `Use now at or below ${formatCurrency(thresholds.useNowMax, locale, money)}/hour, skip above ${formatCurrency(thresholds.skipAbove, locale, money)}/hour`
     };
   }
 
   if (frame === "Frame B") {
-    const thresholds = readUnitCostThresholds(thresholdJson, { useNowMax: 600, skipAbove: 1000 });
+    const thresholds = readUnitCostThresholds(thresholdJson, { useNowMax: 600, skipAbove: 1000 }, money);
     return {
       frame,
+      currency: money.currency,
       metricLabel: locale === "ja" ? "時間あたり月額" : "Monthly cost per hour",
       summary:
         locale === "ja"
-          ? `${formatCurrency(thresholds.useNowMax, locale)}/時間以下なら採用、${formatCurrency(thresholds.skipAbove, locale)}/時間超なら見送る`
-          : `Use now at or below ${formatCurrency(thresholds.useNowMax, locale)}/hour, skip above ${formatCurrency(thresholds.skipAbove, locale)}/hour`
+          ? `${formatCurrency(thresholds.useNowMax, locale, money)}/時間以下なら採用、${formatCurrency(thresholds.skipAbove, locale, money)}/時間超なら見送る`
+          : `Use now at or below ${formatCurrency(thresholds.useNowMax, locale, money)}/hour, skip above ${formatCurrency(thresholds.skipAbove, locale, money)}/hour`
+    };
+  }
+
+  if (frame === "Frame C") {
+    const windowDays = readSaleUseWindowDays(thresholdJson);
+    return {
+      frame,
+      currency: money.currency,
+      metricLabel: locale === "ja" ? "割引率" : "Discount",
+      summary: describeSaleThreshold(windowDays, locale)
     };
   }
 
   const threshold = readRatioThreshold(thresholdJson, 15);
   return {
     frame,
+    currency: money.currency,
     metricLabel: locale === "ja" ? "広告比率" : "Ad ratio",
     summary:
       locale === "ja"
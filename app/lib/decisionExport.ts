@@ -0,0 +1,353 @@
+import { randomUUID } from "node:crypto";
+import type { JudgmentThresholdJson, JudgmentType } from "@/src/lib/judgmentCards";
+import {
+  buildDecisionExportDocument,
+  MAX_IMPORT_ROWS,
+  planDecisionImport,
+  type DecisionExportDocument,
+  type DecisionExportRow,
+  type DecisionImportPayload,
+  type DecisionImportSkipReason,
+  type GeneratedCardExportRow,
+  type WatchlistExportRow
+} from "@/src/lib/decisionExport";
+import { FREE_WATCHLIST_LIMIT } from "@/src/lib/watchlist";
+import { FREE_DECISION_HISTORY_LIMIT, loadDecisionHistory } from "./decisionHistory";
+import { createServiceRoleClient } from "./supabaseClients";
+import { loadUserWatchlist } from "./watchlist";
+
+type GeneratedCardRow = Omit<GeneratedCardExportRow, "watch_points" | "threshold_json" | "confidence_score"> & {
+  threshold_json: JudgmentThresholdJson | null;
+  watch_points_json: unknown;
+  confidence_score: number | string | null;
+};
+
+type ExportCardLookupRow = {
+  id: string;
+  episode_id: string;
+  judgment_type: JudgmentType;
+};
+
+export type DecisionImportSectionResult = {
+  imported: number;
+  skipped: Record<DecisionImportSkipReason, number>;
+};
+
+export type DecisionImportResult = {
+  decisions: DecisionImportSectionResult;
+  watchlist: DecisionImportSectionResult;
+  generatedCards: DecisionImportSectionResult;
+};
+
+const SUPABASE_BATCH_SIZE = 80;
+const INSERT_BATCH_SIZE = 500;
+
+type ServiceRoleClient = ReturnType<typeof createServiceRoleClient>;
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+};
+
+const selectIdsIn = async <T>(
+  ids: string[],
+  queryFn: (batch: string[]) => PromiseLike<{ data: unknown; error: { message: string } | null }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (const batch of chunk(ids, SUPABASE_BATCH_SIZE)) {
+    const { data, error } = await queryFn(batch);
+    if (error) throw new Error(error.message);
+    rows.push(...((data as T[] | null) ?? []));
+  }
+  return rows;
+};
+
+const insertRows = async (
+  supabase: ServiceRoleClient,
+  table: string,
+  rows: Record<string, unknown>[],
+  onConflict: string
+): Promise<number> => {
+  let inserted = 0;
+  for (const batch of chunk(rows, INSERT_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from(table)
+      .upsert(batch, { onConflict, ignoreDuplicates: true })
+      .select("id");
+    if (error) throw new Error(error.message);
+    inserted += data?.length ?? 0;
+  }
+  return inserted;
+};
+
+const toWatchPoints = (value: unknown): string[] => {
+  return Array.isArray(value) ? value.filter((point): point is string => typeof point === "string") : [];
+};
+
+const loadGeneratedCardExportRows = async (
+  supabase: ServiceRoleClient,
+  userId: string
+): Promise<GeneratedCardExportRow[]> => {
+  const { data, error } = await supabase
+    .from("user_generated_cards")
+    .select(
+      "id, input_text, lang, genre, topic_title, frame_type, judgment_type, judgment_summary, action_text, deadline_at, threshold_json, watch_points_json, confidence_score, outcome, created_at"
+    )
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(MAX_IMPORT_ROWS);
+
+  if (error) throw new Error(error.message);
+
+  return ((data as GeneratedCardRow[] | null) ?? []).map(({ watch_points_json, ...row }) => {
+    const confidence = typeof row.confidence_score === "string" ? Number(row.confidence_score) : row.confidence_score;
+
+    return {
+      ...row,
+      threshold_json: row.threshold_json ?? {},
+      watch_points: toWatchPoints(watch_points_json),
+      confidence_score: typeof confidence === "number" && Number.isFinite(confidence) ? confidence : null
+    };
+  });
+};
+
+/**
+ * Loads everything a user can export: decision history (episode and AI cards),
+ * watchlist with card snapshots, and the full AI-generated card rows.
+ */
+export const loadDecisionExport = async (
+  userId: string
+): Promise<{ document: DecisionExportDocument; error: string | null }> => {
+  const empty = buildDecisionExportDocument({ decisions: [], watchlist: [], generatedCards: [] });
+
+  try {
+    const supabase = createServiceRoleClient();
+    const [history, watchlist, generatedCards] = await Promise.all([
+      loadDecisionHistory(userId, { limit: MAX_IMPORT_ROWS }),
+      loadUserWatchlist({
+        userId,
+        filters: { status: null, genre: null, frameType: null, urgency: null, sort: "saved_order" }
+      }),
+      loadGeneratedCardExportRows(supabase, userId)
+    ]);
+
+    if (history.error || watchlist.error) {
+      return { document: empty, error: history.error ?? watchlist.error };
+    }
+
+    const decisions = history.entries.map(
+      (entry): DecisionExportRow => ({
+        judgment_card_id: entry.judgment_card_id,
+        source: entry.source,
+        episode_id: entry.source === "episode" ? entry.episode_id : null,
+        episode_title: entry.episode_title,
+        topic_title: entry.topic_title,
+        frame_type: entry.frame_type,
+        genre: entry.genre,
+        decision_type: entry.decision_type,
+        outcome: entry.outcome,
+        threshold_json: entry.threshold_json,
+        deadline_at: entry.deadline_at,
+        created_at: entry.created_at,
+        updated_at: entry.updated_at
+      })
+    );
+
+    const watchlistRows = watchlist.items.map(
+      (item): WatchlistExportRow => ({
+        judgment_card_id: item.judgment_card_id,
+        episode_id: item.episode_id,
+        episode_title: item.episode_title,
+        topic_title: item.topic_title,
+        frame_type: item.frame_type,
+        genre: item.genre,
+        judgment_type: item.judgment_type,
+        status: item.status,
+        outcome: item.history_outcome,
+        threshold_json: item.threshold_json,
+        deadline_at: item.deadline_at,
+        created_at: item.created_at,
+        updated_at: item.updated_at
+      })
+    );
+
+    return {
+      document: buildDecisionExportDocument({ decisions, watchlist: watchlistRows, generatedCards }),
+      error: null
+    };
+  } catch (error) {
+    return {
+      document: empty,
+      error: error instanceof Error ? error.message : "unknown_error"
+    };
+  }
+};
+
+/**
+ * Restores a JSON export into the user's account. Rows are deduplicated by
+ * `judgment_card_id` (generated cards by their original id) against the file
+ * and the account; existing rows are never overwritten. A generated card whose
+ * id belongs to another account is stored under a new id. Free accounts keep
+ * their history / watchlist limits.
+ */
+export const importDecisionExport = async (params: {
+  userId: string;
+  isPaid: boolean;
+  payload: DecisionImportPayload;
+}): Promise<{ result: DecisionImportResult | null; error: string | null }> => {
+  try {
+    const supabase = createServiceRoleClient();
+    const episodeDecisions = params.payload.decisions.filter((row) => row.source === "episode");
+    const referencedCardIds = Array.from(
+      new Set([...episodeDecisions, ...params.payload.watchlist].map((row) => row.judgment_card_id))
+    );
+    const generatedIds = params.payload.generated_cards.map((card) => card.id);
+
+    const [knownCards, existingDecisions, existingWatchlist, existingGenerated] = await Promise.all([
+      selectIdsIn<ExportCardLookupRow>(referencedCardIds, (batch) =>
+        supabase.from("episode_judgment_cards").select("id, episode_id, judgment_type").in("id", batch)
+      ),
+      selectIdsIn<{ judgment_card_id: string }>(referencedCardIds, (batch) =>
+        supabase.from("user_decisions").select("judgment_card_id").eq("user_id", params.userId).in("judgment_card_id", batch)
+      ),
+      selectIdsIn<{ judgment_card_id: string }>(referencedCardIds, (batch) =>
+        supabase
+          .from("user_watchlist_items")
+          .select("judgment_card_id")
+          .eq("user_id", params.userId)
+          .in("judgment_card_id", batch)
+      ),
+      selectIdsIn<{ id: string; user_id: string }>(generatedIds, (batch) =>
+        supabase.from("user_generated_cards").select("id, user_id").in("id", batch)
+      )
+    ]);
+
+    // Only the user's own cards count as already imported; ids taken by another
+    // account (e.g. the account the export came from) get a fresh id instead.
+    const ownGeneratedIds = existingGenerated.filter((row) => row.user_id === params.userId).map((row) => row.id);
+    const foreignGeneratedIds = new Set(
+      existingGenerated.filter((row) => row.user_id !== params.userId).map((row) => row.id)
+    );
+
+    const cardsById = new Map(knownCards.map((card) => [card.id, card]));
+
+    let remainingDecisionSlots: number | null = null;
+    let remainingWatchlistSlots: number | null = null;
+    if (!params.isPaid) {
+      const [{ count: decisionCount, error: decisionCountError }, { count: watchlistCount, error: watchlistCountError }] =
+        await Promise.all([
+          supabase.from("user_decisions").select("id", { count: "exact", head: true }).eq("user_id", params.userId),
+          supabase
+            .from("user_watchlist_items")
+            .select("id", { count: "exact", head: true })
+            .eq("user_id", params.userId)
+            .in("status", ["saved", "watching"])
+        ]);
+      if (decisionCountError || watchlistCountError) {
+        throw new Error((decisionCountError ?? watchlistCountError)?.message ?? "count_failed");
+      }
+      remainingDecisionSlots = Math.max(FREE_DECISION_HISTORY_LIMIT - (decisionCount ?? 0), 0);
+      remainingWatchlistSlots = Math.max(FREE_WATCHLIST_LIMIT - (watchlistCount ?? 0), 0);
+    }
+
+    const decisionPlan = planDecisionImport({
+      rows: episodeDecisions,
+      existingCardIds: existingDecisions.map((row) => row.judgment_card_id),
+      knownCardIds: cardsById.keys(),
+      remainingSlots: remainingDecisionSlots
+    });
+    const watchlistPlan = planDecisionImport({
+      rows: params.payload.watchlist,
+      existingCardIds: existingWatchlist.map((row) => row.judgment_card_id),
+      knownCardIds: cardsById.keys(),
+      remainingSlots: remainingWatchlistSlots,
+      countsTowardLimit: (row) => row.status !== "archived"
+    });
+    const generatedPlan = planDecisionImport({
+      rows: params.payload.generated_cards.map((card) => ({ ...card, judgment_card_id: card.id })),
+      existingCardIds: ownGeneratedIds
+    });
+
+    const [decisionsImported, watchlistImported, generatedImported] = await Promise.all([
+      insertRows(
+        supabase,
+        "user_decisions",
+        decisionPlan.rows.flatMap((row) => {
+          const card = cardsById.get(row.judgment_card_id);
+          if (!card) return [];
+          return [
+            {
+              user_id: params.userId,
+              judgment_card_id: card.id,
+              episode_id: card.episode_id,
+              decision_type: card.judgment_type,
+              outcome: row.outcome,
+              created_at: row.created_at,
+              updated_at: row.updated_at
+            }
+          ];
+        }),
+        "user_id,judgment_card_id"
+      ),
+      insertRows(
+        supabase,
+        "user_watchlist_items",
+        watchlistPlan.rows.flatMap((row) => {
+          const card = cardsById.get(row.judgment_card_id);
+          if (!card) return [];
+          return [
+            {
+              user_id: params.userId,
+              judgment_card_id: card.id,
+              episode_id: card.episode_id,
+              status: row.status,
+              created_at: row.created_at,
+              updated_at: row.updated_at
+            }
+          ];
+        }),
+        "user_id,judgment_card_id"
+      ),
+      insertRows(
+        supabase,
+        "user_generated_cards",
+        generatedPlan.rows.map((card) => ({
+          id: foreignGeneratedIds.has(card.id) ? randomUUID() : card.id,
+          user_id: params.userId,
+          input_text: card.input_text,
+          lang: card.lang,
+          genre: card.genre,
+          topic_title: card.topic_title,
+          frame_type: card.frame_type,
+          judgment_type: card.judgment_type,
+          judgment_summary: card.judgment_summary,
+          action_text: card.action_text,
+          deadline_at: card.deadline_at,
+          threshold_json: card.threshold_json,
+          watch_points_json: card.watch_points,
+          confidence_score: card.confidence_score,
+          outcome: card.outcome,
+          created_at: card.created_at
+        })),
+        "id"
+      )
+    ]);
+
+    return {
+      result: {
+        decisions: { imported: decisionsImported, skipped: decisionPlan.skipped },
+        watchlist: { imported: watchlistImported, skipped: watchlistPlan.skipped },
+        generatedCards: { imported: generatedImported, skipped: generatedPlan.skipped }
+      },
+      error: null
+    };
+  } catch (error) {
+    return {
+      result: null,
+      error: error instanceof Error ? error.message : "unknown_error"
+    };
+  }
+};
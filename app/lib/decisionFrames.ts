@@ -0,0 +1,144 @@
+import {
+  CUSTOM_DECISION_FRAME_LIMIT,
+  parseCustomDecisionFrameDefinition,
+  type CustomDecisionFrame,
+  type CustomDecisionFrameDefinition
+} from "@/src/lib/customDecisionFrames";
+import { createServiceRoleClient } from "./supabaseClients";
+
+type DecisionFrameRow = {
+  id: string;
+  definition: unknown;
+  created_at: string;
+  updated_at: string;
+};
+
+const FRAME_COLUMNS = "id, definition, created_at, updated_at";
+
+/** Rows whose stored definition no longer validates are left out. */
+const toCustomDecisionFrame = (row: DecisionFrameRow): CustomDecisionFrame | null => {
+  const parsed = parseCustomDecisionFrameDefinition(row.definition);
+  if (!parsed.ok) return null;
+
+  return {
+    ...parsed.definition,
+    id: row.id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+};
+
+export const loadCustomDecisionFrames = async (
+  userId: string
+): Promise<{ frames: CustomDecisionFrame[]; error: string | null }> => {
+  if (!userId) {
+    return { frames: [], error: null };
+  }
+
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from("user_decision_frames")
+      .select(FRAME_COLUMNS)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true })
+      .limit(CUSTOM_DECISION_FRAME_LIMIT);
+
+    if (error) {
+      return { frames: [], error: error.message };
+    }
+
+    const rows = (data as DecisionFrameRow[] | null) ?? [];
+    return {
+      frames: rows.map(toCustomDecisionFrame).filter((frame): frame is CustomDecisionFrame => frame !== null),
+      error: null
+    };
+  } catch (error) {
+    return { frames: [], error: error instanceof Error ? error.message : "decision_frames_load_failed" };
+  }
+};
+
+/**
+ * Fails with `decision_frame_limit_reached` once the user has CUSTOM_DECISION_FRAME_LIMIT frames.
+ * The `create_user_decision_frame` RPC counts and inserts under a per-user lock, so
+ * concurrent saves cannot pass the limit.
+ */
+export const createCustomDecisionFrame = async (
+  userId: string,
+  definition: CustomDecisionFrameDefinition
+): Promise<{ frame: CustomDecisionFrame | null; error: string | null }> => {
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .rpc("create_user_decision_frame", {
+        p_user_id: userId,
+        p_definition: definition,
+        p_limit: CUSTOM_DECISION_FRAME_LIMIT
+      })
+      .select(FRAME_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      return { frame: null, error: error.message };
+    }
+
+    const row = (data as DecisionFrameRow | null) ?? null;
+    if (!row) {
+      return { frame: null, error: "decision_frame_limit_reached" };
+    }
+
+    return { frame: toCustomDecisionFrame(row), error: null };
+  } catch (error) {
+    return { frame: null, error: error instanceof Error ? error.message : "decision_frame_create_failed" };
+  }
+};
+
+/** `frame` is null without an error when the id does not belong to the user. */
+export const updateCustomDecisionFrame = async (
+  userId: string,
+  frameId: string,
+  definition: CustomDecisionFrameDefinition
+): Promise<{ frame: CustomDecisionFrame | null; error: string | null }> => {
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from("user_decision_frames")
+      .update({ definition })
+      .eq("id", frameId)
+      .eq("user_id", userId)
+      .select(FRAME_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      return { frame: null, error: error.message };
+    }
+
+    const row = (data as DecisionFrameRow | null) ?? null;
+    return { frame: row ? toCustomDecisionFrame(row) : null, error: null };
+  } catch (error) {
+    return { frame: null, error: error instanceof Error ? error.message : "decision_frame_update_failed" };
+  }
+};
+
+export const deleteCustomDecisionFrame = async (
+  userId: string,
+  frameId: string
+): Promise<{ deleted: boolean; error: string | null }> => {
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from("user_decision_frames")
+      .delete()
+      .eq("id", frameId)
+      .eq("user_id", userId)
+      .select("id");
+
+    if (error) {
+      return { deleted: false, error: error.message };
+    }
+
+    return { deleted: ((data as Array<{ id: string }> | null) ?? []).length > 0, error: null };
+  } catch (error) {
+    return { deleted: false, error: error instanceof Error ? error.message : "decision_frame_delete_failed" };
+  }
+};
@@ -301,14 +301,15 @@ type GeneratedCardRow = {
 
 const loadGeneratedCardEntries = async (
   userId: string,
-  supabase: Awaited<ReturnType<typeof import("./supabaseClients").createServiceRoleClient>>
+  supabase: Awaited<ReturnType<typeof import("./supabaseClients").createServiceRoleClient>>,
+  limit: number
 ): Promise<DecisionHistoryEntry[]> => {
   const { data, error } = await supabase
     .from("user_generated_cards")
     .select("id, input_text, genre, topic_title, frame_type, judgment_type, judgment_summary, action_text, deadline_at, threshold_json, watch_points_json, confidence_score, outcome, created_at, updated_at")
     .eq("user_id", userId)
     .order("created_at", { ascending: false })
-    .limit(200);
+    .limit(limit);
 
   if (error || !data) {
     return [];
@@ -334,8 +335,11 @@ const loadGeneratedCardEntries = async (
   }));
 };
 
+export const DECISION_HISTORY_LOAD_LIMIT = 200;
+
 export const loadDecisionHistory = async (
-  userId: string
+  userId: string,
+  options: { limit?: number } = {}
 ): Promise<{ entries: DecisionHistoryEntry[]; stats: DecisionHistoryStats; profile: DecisionProfile; error: string | null }> => {
   if (!userId) {
     return {
@@ -346,6 +350,8 @@ export const loadDecisionHistory = async (
     };
   }
 
+  const limit = options.limit ?? DECISION_HISTORY_LOAD_LIMIT;
+
   try {
     const { createServiceRoleClient } = await import("./supabaseClients");
     const supabase = createServiceRoleClient();
@@ -354,7 +360,7 @@ export const loadDecisionHistory = async (
       .select("id, judgment_card_id, episode_id, decision_type, outcome, created_at, updated_at")
       .eq("user_id", userId)
       .order("created_at", { ascending: false })
-      .limit(200);
+      .limit(limit);
 
     if (error) {
       return {
@@ -456,7 +462,7 @@ export const loadDecisionHistory = async (
       } satisfies DecisionHistoryEntry;
     });
 
-    const generatedEntries = await loadGeneratedCardEntries(userId, supabase);
+    const generatedEntries = await loadGeneratedCardEntries(userId, supabase, limit);
 
     const entries = [...episodeEntries, ...generatedEntries].sort(
       (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
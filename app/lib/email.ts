@@ -1,11 +1,16 @@
-import { Resend } from "resend";
 import { BRAND_NAME } from "../../src/lib/brand.ts";
-
-const getResendClient = (): Resend | null => {
-  const apiKey = process.env.RESEND_API_KEY?.trim();
-  if (!apiKey) return null;
-  return new Resend(apiKey);
-};
+import {
+  EMAIL_OUTBOX_MAX_ATTEMPTS,
+  resolveOutboxAttemptUpdate,
+  type EmailSendAttemptResult
+} from "../../src/lib/emailOutbox.ts";
+import {
+  claimRetryableOutboxEmails,
+  insertOutboxEmail,
+  updateOutboxEmail,
+  type EmailOutboxRow
+} from "./emailOutbox.ts";
+import { resolveEmailTransport, type EmailMessage, type EmailTransport } from "./emailTransport.ts";
 
 const EMAIL_FROM =
   process.env.EMAIL_FROM?.trim() || `${BRAND_NAME} <noreply@signal-move.com>`;
@@ -15,37 +20,140 @@ type SendEmailParams = {
   subject: string;
   html: string;
   text?: string;
+  headers?: Record<string, string>;
+  /** Recipient account, if any; outbox rows are purged with the account. */
+  userId?: string | null;
+  /** Free-form label for the outbox, e.g. `alert` or `account_security`. */
+  category?: string;
+  /**
+   * One-time codes and similar: the body is not stored in the outbox and the
+   * send is not retried, since a late code is useless.
+   */
+  sensitive?: boolean;
+  /**
+   * Mail to an account that has just been deleted: the outbox keeps no body,
+   * clears the address once the single attempt is recorded and never retries.
+   */
+  forgetRecipient?: boolean;
 };
 
 type SendEmailResult = {
   ok: boolean;
   error?: string;
+  /** The send failed but the outbox will retry it; callers should not resend. */
+  queued?: boolean;
 };
 
-export const sendEmail = async (params: SendEmailParams): Promise<SendEmailResult> => {
-  const resend = getResendClient();
-  if (!resend) {
-    return { ok: false, error: "email_not_configured" };
+let defaultTransport: EmailTransport | null | undefined;
+
+const getTransport = (): EmailTransport | null => {
+  if (defaultTransport === undefined) {
+    defaultTransport = resolveEmailTransport();
   }
+  return defaultTransport;
+};
 
+const deliver = async (transport: EmailTransport | null, message: EmailMessage): Promise<EmailSendAttemptResult> => {
+  if (!transport) {
+    return { ok: false, error: "email_not_configured", retryable: true };
+  }
+  return transport.send(message);
+};
+
+/**
+ * Sends one email and records the attempt in `email_outbox`. If the outbox
+ * itself is unavailable (e.g. local runs without Supabase) the email is still
+ * sent, just without a record or retries.
+ */
+export const sendEmail = async (params: SendEmailParams): Promise<SendEmailResult> => {
+  const transport = getTransport();
+  const message: EmailMessage = {
+    from: EMAIL_FROM,
+    to: params.to,
+    subject: params.subject,
+    html: params.html,
+    text: params.text,
+    headers: params.headers
+  };
+
+  let outboxRow: EmailOutboxRow | null = null;
   try {
-    const { error } = await resend.emails.send({
-      from: EMAIL_FROM,
-      to: params.to,
-      subject: params.subject,
-      html: params.html,
-      text: params.text
+    outboxRow = await insertOutboxEmail({
+      userId: params.userId ?? null,
+      category: params.category ?? "general",
+      to: message.to,
+      from: message.from,
+      subject: message.subject,
+      html: params.sensitive || params.forgetRecipient ? null : message.html,
+      text: params.sensitive || params.forgetRecipient ? null : (message.text ?? null),
+      headers: message.headers ?? {},
+      maxAttempts: params.sensitive || params.forgetRecipient ? 1 : EMAIL_OUTBOX_MAX_ATTEMPTS
     });
+  } catch (error) {
+    console.error("email_outbox_insert_error", {
+      error: error instanceof Error ? error.message : error,
+      category: params.category ?? "general"
+    });
+  }
 
-    if (error) {
-      return { ok: false, error: error.message };
+  const result = await deliver(transport, message);
+
+  let queued = false;
+  if (outboxRow) {
+    const update = resolveOutboxAttemptUpdate({
+      previousAttemptCount: outboxRow.attempt_count,
+      maxAttempts: outboxRow.max_attempts,
+      transport: transport?.name ?? null,
+      result,
+      forgetRecipient: params.forgetRecipient
+    });
+    queued = update.status === "failed";
+
+    try {
+      await updateOutboxEmail(outboxRow.id, update);
+    } catch (error) {
+      console.error("email_outbox_update_error", {
+        error: error instanceof Error ? error.message : error,
+        outboxId: outboxRow.id
+      });
     }
+  }
 
-    return { ok: true };
-  } catch (error) {
-    return {
-      ok: false,
-      error: error instanceof Error ? error.message : "email_send_failed"
-    };
+  return result.ok ? { ok: true } : { ok: false, error: result.error, queued };
+};
+
+/** Resends due `failed` outbox rows. Called from /api/cron/retry-email-outbox. */
+export const retryOutboxEmails = async (params: {
+  limit: number;
+}): Promise<{ attempted: number; sent: number; failed: number; dead: number }> => {
+  const transport = getTransport();
+  const rows = await claimRetryableOutboxEmails({ limit: params.limit });
+  const summary = { attempted: rows.length, sent: 0, failed: 0, dead: 0 };
+
+  for (const row of rows) {
+    const result: EmailSendAttemptResult = row.html
+      ? await deliver(transport, {
+          from: row.from_email,
+          to: row.to_email,
+          subject: row.subject,
+          html: row.html,
+          text: row.text_body ?? undefined,
+          headers: row.headers ?? undefined
+        })
+      : { ok: false, error: "email_body_not_stored", retryable: false };
+
+    const update = resolveOutboxAttemptUpdate({
+      previousAttemptCount: row.attempt_count,
+      maxAttempts: row.max_attempts,
+      transport: transport?.name ?? null,
+      result
+    });
+    await updateOutboxEmail(row.id, update);
+
+    if (update.status === "sent") summary.sent++;
+    else if (update.status === "failed") summary.failed++;
+    else summary.dead++;
   }
+
+  return summary;
 };
@@ -0,0 +1,115 @@
+import {
+  EMAIL_OUTBOX_STALE_SENDING_MINUTES,
+  type EmailOutboxAttemptUpdate,
+  type EmailOutboxStatus
+} from "../../src/lib/emailOutbox.ts";
+import { createServiceRoleClient } from "./supabaseClients.ts";
+
+export type EmailOutboxRow = {
+  id: string;
+  user_id: string | null;
+  category: string;
+  to_email: string;
+  from_email: string;
+  subject: string;
+  html: string | null;
+  text_body: string | null;
+  headers: Record<string, string> | null;
+  status: EmailOutboxStatus;
+  attempt_count: number;
+  max_attempts: number;
+};
+
+const OUTBOX_COLUMNS =
+  "id, user_id, category, to_email, from_email, subject, html, text_body, headers, status, attempt_count, max_attempts";
+
+export const insertOutboxEmail = async (params: {
+  userId: string | null;
+  category: string;
+  to: string;
+  from: string;
+  subject: string;
+  html: string | null;
+  text: string | null;
+  headers: Record<string, string>;
+  maxAttempts: number;
+}): Promise<EmailOutboxRow> => {
+  const supabase = createServiceRoleClient();
+  const { data, error } = await supabase
+    .from("email_outbox")
+    .insert({
+      user_id: params.userId,
+      category: params.category,
+      to_email: params.to,
+      from_email: params.from,
+      subject: params.subject,
+      html: params.html,
+      text_body: params.text,
+      headers: params.headers,
+      status: "sending",
+      max_attempts: params.maxAttempts,
+      last_attempt_at: new Date().toISOString()
+    })
+    .select(OUTBOX_COLUMNS)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as EmailOutboxRow;
+};
+
+export const updateOutboxEmail = async (id: string, update: EmailOutboxAttemptUpdate): Promise<void> => {
+  const supabase = createServiceRoleClient();
+  const { error } = await supabase.from("email_outbox").update(update).eq("id", id);
+
+  if (error) {
+    throw error;
+  }
+};
+
+/**
+ * Claims due retries by flipping them to `sending`. The status filter on the
+ * update makes the claim atomic, so overlapping cron runs never send twice.
+ * Rows stuck in `sending` (a run that died mid-send) are reclaimed too.
+ */
+export const claimRetryableOutboxEmails = async (params: { limit: number; now?: Date }): Promise<EmailOutboxRow[]> => {
+  const supabase = createServiceRoleClient();
+  const now = params.now ?? new Date();
+  const staleBefore = new Date(now.getTime() - EMAIL_OUTBOX_STALE_SENDING_MINUTES * 60_000).toISOString();
+
+  const { data, error } = await supabase
+    .from("email_outbox")
+    .select("id, status")
+    .or(
+      `and(status.eq.failed,next_attempt_at.lte.${now.toISOString()}),and(status.eq.sending,last_attempt_at.lt.${staleBefore})`
+    )
+    .order("created_at", { ascending: true })
+    .limit(params.limit);
+
+  if (error) {
+    throw error;
+  }
+
+  const claimed: EmailOutboxRow[] = [];
+  for (const candidate of (data as Array<{ id: string; status: EmailOutboxStatus }> | null) ?? []) {
+    const { data: row, error: claimError } = await supabase
+      .from("email_outbox")
+      .update({ status: "sending", last_attempt_at: now.toISOString() })
+      .eq("id", candidate.id)
+      .eq("status", candidate.status)
+      .select(OUTBOX_COLUMNS)
+      .maybeSingle();
+
+    if (claimError) {
+      throw claimError;
+    }
+
+    if (row) {
+      claimed.push(row as EmailOutboxRow);
+    }
+  }
+
+  return claimed;
+};
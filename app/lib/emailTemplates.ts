@@ -1,5 +1,19 @@
 import type { StoredUserAlert } from "./alerts";
-import { BRAND_NAME, DEFAULT_SITE_URL } from "@/src/lib/brand";
+import { BRAND_NAME, DEFAULT_SITE_URL } from "../../src/lib/brand.ts";
+import { formatTopicTitle } from "../../src/lib/episodeTitles.ts";
+import type { JudgmentThresholdJson, JudgmentType } from "../../src/lib/judgmentCards.ts";
+import {
+  buildOutcomeReminderCandidates,
+  formatOutcomeReminderTiming,
+  limitOutcomeReminderCandidates,
+  type OutcomeReminderDecision
+} from "../../src/lib/outcomeReminder.ts";
+import {
+  buildWeeklyDecisionDigest,
+  FREE_WEEKLY_DIGEST_PREVIEW_LIMIT,
+  type WeeklyDecisionDigestCardBase
+} from "../../src/lib/weeklyDecisionDigest.ts";
+import { formatThresholdHighlights } from "./judgmentAccess.ts";
 
 const APP_BASE_URL = process.env.APP_BASE_URL?.trim() || DEFAULT_SITE_URL;
 
@@ -10,7 +24,7 @@ const ALERT_SUBJECT_MAP: Record<string, string> = {
   weekly_digest_ready: "今週のまとめ"
 };
 
-type EmailContent = {
+export type EmailContent = {
   subject: string;
   html: string;
   text: string;
@@ -36,7 +50,7 @@ const resolveCTALabel = (alert: StoredUserAlert): string => {
   return firstLink?.label ?? "アプリで確認する";
 };
 
-const buildHtmlTemplate = (alert: StoredUserAlert, ctaUrl: string, ctaLabel: string): string => {
+const buildHtmlLayout = (body: string, unsubscribeUrl?: string | null): string => {
   return `<!DOCTYPE html>
 <html lang="ja">
 <head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"></head>
@@ -48,15 +62,16 @@ const buildHtmlTemplate = (alert: StoredUserAlert, ctaUrl: string, ctaLabel: str
     <span style="color:#f8fafc;font-size:16px;font-weight:800;letter-spacing:0.02em;">${BRAND_NAME}</span>
   </td></tr>
   <tr><td style="padding:28px 24px;">
-    <p style="margin:0 0 6px;font-size:12px;font-weight:700;color:#0369a1;text-transform:uppercase;letter-spacing:0.1em;">${escapeHtml(alert.alertTypeLabel)}</p>
-    <h1 style="margin:0 0 12px;font-size:20px;color:#0f172a;line-height:1.4;">${escapeHtml(alert.title)}</h1>
-    <p style="margin:0 0 20px;font-size:15px;color:#475569;line-height:1.7;">${escapeHtml(alert.summary)}</p>
-    <a href="${ctaUrl}" style="display:inline-block;padding:12px 24px;background:#0f172a;color:#f8fafc;font-size:14px;font-weight:700;text-decoration:none;border-radius:999px;">${escapeHtml(ctaLabel)}</a>
+${body}
   </td></tr>
   <tr><td style="padding:16px 24px;border-top:1px solid #e2e8f0;background:#f8fafc;">
     <p style="margin:0;font-size:12px;color:#94a3b8;line-height:1.6;">
       このメールは ${BRAND_NAME} から送信されています。<br>
-      <a href="${APP_BASE_URL}/account" style="color:#64748b;">通知設定を変更する</a>
+      <a href="${APP_BASE_URL}/account" style="color:#64748b;">通知設定を変更する</a>${
+        unsubscribeUrl
+          ? ` ・ <a href="${escapeHtml(unsubscribeUrl)}" style="color:#64748b;">このメールの配信を停止する</a>`
+          : ""
+      }
     </p>
   </td></tr>
 </table>
@@ -66,7 +81,29 @@ const buildHtmlTemplate = (alert: StoredUserAlert, ctaUrl: string, ctaLabel: str
 </html>`;
 };
 
-const buildPlainText = (alert: StoredUserAlert, ctaUrl: string): string => {
+const buildCtaButton = (href: string, label: string): string =>
+  `<a href="${escapeHtml(href)}" style="display:inline-block;padding:12px 24px;background:#0f172a;color:#f8fafc;font-size:14px;font-weight:700;text-decoration:none;border-radius:999px;">${escapeHtml(label)}</a>`;
+
+const buildPlainTextFooter = (unsubscribeUrl?: string | null): string[] => [
+  "---",
+  BRAND_NAME,
+  `通知設定: ${APP_BASE_URL}/account`,
+  ...(unsubscribeUrl ? [`配信停止: ${unsubscribeUrl}`] : [])
+];
+
+const buildHtmlTemplate = (
+  alert: StoredUserAlert,
+  ctaUrl: string,
+  ctaLabel: string,
+  unsubscribeUrl?: string | null
+): string => {
+  return buildHtmlLayout(`    <p style="margin:0 0 6px;font-size:12px;font-weight:700;color:#0369a1;text-transform:uppercase;letter-spacing:0.1em;">${escapeHtml(alert.alertTypeLabel)}</p>
+    <h1 style="margin:0 0 12px;font-size:20px;color:#0f172a;line-height:1.4;">${escapeHtml(alert.title)}</h1>
+    <p style="margin:0 0 20px;font-size:15px;color:#475569;line-height:1.7;">${escapeHtml(alert.summary)}</p>
+    ${buildCtaButton(ctaUrl, ctaLabel)}`, unsubscribeUrl);
+};
+
+const buildPlainText = (alert: StoredUserAlert, ctaUrl: string, unsubscribeUrl?: string | null): string => {
   return [
     `[${alert.alertTypeLabel}]`,
     "",
@@ -76,20 +113,281 @@ const buildPlainText = (alert: StoredUserAlert, ctaUrl: string): string => {
     "",
     `確認する: ${ctaUrl}`,
     "",
-    "---",
-    BRAND_NAME,
-    `通知設定: ${APP_BASE_URL}/account`
+    ...buildPlainTextFooter(unsubscribeUrl)
   ].join("\n");
 };
 
-export const buildAlertEmail = (alert: StoredUserAlert): EmailContent => {
+type EmailTemplateOptions = {
+  /** Signed one-click unsubscribe page for this email's alert type. */
+  unsubscribeUrl?: string | null;
+};
+
+export const buildAlertEmail = (alert: StoredUserAlert, options: EmailTemplateOptions = {}): EmailContent => {
   const subject = ALERT_SUBJECT_MAP[alert.alertType] ?? alert.title;
   const ctaUrl = resolveCTAUrl(alert);
   const ctaLabel = resolveCTALabel(alert);
 
   return {
     subject,
-    html: buildHtmlTemplate(alert, ctaUrl, ctaLabel),
-    text: buildPlainText(alert, ctaUrl)
+    html: buildHtmlTemplate(alert, ctaUrl, ctaLabel, options.unsubscribeUrl),
+    text: buildPlainText(alert, ctaUrl, options.unsubscribeUrl)
+  };
+};
+
+/** Daily bundle: several deadline and outcome alerts in one email, in the given order. */
+export const buildAlertBundleEmail = (
+  alerts: StoredUserAlert[],
+  options: EmailTemplateOptions = {}
+): EmailContent => {
+  const entries = alerts.map((alert) => ({
+    alert,
+    url: resolveCTAUrl(alert),
+    label: resolveCTALabel(alert)
+  }));
+  const title = `今日のお知らせ (${alerts.length}件)`;
+
+  const html = buildHtmlLayout(`    <p style="margin:0 0 6px;font-size:12px;font-weight:700;color:#0369a1;text-transform:uppercase;letter-spacing:0.1em;">まとめて通知</p>
+    <h1 style="margin:0 0 16px;font-size:20px;color:#0f172a;line-height:1.4;">${escapeHtml(title)}</h1>
+${entries
+  .map(
+    ({ alert, url, label }) => `    <div style="margin:0 0 12px;padding:14px 16px;border:1px solid #e2e8f0;border-radius:12px;">
+      <p style="margin:0 0 4px;font-size:12px;font-weight:700;color:#0369a1;">${escapeHtml(alert.alertTypeLabel)}</p>
+      <p style="margin:0 0 4px;font-size:15px;font-weight:700;color:#0f172a;line-height:1.5;">${escapeHtml(alert.title)}</p>
+      <p style="margin:0 0 6px;font-size:14px;color:#475569;line-height:1.7;">${escapeHtml(alert.summary)}</p>
+      <a href="${escapeHtml(url)}" style="font-size:13px;font-weight:700;color:#0369a1;">${escapeHtml(label)}</a>
+    </div>`
+  )
+  .join("\n")}
+    <p style="margin:20px 0 0;">${buildCtaButton(`${APP_BASE_URL}/alerts`, "お知らせをすべて見る")}</p>`, options.unsubscribeUrl);
+
+  const text = [
+    "[まとめて通知]",
+    "",
+    title,
+    ...entries.flatMap(({ alert, url }) => ["", `・[${alert.alertTypeLabel}] ${alert.title}`, `  ${alert.summary}`, `  ${url}`]),
+    "",
+    `お知らせをすべて見る: ${APP_BASE_URL}/alerts`,
+    "",
+    ...buildPlainTextFooter(options.unsubscribeUrl)
+  ].join("\n");
+
+  return { subject: title, html, text };
+};
+
+/** Cards per section for paid users; the rest are behind the "ほかN件を見る" link. */
+export const WEEKLY_DIGEST_EMAIL_CARD_LIMIT = 5;
+
+const WEEKLY_DIGEST_SECTIONS: { type: JudgmentType; label: string; color: string }[] = [
+  { type: "use_now", label: "今すぐ", color: "#047857" },
+  { type: "watch", label: "様子見", color: "#b45309" },
+  { type: "skip", label: "見送り", color: "#64748b" }
+];
+
+const JST_DATE_FORMATTER = new Intl.DateTimeFormat("ja-JP", {
+  month: "numeric",
+  day: "numeric",
+  weekday: "short",
+  timeZone: "Asia/Tokyo"
+});
+
+export type WeeklyDigestEmailCard = WeeklyDecisionDigestCardBase & {
+  id: string;
+  episode_id: string;
+  topic_title: string;
+  judgment_summary: string;
+  threshold_json?: JudgmentThresholdJson | null;
+};
+
+type WeeklyDigestEmailParams = EmailTemplateOptions & {
+  cards: WeeklyDigestEmailCard[];
+  /** Unresolved `user_decisions` rows (outcome null) of the recipient. */
+  decisions: OutcomeReminderDecision[];
+  isPaid: boolean;
+  windowStart: string;
+  windowEnd: string;
+  now?: Date;
+};
+
+type WeeklyDigestEmailEntry = {
+  topic: string;
+  summary: string;
+  deadline: string | null;
+  highlights: string[];
+  url: string;
+};
+
+type WeeklyDigestEmailSection = {
+  label: string;
+  color: string;
+  total: number;
+  entries: WeeklyDigestEmailEntry[];
+  hiddenCount: number;
+};
+
+const formatJstDate = (value: string | null): string | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : JST_DATE_FORMATTER.format(date);
+};
+
+const buildDecisionCardUrl = (card: { id: string; episode_id: string }): string =>
+  `${APP_BASE_URL}/decisions/${card.episode_id}#card-${card.id}`;
+
+const buildWeeklyDigestSections = (params: WeeklyDigestEmailParams): WeeklyDigestEmailSection[] => {
+  const perGroupLimit = params.isPaid ? WEEKLY_DIGEST_EMAIL_CARD_LIMIT : FREE_WEEKLY_DIGEST_PREVIEW_LIMIT;
+  const digest = buildWeeklyDecisionDigest(params.cards, perGroupLimit);
+
+  return WEEKLY_DIGEST_SECTIONS.map(({ type, label, color }) => ({
+    label,
+    color,
+    total: digest.counts[type],
+    hiddenCount: digest.counts[type] - digest.groupedVisible[type].length,
+    entries: digest.groupedVisible[type].map((card) => ({
+      topic: formatTopicTitle(card.topic_title),
+      summary: card.judgment_summary,
+      // Deadlines and thresholds are paid details, as on the web.
+      deadline: params.isPaid ? formatJstDate(card.deadline_at) : null,
+      highlights: params.isPaid && card.threshold_json ? formatThresholdHighlights(card.threshold_json) : [],
+      url: buildDecisionCardUrl(card)
+    }))
+  })).filter((section) => section.total > 0);
+};
+
+const buildWeeklyDigestEntryHtml = (entry: WeeklyDigestEmailEntry): string => {
+  const deadline = entry.deadline
+    ? `<p style="margin:0 0 6px;font-size:12px;font-weight:700;color:#b91c1c;">期限: ${escapeHtml(entry.deadline)}</p>`
+    : "";
+  const highlights =
+    entry.highlights.length > 0
+      ? `<ul style="margin:0 0 6px;padding-left:18px;font-size:13px;color:#334155;line-height:1.6;">${entry.highlights
+          .map((line) => `<li>${escapeHtml(line)}</li>`)
+          .join("")}</ul>`
+      : "";
+
+  return `    <div style="margin:0 0 12px;padding:14px 16px;border:1px solid #e2e8f0;border-radius:12px;">
+      <p style="margin:0 0 4px;font-size:15px;font-weight:700;color:#0f172a;line-height:1.5;"><a href="${escapeHtml(entry.url)}" style="color:#0f172a;text-decoration:none;">${escapeHtml(entry.topic)}</a></p>
+      <p style="margin:0 0 6px;font-size:14px;color:#475569;line-height:1.7;">${escapeHtml(entry.summary)}</p>
+      ${deadline}${highlights}<a href="${escapeHtml(entry.url)}" style="font-size:13px;font-weight:700;color:#0369a1;">カードを開く</a>
+    </div>`;
+};
+
+const buildLockedTeaserHtml = (hiddenCount: number): string =>
+  `    <p style="margin:0 0 12px;padding:12px 16px;border:1px dashed #cbd5e1;border-radius:12px;font-size:13px;color:#64748b;">有料版であと${hiddenCount}件のカードと期限・判断基準を確認できます。<a href="${APP_BASE_URL}/account" style="color:#0369a1;font-weight:700;">プランを見る</a></p>`;
+
+const buildWeeklyDigestHtml = (params: {
+  title: string;
+  summary: string;
+  sections: WeeklyDigestEmailSection[];
+  outcomes: { topic: string; timing: string; url: string }[];
+  isPaid: boolean;
+  unsubscribeUrl?: string | null;
+}): string => {
+  const sectionsHtml = params.sections
+    .map((section) => {
+      const entries = section.entries.map(buildWeeklyDigestEntryHtml).join("\n");
+      const more =
+        section.hiddenCount === 0
+          ? ""
+          : params.isPaid
+            ? `    <p style="margin:0 0 12px;font-size:13px;"><a href="${APP_BASE_URL}/decisions" style="color:#0369a1;">ほか${section.hiddenCount}件を見る</a></p>`
+            : buildLockedTeaserHtml(section.hiddenCount);
+
+      return `    <h2 style="margin:24px 0 10px;font-size:16px;color:${section.color};">${escapeHtml(section.label)} (${section.total}件)</h2>
+${entries}
+${more}`;
+    })
+    .join("\n");
+
+  const outcomesHtml =
+    params.outcomes.length === 0
+      ? ""
+      : `    <h2 style="margin:28px 0 10px;font-size:16px;color:#0f172a;">結果を記録していない判断</h2>
+    <ul style="margin:0 0 12px;padding-left:18px;font-size:14px;color:#334155;line-height:1.8;">
+${params.outcomes
+  .map(
+    (outcome) =>
+      `      <li><a href="${escapeHtml(outcome.url)}" style="color:#0f172a;">${escapeHtml(outcome.topic)}</a> <span style="color:#94a3b8;">(${escapeHtml(outcome.timing)})</span></li>`
+  )
+  .join("\n")}
+    </ul>
+    <p style="margin:0 0 12px;font-size:13px;"><a href="${APP_BASE_URL}/history" style="color:#0369a1;">履歴で結果を記録する</a></p>`;
+
+  return buildHtmlLayout(`    <p style="margin:0 0 6px;font-size:12px;font-weight:700;color:#0369a1;text-transform:uppercase;letter-spacing:0.1em;">週次ダイジェスト</p>
+    <h1 style="margin:0 0 12px;font-size:20px;color:#0f172a;line-height:1.4;">${escapeHtml(params.title)}</h1>
+    <p style="margin:0 0 8px;font-size:15px;color:#475569;line-height:1.7;">${escapeHtml(params.summary)}</p>
+${sectionsHtml}
+${outcomesHtml}
+    <p style="margin:24px 0 0;">${buildCtaButton(`${APP_BASE_URL}/decisions`, "今週のエピソードを見る")}</p>`, params.unsubscribeUrl);
+};
+
+/**
+ * Weekly digest with the week's cards grouped by judgment. Free users get
+ * one card per group and a locked teaser for the rest, mirroring the web
+ * preview; paid users also get deadlines and threshold highlights.
+ */
+export const buildWeeklyDigestEmail = (params: WeeklyDigestEmailParams): EmailContent => {
+  const sections = buildWeeklyDigestSections(params);
+  const total = sections.reduce((sum, section) => sum + section.total, 0);
+  const period = `${formatJstDate(params.windowStart) ?? ""}〜${formatJstDate(params.windowEnd) ?? ""}`;
+  const title = `今週のまとめ (${total}件)`;
+  const summary = `${period}に公開されたカード: ${sections
+    .map((section) => `${section.label} ${section.total}`)
+    .join(" / ")}`;
+  const outcomes = limitOutcomeReminderCandidates(
+    buildOutcomeReminderCandidates(params.decisions, { now: params.now }),
+    params.isPaid
+  ).map((candidate) => ({
+    topic: formatTopicTitle(candidate.topic_title),
+    timing: formatOutcomeReminderTiming(candidate),
+    url: buildDecisionCardUrl({ id: candidate.judgment_card_id, episode_id: candidate.episode_id })
+  }));
+
+  const text = [
+    "[週次ダイジェスト]",
+    "",
+    title,
+    summary,
+    ...sections.flatMap((section) => [
+      "",
+      `■ ${section.label} (${section.total}件)`,
+      ...section.entries.flatMap((entry) => [
+        "",
+        `・${entry.topic}`,
+        `  ${entry.summary}`,
+        ...(entry.deadline ? [`  期限: ${entry.deadline}`] : []),
+        ...entry.highlights.map((line) => `  - ${line}`),
+        `  ${entry.url}`
+      ]),
+      ...(section.hiddenCount === 0
+        ? []
+        : params.isPaid
+          ? ["", `ほか${section.hiddenCount}件: ${APP_BASE_URL}/decisions`]
+          : ["", `有料版であと${section.hiddenCount}件のカードと期限・判断基準を確認できます: ${APP_BASE_URL}/account`])
+    ]),
+    ...(outcomes.length === 0
+      ? []
+      : [
+          "",
+          "■ 結果を記録していない判断",
+          ...outcomes.map((outcome) => `・${outcome.topic} (${outcome.timing}) ${outcome.url}`),
+          `履歴で結果を記録する: ${APP_BASE_URL}/history`
+        ]),
+    "",
+    `今週のエピソードを見る: ${APP_BASE_URL}/decisions`,
+    "",
+    ...buildPlainTextFooter(params.unsubscribeUrl)
+  ].join("\n");
+
+  return {
+    subject: title,
+    html: buildWeeklyDigestHtml({
+      title,
+      summary,
+      sections,
+      outcomes,
+      isPaid: params.isPaid,
+      unsubscribeUrl: params.unsubscribeUrl
+    }),
+    text
   };
 };
@@ -0,0 +1,152 @@
+/**
+ * Pluggable email delivery for `sendEmail`.
+ *
+ * Transports are selected with EMAIL_TRANSPORT:
+ * - `resend`: Resend API (RESEND_API_KEY). Default when the key is set.
+ * - `smtp`: any SMTP server via SMTP_URL, e.g. Mailpit at smtp://localhost:1025.
+ * - `file`: writes each message to EMAIL_FILE_DIR (default `.email-outbox/`) as
+ *   JSON plus an HTML preview. Default outside production when nothing else
+ *   is configured, so local and e2e runs can inspect what would have been sent.
+ * Production without Resend or SMTP has no transport and sends fail with
+ * `email_not_configured`.
+ */
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import nodemailer from "nodemailer";
+import { Resend } from "resend";
+import type { EmailSendAttemptResult } from "../../src/lib/emailOutbox.ts";
+
+export const EMAIL_TRANSPORT_NAMES = ["resend", "smtp", "file"] as const;
+export type EmailTransportName = (typeof EMAIL_TRANSPORT_NAMES)[number];
+
+export type EmailMessage = {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  headers?: Record<string, string>;
+};
+
+export type EmailTransport = {
+  name: EmailTransportName;
+  send: (message: EmailMessage) => Promise<EmailSendAttemptResult>;
+};
+
+export const DEFAULT_EMAIL_FILE_DIR = ".email-outbox";
+
+/** Resend errors caused by the message itself; resending it cannot succeed. */
+const PERMANENT_RESEND_ERRORS = new Set([
+  "validation_error",
+  "missing_required_field",
+  "invalid_from_address",
+  "invalid_attachment",
+  "invalid_parameter"
+]);
+
+export const createResendEmailTransport = (apiKey: string): EmailTransport => {
+  const resend = new Resend(apiKey);
+
+  return {
+    name: "resend",
+    send: async (message) => {
+      try {
+        const { data, error } = await resend.emails.send({
+          from: message.from,
+          to: message.to,
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+          headers: message.headers
+        });
+
+        if (error) {
+          return { ok: false, error: error.message, retryable: !PERMANENT_RESEND_ERRORS.has(error.name) };
+        }
+
+        return { ok: true, providerMessageId: data?.id ?? null };
+      } catch (error) {
+        return {
+          ok: false,
+          error: error instanceof Error ? error.message : "email_send_failed",
+          retryable: true
+        };
+      }
+    }
+  };
+};
+
+export const createSmtpEmailTransport = (smtpUrl: string): EmailTransport => {
+  const transporter = nodemailer.createTransport(smtpUrl);
+
+  return {
+    name: "smtp",
+    send: async (message) => {
+      try {
+        const info = await transporter.sendMail({
+          from: message.from,
+          to: message.to,
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+          headers: message.headers
+        });
+
+        return { ok: true, providerMessageId: info.messageId ?? null };
+      } catch (error) {
+        // 5xx replies are permanent rejections; 4xx and connection errors are worth retrying.
+        const responseCode = (error as { responseCode?: number }).responseCode;
+        return {
+          ok: false,
+          error: error instanceof Error ? error.message : "email_send_failed",
+          retryable: !(typeof responseCode === "number" && responseCode >= 500)
+        };
+      }
+    }
+  };
+};
+
+export const createFileEmailTransport = (directory = DEFAULT_EMAIL_FILE_DIR): EmailTransport => {
+  return {
+    name: "file",
+    send: async (message) => {
+      const messageId = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID()}`;
+
+      try {
+        await mkdir(directory, { recursive: true });
+        await writeFile(path.join(directory, `${messageId}.json`), `${JSON.stringify(message, null, 2)}\n`, "utf8");
+        await writeFile(path.join(directory, `${messageId}.html`), message.html, "utf8");
+        return { ok: true, providerMessageId: messageId };
+      } catch (error) {
+        return {
+          ok: false,
+          error: error instanceof Error ? error.message : "email_file_write_failed",
+          retryable: true
+        };
+      }
+    }
+  };
+};
+
+export const resolveEmailTransport = (env: NodeJS.ProcessEnv = process.env): EmailTransport | null => {
+  const requested = env.EMAIL_TRANSPORT?.trim().toLowerCase();
+  const resendApiKey = env.RESEND_API_KEY?.trim();
+  const smtpUrl = env.SMTP_URL?.trim();
+  const fileDir = env.EMAIL_FILE_DIR?.trim() || DEFAULT_EMAIL_FILE_DIR;
+
+  switch (requested) {
+    case "resend":
+      return resendApiKey ? createResendEmailTransport(resendApiKey) : null;
+    case "smtp":
+      return smtpUrl ? createSmtpEmailTransport(smtpUrl) : null;
+    case "file":
+      return createFileEmailTransport(fileDir);
+    default:
+      break;
+  }
+
+  if (resendApiKey) return createResendEmailTransport(resendApiKey);
+  if (smtpUrl) return createSmtpEmailTransport(smtpUrl);
+  return env.NODE_ENV === "production" ? null : createFileEmailTransport(fileDir);
+};
@@ -0,0 +1,116 @@
+import { DEFAULT_SITE_URL } from "../../src/lib/brand.ts";
+import type { UserNotificationPreferences } from "../../src/lib/alerts.ts";
+import { applyEmailUnsubscribeScope, type EmailUnsubscribeScope } from "../../src/lib/emailUnsubscribe.ts";
+import { describeNotificationPreferenceChanges } from "./accountSecurityNotifications.ts";
+import {
+  createEmailUnsubscribeToken,
+  verifyEmailUnsubscribeToken,
+  type EmailUnsubscribeTokenError,
+  type EmailUnsubscribeTokenPayload
+} from "./emailUnsubscribeToken.ts";
+import {
+  loadUserNotificationPreferences,
+  recordNotificationPreferenceChange,
+  upsertUserNotificationPreferences
+} from "./userNotificationPreferences.ts";
+
+const APP_BASE_URL = process.env.APP_BASE_URL?.trim() || DEFAULT_SITE_URL;
+
+export const EMAIL_UNSUBSCRIBE_PAGE_PATH = "/unsubscribe";
+export const EMAIL_UNSUBSCRIBE_API_PATH = "/api/alerts/unsubscribe";
+
+export type EmailUnsubscribeLinks = {
+  /** Confirmation page linked from the email footer. */
+  pageUrl: string;
+  /** RFC 8058 headers; mail clients POST `List-Unsubscribe=One-Click` to the API URL. */
+  headers: Record<string, string>;
+};
+
+const getEmailUnsubscribeSecret = (): string | null => {
+  const value = process.env.EMAIL_UNSUBSCRIBE_SECRET?.trim();
+  return value ? value : null;
+};
+
+/** Null when EMAIL_UNSUBSCRIBE_SECRET is unset; emails then only link to /account. */
+export const buildEmailUnsubscribeLinks = (
+  params: { userId: string; scope: EmailUnsubscribeScope },
+  now = Date.now()
+): EmailUnsubscribeLinks | null => {
+  const secret = getEmailUnsubscribeSecret();
+  if (!secret) {
+    return null;
+  }
+
+  const token = encodeURIComponent(createEmailUnsubscribeToken(params, secret, now));
+  return {
+    pageUrl: `${APP_BASE_URL}${EMAIL_UNSUBSCRIBE_PAGE_PATH}?token=${token}`,
+    headers: {
+      "List-Unsubscribe": `<${APP_BASE_URL}${EMAIL_UNSUBSCRIBE_API_PATH}?token=${token}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click"
+    }
+  };
+};
+
+export const readEmailUnsubscribeToken = (
+  token: string | null | undefined,
+  now = Date.now()
+): { ok: true; payload: EmailUnsubscribeTokenPayload } | { ok: false; error: EmailUnsubscribeTokenError } => {
+  const secret = getEmailUnsubscribeSecret();
+  if (!secret) {
+    return { ok: false, error: "invalid_unsubscribe_token" };
+  }
+
+  return verifyEmailUnsubscribeToken(token, secret, now);
+};
+
+/**
+ * Turns off the preference named by a signed token. No login is involved, so
+ * the token is the only credential; the change is written to the audit log.
+ */
+export const unsubscribeWithToken = async (
+  token: string | null | undefined
+): Promise<
+  | { ok: true; scope: EmailUnsubscribeScope; preferences: UserNotificationPreferences; changes: string[] }
+  | { ok: false; error: string; status: number }
+> => {
+  const verified = readEmailUnsubscribeToken(token);
+  if (!verified.ok) {
+    return { ok: false, error: verified.error, status: verified.error === "unsubscribe_token_expired" ? 410 : 400 };
+  }
+
+  const { userId, scope } = verified.payload;
+  const current = await loadUserNotificationPreferences(userId);
+  if (current.error) {
+    return { ok: false, error: current.error, status: 500 };
+  }
+
+  const next = applyEmailUnsubscribeScope(current.preferences, scope);
+  const changes = describeNotificationPreferenceChanges(current.preferences, next);
+  if (changes.length === 0) {
+    // Already off: one-click clients may POST more than once.
+    return { ok: true, scope, preferences: current.preferences, changes };
+  }
+
+  const { preferences, error } = await upsertUserNotificationPreferences(userId, next);
+  if (error) {
+    return { ok: false, error, status: 500 };
+  }
+
+  try {
+    await recordNotificationPreferenceChange({
+      userId,
+      source: "unsubscribe_link",
+      scope,
+      before: current.preferences,
+      after: preferences,
+      changes
+    });
+  } catch (auditError) {
+    console.error("notification_preference_audit_error", {
+      error: auditError instanceof Error ? auditError.message : auditError,
+      userId
+    });
+  }
+
+  return { ok: true, scope, preferences, changes };
+};
@@ -0,0 +1,65 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { isEmailUnsubscribeScope, type EmailUnsubscribeScope } from "../../src/lib/emailUnsubscribe.ts";
+
+/** Links in old emails keep working for a while, but not forever. */
+export const EMAIL_UNSUBSCRIBE_TOKEN_TTL_DAYS = 90;
+
+export type EmailUnsubscribeTokenPayload = {
+  userId: string;
+  scope: EmailUnsubscribeScope;
+  expiresAt: number;
+};
+
+export type EmailUnsubscribeTokenError = "invalid_unsubscribe_token" | "unsubscribe_token_expired";
+
+const signPayload = (payload: EmailUnsubscribeTokenPayload, secret: string): string => {
+  const message = `unsubscribe.${payload.userId}.${payload.scope}.${payload.expiresAt}`;
+  return createHmac("sha256", secret).update(message).digest("base64url");
+};
+
+export const createEmailUnsubscribeToken = (
+  params: { userId: string; scope: EmailUnsubscribeScope },
+  secret: string,
+  now = Date.now()
+): string => {
+  const payload: EmailUnsubscribeTokenPayload = {
+    userId: params.userId,
+    scope: params.scope,
+    expiresAt: now + EMAIL_UNSUBSCRIBE_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000
+  };
+
+  return `${payload.userId}.${payload.scope}.${payload.expiresAt}.${signPayload(payload, secret)}`;
+};
+
+export const verifyEmailUnsubscribeToken = (
+  token: string | null | undefined,
+  secret: string,
+  now = Date.now()
+): { ok: true; payload: EmailUnsubscribeTokenPayload } | { ok: false; error: EmailUnsubscribeTokenError } => {
+  const [userId, scope, expiresAtRaw, signature, ...rest] = (token ?? "").trim().split(".");
+  const expiresAt = Number(expiresAtRaw);
+  if (
+    !userId ||
+    !isEmailUnsubscribeScope(scope) ||
+    !Number.isFinite(expiresAt) ||
+    expiresAt <= 0 ||
+    !signature ||
+    rest.length > 0
+  ) {
+    return { ok: false, error: "invalid_unsubscribe_token" };
+  }
+
+  const payload: EmailUnsubscribeTokenPayload = { userId, scope, expiresAt };
+  const receivedBuffer = Buffer.from(signature);
+  const expectedBuffer = Buffer.from(signPayload(payload, secret));
+  if (receivedBuffer.length !== expectedBuffer.length || !timingSafeEqual(receivedBuffer, expectedBuffer)) {
+    return { ok: false, error: "invalid_unsubscribe_token" };
+  }
+
+  // Checked after the signature so an expired token is only reported for links we issued.
+  if (expiresAt <= now) {
+    return { ok: false, error: "unsubscribe_token_expired" };
+  }
+
+  return { ok: true, payload };
+};
@@ -0,0 +1,87 @@
+import { countSpokenChars, parseEpisodeAudioSections, type EpisodeAudioSection } from "@/src/lib/episodeChapters";
+import { createServiceRoleClient } from "./supabaseClients";
+
+export type PodcastEpisodeScript = {
+  id: string;
+  script: string | null;
+  /** Spoken characters of the free preview; viewers without full access get no more of the transcript. */
+  previewChars: number;
+  durationSec: number | null;
+  audioSections: EpisodeAudioSection[] | null;
+  judgmentCards: Array<{ topic_order: number; topic_title: string }>;
+};
+
+type EpisodeScriptRow = {
+  id: string;
+  script: string | null;
+  script_polished: string | null;
+  script_polished_preview: string | null;
+  duration_sec: number | null;
+  audio_sections: unknown;
+};
+
+// Same length the episode pages fall back to when there is no stored preview.
+const PREVIEW_FALLBACK_CHARS = 240;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Script of an episode that is listed in the podcast feed (published ja audio).
+ * Chapters and transcripts are only served for those episodes, since the audio
+ * they describe is already public. The script itself is the paid full text,
+ * so callers serving it as text limit free viewers to `previewChars`.
+ */
+export const loadPodcastEpisodeScript = async (
+  episodeId: string
+): Promise<{ episode: PodcastEpisodeScript | null; error: string | null }> => {
+  if (!UUID_PATTERN.test(episodeId)) {
+    return { episode: null, error: null };
+  }
+
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from("episodes")
+      .select("id, script, script_polished, script_polished_preview, duration_sec, audio_sections")
+      .eq("id", episodeId)
+      .eq("status", "published")
+      .eq("lang", "ja")
+      .not("audio_url", "is", null)
+      .not("published_at", "is", null)
+      .maybeSingle();
+
+    if (error) {
+      return { episode: null, error: error.message };
+    }
+
+    const row = (data as EpisodeScriptRow | null) ?? null;
+    if (!row) {
+      return { episode: null, error: null };
+    }
+
+    const { data: cards, error: cardsError } = await supabase
+      .from("episode_judgment_cards")
+      .select("topic_order, topic_title")
+      .eq("episode_id", row.id)
+      .order("topic_order", { ascending: true });
+
+    return {
+      episode: {
+        id: row.id,
+        script: row.script_polished?.trim() || row.script?.trim() || null,
+        previewChars: row.script_polished_preview?.trim()
+          ? countSpokenChars(row.script_polished_preview)
+          : PREVIEW_FALLBACK_CHARS,
+        durationSec: row.duration_sec,
+        audioSections: parseEpisodeAudioSections(row.audio_sections),
+        judgmentCards: (cards as PodcastEpisodeScript["judgmentCards"] | null) ?? []
+      },
+      error: cardsError?.message ?? null
+    };
+  } catch (error) {
+    return {
+      episode: null,
+      error: error instanceof Error ? error.message : "unknown_error"
+    };
+  }
+};
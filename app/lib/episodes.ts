@@ -6,6 +6,13 @@
  * denormalised cache maintained by Edge Functions and seed scripts for
  * backward-compat only — application code must NOT read from it.
  */
+import {
+  buildEpisodeChapters,
+  parseEpisodeAudioSections,
+  type EpisodeAudioSection,
+  type EpisodeChapter
+} from "@/src/lib/episodeChapters";
+import { buildTranscriptCues, type TranscriptCue } from "@/src/lib/episodeTranscript";
 import type { JudgmentCard, JudgmentThresholdJson, JudgmentType } from "@/src/lib/judgmentCards";
 import type { WatchlistCardState } from "@/src/lib/watchlist";
 import { isWithinFreeAccessWindow } from "./contentAccess";
@@ -35,6 +42,17 @@ export type PublishedEpisodeRow = {
   created_at: string;
 };
 
+/** Chapter of the player on an episode page, tied to the card its DeepDive covers. */
+export type EpisodePlayerChapter = EpisodeChapter & {
+  judgmentCardId: string | null;
+};
+
+export type EpisodeDetailRow = PublishedEpisodeRow & {
+  chapters: EpisodePlayerChapter[];
+  /** Sentence cues of the full script; empty unless the viewer can read it. */
+  transcript: TranscriptCue[];
+};
+
 type EpisodeQueryRow = {
   id: string;
   master_id: string | null;
@@ -51,6 +69,11 @@ type EpisodeQueryRow = {
   created_at: string;
 };
 
+type EpisodeDetailQueryRow = EpisodeQueryRow & {
+  duration_sec: number | null;
+  audio_sections: unknown;
+};
+
 type EpisodeJudgmentCardRow = {
   id: string;
   episode_id: string;
@@ -178,6 +201,32 @@ const mapPublicEpisodeRow = (
   });
 };
 
+/**
+ * Chapters follow every judgment card for their titles (the public chapters
+ * feed does the same), but only link cards the viewer can actually see.
+ */
+const buildPlayerChapters = (
+  episode: EpisodeDetailQueryRow,
+  audioSections: EpisodeAudioSection[] | null,
+  judgmentCards: JudgmentCard[],
+  visibleJudgmentCards: EpisodeJudgmentCardState[]
+): EpisodePlayerChapter[] => {
+  if (!episode.audio_url) return [];
+
+  return buildEpisodeChapters({
+    script: episode.script_polished?.trim() || episode.script?.trim() || null,
+    durationSec: episode.duration_sec,
+    audioSections,
+    judgmentCards
+  }).map((chapter) => ({
+    ...chapter,
+    judgmentCardId:
+      chapter.topicOrder === null
+        ? null
+        : (visibleJudgmentCards.find((card) => card.topic_order === chapter.topicOrder)?.id ?? null)
+  }));
+};
+
 const loadJudgmentCardsByEpisode = async (
   episodeIds: string[],
   genreFilter: string | null
@@ -298,7 +347,7 @@ export const loadPublishedEpisodeById = async (params: {
   episodeId: string;
   isPaid: boolean;
   userId?: string | null;
-}): Promise<{ episode: PublishedEpisodeRow | null; error: string | null }> => {
+}): Promise<{ episode: EpisodeDetailRow | null; error: string | null }> => {
   return loadEpisodeById(params, false);
 };
 
@@ -306,7 +355,7 @@ export const loadPublicEpisodeById = async (params: {
   episodeId: string;
   isPaid: boolean;
   userId?: string | null;
-}): Promise<{ episode: PublishedEpisodeRow | null; error: string | null }> => {
+}): Promise<{ episode: EpisodeDetailRow | null; error: string | null }> => {
   return loadEpisodeById(params, true);
 };
 
@@ -317,13 +366,13 @@ const loadEpisodeById = async (
     userId?: string | null;
   },
   previewArchivedEpisodes: boolean
-): Promise<{ episode: PublishedEpisodeRow | null; error: string | null }> => {
+): Promise<{ episode: EpisodeDetailRow | null; error: string | null }> => {
   try {
     const supabase = createServiceRoleClient();
     const { data, error } = await supabase
       .from("episodes")
       .select(
-        "id, master_id, lang, genre, status, title, description, script, script_polished, script_polished_preview, audio_url, published_at, created_at"
+        "id, master_id, lang, genre, status, title, description, script, script_polished, script_polished_preview, audio_url, duration_sec, audio_sections, published_at, created_at"
       )
       .eq("id", params.episodeId)
       .eq("status", "published")
@@ -337,7 +386,7 @@ const loadEpisodeById = async (
       };
     }
 
-    const episode = (data as EpisodeQueryRow | null) ?? null;
+    const episode = (data as EpisodeDetailQueryRow | null) ?? null;
     if (!episode) {
       return {
         episode: null,
@@ -363,15 +412,29 @@ const loadEpisodeById = async (
         )
       : { watchlist: new Map(), error: null };
 
-    return {
-      episode: (previewArchivedEpisodes ? mapPublicEpisodeRow : mapEpisodeRow)(
-        episode,
-        attachWatchlistState<SavedJudgmentCard>(
-          attachSavedDecisionState(judgmentCards, savedDecisions),
-          watchlist
-        ),
-        params.isPaid
+    const audioSections = parseEpisodeAudioSections(episode.audio_sections);
+    const mapped = (previewArchivedEpisodes ? mapPublicEpisodeRow : mapEpisodeRow)(
+      episode,
+      attachWatchlistState<SavedJudgmentCard>(
+        attachSavedDecisionState(judgmentCards, savedDecisions),
+        watchlist
       ),
+      params.isPaid
+    );
+
+    return {
+      episode: {
+        ...mapped,
+        chapters: buildPlayerChapters(episode, audioSections, judgmentCards, mapped.judgment_cards),
+        transcript:
+          episode.audio_url && mapped.full_script
+            ? buildTranscriptCues({
+                script: mapped.full_script,
+                durationSec: episode.duration_sec,
+                audioSections
+              })
+            : []
+      },
       error: judgmentError ?? savedDecisionsError ?? watchlistError
     };
   } catch (error) {
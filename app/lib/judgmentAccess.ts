@@ -1,4 +1,12 @@
-import type { JudgmentThresholdJson } from "@/src/lib/judgmentCards";
+import type { JudgmentThresholdEntry, JudgmentThresholdJson } from "@/src/lib/judgmentCards";
+import {
+  convertCurrency,
+  formatCurrencyAmount,
+  readThresholdEntryCurrency,
+  resolveFxRateTable,
+  resolveThresholdCurrency,
+  type FxRateTable
+} from "../../src/lib/currency.ts";
 
 type GateableJudgmentFields = {
   action_text: string | null;
@@ -28,11 +36,35 @@ export const lockJudgmentDetails = <T extends GateableJudgmentFields>(card: T):
   };
 };
 
-export const formatThresholdHighlights = (thresholdJson: JudgmentThresholdJson): string[] => {
+const formatConvertedAmount = (
+  entry: JudgmentThresholdEntry,
+  displayCurrency: string,
+  fxRates: FxRateTable,
+  locale: "ja" | "en"
+): string | null => {
+  const entryCurrency = readThresholdEntryCurrency(entry);
+  if (!entryCurrency || entryCurrency === displayCurrency) return null;
+
+  const converted = convertCurrency(entry.value, entryCurrency, displayCurrency, fxRates);
+  return converted === null ? null : formatCurrencyAmount(converted, displayCurrency, locale);
+};
+
+export const formatThresholdHighlights = (
+  thresholdJson: JudgmentThresholdJson,
+  options: { currency?: string; fxRates?: FxRateTable; locale?: "ja" | "en" } = {}
+): string[] => {
+  const displayCurrency = options.currency ?? resolveThresholdCurrency(thresholdJson);
+  const fxRates = options.fxRates ?? resolveFxRateTable();
+  const locale = options.locale ?? "ja";
   const lines = (Object.entries(THRESHOLD_LABELS) as Array<
     [keyof typeof THRESHOLD_LABELS, (typeof THRESHOLD_LABELS)[keyof typeof THRESHOLD_LABELS]]
   >).flatMap(([key, label]) =>
-    (thresholdJson[key] ?? []).map((entry) => `${entry.label ?? label}: ${entry.raw}`)
+    (thresholdJson[key] ?? []).map((entry) => {
+      const converted = formatConvertedAmount(entry, displayCurrency, fxRates, locale);
+      return converted
+        ? `${entry.label ?? label}: ${entry.raw}（約${converted}）`
+        : `${entry.label ?? label}: ${entry.raw}`;
+    })
   );
 
   return [...lines, ...(thresholdJson.other ?? [])].slice(0, 4);
@@ -0,0 +1,181 @@
+import type { LetterRecord, LetterSubmission } from "@/src/lib/letters";
+import { createServiceRoleClient } from "./supabaseClients";
+
+export type LetterModerationFilter = "pending" | "approved" | "blocked" | "all";
+
+export type LetterModerationItem = LetterRecord & {
+  user_id: string | null;
+  moderated_by: string | null;
+  tip_amount: number | null;
+};
+
+const LISTENER_LETTER_COLUMNS =
+  "id, display_name, text, category, moderation_status, is_used, is_blocked, blocked_reason, created_at, moderated_at";
+
+const MODERATION_LETTER_COLUMNS = `${LISTENER_LETTER_COLUMNS}, user_id, moderated_by, tip_amount`;
+
+const toErrorMessage = (error: unknown): string => {
+  return error instanceof Error ? error.message : "unknown_error";
+};
+
+export const loadUserLetters = async (
+  userId: string,
+  limit = 20
+): Promise<{ letters: LetterRecord[]; error: string | null }> => {
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from("letters")
+      .select(LISTENER_LETTER_COLUMNS)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    return {
+      letters: (data ?? []) as LetterRecord[],
+      error: error?.message ?? null
+    };
+  } catch (error) {
+    return { letters: [], error: toErrorMessage(error) };
+  }
+};
+
+export const countUserLettersSince = async (
+  userId: string,
+  sinceIso: string
+): Promise<{ count: number; error: string | null }> => {
+  try {
+    const supabase = createServiceRoleClient();
+    const { count, error } = await supabase
+      .from("letters")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .gte("created_at", sinceIso);
+
+    return {
+      count: count ?? 0,
+      error: error?.message ?? null
+    };
+  } catch (error) {
+    return { count: 0, error: toErrorMessage(error) };
+  }
+};
+
+export const insertUserLetter = async (
+  userId: string,
+  submission: LetterSubmission
+): Promise<{ letter: LetterRecord | null; error: string | null }> => {
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from("letters")
+      .insert({
+        user_id: userId,
+        display_name: submission.displayName,
+        text: submission.text,
+        category: submission.category,
+        moderation_status: "pending",
+        is_used: false,
+        is_blocked: false
+      })
+      .select(LISTENER_LETTER_COLUMNS)
+      .single();
+
+    return {
+      letter: (data as LetterRecord | null) ?? null,
+      error: error?.message ?? null
+    };
+  } catch (error) {
+    return { letter: null, error: toErrorMessage(error) };
+  }
+};
+
+export const loadLetterModerationQueue = async (
+  filter: LetterModerationFilter,
+  limit = 100
+): Promise<{ letters: LetterModerationItem[]; error: string | null }> => {
+  try {
+    const supabase = createServiceRoleClient();
+    let query = supabase
+      .from("letters")
+      .select(MODERATION_LETTER_COLUMNS)
+      .order("created_at", { ascending: filter === "pending" })
+      .limit(limit);
+
+    if (filter === "pending") {
+      query = query.in("moderation_status", ["pending", "needs_review"]).eq("is_blocked", false);
+    } else if (filter === "approved") {
+      query = query.eq("moderation_status", "ok").eq("is_blocked", false);
+    } else if (filter === "blocked") {
+      query = query.eq("is_blocked", true);
+    }
+
+    const { data, error } = await query;
+
+    return {
+      letters: (data ?? []) as LetterModerationItem[],
+      error: error?.message ?? null
+    };
+  } catch (error) {
+    return { letters: [], error: toErrorMessage(error) };
+  }
+};
+
+export const applyLetterModeration = async (params: {
+  letterId: string;
+  action: "approve" | "block";
+  reason: string | null;
+  moderatedBy: string;
+}): Promise<{ letter: LetterModerationItem | null; error: string | null }> => {
+  const update =
+    params.action === "approve"
+      ? { moderation_status: "ok", is_blocked: false, blocked_reason: null }
+      : { moderation_status: "reject", is_blocked: true, blocked_reason: params.reason };
+
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from("letters")
+      .update({
+        ...update,
+        moderated_at: new Date().toISOString(),
+        moderated_by: params.moderatedBy
+      })
+      .eq("id", params.letterId)
+      .eq("is_used", false)
+      .select(MODERATION_LETTER_COLUMNS)
+      .maybeSingle();
+
+    return {
+      letter: (data as LetterModerationItem | null) ?? null,
+      error: error?.message ?? null
+    };
+  } catch (error) {
+    return { letter: null, error: toErrorMessage(error) };
+  }
+};
+
+/** Loads one of the viewer's own letters; tips are only accepted for letters that can still air. */
+export const loadTippableUserLetter = async (
+  userId: string,
+  letterId: string
+): Promise<{ letter: LetterRecord | null; error: string | null }> => {
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from("letters")
+      .select(LISTENER_LETTER_COLUMNS)
+      .eq("id", letterId)
+      .eq("user_id", userId)
+      .eq("is_used", false)
+      .eq("is_blocked", false)
+      .maybeSingle();
+
+    return {
+      letter: (data as LetterRecord | null) ?? null,
+      error: error?.message ?? null
+    };
+  } catch (error) {
+    return { letter: null, error: toErrorMessage(error) };
+  }
+};
@@ -0,0 +1,123 @@
+import {
+  isListenComplete,
+  summarizeListeningProgress,
+  type ListeningProgressInput,
+  type ListeningProgressRecord,
+  type ListeningProgressSummary
+} from "@/src/lib/listeningProgress";
+import { createServiceRoleClient } from "./supabaseClients";
+
+const LISTENING_PROGRESS_COLUMNS = "episode_id, position_sec, duration_sec, completed_at, updated_at";
+
+const toErrorMessage = (error: unknown): string => {
+  return error instanceof Error ? error.message : "unknown_error";
+};
+
+/** Progress is kept only for episodes the episode pages show (published). */
+export const isListenableEpisode = async (
+  episodeId: string
+): Promise<{ listenable: boolean; error: string | null }> => {
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from("episodes")
+      .select("id")
+      .eq("id", episodeId)
+      .eq("status", "published")
+      .not("published_at", "is", null)
+      .maybeSingle();
+
+    if (error) {
+      return { listenable: false, error: error.message };
+    }
+
+    return { listenable: Boolean(data), error: null };
+  } catch (error) {
+    return { listenable: false, error: toErrorMessage(error) };
+  }
+};
+
+export const loadListeningProgress = async (
+  userId: string,
+  episodeIds: string[]
+): Promise<{ progressByEpisodeId: Record<string, ListeningProgressSummary>; error: string | null }> => {
+  const progressByEpisodeId: Record<string, ListeningProgressSummary> = {};
+  if (episodeIds.length === 0) {
+    return { progressByEpisodeId, error: null };
+  }
+
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from("listening_progress")
+      .select(LISTENING_PROGRESS_COLUMNS)
+      .eq("user_id", userId)
+      .in("episode_id", episodeIds);
+
+    if (error) {
+      return { progressByEpisodeId, error: error.message };
+    }
+
+    for (const row of (data as ListeningProgressRecord[] | null) ?? []) {
+      progressByEpisodeId[row.episode_id] = summarizeListeningProgress(row);
+    }
+
+    return { progressByEpisodeId, error: null };
+  } catch (error) {
+    return { progressByEpisodeId, error: toErrorMessage(error) };
+  }
+};
+
+/**
+ * Saves the latest position. `completedNow` is true only on the write that
+ * first marks the episode finished, so callers can record the completion once.
+ */
+export const saveListeningProgress = async (params: {
+  userId: string;
+  episodeId: string;
+  input: ListeningProgressInput;
+  now?: Date;
+}): Promise<{ progress: ListeningProgressSummary | null; completedNow: boolean; error: string | null }> => {
+  try {
+    const supabase = createServiceRoleClient();
+    const { data: existing, error: loadError } = await supabase
+      .from("listening_progress")
+      .select("completed_at")
+      .eq("user_id", params.userId)
+      .eq("episode_id", params.episodeId)
+      .maybeSingle();
+
+    if (loadError) {
+      return { progress: null, completedNow: false, error: loadError.message };
+    }
+
+    const previousCompletedAt = (existing as { completed_at: string | null } | null)?.completed_at ?? null;
+    const completedNow = !previousCompletedAt && isListenComplete(params.input);
+    const { data, error } = await supabase
+      .from("listening_progress")
+      .upsert(
+        {
+          user_id: params.userId,
+          episode_id: params.episodeId,
+          position_sec: params.input.positionSec,
+          duration_sec: params.input.durationSec,
+          completed_at: completedNow ? (params.now ?? new Date()).toISOString() : previousCompletedAt
+        },
+        { onConflict: "user_id,episode_id" }
+      )
+      .select(LISTENING_PROGRESS_COLUMNS)
+      .single();
+
+    if (error) {
+      return { progress: null, completedNow: false, error: error.message };
+    }
+
+    return {
+      progress: summarizeListeningProgress(data as ListeningProgressRecord),
+      completedNow,
+      error: null
+    };
+  } catch (error) {
+    return { progress: null, completedNow: false, error: toErrorMessage(error) };
+  }
+};
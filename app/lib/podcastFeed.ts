@@ -0,0 +1,166 @@
+import { resolveSpokenSections } from "@/src/lib/episodeChapters";
+import {
+  buildPodcastFeedXml,
+  isPodcastCompatibleAudioUrl,
+  resolveAbsoluteAudioUrl,
+  resolvePodcastFeedChannel,
+  type PodcastFeedLanguage
+} from "@/src/lib/podcastFeed";
+import { createServiceRoleClient } from "./supabaseClients";
+
+type EpisodeRow = {
+  id: string;
+  title: string | null;
+  description: string | null;
+  script: string | null;
+  script_polished: string | null;
+  script_polished_preview: string | null;
+  audio_url: string | null;
+  duration_sec: number | null;
+  published_at: string | null;
+  genre: string | null;
+  lang: PodcastFeedLanguage;
+};
+
+type JudgmentCardRow = {
+  episode_id: string;
+  topic_order: number;
+  topic_title: string;
+  judgment_summary: string | null;
+};
+
+const AUDIO_HEAD_TIMEOUT_MS = 5_000;
+
+const parseContentLength = (value: string | null): number | null => {
+  if (!value) return null;
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return null;
+  }
+  return parsed;
+};
+
+const parseContentRangeTotal = (value: string | null): number | null => {
+  if (!value) return null;
+  const match = value.match(/\/(\d+)$/);
+  if (!match) return null;
+  const parsed = Number.parseInt(match[1], 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return null;
+  }
+  return parsed;
+};
+
+const resolveAudioLengthBytes = async (audioUrl: string | null): Promise<number | null> => {
+  const absoluteAudioUrl = resolveAbsoluteAudioUrl(audioUrl);
+  if (!absoluteAudioUrl) return null;
+
+  try {
+    const headResponse = await fetch(absoluteAudioUrl, {
+      method: "HEAD",
+      cache: "no-store",
+      signal: AbortSignal.timeout(AUDIO_HEAD_TIMEOUT_MS)
+    });
+    const headLength = parseContentLength(headResponse.headers.get("content-length"));
+    if (headLength) {
+      return headLength;
+    }
+  } catch {
+    // Fall through to the range request below.
+  }
+
+  try {
+    const rangeResponse = await fetch(absoluteAudioUrl, {
+      method: "GET",
+      cache: "no-store",
+      headers: {
+        Range: "bytes=0-0"
+      },
+      signal: AbortSignal.timeout(AUDIO_HEAD_TIMEOUT_MS)
+    });
+    return (
+      parseContentRangeTotal(rangeResponse.headers.get("content-range")) ??
+      parseContentLength(rangeResponse.headers.get("content-length"))
+    );
+  } catch {
+    return null;
+  }
+};
+
+const FEED_EPISODE_LIMIT = 50;
+
+/**
+ * Builds the RSS response for one feed: the main Japanese feed, the English
+ * feed, or a Japanese per-genre feed. Judgment card titles and chapters come
+ * from the Japanese script, so they are only attached to Japanese items.
+ */
+export const buildPodcastFeedResponse = async (
+  params: { language?: PodcastFeedLanguage; genre?: string | null } = {}
+): Promise<Response> => {
+  const language = params.language ?? "ja";
+  const channel = resolvePodcastFeedChannel({ language, genre: params.genre });
+  const supabase = createServiceRoleClient();
+  let query = supabase
+    .from("episodes")
+    .select("id, title, description, script, script_polished, script_polished_preview, audio_url, duration_sec, published_at, genre, lang")
+    .eq("status", "published")
+    .eq("lang", language)
+    .not("audio_url", "is", null)
+    .not("published_at", "is", null);
+
+  if (channel.genre) {
+    query = query.eq("genre", channel.genre);
+  }
+
+  const { data: episodes, error } = await query.order("published_at", { ascending: false }).limit(FEED_EPISODE_LIMIT);
+
+  if (error) {
+    return new Response("Internal Server Error", { status: 500 });
+  }
+
+  const items = ((episodes as EpisodeRow[] | null) ?? []).filter((episode) =>
+    isPodcastCompatibleAudioUrl(episode.audio_url)
+  );
+  const episodeIds = language === "ja" ? items.map((episode) => episode.id) : [];
+  const { data: judgmentCards } =
+    episodeIds.length === 0
+      ? { data: [] as JudgmentCardRow[] }
+      : await supabase
+          .from("episode_judgment_cards")
+          .select("episode_id, topic_order, topic_title, judgment_summary")
+          .in("episode_id", episodeIds)
+          .order("topic_order", { ascending: true });
+  const judgmentCardsByEpisode = ((judgmentCards as JudgmentCardRow[] | null) ?? []).reduce(
+    (map, card) => {
+      const cards = map.get(card.episode_id) ?? [];
+      cards.push(card);
+      map.set(card.episode_id, cards);
+      return map;
+    },
+    new Map<string, JudgmentCardRow[]>()
+  );
+  const feedEpisodes = await Promise.all(
+    items.map(async (ep) => ({
+      id: ep.id,
+      title: ep.title,
+      description: ep.description,
+      previewText: ep.script_polished_preview,
+      audioUrl: ep.audio_url,
+      audioLengthBytes: await resolveAudioLengthBytes(ep.audio_url),
+      durationSec: ep.duration_sec,
+      publishedAt: ep.published_at,
+      genre: ep.genre,
+      hasScriptSections:
+        language === "ja" && resolveSpokenSections(ep.script_polished?.trim() || ep.script).length > 0,
+      judgmentCards: judgmentCardsByEpisode.get(ep.id) ?? []
+    }))
+  );
+  const xml = buildPodcastFeedXml(feedEpisodes, channel);
+
+  return new Response(xml, {
+    headers: {
+      "Content-Type": "application/rss+xml; charset=utf-8",
+      "Cache-Control": "public, max-age=3600, s-maxage=3600"
+    }
+  });
+};
@@ -0,0 +1,143 @@
+import type { PushSubscriptionInput } from "@/src/lib/pushNotifications";
+import { createServiceRoleClient } from "./supabaseClients";
+
+type PushSubscriptionRow = {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  failure_count: number;
+};
+
+export type StoredPushSubscription = PushSubscriptionInput & {
+  id: string;
+  userId: string;
+  failureCount: number;
+};
+
+const PUSH_SUBSCRIPTIONS_SELECT = "id, user_id, endpoint, p256dh, auth, failure_count";
+
+const toStoredSubscription = (row: PushSubscriptionRow): StoredPushSubscription => ({
+  id: row.id,
+  userId: row.user_id,
+  endpoint: row.endpoint,
+  p256dh: row.p256dh,
+  auth: row.auth,
+  failureCount: row.failure_count
+});
+
+/** Re-subscribing from the same browser (same endpoint) replaces the old row, even across accounts. */
+export const savePushSubscription = async (params: {
+  userId: string;
+  subscription: PushSubscriptionInput;
+  userAgent: string | null;
+}): Promise<{ error: string | null }> => {
+  try {
+    const supabase = createServiceRoleClient();
+    const { error } = await supabase.from("push_subscriptions").upsert(
+      {
+        user_id: params.userId,
+        endpoint: params.subscription.endpoint,
+        p256dh: params.subscription.p256dh,
+        auth: params.subscription.auth,
+        user_agent: params.userAgent?.slice(0, 300) ?? null,
+        failure_count: 0
+      },
+      { onConflict: "endpoint" }
+    );
+
+    return { error: error?.message ?? null };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "push_subscription_save_failed" };
+  }
+};
+
+export const deletePushSubscription = async (params: {
+  userId: string;
+  endpoint: string;
+}): Promise<{ error: string | null }> => {
+  try {
+    const supabase = createServiceRoleClient();
+    const { error } = await supabase
+      .from("push_subscriptions")
+      .delete()
+      .eq("user_id", params.userId)
+      .eq("endpoint", params.endpoint);
+
+    return { error: error?.message ?? null };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "push_subscription_delete_failed" };
+  }
+};
+
+export const loadPushSubscriptions = async (
+  userIds: string[]
+): Promise<{ subscriptionsByUserId: Map<string, StoredPushSubscription[]>; error: string | null }> => {
+  const subscriptionsByUserId = new Map<string, StoredPushSubscription[]>();
+  if (userIds.length === 0) {
+    return { subscriptionsByUserId, error: null };
+  }
+
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from("push_subscriptions")
+      .select(PUSH_SUBSCRIPTIONS_SELECT)
+      .in("user_id", userIds);
+
+    if (error) {
+      return { subscriptionsByUserId, error: error.message };
+    }
+
+    for (const row of (data as PushSubscriptionRow[] | null) ?? []) {
+      const list = subscriptionsByUserId.get(row.user_id) ?? [];
+      list.push(toStoredSubscription(row));
+      subscriptionsByUserId.set(row.user_id, list);
+    }
+
+    return { subscriptionsByUserId, error: null };
+  } catch (error) {
+    return {
+      subscriptionsByUserId,
+      error: error instanceof Error ? error.message : "push_subscriptions_load_failed"
+    };
+  }
+};
+
+/**
+ * Writes back the outcome of a send run: delivered subscriptions reset their
+ * failure count, failed ones keep counting, and gone ones are deleted.
+ */
+export const savePushSubscriptionResults = async (params: {
+  deliveredIds: string[];
+  failureCounts: Map<string, number>;
+  removedIds: string[];
+  now: Date;
+}): Promise<void> => {
+  const supabase = createServiceRoleClient();
+
+  if (params.removedIds.length > 0) {
+    const { error } = await supabase.from("push_subscriptions").delete().in("id", params.removedIds);
+    if (error) {
+      throw error;
+    }
+  }
+
+  if (params.deliveredIds.length > 0) {
+    const { error } = await supabase
+      .from("push_subscriptions")
+      .update({ failure_count: 0, last_success_at: params.now.toISOString() })
+      .in("id", params.deliveredIds);
+    if (error) {
+      throw error;
+    }
+  }
+
+  for (const [id, failureCount] of params.failureCounts) {
+    const { error } = await supabase.from("push_subscriptions").update({ failure_count: failureCount }).eq("id", id);
+    if (error) {
+      throw error;
+    }
+  }
+};
@@ -1,15 +1,18 @@
 /**
- * In-memory sliding-window rate limiter for API routes.
+ * Sliding-window rate limiter for API routes.
  *
  * Each limiter tracks requests per key (typically IP or userId)
  * within a configurable time window. When the limit is exceeded,
  * callers receive a structured result to return a 429 response.
  *
- * Limitations:
- * - State is per-process; resets on deploy/restart.
- * - Not shared across multiple server instances.
- *   → Upgrade to Redis (@upstash/ratelimit) when scaling horizontally.
+ * Storage is pluggable via `RateLimitStore`:
+ * - `memory` (default): per-process; resets on deploy/restart and is
+ *   not shared across server instances.
+ * - `postgres`: `public.rate_limit_events` + the `consume_rate_limit` RPC,
+ *   shared by every Vercel instance. Enable with RATE_LIMIT_STORE=postgres.
+ *   If the RPC fails, the limiter falls back to the in-memory store.
  */
+import { createServiceRoleClient } from "./supabaseClients.ts";
 
 type RateLimitEntry = {
   timestamps: number[];
@@ -22,60 +25,94 @@ type RateLimitConfig = {
   windowMs: number;
 };
 
-type RateLimitResult =
+export type RateLimitResult =
   | { allowed: true; remaining: number }
   | { allowed: false; remaining: 0; retryAfterMs: number };
 
-const stores = new Map<string, Map<string, RateLimitEntry>>();
+export type RateLimitConsumeParams = RateLimitConfig & {
+  /** Limiter name; keys are isolated per limiter. */
+  limiter: string;
+  key: string;
+};
+
+export type RateLimitStore = {
+  name: string;
+  /** Record a request for `key` unless its window is already full. */
+  consume: (params: RateLimitConsumeParams) => Promise<RateLimitResult>;
+};
+
+/** Minimal surface of the Supabase client used by the Postgres store. */
+export type RateLimitRpcClient = {
+  rpc: (
+    fn: string,
+    args: Record<string, unknown>
+  ) => PromiseLike<{ data: unknown; error: { message: string } | null }>;
+};
+
+type ConsumeRateLimitRow = {
+  allowed: boolean;
+  remaining: number;
+  retry_after_ms: number;
+};
+
+/** Retry-After never goes below one second, regardless of the store. */
+const MIN_RETRY_AFTER_MS = 1000;
 
 /** Interval for garbage-collecting expired entries (5 minutes). */
 const GC_INTERVAL_MS = 5 * 60 * 1000;
-let gcTimer: ReturnType<typeof setInterval> | null = null;
-
-const runGarbageCollection = () => {
-  const now = Date.now();
-  for (const [storeName, store] of stores) {
-    for (const [key, entry] of store) {
-      // Remove timestamps older than any conceivable window (10 min max)
-      entry.timestamps = entry.timestamps.filter((t) => now - t < 10 * 60 * 1000);
-      if (entry.timestamps.length === 0) {
-        store.delete(key);
-      }
-    }
-    if (store.size === 0) {
-      stores.delete(storeName);
-    }
-  }
-};
 
-const ensureGc = () => {
-  if (gcTimer) return;
-  gcTimer = setInterval(runGarbageCollection, GC_INTERVAL_MS);
-  // Allow Node process to exit even if timer is running
-  if (typeof gcTimer === "object" && "unref" in gcTimer) {
-    gcTimer.unref();
-  }
+const toRateLimitResult = (allowed: boolean, remaining: number, retryAfterMs: number): RateLimitResult => {
+  return allowed
+    ? { allowed: true, remaining: Math.max(remaining, 0) }
+    : { allowed: false, remaining: 0, retryAfterMs: Math.max(retryAfterMs, MIN_RETRY_AFTER_MS) };
 };
 
 /**
- * Create a named rate limiter with the given config.
- * Each limiter maintains its own independent store.
+ * In-memory store. Each instance keeps its own maps, so tests can create
+ * isolated stores while the app shares the module-level default.
  */
-export const createRateLimiter = (name: string, config: RateLimitConfig) => {
-  if (!stores.has(name)) {
-    stores.set(name, new Map());
-  }
-  const store = stores.get(name)!;
-  ensureGc();
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const stores = new Map<string, Map<string, RateLimitEntry>>();
+  let gcTimer: ReturnType<typeof setInterval> | null = null;
+
+  const runGarbageCollection = () => {
+    const now = Date.now();
+    for (const [storeName, store] of stores) {
+      for (const [key, entry] of store) {
+        // Remove timestamps older than any conceivable window (10 min max)
+        entry.timestamps = entry.timestamps.filter((t) => now - t < 10 * 60 * 1000);
+        if (entry.timestamps.length === 0) {
+          store.delete(key);
+        }
+      }
+      if (store.size === 0) {
+        stores.delete(storeName);
+      }
+    }
+  };
+
+  const ensureGc = () => {
+    if (gcTimer) return;
+    gcTimer = setInterval(runGarbageCollection, GC_INTERVAL_MS);
+    // Allow Node process to exit even if timer is running
+    if (typeof gcTimer === "object" && "unref" in gcTimer) {
+      gcTimer.unref();
+    }
+  };
 
   return {
-    /**
-     * Check if a request from `key` is allowed.
-     * @param key — typically IP address, userId, or a combination
-     */
-    check: (key: string): RateLimitResult => {
+    name: "memory",
+    consume: async ({ limiter, key, maxRequests, windowMs }) => {
+      ensureGc();
+
+      let store = stores.get(limiter);
+      if (!store) {
+        store = new Map();
+        stores.set(limiter, store);
+      }
+
       const now = Date.now();
-      const windowStart = now - config.windowMs;
+      const windowStart = now - windowMs;
 
       let entry = store.get(key);
       if (!entry) {
@@ -86,14 +123,86 @@ export const createRateLimiter = (name: string, config: RateLimitConfig) => {
       // Remove timestamps outside the window
       entry.timestamps = entry.timestamps.filter((t) => t > windowStart);
 
-      if (entry.timestamps.length >= config.maxRequests) {
-        const oldestInWindow = entry.timestamps[0];
-        const retryAfterMs = oldestInWindow + config.windowMs - now;
-        return { allowed: false, remaining: 0, retryAfterMs: Math.max(retryAfterMs, 1000) };
+      if (entry.timestamps.length >= maxRequests) {
+        const oldestInWindow = entry.timestamps[0] ?? now;
+        return toRateLimitResult(false, 0, oldestInWindow + windowMs - now);
       }
 
       entry.timestamps.push(now);
-      return { allowed: true, remaining: config.maxRequests - entry.timestamps.length };
+      return toRateLimitResult(true, maxRequests - entry.timestamps.length, 0);
+    }
+  };
+};
+
+/**
+ * Postgres store backed by the `consume_rate_limit` RPC. The RPC takes an
+ * advisory lock per (limiter, key), so concurrent instances count atomically.
+ */
+export const createPostgresRateLimitStore = (
+  getClient: () => RateLimitRpcClient = createServiceRoleClient
+): RateLimitStore => {
+  let client: RateLimitRpcClient | null = null;
+
+  return {
+    name: "postgres",
+    consume: async ({ limiter, key, maxRequests, windowMs }) => {
+      client ??= getClient();
+
+      const { data, error } = await client.rpc("consume_rate_limit", {
+        p_limiter: limiter,
+        p_key: key,
+        p_max_requests: maxRequests,
+        p_window_ms: windowMs
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const row = (Array.isArray(data) ? data[0] : data) as ConsumeRateLimitRow | null | undefined;
+      if (!row || typeof row.allowed !== "boolean") {
+        throw new Error("consume_rate_limit returned no row");
+      }
+
+      return toRateLimitResult(row.allowed, Number(row.remaining), Number(row.retry_after_ms));
+    }
+  };
+};
+
+const memoryStore = createMemoryRateLimitStore();
+let defaultStore: RateLimitStore | null = null;
+
+export const resolveRateLimitStore = (value = process.env.RATE_LIMIT_STORE): RateLimitStore => {
+  return value?.trim().toLowerCase() === "postgres" ? createPostgresRateLimitStore() : memoryStore;
+};
+
+const getDefaultStore = (): RateLimitStore => {
+  defaultStore ??= resolveRateLimitStore();
+  return defaultStore;
+};
+
+/**
+ * Create a named rate limiter with the given config.
+ * Each limiter name keeps its own keys inside the store.
+ */
+export const createRateLimiter = (name: string, config: RateLimitConfig, store?: RateLimitStore) => {
+  return {
+    /**
+     * Check if a request from `key` is allowed.
+     * @param key — typically IP address, userId, or a combination
+     */
+    check: async (key: string): Promise<RateLimitResult> => {
+      const activeStore = store ?? getDefaultStore();
+      const params = { limiter: name, key, ...config };
+
+      try {
+        return await activeStore.consume(params);
+      } catch (error) {
+        if (activeStore === memoryStore) throw error;
+
+        console.error("rate_limit_store_error", { store: activeStore.name, limiter: name, error });
+        return memoryStore.consume(params);
+      }
     }
   };
 };
@@ -2,21 +2,29 @@ import {
   DEFAULT_USER_NOTIFICATION_PREFERENCES,
   type UserNotificationPreferences
 } from "@/src/lib/alerts";
+import type { EmailUnsubscribeScope, NotificationPreferenceChangeSource } from "@/src/lib/emailUnsubscribe";
 import { createServiceRoleClient } from "./supabaseClients";
 
 type UserNotificationPreferencesRow = {
   weekly_digest_enabled: boolean;
   deadline_alert_enabled: boolean;
   outcome_reminder_enabled: boolean;
+  timezone: string | null;
+  delivery_window_start_hour: number | null;
+  delivery_window_end_hour: number | null;
+  quiet_hours_start_hour: number | null;
+  quiet_hours_end_hour: number | null;
+  daily_bundle_enabled: boolean | null;
+  push_enabled: boolean | null;
   created_at: string;
   updated_at: string;
 };
 
 const USER_NOTIFICATION_PREFERENCES_SELECT =
-  "weekly_digest_enabled, deadline_alert_enabled, outcome_reminder_enabled, created_at, updated_at";
+  "weekly_digest_enabled, deadline_alert_enabled, outcome_reminder_enabled, timezone, delivery_window_start_hour, delivery_window_end_hour, quiet_hours_start_hour, quiet_hours_end_hour, daily_bundle_enabled, push_enabled, created_at, updated_at";
 
 const normalizeRow = (
-  row: UserNotificationPreferencesRow | null | undefined
+  row: Omit<UserNotificationPreferencesRow, "created_at" | "updated_at"> | null | undefined
 ): UserNotificationPreferences => {
   if (!row) {
     return DEFAULT_USER_NOTIFICATION_PREFERENCES;
@@ -25,7 +33,14 @@ const normalizeRow = (
   return {
     weeklyDigestEnabled: Boolean(row.weekly_digest_enabled),
     deadlineAlertEnabled: Boolean(row.deadline_alert_enabled),
-    outcomeReminderEnabled: Boolean(row.outcome_reminder_enabled)
+    outcomeReminderEnabled: Boolean(row.outcome_reminder_enabled),
+    timezone: row.timezone ?? DEFAULT_USER_NOTIFICATION_PREFERENCES.timezone,
+    deliveryWindowStartHour: row.delivery_window_start_hour ?? DEFAULT_USER_NOTIFICATION_PREFERENCES.deliveryWindowStartHour,
+    deliveryWindowEndHour: row.delivery_window_end_hour ?? DEFAULT_USER_NOTIFICATION_PREFERENCES.deliveryWindowEndHour,
+    quietHoursStartHour: row.quiet_hours_start_hour ?? null,
+    quietHoursEndHour: row.quiet_hours_end_hour ?? null,
+    dailyBundleEnabled: Boolean(row.daily_bundle_enabled),
+    pushEnabled: row.push_enabled ?? DEFAULT_USER_NOTIFICATION_PREFERENCES.pushEnabled
   };
 };
 
@@ -72,7 +87,14 @@ export const upsertUserNotificationPreferences = async (
           user_id: userId,
           weekly_digest_enabled: preferences.weeklyDigestEnabled,
           deadline_alert_enabled: preferences.deadlineAlertEnabled,
-          outcome_reminder_enabled: preferences.outcomeReminderEnabled
+          outcome_reminder_enabled: preferences.outcomeReminderEnabled,
+          timezone: preferences.timezone,
+          delivery_window_start_hour: preferences.deliveryWindowStartHour,
+          delivery_window_end_hour: preferences.deliveryWindowEndHour,
+          quiet_hours_start_hour: preferences.quietHoursStartHour,
+          quiet_hours_end_hour: preferences.quietHoursEndHour,
+          daily_bundle_enabled: preferences.dailyBundleEnabled,
+          push_enabled: preferences.pushEnabled
         },
         {
           onConflict: "user_id"
@@ -99,3 +121,90 @@ export const upsertUserNotificationPreferences = async (
     };
   }
 };
+
+export type AlertRecipientPreferences = {
+  preferences: UserNotificationPreferences;
+  dailyBundleSentAt: string | null;
+};
+
+/**
+ * Preferences for the alert senders. Users without a row get the defaults
+ * (everything on, any time), so they are left out of the map.
+ */
+export const loadAlertRecipientPreferences = async (
+  userIds: string[]
+): Promise<{ recipients: Map<string, AlertRecipientPreferences>; error: string | null }> => {
+  const recipients = new Map<string, AlertRecipientPreferences>();
+  if (userIds.length === 0) {
+    return { recipients, error: null };
+  }
+
+  type RecipientRow = Omit<UserNotificationPreferencesRow, "created_at" | "updated_at"> & {
+    user_id: string;
+    daily_bundle_sent_at: string | null;
+  };
+
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from("user_notification_preferences")
+      .select(
+        "user_id, weekly_digest_enabled, deadline_alert_enabled, outcome_reminder_enabled, timezone, delivery_window_start_hour, delivery_window_end_hour, quiet_hours_start_hour, quiet_hours_end_hour, daily_bundle_enabled, push_enabled, daily_bundle_sent_at"
+      )
+      .in("user_id", userIds);
+
+    if (error) {
+      return { recipients, error: error.message };
+    }
+
+    for (const row of (data as RecipientRow[] | null) ?? []) {
+      recipients.set(row.user_id, {
+        preferences: normalizeRow(row),
+        dailyBundleSentAt: row.daily_bundle_sent_at
+      });
+    }
+
+    return { recipients, error: null };
+  } catch (error) {
+    return {
+      recipients,
+      error: error instanceof Error ? error.message : "user_notification_preferences_load_failed"
+    };
+  }
+};
+
+export const markDailyBundleSent = async (userId: string, sentAt: string): Promise<void> => {
+  const supabase = createServiceRoleClient();
+  const { error } = await supabase
+    .from("user_notification_preferences")
+    .update({ daily_bundle_sent_at: sentAt })
+    .eq("user_id", userId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+/** Appends to `notification_preference_changes`; `changes` comes from describeNotificationPreferenceChanges. */
+export const recordNotificationPreferenceChange = async (params: {
+  userId: string;
+  source: NotificationPreferenceChangeSource;
+  scope?: EmailUnsubscribeScope | null;
+  before: UserNotificationPreferences;
+  after: UserNotificationPreferences;
+  changes: string[];
+}): Promise<void> => {
+  const supabase = createServiceRoleClient();
+  const { error } = await supabase.from("notification_preference_changes").insert({
+    user_id: params.userId,
+    source: params.source,
+    scope: params.scope ?? null,
+    changes: params.changes,
+    before_preferences: params.before,
+    after_preferences: params.after
+  });
+
+  if (error) {
+    throw error;
+  }
+};
@@ -1,4 +1,5 @@
-import type { JudgmentType } from "@/src/lib/judgmentCards";
+import type { DecisionOutcome } from "@/src/lib/decisionProfile";
+import type { JudgmentThresholdJson, JudgmentType } from "@/src/lib/judgmentCards";
 import {
   applyWatchlistFilters,
   resolveWatchlistUrgency,
@@ -16,6 +17,7 @@ type WatchlistCardLookupRow = {
   judgment_type: JudgmentType;
   frame_type: string | null;
   genre: string | null;
+  threshold_json: JudgmentThresholdJson | null;
   deadline_at: string | null;
 };
 
@@ -28,6 +30,7 @@ type WatchlistEpisodeLookupRow = {
 type WatchlistDecisionLookupRow = {
   id: string;
   judgment_card_id: string;
+  outcome: DecisionOutcome | null;
 };
 
 export type WatchlistEntry = WatchlistRecord & {
@@ -35,11 +38,13 @@ export type WatchlistEntry = WatchlistRecord & {
   judgment_type: JudgmentType;
   frame_type: string | null;
   genre: string | null;
+  threshold_json: JudgmentThresholdJson;
   deadline_at: string | null;
   urgency: WatchlistUrgency;
   episode_title: string | null;
   episode_published_at: string | null;
   history_decision_id: string | null;
+  history_outcome: DecisionOutcome | null;
 };
 
 export type WatchlistResult = {
@@ -212,13 +217,13 @@ export const loadUserWatchlist = async (params: {
     ] = await Promise.all([
       batchIn(
         (ids) =>
-          supabase.from("episode_judgment_cards").select("id, topic_title, judgment_type, frame_type, genre, deadline_at").in("id", ids),
+          supabase.from("episode_judgment_cards").select("id, topic_title, judgment_type, frame_type, genre, threshold_json, deadline_at").in("id", ids),
         judgmentCardIds
       ),
       batchIn((ids) => supabase.from("episodes").select("id, title, published_at").in("id", ids), episodeIds),
       batchIn(
         (ids) =>
-          supabase.from("user_decisions").select("id, judgment_card_id").eq("user_id", params.userId).in("judgment_card_id", ids),
+          supabase.from("user_decisions").select("id, judgment_card_id, outcome").eq("user_id", params.userId).in("judgment_card_id", ids),
         judgmentCardIds
       )
     ]);
@@ -265,9 +270,9 @@ export const loadUserWatchlist = async (params: {
       return map;
     }, new Map<string, WatchlistEpisodeLookupRow>());
     const decisions = ((decisionsData as WatchlistDecisionLookupRow[] | null) ?? []).reduce((map, decision) => {
-      map.set(decision.judgment_card_id, decision.id);
+      map.set(decision.judgment_card_id, decision);
       return map;
-    }, new Map<string, string>());
+    }, new Map<string, WatchlistDecisionLookupRow>());
 
     const items = watchlistRows.flatMap((item) => {
       const card = cards.get(item.judgment_card_id);
@@ -282,11 +287,13 @@ export const loadUserWatchlist = async (params: {
           judgment_type: card.judgment_type,
           frame_type: card.frame_type,
           genre: card.genre,
+          threshold_json: card.threshold_json ?? {},
           deadline_at: card.deadline_at,
           urgency: resolveWatchlistUrgency(card.deadline_at),
           episode_title: episode?.title ?? null,
           episode_published_at: episode?.published_at ?? null,
-          history_decision_id: decisions.get(item.judgment_card_id) ?? null
+          history_decision_id: decisions.get(item.judgment_card_id)?.id ?? null,
+          history_outcome: decisions.get(item.judgment_card_id)?.outcome ?? null
         } satisfies WatchlistEntry
       ];
     });
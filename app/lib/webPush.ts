@@ -0,0 +1,195 @@
+import {
+  createCipheriv,
+  createECDH,
+  createPrivateKey,
+  hkdfSync,
+  randomBytes,
+  sign
+} from "node:crypto";
+import type { PushSubscriptionInput } from "../../src/lib/pushNotifications.ts";
+
+/**
+ * Minimal Web Push sender: VAPID (RFC 8292) and aes128gcm payload
+ * encryption (RFC 8291), on node:crypto only.
+ */
+
+export type VapidKeys = {
+  /** Uncompressed P-256 public key, base64url. Also handed to the browser. */
+  publicKey: string;
+  /** P-256 private scalar, base64url. */
+  privateKey: string;
+};
+
+export type VapidConfig = VapidKeys & {
+  /** `mailto:` or `https:` contact for push services. */
+  subject: string;
+};
+
+export type WebPushResult =
+  | { ok: true; status: number }
+  | {
+      ok: false;
+      status: number | null;
+      error: string;
+      /** The push service says the subscription is gone; delete it. */
+      expired: boolean;
+    };
+
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+const RECORD_SIZE = 4096;
+// Record size minus the padding delimiter and the GCM tag.
+const MAX_PAYLOAD_BYTES = RECORD_SIZE - 17;
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+export const resolveVapidConfig = (): VapidConfig | null => {
+  const publicKey = process.env.VAPID_PUBLIC_KEY?.trim();
+  const privateKey = process.env.VAPID_PRIVATE_KEY?.trim();
+  const subject = process.env.VAPID_SUBJECT?.trim();
+
+  if (!publicKey || !privateKey || !subject) {
+    return null;
+  }
+
+  return { publicKey, privateKey, subject };
+};
+
+export const generateVapidKeys = (): VapidKeys => {
+  const ecdh = createECDH("prime256v1");
+  ecdh.generateKeys();
+
+  return {
+    publicKey: ecdh.getPublicKey().toString("base64url"),
+    privateKey: ecdh.getPrivateKey().toString("base64url")
+  };
+};
+
+const toVapidPrivateKey = (keys: VapidKeys) => {
+  const publicKey = Buffer.from(keys.publicKey, "base64url");
+  if (publicKey.length !== 65 || publicKey[0] !== 0x04) {
+    throw new Error("invalid_vapid_public_key");
+  }
+
+  return createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: keys.privateKey,
+      x: publicKey.subarray(1, 33).toString("base64url"),
+      y: publicKey.subarray(33).toString("base64url")
+    },
+    format: "jwk"
+  });
+};
+
+/** `Authorization` header value for a push to `endpoint`. */
+export const createVapidAuthorization = (
+  endpoint: string,
+  config: VapidConfig,
+  now = Date.now()
+): string => {
+  const header = Buffer.from(JSON.stringify({ typ: "JWT", alg: "ES256" })).toString("base64url");
+  const claims = Buffer.from(
+    JSON.stringify({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(now / 1000) + VAPID_TOKEN_TTL_SECONDS,
+      sub: config.subject
+    })
+  ).toString("base64url");
+  const signature = sign("sha256", Buffer.from(`${header}.${claims}`), {
+    key: toVapidPrivateKey(config),
+    dsaEncoding: "ieee-p1363"
+  }).toString("base64url");
+
+  return `vapid t=${header}.${claims}.${signature}, k=${config.publicKey}`;
+};
+
+const hkdf = (salt: Buffer, ikm: Buffer, info: Buffer, length: number): Buffer => {
+  return Buffer.from(hkdfSync("sha256", ikm, salt, info, length));
+};
+
+/** Encrypts one push message for a subscription (single aes128gcm record). */
+export const encryptPushPayload = (
+  payload: string,
+  subscription: Pick<PushSubscriptionInput, "p256dh" | "auth">
+): Buffer => {
+  const plaintext = Buffer.from(payload, "utf8");
+  if (plaintext.length > MAX_PAYLOAD_BYTES) {
+    throw new Error("push_payload_too_large");
+  }
+
+  const userAgentPublicKey = Buffer.from(subscription.p256dh, "base64url");
+  const authSecret = Buffer.from(subscription.auth, "base64url");
+  const ecdh = createECDH("prime256v1");
+  ecdh.generateKeys();
+  const serverPublicKey = ecdh.getPublicKey();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), userAgentPublicKey, serverPublicKey]);
+  const inputKeyMaterial = hkdf(authSecret, sharedSecret, keyInfo, 32);
+  const salt = randomBytes(16);
+  const contentKey = hkdf(salt, inputKeyMaterial, Buffer.from("Content-Encoding: aes128gcm\0"), 16);
+  const nonce = hkdf(salt, inputKeyMaterial, Buffer.from("Content-Encoding: nonce\0"), 12);
+
+  const cipher = createCipheriv("aes-128-gcm", contentKey, nonce);
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([plaintext, Buffer.from([0x02])])), cipher.final()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, ciphertext, cipher.getAuthTag()]);
+};
+
+export const sendWebPush = async (
+  subscription: PushSubscriptionInput,
+  payload: string,
+  config: VapidConfig,
+  options: { urgency?: "very-low" | "low" | "normal" | "high" } = {}
+): Promise<WebPushResult> => {
+  let body: Buffer;
+  let authorization: string;
+  try {
+    body = encryptPushPayload(payload, subscription);
+    authorization = createVapidAuthorization(subscription.endpoint, config);
+  } catch (error) {
+    return {
+      ok: false,
+      status: null,
+      error: error instanceof Error ? error.message : "web_push_encrypt_failed",
+      expired: false
+    };
+  }
+
+  try {
+    const response = await fetch(subscription.endpoint, {
+      method: "POST",
+      headers: {
+        Authorization: authorization,
+        "Content-Encoding": "aes128gcm",
+        "Content-Type": "application/octet-stream",
+        TTL: String(PUSH_TTL_SECONDS),
+        Urgency: options.urgency ?? "normal"
+      },
+      body: new Uint8Array(body)
+    });
+
+    if (response.ok) {
+      return { ok: true, status: response.status };
+    }
+
+    return {
+      ok: false,
+      status: response.status,
+      error: `web_push_http_${response.status}`,
+      expired: response.status === 404 || response.status === 410
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      status: null,
+      error: error instanceof Error ? error.message : "web_push_request_failed",
+      expired: false
+    };
+  }
+};
@@ -1,5 +1,5 @@
 import type { JudgmentType } from "@/src/lib/judgmentCards";
-import { buildWeeklyDecisionDigest } from "@/src/lib/weeklyDecisionDigest";
+import { buildWeeklyDecisionDigest, FREE_WEEKLY_DIGEST_PREVIEW_LIMIT } from "@/src/lib/weeklyDecisionDigest";
 import { createServiceRoleClient } from "./supabaseClients";
 
 type JoinedEpisodeRow = {
@@ -121,7 +121,7 @@ export const loadWeeklyDecisionDigest = async (params: {
       })
       .filter((card): card is WeeklyDecisionDigestItem => Boolean(card));
 
-    const summary = buildWeeklyDecisionDigest(cards, params.isPaid ? null : 1);
+    const summary = buildWeeklyDecisionDigest(cards, params.isPaid ? null : FREE_WEEKLY_DIGEST_PREVIEW_LIMIT);
 
     return {
       digest: {
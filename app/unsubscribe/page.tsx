@@ -0,0 +1,68 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import UnsubscribeConfirm from "@/app/components/UnsubscribeConfirm";
+import styles from "@/app/legal/legal-page.module.css";
+import { readEmailUnsubscribeToken } from "@/app/lib/emailUnsubscribe";
+import { EMAIL_UNSUBSCRIBE_SCOPE_LABELS } from "@/src/lib/emailUnsubscribe";
+
+export const metadata: Metadata = {
+  title: "メール配信の停止",
+  robots: { index: false, follow: false }
+};
+
+export const dynamic = "force-dynamic";
+
+type SearchParams = {
+  token?: string | string[];
+};
+
+const readParam = (value: string | string[] | undefined): string | null => {
+  if (Array.isArray(value)) {
+    return value[0] ?? null;
+  }
+
+  return value ?? null;
+};
+
+export default async function UnsubscribePage({
+  searchParams
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const params = await searchParams;
+  const token = readParam(params.token);
+  const verified = readEmailUnsubscribeToken(token);
+
+  return (
+    <main className={styles.page}>
+      <div className={styles.shell}>
+        <section className={styles.hero}>
+          <p className={styles.eyebrow}>Unsubscribe</p>
+          <h1>メール配信の停止</h1>
+          {verified.ok && token ? (
+            <>
+              <p className={styles.lead}>
+                「{EMAIL_UNSUBSCRIBE_SCOPE_LABELS[verified.payload.scope]}」のメールを停止します。ログインは不要です。
+              </p>
+              <UnsubscribeConfirm token={token} scopeLabel={EMAIL_UNSUBSCRIBE_SCOPE_LABELS[verified.payload.scope]} />
+            </>
+          ) : (
+            <p className={styles.warning}>
+              {!verified.ok && verified.error === "unsubscribe_token_expired"
+                ? "このリンクは有効期限が切れています。"
+                : "このリンクは無効です。"}
+              ログインして通知設定から変更してください。
+            </p>
+          )}
+          <p className={styles.muted}>
+            ほかの通知は{" "}
+            <Link href="/account" className={styles.link}>
+              アカウントの通知設定
+            </Link>{" "}
+            からいつでも変更できます。
+          </p>
+        </section>
+      </div>
+    </main>
+  );
+}
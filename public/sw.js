@@ -0,0 +1,65 @@
+/*
+ * Service worker for alert Web Push. Payload shape: `AlertPushPayload` in
+ * src/lib/pushNotifications.ts.
+ */
+
+self.addEventListener("push", (event) => {
+  if (!event.data) {
+    return;
+  }
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch {
+    return;
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      tag: payload.tag,
+      data: {
+        url: payload.url,
+        alertId: payload.alertId,
+        alertType: payload.alertType
+      }
+    })
+  );
+});
+
+const trackPushClick = (data) => {
+  return fetch("/api/analytics/track", {
+    method: "POST",
+    credentials: "same-origin",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      eventName: "push_click",
+      properties: {
+        source: "web_push",
+        alert_id: data.alertId,
+        alert_type: data.alertType
+      }
+    })
+  }).catch(() => undefined);
+};
+
+const openAlertUrl = async (url) => {
+  const target = new URL(url || "/alerts", self.location.origin).href;
+  const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+
+  for (const client of windows) {
+    if (client.url === target && "focus" in client) {
+      return client.focus();
+    }
+  }
+
+  return self.clients.openWindow(target);
+};
+
+self.addEventListener("notificationclick", (event) => {
+  const data = event.notification.data || {};
+  event.notification.close();
+
+  event.waitUntil(Promise.all([trackPushClick(data), openAlertUrl(data.url)]));
+});
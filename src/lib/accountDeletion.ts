@@ -0,0 +1,148 @@
+/**
+ * Self-serve account deletion and personal data download.
+ *
+ * Deletion is two-step: a 6-digit code is emailed to the account address and
+ * must be entered together with ACCOUNT_DELETION_CONFIRM_PHRASE. Only then are
+ * Stripe subscriptions cancelled and user rows purged or anonymised.
+ */
+
+export const ACCOUNT_DELETION_CODE_TTL_MINUTES = 15;
+export const ACCOUNT_DELETION_MAX_ATTEMPTS = 5;
+export const ACCOUNT_DELETION_RESEND_COOLDOWN_SECONDS = 60;
+export const ACCOUNT_DELETION_CONFIRM_PHRASE = "削除する";
+
+/** Tables whose rows are deleted outright, keyed by `user_id`. */
+export const ACCOUNT_PURGE_TABLES = [
+  "user_alerts",
+  "user_notification_preferences",
+  "notification_preference_changes",
+  "listening_progress",
+  "calendar_feeds",
+  "user_decision_frames",
+  "user_watchlist_items",
+  "user_decisions",
+  "user_generated_cards",
+  "user_preferences",
+  "account_security_notification_state",
+  "admin_access_attempts",
+  "admin_access_challenges",
+  "push_subscriptions",
+  "account_deletion_requests",
+  "email_outbox",
+  "subscriptions",
+  "profiles"
+] as const;
+
+/** Tables included in the personal data download, keyed by `user_id`. */
+export const PERSONAL_DATA_TABLES = [
+  "profiles",
+  "subscriptions",
+  "user_preferences",
+  "user_notification_preferences",
+  "notification_preference_changes",
+  "user_alerts",
+  "listening_progress",
+  "user_decision_frames",
+  "push_subscriptions",
+  "calendar_feeds",
+  "account_security_notification_state",
+  "analytics_events",
+  "letters",
+  "email_outbox"
+] as const;
+
+export type PersonalDataTable = (typeof PERSONAL_DATA_TABLES)[number];
+
+/**
+ * Per-user tables left out of the download on purpose: decisions, watchlist
+ * and generated cards are in `decision_export`; the rest are admin security
+ * logs and the pending deletion code.
+ */
+export const PERSONAL_DATA_EXCLUDED_TABLES = [
+  "user_decisions",
+  "user_watchlist_items",
+  "user_generated_cards",
+  "admin_access_attempts",
+  "admin_access_challenges",
+  "account_deletion_requests"
+] as const;
+
+/** Display name left on letters that are kept (aired or tipped) after deletion. */
+export const DELETED_LISTENER_DISPLAY_NAME = "退会済みリスナー";
+
+export const PERSONAL_DATA_EXPORT_KIND = "personal_data_export";
+export const PERSONAL_DATA_EXPORT_VERSION = 1;
+
+export type PersonalDataArchive = {
+  kind: typeof PERSONAL_DATA_EXPORT_KIND;
+  version: typeof PERSONAL_DATA_EXPORT_VERSION;
+  exported_at: string;
+  user: {
+    id: string;
+    email: string | null;
+  };
+  tables: Record<PersonalDataTable, Record<string, unknown>[]>;
+  decision_export: unknown;
+};
+
+const CANCELLABLE_SUBSCRIPTION_STATUSES = new Set(["active", "trialing", "past_due", "unpaid", "incomplete"]);
+
+export const isCancellableSubscriptionStatus = (status: string | null | undefined): boolean => {
+  return Boolean(status && CANCELLABLE_SUBSCRIPTION_STATUSES.has(status));
+};
+
+export const resolveDeletionResendCooldownSeconds = (sentAt: string | null | undefined, now = new Date()): number => {
+  if (!sentAt) return 0;
+
+  const sentAtMs = new Date(sentAt).getTime();
+  if (!Number.isFinite(sentAtMs)) return 0;
+
+  const remaining = ACCOUNT_DELETION_RESEND_COOLDOWN_SECONDS - Math.floor((now.getTime() - sentAtMs) / 1000);
+  return remaining > 0 ? remaining : 0;
+};
+
+export const buildPersonalDataArchive = (params: {
+  userId: string;
+  email: string | null;
+  tables: Partial<Record<PersonalDataTable, Record<string, unknown>[]>>;
+  decisionExport: unknown;
+  now?: Date;
+}): PersonalDataArchive => {
+  return {
+    kind: PERSONAL_DATA_EXPORT_KIND,
+    version: PERSONAL_DATA_EXPORT_VERSION,
+    exported_at: (params.now ?? new Date()).toISOString(),
+    user: {
+      id: params.userId,
+      email: params.email
+    },
+    tables: PERSONAL_DATA_TABLES.reduce(
+      (tables, table) => {
+        tables[table] = params.tables[table] ?? [];
+        return tables;
+      },
+      {} as Record<PersonalDataTable, Record<string, unknown>[]>
+    ),
+    decision_export: params.decisionExport
+  };
+};
+
+/** Lines for the deletion confirmation sent through notifyAccountChange. */
+export const describeAccountDeletion = (params: {
+  cancelledSubscriptionCount: number;
+  anonymisedLetterCount: number;
+}): string[] => {
+  const changes = ["アカウントと、履歴・ウォッチリスト・通知設定などの関連データを削除しました。"];
+
+  if (params.cancelledSubscriptionCount > 0) {
+    changes.push(`有料プランのサブスクリプション ${params.cancelledSubscriptionCount} 件を解約しました。以降の請求は発生しません。`);
+  }
+
+  if (params.anonymisedLetterCount > 0) {
+    changes.push(
+      `番組で紹介済み、またはチップ付きのお便り ${params.anonymisedLetterCount} 件は、ラジオネームを「${DELETED_LISTENER_DISPLAY_NAME}」に置き換えて匿名化しました。`
+    );
+  }
+
+  return changes;
+};
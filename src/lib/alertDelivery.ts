@@ -0,0 +1,243 @@
+import {
+  DEFAULT_USER_NOTIFICATION_PREFERENCES,
+  type AlertType,
+  type UserNotificationPreferences
+} from "./alerts.ts";
+
+/**
+ * When alert emails may go out, per user.
+ *
+ * Hours are local to `timezone`. The delivery window is `[start, end)` and
+ * may wrap midnight (e.g. 21 → 2); 0 → 24 means any time. Quiet hours are
+ * carved out of the window and also may wrap (22 → 7 is the usual case).
+ * Cron runs outside the allowed hours leave alerts unsent with a
+ * `deliver_after` at the next allowed time; runs before then skip them.
+ */
+
+export const DEFAULT_NOTIFICATION_TIMEZONE = DEFAULT_USER_NOTIFICATION_PREFERENCES.timezone;
+
+export type NotificationDeliverySchedule = Pick<
+  UserNotificationPreferences,
+  | "timezone"
+  | "deliveryWindowStartHour"
+  | "deliveryWindowEndHour"
+  | "quietHoursStartHour"
+  | "quietHoursEndHour"
+  | "dailyBundleEnabled"
+>;
+
+export type AlertDeliveryDecision =
+  | { send: true }
+  | { send: false; reason: "outside_delivery_window" | "quiet_hours" };
+
+/** Alert types merged into one email per day when `dailyBundleEnabled` is on. */
+export const DAILY_BUNDLE_ALERT_TYPES: readonly AlertType[] = [
+  "deadline_due_soon",
+  "watchlist_due_soon",
+  "outcome_reminder"
+];
+
+export const isDailyBundleAlertType = (alertType: AlertType): boolean => {
+  return DAILY_BUNDLE_ALERT_TYPES.includes(alertType);
+};
+
+/** Channels an alert can be delivered on besides the `/alerts` inbox. */
+export const ALERT_DELIVERY_CHANNELS = ["email", "push"] as const;
+export type AlertDeliveryChannel = (typeof ALERT_DELIVERY_CHANNELS)[number];
+
+export const isAlertTypeEnabled = (alertType: AlertType, preferences: UserNotificationPreferences): boolean => {
+  switch (alertType) {
+    case "deadline_due_soon":
+    case "watchlist_due_soon":
+      return preferences.deadlineAlertEnabled;
+    case "outcome_reminder":
+      return preferences.outcomeReminderEnabled;
+    case "weekly_digest_ready":
+      return preferences.weeklyDigestEnabled;
+  }
+};
+
+export const isAlertChannelEnabled = (
+  channel: AlertDeliveryChannel,
+  alertType: AlertType,
+  preferences: UserNotificationPreferences
+): boolean => {
+  if (channel === "push" && !preferences.pushEnabled) {
+    return false;
+  }
+
+  return isAlertTypeEnabled(alertType, preferences);
+};
+
+export const isValidTimeZone = (value: unknown): value is string => {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    return false;
+  }
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const resolveTimeZone = (value: string | null | undefined): string => {
+  return value && isValidTimeZone(value) ? value : DEFAULT_NOTIFICATION_TIMEZONE;
+};
+
+export const resolveLocalHour = (date: Date, timezone: string): number => {
+  const hour = new Intl.DateTimeFormat("en-US", {
+    hour: "numeric",
+    hourCycle: "h23",
+    timeZone: resolveTimeZone(timezone)
+  }).format(date);
+
+  return Number(hour);
+};
+
+/** `YYYY-MM-DD` in the user's timezone; one daily bundle per local date. */
+export const resolveLocalDateKey = (date: Date, timezone: string): string => {
+  return new Intl.DateTimeFormat("en-CA", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    timeZone: resolveTimeZone(timezone)
+  }).format(date);
+};
+
+export const isHourInRange = (hour: number, start: number, end: number): boolean => {
+  if (start === end) return false;
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+};
+
+export const resolveAlertDeliveryDecision = (
+  schedule: NotificationDeliverySchedule,
+  now: Date = new Date()
+): AlertDeliveryDecision => {
+  const hour = resolveLocalHour(now, schedule.timezone);
+  const anyTime = schedule.deliveryWindowStartHour === 0 && schedule.deliveryWindowEndHour === 24;
+
+  if (!anyTime && !isHourInRange(hour, schedule.deliveryWindowStartHour, schedule.deliveryWindowEndHour)) {
+    return { send: false, reason: "outside_delivery_window" };
+  }
+
+  if (
+    schedule.quietHoursStartHour !== null &&
+    schedule.quietHoursEndHour !== null &&
+    isHourInRange(hour, schedule.quietHoursStartHour, schedule.quietHoursEndHour)
+  ) {
+    return { send: false, reason: "quiet_hours" };
+  }
+
+  return { send: true };
+};
+
+/** The bundle goes out on the first allowed run of each local day. */
+export const isDailyBundleDue = (params: {
+  schedule: NotificationDeliverySchedule;
+  lastBundleSentAt: string | null;
+  now?: Date;
+}): boolean => {
+  const now = params.now ?? new Date();
+  if (!resolveAlertDeliveryDecision(params.schedule, now).send) {
+    return false;
+  }
+
+  if (!params.lastBundleSentAt) {
+    return true;
+  }
+
+  const lastSentAt = new Date(params.lastBundleSentAt);
+  if (Number.isNaN(lastSentAt.getTime())) {
+    return true;
+  }
+
+  return (
+    resolveLocalDateKey(lastSentAt, params.schedule.timezone) !== resolveLocalDateKey(now, params.schedule.timezone)
+  );
+};
+
+const DELIVERY_SCAN_STEP_MS = 15 * 60_000;
+const DELIVERY_SCAN_HORIZON_MS = 48 * 60 * 60_000;
+/** Recheck for alerts that cannot go out at all yet (type turned off, no email address). */
+export const ALERT_RECHECK_DELAY_MS = 24 * 60 * 60_000;
+
+/**
+ * Earliest quarter hour after `now` when a held-back alert may go out. Pass
+ * `lastBundleSentAt` for an alert waiting on the daily bundle: it then waits
+ * for the first allowed time on the next local day. Stored as
+ * `user_alerts.deliver_after` so held-back rows leave the oldest-first send
+ * batch instead of filling it.
+ */
+export const resolveNextAlertDeliveryAt = (params: {
+  schedule: NotificationDeliverySchedule;
+  now: Date;
+  lastBundleSentAt?: string | null;
+}): Date => {
+  const { schedule, now, lastBundleSentAt } = params;
+  const start = Math.floor(now.getTime() / DELIVERY_SCAN_STEP_MS) * DELIVERY_SCAN_STEP_MS + DELIVERY_SCAN_STEP_MS;
+
+  for (let time = start; time <= now.getTime() + DELIVERY_SCAN_HORIZON_MS; time += DELIVERY_SCAN_STEP_MS) {
+    const candidate = new Date(time);
+    const allowed = lastBundleSentAt === undefined
+      ? resolveAlertDeliveryDecision(schedule, candidate).send
+      : isDailyBundleDue({ schedule, lastBundleSentAt, now: candidate });
+    if (allowed) {
+      return candidate;
+    }
+  }
+
+  // Quiet hours cover the whole window; look again tomorrow.
+  return new Date(now.getTime() + ALERT_RECHECK_DELAY_MS);
+};
+
+/** Same rule as the send query's `deliver_after` filter. */
+export const isAlertDeliveryDue = (deliverAfter: string | null, now: Date): boolean => {
+  return deliverAfter === null || new Date(deliverAfter).getTime() <= now.getTime();
+};
+
+const toHour = (value: unknown, min: number, max: number): number | null => {
+  return typeof value === "number" && Number.isInteger(value) && value >= min && value <= max ? value : null;
+};
+
+/** Validates schedule fields from the settings form; null when any field is invalid. */
+export const parseNotificationDeliverySchedule = (input: {
+  timezone?: unknown;
+  deliveryWindowStartHour?: unknown;
+  deliveryWindowEndHour?: unknown;
+  quietHoursStartHour?: unknown;
+  quietHoursEndHour?: unknown;
+  dailyBundleEnabled?: unknown;
+}): NotificationDeliverySchedule | null => {
+  const deliveryWindowStartHour = toHour(input.deliveryWindowStartHour, 0, 23);
+  const deliveryWindowEndHour = toHour(input.deliveryWindowEndHour, 1, 24);
+  const quietHoursEnabled = input.quietHoursStartHour !== null || input.quietHoursEndHour !== null;
+  const quietHoursStartHour = quietHoursEnabled ? toHour(input.quietHoursStartHour, 0, 23) : null;
+  const quietHoursEndHour = quietHoursEnabled ? toHour(input.quietHoursEndHour, 0, 23) : null;
+
+  if (
+    !isValidTimeZone(input.timezone) ||
+    deliveryWindowStartHour === null ||
+    deliveryWindowEndHour === null ||
+    deliveryWindowStartHour === deliveryWindowEndHour ||
+    (quietHoursEnabled &&
+      (quietHoursStartHour === null || quietHoursEndHour === null || quietHoursStartHour === quietHoursEndHour)) ||
+    typeof input.dailyBundleEnabled !== "boolean"
+  ) {
+    return null;
+  }
+
+  return {
+    timezone: input.timezone,
+    deliveryWindowStartHour,
+    deliveryWindowEndHour,
+    quietHoursStartHour,
+    quietHoursEndHour,
+    dailyBundleEnabled: input.dailyBundleEnabled
+  };
+};
+
+export const formatDeliveryHourRange = (start: number, end: number): string => {
+  return `${start}:00〜${end}:00`;
+};
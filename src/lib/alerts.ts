@@ -23,12 +23,29 @@ export type UserNotificationPreferences = {
   weeklyDigestEnabled: boolean;
   deadlineAlertEnabled: boolean;
   outcomeReminderEnabled: boolean;
+  /** IANA timezone the hours below are in. See `alertDelivery.ts`. */
+  timezone: string;
+  deliveryWindowStartHour: number;
+  deliveryWindowEndHour: number;
+  quietHoursStartHour: number | null;
+  quietHoursEndHour: number | null;
+  /** Merge the day's deadline and outcome alerts into one email. */
+  dailyBundleEnabled: boolean;
+  /** Web Push channel switch; the per-type toggles above still apply. */
+  pushEnabled: boolean;
 };
 
 export const DEFAULT_USER_NOTIFICATION_PREFERENCES: UserNotificationPreferences = {
   weeklyDigestEnabled: true,
   deadlineAlertEnabled: true,
-  outcomeReminderEnabled: true
+  outcomeReminderEnabled: true,
+  timezone: "Asia/Tokyo",
+  deliveryWindowStartHour: 0,
+  deliveryWindowEndHour: 24,
+  quietHoursStartHour: null,
+  quietHoursEndHour: null,
+  dailyBundleEnabled: false,
+  pushEnabled: true
 };
 
 export type AlertLink = {
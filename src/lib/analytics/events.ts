@@ -9,6 +9,7 @@ export const ANALYTICS_EVENT_NAMES = [
   "decisions_intro_impression",
   "decisions_hero_impression",
   "alerts_view",
+  "letters_view",
   "library_view",
   "watchlist_view",
   "episodes_view",
@@ -31,6 +32,8 @@ export const ANALYTICS_EVENT_NAMES = [
   "decision_save",
   "decision_action_click",
   "decision_remove",
+  "decision_export",
+  "decision_import",
   "outcome_update",
   "outcome_reminder_impression",
   "outcome_reminder_click",
@@ -42,6 +45,17 @@ export const ANALYTICS_EVENT_NAMES = [
   "alert_dismiss",
   "weekly_digest_alert_click",
   "outcome_reminder_alert_click",
+  "push_subscribe",
+  "push_unsubscribe",
+  "push_delivered",
+  "push_click",
+  "calendar_feed_enable",
+  "calendar_feed_rotate",
+  "calendar_feed_disable",
+  "calendar_card_download",
+  "decision_frame_create",
+  "decision_frame_update",
+  "decision_frame_delete",
   "decision_replay_insight_impression",
   "decision_replay_from_history_click",
   "library_search",
@@ -64,12 +78,14 @@ export const ANALYTICS_EVENT_NAMES = [
   "weekly_digest_item_click",
   "generate_card_submit",
   "generate_card_outcome",
+  "letter_submit",
   "podcast_hero_impression",
   "podcast_play",
   "episode_card_click",
   "share_click",
   "share_complete",
   "episode_listen_complete",
+  "listening_progress_complete",
   "post_listen_cta_click",
   "welcome_shown",
   "tutorial_open",
@@ -0,0 +1,256 @@
+/**
+ * Decision reminders as iCalendar (RFC 5545) data: the per-user subscription
+ * feed and single-card downloads. Events are all-day on the Asia/Tokyo date,
+ * so calendar apps show them on the same day the site does.
+ */
+import {
+  buildOutcomeReminderCandidates,
+  resolveOutcomeReminderDueAt,
+  type OutcomeReminderDecision
+} from "./outcomeReminder.ts";
+import { BRAND_NAME } from "./brand.ts";
+
+export const CALENDAR_FEED_TIME_ZONE = "Asia/Tokyo";
+/** Deadlines further back than this are left out of the feed. */
+export const CALENDAR_FEED_PAST_DAYS = 30;
+/** Hint for calendar apps that honour REFRESH-INTERVAL / X-PUBLISHED-TTL. */
+export const CALENDAR_FEED_REFRESH_HOURS = 6;
+
+const JUDGMENT_CARD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type CalendarEventKind = "watchlist_deadline" | "decision_deadline" | "outcome_reminder";
+
+export type CalendarEvent = {
+  uid: string;
+  kind: CalendarEventKind;
+  /** `YYYY-MM-DD` in CALENDAR_FEED_TIME_ZONE. */
+  date: string;
+  summary: string;
+  description: string;
+  url: string | null;
+};
+
+export type CalendarWatchlistItem = {
+  judgment_card_id: string;
+  episode_id: string;
+  topic_title: string;
+  deadline_at: string | null;
+  status: "saved" | "watching" | "archived";
+  history_decision_id: string | null;
+};
+
+export type CalendarJudgmentCard = {
+  id: string;
+  episode_id: string;
+  topic_title: string;
+  action_text: string | null;
+  deadline_at: string | null;
+};
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/** Alarm offsets from the all-day event's local midnight. */
+const ALARM_TRIGGERS: Record<CalendarEventKind, string> = {
+  watchlist_deadline: "-PT15H",
+  decision_deadline: "-PT15H",
+  outcome_reminder: "PT9H"
+};
+
+const toDate = (value: string | null): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+export const toCalendarDate = (date: Date, timeZone = CALENDAR_FEED_TIME_ZONE): string => {
+  return date.toLocaleDateString("en-CA", { timeZone });
+};
+
+const resolveHost = (baseUrl: string): string => {
+  try {
+    return new URL(baseUrl).host;
+  } catch {
+    return "localhost";
+  }
+};
+
+const buildDecisionUrl = (baseUrl: string, episodeId: string): string => `${baseUrl}/decisions/${episodeId}`;
+
+export const buildCalendarEvents = (params: {
+  watchlistItems: CalendarWatchlistItem[];
+  decisions: OutcomeReminderDecision[];
+  baseUrl: string;
+  now?: Date;
+}): CalendarEvent[] => {
+  const now = params.now ?? new Date();
+  const host = resolveHost(params.baseUrl);
+  const oldestDeadline = now.getTime() - CALENDAR_FEED_PAST_DAYS * DAY_IN_MS;
+  const isInRange = (date: Date | null): date is Date => Boolean(date && date.getTime() >= oldestDeadline);
+  const events: CalendarEvent[] = [];
+  const deadlineDates = new Map<string, string>();
+
+  for (const item of params.watchlistItems) {
+    const deadlineAt = toDate(item.deadline_at);
+    // A saved decision on the same card brings its own deadline below.
+    if (item.status === "archived" || item.history_decision_id || !isInRange(deadlineAt)) {
+      continue;
+    }
+
+    events.push({
+      uid: `watchlist-${item.judgment_card_id}@${host}`,
+      kind: "watchlist_deadline",
+      date: toCalendarDate(deadlineAt),
+      summary: `見直し期限: ${item.topic_title}`,
+      description: "保存中のトピックの見直しタイミングです。期限前に詳細を確認してください。",
+      url: buildDecisionUrl(params.baseUrl, item.episode_id)
+    });
+  }
+
+  for (const decision of params.decisions) {
+    const deadlineAt = toDate(decision.deadline_at);
+    if (decision.outcome !== null || !isInRange(deadlineAt)) {
+      continue;
+    }
+
+    const date = toCalendarDate(deadlineAt);
+    deadlineDates.set(decision.id, date);
+    events.push({
+      uid: `decision-${decision.id}@${host}`,
+      kind: "decision_deadline",
+      date,
+      summary: `判断の期限: ${decision.topic_title}`,
+      description: "採用した判断の期限です。結果が出たら履歴から記録してください。",
+      url: buildDecisionUrl(params.baseUrl, decision.episode_id)
+    });
+  }
+
+  // Reminders that are already due stay on today until the outcome is recorded;
+  // the rest land on the day the reminder will start.
+  const dueDecisionIds = new Set(buildOutcomeReminderCandidates(params.decisions, { now }).map(({ id }) => id));
+  const today = toCalendarDate(now);
+
+  for (const decision of params.decisions) {
+    const dueAt = resolveOutcomeReminderDueAt(decision);
+    if (!dueAt) {
+      continue;
+    }
+
+    const date = dueDecisionIds.has(decision.id) ? today : toCalendarDate(dueAt);
+    // Same day as the deadline event: that one already asks for the outcome.
+    if (deadlineDates.get(decision.id) === date) {
+      continue;
+    }
+
+    events.push({
+      uid: `outcome-${decision.id}@${host}`,
+      kind: "outcome_reminder",
+      date,
+      summary: `結果を記録: ${decision.topic_title}`,
+      description: "採用した判断の結果（成功・後悔・どちらでもない）を記録すると、次の提案に反映されます。",
+      url: `${params.baseUrl}/history`
+    });
+  }
+
+  return events.sort((left, right) => left.date.localeCompare(right.date) || left.uid.localeCompare(right.uid));
+};
+
+/** `episode_judgment_cards.id` is a uuid; anything else is an unknown card. */
+export const isCalendarJudgmentCardId = (value: string): boolean => JUDGMENT_CARD_ID_PATTERN.test(value);
+
+/** Null when the card has no deadline to put in a calendar. */
+export const buildJudgmentCardCalendarEvent = (card: CalendarJudgmentCard, baseUrl: string): CalendarEvent | null => {
+  const deadlineAt = toDate(card.deadline_at);
+  if (!deadlineAt) {
+    return null;
+  }
+
+  return {
+    uid: `card-${card.id}@${resolveHost(baseUrl)}`,
+    kind: "decision_deadline",
+    date: toCalendarDate(deadlineAt),
+    summary: `見直し期限: ${card.topic_title}`,
+    description: card.action_text ? `次の行動: ${card.action_text}` : "見直しタイミングです。詳細を確認してください。",
+    url: buildDecisionUrl(baseUrl, card.episode_id)
+  };
+};
+
+export const escapeCalendarText = (value: string): string => {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+};
+
+/** Folds a content line at 75 octets without splitting a UTF-8 character. */
+export const foldCalendarLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit.
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+};
+
+const formatDateValue = (date: string): string => date.replace(/-/g, "");
+
+const addOneDay = (date: string): string => {
+  return new Date(Date.parse(`${date}T00:00:00.000Z`) + DAY_IN_MS).toISOString().slice(0, 10);
+};
+
+const formatTimestamp = (date: Date): string => {
+  return `${date.toISOString().slice(0, 19).replace(/[-:]/g, "")}Z`;
+};
+
+const serializeEvent = (event: CalendarEvent, dtstamp: string): string[] => {
+  return [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${dtstamp}`,
+    `DTSTART;VALUE=DATE:${formatDateValue(event.date)}`,
+    `DTEND;VALUE=DATE:${formatDateValue(addOneDay(event.date))}`,
+    `SUMMARY:${escapeCalendarText(event.summary)}`,
+    `DESCRIPTION:${escapeCalendarText(event.url ? `${event.description}\n${event.url}` : event.description)}`,
+    ...(event.url ? [`URL:${event.url}`] : []),
+    "TRANSP:TRANSPARENT",
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    `DESCRIPTION:${escapeCalendarText(event.summary)}`,
+    `TRIGGER:${ALARM_TRIGGERS[event.kind]}`,
+    "END:VALARM",
+    "END:VEVENT"
+  ];
+};
+
+export const serializeCalendar = (params: { name: string; events: CalendarEvent[]; now?: Date }): string => {
+  const dtstamp = formatTimestamp(params.now ?? new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:-//${BRAND_NAME}//Decision Calendar//JA`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeCalendarText(params.name)}`,
+    `X-WR-TIMEZONE:${CALENDAR_FEED_TIME_ZONE}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${CALENDAR_FEED_REFRESH_HOURS}H`,
+    `X-PUBLISHED-TTL:PT${CALENDAR_FEED_REFRESH_HOURS}H`,
+    ...params.events.flatMap((event) => serializeEvent(event, dtstamp)),
+    "END:VCALENDAR"
+  ];
+
+  return `${lines.map(foldCalendarLine).join("\r\n")}\r\n`;
+};
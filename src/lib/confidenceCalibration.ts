@@ -0,0 +1,204 @@
+import type { DecisionOutcome } from "./decisionProfile.ts";
+import type { JudgmentType } from "./judgmentCards.ts";
+
+/**
+ * Outcome-based calibration for `confidence_score`.
+ *
+ * The LLM reports confidence in a narrow 0.65–0.95 range, so the raw value
+ * says little about how often a card actually works out. Each saved decision
+ * with an outcome is a sample: success / regret count as resolved, neutral is
+ * tracked but excluded from the observed success rate.
+ *
+ * Calibrated confidence shrinks the observed success rate of the card's
+ * confidence band toward the raw score (CALIBRATION_PRIOR_WEIGHT pseudo
+ * samples), first across all cards and then per frame_type / genre /
+ * judgment_type segment, averaging the segments that have data.
+ */
+
+export type CalibrationSample = {
+  confidence_score: number | null;
+  frame_type: string | null;
+  genre: string | null;
+  judgment_type: JudgmentType;
+  outcome: DecisionOutcome;
+};
+
+export type CalibrationDimension = "frame_type" | "genre" | "judgment_type";
+
+export type ConfidenceBand = {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+};
+
+export type CalibrationBandStats = {
+  band: ConfidenceBand;
+  sampleCount: number;
+  successCount: number;
+  regretCount: number;
+  neutralCount: number;
+  resolvedCount: number;
+  meanConfidence: number | null;
+  observedSuccessRate: number | null;
+};
+
+export type CalibrationTable = {
+  key: string;
+  sampleCount: number;
+  resolvedCount: number;
+  meanConfidence: number | null;
+  observedSuccessRate: number | null;
+  bands: CalibrationBandStats[];
+};
+
+export type ConfidenceCalibration = {
+  overall: CalibrationTable;
+  segments: Record<CalibrationDimension, CalibrationTable[]>;
+};
+
+export type CalibratableCard = {
+  confidence_score?: number | null;
+  frame_type: string | null;
+  genre: string | null;
+  judgment_type: JudgmentType;
+};
+
+export const CALIBRATION_DIMENSIONS: CalibrationDimension[] = ["frame_type", "genre", "judgment_type"];
+
+/** Bands follow the 0.65–0.95 range the card generators are prompted for. */
+export const CONFIDENCE_BANDS: ConfidenceBand[] = [
+  { key: "lt_065", label: "< 0.65", min: 0, max: 0.65 },
+  { key: "065_075", label: "0.65–0.75", min: 0.65, max: 0.75 },
+  { key: "075_085", label: "0.75–0.85", min: 0.75, max: 0.85 },
+  { key: "085_095", label: "0.85–0.95", min: 0.85, max: 0.95 },
+  { key: "gte_095", label: "≥ 0.95", min: 0.95, max: 1 }
+];
+
+export const CALIBRATION_PRIOR_WEIGHT = 5;
+
+const UNKNOWN_SEGMENT_KEY = "unknown";
+
+const clampConfidence = (value: number): number => {
+  return Math.min(Math.max(value, 0), 1);
+};
+
+const toConfidence = (value: number | null | undefined): number | null => {
+  return typeof value === "number" && Number.isFinite(value) ? clampConfidence(value) : null;
+};
+
+const roundRate = (value: number): number => {
+  return Math.round(value * 1000) / 1000;
+};
+
+export const resolveConfidenceBand = (confidence: number): ConfidenceBand => {
+  const value = clampConfidence(confidence);
+  return (
+    CONFIDENCE_BANDS.find((band, index) =>
+      index === CONFIDENCE_BANDS.length - 1 ? value >= band.min : value >= band.min && value < band.max
+    ) ?? CONFIDENCE_BANDS[0]
+  );
+};
+
+const resolveSegmentKey = (card: CalibratableCard, dimension: CalibrationDimension): string => {
+  return card[dimension]?.trim() || UNKNOWN_SEGMENT_KEY;
+};
+
+const buildTable = (key: string, samples: CalibrationSample[]): CalibrationTable => {
+  const bands = CONFIDENCE_BANDS.map((band): CalibrationBandStats => {
+    const inBand = samples.filter(
+      (sample) => resolveConfidenceBand(sample.confidence_score ?? 0).key === band.key
+    );
+    const successCount = inBand.filter((sample) => sample.outcome === "success").length;
+    const regretCount = inBand.filter((sample) => sample.outcome === "regret").length;
+    const resolvedCount = successCount + regretCount;
+    const confidenceSum = inBand.reduce((sum, sample) => sum + (sample.confidence_score ?? 0), 0);
+
+    return {
+      band,
+      sampleCount: inBand.length,
+      successCount,
+      regretCount,
+      neutralCount: inBand.length - resolvedCount,
+      resolvedCount,
+      meanConfidence: inBand.length > 0 ? roundRate(confidenceSum / inBand.length) : null,
+      observedSuccessRate: resolvedCount > 0 ? roundRate(successCount / resolvedCount) : null
+    };
+  });
+
+  const successCount = bands.reduce((sum, band) => sum + band.successCount, 0);
+  const resolvedCount = bands.reduce((sum, band) => sum + band.resolvedCount, 0);
+  const confidenceSum = samples.reduce((sum, sample) => sum + (sample.confidence_score ?? 0), 0);
+
+  return {
+    key,
+    sampleCount: samples.length,
+    resolvedCount,
+    meanConfidence: samples.length > 0 ? roundRate(confidenceSum / samples.length) : null,
+    observedSuccessRate: resolvedCount > 0 ? roundRate(successCount / resolvedCount) : null,
+    bands
+  };
+};
+
+export const buildConfidenceCalibration = (samples: CalibrationSample[]): ConfidenceCalibration => {
+  const scored = samples
+    .map((sample) => ({ ...sample, confidence_score: toConfidence(sample.confidence_score) }))
+    .filter((sample) => sample.confidence_score !== null);
+
+  const buildSegments = (dimension: CalibrationDimension): CalibrationTable[] => {
+    const groups = new Map<string, CalibrationSample[]>();
+    for (const sample of scored) {
+      const key = resolveSegmentKey(sample, dimension);
+      groups.set(key, [...(groups.get(key) ?? []), sample]);
+    }
+
+    return [...groups.entries()]
+      .map(([key, group]) => buildTable(key, group))
+      .sort((left, right) => right.sampleCount - left.sampleCount || left.key.localeCompare(right.key));
+  };
+
+  return {
+    overall: buildTable("overall", scored),
+    segments: {
+      frame_type: buildSegments("frame_type"),
+      genre: buildSegments("genre"),
+      judgment_type: buildSegments("judgment_type")
+    }
+  };
+};
+
+const shrinkTowardPrior = (stats: CalibrationBandStats | undefined, prior: number): number => {
+  if (!stats || stats.resolvedCount === 0) return prior;
+
+  return (stats.successCount + CALIBRATION_PRIOR_WEIGHT * prior) / (stats.resolvedCount + CALIBRATION_PRIOR_WEIGHT);
+};
+
+/**
+ * Returns the outcome-calibrated confidence for a card, or the raw score when
+ * there is no calibration data. Returns null when the card has no score.
+ */
+export const resolveCalibratedConfidence = (
+  card: CalibratableCard,
+  calibration: ConfidenceCalibration | null | undefined
+): number | null => {
+  const raw = toConfidence(card.confidence_score);
+  if (raw === null) return null;
+  if (!calibration) return raw;
+
+  const band = resolveConfidenceBand(raw);
+  const findBand = (table: CalibrationTable | undefined) => table?.bands.find((item) => item.band.key === band.key);
+
+  const overall = shrinkTowardPrior(findBand(calibration.overall), raw);
+  const segmentEstimates = CALIBRATION_DIMENSIONS.flatMap((dimension) => {
+    const key = resolveSegmentKey(card, dimension);
+    const stats = findBand(calibration.segments[dimension].find((table) => table.key === key));
+    return stats && stats.resolvedCount > 0 ? [shrinkTowardPrior(stats, overall)] : [];
+  });
+
+  const calibrated =
+    segmentEstimates.length > 0
+      ? segmentEstimates.reduce((sum, value) => sum + value, 0) / segmentEstimates.length
+      : overall;
+
+  return roundRate(calibrated);
+};
@@ -0,0 +1,114 @@
+import type { JudgmentThresholdEntry, JudgmentThresholdJson } from "./judgmentCards";
+
+/**
+ * Offline FX table used to compare judgment thresholds across currencies.
+ * Rates are "JPY per 1 unit" so the built-in yen thresholds stay the source of truth.
+ * Override with NEXT_PUBLIC_FX_RATES_TO_JPY, e.g. `USD=150,EUR=162`.
+ */
+export type FxRateTable = Record<string, number>;
+
+export const BASE_CURRENCY = "JPY";
+
+export const DEFAULT_FX_RATES_TO_JPY: FxRateTable = {
+  JPY: 1,
+  USD: 150,
+  EUR: 162,
+  GBP: 190
+};
+
+const CURRENCY_CODE_RE = /^[A-Z]{3}$/;
+
+const CURRENCY_ALIASES: Record<string, string> = {
+  "円": "JPY",
+  "¥": "JPY",
+  "￥": "JPY",
+  "$": "USD",
+  "US$": "USD",
+  "€": "EUR",
+  "£": "GBP"
+};
+
+const MONETARY_THRESHOLD_KEYS = ["unit_cost", "price", "monthly_cost"] as const;
+
+export const normalizeCurrencyCode = (value: string | null | undefined): string | null => {
+  const trimmed = value?.trim() ?? "";
+  if (!trimmed) return null;
+
+  const alias = CURRENCY_ALIASES[trimmed];
+  if (alias) return alias;
+
+  const upper = trimmed.toUpperCase();
+  return CURRENCY_CODE_RE.test(upper) ? upper : null;
+};
+
+export const parseFxRateTable = (
+  rawValue: string | null | undefined,
+  fallback: FxRateTable = DEFAULT_FX_RATES_TO_JPY
+): FxRateTable => {
+  const table: FxRateTable = { ...fallback, [BASE_CURRENCY]: 1 };
+
+  for (const pair of (rawValue ?? "").split(",")) {
+    const [rawCode, rawRate] = pair.split("=");
+    const code = normalizeCurrencyCode(rawCode);
+    const rate = Number(rawRate?.trim());
+
+    if (!code || code === BASE_CURRENCY || !Number.isFinite(rate) || rate <= 0) {
+      continue;
+    }
+
+    table[code] = rate;
+  }
+
+  return table;
+};
+
+export const resolveFxRateTable = (rawValue = process.env.NEXT_PUBLIC_FX_RATES_TO_JPY): FxRateTable => {
+  return parseFxRateTable(rawValue);
+};
+
+export const convertCurrency = (
+  amount: number,
+  from: string,
+  to: string,
+  rates: FxRateTable = DEFAULT_FX_RATES_TO_JPY
+): number | null => {
+  const fromCode = normalizeCurrencyCode(from);
+  const toCode = normalizeCurrencyCode(to);
+  if (!fromCode || !toCode) return null;
+  if (fromCode === toCode) return amount;
+
+  const fromRate = rates[fromCode];
+  const toRate = rates[toCode];
+  if (!fromRate || !toRate) return null;
+
+  return (amount * fromRate) / toRate;
+};
+
+export const formatCurrencyAmount = (value: number, currency: string, locale: "ja" | "en"): string => {
+  const code = normalizeCurrencyCode(currency) ?? BASE_CURRENCY;
+
+  return new Intl.NumberFormat(locale === "ja" ? "ja-JP" : "en-US", {
+    style: "currency",
+    currency: code,
+    maximumFractionDigits: code === "JPY" ? 0 : 2
+  }).format(value);
+};
+
+export const readThresholdEntryCurrency = (entry: JudgmentThresholdEntry): string | null => {
+  return normalizeCurrencyCode(entry.currency);
+};
+
+/**
+ * The card currency is the first currency found on a monetary threshold.
+ * Cards without any monetary entry are treated as yen cards.
+ */
+export const resolveThresholdCurrency = (thresholdJson: JudgmentThresholdJson | null | undefined): string => {
+  for (const key of MONETARY_THRESHOLD_KEYS) {
+    for (const entry of thresholdJson?.[key] ?? []) {
+      const currency = readThresholdEntryCurrency(entry);
+      if (currency) return currency;
+    }
+  }
+
+  return BASE_CURRENCY;
+};
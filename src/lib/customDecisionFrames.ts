@@ -0,0 +1,175 @@
+/**
+ * User-defined decision frames for the calculator: named input fields, a
+ * formula over them (see `decisionExpression.ts`) and the use_now / skip
+ * boundaries for its result. Stored per user in `user_decision_frames`.
+ */
+import type { JudgmentType } from "./judgmentCards.ts";
+import { parseDecisionExpression, type DecisionExpressionError } from "./decisionExpression.ts";
+
+export const CUSTOM_DECISION_FRAME_LIMIT = 10;
+export const CUSTOM_DECISION_FRAME_MAX_FIELDS = 6;
+export const CUSTOM_DECISION_FRAME_NAME_MAX_LENGTH = 40;
+const LABEL_MAX_LENGTH = 30;
+const UNIT_MAX_LENGTH = 12;
+const FIELD_KEY_RE = /^[A-Za-z_][A-Za-z0-9_]{0,23}$/;
+// Field keys become property names of the inputs object, so names that reach the prototype are refused.
+const RESERVED_FIELD_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+/** Which side of the metric is good: `lower` for cost per hour, `higher` for hours per yen. */
+export type CustomDecisionFrameDirection = "lower" | "higher";
+
+export type CustomDecisionFrameField = {
+  /** Variable name used in the formula. */
+  key: string;
+  label: string;
+  unit: string;
+};
+
+export type CustomDecisionFrameDefinition = {
+  name: string;
+  fields: CustomDecisionFrameField[];
+  formula: string;
+  metricLabel: string;
+  metricUnit: string;
+  better: CustomDecisionFrameDirection;
+  useNowAt: number;
+  skipAt: number;
+};
+
+export type CustomDecisionFrame = CustomDecisionFrameDefinition & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CustomDecisionFrameError =
+  | DecisionExpressionError
+  | "invalid_frame_name"
+  | "invalid_frame_fields"
+  | "invalid_frame_field_key"
+  | "duplicate_frame_field_key"
+  | "invalid_frame_metric_label"
+  | "invalid_frame_thresholds";
+
+const readText = (value: unknown, maxLength: number): string | null => {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 && trimmed.length <= maxLength ? trimmed : null;
+};
+
+const readOptionalText = (value: unknown, maxLength: number): string | null => {
+  if (value === undefined || value === null) return "";
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length <= maxLength ? trimmed : null;
+};
+
+const readNumber = (value: unknown): number | null => {
+  const parsed = typeof value === "string" && value.trim() ? Number(value.replace(/,/g, "")) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : null;
+};
+
+const readFields = (
+  value: unknown
+): { ok: true; fields: CustomDecisionFrameField[] } | { ok: false; error: CustomDecisionFrameError } => {
+  if (!Array.isArray(value) || value.length === 0 || value.length > CUSTOM_DECISION_FRAME_MAX_FIELDS) {
+    return { ok: false, error: "invalid_frame_fields" };
+  }
+
+  const fields: CustomDecisionFrameField[] = [];
+  for (const entry of value) {
+    const record = typeof entry === "object" && entry !== null ? (entry as Record<string, unknown>) : {};
+    const key = typeof record.key === "string" ? record.key.trim() : "";
+    const label = readText(record.label, LABEL_MAX_LENGTH);
+    const unit = readOptionalText(record.unit, UNIT_MAX_LENGTH);
+
+    if (!FIELD_KEY_RE.test(key) || RESERVED_FIELD_KEYS.has(key)) {
+      return { ok: false, error: "invalid_frame_field_key" };
+    }
+    if (fields.some((field) => field.key === key)) {
+      return { ok: false, error: "duplicate_frame_field_key" };
+    }
+    if (label === null || unit === null) {
+      return { ok: false, error: "invalid_frame_fields" };
+    }
+
+    fields.push({ key, label, unit });
+  }
+
+  return { ok: true, fields };
+};
+
+/**
+ * Validates a frame posted from the editor. The formula must parse and may
+ * only use the frame's own field keys; the boundaries must be ordered for the
+ * chosen direction (`useNowAt <= skipAt` when lower is better).
+ */
+export const parseCustomDecisionFrameDefinition = (
+  value: unknown
+): { ok: true; definition: CustomDecisionFrameDefinition } | { ok: false; error: CustomDecisionFrameError } => {
+  const record = typeof value === "object" && value !== null ? (value as Record<string, unknown>) : {};
+
+  const name = readText(record.name, CUSTOM_DECISION_FRAME_NAME_MAX_LENGTH);
+  if (!name) {
+    return { ok: false, error: "invalid_frame_name" };
+  }
+
+  const fieldsResult = readFields(record.fields);
+  if (!fieldsResult.ok) {
+    return fieldsResult;
+  }
+
+  const formula = typeof record.formula === "string" ? record.formula.trim() : "";
+  const parsedFormula = parseDecisionExpression(
+    formula,
+    fieldsResult.fields.map((field) => field.key)
+  );
+  if (!parsedFormula.ok) {
+    return { ok: false, error: parsedFormula.error };
+  }
+
+  const metricLabel = readText(record.metricLabel, LABEL_MAX_LENGTH);
+  const metricUnit = readOptionalText(record.metricUnit, UNIT_MAX_LENGTH);
+  if (!metricLabel || metricUnit === null) {
+    return { ok: false, error: "invalid_frame_metric_label" };
+  }
+
+  const better = record.better === "higher" ? "higher" : record.better === "lower" ? "lower" : null;
+  const useNowAt = readNumber(record.useNowAt);
+  const skipAt = readNumber(record.skipAt);
+  if (
+    !better ||
+    useNowAt === null ||
+    skipAt === null ||
+    (better === "lower" ? useNowAt > skipAt : useNowAt < skipAt)
+  ) {
+    return { ok: false, error: "invalid_frame_thresholds" };
+  }
+
+  return {
+    ok: true,
+    definition: {
+      name,
+      fields: fieldsResult.fields,
+      formula,
+      metricLabel,
+      metricUnit,
+      better,
+      useNowAt,
+      skipAt
+    }
+  };
+};
+
+export const resolveCustomFrameJudgment = (
+  definition: Pick<CustomDecisionFrameDefinition, "better" | "useNowAt" | "skipAt">,
+  metricValue: number
+): JudgmentType => {
+  if (definition.better === "lower") {
+    if (metricValue <= definition.useNowAt) return "use_now";
+    return metricValue > definition.skipAt ? "skip" : "watch";
+  }
+
+  if (metricValue >= definition.useNowAt) return "use_now";
+  return metricValue < definition.skipAt ? "skip" : "watch";
+};
@@ -0,0 +1,115 @@
+/**
+ * Step-level checkpoints for daily-generate. Each step's output is stored in
+ * `job_runs` (job_type `daily-generate-checkpoint`) under the run's
+ * idempotency key, so a retry can reuse finished steps instead of rerunning
+ * the whole chain.
+ */
+
+export const DAILY_GENERATE_CHECKPOINT_JOB_TYPE = "daily-generate-checkpoint";
+
+/** Pipeline order. `ingest_trends_rss` also covers the letters picked for the script. */
+export const DAILY_GENERATE_STEPS = [
+  "ingest_trends_rss",
+  "plan-topics",
+  "write-script-ja",
+  "expand-script-ja",
+  "polish-script-ja",
+  "tts-ja",
+  "adapt-script-en",
+  "polish-script-en",
+  "tts-en",
+  "publish"
+] as const;
+
+export type DailyGenerateStep = (typeof DAILY_GENERATE_STEPS)[number];
+
+/**
+ * - `failed`: reuse checkpoints up to the first step without one, run the rest
+ * - `from`: rerun `step` and everything after it
+ * - `only`: rerun `step` alone; later steps are not invoked
+ */
+export type DailyGenerateResumeMode = "failed" | "from" | "only";
+
+export type DailyGenerateResume =
+  | { mode: "failed" }
+  | { mode: "from" | "only"; step: DailyGenerateStep };
+
+export type DailyGenerateStepAction = "run" | "reuse" | "skip";
+
+/**
+ * Checkpoints are keyed by idempotency key and genre. The default key carries
+ * the genre too, so two genres generated on the same date never share a run.
+ */
+export const resolveDailyGenerateIdempotencyKey = (params: {
+  idempotencyKey?: string;
+  episodeDate: string;
+  genre: string;
+}): string => {
+  return params.idempotencyKey ?? `daily-${params.episodeDate}-${params.genre}`;
+};
+
+/**
+ * Checkpoints a new output for `step` replaces: its own and every later one,
+ * since those were built from the step's previous output.
+ */
+export const checkpointStepsReplacedBy = (step: DailyGenerateStep): DailyGenerateStep[] => {
+  return DAILY_GENERATE_STEPS.slice(DAILY_GENERATE_STEPS.indexOf(step));
+};
+
+export const isDailyGenerateStep = (value: unknown): value is DailyGenerateStep => {
+  return typeof value === "string" && (DAILY_GENERATE_STEPS as readonly string[]).includes(value);
+};
+
+export const isDailyGenerateResumeMode = (value: unknown): value is DailyGenerateResumeMode => {
+  return value === "failed" || value === "from" || value === "only";
+};
+
+/**
+ * Decides, for each step in `orderedSteps`, whether to run it, reuse its
+ * checkpoint, or skip it. Without `resume` every step runs. `from` / `only`
+ * need a checkpoint for every step before the target.
+ */
+export const planDailyGenerateSteps = (params: {
+  orderedSteps: readonly DailyGenerateStep[];
+  checkpointSteps: ReadonlySet<string>;
+  resume: DailyGenerateResume | null;
+}):
+  | { ok: true; actions: Record<DailyGenerateStep, DailyGenerateStepAction> }
+  | { ok: false; error: string } => {
+  const actions = Object.fromEntries(
+    DAILY_GENERATE_STEPS.map((step) => [step, "skip"])
+  ) as Record<DailyGenerateStep, DailyGenerateStepAction>;
+  const { orderedSteps, checkpointSteps, resume } = params;
+
+  if (!resume) {
+    for (const step of orderedSteps) actions[step] = "run";
+    return { ok: true, actions };
+  }
+
+  if (resume.mode === "failed") {
+    let reusing = true;
+    for (const step of orderedSteps) {
+      reusing = reusing && checkpointSteps.has(step);
+      actions[step] = reusing ? "reuse" : "run";
+    }
+    return { ok: true, actions };
+  }
+
+  const targetIndex = orderedSteps.indexOf(resume.step);
+  if (targetIndex < 0) {
+    return { ok: false, error: `step_not_in_pipeline:${resume.step}` };
+  }
+
+  for (const [index, step] of orderedSteps.entries()) {
+    if (index < targetIndex) {
+      if (!checkpointSteps.has(step)) {
+        return { ok: false, error: `missing_checkpoint:${step}` };
+      }
+      actions[step] = "reuse";
+    } else if (index === targetIndex || resume.mode === "from") {
+      actions[step] = "run";
+    }
+  }
+
+  return { ok: true, actions };
+};
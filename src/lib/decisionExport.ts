@@ -0,0 +1,409 @@
+import type { DecisionOutcome } from "./decisionProfile.ts";
+import type { JudgmentThresholdJson, JudgmentType } from "./judgmentCards.ts";
+import type { WatchlistStatus } from "./watchlist.ts";
+
+/**
+ * Export / import format for a user's decision history, watchlist and
+ * AI-generated cards. CSV is for spreadsheets; JSON is the restorable format
+ * accepted by POST /api/decision-history/import.
+ */
+
+export const DECISION_EXPORT_FORMATS = ["csv", "json"] as const;
+export type DecisionExportFormat = (typeof DECISION_EXPORT_FORMATS)[number];
+
+export const DECISION_EXPORT_KIND = "decision_export";
+export const DECISION_EXPORT_VERSION = 1;
+
+/** Upper bounds for the JSON import: rows per section and request body size. */
+export const MAX_IMPORT_ROWS = 5000;
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+export type DecisionExportSource = "episode" | "ai_generated";
+
+export type DecisionExportRow = {
+  judgment_card_id: string;
+  source: DecisionExportSource;
+  episode_id: string | null;
+  episode_title: string | null;
+  topic_title: string;
+  frame_type: string | null;
+  genre: string | null;
+  decision_type: JudgmentType;
+  outcome: DecisionOutcome | null;
+  threshold_json: JudgmentThresholdJson;
+  deadline_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type WatchlistExportRow = {
+  judgment_card_id: string;
+  episode_id: string;
+  episode_title: string | null;
+  topic_title: string;
+  frame_type: string | null;
+  genre: string | null;
+  judgment_type: JudgmentType;
+  status: WatchlistStatus;
+  outcome: DecisionOutcome | null;
+  threshold_json: JudgmentThresholdJson;
+  deadline_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/** Full snapshot of a user_generated_cards row so it can be recreated on import. */
+export type GeneratedCardExportRow = {
+  id: string;
+  input_text: string;
+  lang: "ja" | "en";
+  genre: string | null;
+  topic_title: string;
+  frame_type: string | null;
+  judgment_type: JudgmentType;
+  judgment_summary: string;
+  action_text: string | null;
+  deadline_at: string | null;
+  threshold_json: JudgmentThresholdJson;
+  watch_points: string[];
+  confidence_score: number | null;
+  outcome: DecisionOutcome | null;
+  created_at: string;
+};
+
+export type DecisionExportDocument = {
+  kind: typeof DECISION_EXPORT_KIND;
+  version: typeof DECISION_EXPORT_VERSION;
+  exported_at: string;
+  decisions: DecisionExportRow[];
+  watchlist: WatchlistExportRow[];
+  generated_cards: GeneratedCardExportRow[];
+};
+
+export type DecisionImportSkipReason = "duplicate_in_file" | "already_exists" | "card_not_found" | "limit_reached";
+
+export type DecisionImportPlan<T> = {
+  rows: T[];
+  skipped: Record<DecisionImportSkipReason, number>;
+};
+
+export type DecisionImportPayload = Omit<DecisionExportDocument, "exported_at">;
+
+export const DECISION_EXPORT_CSV_COLUMNS = [
+  "judgment_card_id",
+  "source",
+  "episode_id",
+  "episode_title",
+  "topic_title",
+  "frame_type",
+  "genre",
+  "decision_type",
+  "outcome",
+  "threshold_json",
+  "deadline_at",
+  "created_at",
+  "updated_at"
+] as const satisfies ReadonlyArray<keyof DecisionExportRow>;
+
+export const WATCHLIST_EXPORT_CSV_COLUMNS = [
+  "judgment_card_id",
+  "episode_id",
+  "episode_title",
+  "topic_title",
+  "frame_type",
+  "genre",
+  "judgment_type",
+  "status",
+  "outcome",
+  "threshold_json",
+  "deadline_at",
+  "created_at",
+  "updated_at"
+] as const satisfies ReadonlyArray<keyof WatchlistExportRow>;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const JUDGMENT_TYPES: JudgmentType[] = ["use_now", "watch", "skip"];
+const OUTCOMES: DecisionOutcome[] = ["success", "regret", "neutral"];
+const WATCHLIST_STATUSES: WatchlistStatus[] = ["saved", "watching", "archived"];
+
+export const isDecisionExportFormat = (value: unknown): value is DecisionExportFormat => {
+  return typeof value === "string" && (DECISION_EXPORT_FORMATS as readonly string[]).includes(value);
+};
+
+/**
+ * Quotes a CSV cell. Cells that a spreadsheet would evaluate as a formula are
+ * prefixed with an apostrophe.
+ */
+const toCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+
+  let text = typeof value === "string" ? value : typeof value === "object" ? JSON.stringify(value) : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const buildCsv = <T extends Record<string, unknown>>(columns: ReadonlyArray<keyof T & string>, rows: T[]): string => {
+  const lines = [columns.join(","), ...rows.map((row) => columns.map((column) => toCsvCell(row[column])).join(","))];
+  // BOM so Excel opens Japanese titles as UTF-8.
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+};
+
+export const buildDecisionHistoryCsv = (rows: DecisionExportRow[]): string => {
+  return buildCsv(DECISION_EXPORT_CSV_COLUMNS, rows);
+};
+
+export const buildWatchlistCsv = (rows: WatchlistExportRow[]): string => {
+  return buildCsv(WATCHLIST_EXPORT_CSV_COLUMNS, rows);
+};
+
+export const buildDecisionExportDocument = (params: {
+  decisions: DecisionExportRow[];
+  watchlist: WatchlistExportRow[];
+  generatedCards: GeneratedCardExportRow[];
+  now?: Date;
+}): DecisionExportDocument => {
+  return {
+    kind: DECISION_EXPORT_KIND,
+    version: DECISION_EXPORT_VERSION,
+    exported_at: (params.now ?? new Date()).toISOString(),
+    decisions: params.decisions,
+    watchlist: params.watchlist,
+    generated_cards: params.generatedCards
+  };
+};
+
+export const buildDecisionExportFilename = (
+  scope: "decision-history" | "watchlist",
+  format: DecisionExportFormat,
+  now = new Date()
+): string => {
+  return `${scope}-${now.toISOString().slice(0, 10)}.${format}`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+const readString = (value: unknown): string | null => {
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+};
+
+const readUuid = (value: unknown): string | null => {
+  const text = readString(value);
+  return text && UUID_PATTERN.test(text) ? text.toLowerCase() : null;
+};
+
+const readTimestamp = (value: unknown): string | null => {
+  const text = readString(value);
+  if (!text) return null;
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const readEnum = <T extends string>(value: unknown, allowed: T[]): T | null => {
+  return typeof value === "string" && (allowed as string[]).includes(value) ? (value as T) : null;
+};
+
+const readThresholdJson = (value: unknown): JudgmentThresholdJson => {
+  return isRecord(value) ? (value as JudgmentThresholdJson) : {};
+};
+
+const parseDecisionRow = (value: unknown): DecisionExportRow | null => {
+  if (!isRecord(value)) return null;
+
+  const judgmentCardId = readUuid(value.judgment_card_id);
+  const source = readEnum<DecisionExportSource>(value.source, ["episode", "ai_generated"]);
+  const episodeId = readUuid(value.episode_id);
+  const decisionType = readEnum(value.decision_type, JUDGMENT_TYPES);
+  const createdAt = readTimestamp(value.created_at);
+  if (!judgmentCardId || !source || !decisionType || !createdAt) return null;
+  if (source === "episode" && !episodeId) return null;
+
+  return {
+    judgment_card_id: judgmentCardId,
+    source,
+    episode_id: episodeId,
+    episode_title: readString(value.episode_title),
+    topic_title: readString(value.topic_title) ?? "",
+    frame_type: readString(value.frame_type),
+    genre: readString(value.genre),
+    decision_type: decisionType,
+    outcome: readEnum(value.outcome, OUTCOMES),
+    threshold_json: readThresholdJson(value.threshold_json),
+    deadline_at: readTimestamp(value.deadline_at),
+    created_at: createdAt,
+    updated_at: readTimestamp(value.updated_at) ?? createdAt
+  };
+};
+
+const parseWatchlistRow = (value: unknown): WatchlistExportRow | null => {
+  if (!isRecord(value)) return null;
+
+  const judgmentCardId = readUuid(value.judgment_card_id);
+  const episodeId = readUuid(value.episode_id);
+  const judgmentType = readEnum(value.judgment_type, JUDGMENT_TYPES);
+  const status = readEnum(value.status, WATCHLIST_STATUSES);
+  const createdAt = readTimestamp(value.created_at);
+  if (!judgmentCardId || !episodeId || !judgmentType || !status || !createdAt) return null;
+
+  return {
+    judgment_card_id: judgmentCardId,
+    episode_id: episodeId,
+    episode_title: readString(value.episode_title),
+    topic_title: readString(value.topic_title) ?? "",
+    frame_type: readString(value.frame_type),
+    genre: readString(value.genre),
+    judgment_type: judgmentType,
+    status,
+    outcome: readEnum(value.outcome, OUTCOMES),
+    threshold_json: readThresholdJson(value.threshold_json),
+    deadline_at: readTimestamp(value.deadline_at),
+    created_at: createdAt,
+    updated_at: readTimestamp(value.updated_at) ?? createdAt
+  };
+};
+
+const parseGeneratedCardRow = (value: unknown): GeneratedCardExportRow | null => {
+  if (!isRecord(value)) return null;
+
+  const id = readUuid(value.id);
+  const inputText = readString(value.input_text);
+  const topicTitle = readString(value.topic_title);
+  const judgmentType = readEnum(value.judgment_type, JUDGMENT_TYPES);
+  const judgmentSummary = readString(value.judgment_summary);
+  const createdAt = readTimestamp(value.created_at);
+  if (!id || !inputText || !topicTitle || !judgmentType || !judgmentSummary || !createdAt) return null;
+
+  const confidence = typeof value.confidence_score === "number" ? value.confidence_score : null;
+
+  return {
+    id,
+    input_text: inputText,
+    lang: value.lang === "en" ? "en" : "ja",
+    genre: readString(value.genre),
+    topic_title: topicTitle,
+    frame_type: readString(value.frame_type),
+    judgment_type: judgmentType,
+    judgment_summary: judgmentSummary,
+    action_text: readString(value.action_text),
+    deadline_at: readTimestamp(value.deadline_at),
+    threshold_json: readThresholdJson(value.threshold_json),
+    watch_points: Array.isArray(value.watch_points)
+      ? value.watch_points.flatMap((point) => (readString(point) ? [readString(point) as string] : []))
+      : [],
+    confidence_score: confidence !== null && confidence >= 0 && confidence <= 1 ? confidence : null,
+    outcome: readEnum(value.outcome, OUTCOMES),
+    created_at: createdAt
+  };
+};
+
+const parseSection = <T>(
+  value: unknown,
+  parseRow: (row: unknown) => T | null
+): { rows: T[]; invalidCount: number } | null => {
+  if (value === undefined) return { rows: [], invalidCount: 0 };
+  if (!Array.isArray(value) || value.length > MAX_IMPORT_ROWS) return null;
+
+  const rows = value.map(parseRow);
+  return {
+    rows: rows.filter((row): row is T => row !== null),
+    invalidCount: rows.filter((row) => row === null).length
+  };
+};
+
+/**
+ * Validates a JSON export before import. Invalid rows are dropped and counted;
+ * a document of the wrong kind / version, or an oversized section, is rejected.
+ */
+export const parseDecisionImportPayload = (
+  value: unknown
+): { ok: true; payload: DecisionImportPayload; invalidCount: number } | { ok: false; error: string } => {
+  if (!isRecord(value) || value.kind !== DECISION_EXPORT_KIND) {
+    return { ok: false, error: "invalid_export_document" };
+  }
+
+  if (value.version !== DECISION_EXPORT_VERSION) {
+    return { ok: false, error: "unsupported_export_version" };
+  }
+
+  const decisions = parseSection(value.decisions, parseDecisionRow);
+  const watchlist = parseSection(value.watchlist, parseWatchlistRow);
+  const generatedCards = parseSection(value.generated_cards, parseGeneratedCardRow);
+  if (!decisions || !watchlist || !generatedCards) {
+    return { ok: false, error: "import_too_large" };
+  }
+
+  return {
+    ok: true,
+    payload: {
+      kind: DECISION_EXPORT_KIND,
+      version: DECISION_EXPORT_VERSION,
+      decisions: decisions.rows,
+      watchlist: watchlist.rows,
+      generated_cards: generatedCards.rows
+    },
+    invalidCount: decisions.invalidCount + watchlist.invalidCount + generatedCards.invalidCount
+  };
+};
+
+const createSkipCounts = (): Record<DecisionImportSkipReason, number> => ({
+  duplicate_in_file: 0,
+  already_exists: 0,
+  card_not_found: 0,
+  limit_reached: 0
+});
+
+/**
+ * Deduplicates import rows by `judgment_card_id`: the first row in the file
+ * wins, rows the account already has are skipped, and rows whose card no
+ * longer exists are dropped. `remainingSlots` (free plan) caps the rows that
+ * count toward the limit; `countsTowardLimit` defaults to every row.
+ */
+export const planDecisionImport = <T extends { judgment_card_id: string }>(params: {
+  rows: T[];
+  existingCardIds: Iterable<string>;
+  knownCardIds?: Iterable<string> | null;
+  remainingSlots?: number | null;
+  countsTowardLimit?: (row: T) => boolean;
+}): DecisionImportPlan<T> => {
+  const existing = new Set(params.existingCardIds);
+  const known = params.knownCardIds ? new Set(params.knownCardIds) : null;
+  const seen = new Set<string>();
+  const skipped = createSkipCounts();
+  const rows: T[] = [];
+  let remainingSlots = params.remainingSlots ?? null;
+
+  for (const row of params.rows) {
+    if (seen.has(row.judgment_card_id)) {
+      skipped.duplicate_in_file += 1;
+      continue;
+    }
+    seen.add(row.judgment_card_id);
+
+    if (existing.has(row.judgment_card_id)) {
+      skipped.already_exists += 1;
+      continue;
+    }
+
+    if (known && !known.has(row.judgment_card_id)) {
+      skipped.card_not_found += 1;
+      continue;
+    }
+
+    const countsTowardLimit = params.countsTowardLimit?.(row) ?? true;
+    if (remainingSlots !== null && countsTowardLimit) {
+      if (remainingSlots <= 0) {
+        skipped.limit_reached += 1;
+        continue;
+      }
+      remainingSlots -= 1;
+    }
+
+    rows.push(row);
+  }
+
+  return { rows, skipped };
+};
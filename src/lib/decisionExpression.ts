@@ -0,0 +1,286 @@
+/**
+ * Arithmetic formulas for user-defined decision frames, such as `cost / hours`.
+ * A small recursive-descent parser turns the text into a tree that is walked
+ * to evaluate it, so user input never reaches `eval` or `Function`.
+ *
+ * Supported: numbers, the frame's own variables, `+ - * /` (also `× ÷`),
+ * parentheses, unary minus and `min` / `max` / `abs` / `round`.
+ */
+
+export const DECISION_EXPRESSION_MAX_LENGTH = 200;
+const MAX_NESTING_DEPTH = 16;
+
+export type DecisionExpressionFunction = "min" | "max" | "abs" | "round";
+
+export type DecisionExpression =
+  | { kind: "number"; value: number }
+  | { kind: "variable"; name: string }
+  | { kind: "negate"; operand: DecisionExpression }
+  | { kind: "binary"; operator: "+" | "-" | "*" | "/"; left: DecisionExpression; right: DecisionExpression }
+  | { kind: "call"; name: DecisionExpressionFunction; args: DecisionExpression[] };
+
+export type DecisionExpressionError =
+  | "formula_empty"
+  | "formula_too_long"
+  | "formula_syntax_error"
+  | "formula_unknown_variable"
+  | "formula_unknown_function"
+  | "formula_too_deep";
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "identifier"; value: string }
+  | { type: "operator"; value: "+" | "-" | "*" | "/" }
+  | { type: "paren"; value: "(" | ")" }
+  | { type: "comma" };
+
+const FUNCTION_ARITY: Record<DecisionExpressionFunction, { min: number; max: number }> = {
+  min: { min: 1, max: 8 },
+  max: { min: 1, max: 8 },
+  abs: { min: 1, max: 1 },
+  round: { min: 1, max: 1 }
+};
+
+const OPERATOR_ALIASES: Record<string, "+" | "-" | "*" | "/"> = {
+  "+": "+",
+  "-": "-",
+  "−": "-",
+  "*": "*",
+  "×": "*",
+  "/": "/",
+  "÷": "/"
+};
+
+class ExpressionSyntaxError extends Error {
+  readonly code: DecisionExpressionError;
+
+  constructor(code: DecisionExpressionError) {
+    super(code);
+    this.code = code;
+  }
+}
+
+const isFunctionName = (value: string): value is DecisionExpressionFunction => Object.hasOwn(FUNCTION_ARITY, value);
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let cursor = 0;
+
+  while (cursor < source.length) {
+    const char = source[cursor];
+
+    if (/\s/.test(char)) {
+      cursor += 1;
+      continue;
+    }
+
+    const number = /^(?:\d+(?:\.\d+)?|\.\d+)/.exec(source.slice(cursor));
+    if (number) {
+      tokens.push({ type: "number", value: Number(number[0]) });
+      cursor += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(cursor));
+    if (identifier) {
+      tokens.push({ type: "identifier", value: identifier[0] });
+      cursor += identifier[0].length;
+      continue;
+    }
+
+    if (OPERATOR_ALIASES[char]) {
+      tokens.push({ type: "operator", value: OPERATOR_ALIASES[char] });
+    } else if (char === "(" || char === ")") {
+      tokens.push({ type: "paren", value: char });
+    } else if (char === ",") {
+      tokens.push({ type: "comma" });
+    } else {
+      throw new ExpressionSyntaxError("formula_syntax_error");
+    }
+    cursor += 1;
+  }
+
+  return tokens;
+};
+
+const parseTokens = (tokens: Token[], variables: ReadonlySet<string>): DecisionExpression => {
+  let position = 0;
+  let depth = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+  /** Consumes and returns the next token when it is one of `operators`. */
+  const takeOperator = <T extends "+" | "-" | "*" | "/">(...operators: T[]): T | null => {
+    const token = tokens[position];
+    if (token?.type !== "operator" || !operators.includes(token.value as T)) {
+      return null;
+    }
+    position += 1;
+    return token.value as T;
+  };
+  const expectParen = (value: "(" | ")") => {
+    const token = tokens[position];
+    if (token?.type !== "paren" || token.value !== value) {
+      throw new ExpressionSyntaxError("formula_syntax_error");
+    }
+    position += 1;
+  };
+
+  const enter = () => {
+    depth += 1;
+    if (depth > MAX_NESTING_DEPTH) {
+      throw new ExpressionSyntaxError("formula_too_deep");
+    }
+  };
+
+  const parseSum = (): DecisionExpression => {
+    let left = parseProduct();
+    for (let operator = takeOperator("+", "-"); operator; operator = takeOperator("+", "-")) {
+      left = { kind: "binary", operator, left, right: parseProduct() };
+    }
+    return left;
+  };
+
+  const parseProduct = (): DecisionExpression => {
+    let left = parseUnary();
+    for (let operator = takeOperator("*", "/"); operator; operator = takeOperator("*", "/")) {
+      left = { kind: "binary", operator, left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): DecisionExpression => {
+    const sign = takeOperator("+", "-");
+    if (sign) {
+      enter();
+      const operand = parseUnary();
+      depth -= 1;
+      return sign === "-" ? { kind: "negate", operand } : operand;
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): DecisionExpression => {
+    const token = tokens[position];
+    if (!token) {
+      throw new ExpressionSyntaxError("formula_syntax_error");
+    }
+    position += 1;
+
+    if (token.type === "number") {
+      return { kind: "number", value: token.value };
+    }
+
+    if (token.type === "paren" && token.value === "(") {
+      enter();
+      const inner = parseSum();
+      depth -= 1;
+      expectParen(")");
+      return inner;
+    }
+
+    if (token.type !== "identifier") {
+      throw new ExpressionSyntaxError("formula_syntax_error");
+    }
+
+    const next = peek();
+    if (next?.type === "paren" && next.value === "(") {
+      const name = token.value.toLowerCase();
+      if (!isFunctionName(name)) {
+        throw new ExpressionSyntaxError("formula_unknown_function");
+      }
+
+      position += 1;
+      enter();
+      const args = [parseSum()];
+      while (peek()?.type === "comma") {
+        position += 1;
+        args.push(parseSum());
+      }
+      depth -= 1;
+      expectParen(")");
+
+      const arity = FUNCTION_ARITY[name];
+      if (args.length < arity.min || args.length > arity.max) {
+        throw new ExpressionSyntaxError("formula_syntax_error");
+      }
+      return { kind: "call", name, args };
+    }
+
+    if (!variables.has(token.value)) {
+      throw new ExpressionSyntaxError("formula_unknown_variable");
+    }
+    return { kind: "variable", name: token.value };
+  };
+
+  const expression = parseSum();
+  if (position !== tokens.length) {
+    throw new ExpressionSyntaxError("formula_syntax_error");
+  }
+  return expression;
+};
+
+/** Parses `source`, accepting only the given variable names. */
+export const parseDecisionExpression = (
+  source: string,
+  variables: readonly string[]
+): { ok: true; expression: DecisionExpression } | { ok: false; error: DecisionExpressionError } => {
+  // NFKC turns full-width digits, letters and `＋（）` into their ASCII forms.
+  const normalized = source.normalize("NFKC").trim();
+  if (!normalized) {
+    return { ok: false, error: "formula_empty" };
+  }
+  if (normalized.length > DECISION_EXPRESSION_MAX_LENGTH) {
+    return { ok: false, error: "formula_too_long" };
+  }
+
+  try {
+    return { ok: true, expression: parseTokens(tokenize(normalized), new Set(variables)) };
+  } catch (error) {
+    if (error instanceof ExpressionSyntaxError) {
+      return { ok: false, error: error.code };
+    }
+    throw error;
+  }
+};
+
+/** Null when a variable is missing, a division is by zero, or the result is not finite. */
+export const evaluateDecisionExpression = (
+  expression: DecisionExpression,
+  values: Readonly<Record<string, number | undefined>>
+): number | null => {
+  const evaluate = (node: DecisionExpression): number | null => {
+    switch (node.kind) {
+      case "number":
+        return node.value;
+      case "variable": {
+        const value = values[node.name];
+        return typeof value === "number" && Number.isFinite(value) ? value : null;
+      }
+      case "negate": {
+        const operand = evaluate(node.operand);
+        return operand === null ? null : -operand;
+      }
+      case "binary": {
+        const left = evaluate(node.left);
+        const right = evaluate(node.right);
+        if (left === null || right === null) return null;
+        if (node.operator === "+") return left + right;
+        if (node.operator === "-") return left - right;
+        if (node.operator === "*") return left * right;
+        return right === 0 ? null : left / right;
+      }
+      case "call": {
+        const args = node.args.map(evaluate);
+        if (args.some((arg) => arg === null)) return null;
+        const numbers = args as number[];
+        if (node.name === "min") return Math.min(...numbers);
+        if (node.name === "max") return Math.max(...numbers);
+        if (node.name === "abs") return Math.abs(numbers[0]);
+        return Math.round(numbers[0]);
+      }
+    }
+  };
+
+  const result = evaluate(expression);
+  return result !== null && Number.isFinite(result) ? result : null;
+};
@@ -0,0 +1,89 @@
+/**
+ * Retry policy for the `email_outbox` table.
+ *
+ * A failed send is retried with exponential backoff until `max_attempts` is
+ * reached; permanent failures (invalid address, rejected content) go straight
+ * to `dead`.
+ */
+
+export const EMAIL_OUTBOX_STATUSES = ["pending", "sending", "sent", "failed", "dead"] as const;
+export type EmailOutboxStatus = (typeof EMAIL_OUTBOX_STATUSES)[number];
+
+export const EMAIL_OUTBOX_MAX_ATTEMPTS = 5;
+export const EMAIL_OUTBOX_BASE_RETRY_DELAY_MINUTES = 5;
+export const EMAIL_OUTBOX_MAX_RETRY_DELAY_MINUTES = 6 * 60;
+/** Rows left in `sending` longer than this (a crashed run) are picked up again. */
+export const EMAIL_OUTBOX_STALE_SENDING_MINUTES = 15;
+/** `to_email` left on rows whose recipient is forgotten after the attempt (mail to a deleted account). */
+export const EMAIL_OUTBOX_FORGOTTEN_RECIPIENT = "forgotten";
+
+export type EmailSendAttemptResult =
+  | { ok: true; providerMessageId: string | null }
+  | { ok: false; error: string; retryable: boolean };
+
+export type EmailOutboxAttemptUpdate = {
+  status: EmailOutboxStatus;
+  attempt_count: number;
+  last_attempt_at: string;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  provider_message_id?: string | null;
+  sent_at?: string;
+  transport: string | null;
+  to_email?: string;
+};
+
+/** 5, 10, 20, 40 ... minutes after the nth failed attempt, capped at 6 hours. */
+export const resolveEmailRetryDelayMinutes = (attemptCount: number): number => {
+  const exponent = Math.max(0, attemptCount - 1);
+  return Math.min(EMAIL_OUTBOX_BASE_RETRY_DELAY_MINUTES * 2 ** exponent, EMAIL_OUTBOX_MAX_RETRY_DELAY_MINUTES);
+};
+
+/**
+ * With `forgetRecipient` the address is cleared in the same update and the
+ * attempt is final either way, since a retry would have nowhere to go.
+ */
+export const resolveOutboxAttemptUpdate = (params: {
+  previousAttemptCount: number;
+  maxAttempts: number;
+  transport: string | null;
+  result: EmailSendAttemptResult;
+  forgetRecipient?: boolean;
+  now?: Date;
+}): EmailOutboxAttemptUpdate => {
+  const now = params.now ?? new Date();
+  const attemptCount = params.previousAttemptCount + 1;
+  const base = {
+    attempt_count: attemptCount,
+    last_attempt_at: now.toISOString(),
+    transport: params.transport,
+    ...(params.forgetRecipient ? { to_email: EMAIL_OUTBOX_FORGOTTEN_RECIPIENT } : {})
+  };
+
+  if (params.result.ok) {
+    return {
+      ...base,
+      status: "sent",
+      next_attempt_at: null,
+      last_error: null,
+      provider_message_id: params.result.providerMessageId,
+      sent_at: now.toISOString()
+    };
+  }
+
+  if (!params.result.retryable || params.forgetRecipient || attemptCount >= params.maxAttempts) {
+    return {
+      ...base,
+      status: "dead",
+      next_attempt_at: null,
+      last_error: params.result.error
+    };
+  }
+
+  return {
+    ...base,
+    status: "failed",
+    next_attempt_at: new Date(now.getTime() + resolveEmailRetryDelayMinutes(attemptCount) * 60_000).toISOString(),
+    last_error: params.result.error
+  };
+};
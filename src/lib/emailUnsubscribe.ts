@@ -0,0 +1,50 @@
+import type { AlertType, UserNotificationPreferences } from "./alerts.ts";
+
+/**
+ * What a signed unsubscribe link turns off. Each alert email carries the
+ * scope of its own alert type; `all` is for links that stop every alert email.
+ */
+export const EMAIL_UNSUBSCRIBE_SCOPES = ["weekly_digest", "deadline_alert", "outcome_reminder", "all"] as const;
+export type EmailUnsubscribeScope = (typeof EMAIL_UNSUBSCRIBE_SCOPES)[number];
+
+export const EMAIL_UNSUBSCRIBE_SCOPE_LABELS: Record<EmailUnsubscribeScope, string> = {
+  weekly_digest: "週ごとのまとめ",
+  deadline_alert: "期限と保存中のお知らせ",
+  outcome_reminder: "結果の記録リマインド",
+  all: "すべてのお知らせメール"
+};
+
+/** Where a notification preference change came from, recorded in the audit log. */
+export const NOTIFICATION_PREFERENCE_CHANGE_SOURCES = ["settings", "unsubscribe_link"] as const;
+export type NotificationPreferenceChangeSource = (typeof NOTIFICATION_PREFERENCE_CHANGE_SOURCES)[number];
+
+const SCOPE_BY_ALERT_TYPE: Record<AlertType, Exclude<EmailUnsubscribeScope, "all">> = {
+  deadline_due_soon: "deadline_alert",
+  watchlist_due_soon: "deadline_alert",
+  outcome_reminder: "outcome_reminder",
+  weekly_digest_ready: "weekly_digest"
+};
+
+export const isEmailUnsubscribeScope = (value: unknown): value is EmailUnsubscribeScope => {
+  return typeof value === "string" && (EMAIL_UNSUBSCRIBE_SCOPES as readonly string[]).includes(value);
+};
+
+export const resolveEmailUnsubscribeScope = (alertType: AlertType): EmailUnsubscribeScope => {
+  return SCOPE_BY_ALERT_TYPE[alertType];
+};
+
+export const applyEmailUnsubscribeScope = (
+  preferences: UserNotificationPreferences,
+  scope: EmailUnsubscribeScope
+): UserNotificationPreferences => {
+  switch (scope) {
+    case "weekly_digest":
+      return { ...preferences, weeklyDigestEnabled: false };
+    case "deadline_alert":
+      return { ...preferences, deadlineAlertEnabled: false };
+    case "outcome_reminder":
+      return { ...preferences, outcomeReminderEnabled: false };
+    case "all":
+      return { ...preferences, weeklyDigestEnabled: false, deadlineAlertEnabled: false, outcomeReminderEnabled: false };
+  }
+};
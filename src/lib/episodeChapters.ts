@@ -0,0 +1,317 @@
+/**
+ * Chapter markers derived from the `[HEADING]` sections of an episode script.
+ *
+ * When TTS synthesized the script section by section, the measured offsets
+ * are stored as `episodes.audio_sections` and used as is. Older audio only
+ * has a total duration, so section start times are estimated by spreading it
+ * over the spoken characters of each section. Without a duration the
+ * script's own reading pace is assumed.
+ */
+
+export type EpisodeScriptSection = {
+  heading: string;
+  body: string;
+};
+
+export type EpisodeChapter = {
+  heading: string;
+  title: string;
+  /** `topic_order` of the judgment card a DeepDive section talks about. */
+  topicOrder: number | null;
+  startTime: number;
+  endTime: number;
+};
+
+/**
+ * One TTS request inside a section (a VOICEVOX sentence, an OpenAI chunk).
+ * `chars` counts the spoken characters of the text that was synthesized.
+ */
+export type EpisodeAudioChunk = {
+  startSec: number;
+  durationSec: number;
+  chars: number;
+};
+
+/** Measured position of one script section inside the synthesized audio. */
+export type EpisodeAudioSection = {
+  heading: string;
+  startSec: number;
+  durationSec: number;
+  chunks?: EpisodeAudioChunk[];
+};
+
+export type EpisodeAudioSegment = {
+  heading: string;
+  text: string;
+};
+
+export type PodcastChaptersDocument = {
+  version: "1.2.0";
+  chapters: Array<{
+    startTime: number;
+    title: string;
+  }>;
+};
+
+export const PODCAST_CHAPTERS_CONTENT_TYPE = "application/json+chapters";
+
+/** Same pace the script gate uses to size a Japanese episode. */
+export const ESTIMATED_JA_CHARS_PER_SECOND = 300 / 60;
+
+const SECTION_MARKER_PATTERN = /^\[([^\]]+)\]\s*$/;
+const UNSPOKEN_SECTION_PATTERN = /^SOURCES(?:_FOR_UI)?$/i;
+const TOPIC_SECTION_PATTERN = /^(?:DEEPDIVE|MAIN TOPIC)\s+(\d+)$/i;
+
+const SECTION_TITLES: Record<string, string> = {
+  OP: "オープニング",
+  OPENING: "オープニング",
+  HEADLINE: "ヘッドライン",
+  "QUICK NEWS": "クイックニュース",
+  LETTERS: "お便り",
+  "LETTERS CORNER": "お便り",
+  OUTRO: "エンディング",
+  CLOSING: "エンディング"
+};
+
+/** Mirrors `parseScriptSections` in the edge functions; text before the first marker is dropped. */
+export const parseEpisodeScriptSections = (script: string | null | undefined): EpisodeScriptSection[] => {
+  const sections: EpisodeScriptSection[] = [];
+  let activeHeading: string | null = null;
+  let activeLines: string[] = [];
+
+  const flush = () => {
+    if (!activeHeading) return;
+    sections.push({
+      heading: activeHeading,
+      body: activeLines.join("\n").trim()
+    });
+    activeHeading = null;
+    activeLines = [];
+  };
+
+  for (const line of (script ?? "").split(/\r?\n/)) {
+    const marker = line.match(SECTION_MARKER_PATTERN);
+    if (marker) {
+      flush();
+      activeHeading = marker[1].trim();
+      continue;
+    }
+
+    if (activeHeading) {
+      activeLines.push(line);
+    }
+  }
+
+  flush();
+  return sections;
+};
+
+/** Sections that are read aloud, in script order. */
+export const resolveSpokenSections = (script: string | null | undefined): EpisodeScriptSection[] => {
+  return parseEpisodeScriptSections(script).filter(
+    (section) => section.body.length > 0 && !UNSPOKEN_SECTION_PATTERN.test(section.heading)
+  );
+};
+
+export const countSpokenChars = (text: string): number => {
+  return text.replace(/\s+/g, "").length;
+};
+
+export const resolveTopicOrder = (heading: string): number | null => {
+  const topicMatch = heading.trim().toUpperCase().match(TOPIC_SECTION_PATTERN);
+  return topicMatch ? Number(topicMatch[1]) : null;
+};
+
+/**
+ * Splits a script into the pieces TTS reads one by one. Unlike
+ * `resolveSpokenSections`, nothing is dropped: text before the first marker
+ * joins the first section and `[SOURCES]` stays, so the audio says exactly
+ * what an unsectioned synthesis would.
+ */
+export const splitEpisodeScriptForAudio = (script: string | null | undefined): EpisodeAudioSegment[] => {
+  const segments: EpisodeAudioSegment[] = [];
+  const preamble: string[] = [];
+
+  for (const line of (script ?? "").split(/\r?\n/)) {
+    const marker = line.match(SECTION_MARKER_PATTERN);
+    if (marker) {
+      segments.push({ heading: marker[1].trim(), text: "" });
+      continue;
+    }
+
+    const active = segments.at(-1);
+    if (active) {
+      active.text = active.text ? `${active.text}\n${line}` : line;
+    } else {
+      preamble.push(line);
+    }
+  }
+
+  if (segments.length > 0 && preamble.some((line) => line.trim())) {
+    segments[0].text = `${preamble.join("\n")}\n${segments[0].text}`;
+  }
+
+  return segments
+    .map((segment) => ({ heading: segment.heading, text: segment.text.trim() }))
+    .filter((segment) => segment.text.length > 0);
+};
+
+const isNonNegativeNumber = (value: unknown): value is number => {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+};
+
+const parseEpisodeAudioChunks = (value: unknown): EpisodeAudioChunk[] | undefined => {
+  if (!Array.isArray(value) || value.length === 0) {
+    return undefined;
+  }
+
+  const chunks: EpisodeAudioChunk[] = [];
+  for (const item of value) {
+    const record = item as Partial<EpisodeAudioChunk> | null;
+    if (
+      !record ||
+      !isNonNegativeNumber(record.startSec) ||
+      !isNonNegativeNumber(record.durationSec) ||
+      !isNonNegativeNumber(record.chars)
+    ) {
+      return undefined;
+    }
+    chunks.push({ startSec: record.startSec, durationSec: record.durationSec, chars: record.chars });
+  }
+
+  return chunks;
+};
+
+/**
+ * Reads `episodes.audio_sections`; a malformed section makes the whole list
+ * count as missing, malformed chunk timings only drop that section's chunks.
+ */
+export const parseEpisodeAudioSections = (value: unknown): EpisodeAudioSection[] | null => {
+  if (!Array.isArray(value) || value.length === 0) {
+    return null;
+  }
+
+  const sections: EpisodeAudioSection[] = [];
+  for (const item of value) {
+    const record = item as (Partial<EpisodeAudioSection> & { chunks?: unknown }) | null;
+    if (
+      !record ||
+      typeof record.heading !== "string" ||
+      !isNonNegativeNumber(record.startSec) ||
+      !isNonNegativeNumber(record.durationSec)
+    ) {
+      return null;
+    }
+
+    const chunks = parseEpisodeAudioChunks(record.chunks);
+    sections.push({
+      heading: record.heading,
+      startSec: record.startSec,
+      durationSec: record.durationSec,
+      ...(chunks ? { chunks } : {})
+    });
+  }
+
+  return sections;
+};
+
+export const resolveChapterTitle = (
+  heading: string,
+  judgmentCards: Array<{ topic_order: number; topic_title: string }> = []
+): string => {
+  const normalized = heading.trim().toUpperCase();
+  const topicOrder = resolveTopicOrder(normalized);
+  if (topicOrder !== null) {
+    const topicTitle = judgmentCards.find((card) => card.topic_order === topicOrder)?.topic_title.trim();
+    return topicTitle ? `深掘り${topicOrder}: ${topicTitle}` : `深掘り${topicOrder}`;
+  }
+
+  return SECTION_TITLES[normalized] ?? heading.trim();
+};
+
+const roundSeconds = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Pairs every spoken section with its measured audio section, in order.
+ * Returns null unless all of them are found, so a script edited after
+ * synthesis falls back to the estimate instead of mixing the two.
+ */
+export const matchAudioSections = (
+  sections: EpisodeScriptSection[],
+  audioSections: EpisodeAudioSection[]
+): EpisodeAudioSection[] | null => {
+  const matched: EpisodeAudioSection[] = [];
+  let cursor = 0;
+
+  for (const section of sections) {
+    const heading = section.heading.toUpperCase();
+    while (cursor < audioSections.length && audioSections[cursor].heading.trim().toUpperCase() !== heading) {
+      cursor += 1;
+    }
+    if (cursor >= audioSections.length) {
+      return null;
+    }
+    matched.push(audioSections[cursor]);
+    cursor += 1;
+  }
+
+  return matched;
+};
+
+/**
+ * Timeline of the spoken sections. Measured audio sections win; otherwise
+ * each section's share of the audio follows its share of the spoken characters.
+ */
+export const buildEpisodeChapters = (params: {
+  script: string | null | undefined;
+  durationSec?: number | null;
+  audioSections?: EpisodeAudioSection[] | null;
+  judgmentCards?: Array<{ topic_order: number; topic_title: string }>;
+}): EpisodeChapter[] => {
+  const sections = resolveSpokenSections(params.script);
+  const charCounts = sections.map((section) => countSpokenChars(section.body));
+  const totalChars = charCounts.reduce((sum, count) => sum + count, 0);
+  if (sections.length === 0 || totalChars === 0) {
+    return [];
+  }
+
+  const measured = params.audioSections ? matchAudioSections(sections, params.audioSections) : null;
+  if (measured) {
+    return sections.map((section, index) => ({
+      heading: section.heading,
+      title: resolveChapterTitle(section.heading, params.judgmentCards),
+      topicOrder: resolveTopicOrder(section.heading),
+      startTime: roundSeconds(measured[index].startSec),
+      endTime: roundSeconds(measured[index].startSec + measured[index].durationSec)
+    }));
+  }
+
+  const durationSec =
+    typeof params.durationSec === "number" && Number.isFinite(params.durationSec) && params.durationSec > 0
+      ? params.durationSec
+      : totalChars / ESTIMATED_JA_CHARS_PER_SECOND;
+
+  let elapsedChars = 0;
+  return sections.map((section, index) => {
+    const startTime = roundSeconds((durationSec * elapsedChars) / totalChars);
+    elapsedChars += charCounts[index];
+
+    return {
+      heading: section.heading,
+      title: resolveChapterTitle(section.heading, params.judgmentCards),
+      topicOrder: resolveTopicOrder(section.heading),
+      startTime,
+      endTime: roundSeconds((durationSec * elapsedChars) / totalChars)
+    };
+  });
+};
+
+export const buildPodcastChaptersDocument = (chapters: EpisodeChapter[]): PodcastChaptersDocument => {
+  return {
+    version: "1.2.0",
+    chapters: chapters.map((chapter) => ({
+      startTime: chapter.startTime,
+      title: chapter.title
+    }))
+  };
+};
@@ -9,3 +9,11 @@ export const buildPublicEpisodePath = (episodeId: string): string => {
 export const buildPublicEpisodeUrl = (episodeId: string, siteUrl = EPISODE_PUBLIC_BASE_URL): string => {
   return `${siteUrl}${buildPublicEpisodePath(episodeId)}`;
 };
+
+export const buildEpisodeChaptersPath = (episodeId: string): string => {
+  return `/api/episodes/${episodeId}/chapters`;
+};
+
+export const buildEpisodeTranscriptPath = (episodeId: string, format: "vtt" | "srt"): string => {
+  return `/api/episodes/${episodeId}/transcript?format=${format}`;
+};
@@ -0,0 +1,157 @@
+import {
+  buildEpisodeChapters,
+  countSpokenChars,
+  matchAudioSections,
+  resolveSpokenSections,
+  type EpisodeAudioChunk,
+  type EpisodeAudioSection,
+  type EpisodeChapter
+} from "./episodeChapters.ts";
+
+export const EPISODE_TRANSCRIPT_FORMATS = ["vtt", "srt"] as const;
+export type EpisodeTranscriptFormat = (typeof EPISODE_TRANSCRIPT_FORMATS)[number];
+
+export const EPISODE_TRANSCRIPT_CONTENT_TYPES: Record<EpisodeTranscriptFormat, string> = {
+  vtt: "text/vtt",
+  srt: "application/x-subrip"
+};
+
+export type TranscriptCue = {
+  startTime: number;
+  endTime: number;
+  text: string;
+};
+
+const SENTENCE_PATTERN = /[^。！？!?\n]+[。！？!?]*/gu;
+
+export const isEpisodeTranscriptFormat = (value: unknown): value is EpisodeTranscriptFormat => {
+  return typeof value === "string" && (EPISODE_TRANSCRIPT_FORMATS as readonly string[]).includes(value);
+};
+
+export const splitTranscriptSentences = (text: string): string[] => {
+  return Array.from(text.matchAll(SENTENCE_PATTERN), (match) => match[0].trim()).filter(
+    (sentence) => countSpokenChars(sentence) > 0
+  );
+};
+
+const roundMs = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+/**
+ * Time at `fraction` of a section's spoken characters. Measured TTS chunks
+ * pin the clock down chunk by chunk; without them the chapter span is
+ * spread evenly.
+ */
+const resolveSectionTime = (
+  chapter: EpisodeChapter,
+  chunks: EpisodeAudioChunk[] | undefined,
+  fraction: number
+): number => {
+  const totalChars = chunks?.reduce((sum, chunk) => sum + chunk.chars, 0) ?? 0;
+  if (!chunks || totalChars === 0) {
+    return chapter.startTime + (chapter.endTime - chapter.startTime) * fraction;
+  }
+
+  let remaining = fraction * totalChars;
+  for (const chunk of chunks) {
+    if (chunk.chars > 0 && remaining <= chunk.chars) {
+      return chunk.startSec + (chunk.durationSec * remaining) / chunk.chars;
+    }
+    remaining -= chunk.chars;
+  }
+
+  const last = chunks[chunks.length - 1];
+  return last.startSec + last.durationSec;
+};
+
+/**
+ * One cue per sentence. Sentences share their section's time span by
+ * character count, so cues line up with the chapter markers.
+ */
+export const buildTranscriptCues = (params: {
+  script: string | null | undefined;
+  durationSec?: number | null;
+  audioSections?: EpisodeAudioSection[] | null;
+}): TranscriptCue[] => {
+  const sections = resolveSpokenSections(params.script);
+  const chapters = buildEpisodeChapters(params);
+  const measured = params.audioSections ? matchAudioSections(sections, params.audioSections) : null;
+  const cues: TranscriptCue[] = [];
+
+  sections.forEach((section, index) => {
+    const chapter = chapters[index];
+    const sentences = splitTranscriptSentences(section.body);
+    const sectionChars = sentences.reduce((sum, sentence) => sum + countSpokenChars(sentence), 0);
+    if (!chapter || sectionChars === 0) return;
+
+    const chunks = measured?.[index].chunks;
+    let elapsedChars = 0;
+    for (const sentence of sentences) {
+      const startTime = resolveSectionTime(chapter, chunks, elapsedChars / sectionChars);
+      elapsedChars += countSpokenChars(sentence);
+      cues.push({
+        startTime: roundMs(startTime),
+        endTime: roundMs(resolveSectionTime(chapter, chunks, elapsedChars / sectionChars)),
+        text: sentence
+      });
+    }
+  });
+
+  return cues;
+};
+
+/**
+ * Leading cues that fit in `maxChars` spoken characters, for viewers who may
+ * only read the free preview of the script.
+ */
+export const limitTranscriptCues = (cues: TranscriptCue[], maxChars: number): TranscriptCue[] => {
+  const limited: TranscriptCue[] = [];
+  let spokenChars = 0;
+  for (const cue of cues) {
+    spokenChars += countSpokenChars(cue.text);
+    if (spokenChars > maxChars) break;
+    limited.push(cue);
+  }
+  return limited;
+};
+
+export const formatTranscriptTimestamp = (seconds: number, format: EpisodeTranscriptFormat): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3_600_000);
+  const m = Math.floor((totalMs % 3_600_000) / 60_000);
+  const s = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const separator = format === "srt" ? "," : ".";
+
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}${separator}${String(ms).padStart(3, "0")}`;
+};
+
+export const buildTranscriptVtt = (cues: TranscriptCue[]): string => {
+  const blocks = cues.map(
+    (cue) =>
+      `${formatTranscriptTimestamp(cue.startTime, "vtt")} --> ${formatTranscriptTimestamp(cue.endTime, "vtt")}\n${cue.text}`
+  );
+  return `WEBVTT\n\n${blocks.join("\n\n")}\n`;
+};
+
+export const buildTranscriptSrt = (cues: TranscriptCue[]): string => {
+  const blocks = cues.map(
+    (cue, index) =>
+      `${index + 1}\n${formatTranscriptTimestamp(cue.startTime, "srt")} --> ${formatTranscriptTimestamp(cue.endTime, "srt")}\n${cue.text}`
+  );
+  return `${blocks.join("\n\n")}\n`;
+};
+
+export const buildEpisodeTranscript = (
+  params: {
+    script: string | null | undefined;
+    durationSec?: number | null;
+    audioSections?: EpisodeAudioSection[] | null;
+    /** Spoken characters the viewer may read; `null` or omitted serves the whole script. */
+    maxChars?: number | null;
+  },
+  format: EpisodeTranscriptFormat
+): string => {
+  const allCues = buildTranscriptCues(params);
+  const cues = typeof params.maxChars === "number" ? limitTranscriptCues(allCues, params.maxChars) : allCues;
+  return format === "srt" ? buildTranscriptSrt(cues) : buildTranscriptVtt(cues);
+};
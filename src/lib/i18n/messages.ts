@@ -83,6 +83,8 @@ const episodes = {
     next: "次へ",
     nothingPlaying: "再生中のエピソードはありません",
     activeBadge: "再生中",
+    listeningInProgressBadge: "途中まで",
+    listeningFinishedBadge: "聴了",
     selectedBadge: "選択中",
     untitled: "無題エピソード"
   },
@@ -153,6 +155,8 @@ const episodes = {
     next: "Next",
     nothingPlaying: "Nothing is playing",
     activeBadge: "Playing",
+    listeningInProgressBadge: "In progress",
+    listeningFinishedBadge: "Finished",
     selectedBadge: "Selected",
     untitled: "Untitled Episode"
   }
@@ -168,8 +172,16 @@ const jobRuns = {
     showAll: "すべて表示",
     showFailedOnly: "失敗のみ表示",
     retryTitle: "再実行",
-    retryCaption: "ローカル検証向けに daily-generate を再実行します。",
+    retryCaption: "ローカル検証向けに daily-generate を再実行します。完了したステップはチェックポイントから再利用します。",
     episodeDate: "エピソード日付",
+    retryModeLabel: "再実行方法",
+    retryModeFailed: "失敗したステップから再開",
+    retryModeFrom: "指定ステップから再実行",
+    retryModeOnly: "指定ステップのみ再実行",
+    retryModeFull: "最初からすべて再実行",
+    retryStepLabel: "ステップ",
+    stoppedBeforeLabel: "停止位置",
+    checkpointLabel: "チェックポイント",
     retryButton: "daily-generate を再実行",
     retrying: "再実行中...",
     loadErrorPrefix: "監査データの読み込みに失敗しました",
@@ -209,8 +221,16 @@ const jobRuns = {
     showAll: "show all",
     showFailedOnly: "failed only",
     retryTitle: "Retry",
-    retryCaption: "Re-run daily-generate for local verification.",
+    retryCaption: "Re-run daily-generate for local verification. Finished steps are reused from their checkpoints.",
     episodeDate: "Episode Date",
+    retryModeLabel: "Mode",
+    retryModeFailed: "Resume from the failed step",
+    retryModeFrom: "Resume from step",
+    retryModeOnly: "Rerun only step",
+    retryModeFull: "Rerun everything",
+    retryStepLabel: "Step",
+    stoppedBeforeLabel: "stopped before",
+    checkpointLabel: "checkpoint",
     retryButton: "Retry daily-generate",
     retrying: "Retrying...",
     loadErrorPrefix: "Failed to load audit data",
@@ -0,0 +1,398 @@
+/**
+ * Structured judgment cards emitted next to the Japanese script by
+ * write-script-ja (from the decision frame it evaluated) and polish-script-ja
+ * (from the model's `judgment_cards` output). Stored as
+ * `episodes.judgment_cards_sidecar` and preferred over `extractJudgmentCards`,
+ * which reads the cards back out of the prose and stays as the fallback.
+ */
+import {
+  computeConfidenceScore,
+  extractJudgmentCards,
+  type JudgmentCard,
+  type JudgmentThresholdEntry,
+  type JudgmentThresholdJson,
+  type JudgmentType
+} from "./judgmentCards.ts";
+
+export const JUDGMENT_CARD_SIDECAR_VERSION = 1;
+export const JUDGMENT_CARD_SIDECAR_MAX_CARDS = 3;
+const MAX_WATCH_POINTS = 5;
+const MAX_CONDITIONS = 5;
+const MAX_THRESHOLDS = 8;
+const FRAME_TYPES = ["Frame A", "Frame B", "Frame C", "Frame D"] as const;
+const JUDGMENT_TYPES: JudgmentType[] = ["use_now", "watch", "skip"];
+const THRESHOLD_KINDS = [
+  "price",
+  "play_time",
+  "watch_time",
+  "monthly_cost",
+  "ad_time",
+  "time_limit",
+  "unit_cost",
+  "ratio"
+] as const;
+
+export type JudgmentCardSidecarSource = "writer" | "polish";
+
+export type JudgmentCardThresholdKind = (typeof THRESHOLD_KINDS)[number];
+
+/** One `threshold_json` entry, flattened so the model can emit it under a strict schema. */
+export type JudgmentCardSidecarThreshold = {
+  kind: JudgmentCardThresholdKind;
+  raw: string;
+  value: number;
+  unit: string;
+  currency: string | null;
+};
+
+export type JudgmentCardSidecarCard = {
+  topic_order: number;
+  topic_title: string;
+  frame_type: string | null;
+  judgment_type: JudgmentType;
+  judgment_summary: string;
+  action_text: string | null;
+  deadline_at: string | null;
+  /** Decision boundaries and the inputs they are compared with. */
+  thresholds: JudgmentCardSidecarThreshold[];
+  /** Non-numeric conditions; stored as `threshold_json.other`. */
+  conditions: string[];
+  watch_points: string[];
+};
+
+export type JudgmentCardSidecar = {
+  version: typeof JUDGMENT_CARD_SIDECAR_VERSION;
+  source: JudgmentCardSidecarSource;
+  cards: JudgmentCardSidecarCard[];
+};
+
+export type JudgmentCardDiffField =
+  | "card"
+  | "frame_type"
+  | "judgment_type"
+  | "deadline_at"
+  | "watch_points";
+
+export type JudgmentCardDiffEntry = {
+  topic_order: number;
+  field: JudgmentCardDiffField;
+  sidecar: unknown;
+  extracted: unknown;
+};
+
+export type JudgmentCardResolution = {
+  cards: JudgmentCard[];
+  source: "sidecar" | "extracted";
+  /** Why the sidecar was not used; empty when it was. */
+  sidecarErrors: string[];
+  /** Fields where the script text disagrees with the sidecar; empty when the sidecar was not used. */
+  diff: JudgmentCardDiffEntry[];
+};
+
+const NULLABLE_STRING = { type: ["string", "null"] };
+
+/** Schema for the `judgment_cards` array in the polish response (OpenAI strict mode). */
+export const JUDGMENT_CARD_SIDECAR_CARDS_JSON_SCHEMA: Record<string, unknown> = {
+  type: "array",
+  minItems: JUDGMENT_CARD_SIDECAR_MAX_CARDS,
+  maxItems: JUDGMENT_CARD_SIDECAR_MAX_CARDS,
+  items: {
+    type: "object",
+    additionalProperties: false,
+    required: [
+      "topic_order",
+      "topic_title",
+      "frame_type",
+      "judgment_type",
+      "judgment_summary",
+      "action_text",
+      "deadline_at",
+      "thresholds",
+      "conditions",
+      "watch_points"
+    ],
+    properties: {
+      topic_order: { type: "integer", minimum: 1, maximum: JUDGMENT_CARD_SIDECAR_MAX_CARDS },
+      topic_title: { type: "string", minLength: 1 },
+      frame_type: { type: ["string", "null"], enum: [...FRAME_TYPES, null] },
+      judgment_type: { type: "string", enum: JUDGMENT_TYPES },
+      judgment_summary: { type: "string", minLength: 1 },
+      action_text: NULLABLE_STRING,
+      deadline_at: { ...NULLABLE_STRING, description: "ISO 8601 timestamp" },
+      thresholds: {
+        type: "array",
+        maxItems: MAX_THRESHOLDS,
+        items: {
+          type: "object",
+          additionalProperties: false,
+          required: ["kind", "raw", "value", "unit", "currency"],
+          properties: {
+            kind: { type: "string", enum: THRESHOLD_KINDS },
+            raw: { type: "string", minLength: 1 },
+            value: { type: "number" },
+            unit: { type: "string", minLength: 1 },
+            currency: NULLABLE_STRING
+          }
+        }
+      },
+      conditions: { type: "array", maxItems: MAX_CONDITIONS, items: { type: "string", minLength: 1 } },
+      watch_points: { type: "array", maxItems: MAX_WATCH_POINTS, items: { type: "string", minLength: 1 } }
+    }
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+const readText = (value: unknown): string | null => {
+  if (typeof value !== "string") return null;
+  const trimmed = value.replace(/\s+/g, " ").trim();
+  return trimmed.length > 0 ? trimmed : null;
+};
+
+const readTextList = (value: unknown, maxItems: number): string[] | null => {
+  if (!Array.isArray(value) || value.length > maxItems) return null;
+  const items = value.map(readText);
+  return items.every((item): item is string => item !== null) ? items : null;
+};
+
+const readThreshold = (value: unknown): JudgmentCardSidecarThreshold | null => {
+  if (!isRecord(value)) return null;
+  const kind = THRESHOLD_KINDS.find((entry) => entry === value.kind);
+  const raw = readText(value.raw);
+  const unit = readText(value.unit);
+  const currency = value.currency === null || value.currency === undefined ? null : readText(value.currency);
+  if (!kind || !raw || !unit || typeof value.value !== "number" || !Number.isFinite(value.value)) return null;
+  if (value.currency !== null && value.currency !== undefined && !currency) return null;
+  return { kind, raw, value: value.value, unit, currency };
+};
+
+const readCard = (value: unknown, path: string, errors: string[]): JudgmentCardSidecarCard | null => {
+  if (!isRecord(value)) {
+    errors.push(`${path}:not_object`);
+    return null;
+  }
+
+  const startErrors = errors.length;
+  const topicOrder = value.topic_order;
+  if (
+    typeof topicOrder !== "number" ||
+    !Number.isInteger(topicOrder) ||
+    topicOrder < 1 ||
+    topicOrder > JUDGMENT_CARD_SIDECAR_MAX_CARDS
+  ) {
+    errors.push(`${path}.topic_order:invalid`);
+  }
+
+  const topicTitle = readText(value.topic_title);
+  if (!topicTitle) errors.push(`${path}.topic_title:empty`);
+
+  const frameType = value.frame_type === null ? null : FRAME_TYPES.find((entry) => entry === value.frame_type);
+  if (frameType === undefined) errors.push(`${path}.frame_type:invalid`);
+
+  const judgmentType = JUDGMENT_TYPES.find((entry) => entry === value.judgment_type);
+  if (!judgmentType) errors.push(`${path}.judgment_type:invalid`);
+
+  const summary = readText(value.judgment_summary);
+  if (!summary) errors.push(`${path}.judgment_summary:empty`);
+
+  const actionText = value.action_text === null ? null : readText(value.action_text);
+  if (value.action_text !== null && !actionText) errors.push(`${path}.action_text:invalid`);
+
+  const deadlineAt = value.deadline_at === null ? null : readText(value.deadline_at);
+  const deadlineMs = deadlineAt ? Date.parse(deadlineAt) : Number.NaN;
+  if (value.deadline_at !== null && !Number.isFinite(deadlineMs)) errors.push(`${path}.deadline_at:invalid`);
+
+  const thresholds = Array.isArray(value.thresholds) && value.thresholds.length <= MAX_THRESHOLDS
+    ? value.thresholds.map(readThreshold)
+    : null;
+  if (!thresholds || thresholds.some((entry) => entry === null)) errors.push(`${path}.thresholds:invalid`);
+
+  const conditions = readTextList(value.conditions, MAX_CONDITIONS);
+  if (!conditions) errors.push(`${path}.conditions:invalid`);
+
+  const watchPoints = readTextList(value.watch_points, MAX_WATCH_POINTS);
+  if (!watchPoints) errors.push(`${path}.watch_points:invalid`);
+
+  if (errors.length > startErrors) {
+    return null;
+  }
+
+  return {
+    topic_order: topicOrder as number,
+    topic_title: topicTitle as string,
+    frame_type: frameType ?? null,
+    judgment_type: judgmentType as JudgmentType,
+    judgment_summary: summary as string,
+    action_text: actionText,
+    deadline_at: deadlineAt ? new Date(deadlineMs).toISOString() : null,
+    thresholds: thresholds as JudgmentCardSidecarThreshold[],
+    conditions: conditions as string[],
+    watch_points: watchPoints as string[]
+  };
+};
+
+/**
+ * Validates a stored or model-produced sidecar. Every problem is reported as
+ * `<path>:<reason>` so job_runs show why the extractor was used instead.
+ */
+export const parseJudgmentCardSidecar = (
+  value: unknown
+): { ok: true; sidecar: JudgmentCardSidecar } | { ok: false; errors: string[] } => {
+  if (value === null || value === undefined) {
+    return { ok: false, errors: ["sidecar_missing"] };
+  }
+  if (!isRecord(value)) {
+    return { ok: false, errors: ["sidecar_not_object"] };
+  }
+
+  const errors: string[] = [];
+  if (value.version !== JUDGMENT_CARD_SIDECAR_VERSION) {
+    errors.push("version:unsupported");
+  }
+  if (value.source !== "writer" && value.source !== "polish") {
+    errors.push("source:invalid");
+  }
+  if (!Array.isArray(value.cards) || value.cards.length === 0 || value.cards.length > JUDGMENT_CARD_SIDECAR_MAX_CARDS) {
+    errors.push("cards:invalid_length");
+    return { ok: false, errors };
+  }
+
+  const cards = value.cards.map((card, index) => readCard(card, `cards[${index}]`, errors));
+  const orders = cards.map((card) => card?.topic_order);
+  if (new Set(orders).size !== orders.length) {
+    errors.push("cards:duplicate_topic_order");
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    sidecar: {
+      version: JUDGMENT_CARD_SIDECAR_VERSION,
+      source: value.source as JudgmentCardSidecarSource,
+      cards: (cards as JudgmentCardSidecarCard[]).toSorted((left, right) => left.topic_order - right.topic_order)
+    }
+  };
+};
+
+const toThresholdJson = (card: JudgmentCardSidecarCard): JudgmentThresholdJson => {
+  const thresholdJson: JudgmentThresholdJson = {};
+
+  for (const threshold of card.thresholds) {
+    const entry: JudgmentThresholdEntry = { raw: threshold.raw, value: threshold.value, unit: threshold.unit };
+    if (threshold.currency) entry.currency = threshold.currency;
+    (thresholdJson[threshold.kind] ??= []).push(entry);
+  }
+  if (card.conditions.length > 0) {
+    thresholdJson.other = [...card.conditions];
+  }
+
+  return thresholdJson;
+};
+
+/** Converts a validated sidecar into the rows `episode_judgment_cards` stores. */
+export const judgmentCardsFromSidecar = (sidecar: JudgmentCardSidecar): JudgmentCard[] => {
+  return sidecar.cards.map((card) => {
+    const thresholdJson = toThresholdJson(card);
+
+    return {
+      topic_order: card.topic_order,
+      topic_title: card.topic_title,
+      frame_type: card.frame_type,
+      judgment_type: card.judgment_type,
+      judgment_summary: card.judgment_summary,
+      action_text: card.action_text,
+      deadline_at: card.deadline_at,
+      threshold_json: thresholdJson,
+      watch_points: [...card.watch_points],
+      confidence_score: computeConfidenceScore({
+        summary: card.judgment_summary,
+        actionText: card.action_text,
+        deadlineAt: card.deadline_at,
+        watchPoints: card.watch_points,
+        frameType: card.frame_type,
+        thresholdJson
+      })
+    };
+  });
+};
+
+const sameWatchPoints = (left: string[], right: string[]): boolean => {
+  const normalize = (values: string[]) => values.map((value) => value.replace(/\s+/g, "")).toSorted();
+  const [a, b] = [normalize(left), normalize(right)];
+  return a.length === b.length && a.every((value, index) => value === b[index]);
+};
+
+/**
+ * Compares sidecar cards with what the regex extractor reads from the script.
+ * Titles, summaries and thresholds are left out: they legitimately differ in
+ * wording, while frame, judgment, deadline and watch points should not.
+ */
+export const diffJudgmentCards = (sidecar: JudgmentCard[], extracted: JudgmentCard[]): JudgmentCardDiffEntry[] => {
+  const diff: JudgmentCardDiffEntry[] = [];
+  const extractedByOrder = new Map(extracted.map((card) => [card.topic_order, card]));
+  const sidecarOrders = new Set(sidecar.map((card) => card.topic_order));
+
+  for (const card of sidecar) {
+    const other = extractedByOrder.get(card.topic_order);
+    if (!other) {
+      diff.push({ topic_order: card.topic_order, field: "card", sidecar: card.topic_title, extracted: null });
+      continue;
+    }
+
+    if (card.frame_type !== other.frame_type) {
+      diff.push({ topic_order: card.topic_order, field: "frame_type", sidecar: card.frame_type, extracted: other.frame_type });
+    }
+    if (card.judgment_type !== other.judgment_type) {
+      diff.push({
+        topic_order: card.topic_order,
+        field: "judgment_type",
+        sidecar: card.judgment_type,
+        extracted: other.judgment_type
+      });
+    }
+    if (card.deadline_at !== other.deadline_at) {
+      diff.push({ topic_order: card.topic_order, field: "deadline_at", sidecar: card.deadline_at, extracted: other.deadline_at });
+    }
+    if (!sameWatchPoints(card.watch_points, other.watch_points)) {
+      diff.push({
+        topic_order: card.topic_order,
+        field: "watch_points",
+        sidecar: card.watch_points,
+        extracted: other.watch_points
+      });
+    }
+  }
+
+  for (const card of extracted) {
+    if (!sidecarOrders.has(card.topic_order)) {
+      diff.push({ topic_order: card.topic_order, field: "card", sidecar: null, extracted: card.topic_title });
+    }
+  }
+
+  return diff;
+};
+
+/**
+ * Cards for an episode script: the sidecar when it validates, otherwise the
+ * regex extractor. When the sidecar is used, the extractor still runs so
+ * disagreements with the narrated text show up in `diff`.
+ */
+export const resolveJudgmentCards = (params: {
+  sidecar: unknown;
+  script: string | null | undefined;
+}): JudgmentCardResolution => {
+  const extracted = extractJudgmentCards(params.script);
+  const parsed = parseJudgmentCardSidecar(params.sidecar);
+
+  if (!parsed.ok) {
+    return { cards: extracted, source: "extracted", sidecarErrors: parsed.errors, diff: [] };
+  }
+
+  const cards = judgmentCardsFromSidecar(parsed.sidecar);
+  return { cards, source: "sidecar", sidecarErrors: [], diff: diffJudgmentCards(cards, extracted) };
+};
@@ -259,6 +259,16 @@ const buildThresholdJson = (value: string, watchPoints: string[]): JudgmentThres
       currency: "JPY"
     })
   );
+  const usdPrice = collectUniqueEntries(
+    combined,
+    /((?:US)?\$\s?([0-9]+(?:,[0-9]{3})*(?:\.[0-9]+)?)(?![0-9]|\.[0-9]|,[0-9]|\s*(?:\/|per)\s*(?:hour|hr|時間)))/gi,
+    (match) => ({
+      raw: trimLine(match[1]),
+      value: Number(match[2].replace(/,/g, "")),
+      unit: "USD",
+      currency: "USD"
+    })
+  );
   const timeLimit = collectUniqueEntries(
     combined,
     /((?:予想プレイ時間|月間視聴時間|広告時間)?\s*[0-9][0-9,]*(?:\.[0-9]+)?\s*(時間|分|日))/g,
@@ -281,6 +291,16 @@ const buildThresholdJson = (value: string, watchPoints: string[]): JudgmentThres
             currency: "JPY"
           })
         ),
+        ...collectUniqueEntries(
+          combined,
+          /((?:US)?\$\s?([0-9]+(?:,[0-9]{3})*(?:\.[0-9]+)?)\s*(?:\/|per)\s*(?:hour|hr|時間))/gi,
+          (match) => ({
+            raw: trimLine(match[1]),
+            value: Number(match[2].replace(/,/g, "")),
+            unit: "USD_PER_HOUR",
+            currency: "USD"
+          })
+        ),
         ...collectUniqueEntries(
           combined,
           /((?:1時間単価|時間単価|cost per hour)\s*(?:は|=)?\s*([0-9][0-9,]*(?:\.[0-9]+)?)\s*円)/gi,
@@ -306,7 +326,7 @@ const buildThresholdJson = (value: string, watchPoints: string[]): JudgmentThres
   const other = collectOtherThresholds(value);
 
   const thresholdJson: JudgmentThresholdJson = {};
-  if (price.length > 0) thresholdJson.price = price;
+  if (price.length > 0 || usdPrice.length > 0) thresholdJson.price = [...price, ...usdPrice];
   if (timeLimit.length > 0) thresholdJson.time_limit = timeLimit;
   if (unitCost.length > 0) thresholdJson.unit_cost = unitCost;
   if (ratio.length > 0) thresholdJson.ratio = ratio;
@@ -314,7 +334,7 @@ const buildThresholdJson = (value: string, watchPoints: string[]): JudgmentThres
   return thresholdJson;
 };
 
-const computeConfidenceScore = (params: {
+export const computeConfidenceScore = (params: {
   summary: string;
   actionText: string | null;
   deadlineAt: string | null;
@@ -0,0 +1,170 @@
+export const LETTER_CATEGORIES = ["topic_request", "question", "feedback", "other"] as const;
+export type LetterCategory = (typeof LETTER_CATEGORIES)[number];
+
+export const LETTER_MODERATION_STATUSES = ["pending", "ok", "needs_review", "reject"] as const;
+export type LetterModerationStatus = (typeof LETTER_MODERATION_STATUSES)[number];
+
+/** Listener-facing status derived from moderation_status / is_blocked / is_used. */
+export const LETTER_LISTENER_STATUSES = ["pending", "approved", "used", "blocked"] as const;
+export type LetterListenerStatus = (typeof LETTER_LISTENER_STATUSES)[number];
+
+export const LETTER_DISPLAY_NAME_MAX_LENGTH = 30;
+export const LETTER_TEXT_MIN_LENGTH = 10;
+export const LETTER_TEXT_MAX_LENGTH = 800;
+export const LETTER_BLOCK_REASON_MAX_LENGTH = 200;
+export const MAX_LETTERS_PER_DAY = 3;
+
+/** One-off tip amounts (JPY) offered when sending a letter with a tip. */
+export const TIP_AMOUNTS_JPY = [200, 500, 1000] as const;
+export type TipAmount = (typeof TIP_AMOUNTS_JPY)[number];
+
+export const LETTER_CATEGORY_LABELS: Record<LetterCategory, string> = {
+  topic_request: "取り上げてほしい話題",
+  question: "質問",
+  feedback: "感想・フィードバック",
+  other: "その他"
+};
+
+export const LETTER_LISTENER_STATUS_LABELS: Record<LetterListenerStatus, string> = {
+  pending: "確認待ち",
+  approved: "採用候補",
+  used: "番組で紹介済み",
+  blocked: "掲載見送り"
+};
+
+export type LetterRecord = {
+  id: string;
+  display_name: string;
+  text: string;
+  category: string | null;
+  moderation_status: string | null;
+  is_used: boolean | null;
+  is_blocked: boolean | null;
+  blocked_reason: string | null;
+  created_at: string;
+  moderated_at?: string | null;
+};
+
+export type LetterSubmission = {
+  displayName: string;
+  text: string;
+  category: LetterCategory;
+};
+
+const URL_PATTERNS = [
+  /https?:\/\//i,
+  /\bwww\.[a-z0-9-]+\./i,
+  /\b[a-z0-9-]+\.(?:com|net|org|jp|io|co|dev|app|me|info|xyz)\b/i
+];
+
+const PII_PATTERNS: { reason: string; pattern: RegExp }[] = [
+  { reason: "letter_contains_email", pattern: /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i },
+  { reason: "letter_contains_phone_number", pattern: /(?<!\d)(?:\+81[-\s]?|0)\d{1,4}[-\s]?\d{1,4}[-\s]?\d{3,4}(?!\d)/ },
+  { reason: "letter_contains_postal_code", pattern: /〒\s*\d{3}-?\d{4}|(?<!\d)\d{3}-\d{4}(?!\d)/ },
+  { reason: "letter_contains_card_number", pattern: /(?<!\d)(?:\d[-\s]?){13,16}(?!\d)/ }
+];
+
+/** Folds full-width digits/letters so "ｈｔｔｐ" or "０９０" are caught too. */
+const normalizeForDetection = (value: string): string => {
+  return value.normalize("NFKC");
+};
+
+const countCharacters = (value: string): number => {
+  return Array.from(value).length;
+};
+
+export const isLetterCategory = (value: unknown): value is LetterCategory => {
+  return typeof value === "string" && LETTER_CATEGORIES.includes(value as LetterCategory);
+};
+
+export const containsLetterUrl = (value: string): boolean => {
+  const normalized = normalizeForDetection(value);
+  return URL_PATTERNS.some((pattern) => pattern.test(normalized));
+};
+
+/** Returns the first PII error code found in `value`, or null. */
+export const detectLetterPii = (value: string): string | null => {
+  const normalized = normalizeForDetection(value);
+  return PII_PATTERNS.find(({ pattern }) => pattern.test(normalized))?.reason ?? null;
+};
+
+export const validateLetterSubmission = (input: {
+  displayName?: unknown;
+  text?: unknown;
+  category?: unknown;
+}): { ok: true; value: LetterSubmission } | { ok: false; error: string } => {
+  const displayName = typeof input.displayName === "string" ? input.displayName.replace(/\s+/g, " ").trim() : "";
+  if (!displayName) {
+    return { ok: false, error: "display_name_required" };
+  }
+
+  if (countCharacters(displayName) > LETTER_DISPLAY_NAME_MAX_LENGTH) {
+    return { ok: false, error: "display_name_too_long" };
+  }
+
+  const text = typeof input.text === "string" ? input.text.replace(/\r\n?/g, "\n").trim() : "";
+  if (!text) {
+    return { ok: false, error: "letter_text_required" };
+  }
+
+  const textLength = countCharacters(text);
+  if (textLength < LETTER_TEXT_MIN_LENGTH) {
+    return { ok: false, error: "letter_text_too_short" };
+  }
+
+  if (textLength > LETTER_TEXT_MAX_LENGTH) {
+    return { ok: false, error: "letter_text_too_long" };
+  }
+
+  if (containsLetterUrl(displayName) || containsLetterUrl(text)) {
+    return { ok: false, error: "letter_contains_url" };
+  }
+
+  const piiError = detectLetterPii(displayName) ?? detectLetterPii(text);
+  if (piiError) {
+    return { ok: false, error: piiError };
+  }
+
+  const category = input.category === undefined || input.category === null || input.category === ""
+    ? "other"
+    : input.category;
+  if (!isLetterCategory(category)) {
+    return { ok: false, error: "invalid_category" };
+  }
+
+  return {
+    ok: true,
+    value: {
+      displayName,
+      text,
+      category
+    }
+  };
+};
+
+export const resolveLetterListenerStatus = (
+  letter: Pick<LetterRecord, "moderation_status" | "is_used" | "is_blocked">
+): LetterListenerStatus => {
+  if (letter.is_blocked === true || letter.moderation_status === "reject") return "blocked";
+  if (letter.is_used === true) return "used";
+  if (letter.moderation_status === "ok") return "approved";
+  return "pending";
+};
+
+export const isTipAmount = (value: unknown): value is TipAmount => {
+  return typeof value === "number" && TIP_AMOUNTS_JPY.includes(value as TipAmount);
+};
+
+export const hasReachedDailyLetterLimit = (count: number): boolean => {
+  return count >= MAX_LETTERS_PER_DAY;
+};
+
+/** Trims an admin-entered block reason; returns null when empty. */
+export const normalizeLetterBlockReason = (value: unknown): string | null => {
+  if (typeof value !== "string") return null;
+
+  const trimmed = value.replace(/\s+/g, " ").trim();
+  if (!trimmed) return null;
+
+  return Array.from(trimmed).slice(0, LETTER_BLOCK_REASON_MAX_LENGTH).join("");
+};
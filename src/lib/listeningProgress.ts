@@ -0,0 +1,128 @@
+/**
+ * Cross-device playback position for episodes (`listening_progress`).
+ * The player syncs through `/api/episodes/[id]/progress`; the server decides
+ * when an episode counts as finished.
+ */
+
+export const LISTENING_STATES = ["in_progress", "finished"] as const;
+export type ListeningState = (typeof LISTENING_STATES)[number];
+
+/** How often the player writes the position while playing. */
+export const LISTENING_PROGRESS_SYNC_INTERVAL_MS = 15_000;
+
+/** Positions under this are treated as "not started" and not saved. */
+export const MIN_SAVED_POSITION_SEC = 5;
+
+// Finished once this share has been played, or fewer seconds than this remain (outro, sources).
+const COMPLETE_RATIO = 0.95;
+const COMPLETE_REMAINING_SEC = 30;
+
+const MAX_DURATION_SEC = 6 * 60 * 60;
+
+const EPISODE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type ListeningProgressInput = {
+  positionSec: number;
+  durationSec: number | null;
+  /** The `ended` event fired; finished regardless of the position. */
+  ended: boolean;
+};
+
+export type ListeningProgressRecord = {
+  episode_id: string;
+  position_sec: number;
+  duration_sec: number | null;
+  completed_at: string | null;
+  updated_at: string;
+};
+
+export type ListeningProgressSummary = {
+  episodeId: string;
+  state: ListeningState;
+  positionSec: number;
+  durationSec: number | null;
+  completedAt: string | null;
+  updatedAt: string;
+};
+
+const toSeconds = (value: unknown): number | null => {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0 || value > MAX_DURATION_SEC) {
+    return null;
+  }
+
+  return Math.round(value * 10) / 10;
+};
+
+/** `episodes.id` is a uuid; anything else is rejected before it reaches the database. */
+export const isListeningProgressEpisodeId = (value: string): boolean => EPISODE_ID_PATTERN.test(value);
+
+export const parseListeningProgressInput = (value: unknown): ListeningProgressInput | null => {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const body = value as { positionSec?: unknown; durationSec?: unknown; ended?: unknown };
+  const positionSec = toSeconds(body.positionSec);
+  if (positionSec === null) {
+    return null;
+  }
+
+  let durationSec: number | null = null;
+  if (body.durationSec !== null && body.durationSec !== undefined) {
+    durationSec = toSeconds(body.durationSec);
+    if (!durationSec) {
+      return null;
+    }
+  }
+
+  return {
+    positionSec: durationSec === null ? positionSec : Math.min(positionSec, durationSec),
+    durationSec,
+    ended: body.ended === true
+  };
+};
+
+export const isListenComplete = (input: ListeningProgressInput): boolean => {
+  if (input.ended) {
+    return true;
+  }
+
+  if (input.durationSec === null) {
+    return false;
+  }
+
+  return (
+    input.positionSec >= input.durationSec * COMPLETE_RATIO ||
+    input.durationSec - input.positionSec <= COMPLETE_REMAINING_SEC
+  );
+};
+
+export const summarizeListeningProgress = (record: ListeningProgressRecord): ListeningProgressSummary => {
+  return {
+    episodeId: record.episode_id,
+    state: record.completed_at ? "finished" : "in_progress",
+    positionSec: record.position_sec,
+    durationSec: record.duration_sec,
+    completedAt: record.completed_at,
+    updatedAt: record.updated_at
+  };
+};
+
+/**
+ * Where the player should start: the saved position, unless the episode was
+ * finished and the last position is at the end (then from the top).
+ */
+export const resolveResumePosition = (progress: ListeningProgressSummary | null): number => {
+  if (!progress || progress.positionSec < MIN_SAVED_POSITION_SEC) {
+    return 0;
+  }
+
+  if (
+    progress.state === "finished" &&
+    isListenComplete({ positionSec: progress.positionSec, durationSec: progress.durationSec, ended: false })
+  ) {
+    return 0;
+  }
+
+  return progress.positionSec;
+};
@@ -0,0 +1,238 @@
+/**
+ * OpenAI-compatible chat completions for the script pipeline and the card
+ * generator. `LLM_PROVIDER` decides where a request goes:
+ * - `openai` (default): api.openai.com with `OPENAI_API_KEY`
+ * - `local`: any OpenAI-compatible server at `LLM_BASE_URL` (llama.cpp, Ollama, vLLM)
+ * - `fixture`: no network; replays responses recorded under `LLM_FIXTURE_DIR`,
+ *   keyed by a hash of the request body
+ *
+ * With `LLM_FIXTURE_RECORD=1`, the `openai` / `local` providers also write each
+ * response to `LLM_FIXTURE_DIR`, which is how fixtures are produced.
+ *
+ * Shared by the edge functions (Deno) and Next routes, so the environment is
+ * read through a callback instead of `process.env` / `Deno.env`.
+ */
+
+export type ChatCompletionProvider = "openai" | "local" | "fixture";
+
+export type ChatCompletionMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type ChatCompletionRequest = {
+  model: string;
+  messages: ChatCompletionMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  response_format?: Record<string, unknown>;
+};
+
+export type ChatCompletionConfig = {
+  provider: ChatCompletionProvider;
+  baseUrl: string;
+  apiKey: string | null;
+  /** Replaces the caller's model when set; local servers rarely serve `gpt-4o-mini`. */
+  model: string | null;
+  fixtureDir: string | null;
+  recordFixtures: boolean;
+};
+
+export type ChatCompletionErrorKind =
+  | "not_configured"
+  | "request_failed"
+  | "http_error"
+  | "empty_response"
+  | "fixture_missing";
+
+/**
+ * Messages keep the codes the pipeline already reported (`openai_api_key_missing`,
+ * `openai_http_<status>`, `openai_empty_response`), so job_runs stay comparable.
+ */
+export class ChatCompletionError extends Error {
+  readonly kind: ChatCompletionErrorKind;
+  readonly status: number | null;
+
+  constructor(kind: ChatCompletionErrorKind, message: string, status: number | null = null) {
+    super(message);
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+type ChatCompletionResponse = {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+    };
+  }>;
+  error?: {
+    message?: string;
+  };
+};
+
+type ChatCompletionFixture = {
+  hash: string;
+  request: ChatCompletionRequest;
+  content: string;
+};
+
+export const OPENAI_CHAT_COMPLETIONS_BASE_URL = "https://api.openai.com/v1";
+export const DEFAULT_LOCAL_LLM_BASE_URL = "http://127.0.0.1:11434/v1";
+
+const readSetting = (readEnv: (name: string) => string | undefined, name: string): string | null => {
+  const value = readEnv(name)?.trim();
+  return value ? value : null;
+};
+
+const parseProvider = (value: string | null): ChatCompletionProvider => {
+  const normalized = value?.toLowerCase();
+  return normalized === "local" || normalized === "fixture" ? normalized : "openai";
+};
+
+export const resolveChatCompletionConfig = (
+  readEnv: (name: string) => string | undefined
+): ChatCompletionConfig => {
+  const provider = parseProvider(readSetting(readEnv, "LLM_PROVIDER"));
+  const baseUrl =
+    provider === "local"
+      ? readSetting(readEnv, "LLM_BASE_URL") ?? DEFAULT_LOCAL_LLM_BASE_URL
+      : OPENAI_CHAT_COMPLETIONS_BASE_URL;
+  const record = readSetting(readEnv, "LLM_FIXTURE_RECORD")?.toLowerCase();
+
+  return {
+    provider,
+    baseUrl: baseUrl.replace(/\/+$/, ""),
+    apiKey:
+      provider === "local"
+        ? readSetting(readEnv, "LLM_API_KEY")
+        : readSetting(readEnv, "LLM_API_KEY") ?? readSetting(readEnv, "OPENAI_API_KEY"),
+    model: readSetting(readEnv, "LLM_MODEL"),
+    fixtureDir: readSetting(readEnv, "LLM_FIXTURE_DIR"),
+    recordFixtures: provider !== "fixture" && (record === "1" || record === "true" || record === "yes")
+  };
+};
+
+/** Whether a request can be attempted at all: OpenAI needs a key, replay needs a fixture directory. */
+export const isChatCompletionConfigured = (config: ChatCompletionConfig): boolean => {
+  if (config.provider === "openai") return Boolean(config.apiKey);
+  if (config.provider === "fixture") return Boolean(config.fixtureDir);
+  return true;
+};
+
+/** Reason reported when `isChatCompletionConfigured` is false. */
+export const describeMissingChatCompletionConfig = (config: ChatCompletionConfig): string => {
+  return config.provider === "fixture" ? "llm_fixture_dir_missing" : "openai_api_key_missing";
+};
+
+/** JSON with object keys sorted, so the hash does not depend on property order. */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([left], [right]) => (left < right ? -1 : left > right ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/** SHA-256 of the request body as sent (after any `LLM_MODEL` override). */
+export const hashChatCompletionRequest = async (request: ChatCompletionRequest): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(stableStringify(request)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+const fixturePath = (dir: string, hash: string): string => `${dir.replace(/\/+$/, "")}/${hash}.json`;
+
+const readFixture = async (dir: string, hash: string): Promise<ChatCompletionFixture | null> => {
+  const { readFile } = await import("node:fs/promises");
+  try {
+    const parsed = JSON.parse(await readFile(fixturePath(dir, hash), "utf8")) as Partial<ChatCompletionFixture>;
+    return typeof parsed.content === "string" ? (parsed as ChatCompletionFixture) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeFixture = async (dir: string, fixture: ChatCompletionFixture): Promise<void> => {
+  const { mkdir, writeFile } = await import("node:fs/promises");
+  await mkdir(dir, { recursive: true });
+  await writeFile(fixturePath(dir, fixture.hash), `${JSON.stringify(fixture, null, 2)}\n`, "utf8");
+};
+
+const requestFromServer = async (
+  config: ChatCompletionConfig,
+  request: ChatCompletionRequest,
+  options: { timeoutMs: number; fetchImpl: typeof fetch }
+): Promise<string> => {
+  if (config.provider === "openai" && !config.apiKey) {
+    throw new ChatCompletionError("not_configured", "openai_api_key_missing");
+  }
+
+  let response: Response;
+  try {
+    response = await options.fetchImpl(`${config.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify(request),
+      signal: AbortSignal.timeout(options.timeoutMs)
+    });
+  } catch (error) {
+    throw new ChatCompletionError("request_failed", error instanceof Error ? error.message : "llm_request_failed");
+  }
+
+  const payload = (await response.json().catch(() => ({}))) as ChatCompletionResponse;
+  if (!response.ok) {
+    throw new ChatCompletionError(
+      "http_error",
+      payload.error?.message?.trim() || `openai_http_${response.status}`,
+      response.status
+    );
+  }
+
+  const content = payload.choices?.[0]?.message?.content;
+  if (typeof content !== "string" || content.trim().length === 0) {
+    throw new ChatCompletionError("empty_response", "openai_empty_response");
+  }
+
+  return content.trim();
+};
+
+/**
+ * Sends one chat completion and returns the trimmed message content. Failures
+ * are thrown as `ChatCompletionError`.
+ */
+export const requestChatCompletion = async (
+  config: ChatCompletionConfig,
+  request: ChatCompletionRequest,
+  options: { timeoutMs: number; fetchImpl?: typeof fetch }
+): Promise<string> => {
+  const body: ChatCompletionRequest = config.model ? { ...request, model: config.model } : request;
+
+  if (config.provider === "fixture") {
+    if (!config.fixtureDir) {
+      throw new ChatCompletionError("not_configured", "llm_fixture_dir_missing");
+    }
+    const hash = await hashChatCompletionRequest(body);
+    const fixture = await readFixture(config.fixtureDir, hash);
+    if (!fixture || !fixture.content.trim()) {
+      throw new ChatCompletionError("fixture_missing", `llm_fixture_missing:${hash}`);
+    }
+    return fixture.content.trim();
+  }
+
+  const content = await requestFromServer(config, body, { timeoutMs: options.timeoutMs, fetchImpl: options.fetchImpl ?? fetch });
+
+  if (config.recordFixtures && config.fixtureDir) {
+    await writeFixture(config.fixtureDir, { hash: await hashChatCompletionRequest(body), request: body, content });
+  }
+
+  return content;
+};
@@ -1,3 +1,4 @@
+import { resolveCalibratedConfidence, type ConfidenceCalibration } from "./confidenceCalibration.ts";
 import type { DecisionProfile, DecisionProfileSegment } from "./decisionProfile";
 import type { JudgmentThresholdJson, JudgmentType } from "./judgmentCards";
 import type { UserPreferenceProfile } from "./userPreferences";
@@ -285,6 +286,8 @@ export const rankNextBestDecisions = <T extends NextBestDecisionCardInput>(param
   isPaid: boolean;
   profile?: DecisionProfile | null;
   preferenceProfile?: UserPreferenceProfile | null;
+  /** Outcome-based calibration; without it the raw LLM confidence is used. */
+  calibration?: ConfidenceCalibration | null;
   now?: Date;
   limit?: number;
 }): NextBestDecisionRecommendation<T>[] => {
@@ -310,7 +313,7 @@ export const rankNextBestDecisions = <T extends NextBestDecisionCardInput>(param
 
       pushReasonTag(reasonTags, judgment.tag);
 
-      const confidenceScore = typeof card.confidence_score === "number" ? Math.max(card.confidence_score, 0) : 0;
+      const confidenceScore = resolveCalibratedConfidence(card, params.calibration) ?? 0;
       const priorityScore =
         deadline.score +
         judgment.score +
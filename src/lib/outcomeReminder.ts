@@ -107,6 +107,31 @@ export const buildOutcomeReminderCandidates = (
     });
 };
 
+/**
+ * When `buildOutcomeReminderCandidates` first picks the decision up: the
+ * deadline or the start of the UTC day `minimumElapsedDays` after saving,
+ * whichever comes first. Null once an outcome is recorded.
+ */
+export const resolveOutcomeReminderDueAt = (
+  decision: Pick<OutcomeReminderDecision, "outcome" | "created_at" | "deadline_at">,
+  options: Pick<OutcomeReminderOptions, "minimumElapsedDays"> = {}
+): Date | null => {
+  if (decision.outcome !== null) {
+    return null;
+  }
+
+  const createdAt = toDate(decision.created_at);
+  if (!createdAt) {
+    return null;
+  }
+
+  const minimumElapsedDays = options.minimumElapsedDays ?? DEFAULT_OUTCOME_REMINDER_DAYS;
+  const elapsedDueAt = startOfDay(createdAt) + minimumElapsedDays * DAY_IN_MS;
+  const deadlineAt = toDate(decision.deadline_at);
+
+  return new Date(deadlineAt ? Math.min(deadlineAt.getTime(), elapsedDueAt) : elapsedDueAt);
+};
+
 export const limitOutcomeReminderCandidates = (
   candidates: OutcomeReminderCandidate[],
   isPaid: boolean,
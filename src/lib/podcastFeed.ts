@@ -1,7 +1,12 @@
-import { DEFAULT_SITE_URL, PRODUCT_NAME, SITE_NAME } from "./brand.ts";
+import { createHash } from "node:crypto";
+import { BRAND_NAME, DEFAULT_SITE_URL, PRODUCT_NAME, SITE_NAME } from "./brand.ts";
+import { PODCAST_CHAPTERS_CONTENT_TYPE } from "./episodeChapters.ts";
 import { resolveEpisodeDescription } from "./episodeDescriptions.ts";
-import { buildPublicEpisodePath } from "./episodeLinks.ts";
+import { buildEpisodeChaptersPath, buildEpisodeTranscriptPath, buildPublicEpisodePath } from "./episodeLinks.ts";
+import { EPISODE_TRANSCRIPT_CONTENT_TYPES, EPISODE_TRANSCRIPT_FORMATS } from "./episodeTranscript.ts";
 import { resolveDisplayEpisodeTitle } from "./episodeTitles.ts";
+import { normalizeGenre } from "./genre/allowedGenres.ts";
+import { GENRE_LABELS } from "./labels.ts";
 
 export const PODCAST_FEED_SITE_URL = process.env.NEXT_PUBLIC_SITE_URL ?? DEFAULT_SITE_URL;
 export const PODCAST_FEED_TITLE = SITE_NAME;
@@ -15,6 +20,44 @@ export const PODCAST_FEED_CATEGORY =
 export const PODCAST_FEED_SUBTITLE =
   process.env.PODCAST_FEED_SUBTITLE?.trim() || "聴くだけで、判断が整理される。";
 export const PODCAST_FEED_IMAGE = `${PODCAST_FEED_SITE_URL}/podcast-cover.png`;
+export const PODCAST_FEED_URL = `${PODCAST_FEED_SITE_URL}/feed.xml`;
+/** `podcast:locked` asks other platforms not to import the feed; set PODCAST_FEED_LOCKED=no to allow it. */
+export const PODCAST_FEED_LOCKED = process.env.PODCAST_FEED_LOCKED?.trim().toLowerCase() === "no" ? "no" : "yes";
+
+export const PODCAST_FEED_EN_TITLE = process.env.PODCAST_FEED_EN_TITLE?.trim() || `${BRAND_NAME} Decision Brief (English)`;
+export const PODCAST_FEED_EN_DESCRIPTION =
+  "An AI-generated morning podcast that sorts out your subscription, shopping and entertainment decisions during the commute.";
+export const PODCAST_FEED_EN_SUBTITLE =
+  process.env.PODCAST_FEED_EN_SUBTITLE?.trim() || "Listen, and your decisions get sorted.";
+
+/** iTunes categories for genre feeds; other genres use PODCAST_FEED_CATEGORY. */
+const GENRE_FEED_CATEGORIES: Record<string, string> = {
+  tech: "Technology",
+  technology: "Technology",
+  entertainment: "Leisure",
+  games: "Leisure",
+  anime: "Leisure",
+  movies: "TV & Film",
+  shopping: "Business",
+  work: "Business"
+};
+
+export type PodcastFeedLanguage = "ja" | "en";
+
+export type PodcastFeedChannel = {
+  language: PodcastFeedLanguage;
+  genre: string | null;
+  title: string;
+  description: string;
+  subtitle: string;
+  category: string;
+  image: string;
+  feedUrl: string;
+  guid: string;
+};
+
+/** Podcasting 2.0 namespace for `podcast:guid` (UUIDv5 of the feed URL). */
+const PODCAST_GUID_NAMESPACE = "ead4c236-bf58-58c6-a2c6-a0b6f3bac1a3";
 
 export type PodcastFeedEpisode = {
   id: string;
@@ -26,6 +69,8 @@ export type PodcastFeedEpisode = {
   durationSec: number | null;
   publishedAt: string | null;
   genre: string | null;
+  /** Script has spoken sections, so chapters and transcripts can be served. */
+  hasScriptSections?: boolean;
   judgmentCards?: Array<{
     topic_order: number;
     topic_title: string;
@@ -95,11 +140,91 @@ export const resolveAbsoluteAudioUrl = (audioUrl: string | null): string | null
   return value.startsWith("http") ? value : `${PODCAST_FEED_SITE_URL}${value}`;
 };
 
+/**
+ * Feed GUID per the Podcasting 2.0 spec: UUIDv5 of the feed URL with the
+ * scheme and trailing slashes removed. It must stay stable across moves, so
+ * PODCAST_FEED_GUID pins it once the feed has been registered.
+ */
+export const buildPodcastFeedGuid = (feedUrl: string): string => {
+  const name = feedUrl.replace(/^[a-z][a-z0-9+.-]*:\/\//i, "").replace(/\/+$/, "");
+  const hash = createHash("sha1")
+    .update(Buffer.from(PODCAST_GUID_NAMESPACE.replace(/-/g, ""), "hex"))
+    .update(name)
+    .digest();
+  const bytes = hash.subarray(0, 16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x50;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = bytes.toString("hex");
+
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+export const PODCAST_FEED_GUID = process.env.PODCAST_FEED_GUID?.trim() || buildPodcastFeedGuid(PODCAST_FEED_URL);
+
+export const buildPodcastFeedPath = (params: { language?: PodcastFeedLanguage; genre?: string | null } = {}): string => {
+  if (params.language === "en") return "/feed/en.xml";
+  if (params.genre) return `/feed/${encodeURIComponent(normalizeGenre(params.genre))}.xml`;
+  return "/feed.xml";
+};
+
+/**
+ * Channel metadata per feed. The main Japanese feed keeps the PODCAST_FEED_*
+ * values (and a pinned PODCAST_FEED_GUID); the English and genre feeds derive
+ * theirs so each one registers as a separate show.
+ */
+export const resolvePodcastFeedChannel = (
+  params: { language?: PodcastFeedLanguage; genre?: string | null } = {}
+): PodcastFeedChannel => {
+  const feedUrl = `${PODCAST_FEED_SITE_URL}${buildPodcastFeedPath(params)}`;
+
+  if (params.language === "en") {
+    return {
+      language: "en",
+      genre: null,
+      title: PODCAST_FEED_EN_TITLE,
+      description: PODCAST_FEED_EN_DESCRIPTION,
+      subtitle: PODCAST_FEED_EN_SUBTITLE,
+      category: PODCAST_FEED_CATEGORY,
+      image: `${PODCAST_FEED_SITE_URL}/api/og/cover?lang=en`,
+      feedUrl,
+      guid: buildPodcastFeedGuid(feedUrl)
+    };
+  }
+
+  const genre = params.genre ? normalizeGenre(params.genre) : null;
+  if (genre) {
+    const genreLabel = GENRE_LABELS[genre] ?? genre;
+    return {
+      language: "ja",
+      genre,
+      title: `${PODCAST_FEED_TITLE}（${genreLabel}）`,
+      description: `${PODCAST_FEED_DESCRIPTION}このフィードは「${genreLabel}」の回だけを配信します。`,
+      subtitle: PODCAST_FEED_SUBTITLE,
+      category: GENRE_FEED_CATEGORIES[genre] ?? PODCAST_FEED_CATEGORY,
+      image: `${PODCAST_FEED_SITE_URL}/api/og/cover?genre=${encodeURIComponent(genre)}`,
+      feedUrl,
+      guid: buildPodcastFeedGuid(feedUrl)
+    };
+  }
+
+  return {
+    language: "ja",
+    genre: null,
+    title: PODCAST_FEED_TITLE,
+    description: PODCAST_FEED_DESCRIPTION,
+    subtitle: PODCAST_FEED_SUBTITLE,
+    category: PODCAST_FEED_CATEGORY,
+    image: PODCAST_FEED_IMAGE,
+    feedUrl,
+    guid: PODCAST_FEED_GUID
+  };
+};
+
 const resolveEpisodeUrl = (episodeId: string): string => {
   return `${PODCAST_FEED_SITE_URL}${buildPublicEpisodePath(episodeId)}`;
 };
 
-const buildItemXml = (episode: PodcastFeedEpisode): string => {
+const buildItemXml = (episode: PodcastFeedEpisode, channel: PodcastFeedChannel): string => {
   const fullAudioUrl = resolveAbsoluteAudioUrl(episode.audioUrl) ?? "";
   const audioLengthBytes =
     typeof episode.audioLengthBytes === "number" && Number.isFinite(episode.audioLengthBytes)
@@ -116,6 +241,16 @@ const buildItemXml = (episode: PodcastFeedEpisode): string => {
     judgmentCards: episode.judgmentCards
   });
 
+  const podcastTagsXml = episode.hasScriptSections
+    ? [
+        `<podcast:chapters url="${escapeXml(`${PODCAST_FEED_SITE_URL}${buildEpisodeChaptersPath(episode.id)}`)}" type="${PODCAST_CHAPTERS_CONTENT_TYPE}" />`,
+        ...EPISODE_TRANSCRIPT_FORMATS.map(
+          (format) =>
+            `<podcast:transcript url="${escapeXml(`${PODCAST_FEED_SITE_URL}${buildEpisodeTranscriptPath(episode.id, format)}`)}" type="${EPISODE_TRANSCRIPT_CONTENT_TYPES[format]}" language="${channel.language}" />`
+        )
+      ].join("\n      ")
+    : "";
+
   return `
     <item>
       <title>${escapeXml(displayTitle)}</title>
@@ -129,11 +264,15 @@ const buildItemXml = (episode: PodcastFeedEpisode): string => {
       <itunes:explicit>false</itunes:explicit>
       <itunes:episodeType>full</itunes:episodeType>
       ${episode.genre ? `<itunes:keywords>${escapeXml(episode.genre)}</itunes:keywords>` : ""}
+      ${podcastTagsXml}
     </item>`;
 };
 
-export const buildPodcastFeedXml = (episodes: PodcastFeedEpisode[]): string => {
-  const itemsXml = episodes.map((episode) => buildItemXml(episode)).join("\n");
+export const buildPodcastFeedXml = (
+  episodes: PodcastFeedEpisode[],
+  channel: PodcastFeedChannel = resolvePodcastFeedChannel()
+): string => {
+  const itemsXml = episodes.map((episode) => buildItemXml(episode, channel)).join("\n");
   const lastBuildDate =
     episodes.find((episode) => episode.publishedAt)?.publishedAt ?? new Date().toISOString();
 
@@ -141,29 +280,32 @@ export const buildPodcastFeedXml = (episodes: PodcastFeedEpisode[]): string => {
 <rss version="2.0"
   xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"
   xmlns:content="http://purl.org/rss/1.0/modules/content/"
-  xmlns:atom="http://www.w3.org/2005/Atom">
+  xmlns:atom="http://www.w3.org/2005/Atom"
+  xmlns:podcast="https://podcastindex.org/namespace/1.0">
   <channel>
-    <title>${escapeXml(PODCAST_FEED_TITLE)}</title>
-    <description><![CDATA[${PODCAST_FEED_DESCRIPTION}]]></description>
+    <title>${escapeXml(channel.title)}</title>
+    <description><![CDATA[${channel.description}]]></description>
     <link>${PODCAST_FEED_SITE_URL}</link>
-    <language>ja</language>
+    <language>${channel.language}</language>
     <lastBuildDate>${formatRfc822(lastBuildDate)}</lastBuildDate>
     <generator>Next.js</generator>
-    <atom:link href="${PODCAST_FEED_SITE_URL}/feed.xml" rel="self" type="application/rss+xml" />
+    <atom:link href="${escapeXml(channel.feedUrl)}" rel="self" type="application/rss+xml" />
+    <podcast:guid>${channel.guid}</podcast:guid>
+    <podcast:locked owner="${escapeXml(PODCAST_FEED_EMAIL)}">${PODCAST_FEED_LOCKED}</podcast:locked>
     <itunes:author>${escapeXml(PODCAST_FEED_AUTHOR)}</itunes:author>
     <itunes:owner>
       <itunes:name>${escapeXml(PODCAST_FEED_AUTHOR)}</itunes:name>
       <itunes:email>${escapeXml(PODCAST_FEED_EMAIL)}</itunes:email>
     </itunes:owner>
-    <itunes:summary><![CDATA[${PODCAST_FEED_DESCRIPTION}]]></itunes:summary>
-    <itunes:subtitle>${escapeXml(PODCAST_FEED_SUBTITLE)}</itunes:subtitle>
+    <itunes:summary><![CDATA[${channel.description}]]></itunes:summary>
+    <itunes:subtitle>${escapeXml(channel.subtitle)}</itunes:subtitle>
     <itunes:type>episodic</itunes:type>
-    <itunes:category text="${escapeXml(PODCAST_FEED_CATEGORY)}" />
+    <itunes:category text="${escapeXml(channel.category)}" />
     <itunes:explicit>false</itunes:explicit>
-    <itunes:image href="${PODCAST_FEED_IMAGE}" />
+    <itunes:image href="${escapeXml(channel.image)}" />
     <image>
-      <url>${PODCAST_FEED_IMAGE}</url>
-      <title>${escapeXml(PODCAST_FEED_TITLE)}</title>
+      <url>${escapeXml(channel.image)}</url>
+      <title>${escapeXml(channel.title)}</title>
       <link>${PODCAST_FEED_SITE_URL}</link>
     </image>
     ${itemsXml}
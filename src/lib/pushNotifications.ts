@@ -0,0 +1,116 @@
+import type { AlertLink, AlertType } from "./alerts.ts";
+
+/**
+ * Web Push channel for alerts. The browser side lives in `public/sw.js`;
+ * VAPID signing and payload encryption are in `app/lib/webPush.ts`.
+ */
+
+/** Alerts older than this are left in the inbox instead of being pushed late. */
+export const PUSH_ALERT_MAX_AGE_HOURS = 24;
+
+/** A subscription is dropped after this many failed pushes in a row. */
+export const PUSH_SUBSCRIPTION_MAX_FAILURES = 5;
+
+const PUSH_BODY_MAX_LENGTH = 120;
+const PUSH_ENDPOINT_MAX_LENGTH = 2048;
+
+// Base64url without padding: a 65-byte uncompressed P-256 key and a 16-byte auth secret.
+const P256DH_PATTERN = /^B[A-Za-z0-9_-]{86}$/;
+const AUTH_SECRET_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+
+// Push services of Chrome/Edge (FCM), Firefox, Safari and legacy Edge. The cron
+// POSTs to stored endpoints, so anything else is refused.
+const PUSH_SERVICE_HOSTS = ["fcm.googleapis.com", "updates.push.services.mozilla.com", "web.push.apple.com"];
+const PUSH_SERVICE_HOST_SUFFIXES = [".push.apple.com", ".notify.windows.com"];
+
+export type PushSubscriptionInput = {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+};
+
+/** What `public/sw.js` receives and shows; keep the two in sync. */
+export type AlertPushPayload = {
+  title: string;
+  body: string;
+  url: string;
+  tag: string;
+  alertId: string;
+  alertType: AlertType;
+};
+
+const stripPadding = (value: string): string => value.replace(/=+$/, "");
+
+/** An https URL on one of the known browser push services (default port only). */
+export const isPushServiceEndpoint = (endpoint: string): boolean => {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== "https:" || url.port !== "" || url.username || url.password) {
+    return false;
+  }
+
+  const host = url.hostname.toLowerCase();
+  return PUSH_SERVICE_HOSTS.includes(host) || PUSH_SERVICE_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix));
+};
+
+/** Accepts the JSON form of a browser `PushSubscription` whose endpoint is a known push service. */
+export const parsePushSubscriptionInput = (value: unknown): PushSubscriptionInput | null => {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const { endpoint, keys } = value as { endpoint?: unknown; keys?: { p256dh?: unknown; auth?: unknown } | null };
+  if (typeof endpoint !== "string" || endpoint.length > PUSH_ENDPOINT_MAX_LENGTH) {
+    return null;
+  }
+
+  if (!isPushServiceEndpoint(endpoint)) {
+    return null;
+  }
+
+  const p256dh = typeof keys?.p256dh === "string" ? stripPadding(keys.p256dh) : "";
+  const auth = typeof keys?.auth === "string" ? stripPadding(keys.auth) : "";
+  if (!P256DH_PATTERN.test(p256dh) || !AUTH_SECRET_PATTERN.test(auth)) {
+    return null;
+  }
+
+  return { endpoint, p256dh, auth };
+};
+
+const truncate = (value: string, maxLength: number): string => {
+  return value.length <= maxLength ? value : `${value.slice(0, maxLength - 1)}…`;
+};
+
+export const buildAlertPushPayload = (alert: {
+  id: string;
+  alertType: AlertType;
+  alertTypeLabel: string;
+  title: string;
+  summary: string;
+  links: AlertLink[];
+}): AlertPushPayload => {
+  const link = alert.links.find((entry) => entry.href.startsWith("/"));
+
+  return {
+    title: alert.title,
+    body: truncate(`${alert.alertTypeLabel}・${alert.summary}`, PUSH_BODY_MAX_LENGTH),
+    url: link?.href ?? "/alerts",
+    tag: `alert-${alert.id}`,
+    alertId: alert.id,
+    alertType: alert.alertType
+  };
+};
+
+export const isPushAlertFresh = (createdAt: string, now: Date = new Date()): boolean => {
+  const createdAtMs = new Date(createdAt).getTime();
+  if (!Number.isFinite(createdAtMs)) {
+    return false;
+  }
+
+  return now.getTime() - createdAtMs <= PUSH_ALERT_MAX_AGE_HOURS * 60 * 60 * 1000;
+};
@@ -6,14 +6,25 @@ import {
   canUseSupabaseAudioStorage,
   resolveAudioStorageBucket
 } from "@/src/lib/audioStorage";
+import {
+  countSpokenChars,
+  splitEpisodeScriptForAudio,
+  type EpisodeAudioChunk,
+  type EpisodeAudioSection,
+  type EpisodeAudioSegment
+} from "@/src/lib/episodeChapters";
+import { concatAudioChunks, isConcatenableAudioFormat, measureAudioDurationSec } from "./audioBytes";
 import {
   localTtsProvider,
   openAiTtsProvider,
   voicevoxTtsProvider,
   resolveConfiguredTtsProvider,
+  resolveSectionAudioFormat,
   type SynthesizeInput,
   type TtsAudioFormat,
   type TtsLang,
+  type SynthesizedChunk,
+  type SynthesizeOutput,
   type TtsProviderName
 } from "./provider";
 import { preTtsNormalize } from "./preTtsNormalize";
@@ -154,11 +165,15 @@ const fetchEpisodeScript = async (episodeId: string, lang: TtsLang): Promise<str
   return script;
 };
 
-const parseBody = async (request: Request): Promise<{
+type ParsedTtsRequest = {
   episodeId: string;
   audioVersion: string | null;
   synthesizeInput: SynthesizeInput;
-}> => {
+  /** Normalized `[HEADING]` sections; synthesized one by one when there are two or more. */
+  segments: EpisodeAudioSegment[];
+};
+
+const parseBody = async (request: Request): Promise<ParsedTtsRequest> => {
   const raw = (await request.json().catch(() => {
     throw new TtsApiError(400, "invalid_json", "Request body must be valid JSON");
   })) as RequestBody;
@@ -186,6 +201,9 @@ const parseBody = async (request: Request): Promise<{
     text = await fetchEpisodeScript(episodeId, lang);
   }
 
+  const segments = splitEpisodeScriptForAudio(text)
+    .map((segment) => ({ heading: segment.heading, text: preTtsNormalize(segment.text, lang) }))
+    .filter((segment) => segment.text.length > 0);
   text = preTtsNormalize(text, lang);
 
   if (text.length > MAX_TEXT_LENGTH) {
@@ -205,7 +223,8 @@ const parseBody = async (request: Request): Promise<{
       ...(format ? { format } : {}),
       ...(typeof speed === "number" ? { speed } : {}),
       ...(instructions ? { instructions } : {})
-    }
+    },
+    segments
   };
 };
 
@@ -242,9 +261,9 @@ const resolveOutputFormat = (
 };
 
 const estimateDurationSec = (bytes: Uint8Array, format: TtsAudioFormat, text: string): number => {
-  if (format === "wav" && bytes.length > 44) {
-    const payloadBytes = Math.max(0, bytes.length - 44);
-    return Math.max(1, Math.round(payloadBytes / 44100));
+  const measured = measureAudioDurationSec(bytes, format);
+  if (measured !== null) {
+    return Math.max(1, Math.round(measured));
   }
 
   return Math.max(1, Math.round(text.length / 12));
@@ -307,14 +326,7 @@ const writeAudioFile = async (params: {
 const synthesizeWithProvider = async (
   provider: TtsProviderName,
   input: SynthesizeInput
-): Promise<{
-  bytes: Uint8Array;
-  contentType: string;
-  provider: TtsProviderName;
-  model?: string;
-  voice?: string;
-  format: TtsAudioFormat;
-}> => {
+): Promise<SynthesizeOutput> => {
   if (provider === "voicevox") {
     return voicevoxTtsProvider.synthesize(input);
   }
@@ -326,6 +338,93 @@ const synthesizeWithProvider = async (
   return openAiTtsProvider.synthesize(input);
 };
 
+const roundTiming = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+/** Positions a provider's chunks on the episode timeline, starting at `startSec`. */
+const buildChunkTimings = (chunks: SynthesizedChunk[], startSec: number): EpisodeAudioChunk[] => {
+  let cursor = startSec;
+  return chunks.map((chunk) => {
+    const timing = {
+      startSec: roundTiming(cursor),
+      durationSec: roundTiming(chunk.durationSec),
+      chars: countSpokenChars(chunk.text)
+    };
+    cursor += chunk.durationSec;
+    return timing;
+  });
+};
+
+/**
+ * Synthesizes each script section separately and joins the audio, recording
+ * where every section starts. Every section is requested in one format that
+ * can be joined by bytes (see resolveSectionAudioFormat); formats that cannot
+ * be joined are synthesized unsectioned from the start. Only a failed section
+ * request falls back to one unsectioned synthesis.
+ */
+const synthesizeEpisode = async (
+  provider: TtsProviderName,
+  payload: ParsedTtsRequest
+): Promise<SynthesizeOutput & { sections: EpisodeAudioSection[] }> => {
+  const sectionFormat = resolveSectionAudioFormat(provider, payload.synthesizeInput.format);
+  if (payload.segments.length < 2 || !sectionFormat) {
+    return { ...(await synthesizeWithProvider(provider, payload.synthesizeInput)), sections: [] };
+  }
+
+  const parts: SynthesizeOutput[] = [];
+  try {
+    for (const segment of payload.segments) {
+      parts.push(
+        await synthesizeWithProvider(provider, {
+          ...payload.synthesizeInput,
+          text: segment.text,
+          ...(provider === "openai" ? { format: sectionFormat } : {})
+        })
+      );
+    }
+  } catch (error) {
+    console.warn("tts_section_synthesis_failed", {
+      provider,
+      completedSections: parts.length,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return { ...(await synthesizeWithProvider(provider, payload.synthesizeInput)), sections: [] };
+  }
+
+  const format = parts[0].format;
+  if (!isConcatenableAudioFormat(format) || parts.some((part) => part.format !== format)) {
+    throw new TtsApiError(
+      502,
+      "tts_section_format_mismatch",
+      `Sections came back as ${[...new Set(parts.map((part) => part.format))].join(", ")}`
+    );
+  }
+
+  const durations = parts.map((part) => measureAudioDurationSec(part.bytes, format));
+  const sections: EpisodeAudioSection[] = [];
+  if (durations.every((duration): duration is number => duration !== null)) {
+    let startSec = 0;
+    payload.segments.forEach((segment, index) => {
+      const chunks = parts[index].chunks;
+      sections.push({
+        heading: segment.heading,
+        startSec: roundTiming(startSec),
+        durationSec: roundTiming(durations[index]),
+        ...(chunks ? { chunks: buildChunkTimings(chunks, startSec) } : {})
+      });
+      startSec += durations[index];
+    });
+  }
+
+  return {
+    ...parts[0],
+    bytes: concatAudioChunks(
+      parts.map((part) => part.bytes),
+      format
+    ),
+    sections
+  };
+};
+
 export async function handleTtsRequest(request: Request): Promise<Response> {
   if (request.method !== "POST") {
     return jsonErrorResponse("method_not_allowed", "Method not allowed", 405);
@@ -337,7 +436,7 @@ export async function handleTtsRequest(request: Request): Promise<Response> {
     return jsonErrorResponse("tts_disabled", "TTS is disabled via DISABLE_TTS", 503);
   }
 
-  let payload: { episodeId: string; audioVersion: string | null; synthesizeInput: SynthesizeInput };
+  let payload: ParsedTtsRequest;
   try {
     payload = await parseBody(request);
   } catch (error) {
@@ -352,14 +451,14 @@ export async function handleTtsRequest(request: Request): Promise<Response> {
   let fallbackReason: string | null = null;
 
   try {
-    let result: Awaited<ReturnType<typeof synthesizeWithProvider>>;
+    let result: Awaited<ReturnType<typeof synthesizeEpisode>>;
     if (requestedProvider === "voicevox") {
       try {
-        result = await synthesizeWithProvider("voicevox", payload.synthesizeInput);
+        result = await synthesizeEpisode("voicevox", payload);
       } catch (voicevoxError) {
         const errorMessage = voicevoxError instanceof Error ? voicevoxError.message : "voicevox_tts_failed";
         try {
-          result = await synthesizeWithProvider("local", payload.synthesizeInput);
+          result = await synthesizeEpisode("local", payload);
           fallbackReason = errorMessage;
         } catch (fallbackError) {
           const fallbackMessage =
@@ -369,11 +468,11 @@ export async function handleTtsRequest(request: Request): Promise<Response> {
       }
     } else if (requestedProvider === "openai") {
       try {
-        result = await synthesizeWithProvider("openai", payload.synthesizeInput);
+        result = await synthesizeEpisode("openai", payload);
       } catch (openAiError) {
         const errorMessage = openAiError instanceof Error ? openAiError.message : "openai_tts_failed";
         try {
-          result = await synthesizeWithProvider("local", payload.synthesizeInput);
+          result = await synthesizeEpisode("local", payload);
           fallbackReason = errorMessage;
         } catch (fallbackError) {
           const fallbackMessage =
@@ -382,7 +481,7 @@ export async function handleTtsRequest(request: Request): Promise<Response> {
         }
       }
     } else {
-      result = await synthesizeWithProvider("local", payload.synthesizeInput);
+      result = await synthesizeEpisode("local", payload);
     }
 
     const outputFormat = resolveOutputFormat(result.format, result.contentType);
@@ -404,6 +503,7 @@ export async function handleTtsRequest(request: Request): Promise<Response> {
       voice: result.voice ?? null,
       format: outputFormat,
       contentType: result.contentType || FORMAT_TO_CONTENT_TYPE[outputFormat],
+      sections: result.sections,
       fallbackReason
     });
   } catch (error) {
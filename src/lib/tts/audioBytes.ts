@@ -0,0 +1,220 @@
+/**
+ * Byte-level helpers for the audio returned by TTS providers: joining chunks
+ * into one file and measuring how long a file plays. Only WAV (PCM) and MP3
+ * can be joined by bytes; other formats need a real encoder.
+ */
+
+export type ConcatenableAudioFormat = "wav" | "mp3";
+
+const MP3_BITRATES_KBPS = {
+  v1l1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  v1l2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  v1l3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  v2l1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  v2l23: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+} as const;
+
+const MP3_SAMPLE_RATES: Record<number, readonly number[]> = {
+  3: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  0: [11025, 12000, 8000]
+};
+
+export const isConcatenableAudioFormat = (format: string): format is ConcatenableAudioFormat => {
+  return format === "wav" || format === "mp3";
+};
+
+export const findWavChunk = (
+  bytes: Uint8Array,
+  chunkName: string
+): { dataOffset: number; dataSize: number } | null => {
+  if (bytes.length < 44) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let cursor = 12;
+  while (cursor + 8 <= bytes.length) {
+    const id = String.fromCharCode(
+      view.getUint8(cursor),
+      view.getUint8(cursor + 1),
+      view.getUint8(cursor + 2),
+      view.getUint8(cursor + 3)
+    );
+    const chunkSize = view.getUint32(cursor + 4, true);
+    const dataOffset = cursor + 8;
+    if (id === chunkName) {
+      if (dataOffset + chunkSize > bytes.length) return null;
+      return { dataOffset, dataSize: chunkSize };
+    }
+    cursor = dataOffset + chunkSize + (chunkSize % 2);
+  }
+  return null;
+};
+
+/** Joins WAV files that share one PCM layout under the first file's header. */
+export const concatWavPcm = (chunks: Uint8Array[]): Uint8Array => {
+  if (chunks.length === 0) {
+    return new Uint8Array();
+  }
+  if (chunks.length === 1) {
+    return chunks[0];
+  }
+
+  const first = chunks[0];
+  const firstData = findWavChunk(first, "data");
+  if (!firstData) {
+    throw new Error("tts_invalid_wav_header");
+  }
+
+  const head = first.slice(0, firstData.dataOffset);
+  const pcmDataParts: Uint8Array[] = [];
+  let totalPcmBytes = 0;
+  for (const chunk of chunks) {
+    const data = findWavChunk(chunk, "data");
+    if (!data) {
+      throw new Error("tts_invalid_wav_header");
+    }
+    const pcm = chunk.slice(data.dataOffset, data.dataOffset + data.dataSize);
+    pcmDataParts.push(pcm);
+    totalPcmBytes += pcm.length;
+  }
+
+  const out = new Uint8Array(head.length + totalPcmBytes);
+  out.set(head, 0);
+
+  let cursor = head.length;
+  for (const pcm of pcmDataParts) {
+    out.set(pcm, cursor);
+    cursor += pcm.length;
+  }
+
+  const outView = new DataView(out.buffer, out.byteOffset, out.byteLength);
+  outView.setUint32(4, out.length - 8, true);
+  outView.setUint32(firstData.dataOffset - 4, totalPcmBytes, true);
+  return out;
+};
+
+export const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+  if (chunks.length === 0) return new Uint8Array();
+  if (chunks.length === 1) return chunks[0];
+
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const out = new Uint8Array(total);
+  let cursor = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, cursor);
+    cursor += chunk.length;
+  }
+  return out;
+};
+
+export const concatAudioChunks = (chunks: Uint8Array[], format: ConcatenableAudioFormat): Uint8Array => {
+  return format === "wav" ? concatWavPcm(chunks) : concatBytes(chunks);
+};
+
+const measureWavDurationSec = (bytes: Uint8Array): number | null => {
+  const fmt = findWavChunk(bytes, "fmt ");
+  const data = findWavChunk(bytes, "data");
+  if (!fmt || !data || fmt.dataSize < 12) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const byteRate = view.getUint32(fmt.dataOffset + 8, true);
+  return byteRate > 0 ? data.dataSize / byteRate : null;
+};
+
+/** Size of an ID3v2 tag starting at `offset`, or 0 when there is none. */
+const readId3v2Size = (bytes: Uint8Array, offset: number): number => {
+  if (
+    offset + 10 > bytes.length ||
+    bytes[offset] !== 0x49 ||
+    bytes[offset + 1] !== 0x44 ||
+    bytes[offset + 2] !== 0x33
+  ) {
+    return 0;
+  }
+
+  const size =
+    ((bytes[offset + 6] & 0x7f) << 21) |
+    ((bytes[offset + 7] & 0x7f) << 14) |
+    ((bytes[offset + 8] & 0x7f) << 7) |
+    (bytes[offset + 9] & 0x7f);
+  const hasFooter = (bytes[offset + 5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+};
+
+const readMp3Frame = (bytes: Uint8Array, offset: number): { length: number; durationSec: number } | null => {
+  if (offset + 4 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) {
+    return null;
+  }
+
+  const version = (bytes[offset + 1] >> 3) & 0x03;
+  const layer = (bytes[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = (bytes[offset + 2] >> 4) & 0x0f;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  const padding = (bytes[offset + 2] >> 1) & 0x01;
+  const sampleRate = MP3_SAMPLE_RATES[version]?.[sampleRateIndex];
+  if (!sampleRate || layer === 0 || bitrateIndex === 0 || bitrateIndex === 0x0f) {
+    return null;
+  }
+
+  const isV1 = version === 3;
+  const table =
+    layer === 3
+      ? isV1
+        ? MP3_BITRATES_KBPS.v1l1
+        : MP3_BITRATES_KBPS.v2l1
+      : isV1
+        ? layer === 2
+          ? MP3_BITRATES_KBPS.v1l2
+          : MP3_BITRATES_KBPS.v1l3
+        : MP3_BITRATES_KBPS.v2l23;
+  const bitrate = table[bitrateIndex] * 1000;
+
+  if (layer === 3) {
+    return {
+      length: (Math.floor((12 * bitrate) / sampleRate) + padding) * 4,
+      durationSec: 384 / sampleRate
+    };
+  }
+
+  const samples = layer === 1 && !isV1 ? 576 : 1152;
+  return {
+    length: Math.floor((samples / 8) * bitrate / sampleRate) + padding,
+    durationSec: samples / sampleRate
+  };
+};
+
+/**
+ * Walks the MPEG frame headers and sums their durations. ID3 tags are
+ * skipped, including ones left in the middle by byte-joined chunks.
+ */
+const measureMp3DurationSec = (bytes: Uint8Array): number | null => {
+  let cursor = 0;
+  let durationSec = 0;
+  let frameCount = 0;
+
+  while (cursor + 4 <= bytes.length) {
+    const tagSize = readId3v2Size(bytes, cursor);
+    if (tagSize > 0) {
+      cursor += tagSize;
+      continue;
+    }
+
+    const frame = readMp3Frame(bytes, cursor);
+    if (!frame) {
+      cursor += 1;
+      continue;
+    }
+
+    durationSec += frame.durationSec;
+    frameCount += 1;
+    cursor += frame.length;
+  }
+
+  return frameCount > 0 ? durationSec : null;
+};
+
+/** Playback length in seconds, or null when the format is not parsed here. */
+export const measureAudioDurationSec = (bytes: Uint8Array, format: string): number | null => {
+  if (format === "wav") return measureWavDurationSec(bytes);
+  if (format === "mp3") return measureMp3DurationSec(bytes);
+  return null;
+};
@@ -2,6 +2,7 @@ import { spawn } from "node:child_process";
 import { promises as fs } from "node:fs";
 import os from "node:os";
 import path from "node:path";
+import { concatBytes, concatWavPcm, measureAudioDurationSec } from "./audioBytes";
 
 export type TtsLang = "ja" | "en";
 export type TtsProviderName = "openai" | "voicevox" | "local";
@@ -16,6 +17,12 @@ export type SynthesizeInput = {
   instructions?: string;
 };
 
+/** One request the provider made, in playback order. */
+export type SynthesizedChunk = {
+  text: string;
+  durationSec: number;
+};
+
 export type SynthesizeOutput = {
   bytes: Uint8Array;
   contentType: string;
@@ -23,6 +30,8 @@ export type SynthesizeOutput = {
   model?: string;
   voice?: string;
   format: TtsAudioFormat;
+  /** Present when the audio was joined from several requests and each piece could be measured. */
+  chunks?: SynthesizedChunk[];
 };
 
 export interface TtsProvider {
@@ -238,6 +247,24 @@ const resolveOpenAiFormat = (format?: TtsAudioFormat): TtsAudioFormat => {
   return "mp3";
 };
 
+/**
+ * Format every section of a sectioned episode is requested in, so the parts
+ * come back alike and can be joined by bytes; null when the provider's format
+ * cannot be joined. VOICEVOX and the local provider always return WAV. OpenAI
+ * answers multi-chunk WAV requests with MP3, so WAV episodes ask for MP3 up front.
+ */
+export const resolveSectionAudioFormat = (
+  provider: TtsProviderName,
+  format?: TtsAudioFormat
+): "wav" | "mp3" | null => {
+  if (provider !== "openai") {
+    return "wav";
+  }
+
+  const resolved = resolveOpenAiFormat(format);
+  return resolved === "wav" || resolved === "mp3" ? "mp3" : null;
+};
+
 const resolveOpenAiSpeed = (speed?: number): number | undefined => {
   if (typeof speed === "number" && Number.isFinite(speed)) {
     return Math.min(4, Math.max(0.25, speed));
@@ -326,85 +353,20 @@ const splitTextForOpenAiTts = (text: string, maxChars: number): string[] => {
   return chunks.length > 0 ? chunks : [normalized];
 };
 
-const findWavChunk = (
-  bytes: Uint8Array,
-  chunkName: string
-): { dataOffset: number; dataSize: number } | null => {
-  if (bytes.length < 44) return null;
-  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
-  let cursor = 12;
-  while (cursor + 8 <= bytes.length) {
-    const id = String.fromCharCode(
-      view.getUint8(cursor),
-      view.getUint8(cursor + 1),
-      view.getUint8(cursor + 2),
-      view.getUint8(cursor + 3)
-    );
-    const chunkSize = view.getUint32(cursor + 4, true);
-    const dataOffset = cursor + 8;
-    if (id === chunkName) {
-      if (dataOffset + chunkSize > bytes.length) return null;
-      return { dataOffset, dataSize: chunkSize };
-    }
-    cursor = dataOffset + chunkSize + (chunkSize % 2);
-  }
-  return null;
-};
-
-const concatWavPcm = (chunks: Uint8Array[]): Uint8Array => {
-  if (chunks.length === 0) {
-    return new Uint8Array();
-  }
-  if (chunks.length === 1) {
-    return chunks[0];
-  }
-
-  const first = chunks[0];
-  const firstData = findWavChunk(first, "data");
-  if (!firstData) {
-    throw new Error("openai_tts_invalid_wav_header");
-  }
-
-  const head = first.slice(0, firstData.dataOffset);
-  const pcmDataParts: Uint8Array[] = [];
-  let totalPcmBytes = 0;
-  for (const chunk of chunks) {
-    const data = findWavChunk(chunk, "data");
-    if (!data) {
-      throw new Error("openai_tts_invalid_wav_header");
-    }
-    const pcm = chunk.slice(data.dataOffset, data.dataOffset + data.dataSize);
-    pcmDataParts.push(pcm);
-    totalPcmBytes += pcm.length;
-  }
-
-  const out = new Uint8Array(head.length + totalPcmBytes);
-  out.set(head, 0);
+const measureChunks = (
+  texts: string[],
+  chunkBytes: Uint8Array[],
+  format: TtsAudioFormat
+): SynthesizedChunk[] | undefined => {
+  if (texts.length < 2) return undefined;
 
-  let cursor = head.length;
-  for (const pcm of pcmDataParts) {
-    out.set(pcm, cursor);
-    cursor += pcm.length;
+  const chunks: SynthesizedChunk[] = [];
+  for (const [index, text] of texts.entries()) {
+    const durationSec = measureAudioDurationSec(chunkBytes[index], format);
+    if (durationSec === null) return undefined;
+    chunks.push({ text, durationSec });
   }
-
-  const outView = new DataView(out.buffer, out.byteOffset, out.byteLength);
-  outView.setUint32(4, out.length - 8, true);
-  outView.setUint32(firstData.dataOffset - 4, totalPcmBytes, true);
-  return out;
-};
-
-const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
-  if (chunks.length === 0) return new Uint8Array();
-  if (chunks.length === 1) return chunks[0];
-
-  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
-  const out = new Uint8Array(total);
-  let cursor = 0;
-  for (const chunk of chunks) {
-    out.set(chunk, cursor);
-    cursor += chunk.length;
-  }
-  return out;
+  return chunks;
 };
 
 export const localTtsProvider: TtsProvider = {
@@ -549,7 +511,8 @@ export const openAiTtsProvider: TtsProvider = {
       provider: "openai" as const,
       model,
       voice,
-      format: requestFormat
+      format: requestFormat,
+      chunks: measureChunks(textChunks, chunkBytes, requestFormat)
     };
   }
 };
@@ -697,7 +660,8 @@ export const voicevoxTtsProvider: TtsProvider = {
       provider: "voicevox" as const,
       model: "voicevox",
       voice: `speaker_${speakerId}`,
-      format: "wav" as const
+      format: "wav" as const,
+      chunks: measureChunks(sentences, wavChunks, "wav")
     };
   }
 };
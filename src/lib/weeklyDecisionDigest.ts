@@ -9,6 +9,9 @@ export type WeeklyDecisionDigestCardBase = {
   frame_type?: string | null;
 };
 
+/** Cards per judgment group shown to free users (web preview and digest email). */
+export const FREE_WEEKLY_DIGEST_PREVIEW_LIMIT = 1;
+
 const DECISION_TYPE_PRIORITY: Record<JudgmentType, number> = {
   use_now: 0,
   watch: 1,
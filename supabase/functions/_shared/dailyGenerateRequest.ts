@@ -1,5 +1,11 @@
 import { toJstDateString } from "./dailyGenerateInterval.ts";
 import { normalizeGenre } from "../../../src/lib/genre/allowedGenres.ts";
+import {
+  DAILY_GENERATE_STEPS,
+  isDailyGenerateResumeMode,
+  isDailyGenerateStep,
+  type DailyGenerateResume
+} from "../../../src/lib/dailyGenerateCheckpoints.ts";
 
 const EPISODE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
@@ -36,6 +42,7 @@ export type ParseDailyGenerateRequestResult =
       episodeDate: string;
       genre: string;
       force: boolean;
+      resume: DailyGenerateResume | null;
       requestEcho: DailyGenerateRequestEcho;
     }
   | {
@@ -107,11 +114,41 @@ export const parseDailyGenerateRequest = (
     };
   }
 
+  const resumeModeRaw = record.resumeMode;
+  const resumeStepRaw = record.resumeStep;
+  let resume: DailyGenerateResume | null = null;
+
+  if (resumeModeRaw !== undefined && !isDailyGenerateResumeMode(resumeModeRaw)) {
+    return {
+      ok: false,
+      status: 400,
+      error: "validation_error",
+      message: "resumeMode must be one of failed, from, only",
+      requestEcho
+    };
+  }
+
+  if (resumeModeRaw === "failed") {
+    resume = { mode: "failed" };
+  } else if (resumeModeRaw === "from" || resumeModeRaw === "only") {
+    if (!isDailyGenerateStep(resumeStepRaw)) {
+      return {
+        ok: false,
+        status: 400,
+        error: "validation_error",
+        message: `resumeStep must be one of ${DAILY_GENERATE_STEPS.join(", ")}`,
+        requestEcho
+      };
+    }
+    resume = { mode: resumeModeRaw, step: resumeStepRaw };
+  }
+
   return {
     ok: true,
     episodeDate,
     genre,
     force,
+    resume,
     requestEcho
   };
 };
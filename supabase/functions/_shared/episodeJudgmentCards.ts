@@ -1,5 +1,5 @@
 import type { JudgmentCard } from "../../../src/lib/judgmentCards.ts";
-import { extractJudgmentCards } from "../../../src/lib/judgmentCards.ts";
+import { resolveJudgmentCards, type JudgmentCardResolution } from "../../../src/lib/judgmentCardSidecar.ts";
 import { supabaseAdmin } from "./supabaseAdmin.ts";
 
 type SyncEpisodeJudgmentCardsParams = {
@@ -16,6 +16,9 @@ export type JudgmentCardSyncResult = {
   error: string | null;
 };
 
+export type ScriptJudgmentCardSyncResult = JudgmentCardSyncResult &
+  Pick<JudgmentCardResolution, "source" | "sidecarErrors" | "diff">;
+
 const toPersistedRows = (
   params: SyncEpisodeJudgmentCardsParams
 ): Record<string, unknown>[] => {
@@ -96,17 +99,53 @@ export const syncEpisodeJudgmentCards = async (
   }
 };
 
+/**
+ * The stored `judgment_cards_sidecar` if it describes `episodes.script`. After
+ * polish-script-ja accepts a rewrite it holds the cards for `script_polished`
+ * instead, which must not be applied to the unpolished script.
+ */
+export const readWriterJudgmentCardsSidecar = (value: unknown): unknown => {
+  return typeof value === "object" && value !== null && (value as { source?: unknown }).source === "writer"
+    ? value
+    : null;
+};
+
+/**
+ * Persists the cards for `script`, taken from `sidecar` (the writer's or
+ * polisher's `judgment_cards_sidecar`) when it validates and otherwise read
+ * from the script text.
+ */
 export const syncEpisodeJudgmentCardsForScript = async (params: {
   episodeId: string;
   lang: "ja" | "en";
   genre?: string | null;
   script: string | null | undefined;
-}): Promise<JudgmentCardSyncResult> => {
-  const cards = extractJudgmentCards(params.script);
-  return syncEpisodeJudgmentCards({
+  sidecar?: unknown;
+}): Promise<ScriptJudgmentCardSyncResult> => {
+  const resolution = resolveJudgmentCards({ sidecar: params.sidecar, script: params.script });
+  const synced = await syncEpisodeJudgmentCards({
     episodeId: params.episodeId,
     lang: params.lang,
     genre: params.genre ?? null,
-    cards
+    cards: resolution.cards
   });
+
+  return {
+    ...synced,
+    source: resolution.source,
+    sidecarErrors: resolution.sidecarErrors,
+    diff: resolution.diff
+  };
+};
+
+/** The `judgment_card_extraction` block of a job_runs payload. */
+export const summarizeJudgmentCardSync = (sync: ScriptJudgmentCardSyncResult): Record<string, unknown> => {
+  return {
+    source: sync.source,
+    extracted_count: sync.extractedCount,
+    persisted_count: sync.persistedCount,
+    error: sync.error,
+    sidecar_errors: sync.sidecarErrors,
+    diff: sync.diff
+  };
 };
@@ -1,5 +1,6 @@
 import { supabaseAdmin } from "./supabaseAdmin.ts";
 import { toJstDateStringFromIso } from "./dailyGenerateInterval.ts";
+import type { JudgmentCardSidecar } from "../../../src/lib/judgmentCardSidecar.ts";
 
 export type Episode = {
   id: string;
@@ -13,6 +14,8 @@ export type Episode = {
   script_polished: string | null;
   script_polished_preview: string | null;
   judgment_cards: Record<string, unknown>[] | null;
+  judgment_cards_sidecar: Record<string, unknown> | null;
+  fact_check: Record<string, unknown> | null;
   script_score: number | null;
   script_score_detail: Record<string, unknown> | null;
   audio_url: string | null;
@@ -22,7 +25,7 @@ export type Episode = {
 };
 
 const EPISODE_SELECT_COLUMNS =
-  "id, master_id, lang, genre, status, title, description, script, script_polished, script_polished_preview, judgment_cards, script_score, script_score_detail, audio_url, duration_sec, episode_date, published_at";
+  "id, master_id, lang, genre, status, title, description, script, script_polished, script_polished_preview, judgment_cards, judgment_cards_sidecar, fact_check, script_score, script_score_detail, audio_url, duration_sec, episode_date, published_at";
 
 const normalizeScript = (value: string | null | undefined): string => {
   return typeof value === "string" ? value.trim() : "";
@@ -173,6 +176,7 @@ export const insertJapaneseEpisode = async (values: {
   script: string;
   episodeDate?: string;
   genre?: string;
+  judgmentCardsSidecar?: JudgmentCardSidecar;
 }): Promise<Episode> => {
   const { data, error } = await supabaseAdmin
     .from("episodes")
@@ -182,6 +186,7 @@ export const insertJapaneseEpisode = async (values: {
       title: values.title,
       description: values.description,
       script: values.script,
+      judgment_cards_sidecar: values.judgmentCardsSidecar ?? null,
       episode_date: values.episodeDate ?? null,
       genre: values.genre ?? null
     })
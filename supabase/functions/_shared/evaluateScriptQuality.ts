@@ -1,15 +1,10 @@
-import { hasOpenAiApiKey, summarizeError, type PolishLang } from "./scriptPolish.ts";
-
-type OpenAiChatResponse = {
-  choices?: Array<{
-    message?: {
-      content?: string;
-    };
-  }>;
-  error?: {
-    message?: string;
-  };
-};
+import {
+  chatCompletionUnavailableReason,
+  hasChatCompletionAccess,
+  requestChatContent,
+  type ChatContentRequester
+} from "./llm.ts";
+import { summarizeError, type PolishLang } from "./scriptPolish.ts";
 
 type ScriptQualityScores = {
   depth: number;
@@ -46,7 +41,6 @@ export type ScriptQualityEvaluationResult =
       timeout_ms: number;
     };
 
-const OPENAI_CHAT_API_URL = "https://api.openai.com/v1/chat/completions";
 const DEFAULT_SCORE_MODEL = "gpt-4.1-mini";
 const DEFAULT_SCORE_TIMEOUT_MS = 60_000;
 const DEFAULT_SCORE_MAX_ATTEMPTS = 2;
@@ -178,19 +172,10 @@ const requestScoreJson = async (params: {
   timeoutMs: number;
   script: string;
   lang: PolishLang;
+  requestChat: ChatContentRequester;
 }): Promise<string> => {
-  const apiKey = Deno.env.get("OPENAI_API_KEY")?.trim();
-  if (!apiKey) {
-    throw new Error("openai_api_key_missing");
-  }
-
-  const response = await fetch(OPENAI_CHAT_API_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
+  return params.requestChat(
+    {
       model: params.model,
       temperature: 0,
       max_completion_tokens: MAX_COMPLETION_TOKENS,
@@ -227,21 +212,9 @@ const requestScoreJson = async (params: {
           }
         }
       }
-    }),
-    signal: AbortSignal.timeout(params.timeoutMs)
-  });
-
-  const payload = (await response.json().catch(() => ({}))) as OpenAiChatResponse;
-  if (!response.ok) {
-    throw new Error(payload.error?.message?.trim() || `openai_http_${response.status}`);
-  }
-
-  const content = payload.choices?.[0]?.message?.content;
-  if (typeof content !== "string" || content.trim().length === 0) {
-    throw new Error("openai_empty_response");
-  }
-
-  return content.trim();
+    },
+    params.timeoutMs
+  );
 };
 
 export const evaluateScriptQuality = async (params: {
@@ -250,6 +223,8 @@ export const evaluateScriptQuality = async (params: {
   model?: string;
   timeoutMs?: number;
   maxAttempts?: number;
+  /** Replaces the configured provider; the golden tests pass a fixture replayer. */
+  requestChat?: ChatContentRequester;
 }): Promise<ScriptQualityEvaluationResult> => {
   const script = params.script.trim();
   const model = params.model?.trim() || resolveScriptQualityModel();
@@ -266,10 +241,10 @@ export const evaluateScriptQuality = async (params: {
     };
   }
 
-  if (!hasOpenAiApiKey()) {
+  if (!params.requestChat && !hasChatCompletionAccess()) {
     return {
       ok: false,
-      skipped_reason: "openai_api_key_missing",
+      skipped_reason: chatCompletionUnavailableReason(),
       attempts_used: 0,
       model,
       timeout_ms: timeoutMs
@@ -285,7 +260,8 @@ export const evaluateScriptQuality = async (params: {
         model,
         timeoutMs,
         script,
-        lang: params.lang
+        lang: params.lang,
+        requestChat: params.requestChat ?? requestChatContent
       });
       const parsed = parseEvaluationJson(raw);
       if (!parsed) {
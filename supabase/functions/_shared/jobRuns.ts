@@ -1,4 +1,9 @@
 import { supabaseAdmin } from "./supabaseAdmin.ts";
+import {
+  DAILY_GENERATE_CHECKPOINT_JOB_TYPE,
+  checkpointStepsReplacedBy,
+  type DailyGenerateStep
+} from "../../../src/lib/dailyGenerateCheckpoints.ts";
 
 export const startRun = async (
   jobType: string,
@@ -101,3 +106,76 @@ export const countFailedRunsForAudioVersion = async (params: {
 
   return count ?? 0;
 };
+
+/** Latest stored output per step for the idempotency key and genre. */
+export const loadDailyGenerateCheckpoints = async (params: {
+  idempotencyKey: string;
+  genre: string;
+}): Promise<Map<string, unknown>> => {
+  const { data, error } = await supabaseAdmin
+    .from("job_runs")
+    .select("payload")
+    .eq("job_type", DAILY_GENERATE_CHECKPOINT_JOB_TYPE)
+    .eq("status", "success")
+    .filter("payload->>idempotencyKey", "eq", params.idempotencyKey)
+    .filter("payload->>genre", "eq", params.genre)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  const checkpoints = new Map<string, unknown>();
+  for (const row of (data ?? []) as { payload: Record<string, unknown> | null }[]) {
+    const step = row.payload?.step;
+    if (typeof step === "string") {
+      checkpoints.set(step, row.payload?.output ?? null);
+    }
+  }
+  return checkpoints;
+};
+
+/**
+ * Replaces any earlier checkpoint for the same idempotency key, genre and
+ * step, and drops the checkpoints of later steps so a resume reruns them.
+ */
+export const saveDailyGenerateCheckpoint = async (params: {
+  idempotencyKey: string;
+  episodeDate: string;
+  genre: string;
+  step: DailyGenerateStep;
+  runId: string;
+  output: unknown;
+}): Promise<void> => {
+  const { error: deleteError } = await supabaseAdmin
+    .from("job_runs")
+    .delete()
+    .eq("job_type", DAILY_GENERATE_CHECKPOINT_JOB_TYPE)
+    .filter("payload->>idempotencyKey", "eq", params.idempotencyKey)
+    .filter("payload->>genre", "eq", params.genre)
+    .in("payload->>step", checkpointStepsReplacedBy(params.step));
+
+  if (deleteError) {
+    throw deleteError;
+  }
+
+  const now = new Date().toISOString();
+  const { error } = await supabaseAdmin.from("job_runs").insert({
+    job_type: DAILY_GENERATE_CHECKPOINT_JOB_TYPE,
+    status: "success",
+    payload: {
+      idempotencyKey: params.idempotencyKey,
+      episodeDate: params.episodeDate,
+      genre: params.genre,
+      step: params.step,
+      runId: params.runId,
+      output: params.output
+    },
+    started_at: now,
+    ended_at: now
+  });
+
+  if (error) {
+    throw error;
+  }
+};
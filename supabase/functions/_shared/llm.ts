@@ -0,0 +1,25 @@
+import {
+  describeMissingChatCompletionConfig,
+  isChatCompletionConfigured,
+  requestChatCompletion,
+  resolveChatCompletionConfig,
+  type ChatCompletionRequest
+} from "../../../src/lib/llm/chatCompletion.ts";
+
+/** Signature of `requestChatContent`; pipeline steps accept one so tests can replay recorded responses. */
+export type ChatContentRequester = (request: ChatCompletionRequest, timeoutMs: number) => Promise<string>;
+
+const resolveConfig = () => resolveChatCompletionConfig((name) => Deno.env.get(name));
+
+/** False when the configured LLM provider cannot be called (e.g. OpenAI without a key). */
+export const hasChatCompletionAccess = (): boolean => {
+  return isChatCompletionConfigured(resolveConfig());
+};
+
+export const chatCompletionUnavailableReason = (): string => {
+  return describeMissingChatCompletionConfig(resolveConfig());
+};
+
+export const requestChatContent: ChatContentRequester = (request, timeoutMs) => {
+  return requestChatCompletion(resolveConfig(), request, { timeoutMs });
+};
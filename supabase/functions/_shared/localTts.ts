@@ -7,6 +7,13 @@ type SynthesizeEpisodeAudioInput = {
   text?: string;
 };
 
+type TtsAudioSection = {
+  heading: string;
+  startSec: number;
+  durationSec: number;
+  chunks?: Array<{ startSec: number; durationSec: number; chars: number }>;
+};
+
 type TtsApiResponse = {
   ok?: boolean;
   audioUrl?: string;
@@ -16,6 +23,7 @@ type TtsApiResponse = {
   model?: string | null;
   voice?: string | null;
   format?: string;
+  sections?: TtsAudioSection[];
   fallbackReason?: string | null;
   error?: string;
   errorType?: string;
@@ -156,6 +164,7 @@ export const synthesizeEpisodeAudio = async (
   model: string | null;
   voice: string | null;
   format: string | null;
+  sections: TtsAudioSection[];
   fallbackReason: string | null;
 }> => {
   const localTtsApiKey = Deno.env.get("LOCAL_TTS_API_KEY");
@@ -216,6 +225,7 @@ export const synthesizeEpisodeAudio = async (
         model: typeof payload.model === "string" ? payload.model : null,
         voice: typeof payload.voice === "string" ? payload.voice : null,
         format: typeof payload.format === "string" ? payload.format : null,
+        sections: Array.isArray(payload.sections) ? payload.sections : [],
         fallbackReason: typeof payload.fallbackReason === "string" ? payload.fallbackReason : null
       };
     } catch (error) {
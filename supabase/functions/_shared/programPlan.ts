@@ -35,37 +35,35 @@ export type ProgramPlan = {
   };
 };
 
+export type ProgramCounts = {
+  main: number;
+  quick: number;
+  smallTalk: number;
+};
+
 const clamp = (value: number, min: number, max: number): number => {
   return Math.max(min, Math.min(max, value));
 };
 
-const readEnvInt = (name: string): number | null => {
-  const raw = Deno.env.get(name);
+const readEnvInt = (readEnv: (name: string) => string | undefined, name: string): number | null => {
+  const raw = readEnv(name);
   if (!raw) return null;
   const parsed = Number.parseInt(raw, 10);
   if (!Number.isFinite(parsed)) return null;
   return parsed;
 };
 
-const resolveProgramCounts = (): {
-  main: number;
-  quick: number;
-  smallTalk: number;
-} => {
+export const resolveProgramCounts = (
+  readEnv: (name: string) => string | undefined = (name) => Deno.env.get(name)
+): ProgramCounts => {
   const defaultMain = 3;
   const defaultQuick = 6;
   const defaultTotal = 10;
 
-  const main = clamp(readEnvInt("TREND_TARGET_DEEPDIVE") ?? defaultMain, 2, 6);
-  const quick = clamp(readEnvInt("TREND_TARGET_QUICKNEWS") ?? defaultQuick, 3, 10);
-  const total = clamp(readEnvInt("TREND_TARGET_TOTAL") ?? defaultTotal, 8, 14);
+  const main = clamp(readEnvInt(readEnv, "TREND_TARGET_DEEPDIVE") ?? defaultMain, 2, 6);
+  const quick = clamp(readEnvInt(readEnv, "TREND_TARGET_QUICKNEWS") ?? defaultQuick, 3, 10);
+  const total = clamp(readEnvInt(readEnv, "TREND_TARGET_TOTAL") ?? defaultTotal, 8, 14);
   const smallTalk = clamp(total - main - quick, 0, 3);
 
   return { main, quick, smallTalk };
 };
-
-const PROGRAM_COUNTS = resolveProgramCounts();
-
-export const PROGRAM_MAIN_TOPICS_COUNT = PROGRAM_COUNTS.main;
-export const PROGRAM_QUICK_NEWS_COUNT = PROGRAM_COUNTS.quick;
-export const PROGRAM_SMALL_TALK_COUNT = PROGRAM_COUNTS.smallTalk;
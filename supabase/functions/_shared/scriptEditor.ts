@@ -1,18 +1,11 @@
 import { normalizeScriptText, type ScriptNormalizationMetrics } from "./scriptNormalize.ts";
+import { requestChatContent } from "./llm.ts";
 
 type ChatMessage = {
   role: "system" | "user";
   content: string;
 };
 
-type OpenAiChatResponse = {
-  choices?: Array<{
-    message?: {
-      content?: string;
-    };
-  }>;
-};
-
 export type ScriptEditorResult = {
   script: string;
   edited: boolean;
@@ -23,7 +16,6 @@ export type ScriptEditorResult = {
 };
 
 const DEFAULT_MODEL = "gpt-4o-mini";
-const OPENAI_API_URL = "https://api.openai.com/v1/chat/completions";
 const MIN_EDITED_CHARS = 2000;
 
 const SYSTEM_PROMPT =
@@ -84,52 +76,23 @@ const toUserPrompt = (script: string): string => {
   ].join("\n");
 };
 
-const parseChatContent = (payload: OpenAiChatResponse): string => {
-  const content = payload.choices?.[0]?.message?.content;
-  return typeof content === "string" ? content.trim() : "";
-};
-
 const requestOpenAiEdit = async (params: {
   script: string;
   model: string;
 }): Promise<string> => {
-  const apiKey = Deno.env.get("OPENAI_API_KEY")?.trim();
-  if (!apiKey) {
-    throw new Error("openai_api_key_missing");
-  }
-
   const messages: ChatMessage[] = [
     { role: "system", content: SYSTEM_PROMPT },
     { role: "user", content: toUserPrompt(params.script) }
   ];
 
-  const response = await fetch(OPENAI_API_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
+  const content = await requestChatContent(
+    {
       model: params.model,
       temperature: 0.3,
       messages
-    }),
-    signal: AbortSignal.timeout(30_000)
-  });
-
-  const payload = (await response.json().catch(() => ({}))) as OpenAiChatResponse & {
-    error?: { message?: string };
-  };
-
-  if (!response.ok) {
-    const message = payload.error?.message?.trim() || `openai_http_${response.status}`;
-    throw new Error(message);
-  }
-
-  const content = parseChatContent(payload);
-  if (!content) {
-    throw new Error("openai_empty_response");
-  }
+    },
+    30_000
+  );
 
   return stripCodeFence(content);
 };
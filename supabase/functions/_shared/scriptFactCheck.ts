@@ -0,0 +1,282 @@
+import { parseScriptSections } from "./scriptSections.ts";
+
+/** The trend item a DeepDive was written from, as the writer saw it. */
+export type DeepDiveSource = {
+  topic_order: number;
+  trend_item_id: string;
+  title: string;
+  summary: string;
+  source: string;
+  category: string;
+  url: string | null;
+};
+
+export type FactCheckMode = "off" | "review" | "block";
+
+export type FactCheckStatus = "passed" | "needs_review" | "blocked" | "skipped";
+
+export type FactCheckConfig = {
+  mode: FactCheckMode;
+  maxUnsupportedRatio: number;
+};
+
+export type FactCheckClaim = {
+  kind: "number" | "entity";
+  text: string;
+  sentence: string;
+};
+
+export type DeepDiveFactCheck = {
+  topic_order: number;
+  trend_item_id: string | null;
+  source_title: string | null;
+  source_url: string | null;
+  claims_count: number;
+  unsupported: FactCheckClaim[];
+};
+
+export type ScriptFactCheckResult = {
+  version: 1;
+  status: FactCheckStatus;
+  skipped_reason: "disabled" | "sources_missing" | null;
+  mode: FactCheckMode;
+  max_unsupported_ratio: number;
+  claims_count: number;
+  unsupported_count: number;
+  unsupported_ratio: number;
+  deep_dives: DeepDiveFactCheck[];
+};
+
+const DEFAULT_FACT_CHECK_MODE: FactCheckMode = "review";
+const DEFAULT_MAX_UNSUPPORTED_RATIO = 0.25;
+
+const DEEPDIVE_HEADING_PATTERN = /^DEEPDIVE\s+(\d+)$/i;
+// From the judgment line on, the writer narrates its own decision model with
+// assumed prices and hours, so only the lines before it are checked.
+const JUDGMENT_LINE_PATTERN = /^\d+[.．]\s*(?:今日の判断|判断期限|監視ポイント)/;
+const LINE_LABEL_PATTERN = /^(?:導入|\d+[.．]\s*[^:：]{1,24})[:：]\s*/;
+const NUMBER_CLAIM_PATTERN =
+  /(\d+(?:\.\d+)?)(\s*(?:万|億)?(?:円|yen|分|時間|時|秒|%|パーセント|GB|TB|館|本|回|日|月|年|人|倍|件|週|席|店|段階|か国|カ国))?/gi;
+// Latin proper nouns only: sources are mostly English, so katakana names cannot be matched reliably.
+const ENTITY_CLAIM_PATTERN = /(?<![\dA-Za-z])(?<!\d\s)[A-Z][A-Za-z0-9&+'-]*[A-Za-z0-9]/g;
+const ENTITY_STOPWORDS = new Set(["DeepDive", "GB", "TB", "OK"]);
+const MONTH_NAMES = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december"
+];
+
+const parseUnitRatio = (raw: string | undefined, fallback: number): number => {
+  if (!raw) return fallback;
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+    return fallback;
+  }
+  return parsed;
+};
+
+export const resolveFactCheckConfig = (
+  readEnv: (name: string) => string | undefined = (name) => Deno.env.get(name)
+): FactCheckConfig => {
+  const rawMode = (readEnv("FACT_CHECK_MODE") ?? "").trim().toLowerCase();
+  const mode = rawMode === "off" || rawMode === "review" || rawMode === "block"
+    ? rawMode
+    : DEFAULT_FACT_CHECK_MODE;
+  return {
+    mode,
+    maxUnsupportedRatio: parseUnitRatio(readEnv("FACT_CHECK_MAX_UNSUPPORTED_RATIO"), DEFAULT_MAX_UNSUPPORTED_RATIO)
+  };
+};
+
+const normalizeDigits = (text: string): string => {
+  return text.normalize("NFKC").replace(/(\d),(?=\d{3}(?!\d))/g, "$1");
+};
+
+const toClaimValue = (digits: string, unit: string): number => {
+  const value = Number(digits);
+  if (unit.includes("億")) return value * 100_000_000;
+  if (unit.includes("万")) return value * 10_000;
+  return value;
+};
+
+const collectSourceNumbers = (haystack: string): Set<number> => {
+  const values = new Set<number>();
+  for (const match of haystack.matchAll(/\d+(?:\.\d+)?/g)) {
+    values.add(Number(match[0]));
+  }
+  for (const [index, month] of MONTH_NAMES.entries()) {
+    if (new RegExp(`\\b${month}\\b`, "i").test(haystack)) {
+      values.add(index + 1);
+    }
+  }
+  return values;
+};
+
+/** Supported when the source states the value, or it is the difference of two stated values (e.g. a price change). */
+const isNumberSupported = (value: number, sourceNumbers: Set<number>): boolean => {
+  if (sourceNumbers.has(value)) return true;
+  const values = [...sourceNumbers];
+  return values.some((left) => values.some((right) => left > right && left - right === value));
+};
+
+const splitSentences = (line: string): string[] => {
+  return line
+    .split(/(?<=[。！？!?])/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+};
+
+const extractFactLines = (body: string): string[] => {
+  const lines: string[] = [];
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (JUDGMENT_LINE_PATTERN.test(line)) break;
+    const text = line.replace(LINE_LABEL_PATTERN, "").replace(/DeepDive\s*\d+は?/gi, "").trim();
+    if (text) lines.push(text);
+  }
+  return lines;
+};
+
+const extractClaims = (body: string): Array<FactCheckClaim & { value: number | null }> => {
+  const claims: Array<FactCheckClaim & { value: number | null }> = [];
+  const seen = new Set<string>();
+  const push = (claim: FactCheckClaim & { value: number | null }) => {
+    const key = `${claim.kind}:${claim.value ?? claim.text.toLowerCase()}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    claims.push(claim);
+  };
+
+  for (const line of extractFactLines(body)) {
+    for (const sentence of splitSentences(normalizeDigits(line))) {
+      for (const match of sentence.matchAll(NUMBER_CLAIM_PATTERN)) {
+        const unit = match[2]?.trim() ?? "";
+        const value = toClaimValue(match[1], unit);
+        // "1日", "1回", "1時間あたり" are phrasing rather than claims.
+        if (value < 2) continue;
+        push({ kind: "number", text: `${match[1]}${unit}`, sentence, value });
+      }
+      for (const match of sentence.matchAll(ENTITY_CLAIM_PATTERN)) {
+        if (ENTITY_STOPWORDS.has(match[0])) continue;
+        push({ kind: "entity", text: match[0], sentence, value: null });
+      }
+    }
+  }
+  return claims;
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Whole-word match, so a short acronym is not found inside another word ("AI" in "said"). */
+const isEntitySupported = (entity: string, haystack: string): boolean => {
+  return new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(entity)}(?![A-Za-z0-9])`, "i").test(haystack);
+};
+
+const checkDeepDive = (topicOrder: number, body: string, source: DeepDiveSource | null): DeepDiveFactCheck => {
+  const claims = extractClaims(body);
+  const haystack = source
+    ? normalizeDigits([source.title, source.summary, source.source, source.category].join("\n"))
+    : "";
+  const sourceNumbers = collectSourceNumbers(haystack);
+
+  const unsupported = claims
+    .filter((claim) => {
+      if (!source) return true;
+      if (claim.kind === "number") {
+        return claim.value === null || !isNumberSupported(claim.value, sourceNumbers);
+      }
+      return !isEntitySupported(claim.text, haystack);
+    })
+    .map(({ kind, text, sentence }) => ({ kind, text, sentence }));
+
+  return {
+    topic_order: topicOrder,
+    trend_item_id: source?.trend_item_id ?? null,
+    source_title: source?.title ?? null,
+    source_url: source?.url ?? null,
+    claims_count: claims.length,
+    unsupported
+  };
+};
+
+/**
+ * Checks the numbers and Latin proper nouns in each DeepDive against the
+ * trend item it was written from. Only the fact lines are checked (intro,
+ * background and 1-4); a DeepDive without a linked source counts every claim
+ * as unsupported.
+ */
+export const checkScriptFacts = (params: {
+  script: string;
+  sources: DeepDiveSource[];
+  config: FactCheckConfig;
+}): ScriptFactCheckResult => {
+  const base = {
+    version: 1 as const,
+    mode: params.config.mode,
+    max_unsupported_ratio: params.config.maxUnsupportedRatio
+  };
+  const skipped = (reason: "disabled" | "sources_missing"): ScriptFactCheckResult => ({
+    ...base,
+    status: "skipped",
+    skipped_reason: reason,
+    claims_count: 0,
+    unsupported_count: 0,
+    unsupported_ratio: 0,
+    deep_dives: []
+  });
+
+  if (params.config.mode === "off") return skipped("disabled");
+  if (params.sources.length === 0) return skipped("sources_missing");
+
+  const sourcesByOrder = new Map(params.sources.map((source) => [source.topic_order, source]));
+  const deepDives = parseScriptSections(params.script).flatMap((section) => {
+    const heading = section.heading.match(DEEPDIVE_HEADING_PATTERN);
+    if (!heading) return [];
+    const topicOrder = Number(heading[1]);
+    return [checkDeepDive(topicOrder, section.body, sourcesByOrder.get(topicOrder) ?? null)];
+  });
+
+  const claimsCount = deepDives.reduce((sum, deepDive) => sum + deepDive.claims_count, 0);
+  const unsupportedCount = deepDives.reduce((sum, deepDive) => sum + deepDive.unsupported.length, 0);
+  const unsupportedRatio = claimsCount > 0 ? Number((unsupportedCount / claimsCount).toFixed(4)) : 0;
+  const exceeded = unsupportedRatio > params.config.maxUnsupportedRatio;
+
+  return {
+    ...base,
+    status: !exceeded ? "passed" : params.config.mode === "block" ? "blocked" : "needs_review",
+    skipped_reason: null,
+    claims_count: claimsCount,
+    unsupported_count: unsupportedCount,
+    unsupported_ratio: unsupportedRatio,
+    deep_dives: deepDives
+  };
+};
+
+/** Reads the DeepDive sources out of a write-script-ja response or checkpoint; malformed entries are dropped. */
+export const readDeepDiveSources = (value: unknown): DeepDiveSource[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== "object") return [];
+    const record = entry as Record<string, unknown>;
+    const text = (key: string) => (typeof record[key] === "string" ? record[key] as string : "");
+    if (typeof record.topic_order !== "number" || !text("trend_item_id")) return [];
+    return [{
+      topic_order: record.topic_order,
+      trend_item_id: text("trend_item_id"),
+      title: text("title"),
+      summary: text("summary"),
+      source: text("source"),
+      category: text("category"),
+      url: text("url") || null
+    }];
+  });
+};
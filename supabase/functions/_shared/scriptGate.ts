@@ -26,23 +26,25 @@ export const estimateScriptDurationSec = (scriptChars: number, charsPerMin: numb
   return Math.max(60, Math.round((scriptChars / charsPerMin) * 60));
 };
 
-export const resolveScriptGateConfig = (): ScriptGateConfig => {
+export const resolveScriptGateConfig = (
+  readEnv: (name: string) => string | undefined = (name) => Deno.env.get(name)
+): ScriptGateConfig => {
   const minChars =
-    parsePositiveInt(Deno.env.get("SCRIPT_MIN_CHARS_JA")) ??
-    parsePositiveInt(Deno.env.get("TARGET_SCRIPT_MIN_CHARS")) ??
+    parsePositiveInt(readEnv("SCRIPT_MIN_CHARS_JA")) ??
+    parsePositiveInt(readEnv("TARGET_SCRIPT_MIN_CHARS")) ??
     DEFAULT_SCRIPT_MIN_CHARS_JA;
   const targetChars =
-    parsePositiveInt(Deno.env.get("SCRIPT_TARGET_CHARS_JA")) ?? DEFAULT_SCRIPT_TARGET_CHARS_JA;
+    parsePositiveInt(readEnv("SCRIPT_TARGET_CHARS_JA")) ?? DEFAULT_SCRIPT_TARGET_CHARS_JA;
   const maxChars =
-    parsePositiveInt(Deno.env.get("SCRIPT_MAX_CHARS_JA")) ?? DEFAULT_SCRIPT_MAX_CHARS_JA;
+    parsePositiveInt(readEnv("SCRIPT_MAX_CHARS_JA")) ?? DEFAULT_SCRIPT_MAX_CHARS_JA;
 
   const normalizedTargetChars = Math.max(minChars, targetChars);
   const normalizedMaxChars = Math.max(normalizedTargetChars, maxChars);
   const charsPerMin =
-    parsePositiveInt(Deno.env.get("TARGET_SCRIPT_ESTIMATED_CHARS_PER_MIN")) ??
-    parsePositiveInt(Deno.env.get("ESTIMATED_JA_CHARS_PER_MIN")) ??
+    parsePositiveInt(readEnv("TARGET_SCRIPT_ESTIMATED_CHARS_PER_MIN")) ??
+    parsePositiveInt(readEnv("ESTIMATED_JA_CHARS_PER_MIN")) ??
     DEFAULT_ESTIMATED_JA_CHARS_PER_MIN;
-  const targetSecFromEnv = parsePositiveInt(Deno.env.get("TARGET_SCRIPT_DURATION_SEC"));
+  const targetSecFromEnv = parsePositiveInt(readEnv("TARGET_SCRIPT_DURATION_SEC"));
   const derivedTargetSec = estimateScriptDurationSec(normalizedTargetChars, charsPerMin);
   const targetSec = targetSecFromEnv ?? derivedTargetSec;
   const targetSecSource = targetSecFromEnv === null ? "derived_from_target_chars" : "env";
@@ -1,6 +1,7 @@
 import { normalizeScriptText, dedupeSimilarLines } from "./scriptNormalize.ts";
 import { decodeEntities } from "./scriptSanitizer.ts";
 import { parseScriptSections, renderScriptSections } from "./scriptSections.ts";
+import { requestChatContent, type ChatContentRequester } from "./llm.ts";
 
 export type PolishLang = "ja" | "en";
 
@@ -15,20 +16,10 @@ export type PolishedScriptJson = {
     outro: string;
   };
   preview: string;
+  /** Raw `judgment_cards` value, present only when the request asked for it. Validate before use. */
+  judgmentCards?: unknown;
 };
 
-type OpenAiChatResponse = {
-  choices?: Array<{
-    message?: {
-      content?: string;
-    };
-  }>;
-  error?: {
-    message?: string;
-  };
-};
-
-const OPENAI_CHAT_API_URL = "https://api.openai.com/v1/chat/completions";
 const DEFAULT_SCRIPT_MODEL = "gpt-4.1-mini";
 const DEFAULT_SCRIPT_POLISH_TIMEOUT_MS = 120_000;
 const DEFAULT_SCRIPT_POLISH_TEMPERATURE = 0.2;
@@ -194,10 +185,6 @@ export const resolveScriptPolishTarget = (): string => {
   return target && target.length > 0 ? target : DEFAULT_SCRIPT_POLISH_TARGET;
 };
 
-export const hasOpenAiApiKey = (): boolean => {
-  return Boolean(Deno.env.get("OPENAI_API_KEY")?.trim());
-};
-
 export const countWords = (value: string): number => {
   const normalized = value.replace(/\r\n/g, " ").trim();
   if (!normalized) {
@@ -300,12 +287,10 @@ export const requestPolishJsonFromOpenAi = async (params: {
     letters?: number;
     outro?: number;
   };
+  /** Adds a required `judgment_cards` property with this schema to the response format. */
+  judgmentCardsSchema?: Record<string, unknown>;
+  requestChat?: ChatContentRequester;
 }): Promise<string> => {
-  const apiKey = Deno.env.get("OPENAI_API_KEY")?.trim();
-  if (!apiKey) {
-    throw new Error("openai_api_key_missing");
-  }
-
   const minTitleLength = Math.max(1, Math.floor(params.minLengths?.title ?? 1));
   const minPreviewLength = Math.max(1, Math.floor(params.minLengths?.preview ?? 1));
   const minOpLength = Math.max(1, Math.floor(params.minLengths?.op ?? 1));
@@ -315,13 +300,10 @@ export const requestPolishJsonFromOpenAi = async (params: {
   const minLettersLength = Math.max(1, Math.floor(params.minLengths?.letters ?? 1));
   const minOutroLength = Math.max(1, Math.floor(params.minLengths?.outro ?? 1));
 
-  const response = await fetch(OPENAI_CHAT_API_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
+  const requestChat = params.requestChat ?? requestChatContent;
+
+  return requestChat(
+    {
       model: params.model,
       temperature: params.temperature,
       max_completion_tokens: params.maxCompletionTokens && params.maxCompletionTokens > 0
@@ -345,7 +327,9 @@ export const requestPolishJsonFromOpenAi = async (params: {
           schema: {
             type: "object",
             additionalProperties: false,
-            required: ["title", "sections", "preview"],
+            required: params.judgmentCardsSchema
+              ? ["title", "sections", "preview", "judgment_cards"]
+              : ["title", "sections", "preview"],
             properties: {
               title: { type: "string", minLength: minTitleLength },
               sections: {
@@ -371,26 +355,15 @@ export const requestPolishJsonFromOpenAi = async (params: {
                   outro: { type: "string", minLength: minOutroLength }
                 }
               },
-              preview: { type: "string", minLength: minPreviewLength }
+              preview: { type: "string", minLength: minPreviewLength },
+              ...(params.judgmentCardsSchema ? { judgment_cards: params.judgmentCardsSchema } : {})
             }
           }
         }
       }
-    }),
-    signal: AbortSignal.timeout(params.timeoutMs)
-  });
-
-  const payload = (await response.json().catch(() => ({}))) as OpenAiChatResponse;
-  if (!response.ok) {
-    throw new Error(payload.error?.message?.trim() || `openai_http_${response.status}`);
-  }
-
-  const content = payload.choices?.[0]?.message?.content;
-  if (typeof content !== "string" || content.trim().length === 0) {
-    throw new Error("openai_empty_response");
-  }
-
-  return content.trim();
+    },
+    params.timeoutMs
+  );
 };
 
 export const parsePolishedScriptJson = (
@@ -443,7 +416,8 @@ export const parsePolishedScriptJson = (
           quicknews: [quicknews[0], quicknews[1], quicknews[2], quicknews[3], quicknews[4], quicknews[5]],
           letters,
           outro
-        }
+        },
+        ...(root.judgment_cards !== undefined ? { judgmentCards: root.judgment_cards } : {})
       }
     };
   } catch (error) {
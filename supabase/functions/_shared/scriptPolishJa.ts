@@ -0,0 +1,257 @@
+/**
+ * The Japanese polish pass from polish-script-ja: asks the model for the
+ * polished JSON, renders it back into sections and retries when the result is
+ * too short or a DeepDive lacks concrete references. The response also
+ * carries the DeepDive decisions as `judgment_cards`, validated into a
+ * sidecar. Database writes and scoring stay in the edge function.
+ */
+import type { ChatContentRequester } from "./llm.ts";
+import {
+  JUDGMENT_CARD_SIDECAR_CARDS_JSON_SCHEMA,
+  JUDGMENT_CARD_SIDECAR_VERSION,
+  parseJudgmentCardSidecar,
+  type JudgmentCardSidecar
+} from "../../../src/lib/judgmentCardSidecar.ts";
+import {
+  buildPolishPreview,
+  checkDeepDiveConcreteReferences,
+  finalizePolishedScriptText,
+  parsePolishedScriptJson,
+  renderPolishedScriptText,
+  requestPolishJsonFromOpenAi,
+  summarizeError
+} from "./scriptPolish.ts";
+
+export const MIN_CHARS = 4500;
+export const TARGET_MIN_CHARS = 5000;
+export const TARGET_MAX_CHARS = 6500;
+const MAX_COMPLETION_TOKENS = 12_000;
+
+const SYSTEM_PROMPT = [
+  "あなたはニュース番組の放送作家です。",
+  "番組コンセプトは『個人の時間とお金の最適化を支援する判断番組』です。",
+  "DeepDiveごとに判断フレーム（Frame A/B/C/D）を宣言し、指標の計算または条件判定で結論を示してください。",
+  "入力台本を、15〜20分の放送に耐える密度へ必ず拡張しながら全面リライトしてください。",
+  "要約は禁止。分量を削らず、背景・影響・次アクションを具体化して説明します。",
+  "判断は個人の時間とお金に限定し、B2B視点は扱いません。",
+  "短い箇条書きではなく、ナレーションとして流れる長さで書きます。",
+  "URL/プレースホルダ/壊れた断片/反復表現は除去し、読み上げやすい自然な日本語に統一します。",
+  "事実関係は変えない。捏造、憶測、断定的な誇張は禁止。",
+  "『予算配分』『媒体配分』『事業者視点』『業界戦略』『媒体再設計』という語と同義表現は禁止です。",
+  "同一文型の3回以上連続と、同一フレーズの3回以上反復を禁止します。",
+  "意味が曖昧な固有名詞は削除するか一般化して、文脈が通るように言い換えます。",
+  "出力はJSONのみ。説明文や前置きは禁止。"
+].join(" ");
+
+const toUserPrompt = (params: {
+  normalizedScript: string;
+  target: string;
+  attempt: number;
+  previousChars: number;
+  shortageChars: number;
+  previousDraft: string;
+  retryReason: string;
+}): string => {
+  const sourceScript = params.attempt > 1 && params.previousDraft
+    ? params.previousDraft
+    : params.normalizedScript;
+  const sourceLabel = params.attempt > 1 && params.previousDraft
+    ? "前回下書き（拡張対象）"
+    : "入力台本";
+  const retryNote = params.attempt > 1
+    ? `再生成要件: 前回の出力は ${params.previousChars} 文字で、最低条件まであと ${params.shortageChars} 文字不足です。再生成理由は「${params.retryReason || "品質不足"}」。背景説明と具体例を増やし、必ず ${MIN_CHARS} 文字以上にしてください。`
+    : "初回生成: 分量不足を避けるため、各セクションを十分に掘り下げてください。";
+
+  return [
+    "次の日本語台本を、放送品質の長尺スクリプトに書き直してください。",
+    "制約:",
+    "- 要約禁止。必ず拡張し、15〜20分相当の密度を確保する",
+    `- 目標分量は${TARGET_MIN_CHARS}〜${TARGET_MAX_CHARS}文字、最低でも${MIN_CHARS}文字`,
+    "- OP/HEADLINE/LETTERS/OUTROはそれぞれ2段落以上で展開",
+    "- OPには必ず『この番組はあなたの時間とお金を守る』『解説ではなく意思決定支援』を含める",
+    "- DEEPDIVE(3本)は各7項目構成にする",
+    "- DEEPDIVEの項目名: 1.何が起きたか（事実のみ） 2.現在の立ち位置（確定情報／未確定情報） 3.リスク（個人視点） 4.チャンス（個人視点） 5.今日の判断（個人視点） 6.判断期限（個人の行動期限） 7.監視ポイント（個人が見るべき数値）",
+    "- 各DEEPDIVEの⑤はFrame A/B/C/Dのいずれかを宣言し、数値計算または条件判定と結論を含め、必ず『あなたはどうするか。』で終える",
+    "- DEEPDIVEごとに異なる判断モデルを優先し、同じテンプレ判断（例: 30分固定）を繰り返さない",
+    "- QUICK NEWS(6本)は各項目を2〜3文でナレーションし、判断タグは【今使う】【今使わない】【監視】のみを使う",
+    "- QUICK NEWSでも可能な範囲でFrame A/B/C/Dを当て、判断根拠を一行で示す",
+    "- 各DEEPDIVEに具体例または数値を最低2つ入れる",
+    "- 各DEEPDIVEで個人のチャンスと個人のリスクを最低1つずつ明示する",
+    "- 各DEEPDIVEの冒頭に背景説明を最低1段落入れる",
+    "- 抽象語（重要です、影響します等）の連続使用は禁止",
+    "- 意味不明な固有名詞は削除または一般化する",
+    "- 事業者予算配分、媒体配分、業界戦略、媒体再設計の話題は禁止",
+    "- OPは conversational / warm",
+    "- HEADLINEは fast-paced / concise",
+    "- DEEPDIVEは analytical / structured",
+    "- QUICK NEWSは energetic / lighter",
+    "- LETTERSは friendly / empathetic",
+    "- OUTROは forward-looking summary",
+    "- 同一文構造の3回以上の繰り返しを禁止",
+    "- 同一フレーズの3回以上の繰り返しを禁止",
+    "- 各セクションに個人の時間とお金の判断ポイントを必ず含める",
+    "- 事実関係は維持する（捏造禁止）",
+    "- 既存方針の「事実/解釈/次アクション」を守る",
+    "- 同一表現の繰り返しを避ける",
+    "- 1文は短め、目安20〜45字",
+    "- セクション間の接続を自然に",
+    "- [URL] は本文で読まない",
+    "- judgment_cards には DEEPDIVE 1〜3 の⑤〜⑦を本文と同じ内容で1件ずつ入れる（topic_orderはDEEPDIVE番号）",
+    "- judgment_cards の judgment_type は今使う=use_now、監視・比較・保留=watch、見送り=skip とし、deadline_at は⑥の期限をISO 8601で書く",
+    "- judgment_cards の thresholds は判断の境界値と比較する入力値、conditions は数値にならない条件、watch_points は⑦の監視項目",
+    "- 出力はJSONのみ。余計な文章を含めない",
+    `- ターゲット設定: ${params.target}`,
+    retryNote,
+    "",
+    `${sourceLabel}:`,
+    sourceScript
+  ].join("\n");
+};
+
+const isJaLengthAcceptable = (value: string): boolean => {
+  return value.length >= MIN_CHARS;
+};
+
+export type JapanesePolishResult = {
+  /** Empty when no attempt produced an acceptable script; the caller keeps its fallback. */
+  finalScript: string;
+  preview: string;
+  attemptsUsed: number;
+  parseOk: boolean;
+  fallbackUsed: boolean;
+  errorSummary: string;
+  retryReason: string;
+  dedupedLinesCount: number;
+  deepDiveConcreteOk: boolean;
+  deepDiveConcreteCounts: [number, number, number];
+  /** Structured cards for `finalScript`; null when no script was accepted or they failed validation. */
+  judgmentCards: JudgmentCardSidecar | null;
+  judgmentCardsErrors: string[];
+};
+
+export const polishJapaneseScript = async (params: {
+  rawScript: string;
+  normalizedInput: string;
+  model: string;
+  temperature: number;
+  timeoutMs: number;
+  maxAttempts: number;
+  target: string;
+  requestChat?: ChatContentRequester;
+}): Promise<JapanesePolishResult> => {
+  const { rawScript, normalizedInput, model, temperature, timeoutMs, maxAttempts, target } = params;
+  let finalScript = "";
+  let preview = "";
+  let attemptsUsed = 0;
+  let parseOk = false;
+  let fallbackUsed = true;
+  let errorSummary = "";
+  let retryReason = "";
+  let dedupedLinesCount = 0;
+  let deepDiveConcreteOk = false;
+  let deepDiveConcreteCounts: [number, number, number] = [0, 0, 0];
+  let judgmentCards: JudgmentCardSidecar | null = null;
+  let judgmentCardsErrors: string[] = [];
+  let previousChars = 0;
+  let previousDraft = "";
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+    attemptsUsed = attempt;
+    try {
+      const rawJson = await requestPolishJsonFromOpenAi({
+        model,
+        temperature,
+        timeoutMs,
+        systemPrompt: SYSTEM_PROMPT,
+        userPrompt: toUserPrompt({
+          normalizedScript: normalizedInput,
+          target,
+          attempt,
+          previousChars,
+          shortageChars: Math.max(0, MIN_CHARS - previousChars),
+          previousDraft,
+          retryReason
+        }),
+        schemaName: "polished_script_ja",
+        maxCompletionTokens: MAX_COMPLETION_TOKENS,
+        judgmentCardsSchema: JUDGMENT_CARD_SIDECAR_CARDS_JSON_SCHEMA,
+        requestChat: params.requestChat
+      });
+
+      const parsed = parsePolishedScriptJson(rawJson);
+      if (!parsed.ok) {
+        parseOk = false;
+        fallbackUsed = true;
+        errorSummary = `json_parse_failed:${parsed.error}`;
+        break;
+      }
+
+      parseOk = true;
+      const rendered = renderPolishedScriptText({
+        lang: "ja",
+        polished: parsed.data,
+        originalScript: rawScript
+      });
+      const finalized = finalizePolishedScriptText(rendered);
+      dedupedLinesCount = finalized.dedupedLinesCount;
+      previousChars = finalized.text.length;
+      previousDraft = finalized.text;
+      const concreteCheck = checkDeepDiveConcreteReferences("ja", parsed.data.sections.deepdive);
+      deepDiveConcreteCounts = concreteCheck.counts;
+      deepDiveConcreteOk = concreteCheck.ok;
+      if (!concreteCheck.ok) {
+        fallbackUsed = true;
+        retryReason = `deepdive_concrete_refs_missing:${concreteCheck.failingIndices
+          .map((index) => index + 1)
+          .join(",")}`;
+        errorSummary = retryReason;
+        if (attempt >= maxAttempts) {
+          break;
+        }
+        continue;
+      }
+
+      if (isJaLengthAcceptable(finalized.text)) {
+        finalScript = finalized.text;
+        preview = buildPolishPreview(parsed.data.preview || finalized.text);
+        fallbackUsed = false;
+        errorSummary = "";
+        const sidecar = parseJudgmentCardSidecar({
+          version: JUDGMENT_CARD_SIDECAR_VERSION,
+          source: "polish",
+          cards: parsed.data.judgmentCards
+        });
+        judgmentCards = sidecar.ok ? sidecar.sidecar : null;
+        judgmentCardsErrors = sidecar.ok ? [] : sidecar.errors;
+        break;
+      }
+
+      fallbackUsed = true;
+      retryReason = `polished_script_too_short:${finalized.text.length}`;
+      errorSummary = retryReason;
+      if (attempt >= maxAttempts) {
+        break;
+      }
+    } catch (error) {
+      parseOk = false;
+      fallbackUsed = true;
+      errorSummary = summarizeError(error);
+      break;
+    }
+  }
+
+  return {
+    finalScript,
+    preview,
+    attemptsUsed,
+    parseOk,
+    fallbackUsed,
+    errorSummary,
+    retryReason,
+    dedupedLinesCount,
+    deepDiveConcreteOk,
+    deepDiveConcreteCounts,
+    judgmentCards,
+    judgmentCardsErrors
+  };
+};
@@ -16,6 +16,7 @@ export type TtsPreprocessResult = {
 const URL_PATTERN = /https?:\/\/[^\s)\]}>]+/gi;
 const WWW_URL_PATTERN = /\bwww\.[^\s)\]}>]+/gi;
 const BRACKET_PATTERN = /[\[\]{}()<>【】「」『』]/g;
+const SECTION_MARKER_PATTERN = /^\[[^\]]+\]\s*$/;
 
 const JA_URL_REPLACEMENT = "概要欄をご覧ください";
 const EN_URL_REPLACEMENT = "please see the show notes";
@@ -46,12 +47,19 @@ const replaceUrls = (value: string, replacement: string): { text: string; count:
   return { text: replaced, count: urlCount };
 };
 
+// `[OP]`-style marker lines stay: the TTS API synthesizes section by section.
 const removeBrackets = (value: string): { text: string; count: number } => {
-  const count = value.match(BRACKET_PATTERN)?.length ?? 0;
-  return {
-    text: value.replace(BRACKET_PATTERN, ""),
-    count
-  };
+  let count = 0;
+  const text = value
+    .split("\n")
+    .map((line) => {
+      if (SECTION_MARKER_PATTERN.test(line.trim())) return line;
+      count += line.match(BRACKET_PATTERN)?.length ?? 0;
+      return line.replace(BRACKET_PATTERN, "");
+    })
+    .join("\n");
+
+  return { text, count };
 };
 
 const mapJapaneseWords = (value: string): { text: string; count: number } => {
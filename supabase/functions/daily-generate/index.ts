@@ -1,17 +1,35 @@
-import { failRun, finishRun, skipRun, startRun } from "../_shared/jobRuns.ts";
+import {
+  failRun,
+  finishRun,
+  loadDailyGenerateCheckpoints,
+  saveDailyGenerateCheckpoint,
+  skipRun,
+  startRun
+} from "../_shared/jobRuns.ts";
 import { jsonResponse } from "../_shared/http.ts";
 import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
 import { parseCsvList } from "../_shared/trendsConfig.ts";
 import { estimateScriptDurationSec, resolveScriptGateConfig } from "../_shared/scriptGate.ts";
 import { normalizeScriptText } from "../_shared/scriptNormalize.ts";
 import { checkScriptQuality } from "../_shared/scriptQualityCheck.ts";
+import {
+  checkScriptFacts,
+  readDeepDiveSources,
+  resolveFactCheckConfig
+} from "../_shared/scriptFactCheck.ts";
 import { buildSectionsCharsBreakdown, parseScriptSections } from "../_shared/scriptSections.ts";
-import { findLatestEpisodeDate } from "../_shared/episodes.ts";
+import { findLatestEpisodeDate, updateEpisode } from "../_shared/episodes.ts";
 import {
   resolveGenerateIntervalDays,
   shouldSkipGenerationByInterval
 } from "../_shared/dailyGenerateInterval.ts";
 import { parseDailyGenerateRequest } from "../_shared/dailyGenerateRequest.ts";
+import {
+  isDailyGenerateStep,
+  planDailyGenerateSteps,
+  resolveDailyGenerateIdempotencyKey,
+  type DailyGenerateStep
+} from "../../../src/lib/dailyGenerateCheckpoints.ts";
 import {
   isGenreAllowed,
   resolveAllowedGenres
@@ -181,6 +199,16 @@ type ScriptScoreSnapshot = {
 
 const BASE_ORDERED_STEPS = ["plan-topics", "write-script-ja", "expand-script-ja"] as const;
 
+/** Thrown when a `resumeMode: "only"` run reaches the step after its target. */
+class StepSelectionEnd extends Error {
+  readonly step: DailyGenerateStep;
+
+  constructor(step: DailyGenerateStep) {
+    super(`stopped_before:${step}`);
+    this.step = step;
+  }
+}
+
 const MAX_TREND_ITEMS = 30;
 const MIN_TREND_LOOKBACK_HOURS = 24;
 const MAX_TREND_LOOKBACK_HOURS = 72;
@@ -626,6 +654,7 @@ const loadPrioritizedLetters = async (): Promise<LetterItem[]> => {
       "amount, currency, provider_payment_id, created_at, letter_id, letters!inner(id, display_name, text, moderation_status, is_used, is_blocked, blocked_reason, created_at)"
     )
     .not("letter_id", "is", null)
+    .is("refunded_at", null)
     .order("created_at", { ascending: false })
     .limit(50);
 
@@ -641,7 +670,7 @@ const loadPrioritizedLetters = async (): Promise<LetterItem[]> => {
     }
     if (
       letter.is_used === true ||
-      letter.moderation_status === "reject" ||
+      letter.moderation_status !== "ok" ||
       letter.is_blocked === true
     ) {
       continue;
@@ -665,7 +694,7 @@ const loadPrioritizedLetters = async (): Promise<LetterItem[]> => {
     .select("id, display_name, text, moderation_status, is_used, is_blocked, blocked_reason, created_at")
     .eq("is_used", false)
     .eq("is_blocked", false)
-    .neq("moderation_status", "reject")
+    .eq("moderation_status", "ok")
     .order("created_at", { ascending: false })
     .limit(50);
 
@@ -1122,7 +1151,7 @@ Deno.serve(async (req) => {
     }, parsedRequest.status);
   }
 
-  const { episodeDate, genre, force, requestEcho } = parsedRequest;
+  const { episodeDate, genre, force, resume, requestEcho } = parsedRequest;
   const allowedGenres = resolveAllowedGenres(Deno.env.get("ALLOWED_GENRES"));
   if (!isGenreAllowed(genre, allowedGenres)) {
     return jsonResponse({
@@ -1136,8 +1165,13 @@ Deno.serve(async (req) => {
 
   const requestedEpisodeDate = episodeDate;
   const intervalDays = resolveGenerateIntervalDays(Deno.env.get("GENERATE_INTERVAL_DAYS"), 2);
-  const idempotencyKey = body.idempotencyKey ?? `daily-${episodeDate}`;
+  const idempotencyKey = resolveDailyGenerateIdempotencyKey({
+    idempotencyKey: body.idempotencyKey,
+    episodeDate,
+    genre
+  });
   const scriptGateConfig = resolveScriptGateConfig();
+  const factCheckConfig = resolveFactCheckConfig();
   const skipTts = typeof body.skipTts === "boolean"
     ? body.skipTts
     : resolveBooleanEnv("SKIP_TTS", true);
@@ -1160,6 +1194,35 @@ Deno.serve(async (req) => {
       : [])
   ];
 
+  const checkpointSteps = ["ingest_trends_rss", ...orderedSteps].filter(isDailyGenerateStep);
+  let checkpoints = new Map<string, unknown>();
+  if (resume) {
+    try {
+      checkpoints = await loadDailyGenerateCheckpoints({ idempotencyKey, genre });
+    } catch (error) {
+      return jsonResponse({
+        ok: false,
+        error: "checkpoint_load_failed",
+        message: error instanceof Error ? error.message : String(error),
+        requestEcho
+      }, 500);
+    }
+  }
+  const stepPlan = planDailyGenerateSteps({
+    orderedSteps: checkpointSteps,
+    checkpointSteps: new Set(checkpoints.keys()),
+    resume
+  });
+  if (!stepPlan.ok) {
+    return jsonResponse({
+      ok: false,
+      error: "validation_error",
+      message: stepPlan.error,
+      requestEcho
+    }, 400);
+  }
+  const stepActions = stepPlan.actions;
+
   const runId = await startRun("daily-generate", {
     step: "daily-generate",
     episodeDate,
@@ -1171,22 +1234,41 @@ Deno.serve(async (req) => {
     requestEcho,
     decision: "run",
     orderedSteps,
+    resume,
+    stepActions,
     scriptPolishEnabled,
     skipTts,
-    scriptGate: scriptGateConfig
+    scriptGate: scriptGateConfig,
+    factCheckConfig
   });
 
+  /** Reuses the step's checkpoint, or runs it and stores the output as the new checkpoint. */
+  const runStep = async <T>(step: DailyGenerateStep, run: () => Promise<T>): Promise<T> => {
+    const action = stepActions[step];
+    if (action === "reuse") {
+      return checkpoints.get(step) as T;
+    }
+    if (action === "skip") {
+      throw new StepSelectionEnd(step);
+    }
+
+    const output = await run();
+    await saveDailyGenerateCheckpoint({ idempotencyKey, episodeDate, genre, step, runId, output });
+    return output;
+  };
+
   let failureDetails: Record<string, unknown> | null = null;
   let digestMetricsForFailure: Record<string, unknown> = {};
 
   try {
     const latestEpisodeDate = await findLatestEpisodeDate({ genre });
     const lastEpisodeDate = latestEpisodeDate.date;
+    // A resumed run continues an episode that already passed the interval check.
     const shouldSkip = shouldSkipGenerationByInterval({
       requestedEpisodeDate,
       lastEpisodeDate,
       intervalDays,
-      force
+      force: force || resume !== null
     });
     if (shouldSkip) {
       const reason = "interval_not_reached";
@@ -1224,22 +1306,31 @@ Deno.serve(async (req) => {
     }
 
     const functionsBaseUrl = getFunctionsBaseUrl(req.url);
-    const { trendItems: trendCandidatesForPlan, usedFallback: fallbackFromDaily } = await resolveTrendItems(
-      functionsBaseUrl,
-      episodeDate,
-      genre,
-      idempotencyKey,
-      stepAuth
-    );
-    const letterCandidates = await loadPrioritizedLetters().catch(() => []);
-    const { letters, blockedIds } = await prepareLettersForScript(letterCandidates);
+    const {
+      trendItems: trendCandidatesForPlan,
+      usedFallback: fallbackFromDaily,
+      letters,
+      blockedIds
+    } = await runStep("ingest_trends_rss", async () => {
+      const { trendItems, usedFallback } = await resolveTrendItems(
+        functionsBaseUrl,
+        episodeDate,
+        genre,
+        idempotencyKey,
+        stepAuth
+      );
+      const letterCandidates = await loadPrioritizedLetters().catch(() => []);
+      return { trendItems, usedFallback, ...(await prepareLettersForScript(letterCandidates)) };
+    });
 
-    const plan = await invokeStep(functionsBaseUrl, "plan-topics", {
-      episodeDate,
-      genre,
-      idempotencyKey,
-      trendCandidates: trendCandidatesForPlan
-    }, stepAuth);
+    const plan = await runStep("plan-topics", () =>
+      invokeStep(functionsBaseUrl, "plan-topics", {
+        episodeDate,
+        genre,
+        idempotencyKey,
+        trendCandidates: trendCandidatesForPlan
+      }, stepAuth)
+    );
     const plannedTrendItems = readPlanTrendItems(plan);
     const selectedTrendItems = readPlanSelectedTrendItems(plan);
     const trendSelectionSummary = readTrendSelectionSummary(plan);
@@ -1283,15 +1374,17 @@ Deno.serve(async (req) => {
         ? plan.programPlan
         : undefined;
 
-    const writeJa = await invokeStep(functionsBaseUrl, "write-script-ja", {
-      episodeDate,
-      genre,
-      idempotencyKey,
-      topic: plan.topic,
-      programPlan: planProgramPlan,
-      trendItems,
-      letters
-    }, stepAuth);
+    const writeJa = await runStep("write-script-ja", () =>
+      invokeStep(functionsBaseUrl, "write-script-ja", {
+        episodeDate,
+        genre,
+        idempotencyKey,
+        topic: plan.topic,
+        programPlan: planProgramPlan,
+        trendItems,
+        letters
+      }, stepAuth)
+    );
     const writeJaEpisodeId = extractEpisodeId(writeJa, "write-script-ja");
     let normalizationAudit: ScriptNormalizationAudit = {
       removedHtmlCount: readNormalizationMetric(writeJa, "removed_html_count"),
@@ -1299,7 +1392,6 @@ Deno.serve(async (req) => {
       dedupedLinesCount: readNormalizationMetric(writeJa, "deduped_lines_count"),
       changed: false
     };
-    const expandJaAttempts: InvokeResult[] = [];
     let actualChars =
       readNumberField(writeJa, ["chars_actual", "scriptChars"]) ??
       await loadEpisodeScriptChars(writeJaEpisodeId);
@@ -1308,19 +1400,8 @@ Deno.serve(async (req) => {
       estimateScriptDurationSec(actualChars, scriptGateConfig.charsPerMin);
     let sectionsCharsBreakdown = readRecordField(writeJa, "sections_chars_breakdown") ?? {};
     let itemsUsedCount = readItemsUsedCount(writeJa);
-    let expandAttempted = 0;
 
-    while (actualChars < scriptGateConfig.minChars && expandAttempted < MAX_EXPAND_ATTEMPTS) {
-      expandAttempted += 1;
-      const expanded = await invokeStep(functionsBaseUrl, "expand-script-ja", {
-        episodeDate,
-        genre,
-        idempotencyKey,
-        episodeId: writeJaEpisodeId,
-        attempt: expandAttempted,
-        charsShortage: scriptGateConfig.minChars - actualChars
-      }, stepAuth);
-      expandJaAttempts.push(expanded);
+    const applyExpandResult = async (expanded: InvokeResult) => {
       actualChars =
         readNumberField(expanded, ["chars_actual", "scriptChars"]) ??
         await loadEpisodeScriptChars(writeJaEpisodeId);
@@ -1332,15 +1413,41 @@ Deno.serve(async (req) => {
       if (Object.keys(expandedItemsUsed).length > 0) {
         itemsUsedCount = expandedItemsUsed;
       }
-    }
+    };
 
-    const polishJa = scriptPolishEnabled
-      ? await invokeStep(functionsBaseUrl, "polish-script-ja", {
+    // The checkpoint holds every attempt, including none when the draft was long enough.
+    const expandJaAttempts = await runStep("expand-script-ja", async () => {
+      const attempts: InvokeResult[] = [];
+      while (actualChars < scriptGateConfig.minChars && attempts.length < MAX_EXPAND_ATTEMPTS) {
+        const expanded = await invokeStep(functionsBaseUrl, "expand-script-ja", {
           episodeDate,
           genre,
           idempotencyKey,
-          episodeId: writeJaEpisodeId
-        }, stepAuth)
+          episodeId: writeJaEpisodeId,
+          attempt: attempts.length + 1,
+          charsShortage: scriptGateConfig.minChars - actualChars
+        }, stepAuth);
+        attempts.push(expanded);
+        await applyExpandResult(expanded);
+      }
+      return attempts;
+    });
+    if (stepActions["expand-script-ja"] === "reuse") {
+      for (const expanded of expandJaAttempts) {
+        await applyExpandResult(expanded);
+      }
+    }
+    const expandAttempted = expandJaAttempts.length;
+
+    const polishJa = scriptPolishEnabled
+      ? await runStep("polish-script-ja", () =>
+          invokeStep(functionsBaseUrl, "polish-script-ja", {
+            episodeDate,
+            genre,
+            idempotencyKey,
+            episodeId: writeJaEpisodeId
+          }, stepAuth)
+        )
       : ({
           ok: true,
           skipped: true,
@@ -1447,6 +1554,21 @@ Deno.serve(async (req) => {
     }
     await assertNoUrlsInEpisodeScript(writeJaEpisodeId);
 
+    const factCheck = checkScriptFacts({
+      script: normalizedJaScript.script,
+      sources: readDeepDiveSources(writeJa.deepDiveSources),
+      config: factCheckConfig
+    });
+    await updateEpisode(writeJaEpisodeId, { fact_check: factCheck });
+    if (factCheck.status === "blocked") {
+      failureDetails = {
+        failedStep: scriptValidationStep,
+        scriptMetrics,
+        factCheck
+      };
+      throw new Error(`fact_check_blocked:${factCheck.unsupported_count}/${factCheck.claims_count}`);
+    }
+
     const skipResult = {
       ok: true,
       skipped: true,
@@ -1467,28 +1589,34 @@ Deno.serve(async (req) => {
       ttsEn = skipResult;
       publish = skipResult;
     } else {
-      ttsJa = await invokeStep(functionsBaseUrl, "tts-ja", {
-        episodeDate,
-        genre,
-        idempotencyKey,
-        episodeId: writeJaEpisodeId
-      }, stepAuth);
+      ttsJa = await runStep("tts-ja", () =>
+        invokeStep(functionsBaseUrl, "tts-ja", {
+          episodeDate,
+          genre,
+          idempotencyKey,
+          episodeId: writeJaEpisodeId
+        }, stepAuth)
+      );
 
-      adaptEn = await invokeStep(functionsBaseUrl, "adapt-script-en", {
-        episodeDate,
-        genre,
-        idempotencyKey,
-        masterEpisodeId: writeJaEpisodeId
-      }, stepAuth);
+      adaptEn = await runStep("adapt-script-en", () =>
+        invokeStep(functionsBaseUrl, "adapt-script-en", {
+          episodeDate,
+          genre,
+          idempotencyKey,
+          masterEpisodeId: writeJaEpisodeId
+        }, stepAuth)
+      );
       const adaptEnEpisodeId = extractEpisodeId(adaptEn, "adapt-script-en");
 
       polishEn = scriptPolishEnabled
-        ? await invokeStep(functionsBaseUrl, "polish-script-en", {
-            episodeDate,
-            genre,
-            idempotencyKey,
-            episodeId: adaptEnEpisodeId
-          }, stepAuth)
+        ? await runStep("polish-script-en", () =>
+            invokeStep(functionsBaseUrl, "polish-script-en", {
+              episodeDate,
+              genre,
+              idempotencyKey,
+              episodeId: adaptEnEpisodeId
+            }, stepAuth)
+          )
         : ({
             ok: true,
             skipped: true,
@@ -1497,20 +1625,31 @@ Deno.serve(async (req) => {
           } satisfies InvokeResult);
       await assertNoUrlsInEpisodeScript(adaptEnEpisodeId);
 
-      ttsEn = await invokeStep(functionsBaseUrl, "tts-en", {
-        episodeDate,
-        genre,
-        idempotencyKey,
-        episodeId: adaptEnEpisodeId
-      }, stepAuth);
+      ttsEn = await runStep("tts-en", () =>
+        invokeStep(functionsBaseUrl, "tts-en", {
+          episodeDate,
+          genre,
+          idempotencyKey,
+          episodeId: adaptEnEpisodeId
+        }, stepAuth)
+      );
 
-      publish = await invokeStep(functionsBaseUrl, "publish", {
-        episodeDate,
-        genre,
-        idempotencyKey,
-        episodeIdJa: ttsJa.episodeId,
-        episodeIdEn: ttsEn.episodeId
-      }, stepAuth);
+      // Audio is still generated so a reviewer can publish by hand once the claims are checked.
+      publish = factCheck.status === "needs_review"
+        ? ({
+            ok: true,
+            skipped: true,
+            reason: "fact_check_needs_review"
+          } satisfies InvokeResult)
+        : await runStep("publish", () =>
+            invokeStep(functionsBaseUrl, "publish", {
+              episodeDate,
+              genre,
+              idempotencyKey,
+              episodeIdJa: ttsJa.episodeId,
+              episodeIdEn: ttsEn.episodeId
+            }, stepAuth)
+          );
 
       await markLettersAsUsed(letters);
       lettersMarkedUsed = true;
@@ -1547,6 +1686,8 @@ Deno.serve(async (req) => {
       requestEcho,
       decision: "run",
       orderedSteps,
+      resume,
+      stepActions,
       scriptPolishEnabled,
       skipTts,
       trendItems,
@@ -1565,6 +1706,7 @@ Deno.serve(async (req) => {
       digest_category_distribution: digestCategoryDistribution,
       script_quality_score: scriptQualitySummary,
       scriptMetrics,
+      factCheck,
       estimatedDurationSec,
       scriptGate: {
         ...scriptGateDiagnostic,
@@ -1611,6 +1753,7 @@ Deno.serve(async (req) => {
       digestCategoryDistribution,
       scriptQualityScore: scriptQualitySummary,
       scriptMetrics,
+      factCheck,
       estimatedDurationSec,
       scriptGate: {
         ...scriptGateDiagnostic,
@@ -1629,6 +1772,32 @@ Deno.serve(async (req) => {
       }
     });
   } catch (error) {
+    if (error instanceof StepSelectionEnd) {
+      await finishRun(runId, {
+        step: "daily-generate",
+        episodeDate,
+        genre,
+        idempotencyKey,
+        force,
+        requestEcho,
+        decision: "run",
+        orderedSteps,
+        resume,
+        stepActions,
+        stoppedBefore: error.step
+      });
+
+      return jsonResponse({
+        ok: true,
+        runId,
+        partial: true,
+        stoppedBefore: error.step,
+        resume,
+        stepActions,
+        requestEcho
+      });
+    }
+
     const message = error instanceof Error ? error.message : String(error);
     await failRun(runId, message, {
       step: "daily-generate",
@@ -1641,6 +1810,8 @@ Deno.serve(async (req) => {
       requestEcho,
       decision: "run",
       orderedSteps,
+      resume,
+      stepActions,
       scriptPolishEnabled,
       skipTts,
       scriptGate: scriptGateConfig,
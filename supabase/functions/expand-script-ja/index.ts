@@ -14,7 +14,11 @@ import {
   type ScriptSection,
   type SectionsCharsBreakdown
 } from "../_shared/scriptSections.ts";
-import { syncEpisodeJudgmentCardsForScript } from "../_shared/episodeJudgmentCards.ts";
+import {
+  readWriterJudgmentCardsSidecar,
+  summarizeJudgmentCardSync,
+  syncEpisodeJudgmentCardsForScript
+} from "../_shared/episodeJudgmentCards.ts";
 
 type RequestBody = {
   episodeDate?: string;
@@ -202,7 +206,9 @@ Deno.serve(async (req) => {
       episodeId: updated.id,
       lang: "ja",
       genre: updated.genre,
-      script: expanded.script
+      script: expanded.script,
+      // The expansion only appends a section, so the DeepDive decisions in the sidecar still hold.
+      sidecar: readWriterJudgmentCardsSidecar(updated.judgment_cards_sidecar)
     });
 
     await finishRun(runId, {
@@ -220,11 +226,7 @@ Deno.serve(async (req) => {
       chars_max: scriptGate.maxChars,
       sections_chars_breakdown: expanded.sectionsCharsBreakdown,
       scriptGate,
-      judgment_card_extraction: {
-        extracted_count: judgmentCardSync.extractedCount,
-        persisted_count: judgmentCardSync.persistedCount,
-        error: judgmentCardSync.error
-      }
+      judgment_card_extraction: summarizeJudgmentCardSync(judgmentCardSync)
     });
 
     return jsonResponse({
@@ -243,6 +245,7 @@ Deno.serve(async (req) => {
       sections_chars_breakdown: expanded.sectionsCharsBreakdown,
       scriptGate,
       judgmentCardExtraction: {
+        source: judgmentCardSync.source,
         extractedCount: judgmentCardSync.extractedCount,
         persistedCount: judgmentCardSync.persistedCount,
         error: judgmentCardSync.error
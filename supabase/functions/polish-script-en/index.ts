@@ -7,7 +7,6 @@ import {
   checkDeepDiveConcreteReferences,
   countWords,
   finalizePolishedScriptText,
-  hasOpenAiApiKey,
   normalizeScriptForPolishInput,
   parsePolishedScriptJson,
   renderPolishedScriptText,
@@ -21,6 +20,7 @@ import {
   summarizeError
 } from "../_shared/scriptPolish.ts";
 import { evaluateScriptQuality } from "../_shared/evaluateScriptQuality.ts";
+import { chatCompletionUnavailableReason, hasChatCompletionAccess } from "../_shared/llm.ts";
 
 type RequestBody = {
   episodeDate?: string;
@@ -139,7 +139,7 @@ Deno.serve(async (req) => {
   const maxAttempts = resolveScriptPolishMaxAttempts();
   const target = resolveScriptPolishTarget();
   const enabled = resolveScriptPolishEnabled();
-  const hasApiKey = hasOpenAiApiKey();
+  const hasApiKey = hasChatCompletionAccess();
 
   if (!episodeId) {
     return jsonResponse({ ok: false, error: "episodeId is required" }, 400);
@@ -226,8 +226,8 @@ Deno.serve(async (req) => {
         skippedReason = "disabled_by_env";
       } else if (!hasApiKey) {
         fallbackUsed = true;
-        skippedReason = "openai_api_key_missing";
-        errorSummary = "openai_api_key_missing";
+        skippedReason = chatCompletionUnavailableReason();
+        errorSummary = skippedReason;
       } else {
         let previousWords = 0;
         let previousDraft = "";
@@ -4,13 +4,7 @@ import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
 import { normalizeScriptText } from "../_shared/scriptNormalize.ts";
 import {
   buildPolishPreview,
-  checkDeepDiveConcreteReferences,
-  finalizePolishedScriptText,
-  hasOpenAiApiKey,
   normalizeScriptForPolishInput,
-  parsePolishedScriptJson,
-  renderPolishedScriptText,
-  requestPolishJsonFromOpenAi,
   resolveScriptPolishEnabled,
   resolveScriptPolishMaxAttempts,
   resolveScriptPolishModel,
@@ -19,8 +13,20 @@ import {
   resolveScriptPolishTimeoutMs,
   summarizeError
 } from "../_shared/scriptPolish.ts";
+import {
+  MIN_CHARS,
+  TARGET_MAX_CHARS,
+  TARGET_MIN_CHARS,
+  polishJapaneseScript
+} from "../_shared/scriptPolishJa.ts";
 import { evaluateScriptQuality } from "../_shared/evaluateScriptQuality.ts";
-import { syncEpisodeJudgmentCardsForScript } from "../_shared/episodeJudgmentCards.ts";
+import { chatCompletionUnavailableReason, hasChatCompletionAccess } from "../_shared/llm.ts";
+import {
+  readWriterJudgmentCardsSidecar,
+  summarizeJudgmentCardSync,
+  syncEpisodeJudgmentCardsForScript,
+  type ScriptJudgmentCardSyncResult
+} from "../_shared/episodeJudgmentCards.ts";
 
 type RequestBody = {
   episodeDate?: string;
@@ -32,102 +38,17 @@ type EpisodeRow = {
   id: string;
   lang: string | null;
   script: string | null;
+  judgment_cards_sidecar: unknown;
 };
 
 const STEP = "polish-ja";
 const JOB_TYPE = "polish-script-ja";
 const LANG = "ja";
-const MIN_CHARS = 4500;
-const TARGET_MIN_CHARS = 5000;
-const TARGET_MAX_CHARS = 6500;
-const MAX_COMPLETION_TOKENS = 12_000;
-
-const SYSTEM_PROMPT = [
-  "あなたはニュース番組の放送作家です。",
-  "番組コンセプトは『個人の時間とお金の最適化を支援する判断番組』です。",
-  "DeepDiveごとに判断フレーム（Frame A/B/C/D）を宣言し、指標の計算または条件判定で結論を示してください。",
-  "入力台本を、15〜20分の放送に耐える密度へ必ず拡張しながら全面リライトしてください。",
-  "要約は禁止。分量を削らず、背景・影響・次アクションを具体化して説明します。",
-  "判断は個人の時間とお金に限定し、B2B視点は扱いません。",
-  "短い箇条書きではなく、ナレーションとして流れる長さで書きます。",
-  "URL/プレースホルダ/壊れた断片/反復表現は除去し、読み上げやすい自然な日本語に統一します。",
-  "事実関係は変えない。捏造、憶測、断定的な誇張は禁止。",
-  "『予算配分』『媒体配分』『事業者視点』『業界戦略』『媒体再設計』という語と同義表現は禁止です。",
-  "同一文型の3回以上連続と、同一フレーズの3回以上反復を禁止します。",
-  "意味が曖昧な固有名詞は削除するか一般化して、文脈が通るように言い換えます。",
-  "出力はJSONのみ。説明文や前置きは禁止。"
-].join(" ");
-
-const toUserPrompt = (params: {
-  normalizedScript: string;
-  target: string;
-  attempt: number;
-  previousChars: number;
-  shortageChars: number;
-  previousDraft: string;
-  retryReason: string;
-}): string => {
-  const sourceScript = params.attempt > 1 && params.previousDraft
-    ? params.previousDraft
-    : params.normalizedScript;
-  const sourceLabel = params.attempt > 1 && params.previousDraft
-    ? "前回下書き（拡張対象）"
-    : "入力台本";
-  const retryNote = params.attempt > 1
-    ? `再生成要件: 前回の出力は ${params.previousChars} 文字で、最低条件まであと ${params.shortageChars} 文字不足です。再生成理由は「${params.retryReason || "品質不足"}」。背景説明と具体例を増やし、必ず ${MIN_CHARS} 文字以上にしてください。`
-    : "初回生成: 分量不足を避けるため、各セクションを十分に掘り下げてください。";
-
-  return [
-    "次の日本語台本を、放送品質の長尺スクリプトに書き直してください。",
-    "制約:",
-    "- 要約禁止。必ず拡張し、15〜20分相当の密度を確保する",
-    `- 目標分量は${TARGET_MIN_CHARS}〜${TARGET_MAX_CHARS}文字、最低でも${MIN_CHARS}文字`,
-    "- OP/HEADLINE/LETTERS/OUTROはそれぞれ2段落以上で展開",
-    "- OPには必ず『この番組はあなたの時間とお金を守る』『解説ではなく意思決定支援』を含める",
-    "- DEEPDIVE(3本)は各7項目構成にする",
-    "- DEEPDIVEの項目名: 1.何が起きたか（事実のみ） 2.現在の立ち位置（確定情報／未確定情報） 3.リスク（個人視点） 4.チャンス（個人視点） 5.今日の判断（個人視点） 6.判断期限（個人の行動期限） 7.監視ポイント（個人が見るべき数値）",
-    "- 各DEEPDIVEの⑤はFrame A/B/C/Dのいずれかを宣言し、数値計算または条件判定と結論を含め、必ず『あなたはどうするか。』で終える",
-    "- DEEPDIVEごとに異なる判断モデルを優先し、同じテンプレ判断（例: 30分固定）を繰り返さない",
-    "- QUICK NEWS(6本)は各項目を2〜3文でナレーションし、判断タグは【今使う】【今使わない】【監視】のみを使う",
-    "- QUICK NEWSでも可能な範囲でFrame A/B/C/Dを当て、判断根拠を一行で示す",
-    "- 各DEEPDIVEに具体例または数値を最低2つ入れる",
-    "- 各DEEPDIVEで個人のチャンスと個人のリスクを最低1つずつ明示する",
-    "- 各DEEPDIVEの冒頭に背景説明を最低1段落入れる",
-    "- 抽象語（重要です、影響します等）の連続使用は禁止",
-    "- 意味不明な固有名詞は削除または一般化する",
-    "- 事業者予算配分、媒体配分、業界戦略、媒体再設計の話題は禁止",
-    "- OPは conversational / warm",
-    "- HEADLINEは fast-paced / concise",
-    "- DEEPDIVEは analytical / structured",
-    "- QUICK NEWSは energetic / lighter",
-    "- LETTERSは friendly / empathetic",
-    "- OUTROは forward-looking summary",
-    "- 同一文構造の3回以上の繰り返しを禁止",
-    "- 同一フレーズの3回以上の繰り返しを禁止",
-    "- 各セクションに個人の時間とお金の判断ポイントを必ず含める",
-    "- 事実関係は維持する（捏造禁止）",
-    "- 既存方針の「事実/解釈/次アクション」を守る",
-    "- 同一表現の繰り返しを避ける",
-    "- 1文は短め、目安20〜45字",
-    "- セクション間の接続を自然に",
-    "- [URL] は本文で読まない",
-    "- 出力はJSONのみ。余計な文章を含めない",
-    `- ターゲット設定: ${params.target}`,
-    retryNote,
-    "",
-    `${sourceLabel}:`,
-    sourceScript
-  ].join("\n");
-};
 
 const buildFallbackScript = (rawScript: string): string => {
   return normalizeScriptText(rawScript, { preserveSourceUrls: true }).text;
 };
 
-const isJaLengthAcceptable = (value: string): boolean => {
-  return value.length >= MIN_CHARS;
-};
-
 Deno.serve(async (req) => {
   if (req.method !== "POST") {
     return jsonResponse({ ok: false, error: "method_not_allowed" }, 405);
@@ -143,7 +64,7 @@ Deno.serve(async (req) => {
   const maxAttempts = resolveScriptPolishMaxAttempts();
   const target = resolveScriptPolishTarget();
   const enabled = resolveScriptPolishEnabled();
-  const hasApiKey = hasOpenAiApiKey();
+  const hasApiKey = hasChatCompletionAccess();
 
   if (!episodeId) {
     return jsonResponse({ ok: false, error: "episodeId is required" }, 400);
@@ -189,14 +110,15 @@ Deno.serve(async (req) => {
   let scoreSkippedReason = "";
   let scoreErrorSummary = "";
   let scriptScoreDetail: Record<string, unknown> | null = null;
-  let judgmentCardsExtractedCount = 0;
-  let judgmentCardsPersistedCount = 0;
-  let judgmentCardsError: string | null = null;
+  // The writer's sidecar describes the unpolished script; replaced once a polished script is accepted.
+  let judgmentCardsSidecar: unknown = null;
+  let polishedJudgmentCardsErrors: string[] = [];
+  let judgmentCardSync: ScriptJudgmentCardSyncResult | null = null;
 
   try {
     const { data, error } = await supabaseAdmin
       .from("episodes")
-      .select("id, lang, script")
+      .select("id, lang, script, judgment_cards_sidecar")
       .eq("id", episodeId)
       .single();
 
@@ -210,6 +132,7 @@ Deno.serve(async (req) => {
     }
 
     rawScript = (episode.script ?? "").trim();
+    judgmentCardsSidecar = readWriterJudgmentCardsSidecar(episode.judgment_cards_sidecar);
     fallbackScript = buildFallbackScript(rawScript);
     finalScript = fallbackScript;
     preview = buildPolishPreview(fallbackScript);
@@ -231,86 +154,31 @@ Deno.serve(async (req) => {
         skippedReason = "disabled_by_env";
       } else if (!hasApiKey) {
         fallbackUsed = true;
-        skippedReason = "openai_api_key_missing";
-        errorSummary = "openai_api_key_missing";
+        skippedReason = chatCompletionUnavailableReason();
+        errorSummary = skippedReason;
       } else {
-        let previousChars = 0;
-        let previousDraft = "";
-
-        for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
-          attemptsUsed = attempt;
-          try {
-            const rawJson = await requestPolishJsonFromOpenAi({
-              model,
-              temperature,
-              timeoutMs,
-              systemPrompt: SYSTEM_PROMPT,
-              userPrompt: toUserPrompt({
-                normalizedScript: normalizedInput,
-                target,
-                attempt,
-                previousChars,
-                shortageChars: Math.max(0, MIN_CHARS - previousChars),
-                previousDraft,
-                retryReason
-              }),
-              schemaName: "polished_script_ja",
-              maxCompletionTokens: MAX_COMPLETION_TOKENS
-            });
-
-            const parsed = parsePolishedScriptJson(rawJson);
-            if (!parsed.ok) {
-              parseOk = false;
-              fallbackUsed = true;
-              errorSummary = `json_parse_failed:${parsed.error}`;
-              break;
-            }
-
-            parseOk = true;
-            const rendered = renderPolishedScriptText({
-              lang: "ja",
-              polished: parsed.data,
-              originalScript: rawScript
-            });
-            const finalized = finalizePolishedScriptText(rendered);
-            dedupedLinesCount = finalized.dedupedLinesCount;
-            previousChars = finalized.text.length;
-            previousDraft = finalized.text;
-            const concreteCheck = checkDeepDiveConcreteReferences("ja", parsed.data.sections.deepdive);
-            deepDiveConcreteCounts = concreteCheck.counts;
-            deepDiveConcreteOk = concreteCheck.ok;
-            if (!concreteCheck.ok) {
-              fallbackUsed = true;
-              retryReason = `deepdive_concrete_refs_missing:${concreteCheck.failingIndices
-                .map((index) => index + 1)
-                .join(",")}`;
-              errorSummary = retryReason;
-              if (attempt >= maxAttempts) {
-                break;
-              }
-              continue;
-            }
-
-            if (isJaLengthAcceptable(finalized.text)) {
-              finalScript = finalized.text;
-              preview = buildPolishPreview(parsed.data.preview || finalized.text);
-              fallbackUsed = false;
-              errorSummary = "";
-              break;
-            }
-
-            fallbackUsed = true;
-            retryReason = `polished_script_too_short:${finalized.text.length}`;
-            errorSummary = retryReason;
-            if (attempt >= maxAttempts) {
-              break;
-            }
-          } catch (error) {
-            parseOk = false;
-            fallbackUsed = true;
-            errorSummary = summarizeError(error);
-            break;
-          }
+        const polished = await polishJapaneseScript({
+          rawScript,
+          normalizedInput,
+          model,
+          temperature,
+          timeoutMs,
+          maxAttempts,
+          target
+        });
+        attemptsUsed = polished.attemptsUsed;
+        parseOk = polished.parseOk;
+        fallbackUsed = polished.fallbackUsed;
+        errorSummary = polished.errorSummary;
+        retryReason = polished.retryReason;
+        dedupedLinesCount = polished.dedupedLinesCount;
+        deepDiveConcreteOk = polished.deepDiveConcreteOk;
+        deepDiveConcreteCounts = polished.deepDiveConcreteCounts;
+        if (polished.finalScript) {
+          finalScript = polished.finalScript;
+          preview = polished.preview;
+          judgmentCardsSidecar = polished.judgmentCards;
+          polishedJudgmentCardsErrors = polished.judgmentCardsErrors;
         }
       }
     }
@@ -358,7 +226,8 @@ Deno.serve(async (req) => {
         script_polished: finalScript || null,
         script_polished_preview: preview || null,
         script_score: scriptScore,
-        script_score_detail: scriptScoreDetail
+        script_score_detail: scriptScoreDetail,
+        ...(noOp ? {} : { judgment_cards_sidecar: judgmentCardsSidecar })
       })
       .eq("id", episodeId);
 
@@ -366,14 +235,12 @@ Deno.serve(async (req) => {
       throw updateError;
     }
 
-    const judgmentCardSync = await syncEpisodeJudgmentCardsForScript({
+    judgmentCardSync = await syncEpisodeJudgmentCardsForScript({
       episodeId,
       lang: "ja",
-      script: finalScript
+      script: finalScript,
+      sidecar: judgmentCardsSidecar
     });
-    judgmentCardsExtractedCount = judgmentCardSync.extractedCount;
-    judgmentCardsPersistedCount = judgmentCardSync.persistedCount;
-    judgmentCardsError = judgmentCardSync.error;
   } catch (error) {
     fallbackUsed = true;
     parseOk = false;
@@ -397,14 +264,12 @@ Deno.serve(async (req) => {
         })
         .eq("id", episodeId);
 
-      const judgmentCardSync = await syncEpisodeJudgmentCardsForScript({
+      judgmentCardSync = await syncEpisodeJudgmentCardsForScript({
         episodeId,
         lang: "ja",
-        script: finalScript
+        script: finalScript,
+        sidecar: judgmentCardsSidecar
       });
-      judgmentCardsExtractedCount = judgmentCardSync.extractedCount;
-      judgmentCardsPersistedCount = judgmentCardSync.persistedCount;
-      judgmentCardsError = judgmentCardSync.error;
     }
   }
 
@@ -450,11 +315,10 @@ Deno.serve(async (req) => {
     chars_target_min: TARGET_MIN_CHARS,
     chars_target_max: TARGET_MAX_CHARS,
     script_polished_preview_chars: preview.length,
-    judgment_card_extraction: {
-      extracted_count: judgmentCardsExtractedCount,
-      persisted_count: judgmentCardsPersistedCount,
-      error: judgmentCardsError
-    },
+    judgment_card_extraction: judgmentCardSync
+      ? summarizeJudgmentCardSync(judgmentCardSync)
+      : { source: null, extracted_count: 0, persisted_count: 0, error: null },
+    polished_judgment_cards_errors: polishedJudgmentCardsErrors,
     instructions_version: "ja-radio-v3-fact-tone-score"
   };
 
@@ -49,6 +49,10 @@ Deno.serve(async (req) => {
     if (!ja.audio_url || !en.audio_url) {
       throw new Error("audio_url must exist for both ja/en episodes before publish");
     }
+    // Set by daily-generate; needs_review episodes are published by calling this step by hand.
+    if (ja.fact_check?.status === "blocked") {
+      throw new Error(`fact_check_blocked:${ja.id}`);
+    }
 
     const [publishedJaForDate, publishedEnForDate] = await Promise.all([
       findPublishedEpisodeByJstDate({
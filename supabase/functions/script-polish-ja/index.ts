@@ -9,6 +9,7 @@ import {
   renderScriptSections
 } from "../_shared/scriptSections.ts";
 import { estimateScriptDurationSec, resolveScriptGateConfig } from "../_shared/scriptGate.ts";
+import { requestChatContent } from "../_shared/llm.ts";
 
 type RequestBody = {
   episodeDate?: string;
@@ -21,24 +22,12 @@ type ChatMessage = {
   content: string;
 };
 
-type OpenAiChatResponse = {
-  choices?: Array<{
-    message?: {
-      content?: string;
-    };
-  }>;
-  error?: {
-    message?: string;
-  };
-};
-
 type EpisodeRow = {
   id: string;
   lang: string | null;
   script: string | null;
 };
 
-const OPENAI_API_URL = "https://api.openai.com/v1/chat/completions";
 const DEFAULT_MODEL = "gpt-4o-mini";
 const TARGET_MIN_CHARS = 3500;
 const TARGET_MAX_CHARS = 5000;
@@ -65,11 +54,6 @@ const resolveModel = (): string => {
   return envModel && envModel.length > 0 ? envModel : DEFAULT_MODEL;
 };
 
-const parseChatContent = (payload: OpenAiChatResponse): string => {
-  const content = payload.choices?.[0]?.message?.content;
-  return typeof content === "string" ? content.trim() : "";
-};
-
 const toUserPrompt = (script: string, retryDirective?: string): string => {
   const sections = parseScriptSections(script);
   const sectionHeadings = sections.map((section) => section.heading);
@@ -245,40 +229,20 @@ const requestOpenAiPolish = async (params: {
   model: string;
   retryDirective?: string;
 }): Promise<string> => {
-  const apiKey = Deno.env.get("OPENAI_API_KEY")?.trim();
-  if (!apiKey) {
-    throw new Error("openai_api_key_missing");
-  }
-
   const messages: ChatMessage[] = [
     { role: "system", content: SYSTEM_PROMPT },
     { role: "user", content: toUserPrompt(params.script, params.retryDirective) }
   ];
 
-  const response = await fetch(OPENAI_API_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
+  const content = await requestChatContent(
+    {
       model: params.model,
       temperature: 0.3,
       max_tokens: 5000,
       messages
-    }),
-    signal: AbortSignal.timeout(45_000)
-  });
-
-  const payload = (await response.json().catch(() => ({}))) as OpenAiChatResponse;
-  if (!response.ok) {
-    throw new Error(payload.error?.message?.trim() || `openai_http_${response.status}`);
-  }
-
-  const content = parseChatContent(payload);
-  if (!content) {
-    throw new Error("openai_empty_response");
-  }
+    },
+    45_000
+  );
 
   return stripCodeFence(content);
 };
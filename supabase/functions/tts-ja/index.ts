@@ -222,6 +222,7 @@ Deno.serve(async (req) => {
     const updated = await updateEpisode(episode.id, {
       audio_url: audioUrl,
       duration_sec: synthesized.durationSec,
+      audio_sections: synthesized.sections.length > 0 ? synthesized.sections : null,
       status: "ready"
     });
 
@@ -251,6 +252,7 @@ Deno.serve(async (req) => {
       voice: synthesized.voice,
       format: synthesized.format,
       speed: ttsConfig.speed,
+      audio_section_count: synthesized.sections.length,
       fallback_reason: synthesized.fallbackReason
     });
 
@@ -0,0 +1,78 @@
+-- Shared sliding-window rate limit store.
+-- One row per accepted request; consume_rate_limit() counts and inserts
+-- under a per-(limiter, key) advisory lock so concurrent instances agree.
+-- Accessed only through service_role (RLS enabled, no policies).
+
+begin;
+
+create table if not exists public.rate_limit_events (
+  id bigint generated always as identity primary key,
+  limiter text not null,
+  rate_key text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_rate_limit_events_limiter_key_created_at
+  on public.rate_limit_events (limiter, rate_key, created_at);
+
+create index if not exists idx_rate_limit_events_created_at
+  on public.rate_limit_events (created_at);
+
+alter table public.rate_limit_events enable row level security;
+
+create or replace function public.consume_rate_limit(
+  p_limiter text,
+  p_key text,
+  p_max_requests integer,
+  p_window_ms integer
+)
+returns table (allowed boolean, remaining integer, retry_after_ms integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_now timestamptz := clock_timestamp();
+  v_window interval := make_interval(secs => p_window_ms / 1000.0);
+  v_count integer;
+  v_oldest timestamptz;
+begin
+  perform pg_advisory_xact_lock(hashtext(p_limiter), hashtext(p_key));
+
+  delete from public.rate_limit_events
+  where limiter = p_limiter
+    and rate_key = p_key
+    and created_at <= v_now - v_window;
+
+  -- Opportunistic cleanup of keys that stopped sending requests.
+  if random() < 0.01 then
+    delete from public.rate_limit_events
+    where created_at < v_now - interval '1 day';
+  end if;
+
+  select count(*), min(created_at)
+  into v_count, v_oldest
+  from public.rate_limit_events
+  where limiter = p_limiter
+    and rate_key = p_key;
+
+  if v_count >= p_max_requests then
+    return query
+    select
+      false,
+      0,
+      ceil(extract(epoch from (coalesce(v_oldest, v_now) + v_window - v_now)) * 1000)::integer;
+    return;
+  end if;
+
+  insert into public.rate_limit_events (limiter, rate_key, created_at)
+  values (p_limiter, p_key, v_now);
+
+  return query select true, p_max_requests - v_count - 1, 0;
+end;
+$$;
+
+revoke all on function public.consume_rate_limit(text, text, integer, integer) from public, anon, authenticated;
+grant execute on function public.consume_rate_limit(text, text, integer, integer) to service_role;
+
+commit;
@@ -0,0 +1,39 @@
+-- Listener letter submission + admin moderation queue.
+-- Letters now record the submitting user so listeners can see their own
+-- letters and their moderation status. Moderation decisions keep who/when.
+-- Authenticated users may only read and insert their own letters;
+-- approvals and blocks happen via service_role from /admin/letters.
+
+begin;
+
+alter table public.letters
+  add column if not exists user_id uuid references auth.users(id) on delete set null,
+  add column if not exists moderated_at timestamptz,
+  add column if not exists moderated_by text;
+
+create index if not exists idx_letters_user_id_created_at
+  on public.letters(user_id, created_at desc);
+
+create index if not exists idx_letters_moderation_status_created_at
+  on public.letters(moderation_status, created_at desc);
+
+drop policy if exists letters_authenticated_select on public.letters;
+create policy letters_authenticated_select
+  on public.letters
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+drop policy if exists letters_authenticated_insert on public.letters;
+create policy letters_authenticated_insert
+  on public.letters
+  for insert
+  to authenticated
+  with check (
+    auth.uid() = user_id
+    and moderation_status = 'pending'
+    and is_used = false
+    and is_blocked = false
+  );
+
+commit;
@@ -0,0 +1,19 @@
+-- Track Stripe refunds on tips.
+-- A refunded tip no longer gives its letter priority in daily-generate,
+-- which only joins tips where refunded_at is null.
+
+begin;
+
+alter table public.tips
+  add column if not exists refunded_amount integer not null default 0,
+  add column if not exists refunded_at timestamptz;
+
+alter table public.tips
+  drop constraint if exists tips_refunded_amount_check,
+  add constraint tips_refunded_amount_check check (refunded_amount >= 0);
+
+create index if not exists idx_tips_letter_id_active
+  on public.tips(letter_id, created_at desc)
+  where refunded_at is null;
+
+commit;
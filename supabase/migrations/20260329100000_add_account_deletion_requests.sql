@@ -0,0 +1,26 @@
+-- Two-step self-serve account deletion.
+-- Step 1 stores a hashed one-time code that is emailed to the user;
+-- step 2 verifies it before Stripe subscriptions are cancelled and user data is purged.
+-- Service role only: RLS is enabled without policies.
+
+begin;
+
+create table if not exists public.account_deletion_requests (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  code_hash text null,
+  expires_at timestamptz not null,
+  sent_at timestamptz not null default now(),
+  failed_attempts integer not null default 0 check (failed_attempts >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.account_deletion_requests enable row level security;
+
+drop trigger if exists set_account_deletion_requests_updated_at on public.account_deletion_requests;
+create trigger set_account_deletion_requests_updated_at
+before update on public.account_deletion_requests
+for each row
+execute function public.set_current_timestamp_updated_at();
+
+commit;
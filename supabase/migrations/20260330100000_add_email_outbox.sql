@@ -0,0 +1,49 @@
+-- Persistent outbox for transactional email.
+-- Every send attempt is recorded with its transport, provider message id and retry count.
+-- Failed sends keep status 'failed' with next_attempt_at until /api/cron/retry-email-outbox
+-- delivers them or max_attempts is reached ('dead').
+-- Sensitive mail (one-time codes) stores no body and is never retried.
+-- Service role only: RLS is enabled without policies.
+
+begin;
+
+create table if not exists public.email_outbox (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid null references auth.users(id) on delete set null,
+  category text not null default 'general',
+  to_email text not null,
+  from_email text not null,
+  subject text not null,
+  html text null,
+  text_body text null,
+  headers jsonb not null default '{}'::jsonb,
+  status text not null default 'pending'
+    check (status in ('pending', 'sending', 'sent', 'failed', 'dead')),
+  transport text null,
+  provider_message_id text null,
+  attempt_count integer not null default 0 check (attempt_count >= 0),
+  max_attempts integer not null default 5 check (max_attempts >= 1),
+  last_error text null,
+  next_attempt_at timestamptz null,
+  last_attempt_at timestamptz null,
+  sent_at timestamptz null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists email_outbox_retry_idx
+  on public.email_outbox (next_attempt_at)
+  where status = 'failed';
+
+create index if not exists email_outbox_user_created_idx
+  on public.email_outbox (user_id, created_at desc);
+
+alter table public.email_outbox enable row level security;
+
+drop trigger if exists set_email_outbox_updated_at on public.email_outbox;
+create trigger set_email_outbox_updated_at
+before update on public.email_outbox
+for each row
+execute function public.set_current_timestamp_updated_at();
+
+commit;
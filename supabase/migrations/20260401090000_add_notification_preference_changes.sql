@@ -0,0 +1,25 @@
+-- Audit log for notification preference changes.
+-- One row per change, from account settings ('settings') or a signed
+-- unsubscribe link in an email ('unsubscribe_link', which needs no login).
+-- `changes` holds the human-readable lines from describeNotificationPreferenceChanges.
+-- Service role only: RLS is enabled without policies.
+
+begin;
+
+create table if not exists public.notification_preference_changes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  source text not null check (source in ('settings', 'unsubscribe_link')),
+  scope text null check (scope in ('weekly_digest', 'deadline_alert', 'outcome_reminder', 'all')),
+  changes text[] not null default '{}',
+  before_preferences jsonb not null,
+  after_preferences jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notification_preference_changes_user_created_idx
+  on public.notification_preference_changes (user_id, created_at desc);
+
+alter table public.notification_preference_changes enable row level security;
+
+commit;
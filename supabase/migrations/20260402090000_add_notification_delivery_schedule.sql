@@ -0,0 +1,28 @@
+-- Delivery window, quiet hours and daily bundle for alert emails.
+-- Hours are local to `timezone` (IANA, JST by default). The window is [start, end)
+-- and 0 → 24 means any time; quiet hours are both null (off) or both set.
+-- `daily_bundle_sent_at` is sender state: one bundle per local day.
+
+begin;
+
+alter table public.user_notification_preferences
+  add column if not exists timezone text not null default 'Asia/Tokyo',
+  add column if not exists delivery_window_start_hour smallint not null default 0
+    check (delivery_window_start_hour between 0 and 23),
+  add column if not exists delivery_window_end_hour smallint not null default 24
+    check (delivery_window_end_hour between 1 and 24),
+  add column if not exists quiet_hours_start_hour smallint null
+    check (quiet_hours_start_hour between 0 and 23),
+  add column if not exists quiet_hours_end_hour smallint null
+    check (quiet_hours_end_hour between 0 and 23),
+  add column if not exists daily_bundle_enabled boolean not null default false,
+  add column if not exists daily_bundle_sent_at timestamptz null;
+
+alter table public.user_notification_preferences
+  drop constraint if exists user_notification_preferences_quiet_hours_check;
+
+alter table public.user_notification_preferences
+  add constraint user_notification_preferences_quiet_hours_check
+  check ((quiet_hours_start_hour is null) = (quiet_hours_end_hour is null));
+
+commit;
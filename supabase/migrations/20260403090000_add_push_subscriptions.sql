@@ -0,0 +1,44 @@
+-- Web Push channel for alerts.
+-- One row per browser subscription (a user may have several devices); the
+-- endpoint is unique, so re-subscribing from the same browser updates the row.
+-- `user_alerts.push_sent_at` marks alerts already pushed, separately from the
+-- email `is_sent` flag. `push_enabled` is the per-user channel switch.
+-- Service role only: RLS is enabled without policies.
+
+begin;
+
+create table if not exists public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  endpoint text not null unique,
+  p256dh text not null,
+  auth text not null,
+  user_agent text null,
+  failure_count integer not null default 0,
+  last_success_at timestamptz null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists push_subscriptions_user_idx
+  on public.push_subscriptions (user_id);
+
+drop trigger if exists set_push_subscriptions_updated_at on public.push_subscriptions;
+create trigger set_push_subscriptions_updated_at
+before update on public.push_subscriptions
+for each row
+execute function public.set_current_timestamp_updated_at();
+
+alter table public.push_subscriptions enable row level security;
+
+alter table public.user_alerts
+  add column if not exists push_sent_at timestamptz null;
+
+create index if not exists idx_user_alerts_push_pending
+  on public.user_alerts (created_at)
+  where push_sent_at is null and dismissed_at is null and is_read = false;
+
+alter table public.user_notification_preferences
+  add column if not exists push_enabled boolean not null default true;
+
+commit;
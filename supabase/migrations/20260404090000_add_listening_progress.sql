@@ -0,0 +1,40 @@
+-- Cross-device playback position, one row per user and episode.
+-- Written by /api/episodes/[id]/progress (service role); `completed_at` is set
+-- once, the first time the server sees the episode played to the end, and
+-- stays set when the listener replays it.
+
+begin;
+
+create table if not exists public.listening_progress (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  episode_id uuid not null references public.episodes(id) on delete cascade,
+  position_sec double precision not null default 0 check (position_sec >= 0),
+  duration_sec double precision null check (duration_sec is null or duration_sec > 0),
+  completed_at timestamptz null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, episode_id)
+);
+
+create index if not exists idx_listening_progress_user_updated_at
+  on public.listening_progress (user_id, updated_at desc);
+
+drop trigger if exists set_listening_progress_updated_at on public.listening_progress;
+create trigger set_listening_progress_updated_at
+before update on public.listening_progress
+for each row
+execute function public.set_current_timestamp_updated_at();
+
+alter table public.listening_progress enable row level security;
+
+drop policy if exists listening_progress_self_select on public.listening_progress;
+create policy listening_progress_self_select
+  on public.listening_progress
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+comment on table public.listening_progress is
+  'Per-user playback position and completion for episodes, synced across devices.';
+
+commit;
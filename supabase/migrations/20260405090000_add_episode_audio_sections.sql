@@ -0,0 +1,20 @@
+-- Measured start offsets of each `[HEADING]` script section in the episode audio.
+-- Written by tts-ja / tts-en when the TTS API synthesized the script section by
+-- section: `[{ "heading": "DEEPDIVE 1", "startSec": 42.3, "durationSec": 180.5 }, ...]`.
+-- Null for audio synthesized in one piece; chapters are then estimated from
+-- the script's character counts.
+
+begin;
+
+alter table public.episodes
+  add column if not exists audio_sections jsonb null;
+
+alter table public.episodes
+  drop constraint if exists episodes_audio_sections_check,
+  add constraint episodes_audio_sections_check
+    check (audio_sections is null or jsonb_typeof(audio_sections) = 'array');
+
+comment on column public.episodes.audio_sections is
+  'Per-section start offsets (seconds) in the synthesized audio, in script order.';
+
+commit;
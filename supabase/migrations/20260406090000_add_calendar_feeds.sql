@@ -0,0 +1,24 @@
+-- Per-user calendar (ICS) feed of decision reminders.
+-- A row means the user turned the feed on. The feed URL carries an HMAC token
+-- (CALENDAR_FEED_SECRET) signed over `user_id` and `token_version`; rotating
+-- the URL from /account bumps the version so older URLs stop working.
+-- Service role only: RLS is enabled without policies.
+
+begin;
+
+create table if not exists public.calendar_feeds (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  token_version integer not null default 1 check (token_version > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists set_calendar_feeds_updated_at on public.calendar_feeds;
+create trigger set_calendar_feeds_updated_at
+before update on public.calendar_feeds
+for each row
+execute function public.set_current_timestamp_updated_at();
+
+alter table public.calendar_feeds enable row level security;
+
+commit;
@@ -0,0 +1,27 @@
+-- User-defined calculator frames (name, input fields, formula and use_now /
+-- skip boundaries). `definition` holds the validated shape from
+-- src/lib/customDecisionFrames.ts and is re-validated when loaded.
+-- Service role only: RLS is enabled without policies.
+
+begin;
+
+create table if not exists public.user_decision_frames (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  definition jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists user_decision_frames_user_id_created_at_idx
+  on public.user_decision_frames (user_id, created_at);
+
+drop trigger if exists set_user_decision_frames_updated_at on public.user_decision_frames;
+create trigger set_user_decision_frames_updated_at
+before update on public.user_decision_frames
+for each row
+execute function public.set_current_timestamp_updated_at();
+
+alter table public.user_decision_frames enable row level security;
+
+commit;
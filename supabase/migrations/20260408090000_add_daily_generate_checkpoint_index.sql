@@ -0,0 +1,12 @@
+-- daily-generate stores each step's output as a `daily-generate-checkpoint`
+-- job_runs row (payload: idempotencyKey, step, runId, output) so retries can
+-- resume from the first failed step. Checkpoints are looked up and replaced
+-- by idempotency key and step.
+
+begin;
+
+create index if not exists idx_job_runs_checkpoint_key_step
+  on public.job_runs ((payload->>'idempotencyKey'), (payload->>'step'))
+  where job_type = 'daily-generate-checkpoint';
+
+commit;
@@ -0,0 +1,21 @@
+-- Structured judgment cards emitted alongside the Japanese script.
+-- Written by write-script-ja (from the decision frames it evaluated) and
+-- replaced by polish-script-ja when a polished script is accepted:
+-- `{ "version": 1, "source": "writer" | "polish", "cards": [...] }`.
+-- Null for older episodes or when the polish output failed validation;
+-- episode_judgment_cards is then filled from the script text instead.
+
+begin;
+
+alter table public.episodes
+  add column if not exists judgment_cards_sidecar jsonb null;
+
+alter table public.episodes
+  drop constraint if exists episodes_judgment_cards_sidecar_check,
+  add constraint episodes_judgment_cards_sidecar_check
+    check (judgment_cards_sidecar is null or jsonb_typeof(judgment_cards_sidecar) = 'object');
+
+comment on column public.episodes.judgment_cards_sidecar is
+  'Judgment cards as emitted by the script writer or polisher; preferred over parsing the script.';
+
+commit;
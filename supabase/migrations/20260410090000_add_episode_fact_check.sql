@@ -0,0 +1,19 @@
+-- Result of the DeepDive fact-check pass run by daily-generate: numbers and
+-- Latin proper nouns in each DeepDive that the linked trend item does not
+-- state, plus the overall status (`passed`, `needs_review`, `blocked`,
+-- `skipped`). publish refuses ja episodes whose status is `blocked`.
+
+begin;
+
+alter table public.episodes
+  add column if not exists fact_check jsonb null;
+
+alter table public.episodes
+  drop constraint if exists episodes_fact_check_check,
+  add constraint episodes_fact_check_check
+    check (fact_check is null or jsonb_typeof(fact_check) = 'object');
+
+comment on column public.episodes.fact_check is
+  'DeepDive claims checked against their source trend items; see supabase/functions/_shared/scriptFactCheck.ts.';
+
+commit;
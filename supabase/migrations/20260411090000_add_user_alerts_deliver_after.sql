@@ -0,0 +1,15 @@
+-- Alerts the email run holds back (outside the user's delivery window, quiet
+-- hours, today's daily bundle already sent, or email not possible yet) get a
+-- `deliver_after`. The send batch only picks unsent rows whose
+-- `deliver_after` has passed, so held-back rows cannot fill it.
+
+begin;
+
+alter table public.user_alerts
+  add column if not exists deliver_after timestamptz null;
+
+create index if not exists idx_user_alerts_email_pending
+  on public.user_alerts (created_at)
+  where is_sent = false and dismissed_at is null;
+
+commit;
@@ -0,0 +1,43 @@
+-- Atomic custom frame limit.
+-- create_user_decision_frame() counts the user's frames and inserts under a
+-- per-user advisory lock, so concurrent saves cannot pass the limit. Returns
+-- no row once the user already has p_limit frames.
+-- Accessed only through service_role.
+
+begin;
+
+create or replace function public.create_user_decision_frame(
+  p_user_id uuid,
+  p_definition jsonb,
+  p_limit integer
+)
+returns setof public.user_decision_frames
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  perform pg_advisory_xact_lock(hashtext('user_decision_frames'), hashtext(p_user_id::text));
+
+  select count(*)
+  into v_count
+  from public.user_decision_frames
+  where user_id = p_user_id;
+
+  if v_count >= p_limit then
+    return;
+  end if;
+
+  return query
+  insert into public.user_decision_frames (user_id, definition)
+  values (p_user_id, p_definition)
+  returning *;
+end;
+$$;
+
+revoke all on function public.create_user_decision_frame(uuid, jsonb, integer) from public, anon, authenticated;
+grant execute on function public.create_user_decision_frame(uuid, jsonb, integer) to service_role;
+
+commit;
@@ -0,0 +1,13 @@
+-- Alerts the push run holds back (outside the user's delivery window or in
+-- quiet hours) get a `push_deliver_after`, the push counterpart of
+-- `deliver_after`. The push batch only picks unpushed rows whose
+-- `push_deliver_after` has passed, so held-back rows cannot fill it.
+-- Separate from `deliver_after` because the email run also holds alerts for
+-- reasons that do not apply to push (daily bundle, no email address).
+
+begin;
+
+alter table public.user_alerts
+  add column if not exists push_deliver_after timestamptz null;
+
+commit;
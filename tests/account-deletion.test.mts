@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+import {
+  evaluateAccountDeletionChallenge,
+  hashAccountDeletionCode,
+  isAccountDeletionConfirmPhrase
+} from "../app/lib/accountDeletionToken.ts";
+import {
+  ACCOUNT_DELETION_MAX_ATTEMPTS,
+  ACCOUNT_PURGE_TABLES,
+  buildPersonalDataArchive,
+  describeAccountDeletion,
+  PERSONAL_DATA_EXCLUDED_TABLES,
+  PERSONAL_DATA_TABLES,
+  resolveDeletionResendCooldownSeconds
+} from "../src/lib/accountDeletion.ts";
+
+const MIGRATIONS_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..", "supabase", "migrations");
+
+const USER_ID = "11111111-1111-4111-8111-111111111111";
+const NOW = new Date("2026-03-29T10:00:00.000Z");
+
+const challenge = (overrides: Partial<{ code_hash: string | null; expires_at: string; failed_attempts: number }> = {}) => ({
+  code_hash: hashAccountDeletionCode(USER_ID, "123456"),
+  expires_at: "2026-03-29T10:15:00.000Z",
+  failed_attempts: 0,
+  ...overrides
+});
+
+test("evaluateAccountDeletionChallenge accepts the emailed code for the same user only", () => {
+  assert.deepEqual(evaluateAccountDeletionChallenge({ userId: USER_ID, challenge: challenge(), code: " 123456 ", now: NOW }), {
+    ok: true
+  });
+  assert.deepEqual(
+    evaluateAccountDeletionChallenge({
+      userId: "22222222-2222-4222-8222-222222222222",
+      challenge: challenge(),
+      code: "123456",
+      now: NOW
+    }),
+    { ok: false, error: "invalid_deletion_code" }
+  );
+  assert.deepEqual(evaluateAccountDeletionChallenge({ userId: USER_ID, challenge: challenge(), code: "654321", now: NOW }), {
+    ok: false,
+    error: "invalid_deletion_code"
+  });
+});
+
+test("evaluateAccountDeletionChallenge rejects missing, expired and exhausted challenges before comparing", () => {
+  assert.deepEqual(evaluateAccountDeletionChallenge({ userId: USER_ID, challenge: null, code: "123456", now: NOW }), {
+    ok: false,
+    error: "deletion_not_requested"
+  });
+  assert.deepEqual(
+    evaluateAccountDeletionChallenge({
+      userId: USER_ID,
+      challenge: challenge({ expires_at: "2026-03-29T09:59:59.000Z" }),
+      code: "123456",
+      now: NOW
+    }),
+    { ok: false, error: "deletion_code_expired" }
+  );
+  assert.deepEqual(
+    evaluateAccountDeletionChallenge({
+      userId: USER_ID,
+      challenge: challenge({ failed_attempts: ACCOUNT_DELETION_MAX_ATTEMPTS }),
+      code: "123456",
+      now: NOW
+    }),
+    { ok: false, error: "deletion_attempts_exceeded" }
+  );
+});
+
+test("isAccountDeletionConfirmPhrase requires the exact phrase", () => {
+  assert.equal(isAccountDeletionConfirmPhrase(" 削除する "), true);
+  assert.equal(isAccountDeletionConfirmPhrase("削除"), false);
+  assert.equal(isAccountDeletionConfirmPhrase(undefined), false);
+});
+
+test("resolveDeletionResendCooldownSeconds counts down from the last send", () => {
+  assert.equal(resolveDeletionResendCooldownSeconds(null, NOW), 0);
+  assert.equal(resolveDeletionResendCooldownSeconds("2026-03-29T09:59:30.000Z", NOW), 30);
+  assert.equal(resolveDeletionResendCooldownSeconds("2026-03-29T09:58:00.000Z", NOW), 0);
+});
+
+test("buildPersonalDataArchive lists every personal data table even when empty", () => {
+  const archive = buildPersonalDataArchive({
+    userId: USER_ID,
+    email: "listener@example.com",
+    tables: { profiles: [{ user_id: USER_ID }] },
+    decisionExport: null,
+    now: NOW
+  });
+
+  assert.equal(archive.kind, "personal_data_export");
+  assert.equal(archive.exported_at, "2026-03-29T10:00:00.000Z");
+  assert.deepEqual(Object.keys(archive.tables), [...PERSONAL_DATA_TABLES]);
+  assert.deepEqual(archive.tables.profiles, [{ user_id: USER_ID }]);
+  assert.deepEqual(archive.tables.letters, []);
+});
+
+test("every table with a user_id column is exported and purged", async () => {
+  const userTables = new Set<string>();
+  for (const file of (await readdir(MIGRATIONS_DIR)).filter((name) => name.endsWith(".sql"))) {
+    const sql = await readFile(path.join(MIGRATIONS_DIR, file), "utf8");
+    for (const match of sql.matchAll(/create table (?:if not exists )?(?:public\.)?(\w+)\s*\(([\s\S]*?)\n\);/gi)) {
+      if (/^\s*user_id\s/m.test(match[2])) userTables.add(match[1]);
+    }
+  }
+  // purgeAccountData anonymises these instead of deleting them by user_id.
+  const anonymisedTables = ["letters", "analytics_events"];
+
+  assert.ok(userTables.has("push_subscriptions"));
+  for (const table of userTables) {
+    assert.ok(
+      (PERSONAL_DATA_TABLES as readonly string[]).includes(table) ||
+        (PERSONAL_DATA_EXCLUDED_TABLES as readonly string[]).includes(table),
+      `${table} is neither exported nor excluded`
+    );
+    assert.ok(
+      (ACCOUNT_PURGE_TABLES as readonly string[]).includes(table) || anonymisedTables.includes(table),
+      `${table} is not purged`
+    );
+  }
+});
+
+test("describeAccountDeletion mentions cancelled subscriptions and anonymised letters only when present", () => {
+  assert.equal(describeAccountDeletion({ cancelledSubscriptionCount: 0, anonymisedLetterCount: 0 }).length, 1);
+
+  const lines = describeAccountDeletion({ cancelledSubscriptionCount: 1, anonymisedLetterCount: 2 });
+  assert.equal(lines.length, 3);
+  assert.ok(lines[1].includes("1 件を解約"));
+  assert.ok(lines[2].includes("2 件"));
+});
@@ -0,0 +1,202 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+const delivery = await import("../src/lib/alertDelivery.ts");
+const { DEFAULT_USER_NOTIFICATION_PREFERENCES } = await import("../src/lib/alerts.ts");
+const { buildAlertBundleEmail } = await import("../app/lib/emailTemplates.ts");
+
+const schedule = (overrides = {}) => ({
+  timezone: "Asia/Tokyo",
+  deliveryWindowStartHour: 0,
+  deliveryWindowEndHour: 24,
+  quietHoursStartHour: null,
+  quietHoursEndHour: null,
+  dailyBundleEnabled: false,
+  ...overrides
+});
+
+// 2026-04-02 08:30 JST
+const JST_MORNING = new Date("2026-04-01T23:30:00.000Z");
+// 2026-04-02 23:30 JST
+const JST_NIGHT = new Date("2026-04-02T14:30:00.000Z");
+
+test("isHourInRange handles ranges that wrap midnight", () => {
+  assert.equal(delivery.isHourInRange(8, 7, 22), true);
+  assert.equal(delivery.isHourInRange(22, 7, 22), false);
+  assert.equal(delivery.isHourInRange(23, 22, 7), true);
+  assert.equal(delivery.isHourInRange(3, 22, 7), true);
+  assert.equal(delivery.isHourInRange(7, 22, 7), false);
+  assert.equal(delivery.isHourInRange(5, 5, 5), false);
+});
+
+test("delivery decision uses the user's local hour", () => {
+  const daytime = schedule({ deliveryWindowStartHour: 8, deliveryWindowEndHour: 21 });
+
+  assert.deepEqual(delivery.resolveAlertDeliveryDecision(daytime, JST_MORNING), { send: true });
+  assert.deepEqual(delivery.resolveAlertDeliveryDecision(daytime, JST_NIGHT), {
+    send: false,
+    reason: "outside_delivery_window"
+  });
+  // 14:30 UTC is 10:30 in London (BST).
+  assert.deepEqual(
+    delivery.resolveAlertDeliveryDecision({ ...daytime, timezone: "Europe/London" }, JST_NIGHT),
+    { send: true }
+  );
+  assert.deepEqual(delivery.resolveAlertDeliveryDecision(schedule(), JST_NIGHT), { send: true });
+});
+
+test("quiet hours hold back sends inside an otherwise open window", () => {
+  const quiet = schedule({ quietHoursStartHour: 22, quietHoursEndHour: 7 });
+
+  assert.deepEqual(delivery.resolveAlertDeliveryDecision(quiet, JST_NIGHT), { send: false, reason: "quiet_hours" });
+  assert.deepEqual(delivery.resolveAlertDeliveryDecision(quiet, JST_MORNING), { send: true });
+});
+
+test("daily bundle goes out once per local day", () => {
+  const bundled = schedule({ dailyBundleEnabled: true });
+
+  assert.equal(delivery.isDailyBundleDue({ schedule: bundled, lastBundleSentAt: null, now: JST_MORNING }), true);
+  // Sent at 08:30 JST; 23:30 JST is the same local date.
+  assert.equal(
+    delivery.isDailyBundleDue({ schedule: bundled, lastBundleSentAt: JST_MORNING.toISOString(), now: JST_NIGHT }),
+    false
+  );
+  // Sent at 23:30 JST the day before; UTC still reads 2026-04-01 but JST has moved on.
+  assert.equal(
+    delivery.isDailyBundleDue({
+      schedule: bundled,
+      lastBundleSentAt: "2026-04-01T14:30:00.000Z",
+      now: JST_MORNING
+    }),
+    true
+  );
+  assert.equal(
+    delivery.isDailyBundleDue({
+      schedule: { ...bundled, quietHoursStartHour: 22, quietHoursEndHour: 7 },
+      lastBundleSentAt: null,
+      now: JST_NIGHT
+    }),
+    false
+  );
+});
+
+test("parseNotificationDeliverySchedule validates the settings form", () => {
+  const valid = schedule({ quietHoursStartHour: 22, quietHoursEndHour: 7, dailyBundleEnabled: true });
+
+  assert.deepEqual(delivery.parseNotificationDeliverySchedule(valid), valid);
+  assert.deepEqual(delivery.parseNotificationDeliverySchedule(schedule()), schedule());
+  assert.equal(delivery.parseNotificationDeliverySchedule({ ...valid, timezone: "Mars/Olympus" }), null);
+  assert.equal(
+    delivery.parseNotificationDeliverySchedule({ ...valid, deliveryWindowStartHour: 9, deliveryWindowEndHour: 9 }),
+    null
+  );
+  assert.equal(delivery.parseNotificationDeliverySchedule({ ...valid, deliveryWindowEndHour: 25 }), null);
+  assert.equal(delivery.parseNotificationDeliverySchedule({ ...valid, quietHoursEndHour: null }), null);
+  assert.equal(delivery.parseNotificationDeliverySchedule({ ...valid, quietHoursStartHour: 1.5 }), null);
+  assert.equal(delivery.parseNotificationDeliverySchedule({ ...valid, dailyBundleEnabled: "yes" }), null);
+});
+
+test("default preferences send any alert type at any time", () => {
+  assert.equal(delivery.isAlertTypeEnabled("outcome_reminder", DEFAULT_USER_NOTIFICATION_PREFERENCES), true);
+  assert.equal(delivery.isDailyBundleAlertType("watchlist_due_soon"), true);
+  assert.equal(delivery.isDailyBundleAlertType("weekly_digest_ready"), false);
+  assert.deepEqual(delivery.resolveAlertDeliveryDecision(DEFAULT_USER_NOTIFICATION_PREFERENCES, JST_NIGHT), {
+    send: true
+  });
+});
+
+test("buildAlertBundleEmail lists every alert in one email", () => {
+  const baseAlert = {
+    userId: "user-1",
+    sourceKind: "judgment_card" as const,
+    episodeId: "ep-1",
+    summary: "明日が期限です。",
+    dueAt: null,
+    isRead: false,
+    isSent: false,
+    createdAt: "2026-04-01T00:00:00.000Z",
+    updatedAt: "2026-04-01T00:00:00.000Z",
+    userDecisionId: null,
+    previewLimited: false,
+    links: []
+  };
+  const email = buildAlertBundleEmail(
+    [
+      {
+        ...baseAlert,
+        id: "alert-1",
+        alertType: "deadline_due_soon" as const,
+        alertTypeLabel: "期限アラート",
+        sourceId: "card-1",
+        title: "期限が近いトピック",
+        urgency: "high" as const,
+        judgmentCardId: "card-1"
+      },
+      {
+        ...baseAlert,
+        id: "alert-2",
+        alertType: "outcome_reminder" as const,
+        alertTypeLabel: "結果の記録",
+        sourceId: "decision-1",
+        sourceKind: "user_decision" as const,
+        title: "結果を記録しましょう",
+        urgency: "medium" as const,
+        judgmentCardId: null,
+        userDecisionId: "decision-1"
+      }
+    ],
+    { unsubscribeUrl: "https://signal-move.com/unsubscribe?token=abc" }
+  );
+
+  assert.equal(email.subject, "今日のお知らせ (2件)");
+  assert.match(email.text, /期限が近いトピック/);
+  assert.match(email.text, /結果を記録しましょう/);
+  assert.match(email.html, /期限が近いトピック/);
+  assert.match(email.text, /配信停止: https:\/\/signal-move\.com\/unsubscribe\?token=abc/);
+});
+
+test("held-back alerts get a deliver_after at the next allowed time", () => {
+  const daytime = schedule({ deliveryWindowStartHour: 8, deliveryWindowEndHour: 21 });
+
+  // 23:30 JST → 08:00 JST the next morning.
+  assert.equal(
+    delivery.resolveNextAlertDeliveryAt({ schedule: daytime, now: JST_NIGHT }).toISOString(),
+    "2026-04-02T23:00:00.000Z"
+  );
+  // Today's bundle went out at 08:30 JST, so the rest waits for tomorrow's first allowed time.
+  assert.equal(
+    delivery
+      .resolveNextAlertDeliveryAt({
+        schedule: { ...daytime, dailyBundleEnabled: true },
+        now: JST_MORNING,
+        lastBundleSentAt: JST_MORNING.toISOString()
+      })
+      .toISOString(),
+    "2026-04-02T23:00:00.000Z"
+  );
+});
+
+test("alerts held back until later do not fill the send batch", () => {
+  const batchSize = 50;
+  const daytime = schedule({ deliveryWindowStartHour: 8, deliveryWindowEndHour: 21 });
+  const deliverAfter = delivery.resolveNextAlertDeliveryAt({ schedule: daytime, now: JST_NIGHT }).toISOString();
+  const rows = [
+    ...Array.from({ length: batchSize }, (_, index) => ({
+      id: `night-owl-${index}`,
+      createdAt: `2026-04-01T00:${String(index).padStart(2, "0")}:00.000Z`,
+      deliverAfter
+    })),
+    { id: "open-window", createdAt: "2026-04-02T14:00:00.000Z", deliverAfter: null }
+  ];
+
+  // What the send query does: due rows only, oldest first, limited.
+  const batch = (now: Date) =>
+    rows
+      .filter((row) => delivery.isAlertDeliveryDue(row.deliverAfter, now))
+      .sort((left, right) => left.createdAt.localeCompare(right.createdAt))
+      .slice(0, batchSize)
+      .map((row) => row.id);
+
+  assert.deepEqual(batch(JST_NIGHT), ["open-window"]);
+  assert.equal(batch(new Date("2026-04-02T23:00:00.000Z")).length, batchSize);
+});
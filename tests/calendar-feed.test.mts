@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  buildCalendarEvents,
+  buildJudgmentCardCalendarEvent,
+  escapeCalendarText,
+  foldCalendarLine,
+  isCalendarJudgmentCardId,
+  serializeCalendar
+} from "../src/lib/calendarFeed.ts";
+import { createCalendarFeedToken, verifyCalendarFeedToken } from "../app/lib/calendarFeedToken.ts";
+
+const NOW = new Date("2026-03-13T09:00:00.000Z");
+const BASE_URL = "https://signal-move.com";
+const USER_ID = "11111111-1111-4111-8111-111111111111";
+const SECRET = "test-calendar-secret";
+
+const decision = (id: string, overrides: { outcome?: "success" | null; created_at: string; deadline_at: string | null }) => ({
+  id,
+  judgment_card_id: `card-${id}`,
+  episode_id: `episode-${id}`,
+  topic_title: `topic-${id}`,
+  frame_type: null,
+  genre: null,
+  decision_type: "watch" as const,
+  outcome: overrides.outcome ?? null,
+  created_at: overrides.created_at,
+  deadline_at: overrides.deadline_at
+});
+
+test("buildCalendarEvents lists watchlist deadlines, decision deadlines and outcome reminder days", () => {
+  const events = buildCalendarEvents({
+    watchlistItems: [
+      {
+        judgment_card_id: "card-w1",
+        episode_id: "episode-w1",
+        topic_title: "セールで買うか",
+        deadline_at: "2026-03-15T20:00:00.000Z",
+        status: "watching",
+        history_decision_id: null
+      },
+      {
+        judgment_card_id: "card-d1",
+        episode_id: "episode-d1",
+        topic_title: "採用済み",
+        deadline_at: "2026-03-14T03:00:00.000Z",
+        status: "saved",
+        history_decision_id: "d1"
+      },
+      {
+        judgment_card_id: "card-w3",
+        episode_id: "episode-w3",
+        topic_title: "アーカイブ済み",
+        deadline_at: "2026-03-15T00:00:00.000Z",
+        status: "archived",
+        history_decision_id: null
+      }
+    ],
+    decisions: [
+      // The reminder falls on the deadline day, so only the deadline is listed.
+      decision("d1", { created_at: "2026-03-12T00:00:00.000Z", deadline_at: "2026-03-14T03:00:00.000Z" }),
+      // Already due: shown today until the outcome is recorded.
+      decision("d2", { created_at: "2026-03-09T00:00:00.000Z", deadline_at: null }),
+      decision("d3", { created_at: "2026-03-12T10:00:00.000Z", deadline_at: null }),
+      decision("d4", { outcome: "success", created_at: "2026-03-01T00:00:00.000Z", deadline_at: "2026-03-20T00:00:00.000Z" })
+    ],
+    baseUrl: BASE_URL,
+    now: NOW
+  });
+
+  assert.deepEqual(
+    events.map((event) => [event.date, event.uid]),
+    [
+      ["2026-03-13", "outcome-d2@signal-move.com"],
+      ["2026-03-14", "decision-d1@signal-move.com"],
+      ["2026-03-15", "outcome-d3@signal-move.com"],
+      ["2026-03-16", "watchlist-card-w1@signal-move.com"]
+    ]
+  );
+  assert.equal(events[3]?.url, "https://signal-move.com/decisions/episode-w1");
+});
+
+test("buildJudgmentCardCalendarEvent needs a deadline", () => {
+  const card = {
+    id: "card-1",
+    episode_id: "episode-1",
+    topic_title: "解約するか",
+    action_text: "更新日前に解約する",
+    deadline_at: "2026-03-31T15:00:00.000Z"
+  };
+
+  assert.equal(buildJudgmentCardCalendarEvent(card, BASE_URL)?.date, "2026-04-01");
+  assert.equal(buildJudgmentCardCalendarEvent({ ...card, deadline_at: null }, BASE_URL), null);
+});
+
+test("isCalendarJudgmentCardId accepts only uuids", () => {
+  assert.equal(isCalendarJudgmentCardId("7c9e6679-7425-40de-944b-e07fc1f90ae7"), true);
+  assert.equal(isCalendarJudgmentCardId("not-a-card"), false);
+  assert.equal(isCalendarJudgmentCardId("7c9e6679-7425-40de-944b-e07fc1f90ae7.ics"), false);
+});
+
+test("serializeCalendar writes all-day events with CRLF, escaping and 75-octet folding", () => {
+  const summary = `見直し期限: ${"長いトピック名".repeat(6)}, 比較; 検討`;
+  const calendar = serializeCalendar({
+    name: "判断カレンダー",
+    events: [
+      {
+        uid: "card-1@signal-move.com",
+        kind: "decision_deadline",
+        date: "2026-03-31",
+        summary,
+        description: "1行目\n2行目",
+        url: null
+      }
+    ],
+    now: NOW
+  });
+
+  assert.ok(calendar.endsWith("END:VCALENDAR\r\n"));
+  assert.ok(!/[^\r]\n/.test(calendar));
+  for (const line of calendar.split("\r\n")) {
+    assert.ok(Buffer.byteLength(line) <= 75, line);
+  }
+
+  const unfolded = calendar.replace(/\r\n /g, "");
+  assert.ok(unfolded.includes("DTSTART;VALUE=DATE:20260331\r\nDTEND;VALUE=DATE:20260401\r\n"));
+  assert.ok(unfolded.includes("DTSTAMP:20260313T090000Z\r\n"));
+  assert.ok(unfolded.includes(`SUMMARY:${escapeCalendarText(summary)}\r\n`));
+  assert.ok(unfolded.includes("DESCRIPTION:1行目\\n2行目\r\n"));
+  assert.equal(escapeCalendarText("a,b;c\\d"), "a\\,b\\;c\\\\d");
+  assert.equal(foldCalendarLine("short"), "short");
+});
+
+test("calendar feed token round-trips and rejects tampering or other versions", () => {
+  const token = createCalendarFeedToken({ userId: USER_ID, version: 2 }, SECRET);
+  const invalid = { ok: false, error: "invalid_calendar_token" };
+
+  assert.deepEqual(verifyCalendarFeedToken(token, SECRET), { ok: true, payload: { userId: USER_ID, version: 2 } });
+  assert.deepEqual(verifyCalendarFeedToken(token, "other-secret"), invalid);
+  assert.deepEqual(verifyCalendarFeedToken(token.replace(".2.", ".3."), SECRET), invalid);
+  assert.deepEqual(verifyCalendarFeedToken(`${token}.extra`, SECRET), invalid);
+  assert.deepEqual(verifyCalendarFeedToken(null, SECRET), invalid);
+});
@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  buildConfidenceCalibration,
+  CALIBRATION_PRIOR_WEIGHT,
+  resolveCalibratedConfidence,
+  resolveConfidenceBand,
+  type CalibrationSample
+} from "../src/lib/confidenceCalibration.ts";
+
+const sample = (overrides: Partial<CalibrationSample>): CalibrationSample => ({
+  confidence_score: 0.9,
+  frame_type: "Frame A",
+  genre: "games",
+  judgment_type: "use_now",
+  outcome: "success",
+  ...overrides
+});
+
+const repeat = (count: number, overrides: Partial<CalibrationSample>): CalibrationSample[] => {
+  return Array.from({ length: count }, () => sample(overrides));
+};
+
+test("resolveConfidenceBand buckets scores with an inclusive top band", () => {
+  assert.equal(resolveConfidenceBand(0.4).key, "lt_065");
+  assert.equal(resolveConfidenceBand(0.65).key, "065_075");
+  assert.equal(resolveConfidenceBand(0.849).key, "075_085");
+  assert.equal(resolveConfidenceBand(0.95).key, "gte_095");
+  assert.equal(resolveConfidenceBand(1).key, "gte_095");
+  assert.equal(resolveConfidenceBand(1.4).key, "gte_095");
+});
+
+test("buildConfidenceCalibration counts outcomes per band and excludes neutral from the success rate", () => {
+  const calibration = buildConfidenceCalibration([
+    ...repeat(3, { outcome: "success" }),
+    ...repeat(1, { outcome: "regret" }),
+    ...repeat(2, { outcome: "neutral" }),
+    sample({ confidence_score: null, outcome: "regret" })
+  ]);
+
+  const band = calibration.overall.bands.find((item) => item.band.key === "085_095");
+  assert.equal(calibration.overall.sampleCount, 6);
+  assert.equal(band?.sampleCount, 6);
+  assert.equal(band?.resolvedCount, 4);
+  assert.equal(band?.neutralCount, 2);
+  assert.equal(band?.observedSuccessRate, 0.75);
+  assert.equal(band?.meanConfidence, 0.9);
+  assert.equal(calibration.overall.bands.find((item) => item.band.key === "lt_065")?.sampleCount, 0);
+});
+
+test("buildConfidenceCalibration groups segments per frame_type, genre, and judgment_type", () => {
+  const calibration = buildConfidenceCalibration([
+    ...repeat(2, { frame_type: "Frame B", genre: null, judgment_type: "watch" }),
+    sample({ frame_type: "Frame A" })
+  ]);
+
+  assert.deepEqual(
+    calibration.segments.frame_type.map((table) => [table.key, table.sampleCount]),
+    [
+      ["Frame B", 2],
+      ["Frame A", 1]
+    ]
+  );
+  assert.deepEqual(
+    calibration.segments.genre.map((table) => table.key),
+    ["unknown", "games"]
+  );
+  assert.deepEqual(
+    calibration.segments.judgment_type.map((table) => table.key),
+    ["watch", "use_now"]
+  );
+});
+
+test("resolveCalibratedConfidence falls back to the raw score without data", () => {
+  const card = { confidence_score: 0.9, frame_type: "Frame A", genre: "games", judgment_type: "use_now" as const };
+
+  assert.equal(resolveCalibratedConfidence(card, null), 0.9);
+  assert.equal(resolveCalibratedConfidence(card, buildConfidenceCalibration([])), 0.9);
+  assert.equal(resolveCalibratedConfidence({ ...card, confidence_score: null }, null), null);
+});
+
+test("resolveCalibratedConfidence pulls overconfident bands toward observed outcomes", () => {
+  const calibration = buildConfidenceCalibration(repeat(10, { outcome: "regret" }));
+  const card = { confidence_score: 0.9, frame_type: "Frame A", genre: "games", judgment_type: "use_now" as const };
+
+  const overall = (0 + CALIBRATION_PRIOR_WEIGHT * 0.9) / (10 + CALIBRATION_PRIOR_WEIGHT);
+  const segment = (0 + CALIBRATION_PRIOR_WEIGHT * overall) / (10 + CALIBRATION_PRIOR_WEIGHT);
+  assert.equal(resolveCalibratedConfidence(card, calibration), Math.round(segment * 1000) / 1000);
+
+  // A card from an unseen segment only gets the overall band adjustment.
+  const unseen = { ...card, frame_type: "Frame D", genre: "anime", judgment_type: "skip" as const };
+  assert.equal(resolveCalibratedConfidence(unseen, calibration), Math.round(overall * 1000) / 1000);
+});
+
+test("resolveCalibratedConfidence averages the segments that have data", () => {
+  const calibration = buildConfidenceCalibration([
+    ...repeat(5, { frame_type: "Frame A", genre: "games", outcome: "success" }),
+    ...repeat(5, { frame_type: "Frame B", genre: "games", outcome: "regret" })
+  ]);
+
+  const frameA = resolveCalibratedConfidence(
+    { confidence_score: 0.9, frame_type: "Frame A", genre: "games", judgment_type: "use_now" },
+    calibration
+  );
+  const frameB = resolveCalibratedConfidence(
+    { confidence_score: 0.9, frame_type: "Frame B", genre: "games", judgment_type: "use_now" },
+    calibration
+  );
+
+  assert.ok(frameA !== null && frameB !== null);
+  assert.ok(frameA > frameB);
+});
@@ -43,3 +43,26 @@ test("formatThresholdHighlights summarizes threshold entries for paid UI", () =>
     ["価格基準: 月額980円以下", "比率基準: 広告比率15%未満", "週2回以上使うなら継続"]
   );
 });
+
+test("formatThresholdHighlights adds converted amounts for entries in another currency", () => {
+  assert.deepEqual(
+    formatThresholdHighlights(
+      {
+        price: [
+          { raw: "月額1,500円", value: 1500, unit: "JPY", currency: "JPY" },
+          { raw: "$9.99", value: 9.99, unit: "USD", currency: "USD" }
+        ]
+      },
+      { fxRates: { JPY: 1, USD: 150 } }
+    ),
+    ["価格基準: 月額1,500円", "価格基準: $9.99（約￥1,499）"]
+  );
+
+  assert.deepEqual(
+    formatThresholdHighlights(
+      { price: [{ raw: "$9.99", value: 9.99, unit: "USD", currency: "USD" }] },
+      { currency: "JPY", fxRates: { JPY: 1, USD: 150 }, locale: "en" }
+    ),
+    ["価格基準: $9.99（約¥1,499）"]
+  );
+});
@@ -0,0 +1,45 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_FX_RATES_TO_JPY,
+  convertCurrency,
+  normalizeCurrencyCode,
+  parseFxRateTable,
+  resolveThresholdCurrency
+} from "../src/lib/currency.ts";
+
+test("parseFxRateTable overrides defaults and ignores invalid pairs", () => {
+  const table = parseFxRateTable("usd=140, EUR=abc, JPY=2, ¥=3, GBP=0");
+
+  assert.equal(table.USD, 140);
+  assert.equal(table.EUR, DEFAULT_FX_RATES_TO_JPY.EUR);
+  assert.equal(table.GBP, DEFAULT_FX_RATES_TO_JPY.GBP);
+  assert.equal(table.JPY, 1);
+});
+
+test("convertCurrency converts through the yen base rate", () => {
+  const rates = { JPY: 1, USD: 150, EUR: 160 };
+
+  assert.equal(convertCurrency(600, "JPY", "USD", rates), 4);
+  assert.equal(convertCurrency(3, "USD", "JPY", rates), 450);
+  assert.equal(convertCurrency(16, "EUR", "USD", rates)?.toFixed(4), "17.0667");
+  assert.equal(convertCurrency(10, "KRW", "JPY", rates), null);
+});
+
+test("normalizeCurrencyCode accepts symbols and ISO codes", () => {
+  assert.equal(normalizeCurrencyCode("円"), "JPY");
+  assert.equal(normalizeCurrencyCode("$"), "USD");
+  assert.equal(normalizeCurrencyCode("eur"), "EUR");
+  assert.equal(normalizeCurrencyCode("dollars"), null);
+});
+
+test("resolveThresholdCurrency reads monetary entries and defaults to yen", () => {
+  assert.equal(
+    resolveThresholdCurrency({
+      ratio: [{ raw: "15%", value: 15, unit: "PERCENT" }],
+      unit_cost: [{ raw: "$3/hour", value: 3, unit: "USD_PER_HOUR", currency: "USD" }]
+    }),
+    "USD"
+  );
+  assert.equal(resolveThresholdCurrency({ ratio: [{ raw: "15%", value: 15, unit: "PERCENT" }] }), "JPY");
+});
@@ -0,0 +1,94 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  checkpointStepsReplacedBy,
+  planDailyGenerateSteps,
+  resolveDailyGenerateIdempotencyKey,
+  type DailyGenerateStep
+} from "../src/lib/dailyGenerateCheckpoints.ts";
+
+const ORDERED: DailyGenerateStep[] = ["ingest_trends_rss", "plan-topics", "write-script-ja", "tts-ja", "publish"];
+
+const pick = (actions: Record<DailyGenerateStep, string>) => ORDERED.map((step) => actions[step]);
+
+test("runs every step without resume and skips steps outside the pipeline", () => {
+  const result = planDailyGenerateSteps({ orderedSteps: ORDERED, checkpointSteps: new Set(), resume: null });
+  assert.equal(result.ok, true);
+  if (!result.ok) return;
+
+  assert.deepEqual(pick(result.actions), ["run", "run", "run", "run", "run"]);
+  assert.equal(result.actions["polish-script-ja"], "skip");
+});
+
+test("failed mode reuses leading checkpoints and resumes at the first step without one", () => {
+  const result = planDailyGenerateSteps({
+    orderedSteps: ORDERED,
+    checkpointSteps: new Set(["ingest_trends_rss", "plan-topics", "tts-ja"]),
+    resume: { mode: "failed" }
+  });
+  assert.equal(result.ok, true);
+  if (!result.ok) return;
+
+  assert.deepEqual(pick(result.actions), ["reuse", "reuse", "run", "run", "run"]);
+});
+
+test("from and only modes rerun the target step", () => {
+  const checkpointSteps = new Set(["ingest_trends_rss", "plan-topics", "write-script-ja", "tts-ja"]);
+
+  const from = planDailyGenerateSteps({ orderedSteps: ORDERED, checkpointSteps, resume: { mode: "from", step: "write-script-ja" } });
+  assert.equal(from.ok, true);
+  if (!from.ok) return;
+  assert.deepEqual(pick(from.actions), ["reuse", "reuse", "run", "run", "run"]);
+
+  const only = planDailyGenerateSteps({ orderedSteps: ORDERED, checkpointSteps, resume: { mode: "only", step: "write-script-ja" } });
+  assert.equal(only.ok, true);
+  if (!only.ok) return;
+  assert.deepEqual(pick(only.actions), ["reuse", "reuse", "run", "skip", "skip"]);
+});
+
+test("from and only modes need earlier checkpoints and a step in the pipeline", () => {
+  assert.deepEqual(
+    planDailyGenerateSteps({
+      orderedSteps: ORDERED,
+      checkpointSteps: new Set(["ingest_trends_rss"]),
+      resume: { mode: "from", step: "tts-ja" }
+    }),
+    { ok: false, error: "missing_checkpoint:plan-topics" }
+  );
+  assert.deepEqual(
+    planDailyGenerateSteps({
+      orderedSteps: ORDERED,
+      checkpointSteps: new Set(ORDERED),
+      resume: { mode: "only", step: "polish-script-ja" }
+    }),
+    { ok: false, error: "step_not_in_pipeline:polish-script-ja" }
+  );
+});
+
+test("two genres on the same date get separate default idempotency keys", () => {
+  const episodeDate = "2026-03-14";
+  const general = resolveDailyGenerateIdempotencyKey({ episodeDate, genre: "general" });
+  const entertainment = resolveDailyGenerateIdempotencyKey({ episodeDate, genre: "entertainment" });
+
+  assert.equal(general, "daily-2026-03-14-general");
+  assert.equal(entertainment, "daily-2026-03-14-entertainment");
+  assert.equal(
+    resolveDailyGenerateIdempotencyKey({ idempotencyKey: "manual-retry", episodeDate, genre: "general" }),
+    "manual-retry"
+  );
+});
+
+test("rerunning a step drops later checkpoints, so a failed-mode resume reruns them", () => {
+  const checkpointSteps = new Set<string>(ORDERED);
+  const only = planDailyGenerateSteps({ orderedSteps: ORDERED, checkpointSteps, resume: { mode: "only", step: "write-script-ja" } });
+  assert.equal(only.ok, true);
+
+  // What saveDailyGenerateCheckpoint does when write-script-ja stores its new output.
+  for (const step of checkpointStepsReplacedBy("write-script-ja")) checkpointSteps.delete(step);
+  checkpointSteps.add("write-script-ja");
+
+  const resumed = planDailyGenerateSteps({ orderedSteps: ORDERED, checkpointSteps, resume: { mode: "failed" } });
+  assert.equal(resumed.ok, true);
+  if (!resumed.ok) return;
+  assert.deepEqual(pick(resumed.actions), ["reuse", "reuse", "reuse", "run", "run"]);
+});
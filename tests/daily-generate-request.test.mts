@@ -39,3 +39,28 @@ test("returns validation_error for invalid episodeDate format", () => {
   assert.equal(result.status, 400);
 });
 
+
+test("parses resumeMode and resumeStep", () => {
+  const failed = parseDailyGenerateRequest({ episodeDate: "2026-03-01", resumeMode: "failed" });
+  assert.equal(failed.ok, true);
+  if (!failed.ok) return;
+  assert.deepEqual(failed.resume, { mode: "failed" });
+
+  const only = parseDailyGenerateRequest({ episodeDate: "2026-03-01", resumeMode: "only", resumeStep: "tts-ja" });
+  assert.equal(only.ok, true);
+  if (!only.ok) return;
+  assert.deepEqual(only.resume, { mode: "only", step: "tts-ja" });
+
+  const none = parseDailyGenerateRequest({ episodeDate: "2026-03-01" });
+  assert.equal(none.ok && none.resume, null);
+});
+
+test("returns validation_error for an unknown resumeMode or a missing resumeStep", () => {
+  for (const body of [{ resumeMode: "later" }, { resumeMode: "from" }, { resumeMode: "only", resumeStep: "upload" }]) {
+    const result = parseDailyGenerateRequest(body);
+    assert.equal(result.ok, false);
+    if (result.ok) return;
+    assert.equal(result.error, "validation_error");
+    assert.equal(result.status, 400);
+  }
+});
@@ -94,3 +94,222 @@ test("threshold summaries reflect default frame rules", () => {
   assert.equal(summary?.frame, "Frame B");
   assert.match(summary?.summary ?? "", /600\/時間以下なら採用/);
 });
+
+test("Frame C returns use_now when the planned use date fits around the sale end", () => {
+  const result = evaluateDecisionCalculator({
+    card: {
+      frame_type: "Frame C",
+      threshold_json: {},
+      deadline_at: "2026-03-20T14:59:59.000Z"
+    },
+    inputs: {
+      sale_price: 2990,
+      regular_price: 5980,
+      planned_use_date: "2026-03-28"
+    },
+    now: new Date("2026-03-15T00:00:00.000Z")
+  });
+
+  assert.equal(result?.frame, "Frame C");
+  assert.equal(result?.judgmentType, "use_now");
+  assert.equal(result?.metricValue, 50);
+  assert.equal(result?.metricDisplay, "50%オフ");
+});
+
+test("Frame C watches far-off plans and skips when nothing is on the calendar", () => {
+  const card = {
+    frame_type: "Frame C",
+    threshold_json: {
+      time_limit: [{ raw: "7日", value: 7, unit: "day" }]
+    }
+  };
+  const now = new Date("2026-03-15T00:00:00.000Z");
+
+  const farOff = evaluateDecisionCalculator({
+    card,
+    inputs: {
+      sale_price: 1500,
+      regular_price: 3000,
+      sale_end: "2026-03-20",
+      planned_use_date: "2026-04-10"
+    },
+    now
+  });
+  assert.equal(farOff?.judgmentType, "watch");
+
+  const unscheduled = evaluateDecisionCalculator({
+    card,
+    inputs: {
+      sale_price: 1500,
+      regular_price: 3000,
+      sale_end: "2026-03-20"
+    },
+    now
+  });
+  assert.equal(unscheduled?.judgmentType, "skip");
+  assert.match(unscheduled?.reason ?? "", /カレンダーに入らない/);
+});
+
+test("Frame C skips ended sales and prices without a discount", () => {
+  const now = new Date("2026-03-25T00:00:00.000Z");
+
+  const ended = evaluateDecisionCalculator({
+    card: {
+      frame_type: "Frame C",
+      threshold_json: {}
+    },
+    inputs: {
+      sale_price: 1500,
+      regular_price: 3000,
+      sale_end: "2026-03-20",
+      planned_use_date: "2026-03-30"
+    },
+    now
+  });
+  assert.equal(ended?.judgmentType, "skip");
+
+  const noDiscount = evaluateDecisionCalculator({
+    card: {
+      frame_type: "Frame C",
+      threshold_json: {}
+    },
+    inputs: {
+      sale_price: 3000,
+      regular_price: 3000,
+      planned_use_date: "2026-03-30"
+    },
+    now
+  });
+  assert.equal(noDiscount?.judgmentType, "skip");
+  assert.equal(noDiscount?.metricValue, 0);
+});
+
+test("Frame C threshold summary uses the day window from the card", () => {
+  const summary = describeDecisionCalculatorThresholds({
+    card: {
+      frame_type: "Frame C",
+      threshold_json: {
+        time_limit: [{ raw: "7日", value: 7, unit: "day" }]
+      }
+    }
+  });
+
+  assert.equal(summary?.frame, "Frame C");
+  assert.match(summary?.summary ?? "", /セール終了から7日以内なら採用/);
+});
+
+test("USD cards convert the yen defaults with the FX table", () => {
+  const card = {
+    frame_type: "Frame B",
+    threshold_json: {
+      price: [{ raw: "$9.99", value: 9.99, unit: "USD", currency: "USD" }]
+    }
+  };
+  const fxRates = { JPY: 1, USD: 150 };
+
+  const result = evaluateDecisionCalculator({
+    card,
+    inputs: {
+      monthly_cost: 9.99,
+      watch_time: 5
+    },
+    locale: "en",
+    fxRates
+  });
+
+  assert.equal(result?.currency, "USD");
+  assert.equal(result?.judgmentType, "use_now");
+  assert.equal(result?.metricDisplay, "$2.00/hour");
+
+  const summary = describeDecisionCalculatorThresholds({ card, locale: "en", fxRates });
+  assert.equal(summary?.summary, "Use now at or below $4.00/hour, skip above $6.67/hour");
+});
+
+test("card thresholds in another currency are converted to the card currency", () => {
+  const result = evaluateDecisionCalculator({
+    card: {
+      frame_type: "Frame A",
+      threshold_json: {
+        unit_cost: [
+          { raw: "$2/hour", value: 2, unit: "USD_PER_HOUR", currency: "USD" },
+          { raw: "600円/時間", value: 600, unit: "JPY_PER_HOUR", currency: "JPY" }
+        ]
+      }
+    },
+    inputs: {
+      price: 30,
+      play_time: 10
+    },
+    locale: "en",
+    fxRates: { JPY: 1, USD: 150 }
+  });
+
+  assert.equal(result?.currency, "USD");
+  assert.equal(result?.judgmentType, "watch");
+  assert.match(result?.thresholdSummary ?? "", /\$2.00\/hour.*\$4.00\/hour/);
+});
+
+test("a custom frame is evaluated with its own fields, formula and boundaries", () => {
+  const customFrame = {
+    name: "1時間あたりの費用",
+    fields: [
+      { key: "cost", label: "費用", unit: "円" },
+      { key: "hours", label: "使う時間", unit: "時間" }
+    ],
+    formula: "cost ÷ hours",
+    metricLabel: "1時間あたりの費用",
+    metricUnit: "円/時間",
+    better: "lower" as const,
+    useNowAt: 300,
+    skipAt: 800
+  };
+  // AI-generated cards have no frame_type; the custom frame still applies.
+  const card = { frame_type: null, threshold_json: {} };
+
+  const result = evaluateDecisionCalculator({ card, customFrame, inputs: { cost: 6000, hours: 12 } });
+  assert.equal(result?.frame, "Custom");
+  assert.equal(result?.judgmentType, "watch");
+  assert.equal(result?.metricDisplay, "500円/時間");
+
+  assert.equal(evaluateDecisionCalculator({ card, customFrame, inputs: { cost: 3000, hours: 12 } })?.judgmentType, "use_now");
+  assert.equal(evaluateDecisionCalculator({ card, customFrame, inputs: { cost: 12000, hours: 12 } })?.judgmentType, "skip");
+  assert.equal(evaluateDecisionCalculator({ card, customFrame, inputs: { cost: 3000 } }), null);
+  assert.equal(evaluateDecisionCalculator({ card, customFrame, inputs: { cost: 3000, hours: 0 } }), null);
+
+  assert.equal(
+    describeDecisionCalculatorThresholds({ card, customFrame })?.summary,
+    "300円/時間以下で採用、800円/時間超で見送る"
+  );
+});
+
+test("a custom frame where higher is better explains a skip as falling below the line", () => {
+  const customFrame = {
+    name: "1000円あたりの時間",
+    fields: [
+      { key: "hours", label: "使う時間", unit: "時間" },
+      { key: "cost", label: "費用", unit: "円" }
+    ],
+    formula: "hours ÷ cost × 1000",
+    metricLabel: "1000円あたりの時間",
+    metricUnit: "時間",
+    better: "higher" as const,
+    useNowAt: 3,
+    skipAt: 1
+  };
+  const card = { frame_type: null, threshold_json: {} };
+
+  const ja = evaluateDecisionCalculator({ card, customFrame, inputs: { hours: 2, cost: 4000 } });
+  assert.equal(ja?.judgmentType, "skip");
+  assert.match(ja?.reason ?? "", /見送るラインの .+ を下回っています。$/);
+
+  const en = evaluateDecisionCalculator({ card, customFrame, inputs: { hours: 2, cost: 4000 }, locale: "en" });
+  assert.match(en?.reason ?? "", /below the skip line/);
+
+  const lower = evaluateDecisionCalculator({
+    card,
+    customFrame: { ...customFrame, better: "lower" as const, useNowAt: 0.1, skipAt: 0.4 },
+    inputs: { hours: 2, cost: 4000 }
+  });
+  assert.equal(lower?.judgmentType, "skip");
+  assert.match(lower?.reason ?? "", /を越えています。$/);
+});
@@ -0,0 +1,155 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  buildDecisionExportDocument,
+  buildDecisionHistoryCsv,
+  buildWatchlistCsv,
+  MAX_IMPORT_ROWS,
+  parseDecisionImportPayload,
+  planDecisionImport,
+  type DecisionExportRow,
+  type WatchlistExportRow
+} from "../src/lib/decisionExport.ts";
+
+const CARD_A = "11111111-1111-4111-8111-111111111111";
+const CARD_B = "22222222-2222-4222-8222-222222222222";
+const CARD_C = "33333333-3333-4333-8333-333333333333";
+const EPISODE = "44444444-4444-4444-8444-444444444444";
+
+const decision = (overrides: Partial<DecisionExportRow> = {}): DecisionExportRow => ({
+  judgment_card_id: CARD_A,
+  source: "episode",
+  episode_id: EPISODE,
+  episode_title: "今週のゲーム",
+  topic_title: "Game Pass",
+  frame_type: "Frame A",
+  genre: "games",
+  decision_type: "use_now",
+  outcome: "success",
+  threshold_json: { price: { value: 1200, currency: "JPY" } } as DecisionExportRow["threshold_json"],
+  deadline_at: null,
+  created_at: "2026-03-01T00:00:00.000Z",
+  updated_at: "2026-03-05T00:00:00.000Z",
+  ...overrides
+});
+
+const watchlistItem = (overrides: Partial<WatchlistExportRow> = {}): WatchlistExportRow => ({
+  judgment_card_id: CARD_A,
+  episode_id: EPISODE,
+  episode_title: null,
+  topic_title: "Game Pass",
+  frame_type: null,
+  genre: null,
+  judgment_type: "watch",
+  status: "saved",
+  outcome: null,
+  threshold_json: {},
+  deadline_at: null,
+  created_at: "2026-03-01T00:00:00.000Z",
+  updated_at: "2026-03-01T00:00:00.000Z",
+  ...overrides
+});
+
+test("buildDecisionHistoryCsv writes a BOM header row and quotes JSON and commas", () => {
+  const csv = buildDecisionHistoryCsv([decision({ topic_title: "Pass, annual" })]);
+  const [header, row] = csv.replace(/^\uFEFF/, "").trim().split("\r\n");
+
+  assert.ok(csv.startsWith("\uFEFF"));
+  assert.equal(
+    header,
+    "judgment_card_id,source,episode_id,episode_title,topic_title,frame_type,genre,decision_type,outcome,threshold_json,deadline_at,created_at,updated_at"
+  );
+  assert.ok(row.includes('"Pass, annual"'));
+  assert.ok(row.includes('"{""price"":{""value"":1200,""currency"":""JPY""}}"'));
+  assert.ok(row.endsWith(",2026-03-01T00:00:00.000Z,2026-03-05T00:00:00.000Z"));
+});
+
+test("buildWatchlistCsv neutralises cells that spreadsheets would run as formulas", () => {
+  const csv = buildWatchlistCsv([watchlistItem({ topic_title: "=HYPERLINK(\"x\")" })]);
+
+  assert.ok(csv.includes(`"'=HYPERLINK(""x"")"`));
+});
+
+test("parseDecisionImportPayload round-trips an export document", () => {
+  const document = buildDecisionExportDocument({
+    decisions: [decision()],
+    watchlist: [watchlistItem()],
+    generatedCards: [],
+    now: new Date("2026-03-10T00:00:00.000Z")
+  });
+
+  const parsed = parseDecisionImportPayload(JSON.parse(JSON.stringify(document)));
+
+  assert.equal(parsed.ok, true);
+  if (!parsed.ok) return;
+  assert.equal(parsed.invalidCount, 0);
+  assert.deepEqual(parsed.payload.decisions, [decision()]);
+  assert.deepEqual(parsed.payload.watchlist, [watchlistItem()]);
+});
+
+test("parseDecisionImportPayload rejects foreign documents and drops invalid rows", () => {
+  assert.deepEqual(parseDecisionImportPayload({ decisions: [] }), { ok: false, error: "invalid_export_document" });
+  assert.deepEqual(parseDecisionImportPayload({ kind: "decision_export", version: 2 }), {
+    ok: false,
+    error: "unsupported_export_version"
+  });
+  assert.deepEqual(
+    parseDecisionImportPayload({
+      kind: "decision_export",
+      version: 1,
+      decisions: Array.from({ length: MAX_IMPORT_ROWS + 1 }, () => decision())
+    }),
+    { ok: false, error: "import_too_large" }
+  );
+
+  const parsed = parseDecisionImportPayload({
+    kind: "decision_export",
+    version: 1,
+    decisions: [decision(), { ...decision(), judgment_card_id: "not-a-uuid" }, { ...decision(), episode_id: null }],
+    watchlist: [{ ...watchlistItem(), status: "deleted" }]
+  });
+
+  assert.equal(parsed.ok, true);
+  if (!parsed.ok) return;
+  assert.equal(parsed.payload.decisions.length, 1);
+  assert.equal(parsed.payload.watchlist.length, 0);
+  assert.equal(parsed.invalidCount, 3);
+});
+
+test("planDecisionImport deduplicates by judgment_card_id against the file and the account", () => {
+  const plan = planDecisionImport({
+    rows: [decision(), decision({ outcome: "regret" }), decision({ judgment_card_id: CARD_B }), decision({ judgment_card_id: CARD_C })],
+    existingCardIds: [CARD_B],
+    knownCardIds: [CARD_A, CARD_B]
+  });
+
+  assert.deepEqual(
+    plan.rows.map((row) => [row.judgment_card_id, row.outcome]),
+    [[CARD_A, "success"]]
+  );
+  assert.deepEqual(plan.skipped, {
+    duplicate_in_file: 1,
+    already_exists: 1,
+    card_not_found: 1,
+    limit_reached: 0
+  });
+});
+
+test("planDecisionImport keeps free plan limits and lets archived watchlist items through", () => {
+  const plan = planDecisionImport({
+    rows: [
+      watchlistItem({ judgment_card_id: CARD_A }),
+      watchlistItem({ judgment_card_id: CARD_B }),
+      watchlistItem({ judgment_card_id: CARD_C, status: "archived" })
+    ],
+    existingCardIds: [],
+    remainingSlots: 1,
+    countsTowardLimit: (row) => row.status !== "archived"
+  });
+
+  assert.deepEqual(
+    plan.rows.map((row) => row.judgment_card_id),
+    [CARD_A, CARD_C]
+  );
+  assert.equal(plan.skipped.limit_reached, 1);
+});
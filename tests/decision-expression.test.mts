@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { evaluateDecisionExpression, parseDecisionExpression } from "../src/lib/decisionExpression.ts";
+import { parseCustomDecisionFrameDefinition, resolveCustomFrameJudgment } from "../src/lib/customDecisionFrames.ts";
+
+const evaluate = (source: string, values: Record<string, number>) => {
+  const parsed = parseDecisionExpression(source, Object.keys(values));
+  assert.ok(parsed.ok, source);
+  return evaluateDecisionExpression(parsed.expression, values);
+};
+
+test("parseDecisionExpression follows precedence, parentheses, unary minus and functions", () => {
+  assert.equal(evaluate("cost / hours", { cost: 3600, hours: 12 }), 300);
+  assert.equal(evaluate("a + b * c", { a: 1, b: 2, c: 3 }), 7);
+  assert.equal(evaluate("(a + b) * c", { a: 1, b: 2, c: 3 }), 9);
+  assert.equal(evaluate("a - b - c", { a: 10, b: 3, c: 2 }), 5);
+  assert.equal(evaluate("-a + 2", { a: 5 }), -3);
+  assert.equal(evaluate("max(a, b, 4) - min(a, b)", { a: 1, b: 2 }), 3);
+  assert.equal(evaluate("round(abs(a) / 3)", { a: -10 }), 3);
+  // Full-width input and Japanese operators are accepted.
+  assert.equal(evaluate("（ｃｏｓｔ − 600）× 2 ÷ hours", { cost: 3600, hours: 12 }), 500);
+});
+
+test("parseDecisionExpression rejects unknown names, bad syntax and oversized input", () => {
+  assert.deepEqual(parseDecisionExpression("", ["a"]), { ok: false, error: "formula_empty" });
+  assert.deepEqual(parseDecisionExpression("a / b", ["a"]), { ok: false, error: "formula_unknown_variable" });
+  assert.deepEqual(parseDecisionExpression("constructor(a)", ["a"]), { ok: false, error: "formula_unknown_function" });
+  assert.deepEqual(parseDecisionExpression("process.exit(1)", ["a"]), { ok: false, error: "formula_syntax_error" });
+  assert.deepEqual(parseDecisionExpression("a +", ["a"]), { ok: false, error: "formula_syntax_error" });
+  assert.deepEqual(parseDecisionExpression("abs(a, a)", ["a"]), { ok: false, error: "formula_syntax_error" });
+  assert.deepEqual(parseDecisionExpression(`${"(".repeat(20)}a${")".repeat(20)}`, ["a"]), {
+    ok: false,
+    error: "formula_too_deep"
+  });
+  assert.deepEqual(parseDecisionExpression("a+".repeat(120) + "a", ["a"]), { ok: false, error: "formula_too_long" });
+});
+
+test("evaluateDecisionExpression returns null for missing values and division by zero", () => {
+  const parsed = parseDecisionExpression("cost / hours", ["cost", "hours"]);
+  assert.ok(parsed.ok);
+  assert.equal(evaluateDecisionExpression(parsed.expression, { cost: 100, hours: 0 }), null);
+  assert.equal(evaluateDecisionExpression(parsed.expression, { cost: 100 }), null);
+});
+
+test("parseCustomDecisionFrameDefinition validates fields, formula and boundary order", () => {
+  const input = {
+    name: " 1時間あたりの費用 ",
+    fields: [
+      { key: "cost", label: "費用", unit: "円" },
+      { key: "hours", label: "使う時間" }
+    ],
+    formula: "cost / hours",
+    metricLabel: "1時間あたりの費用",
+    metricUnit: "円/時間",
+    better: "lower",
+    useNowAt: "300",
+    skipAt: 800
+  };
+
+  const parsed = parseCustomDecisionFrameDefinition(input);
+  assert.ok(parsed.ok);
+  assert.equal(parsed.definition.name, "1時間あたりの費用");
+  assert.deepEqual(parsed.definition.fields[1], { key: "hours", label: "使う時間", unit: "" });
+  assert.equal(parsed.definition.useNowAt, 300);
+
+  const invalid = (patch: Record<string, unknown>) => {
+    const result = parseCustomDecisionFrameDefinition({ ...input, ...patch });
+    return result.ok ? null : result.error;
+  };
+  assert.equal(invalid({ name: "" }), "invalid_frame_name");
+  assert.equal(invalid({ fields: [] }), "invalid_frame_fields");
+  assert.equal(invalid({ fields: [{ key: "1cost", label: "費用" }] }), "invalid_frame_field_key");
+  for (const key of ["__proto__", "constructor", "prototype"]) {
+    assert.equal(invalid({ fields: [{ key, label: "費用" }] }), "invalid_frame_field_key");
+  }
+  assert.equal(
+    invalid({ fields: [{ key: "cost", label: "a" }, { key: "cost", label: "b" }] }),
+    "duplicate_frame_field_key"
+  );
+  assert.equal(invalid({ formula: "cost / days" }), "formula_unknown_variable");
+  assert.equal(invalid({ useNowAt: 900 }), "invalid_frame_thresholds");
+  assert.equal(invalid({ better: "higher" }), "invalid_frame_thresholds");
+  assert.equal(invalid({ better: "higher", useNowAt: 800, skipAt: 300 }), null);
+});
+
+test("resolveCustomFrameJudgment treats the use_now line as inclusive in both directions", () => {
+  const lower = { better: "lower" as const, useNowAt: 300, skipAt: 800 };
+  assert.equal(resolveCustomFrameJudgment(lower, 300), "use_now");
+  assert.equal(resolveCustomFrameJudgment(lower, 800), "watch");
+  assert.equal(resolveCustomFrameJudgment(lower, 801), "skip");
+
+  const higher = { better: "higher" as const, useNowAt: 10, skipAt: 2 };
+  assert.equal(resolveCustomFrameJudgment(higher, 10), "use_now");
+  assert.equal(resolveCustomFrameJudgment(higher, 2), "watch");
+  assert.equal(resolveCustomFrameJudgment(higher, 1), "skip");
+});
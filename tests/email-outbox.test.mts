@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { createFileEmailTransport, resolveEmailTransport } from "../app/lib/emailTransport.ts";
+import {
+  EMAIL_OUTBOX_FORGOTTEN_RECIPIENT,
+  EMAIL_OUTBOX_MAX_RETRY_DELAY_MINUTES,
+  resolveEmailRetryDelayMinutes,
+  resolveOutboxAttemptUpdate
+} from "../src/lib/emailOutbox.ts";
+
+const NOW = new Date("2026-03-30T00:00:00.000Z");
+
+test("resolveEmailRetryDelayMinutes doubles per attempt up to the cap", () => {
+  assert.equal(resolveEmailRetryDelayMinutes(1), 5);
+  assert.equal(resolveEmailRetryDelayMinutes(2), 10);
+  assert.equal(resolveEmailRetryDelayMinutes(4), 40);
+  assert.equal(resolveEmailRetryDelayMinutes(20), EMAIL_OUTBOX_MAX_RETRY_DELAY_MINUTES);
+});
+
+test("resolveOutboxAttemptUpdate records a successful send", () => {
+  assert.deepEqual(
+    resolveOutboxAttemptUpdate({
+      previousAttemptCount: 0,
+      maxAttempts: 5,
+      transport: "resend",
+      result: { ok: true, providerMessageId: "msg_1" },
+      now: NOW
+    }),
+    {
+      status: "sent",
+      attempt_count: 1,
+      last_attempt_at: NOW.toISOString(),
+      next_attempt_at: null,
+      last_error: null,
+      provider_message_id: "msg_1",
+      sent_at: NOW.toISOString(),
+      transport: "resend"
+    }
+  );
+});
+
+test("resolveOutboxAttemptUpdate schedules retries and gives up on permanent or exhausted failures", () => {
+  const retry = resolveOutboxAttemptUpdate({
+    previousAttemptCount: 1,
+    maxAttempts: 5,
+    transport: "smtp",
+    result: { ok: false, error: "connection refused", retryable: true },
+    now: NOW
+  });
+  assert.equal(retry.status, "failed");
+  assert.equal(retry.attempt_count, 2);
+  assert.equal(retry.next_attempt_at, "2026-03-30T00:10:00.000Z");
+  assert.equal(retry.last_error, "connection refused");
+
+  const permanent = resolveOutboxAttemptUpdate({
+    previousAttemptCount: 0,
+    maxAttempts: 5,
+    transport: "resend",
+    result: { ok: false, error: "invalid to", retryable: false },
+    now: NOW
+  });
+  assert.equal(permanent.status, "dead");
+  assert.equal(permanent.next_attempt_at, null);
+
+  const exhausted = resolveOutboxAttemptUpdate({
+    previousAttemptCount: 4,
+    maxAttempts: 5,
+    transport: "resend",
+    result: { ok: false, error: "rate limited", retryable: true },
+    now: NOW
+  });
+  assert.equal(exhausted.status, "dead");
+});
+
+test("resolveOutboxAttemptUpdate clears a forgotten recipient and never schedules a retry", () => {
+  const attempt = (result: Parameters<typeof resolveOutboxAttemptUpdate>[0]["result"]) =>
+    resolveOutboxAttemptUpdate({
+      previousAttemptCount: 0,
+      maxAttempts: 5,
+      transport: "resend",
+      result,
+      forgetRecipient: true,
+      now: NOW
+    });
+
+  const sent = attempt({ ok: true, providerMessageId: "msg_1" });
+  assert.equal(sent.status, "sent");
+  assert.equal(sent.to_email, EMAIL_OUTBOX_FORGOTTEN_RECIPIENT);
+
+  const failed = attempt({ ok: false, error: "timeout", retryable: true });
+  assert.equal(failed.status, "dead");
+  assert.equal(failed.next_attempt_at, null);
+  assert.equal(failed.to_email, EMAIL_OUTBOX_FORGOTTEN_RECIPIENT);
+});
+
+test("resolveEmailTransport prefers the requested transport, then Resend, SMTP and file outside production", () => {
+  assert.equal(resolveEmailTransport({ NODE_ENV: "test", EMAIL_TRANSPORT: "file", RESEND_API_KEY: "re_x" })?.name, "file");
+  assert.equal(resolveEmailTransport({ NODE_ENV: "test", RESEND_API_KEY: "re_x", SMTP_URL: "smtp://localhost:1025" })?.name, "resend");
+  assert.equal(resolveEmailTransport({ NODE_ENV: "test", SMTP_URL: "smtp://localhost:1025" })?.name, "smtp");
+  assert.equal(resolveEmailTransport({ NODE_ENV: "test" })?.name, "file");
+  assert.equal(resolveEmailTransport({ NODE_ENV: "production" }), null);
+  assert.equal(resolveEmailTransport({ NODE_ENV: "production", EMAIL_TRANSPORT: "smtp" }), null);
+});
+
+test("createFileEmailTransport writes the message and an HTML preview", async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "email-outbox-"));
+
+  try {
+    const result = await createFileEmailTransport(directory).send({
+      from: "SignalMove <noreply@signal-move.com>",
+      to: "listener@example.com",
+      subject: "テスト",
+      html: "<p>本文</p>",
+      text: "本文",
+      headers: { "X-Test": "1" }
+    });
+
+    assert.equal(result.ok, true);
+    const files = (await readdir(directory)).sort();
+    assert.equal(files.length, 2);
+    assert.ok(files[0].endsWith(".html"));
+    assert.ok(files[1].endsWith(".json"));
+
+    const stored = JSON.parse(await readFile(path.join(directory, files[1]), "utf8")) as Record<string, unknown>;
+    assert.equal(stored.to, "listener@example.com");
+    assert.deepEqual(stored.headers, { "X-Test": "1" });
+    assert.equal(await readFile(path.join(directory, files[0]), "utf8"), "<p>本文</p>");
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
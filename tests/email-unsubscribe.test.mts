@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+const unsubscribeToken = await import("../app/lib/emailUnsubscribeToken.ts");
+const unsubscribe = await import("../src/lib/emailUnsubscribe.ts");
+const { buildAlertEmail } = await import("../app/lib/emailTemplates.ts");
+
+const USER_ID = "11111111-1111-4111-8111-111111111111";
+const SECRET = "test-unsubscribe-secret";
+const NOW = 1_700_000_000_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+test("unsubscribe token round-trips user and scope until it expires", () => {
+  const token = unsubscribeToken.createEmailUnsubscribeToken({ userId: USER_ID, scope: "weekly_digest" }, SECRET, NOW);
+
+  const verified = unsubscribeToken.verifyEmailUnsubscribeToken(token, SECRET, NOW + DAY_MS);
+  assert.deepEqual(verified, {
+    ok: true,
+    payload: {
+      userId: USER_ID,
+      scope: "weekly_digest",
+      expiresAt: NOW + unsubscribeToken.EMAIL_UNSUBSCRIBE_TOKEN_TTL_DAYS * DAY_MS
+    }
+  });
+
+  assert.deepEqual(
+    unsubscribeToken.verifyEmailUnsubscribeToken(
+      token,
+      SECRET,
+      NOW + unsubscribeToken.EMAIL_UNSUBSCRIBE_TOKEN_TTL_DAYS * DAY_MS
+    ),
+    { ok: false, error: "unsubscribe_token_expired" }
+  );
+});
+
+test("unsubscribe token rejects tampering and other secrets", () => {
+  const token = unsubscribeToken.createEmailUnsubscribeToken({ userId: USER_ID, scope: "weekly_digest" }, SECRET, NOW);
+  const invalid = { ok: false, error: "invalid_unsubscribe_token" };
+
+  assert.deepEqual(unsubscribeToken.verifyEmailUnsubscribeToken(token, "other-secret", NOW), invalid);
+  assert.deepEqual(
+    unsubscribeToken.verifyEmailUnsubscribeToken(token.replace(".weekly_digest.", ".all."), SECRET, NOW),
+    invalid
+  );
+  assert.deepEqual(unsubscribeToken.verifyEmailUnsubscribeToken(`${token}.extra`, SECRET, NOW), invalid);
+  assert.deepEqual(unsubscribeToken.verifyEmailUnsubscribeToken("", SECRET, NOW), invalid);
+  assert.deepEqual(unsubscribeToken.verifyEmailUnsubscribeToken(null, SECRET, NOW), invalid);
+});
+
+test("each alert type unsubscribes from its own preference", () => {
+  const allOn = { weeklyDigestEnabled: true, deadlineAlertEnabled: true, outcomeReminderEnabled: true };
+
+  assert.equal(unsubscribe.resolveEmailUnsubscribeScope("watchlist_due_soon"), "deadline_alert");
+  assert.equal(unsubscribe.resolveEmailUnsubscribeScope("weekly_digest_ready"), "weekly_digest");
+  assert.deepEqual(
+    unsubscribe.applyEmailUnsubscribeScope(allOn, unsubscribe.resolveEmailUnsubscribeScope("outcome_reminder")),
+    { ...allOn, outcomeReminderEnabled: false }
+  );
+  assert.deepEqual(unsubscribe.applyEmailUnsubscribeScope(allOn, "all"), {
+    weeklyDigestEnabled: false,
+    deadlineAlertEnabled: false,
+    outcomeReminderEnabled: false
+  });
+});
+
+test("buildAlertEmail adds the unsubscribe link to both bodies when given", () => {
+  const alert = {
+    id: "alert-1",
+    userId: USER_ID,
+    alertType: "deadline_due_soon" as const,
+    alertTypeLabel: "期限アラート",
+    sourceId: "card-1",
+    sourceKind: "judgment_card" as const,
+    episodeId: "ep-1",
+    title: "期限が近いトピック",
+    summary: "明日が期限です。",
+    urgency: "high" as const,
+    dueAt: null,
+    isRead: false,
+    isSent: false,
+    createdAt: "2026-03-12T00:00:00.000Z",
+    updatedAt: "2026-03-12T00:00:00.000Z",
+    judgmentCardId: "card-1",
+    userDecisionId: null,
+    previewLimited: false,
+    links: []
+  };
+  const unsubscribeUrl = "https://signal-move.com/unsubscribe?token=abc&x=1";
+
+  const email = buildAlertEmail(alert, { unsubscribeUrl });
+  assert.match(email.text, /配信停止: https:\/\/signal-move\.com\/unsubscribe\?token=abc&x=1/);
+  assert.match(email.html, /href="https:\/\/signal-move\.com\/unsubscribe\?token=abc&amp;x=1"/);
+
+  const withoutLink = buildAlertEmail(alert);
+  assert.doesNotMatch(withoutLink.text, /配信停止/);
+  assert.doesNotMatch(withoutLink.html, /配信を停止する/);
+});
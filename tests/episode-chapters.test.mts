@@ -0,0 +1,161 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  buildEpisodeChapters,
+  buildPodcastChaptersDocument,
+  parseEpisodeAudioSections,
+  resolveChapterTitle,
+  resolveSpokenSections,
+  splitEpisodeScriptForAudio
+} from "../src/lib/episodeChapters.ts";
+import { buildEpisodeTranscript, buildTranscriptCues, formatTranscriptTimestamp } from "../src/lib/episodeTranscript.ts";
+
+const SCRIPT = [
+  "TITLE: 今週の判断",
+  "",
+  "[OP]",
+  "おはようございます。",
+  "",
+  "[DEEPDIVE 1]",
+  "サブスクの見直しです。一年払いは得でしょうか？",
+  "",
+  "[QUICK NEWS]",
+  "クイックニュース1: 値上げ。",
+  "",
+  "[SOURCES]",
+  "- https://example.com/news",
+  "",
+  "[OUTRO]",
+  "また明日。"
+].join("\n");
+
+test("resolveSpokenSections keeps spoken sections in order and drops sources", () => {
+  assert.deepEqual(
+    resolveSpokenSections(SCRIPT).map((section) => section.heading),
+    ["OP", "DEEPDIVE 1", "QUICK NEWS", "OUTRO"]
+  );
+});
+
+test("resolveChapterTitle names known sections and uses the judgment card topic for deep dives", () => {
+  assert.equal(resolveChapterTitle("OP"), "オープニング");
+  assert.equal(resolveChapterTitle("Quick News"), "クイックニュース");
+  assert.equal(resolveChapterTitle("DEEPDIVE 2"), "深掘り2");
+  assert.equal(resolveChapterTitle("DEEPDIVE 1", [{ topic_order: 1, topic_title: "Game Pass" }]), "深掘り1: Game Pass");
+  assert.equal(resolveChapterTitle("BONUS"), "BONUS");
+});
+
+test("buildEpisodeChapters spreads the audio duration over spoken characters", () => {
+  const chapters = buildEpisodeChapters({ script: SCRIPT, durationSec: 100 });
+
+  // Spoken characters per section: 10, 23, 14, 5 (52 in total).
+  assert.deepEqual(chapters.map((chapter) => chapter.startTime), [0, 19.2, 63.5, 90.4]);
+  assert.equal(chapters.at(-1)?.endTime, 100);
+  assert.deepEqual(buildPodcastChaptersDocument(chapters).chapters[0], { startTime: 0, title: "オープニング" });
+});
+
+test("buildEpisodeChapters falls back to the reading pace and skips scripts without sections", () => {
+  const chapters = buildEpisodeChapters({ script: SCRIPT, durationSec: null });
+
+  assert.equal(chapters.at(-1)?.endTime, 10.4);
+  assert.deepEqual(buildEpisodeChapters({ script: "見出しのない台本", durationSec: 60 }), []);
+});
+
+test("splitEpisodeScriptForAudio keeps every section and folds the preamble into the first", () => {
+  const segments = splitEpisodeScriptForAudio(SCRIPT);
+
+  assert.deepEqual(
+    segments.map((segment) => segment.heading),
+    ["OP", "DEEPDIVE 1", "QUICK NEWS", "SOURCES", "OUTRO"]
+  );
+  assert.equal(segments[0].text, "TITLE: 今週の判断\n\nおはようございます。");
+  assert.deepEqual(splitEpisodeScriptForAudio("見出しのない台本"), []);
+});
+
+test("buildEpisodeChapters prefers measured audio sections and links deep dives to topics", () => {
+  const audioSections = parseEpisodeAudioSections([
+    { heading: "OP", startSec: 0, durationSec: 12.5 },
+    { heading: "DEEPDIVE 1", startSec: 12.5, durationSec: 40 },
+    { heading: "QUICK NEWS", startSec: 52.5, durationSec: 20 },
+    { heading: "SOURCES", startSec: 72.5, durationSec: 8 },
+    { heading: "OUTRO", startSec: 80.5, durationSec: 6.25 }
+  ]);
+  const chapters = buildEpisodeChapters({ script: SCRIPT, durationSec: 87, audioSections });
+
+  assert.deepEqual(chapters.map((chapter) => chapter.startTime), [0, 12.5, 52.5, 80.5]);
+  assert.equal(chapters.at(-1)?.endTime, 86.8);
+  assert.deepEqual(chapters.map((chapter) => chapter.topicOrder), [null, 1, null, null]);
+
+  // A script edited after synthesis no longer matches, so the estimate is used.
+  const stale = buildEpisodeChapters({
+    script: SCRIPT,
+    durationSec: 100,
+    audioSections: [{ heading: "OP", startSec: 0, durationSec: 10 }]
+  });
+  assert.deepEqual(stale.map((chapter) => chapter.startTime), [0, 19.2, 63.5, 90.4]);
+  assert.equal(parseEpisodeAudioSections([{ heading: "OP", startSec: "0" }]), null);
+  assert.equal(parseEpisodeAudioSections(null), null);
+});
+
+test("buildTranscriptCues splits sentences inside each chapter span", () => {
+  const cues = buildTranscriptCues({ script: SCRIPT, durationSec: 100 });
+  const chapters = buildEpisodeChapters({ script: SCRIPT, durationSec: 100 });
+
+  assert.deepEqual(
+    cues.map((cue) => cue.text),
+    ["おはようございます。", "サブスクの見直しです。", "一年払いは得でしょうか？", "クイックニュース1: 値上げ。", "また明日。"]
+  );
+  assert.equal(cues[1].startTime, chapters[1].startTime);
+  assert.equal(cues[2].endTime, chapters[1].endTime);
+});
+
+test("buildTranscriptCues follows measured TTS chunks inside a section", () => {
+  const audioSections = parseEpisodeAudioSections([
+    { heading: "OP", startSec: 0, durationSec: 4 },
+    {
+      heading: "DEEPDIVE 1",
+      startSec: 4,
+      durationSec: 30,
+      // The second sentence took far longer to read than its share of characters.
+      chunks: [
+        { startSec: 4, durationSec: 6, chars: 11 },
+        { startSec: 10, durationSec: 24, chars: 12 }
+      ]
+    },
+    { heading: "QUICK NEWS", startSec: 34, durationSec: 5, chunks: [{ startSec: 34, durationSec: "5", chars: 14 }] },
+    { heading: "OUTRO", startSec: 39, durationSec: 2 }
+  ]);
+  const cues = buildTranscriptCues({ script: SCRIPT, durationSec: 41, audioSections });
+
+  assert.deepEqual(
+    cues.slice(1, 3).map((cue) => [cue.startTime, cue.endTime]),
+    [
+      [4, 10],
+      [10, 34]
+    ]
+  );
+  // Malformed chunks are dropped and the section falls back to an even spread.
+  assert.equal(audioSections?.[2].chunks, undefined);
+  assert.deepEqual([cues[3].startTime, cues[3].endTime], [34, 39]);
+});
+
+test("buildEpisodeTranscript renders WebVTT and SRT timestamps", () => {
+  assert.equal(formatTranscriptTimestamp(3723.4567, "vtt"), "01:02:03.457");
+  assert.equal(formatTranscriptTimestamp(1.5, "srt"), "00:00:01,500");
+
+  const vtt = buildEpisodeTranscript({ script: SCRIPT, durationSec: 100 }, "vtt");
+  assert.ok(vtt.startsWith("WEBVTT\n\n00:00:00.000 --> "));
+
+  const srt = buildEpisodeTranscript({ script: SCRIPT, durationSec: 100 }, "srt");
+  assert.ok(srt.startsWith("1\n00:00:00,000 --> "));
+  assert.match(srt, /\n\n5\n\d{2}:\d{2}:\d{2},\d{3} --> 00:01:40,000\nまた明日。\n$/);
+});
+
+test("buildEpisodeTranscript stops at the preview length for viewers without full access", () => {
+  const vtt = buildEpisodeTranscript({ script: SCRIPT, durationSec: 100, maxChars: 21 }, "vtt");
+  assert.match(vtt, /おはようございます。/);
+  assert.match(vtt, /サブスクの見直しです。/);
+  assert.doesNotMatch(vtt, /一年払い|また明日/);
+
+  const full = buildEpisodeTranscript({ script: SCRIPT, durationSec: 100, maxChars: null }, "vtt");
+  assert.match(full, /また明日。/);
+});
@@ -0,0 +1,101 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  judgmentCardsFromSidecar,
+  parseJudgmentCardSidecar,
+  resolveJudgmentCards,
+  type JudgmentCardSidecarCard
+} from "../src/lib/judgmentCardSidecar.ts";
+
+const CARD: JudgmentCardSidecarCard = {
+  topic_order: 1,
+  topic_title: "Switch 2のプレイ時間プリセット",
+  frame_type: "Frame A",
+  judgment_type: "use_now",
+  judgment_summary: "検討可。体験版の相性が合えば購入候補に残す。",
+  action_text: "体験版の相性が合えば購入候補に残す。",
+  deadline_at: "2026-03-15T14:59:00.000Z",
+  thresholds: [
+    { kind: "price", raw: "価格6000円", value: 6000, unit: "JPY", currency: "JPY" },
+    { kind: "unit_cost", raw: "1時間単価500円以下なら検討", value: 500, unit: "JPY_PER_HOUR", currency: "JPY" },
+    { kind: "unit_cost", raw: "800円超なら見送り", value: 800, unit: "JPY_PER_HOUR", currency: "JPY" }
+  ],
+  conditions: ["1時間単価500円以下なら検討、800円超なら見送り"],
+  watch_points: ["予想プレイ時間20時間", "価格6000円", "1時間単価300円"]
+};
+
+// What the writer narrates for CARD. The criteria sentence mentions 見送り, which the extractor reads as skip.
+const SCRIPT = `[DEEPDIVE 1]
+導入: DeepDive1は「Switch 2のプレイ時間プリセット」。
+5. 今日の判断（個人視点）: Frame A: 体験型コンテンツフレームを適用。1時間単価は300円。基準は1時間単価500円以下なら検討、800円超なら見送りなので、結論は検討可。体験版の相性が合えば購入候補に残す。あなたはどうするか。
+6. 判断期限（個人の行動期限）: 2026年3月15日23時59分までに個人の行動を確定する。
+7. 監視ポイント（個人が見るべき数値）: 個人が見る数値は「予想プレイ時間20時間」「価格6000円」「1時間単価300円」の3点。
+`;
+
+test("parseJudgmentCardSidecar reports every invalid field", () => {
+  const parsed = parseJudgmentCardSidecar({
+    version: 1,
+    source: "polish",
+    cards: [
+      { ...CARD, judgment_type: "maybe", deadline_at: "来週" },
+      { ...CARD, thresholds: [{ kind: "price", raw: "価格", value: "6000", unit: "JPY", currency: "JPY" }] }
+    ]
+  });
+
+  assert.deepEqual(parsed, {
+    ok: false,
+    errors: [
+      "cards[0].judgment_type:invalid",
+      "cards[0].deadline_at:invalid",
+      "cards[1].thresholds:invalid",
+      "cards:duplicate_topic_order"
+    ]
+  });
+  assert.deepEqual(parseJudgmentCardSidecar(null), { ok: false, errors: ["sidecar_missing"] });
+  assert.deepEqual(parseJudgmentCardSidecar({ version: 2, source: "writer", cards: [] }), {
+    ok: false,
+    errors: ["version:unsupported", "cards:invalid_length"]
+  });
+});
+
+test("judgmentCardsFromSidecar groups thresholds into threshold_json", () => {
+  const parsed = parseJudgmentCardSidecar({
+    version: 1,
+    source: "writer",
+    cards: [{ ...CARD, deadline_at: "2026-03-15T23:59:00+09:00" }]
+  });
+  assert.equal(parsed.ok, true);
+  if (!parsed.ok) return;
+
+  const [card] = judgmentCardsFromSidecar(parsed.sidecar);
+  assert.equal(card?.deadline_at, "2026-03-15T14:59:00.000Z");
+  assert.deepEqual(card?.threshold_json, {
+    price: [{ raw: "価格6000円", value: 6000, unit: "JPY", currency: "JPY" }],
+    unit_cost: [
+      { raw: "1時間単価500円以下なら検討", value: 500, unit: "JPY_PER_HOUR", currency: "JPY" },
+      { raw: "800円超なら見送り", value: 800, unit: "JPY_PER_HOUR", currency: "JPY" }
+    ],
+    other: ["1時間単価500円以下なら検討、800円超なら見送り"]
+  });
+  assert.equal(card?.confidence_score, 0.99);
+});
+
+test("resolveJudgmentCards prefers the sidecar and reports where the extractor disagrees", () => {
+  const resolved = resolveJudgmentCards({ sidecar: { version: 1, source: "writer", cards: [CARD] }, script: SCRIPT });
+
+  assert.equal(resolved.source, "sidecar");
+  assert.equal(resolved.cards[0]?.judgment_type, "use_now");
+  assert.deepEqual(resolved.diff, [{ topic_order: 1, field: "judgment_type", sidecar: "use_now", extracted: "skip" }]);
+});
+
+test("resolveJudgmentCards falls back to the extractor when the sidecar is invalid", () => {
+  const resolved = resolveJudgmentCards({
+    sidecar: { version: 1, source: "polish", cards: [{ ...CARD, frame_type: "Frame Z" }] },
+    script: SCRIPT
+  });
+
+  assert.equal(resolved.source, "extracted");
+  assert.deepEqual(resolved.sidecarErrors, ["cards[0].frame_type:invalid"]);
+  assert.equal(resolved.cards[0]?.judgment_type, "skip");
+  assert.deepEqual(resolved.diff, []);
+});
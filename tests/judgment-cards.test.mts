@@ -24,6 +24,23 @@ test("extractJudgmentCards parses deep dive decisions", async () => {
   assert.equal(cards[0]?.watch_points.length >= 3, true);
 });
 
+test("extractJudgmentCards tags dollar thresholds with USD", () => {
+  const cards = extractJudgmentCards(`[MAIN TOPIC 1]
+Headline: Game Pass price change
+Decision frame: Frame A
+Decision summary: Use now at or below $3/hour, skip above $5 per hour. The plan costs $19.99.
+`);
+
+  assert.deepEqual(
+    cards[0]?.threshold_json.unit_cost?.map((entry) => [entry.value, entry.currency]),
+    [
+      [3, "USD"],
+      [5, "USD"]
+    ]
+  );
+  assert.deepEqual(cards[0]?.threshold_json.price?.map((entry) => [entry.value, entry.currency]), [[19.99, "USD"]]);
+});
+
 test("extractJudgmentCards returns empty when script is missing", () => {
   assert.deepEqual(extractJudgmentCards(null), []);
 });
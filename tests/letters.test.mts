@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  detectLetterPii,
+  hasReachedDailyLetterLimit,
+  LETTER_TEXT_MAX_LENGTH,
+  MAX_LETTERS_PER_DAY,
+  normalizeLetterBlockReason,
+  resolveLetterListenerStatus,
+  validateLetterSubmission
+} from "../src/lib/letters.ts";
+
+const validText = "来月のゲームセールで買うべきタイトルを取り上げてほしいです。";
+
+test("validateLetterSubmission accepts a normal letter and defaults the category", () => {
+  const result = validateLetterSubmission({
+    displayName: "  週末   ゲーマー ",
+    text: `${validText}\r\n楽しみにしています。`
+  });
+
+  assert.deepEqual(result, {
+    ok: true,
+    value: {
+      displayName: "週末 ゲーマー",
+      text: `${validText}\n楽しみにしています。`,
+      category: "other"
+    }
+  });
+});
+
+test("validateLetterSubmission enforces required fields and length limits", () => {
+  assert.deepEqual(validateLetterSubmission({ displayName: "", text: validText }), {
+    ok: false,
+    error: "display_name_required"
+  });
+  assert.deepEqual(validateLetterSubmission({ displayName: "あ".repeat(31), text: validText }), {
+    ok: false,
+    error: "display_name_too_long"
+  });
+  assert.deepEqual(validateLetterSubmission({ displayName: "listener", text: "短い" }), {
+    ok: false,
+    error: "letter_text_too_short"
+  });
+  assert.deepEqual(
+    validateLetterSubmission({ displayName: "listener", text: "あ".repeat(LETTER_TEXT_MAX_LENGTH + 1) }),
+    { ok: false, error: "letter_text_too_long" }
+  );
+  assert.deepEqual(
+    validateLetterSubmission({ displayName: "listener", text: validText, category: "spam" }),
+    { ok: false, error: "invalid_category" }
+  );
+});
+
+test("validateLetterSubmission rejects URLs, including full-width and bare domains", () => {
+  for (const text of [
+    `${validText} https://example.com/sale`,
+    `${validText} ｗｗｗ．example．com`,
+    `${validText} example.jp を見てください`
+  ]) {
+    assert.deepEqual(validateLetterSubmission({ displayName: "listener", text }), {
+      ok: false,
+      error: "letter_contains_url"
+    });
+  }
+
+  assert.deepEqual(validateLetterSubmission({ displayName: "my.site.com", text: validText }), {
+    ok: false,
+    error: "letter_contains_url"
+  });
+});
+
+test("detectLetterPii flags contact details but not ordinary numbers", () => {
+  assert.equal(detectLetterPii("連絡は listener@example.com まで"), "letter_contains_email");
+  assert.equal(detectLetterPii("電話は090-1234-5678です"), "letter_contains_phone_number");
+  assert.equal(detectLetterPii("電話は０９０１２３４５６７８です"), "letter_contains_phone_number");
+  assert.equal(detectLetterPii("〒150-0001 に住んでいます"), "letter_contains_postal_code");
+  assert.equal(detectLetterPii("カードは 4242 4242 4242 4242 です"), "letter_contains_card_number");
+
+  assert.equal(detectLetterPii("月額1,490円で年間100000円くらい使っています"), null);
+  assert.equal(detectLetterPii("2026年に30時間プレイしました"), null);
+});
+
+test("resolveLetterListenerStatus maps moderation columns to listener statuses", () => {
+  assert.equal(resolveLetterListenerStatus({ moderation_status: "pending", is_used: false, is_blocked: false }), "pending");
+  assert.equal(resolveLetterListenerStatus({ moderation_status: "needs_review", is_used: false, is_blocked: false }), "pending");
+  assert.equal(resolveLetterListenerStatus({ moderation_status: "ok", is_used: false, is_blocked: false }), "approved");
+  assert.equal(resolveLetterListenerStatus({ moderation_status: "ok", is_used: true, is_blocked: false }), "used");
+  assert.equal(resolveLetterListenerStatus({ moderation_status: "reject", is_used: false, is_blocked: true }), "blocked");
+  assert.equal(resolveLetterListenerStatus({ moderation_status: "ok", is_used: false, is_blocked: true }), "blocked");
+});
+
+test("hasReachedDailyLetterLimit and normalizeLetterBlockReason", () => {
+  assert.equal(hasReachedDailyLetterLimit(MAX_LETTERS_PER_DAY - 1), false);
+  assert.equal(hasReachedDailyLetterLimit(MAX_LETTERS_PER_DAY), true);
+
+  assert.equal(normalizeLetterBlockReason("  宣伝目的の\n投稿  "), "宣伝目的の 投稿");
+  assert.equal(normalizeLetterBlockReason("   "), null);
+  assert.equal(normalizeLetterBlockReason(null), null);
+  assert.equal(normalizeLetterBlockReason("あ".repeat(250))?.length, 200);
+});
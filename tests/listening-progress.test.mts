@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+const progress = await import("../src/lib/listeningProgress.ts");
+
+const record = (overrides = {}) => ({
+  episode_id: "episode-1",
+  position_sec: 600,
+  duration_sec: 1200,
+  completed_at: null,
+  updated_at: "2026-04-04T09:00:00.000Z",
+  ...overrides
+});
+
+test("isListeningProgressEpisodeId accepts only uuids", () => {
+  assert.equal(progress.isListeningProgressEpisodeId("3f2b8c1e-6d4a-4b7e-9a51-0c2d3e4f5a6b"), true);
+  assert.equal(progress.isListeningProgressEpisodeId("episode-1"), false);
+  assert.equal(progress.isListeningProgressEpisodeId("3f2b8c1e-6d4a-4b7e-9a51-0c2d3e4f5a6b'--"), false);
+});
+
+test("parseListeningProgressInput validates and clamps the player payload", () => {
+  assert.deepEqual(progress.parseListeningProgressInput({ positionSec: 125.37, durationSec: 1200 }), {
+    positionSec: 125.4,
+    durationSec: 1200,
+    ended: false
+  });
+  assert.deepEqual(progress.parseListeningProgressInput({ positionSec: 1300, durationSec: 1200, ended: true }), {
+    positionSec: 1200,
+    durationSec: 1200,
+    ended: true
+  });
+  assert.deepEqual(progress.parseListeningProgressInput({ positionSec: 30, durationSec: null }), {
+    positionSec: 30,
+    durationSec: null,
+    ended: false
+  });
+
+  assert.equal(progress.parseListeningProgressInput(null), null);
+  assert.equal(progress.parseListeningProgressInput({ positionSec: -1 }), null);
+  assert.equal(progress.parseListeningProgressInput({ positionSec: "10" }), null);
+  assert.equal(progress.parseListeningProgressInput({ positionSec: 10, durationSec: 0 }), null);
+  assert.equal(progress.parseListeningProgressInput({ positionSec: 10, durationSec: Number.POSITIVE_INFINITY }), null);
+});
+
+test("isListenComplete counts the end of the episode or the last 30 seconds", () => {
+  assert.equal(progress.isListenComplete({ positionSec: 600, durationSec: 1200, ended: false }), false);
+  assert.equal(progress.isListenComplete({ positionSec: 1171, durationSec: 1200, ended: false }), true);
+  assert.equal(progress.isListenComplete({ positionSec: 190, durationSec: 200, ended: false }), true);
+  assert.equal(progress.isListenComplete({ positionSec: 10, durationSec: null, ended: false }), false);
+  assert.equal(progress.isListenComplete({ positionSec: 10, durationSec: null, ended: true }), true);
+});
+
+test("summarizeListeningProgress derives the in-progress / finished state", () => {
+  assert.equal(progress.summarizeListeningProgress(record()).state, "in_progress");
+  assert.equal(
+    progress.summarizeListeningProgress(record({ completed_at: "2026-04-04T09:10:00.000Z" })).state,
+    "finished"
+  );
+});
+
+test("resolveResumePosition restarts finished episodes and ignores tiny positions", () => {
+  assert.equal(progress.resolveResumePosition(null), 0);
+  assert.equal(progress.resolveResumePosition(progress.summarizeListeningProgress(record())), 600);
+  assert.equal(progress.resolveResumePosition(progress.summarizeListeningProgress(record({ position_sec: 3 }))), 0);
+  assert.equal(
+    progress.resolveResumePosition(
+      progress.summarizeListeningProgress(record({ position_sec: 1200, completed_at: "2026-04-04T09:10:00.000Z" }))
+    ),
+    0
+  );
+  // A replay of a finished episode resumes where the replay stopped.
+  assert.equal(
+    progress.resolveResumePosition(
+      progress.summarizeListeningProgress(record({ position_sec: 300, completed_at: "2026-04-04T09:10:00.000Z" }))
+    ),
+    300
+  );
+});
@@ -0,0 +1,117 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  ChatCompletionError,
+  hashChatCompletionRequest,
+  isChatCompletionConfigured,
+  requestChatCompletion,
+  resolveChatCompletionConfig,
+  type ChatCompletionRequest
+} from "../src/lib/llm/chatCompletion.ts";
+
+const REQUEST: ChatCompletionRequest = {
+  model: "gpt-4o-mini",
+  temperature: 0.3,
+  messages: [
+    { role: "system", content: "system prompt" },
+    { role: "user", content: "原稿" }
+  ]
+};
+
+const envOf = (values: Record<string, string>) => (name: string) => values[name];
+
+const stubFetch = (status: number, payload: unknown, calls: Array<{ url: string; body: unknown }> = []) =>
+  (async (url: string | URL | Request, init?: RequestInit) => {
+    calls.push({ url: String(url), body: JSON.parse(String(init?.body)) });
+    return new Response(JSON.stringify(payload), { status });
+  }) as typeof fetch;
+
+test("resolves the provider from LLM_* settings and falls back to OpenAI", () => {
+  const openai = resolveChatCompletionConfig(envOf({ OPENAI_API_KEY: "sk-test" }));
+  assert.equal(openai.provider, "openai");
+  assert.equal(openai.baseUrl, "https://api.openai.com/v1");
+  assert.equal(openai.apiKey, "sk-test");
+  assert.equal(isChatCompletionConfigured(openai), true);
+  assert.equal(isChatCompletionConfigured(resolveChatCompletionConfig(envOf({}))), false);
+
+  const local = resolveChatCompletionConfig(
+    envOf({ LLM_PROVIDER: "local", LLM_BASE_URL: "http://localhost:8080/v1/", LLM_MODEL: "qwen2.5", OPENAI_API_KEY: "sk-test" })
+  );
+  assert.deepEqual(local, {
+    provider: "local",
+    baseUrl: "http://localhost:8080/v1",
+    apiKey: null,
+    model: "qwen2.5",
+    fixtureDir: null,
+    recordFixtures: false
+  });
+  assert.equal(isChatCompletionConfigured(local), true);
+
+  const fixture = resolveChatCompletionConfig(envOf({ LLM_PROVIDER: "fixture", LLM_FIXTURE_RECORD: "1" }));
+  assert.equal(fixture.recordFixtures, false);
+  assert.equal(isChatCompletionConfigured(fixture), false);
+});
+
+test("request hash ignores key order and undefined fields", async () => {
+  const reordered = {
+    messages: REQUEST.messages.map((message) => ({ content: message.content, role: message.role })),
+    temperature: 0.3,
+    max_tokens: undefined,
+    model: "gpt-4o-mini"
+  } as ChatCompletionRequest;
+
+  assert.equal(await hashChatCompletionRequest(reordered), await hashChatCompletionRequest(REQUEST));
+  assert.notEqual(await hashChatCompletionRequest({ ...REQUEST, temperature: 0.7 }), await hashChatCompletionRequest(REQUEST));
+});
+
+test("local provider applies the model override and keeps the pipeline's error codes", async () => {
+  const config = resolveChatCompletionConfig(envOf({ LLM_PROVIDER: "local", LLM_MODEL: "qwen2.5" }));
+  const calls: Array<{ url: string; body: unknown }> = [];
+
+  const content = await requestChatCompletion(config, REQUEST, {
+    timeoutMs: 1_000,
+    fetchImpl: stubFetch(200, { choices: [{ message: { content: "  編集済み  " } }] }, calls)
+  });
+  assert.equal(content, "編集済み");
+  assert.equal(calls[0]?.url, "http://127.0.0.1:11434/v1/chat/completions");
+  assert.equal((calls[0]?.body as ChatCompletionRequest).model, "qwen2.5");
+
+  await assert.rejects(
+    requestChatCompletion(config, REQUEST, { timeoutMs: 1_000, fetchImpl: stubFetch(500, {}) }),
+    (error: unknown) => error instanceof ChatCompletionError && error.kind === "http_error" && error.message === "openai_http_500"
+  );
+  await assert.rejects(
+    requestChatCompletion(config, REQUEST, { timeoutMs: 1_000, fetchImpl: stubFetch(200, { choices: [] }) }),
+    { message: "openai_empty_response" }
+  );
+});
+
+test("recorded responses replay through the fixture provider without network", async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), "llm-fixtures-"));
+  try {
+    const recorder = resolveChatCompletionConfig(
+      envOf({ LLM_PROVIDER: "local", LLM_FIXTURE_RECORD: "1", LLM_FIXTURE_DIR: dir })
+    );
+    await requestChatCompletion(recorder, REQUEST, {
+      timeoutMs: 1_000,
+      fetchImpl: stubFetch(200, { choices: [{ message: { content: "録音した応答" } }] })
+    });
+    assert.deepEqual(await readdir(dir), [`${await hashChatCompletionRequest(REQUEST)}.json`]);
+
+    const replay = resolveChatCompletionConfig(envOf({ LLM_PROVIDER: "fixture", LLM_FIXTURE_DIR: dir }));
+    const offline = (async () => {
+      throw new Error("network_disabled");
+    }) as typeof fetch;
+
+    assert.equal(await requestChatCompletion(replay, REQUEST, { timeoutMs: 1_000, fetchImpl: offline }), "録音した応答");
+    await assert.rejects(
+      requestChatCompletion(replay, { ...REQUEST, temperature: 0 }, { timeoutMs: 1_000, fetchImpl: offline }),
+      (error: unknown) => error instanceof ChatCompletionError && error.kind === "fixture_missing"
+    );
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
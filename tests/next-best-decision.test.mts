@@ -1,6 +1,7 @@
 import assert from "node:assert/strict";
 import test from "node:test";
 import { buildPersonalDecisionProfile } from "../src/lib/decisionProfile.ts";
+import { buildConfidenceCalibration } from "../src/lib/confidenceCalibration.ts";
 import { rankNextBestDecisions } from "../src/lib/nextBestDecision.ts";
 import { initializeUserPreferenceProfile } from "../src/lib/userPreferences.ts";
 
@@ -253,3 +254,38 @@ test("rankNextBestDecisions falls back cleanly when cards have no deadlines", ()
   assert.equal(recommendation.recommended_action, "今回は見送る、他の候補を優先する");
   assert.equal(recommendation.urgency_level, "low");
 });
+
+test("rankNextBestDecisions uses outcome-calibrated confidence when a calibration is given", () => {
+  const buildCard = (id: string, frameType: string) => ({
+    id,
+    episode_id: "ep-5",
+    topic_title: `Card ${id}`,
+    judgment_type: "watch" as const,
+    judgment_summary: "様子を見る。",
+    action_text: null,
+    deadline_at: null,
+    ranking_deadline_at: null,
+    threshold_json: {},
+    frame_type: frameType,
+    genre: "games",
+    created_at: "2026-03-12T12:00:00.000Z",
+    confidence_score: 0.9
+  });
+  const outcomes = (frameType: string, outcome: "success" | "regret") =>
+    Array.from({ length: 20 }, () => ({
+      confidence_score: 0.9,
+      frame_type: frameType,
+      genre: "games",
+      judgment_type: "watch" as const,
+      outcome
+    }));
+  const calibration = buildConfidenceCalibration([...outcomes("Frame A", "regret"), ...outcomes("Frame B", "success")]);
+  const cards = [buildCard("frame-a", "Frame A"), buildCard("frame-b", "Frame B")];
+
+  const raw = rankNextBestDecisions({ isPaid: false, now: NOW, limit: 2, cards });
+  const calibrated = rankNextBestDecisions({ isPaid: false, now: NOW, limit: 2, cards, calibration });
+
+  assert.equal(raw[0].priority_score, raw[1].priority_score);
+  assert.equal(calibrated[0].card.id, "frame-b");
+  assert.ok(calibrated[0].priority_score > calibrated[1].priority_score);
+});
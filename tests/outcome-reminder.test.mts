@@ -4,7 +4,8 @@ import {
   FREE_OUTCOME_REMINDER_LIMIT,
   buildOutcomeReminderCandidates,
   formatOutcomeReminderTiming,
-  limitOutcomeReminderCandidates
+  limitOutcomeReminderCandidates,
+  resolveOutcomeReminderDueAt
 } from "../src/lib/outcomeReminder.ts";
 
 const NOW = new Date("2026-03-13T09:00:00.000Z");
@@ -100,3 +101,27 @@ test("limitOutcomeReminderCandidates keeps free plan capped and paid plan unlimi
   assert.equal(limitOutcomeReminderCandidates(reminders, false).length, FREE_OUTCOME_REMINDER_LIMIT);
   assert.equal(limitOutcomeReminderCandidates(reminders, true).length, reminders.length);
 });
+
+test("resolveOutcomeReminderDueAt is the first moment buildOutcomeReminderCandidates picks the decision up", () => {
+  const decision = {
+    id: "decision-1",
+    judgment_card_id: "card-1",
+    episode_id: "episode-1",
+    topic_title: "月額ツールを継続するか",
+    frame_type: null,
+    genre: null,
+    decision_type: "watch" as const,
+    outcome: null,
+    created_at: "2026-03-09T15:30:00.000Z",
+    deadline_at: null
+  };
+
+  const dueAt = resolveOutcomeReminderDueAt(decision);
+  assert.equal(dueAt?.toISOString(), "2026-03-12T00:00:00.000Z");
+  assert.equal(buildOutcomeReminderCandidates([decision], { now: dueAt! }).length, 1);
+  assert.equal(buildOutcomeReminderCandidates([decision], { now: new Date(dueAt!.getTime() - 1) }).length, 0);
+
+  const withDeadline = { ...decision, deadline_at: "2026-03-10T06:00:00.000Z" };
+  assert.equal(resolveOutcomeReminderDueAt(withDeadline)?.toISOString(), "2026-03-10T06:00:00.000Z");
+  assert.equal(resolveOutcomeReminderDueAt({ ...decision, outcome: "success" }), null);
+});
@@ -1,12 +1,16 @@
 import test from "node:test";
 import assert from "node:assert/strict";
 import {
+  buildPodcastFeedGuid,
+  buildPodcastFeedPath,
   buildPodcastFeedXml,
   formatDuration,
   isPodcastCompatibleAudioUrl,
   resolveAbsoluteAudioUrl,
   resolveAudioExtension,
-  resolveAudioContentType
+  resolveAudioContentType,
+  resolvePodcastFeedChannel,
+  PODCAST_FEED_GUID
 } from "../src/lib/podcastFeed.ts";
 
 test("resolveAudioContentType follows file extension", () => {
@@ -80,3 +84,75 @@ test("buildPodcastFeedXml prefers judgment card titles over generic placeholders
 
   assert.match(xml, /<title>使い方の見直し<\/title>/);
 });
+
+test("buildPodcastFeedGuid derives the Podcasting 2.0 UUIDv5 from the feed URL", () => {
+  assert.equal(buildPodcastFeedGuid("https://podnews.net/rss"), "d5126329-d523-581c-b886-e3efb2d92c2e");
+  assert.equal(buildPodcastFeedGuid("http://podnews.net/rss/"), buildPodcastFeedGuid("https://podnews.net/rss"));
+});
+
+test("buildPodcastFeedXml adds podcast namespace tags and per-episode chapters and transcripts", () => {
+  const episode = {
+    id: "episode-1",
+    title: "最新AIツールまとめ",
+    description: "通勤中にチェックしたい要点を整理します。",
+    audioUrl: "/audio/episode-1.ja.feed.mp3",
+    durationSec: 540,
+    publishedAt: "2026-03-21T00:00:00.000Z",
+    genre: "tech"
+  };
+  const xml = buildPodcastFeedXml([{ ...episode, hasScriptSections: true }, { ...episode, id: "episode-2" }]);
+
+  assert.match(xml, /xmlns:podcast="https:\/\/podcastindex\.org\/namespace\/1\.0"/);
+  assert.match(xml, /<podcast:guid>[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}<\/podcast:guid>/);
+  assert.match(xml, /<podcast:locked owner="[^"]+">yes<\/podcast:locked>/);
+  assert.match(
+    xml,
+    /<podcast:chapters url="https:\/\/signal-move\.com\/api\/episodes\/episode-1\/chapters" type="application\/json\+chapters" \/>/
+  );
+  assert.match(xml, /<podcast:transcript url="[^"]+\/episode-1\/transcript\?format=vtt" type="text\/vtt" language="ja" \/>/);
+  assert.match(xml, /<podcast:transcript url="[^"]+\/episode-1\/transcript\?format=srt" type="application\/x-subrip" language="ja" \/>/);
+  assert.doesNotMatch(xml, /episode-2\/chapters/);
+});
+
+test("resolvePodcastFeedChannel gives the English and genre feeds their own URL, guid and metadata", () => {
+  assert.equal(buildPodcastFeedPath(), "/feed.xml");
+  assert.equal(buildPodcastFeedPath({ language: "en" }), "/feed/en.xml");
+  assert.equal(buildPodcastFeedPath({ genre: " Tech " }), "/feed/tech.xml");
+
+  const main = resolvePodcastFeedChannel();
+  const english = resolvePodcastFeedChannel({ language: "en" });
+  const tech = resolvePodcastFeedChannel({ genre: "tech" });
+
+  assert.equal(main.guid, PODCAST_FEED_GUID);
+  assert.equal(english.language, "en");
+  assert.equal(english.feedUrl, "https://signal-move.com/feed/en.xml");
+  assert.equal(english.image, "https://signal-move.com/api/og/cover?lang=en");
+  assert.equal(tech.genre, "tech");
+  assert.match(tech.title, /（テック）$/);
+  assert.equal(tech.category, "Technology");
+  assert.equal(resolvePodcastFeedChannel({ genre: "entertainment" }).category, "Leisure");
+  assert.equal(new Set([main.guid, english.guid, tech.guid]).size, 3);
+});
+
+test("buildPodcastFeedXml renders the given channel", () => {
+  const xml = buildPodcastFeedXml(
+    [
+      {
+        id: "episode-en",
+        title: "Subscription check",
+        description: "Which plans to keep this week.",
+        audioUrl: "/audio/episode-en.en.feed.mp3",
+        durationSec: 300,
+        publishedAt: "2026-03-21T00:00:00.000Z",
+        genre: "tech",
+        hasScriptSections: true
+      }
+    ],
+    resolvePodcastFeedChannel({ language: "en" })
+  );
+
+  assert.match(xml, /<language>en<\/language>/);
+  assert.match(xml, /<atom:link href="https:\/\/signal-move\.com\/feed\/en\.xml" rel="self"/);
+  assert.match(xml, /<itunes:image href="https:\/\/signal-move\.com\/api\/og\/cover\?lang=en" \/>/);
+  assert.match(xml, /type="text\/vtt" language="en"/);
+});
@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, verify } from "node:crypto";
+import test from "node:test";
+
+const push = await import("../src/lib/pushNotifications.ts");
+const { isAlertChannelEnabled } = await import("../src/lib/alertDelivery.ts");
+const { DEFAULT_USER_NOTIFICATION_PREFERENCES } = await import("../src/lib/alerts.ts");
+const webPush = await import("../app/lib/webPush.ts");
+
+const createBrowserKeys = () => {
+  const ecdh = createECDH("prime256v1");
+  ecdh.generateKeys();
+  const auth = randomBytes(16);
+
+  return {
+    ecdh,
+    auth,
+    subscription: {
+      endpoint: "https://fcm.googleapis.com/fcm/send/abc123",
+      p256dh: ecdh.getPublicKey().toString("base64url"),
+      auth: auth.toString("base64url")
+    }
+  };
+};
+
+test("parsePushSubscriptionInput accepts a browser PushSubscription JSON", () => {
+  const { subscription } = createBrowserKeys();
+
+  assert.deepEqual(
+    push.parsePushSubscriptionInput({
+      endpoint: subscription.endpoint,
+      expirationTime: null,
+      keys: { p256dh: `${subscription.p256dh}=`, auth: `${subscription.auth}==` }
+    }),
+    subscription
+  );
+});
+
+test("isPushServiceEndpoint only allows the browser push services", () => {
+  for (const endpoint of [
+    "https://fcm.googleapis.com/fcm/send/abc",
+    "https://updates.push.services.mozilla.com/wpush/v2/abc",
+    "https://web.push.apple.com/QGx",
+    "https://wns2-par02p.notify.windows.com/w/?token=abc"
+  ]) {
+    assert.equal(push.isPushServiceEndpoint(endpoint), true, endpoint);
+  }
+  for (const endpoint of [
+    "https://push.example.com/send/abc",
+    "https://internal.service.local/admin",
+    "https://fcm.googleapis.com.attacker.example/send",
+    "https://fcm.googleapis.com:8443/fcm/send/abc",
+    "https://user@fcm.googleapis.com/fcm/send/abc",
+    "https://evilpush.apple.com.example/x"
+  ]) {
+    assert.equal(push.isPushServiceEndpoint(endpoint), false, endpoint);
+  }
+});
+
+test("parsePushSubscriptionInput rejects non-https endpoints and malformed keys", () => {
+  const { subscription } = createBrowserKeys();
+  const keys = { p256dh: subscription.p256dh, auth: subscription.auth };
+
+  assert.equal(push.parsePushSubscriptionInput(null), null);
+  assert.equal(push.parsePushSubscriptionInput({ endpoint: "http://fcm.googleapis.com/fcm/send/x", keys }), null);
+  assert.equal(push.parsePushSubscriptionInput({ endpoint: "not a url", keys }), null);
+  assert.equal(
+    push.parsePushSubscriptionInput({ endpoint: subscription.endpoint, keys: { ...keys, auth: "short" } }),
+    null
+  );
+  assert.equal(push.parsePushSubscriptionInput({ endpoint: subscription.endpoint }), null);
+});
+
+test("buildAlertPushPayload links to the first in-app link and truncates the body", () => {
+  const payload = push.buildAlertPushPayload({
+    id: "alert-1",
+    alertType: "watchlist_due_soon",
+    alertTypeLabel: "ウォッチリスト期限",
+    title: "Game Pass の期限が近づいています",
+    summary: "あ".repeat(200),
+    links: [
+      { href: "https://example.com/external", label: "外部" },
+      { href: "/watchlist", label: "ウォッチリスト" }
+    ]
+  });
+
+  assert.equal(payload.url, "/watchlist");
+  assert.equal(payload.tag, "alert-alert-1");
+  assert.equal(payload.body.length, 120);
+  assert.ok(payload.body.startsWith("ウォッチリスト期限・"));
+  assert.ok(payload.body.endsWith("…"));
+});
+
+test("isPushAlertFresh drops alerts older than a day", () => {
+  const now = new Date("2026-04-03T09:00:00.000Z");
+
+  assert.equal(push.isPushAlertFresh("2026-04-02T10:00:00.000Z", now), true);
+  assert.equal(push.isPushAlertFresh("2026-04-02T08:00:00.000Z", now), false);
+  assert.equal(push.isPushAlertFresh("invalid", now), false);
+});
+
+test("isAlertChannelEnabled applies the push switch on top of the alert type toggles", () => {
+  const pushOff = { ...DEFAULT_USER_NOTIFICATION_PREFERENCES, pushEnabled: false };
+  const remindersOff = { ...DEFAULT_USER_NOTIFICATION_PREFERENCES, outcomeReminderEnabled: false };
+
+  assert.equal(isAlertChannelEnabled("push", "deadline_due_soon", DEFAULT_USER_NOTIFICATION_PREFERENCES), true);
+  assert.equal(isAlertChannelEnabled("push", "deadline_due_soon", pushOff), false);
+  assert.equal(isAlertChannelEnabled("email", "deadline_due_soon", pushOff), true);
+  assert.equal(isAlertChannelEnabled("push", "outcome_reminder", remindersOff), false);
+});
+
+test("encryptPushPayload produces an aes128gcm record the browser can decrypt", () => {
+  const { ecdh, auth, subscription } = createBrowserKeys();
+  const payload = JSON.stringify({ title: "期限が近づいています", url: "/alerts" });
+  const record = webPush.encryptPushPayload(payload, subscription);
+
+  const salt = record.subarray(0, 16);
+  assert.equal(record.readUInt32BE(16), 4096);
+  const keyLength = record.readUInt8(20);
+  const serverPublicKey = record.subarray(21, 21 + keyLength);
+  const ciphertext = record.subarray(21 + keyLength, record.length - 16);
+  const tag = record.subarray(record.length - 16);
+
+  const sharedSecret = ecdh.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), ecdh.getPublicKey(), serverPublicKey]);
+  const ikm = Buffer.from(hkdfSync("sha256", sharedSecret, auth, keyInfo, 32));
+  const contentKey = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16));
+  const nonce = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12));
+
+  const decipher = createDecipheriv("aes-128-gcm", contentKey, nonce);
+  decipher.setAuthTag(tag);
+  const plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+
+  assert.equal(plaintext.at(-1), 0x02);
+  assert.equal(plaintext.subarray(0, -1).toString("utf8"), payload);
+});
+
+test("encryptPushPayload rejects payloads larger than one record", () => {
+  const { subscription } = createBrowserKeys();
+
+  assert.throws(() => webPush.encryptPushPayload("x".repeat(5000), subscription), /push_payload_too_large/);
+});
+
+test("createVapidAuthorization signs an ES256 token for the endpoint origin", () => {
+  const keys = webPush.generateVapidKeys();
+  const now = Date.parse("2026-04-03T09:00:00.000Z");
+  const header = webPush.createVapidAuthorization(
+    "https://push.example.com/send/abc123",
+    { ...keys, subject: "mailto:hello@example.com" },
+    now
+  );
+
+  const match = /^vapid t=([^.]+)\.([^.]+)\.([^,]+), k=(.+)$/.exec(header);
+  assert.ok(match);
+  const [, encodedHeader, encodedClaims, signature, publicKey] = match;
+  assert.equal(publicKey, keys.publicKey);
+
+  const claims = JSON.parse(Buffer.from(encodedClaims, "base64url").toString("utf8"));
+  assert.equal(claims.aud, "https://push.example.com");
+  assert.equal(claims.sub, "mailto:hello@example.com");
+  assert.equal(claims.exp, now / 1000 + 12 * 60 * 60);
+
+  const rawPublicKey = Buffer.from(keys.publicKey, "base64url");
+  const verifyKey = createPublicKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      x: rawPublicKey.subarray(1, 33).toString("base64url"),
+      y: rawPublicKey.subarray(33).toString("base64url")
+    },
+    format: "jwk"
+  });
+
+  assert.equal(
+    verify(
+      "sha256",
+      Buffer.from(`${encodedHeader}.${encodedClaims}`),
+      { key: verifyKey, dsaEncoding: "ieee-p1363" },
+      Buffer.from(signature, "base64url")
+    ),
+    true
+  );
+});
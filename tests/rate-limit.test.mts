@@ -2,156 +2,228 @@
  * Unit tests for the sliding-window rate limiter.
  *
  * Uses node:test runner (consistent with the rest of the test suite).
+ * The store suite runs against every RateLimitStore: the in-memory store
+ * always, and the Postgres store when RATE_LIMIT_TEST_SUPABASE_URL and
+ * RATE_LIMIT_TEST_SUPABASE_SERVICE_ROLE_KEY point at a migrated database.
  * Tests cover: basic allow/deny, window expiry, boundary conditions,
- * independent stores, extractRateLimitKey, and GC behaviour.
+ * independent stores, extractRateLimitKey, and store fallback.
  */
 import assert from "node:assert/strict";
 import test from "node:test";
+import { createClient } from "@supabase/supabase-js";
 import {
+  createMemoryRateLimitStore,
+  createPostgresRateLimitStore,
   createRateLimiter,
-  extractRateLimitKey
+  extractRateLimitKey,
+  type RateLimitStore
 } from "../app/lib/rateLimit.ts";
 
-// ---------------------------------------------------------------------------
-// createRateLimiter — basic behaviour
-// ---------------------------------------------------------------------------
-
-test("allows requests within the limit", () => {
-  const limiter = createRateLimiter("test-basic-allow", {
-    maxRequests: 3,
-    windowMs: 60_000
+const postgresUrl = process.env.RATE_LIMIT_TEST_SUPABASE_URL?.trim();
+const postgresKey = process.env.RATE_LIMIT_TEST_SUPABASE_SERVICE_ROLE_KEY?.trim();
+const runId = Date.now().toString(36);
+
+const storeFactories: Array<{ name: string; skip: string | false; create: () => RateLimitStore }> = [
+  {
+    name: "memory",
+    skip: false,
+    create: () => createMemoryRateLimitStore()
+  },
+  {
+    name: "postgres",
+    skip: postgresUrl && postgresKey ? false : "RATE_LIMIT_TEST_SUPABASE_URL is not set",
+    create: () =>
+      createPostgresRateLimitStore(() =>
+        createClient(postgresUrl!, postgresKey!, {
+          auth: { autoRefreshToken: false, persistSession: false }
+        })
+      )
+  }
+];
+
+for (const factory of storeFactories) {
+  const storeTest = (name: string, fn: (store: RateLimitStore) => Promise<void>) => {
+    test(`[${factory.name}] ${name}`, { skip: factory.skip }, () => fn(factory.create()));
+  };
+  // Limiter names are unique per run so a shared database never carries state between runs.
+  const limiterName = (name: string) => `${name}-${runId}`;
+
+  // ---------------------------------------------------------------------------
+  // createRateLimiter — basic behaviour
+  // ---------------------------------------------------------------------------
+
+  storeTest("allows requests within the limit", async (store) => {
+    const limiter = createRateLimiter(
+      limiterName("test-basic-allow"),
+      {
+        maxRequests: 3,
+        windowMs: 60_000
+      },
+      store
+    );
+
+    const r1 = await limiter.check("user-1");
+    assert.equal(r1.allowed, true);
+    assert.equal(r1.remaining, 2);
+
+    const r2 = await limiter.check("user-1");
+    assert.equal(r2.allowed, true);
+    assert.equal(r2.remaining, 1);
+
+    const r3 = await limiter.check("user-1");
+    assert.equal(r3.allowed, true);
+    assert.equal(r3.remaining, 0);
   });
 
-  const r1 = limiter.check("user-1");
-  assert.equal(r1.allowed, true);
-  assert.equal(r1.remaining, 2);
-
-  const r2 = limiter.check("user-1");
-  assert.equal(r2.allowed, true);
-  assert.equal(r2.remaining, 1);
-
-  const r3 = limiter.check("user-1");
-  assert.equal(r3.allowed, true);
-  assert.equal(r3.remaining, 0);
-});
-
-test("denies requests that exceed the limit", () => {
-  const limiter = createRateLimiter("test-basic-deny", {
-    maxRequests: 2,
-    windowMs: 60_000
+  storeTest("denies requests that exceed the limit", async (store) => {
+    const limiter = createRateLimiter(
+      limiterName("test-basic-deny"),
+      {
+        maxRequests: 2,
+        windowMs: 60_000
+      },
+      store
+    );
+
+    await limiter.check("user-1");
+    await limiter.check("user-1");
+
+    const r3 = await limiter.check("user-1");
+    assert.equal(r3.allowed, false);
+    assert.equal(r3.remaining, 0);
+    assert.ok("retryAfterMs" in r3);
+    assert.ok(r3.retryAfterMs! >= 1000, "retryAfterMs should be at least 1 000 ms");
   });
 
-  limiter.check("user-1");
-  limiter.check("user-1");
-
-  const r3 = limiter.check("user-1");
-  assert.equal(r3.allowed, false);
-  assert.equal(r3.remaining, 0);
-  assert.ok("retryAfterMs" in r3);
-  assert.ok(r3.retryAfterMs! >= 1000, "retryAfterMs should be at least 1 000 ms");
-});
-
-test("retryAfterMs is capped at a minimum of 1 000 ms", () => {
-  const limiter = createRateLimiter("test-retry-floor", {
-    maxRequests: 1,
-    windowMs: 500 // very short window
+  storeTest("retryAfterMs is capped at a minimum of 1 000 ms", async (store) => {
+    const limiter = createRateLimiter(
+      limiterName("test-retry-floor"),
+      {
+        maxRequests: 1,
+        windowMs: 500 // very short window
+      },
+      store
+    );
+
+    await limiter.check("user-1");
+    const denied = await limiter.check("user-1");
+    assert.equal(denied.allowed, false);
+    assert.ok(denied.retryAfterMs! >= 1000);
   });
 
-  limiter.check("user-1");
-  const denied = limiter.check("user-1");
-  assert.equal(denied.allowed, false);
-  assert.ok(denied.retryAfterMs! >= 1000);
-});
-
-// ---------------------------------------------------------------------------
-// Window expiry
-// ---------------------------------------------------------------------------
+  // ---------------------------------------------------------------------------
+  // Window expiry
+  // ---------------------------------------------------------------------------
 
-test("allows requests again after the window expires", async () => {
-  const limiter = createRateLimiter("test-window-expiry", {
-    maxRequests: 1,
-    windowMs: 50 // 50 ms window for fast test
-  });
+  storeTest("allows requests again after the window expires", async (store) => {
+    const limiter = createRateLimiter(
+      limiterName("test-window-expiry"),
+      {
+        maxRequests: 1,
+        windowMs: 50 // 50 ms window for fast test
+      },
+      store
+    );
 
-  const first = limiter.check("user-1");
-  assert.equal(first.allowed, true);
+    const first = await limiter.check("user-1");
+    assert.equal(first.allowed, true);
 
-  const denied = limiter.check("user-1");
-  assert.equal(denied.allowed, false);
+    const denied = await limiter.check("user-1");
+    assert.equal(denied.allowed, false);
 
-  // Wait for the window to expire
-  await new Promise((resolve) => setTimeout(resolve, 60));
+    // Wait for the window to expire
+    await new Promise((resolve) => setTimeout(resolve, 60));
 
-  const afterExpiry = limiter.check("user-1");
-  assert.equal(afterExpiry.allowed, true, "should allow after window expires");
-});
-
-// ---------------------------------------------------------------------------
-// Per-key isolation
-// ---------------------------------------------------------------------------
-
-test("tracks requests independently per key", () => {
-  const limiter = createRateLimiter("test-per-key", {
-    maxRequests: 1,
-    windowMs: 60_000
+    const afterExpiry = await limiter.check("user-1");
+    assert.equal(afterExpiry.allowed, true, "should allow after window expires");
   });
 
-  const a1 = limiter.check("user-a");
-  assert.equal(a1.allowed, true);
+  // ---------------------------------------------------------------------------
+  // Per-key isolation
+  // ---------------------------------------------------------------------------
 
-  const b1 = limiter.check("user-b");
-  assert.equal(b1.allowed, true, "different key should have its own counter");
+  storeTest("tracks requests independently per key", async (store) => {
+    const limiter = createRateLimiter(
+      limiterName("test-per-key"),
+      {
+        maxRequests: 1,
+        windowMs: 60_000
+      },
+      store
+    );
 
-  const a2 = limiter.check("user-a");
-  assert.equal(a2.allowed, false, "user-a should be rate limited");
+    const a1 = await limiter.check("user-a");
+    assert.equal(a1.allowed, true);
 
-  const b2 = limiter.check("user-b");
-  assert.equal(b2.allowed, false, "user-b should also be rate limited now");
-});
+    const b1 = await limiter.check("user-b");
+    assert.equal(b1.allowed, true, "different key should have its own counter");
 
-// ---------------------------------------------------------------------------
-// Independent named stores
-// ---------------------------------------------------------------------------
+    const a2 = await limiter.check("user-a");
+    assert.equal(a2.allowed, false, "user-a should be rate limited");
 
-test("different limiter names maintain independent stores", () => {
-  const limiterA = createRateLimiter("test-store-a", {
-    maxRequests: 1,
-    windowMs: 60_000
-  });
-  const limiterB = createRateLimiter("test-store-b", {
-    maxRequests: 1,
-    windowMs: 60_000
+    const b2 = await limiter.check("user-b");
+    assert.equal(b2.allowed, false, "user-b should also be rate limited now");
   });
 
-  limiterA.check("shared-key");
-  const fromA = limiterA.check("shared-key");
-  assert.equal(fromA.allowed, false, "limiterA should be exhausted");
-
-  const fromB = limiterB.check("shared-key");
-  assert.equal(fromB.allowed, true, "limiterB should be independent");
-});
-
-// ---------------------------------------------------------------------------
-// Remaining count accuracy
-// ---------------------------------------------------------------------------
-
-test("remaining count decrements correctly to zero", () => {
-  const limiter = createRateLimiter("test-remaining", {
-    maxRequests: 4,
-    windowMs: 60_000
+  // ---------------------------------------------------------------------------
+  // Independent named stores
+  // ---------------------------------------------------------------------------
+
+  storeTest("different limiter names maintain independent stores", async (store) => {
+    const limiterA = createRateLimiter(
+      limiterName("test-store-a"),
+      {
+        maxRequests: 1,
+        windowMs: 60_000
+      },
+      store
+    );
+    const limiterB = createRateLimiter(
+      limiterName("test-store-b"),
+      {
+        maxRequests: 1,
+        windowMs: 60_000
+      },
+      store
+    );
+
+    await limiterA.check("shared-key");
+    const fromA = await limiterA.check("shared-key");
+    assert.equal(fromA.allowed, false, "limiterA should be exhausted");
+
+    const fromB = await limiterB.check("shared-key");
+    assert.equal(fromB.allowed, true, "limiterB should be independent");
   });
 
-  const results = Array.from({ length: 4 }, () => limiter.check("user-1"));
-  assert.deepEqual(
-    results.map((r) => r.remaining),
-    [3, 2, 1, 0]
-  );
-
-  // Fifth request should be denied with remaining: 0
-  const denied = limiter.check("user-1");
-  assert.equal(denied.allowed, false);
-  assert.equal(denied.remaining, 0);
-});
+  // ---------------------------------------------------------------------------
+  // Remaining count accuracy
+  // ---------------------------------------------------------------------------
+
+  storeTest("remaining count decrements correctly to zero", async (store) => {
+    const limiter = createRateLimiter(
+      limiterName("test-remaining"),
+      {
+        maxRequests: 4,
+        windowMs: 60_000
+      },
+      store
+    );
+
+    const results = [];
+    for (let index = 0; index < 4; index += 1) {
+      results.push(await limiter.check("user-1"));
+    }
+    assert.deepEqual(
+      results.map((r) => r.remaining),
+      [3, 2, 1, 0]
+    );
+
+    // Fifth request should be denied with remaining: 0
+    const denied = await limiter.check("user-1");
+    assert.equal(denied.allowed, false);
+    assert.equal(denied.remaining, 0);
+  });
+}
 
 // ---------------------------------------------------------------------------
 // extractRateLimitKey
@@ -197,11 +269,47 @@ test("extractRateLimitKey ignores null userId", () => {
 // Edge: zero-request limiter
 // ---------------------------------------------------------------------------
 
-test("limiter with maxRequests: 0 denies all requests", () => {
+test("limiter with maxRequests: 0 denies all requests", async () => {
   const limiter = createRateLimiter("test-zero", {
     maxRequests: 0,
     windowMs: 60_000
   });
-  const result = limiter.check("user-1");
+  const result = await limiter.check("user-1");
   assert.equal(result.allowed, false);
 });
+
+// ---------------------------------------------------------------------------
+// Postgres store mapping and fallback
+// ---------------------------------------------------------------------------
+
+test("postgres store maps the consume_rate_limit row and floors retryAfterMs", async () => {
+  const calls: Array<Record<string, unknown>> = [];
+  const store = createPostgresRateLimitStore(() => ({
+    rpc: async (fn, args) => {
+      calls.push({ fn, ...args });
+      return { data: [{ allowed: false, remaining: 0, retry_after_ms: 250 }], error: null };
+    }
+  }));
+
+  const result = await store.consume({ limiter: "payment", key: "1.2.3.4", maxRequests: 5, windowMs: 60_000 });
+  assert.deepEqual(result, { allowed: false, remaining: 0, retryAfterMs: 1000 });
+  assert.deepEqual(calls, [
+    { fn: "consume_rate_limit", p_limiter: "payment", p_key: "1.2.3.4", p_max_requests: 5, p_window_ms: 60_000 }
+  ]);
+});
+
+test("limiter falls back to the in-memory store when the shared store fails", async () => {
+  const failingStore = createPostgresRateLimitStore(() => ({
+    rpc: async () => ({ data: null, error: { message: "connection refused" } })
+  }));
+  const limiter = createRateLimiter("test-fallback", { maxRequests: 1, windowMs: 60_000 }, failingStore);
+  const originalConsoleError = console.error;
+  console.error = () => {};
+
+  try {
+    assert.equal((await limiter.check("user-1")).allowed, true);
+    assert.equal((await limiter.check("user-1")).allowed, false);
+  } finally {
+    console.error = originalConsoleError;
+  }
+});
@@ -0,0 +1,98 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  checkScriptFacts,
+  readDeepDiveSources,
+  resolveFactCheckConfig,
+  type DeepDiveSource
+} from "../supabase/functions/_shared/scriptFactCheck.ts";
+
+const SOURCE: DeepDiveSource = {
+  topic_order: 1,
+  trend_item_id: "trend-001",
+  title: "Netflix raises ad-supported plan to 890 yen in Japan from April",
+  summary: "Netflix said its ad-supported plan in Japan will rise from 790 yen to 890 yen per month starting April 1, while the standard plan stays at 1,590 yen.",
+  source: "Example News",
+  category: "streaming",
+  url: "https://example.com/netflix-price"
+};
+
+// The judgment line and everything after it use the writer's assumed numbers and are not checked.
+const SCRIPT = `[OP]
+今日も始めます。
+
+[DEEPDIVE 1]
+導入: DeepDive1は「Netflix広告付きプランの値上げ」。
+背景です。Netflixは4月1日から広告付きプランを月790円から890円へ引き上げます。
+1. 何が起きたか（事実のみ）: 値上げ幅は100円で、スタンダードプランは月1,590円のまま、Disneyも追随します。
+2. 現在の立ち位置（確定情報／未確定情報）: 年間では1,200円の負担増です。
+5. 今日の判断（個人視点）: Frame D: 月の広告時間210分÷月間視聴時間1,200分=17.5%。
+7. 監視ポイント（個人が見るべき数値）: 広告時間210分
+`;
+
+test("resolveFactCheckConfig defaults to review and ignores invalid values", () => {
+  assert.deepEqual(resolveFactCheckConfig(() => undefined), { mode: "review", maxUnsupportedRatio: 0.25 });
+  const env: Record<string, string> = { FACT_CHECK_MODE: "Block", FACT_CHECK_MAX_UNSUPPORTED_RATIO: "0.1" };
+  assert.deepEqual(resolveFactCheckConfig((name) => env[name]), { mode: "block", maxUnsupportedRatio: 0.1 });
+  const invalid: Record<string, string> = { FACT_CHECK_MODE: "strict", FACT_CHECK_MAX_UNSUPPORTED_RATIO: "2" };
+  assert.deepEqual(resolveFactCheckConfig((name) => invalid[name]), { mode: "review", maxUnsupportedRatio: 0.25 });
+});
+
+test("checkScriptFacts links DeepDive claims to the source and lists the unsupported ones", () => {
+  const result = checkScriptFacts({
+    script: SCRIPT,
+    sources: [SOURCE],
+    config: { mode: "review", maxUnsupportedRatio: 0.5 }
+  });
+
+  assert.equal(result.status, "passed");
+  assert.equal(result.claims_count, 8);
+  assert.deepEqual(result.deep_dives[0]?.unsupported, [
+    {
+      kind: "entity",
+      text: "Disney",
+      sentence: "値上げ幅は100円で、スタンダードプランは月1590円のまま、Disneyも追随します。"
+    },
+    { kind: "number", text: "1200円", sentence: "年間では1200円の負担増です。" }
+  ]);
+  assert.equal(result.deep_dives[0]?.trend_item_id, "trend-001");
+  assert.equal(result.unsupported_ratio, 0.25);
+});
+
+test("checkScriptFacts matches entities as whole words, not inside other words", () => {
+  const script = `[DEEPDIVE 1]
+背景です。AIとMetaが関わるとNetflixは話しています。
+`;
+  const source = { ...SOURCE, summary: `${SOURCE.summary} Netflix said the change covers metadata as well.` };
+  const result = checkScriptFacts({ script, sources: [source], config: { mode: "review", maxUnsupportedRatio: 1 } });
+
+  assert.deepEqual(
+    result.deep_dives[0]?.unsupported.map((claim) => claim.text),
+    ["AI", "Meta"]
+  );
+});
+
+test("checkScriptFacts blocks or flags for review above the threshold", () => {
+  const config = { mode: "block" as const, maxUnsupportedRatio: 0.2 };
+  assert.equal(checkScriptFacts({ script: SCRIPT, sources: [SOURCE], config }).status, "blocked");
+  assert.equal(
+    checkScriptFacts({ script: SCRIPT, sources: [SOURCE], config: { ...config, mode: "review" } }).status,
+    "needs_review"
+  );
+
+  // A DeepDive with no linked source counts every claim as unsupported.
+  const unlinked = checkScriptFacts({ script: SCRIPT, sources: [{ ...SOURCE, topic_order: 2 }], config });
+  assert.equal(unlinked.unsupported_count, unlinked.claims_count);
+  assert.equal(unlinked.deep_dives[0]?.trend_item_id, null);
+});
+
+test("checkScriptFacts skips when disabled or when the writer reported no sources", () => {
+  const config = { mode: "off" as const, maxUnsupportedRatio: 0.25 };
+  assert.equal(checkScriptFacts({ script: SCRIPT, sources: [SOURCE], config }).skipped_reason, "disabled");
+
+  const sources = readDeepDiveSources([{ topic_order: "1", trend_item_id: "trend-001" }, null]);
+  assert.deepEqual(sources, []);
+  const skipped = checkScriptFacts({ script: SCRIPT, sources, config: { ...config, mode: "block" } });
+  assert.equal(skipped.status, "skipped");
+  assert.equal(skipped.skipped_reason, "sources_missing");
+});
@@ -39,6 +39,14 @@ test("dedupeSimilarLines drops repeated filler lines", () => {
   assert.equal(result.text.split("\n").length, 2);
 });
 
+test("dedupeSimilarLines keeps numbered section headings", () => {
+  const input = ["[DEEPDIVE 1]", "一本目の本文です。", "[DEEPDIVE 2]", "二本目の本文です。"].join("\n");
+
+  const result = dedupeSimilarLines(input, { minComparableLength: 8 });
+  assert.equal(result.dedupedLinesCount, 0);
+  assert.equal(result.text, input);
+});
+
 test("normalizeScriptText removes html/url/placeholders and reports metrics", () => {
   const input = [
     "<p>本文です &amp; 続き</p>",
@@ -0,0 +1,206 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  requestChatCompletion,
+  resolveChatCompletionConfig,
+  type ChatCompletionRequest
+} from "../src/lib/llm/chatCompletion.ts";
+import { resolveJudgmentCards } from "../src/lib/judgmentCardSidecar.ts";
+import { resolveProgramCounts } from "../supabase/functions/_shared/programPlan.ts";
+import {
+  buildTopicPlan,
+  normalizeProvidedTrends,
+  resolveSelectionConfig,
+  type TrendCandidateInput
+} from "../supabase/functions/_shared/topicPlan.ts";
+import { resolveTrendDigestConfigFromRaw } from "../supabase/functions/_shared/trendDigest.ts";
+import { resolveScriptGateConfig } from "../supabase/functions/_shared/scriptGate.ts";
+import {
+  resolveEpisodeStructureConfigFromRaw,
+  validateEpisodeScriptQuality
+} from "../supabase/functions/_shared/episodeStructure.ts";
+import {
+  REQUIRED_DEEPDIVE_COUNT,
+  REQUIRED_QUICKNEWS_COUNT,
+  buildJapaneseScript,
+  ensureProgramPlan,
+  finalizeJapaneseScript,
+  normalizeLetters,
+  normalizeTrendItems,
+  resolveTopicTitle,
+  type ScriptLetterInput
+} from "../supabase/functions/_shared/scriptWriterJa.ts";
+import { normalizeScriptForPolishInput } from "../supabase/functions/_shared/scriptPolish.ts";
+import { polishJapaneseScript } from "../supabase/functions/_shared/scriptPolishJa.ts";
+import { evaluateScriptQuality } from "../supabase/functions/_shared/evaluateScriptQuality.ts";
+import { normalizeScriptText } from "../supabase/functions/_shared/scriptNormalize.ts";
+import { buildSectionsCharsBreakdown, parseScriptSections } from "../supabase/functions/_shared/scriptSections.ts";
+import { checkScriptQuality } from "../supabase/functions/_shared/scriptQualityCheck.ts";
+import { checkScriptFacts, resolveFactCheckConfig } from "../supabase/functions/_shared/scriptFactCheck.ts";
+
+/**
+ * Golden-file regression suite for plan-topics → write-script-ja →
+ * polish-script-ja → judgment cards (sidecar, with the regex extractor as
+ * fallback and diff) → DeepDive fact check. Each directory under
+ * tests/fixtures/script-pipeline holds:
+ * - input.json: episode date, trend candidates and letters
+ * - llm/: recorded chat completions, replayed by request hash
+ * - expected.json: the snapshot compared below
+ *
+ * UPDATE_GOLDEN=1 rewrites expected.json. LLM_FIXTURE_RECORD=1 sends requests
+ * to the configured provider and records them into llm/ instead of replaying.
+ */
+
+type PipelineInput = {
+  episodeDate: string;
+  trendCandidates: TrendCandidateInput[];
+  letters?: ScriptLetterInput[];
+};
+
+const CASES_DIR = fileURLToPath(new URL("./fixtures/script-pipeline/", import.meta.url));
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === "1";
+const RECORD_FIXTURES = process.env.LLM_FIXTURE_RECORD === "1";
+
+// Edge-function defaults, so the snapshot does not depend on the local environment.
+const noEnv = () => undefined;
+const POLISH_SETTINGS = {
+  model: "gpt-4.1-mini",
+  temperature: 0.2,
+  timeoutMs: 120_000,
+  maxAttempts: 2,
+  target: "15-20min"
+};
+const SCORE_SETTINGS = {
+  model: "gpt-4.1-mini",
+  timeoutMs: 60_000,
+  maxAttempts: 1
+};
+
+const createReplay = (fixtureDir: string) => {
+  const config = resolveChatCompletionConfig((name) => {
+    if (name === "LLM_FIXTURE_DIR") return fixtureDir;
+    if (RECORD_FIXTURES) return process.env[name];
+    return name === "LLM_PROVIDER" ? "fixture" : undefined;
+  });
+  return (request: ChatCompletionRequest, timeoutMs: number) => requestChatCompletion(config, request, { timeoutMs });
+};
+
+const runScriptPipeline = async (caseDir: string) => {
+  const input = JSON.parse(await readFile(path.join(caseDir, "input.json"), "utf8")) as PipelineInput;
+  const requestChat = createReplay(path.join(caseDir, "llm"));
+
+  const selectionConfig = resolveSelectionConfig(noEnv);
+  const candidates = normalizeProvidedTrends(input.trendCandidates);
+  const plan = buildTopicPlan({
+    episodeDate: input.episodeDate,
+    candidates,
+    usedTrendFallback: candidates.length === 0,
+    trendFallbackReason: candidates.length === 0 ? "no_recent_trends" : null,
+    selectionConfig,
+    digestConfig: resolveTrendDigestConfigFromRaw({ maxItems: `${selectionConfig.candidatePoolSize}` }),
+    programCounts: resolveProgramCounts(noEnv)
+  });
+
+  const topicTitle = resolveTopicTitle(plan.topic.title, input.episodeDate);
+  const scriptGate = resolveScriptGateConfig(noEnv);
+  const episodeStructure = resolveEpisodeStructureConfigFromRaw({
+    deepDiveCount: `${REQUIRED_DEEPDIVE_COUNT}`,
+    quickNewsCount: `${REQUIRED_QUICKNEWS_COUNT}`
+  });
+  const drafted = buildJapaneseScript({
+    topicTitle,
+    programPlan: ensureProgramPlan(plan.programPlan, topicTitle),
+    trendItems: normalizeTrendItems(plan.trendItemsForScript),
+    letters: normalizeLetters(input.letters),
+    scriptGate,
+    episodeStructure
+  });
+  // ENABLE_SCRIPT_EDITOR is off by default, so the draft goes straight to the final pass.
+  const written = finalizeJapaneseScript(drafted.script, scriptGate.maxChars);
+
+  const polished = await polishJapaneseScript({
+    ...POLISH_SETTINGS,
+    rawScript: written.text,
+    normalizedInput: normalizeScriptForPolishInput(written.text),
+    requestChat
+  });
+  const finalScript = polished.finalScript || normalizeScriptText(written.text, { preserveSourceUrls: true }).text;
+  // polish-script-ja keeps the writer's sidecar only when it falls back to the written script.
+  const judgmentCards = resolveJudgmentCards({
+    sidecar: polished.finalScript ? polished.judgmentCards : drafted.judgmentCards,
+    script: finalScript
+  });
+  const quality = await evaluateScriptQuality({ ...SCORE_SETTINGS, script: finalScript, lang: "ja", requestChat });
+
+  return {
+    plan: {
+      usedTrendFallback: plan.usedTrendFallback,
+      trendFallbackReason: plan.trendFallbackReason,
+      topicTitle,
+      selectedTrendIds: plan.selectedTrendItems.map((item) => item.id),
+      programPlan: plan.programPlan
+    },
+    written: {
+      sections: parseScriptSections(written.text),
+      itemsUsedCount: drafted.itemsUsedCount,
+      judgmentCardsSidecar: drafted.judgmentCards,
+      qualityGate: validateEpisodeScriptQuality({
+        script: written.text,
+        itemsUsedCount: drafted.itemsUsedCount,
+        config: episodeStructure
+      })
+    },
+    polished: {
+      attemptsUsed: polished.attemptsUsed,
+      fallbackUsed: polished.fallbackUsed,
+      errorSummary: polished.errorSummary,
+      retryReason: polished.retryReason,
+      deepDiveConcreteCounts: polished.deepDiveConcreteCounts,
+      judgmentCardsErrors: polished.judgmentCardsErrors,
+      preview: polished.preview,
+      sections: parseScriptSections(finalScript)
+    },
+    judgmentCards,
+    factCheck: checkScriptFacts({
+      script: finalScript,
+      sources: drafted.deepDiveSources,
+      config: resolveFactCheckConfig(noEnv)
+    }),
+    metrics: {
+      writtenChars: written.text.length,
+      polishedChars: finalScript.length,
+      sectionsCharsBreakdown: buildSectionsCharsBreakdown(finalScript),
+      scriptQuality: checkScriptQuality(finalScript),
+      score: quality.ok ? { ...quality.detail } : { error: quality.error_summary ?? quality.skipped_reason ?? null }
+    }
+  };
+};
+
+const caseNames = (await readdir(CASES_DIR, { withFileTypes: true }))
+  .filter((entry) => entry.isDirectory())
+  .map((entry) => entry.name)
+  .sort();
+
+for (const caseName of caseNames) {
+  test(`script pipeline golden: ${caseName}`, async () => {
+    const caseDir = path.join(CASES_DIR, caseName);
+    const expectedPath = path.join(caseDir, "expected.json");
+    // Round-trip so the comparison sees exactly what expected.json can hold.
+    const actual = JSON.parse(JSON.stringify(await runScriptPipeline(caseDir))) as Record<string, unknown>;
+
+    if (UPDATE_GOLDEN) {
+      await writeFile(expectedPath, `${JSON.stringify(actual, null, 2)}\n`, "utf8");
+      return;
+    }
+
+    const expected = JSON.parse(await readFile(expectedPath, "utf8")) as Record<string, unknown>;
+    // Report each stage separately so a failure points at the step that drifted.
+    for (const key of Object.keys(expected)) {
+      assert.deepEqual(actual[key], expected[key], `${caseName}: ${key} differs from expected.json (UPDATE_GOLDEN=1 to accept)`);
+    }
+    assert.deepEqual(Object.keys(actual), Object.keys(expected));
+  });
+}
@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type Stripe from "stripe";
+import { handleStripeWebhook } from "../app/api/stripe/webhook/route.ts";
+
+type WebhookDeps = Parameters<typeof handleStripeWebhook>[1];
+
+const createDeps = (event: unknown, overrides: Partial<WebhookDeps> = {}) => {
+  const calls = {
+    insertTip: [] as unknown[],
+    markTipRefunded: [] as unknown[]
+  };
+
+  const deps = {
+    stripe: {
+      webhooks: {
+        constructEvent: () => event
+      }
+    } as unknown as Stripe,
+    webhookSecret: "whsec_test",
+    insertTip: async (tip) => {
+      calls.insertTip.push(tip);
+      return { error: null };
+    },
+    markTipRefunded: async (refund) => {
+      calls.markTipRefunded.push(refund);
+      return { letter_id: "11111111-1111-4111-8111-111111111111" };
+    },
+    upsertProfile: async () => undefined,
+    upsertSubscription: async () => undefined,
+    updateSubscriptionByCheckoutSessionId: async () => false,
+    findUserByStripeCustomerId: async () => null,
+    findSubscriptionByStripeSubscriptionId: async () => null,
+    ...overrides
+  } satisfies WebhookDeps;
+
+  return { deps, calls };
+};
+
+const buildRequest = () => {
+  return new Request("http://localhost/api/stripe/webhook", {
+    method: "POST",
+    headers: { "stripe-signature": "t=1,v1=test" },
+    body: "{}"
+  });
+};
+
+test("payment_intent.succeeded records the tip with the letter id from metadata", async () => {
+  const { deps, calls } = createDeps({
+    type: "payment_intent.succeeded",
+    data: {
+      object: {
+        id: "pi_tip",
+        amount_received: 500,
+        currency: "jpy",
+        metadata: { letter_id: "11111111-1111-4111-8111-111111111111" }
+      }
+    }
+  });
+
+  const response = await handleStripeWebhook(buildRequest(), deps);
+
+  assert.equal(response.status, 200);
+  assert.deepEqual(calls.insertTip, [
+    {
+      provider: "stripe",
+      provider_payment_id: "pi_tip",
+      amount: 500,
+      currency: "jpy",
+      letter_id: "11111111-1111-4111-8111-111111111111"
+    }
+  ]);
+});
+
+test("charge.refunded marks the tip refunded so its letter loses priority", async () => {
+  const { deps, calls } = createDeps({
+    type: "charge.refunded",
+    data: {
+      object: {
+        id: "ch_tip",
+        payment_intent: "pi_tip",
+        amount_refunded: 200
+      }
+    }
+  });
+
+  const response = await handleStripeWebhook(buildRequest(), deps);
+  const body = await response.json();
+
+  assert.equal(response.status, 200);
+  assert.equal(body.letterId, "11111111-1111-4111-8111-111111111111");
+  assert.equal(calls.markTipRefunded.length, 1);
+  assert.deepEqual(
+    { ...(calls.markTipRefunded[0] as Record<string, unknown>), refunded_at: "<now>" },
+    { provider_payment_id: "pi_tip", refunded_amount: 200, refunded_at: "<now>" }
+  );
+});
+
+test("charge.refunded is ignored when no tip matches the payment intent", async () => {
+  const { deps } = createDeps(
+    {
+      type: "charge.refunded",
+      data: {
+        object: {
+          id: "ch_subscription",
+          payment_intent: { id: "pi_subscription" },
+          amount_refunded: 1140
+        }
+      }
+    },
+    { markTipRefunded: async () => null }
+  );
+
+  const response = await handleStripeWebhook(buildRequest(), deps);
+  const body = await response.json();
+
+  assert.equal(response.status, 200);
+  assert.equal(body.ignored, true);
+  assert.equal(body.reason, "tip_not_found");
+});
+
+test("charge.refunded without a payment intent does not touch tips", async () => {
+  const { deps, calls } = createDeps({
+    type: "charge.refunded",
+    data: {
+      object: {
+        id: "ch_orphan",
+        payment_intent: null,
+        amount_refunded: 500
+      }
+    }
+  });
+
+  const response = await handleStripeWebhook(buildRequest(), deps);
+
+  assert.equal(response.status, 200);
+  assert.equal(calls.markTipRefunded.length, 0);
+});
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { concatAudioChunks, measureAudioDurationSec } from "../src/lib/tts/audioBytes.ts";
+
+const buildWav = (pcmBytes: number, byteRate = 48000): Uint8Array => {
+  const bytes = new Uint8Array(44 + pcmBytes);
+  const view = new DataView(bytes.buffer);
+  const ascii = (offset: number, value: string) => {
+    for (let index = 0; index < value.length; index += 1) bytes[offset + index] = value.charCodeAt(index);
+  };
+
+  ascii(0, "RIFF");
+  view.setUint32(4, 36 + pcmBytes, true);
+  ascii(8, "WAVE");
+  ascii(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, byteRate / 2, true);
+  view.setUint32(28, byteRate, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  ascii(36, "data");
+  view.setUint32(40, pcmBytes, true);
+  return bytes;
+};
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz: 417-byte frames of 1152 samples each.
+const buildMp3 = (frameCount: number, withId3 = false): Uint8Array => {
+  const id3 = withId3 ? [0x49, 0x44, 0x33, 0x04, 0x00, 0x00, 0x00, 0x00, 0x00, 0x0a, ...new Array(10).fill(0)] : [];
+  const bytes = new Uint8Array(id3.length + frameCount * 417);
+  bytes.set(id3, 0);
+  for (let frame = 0; frame < frameCount; frame += 1) {
+    bytes.set([0xff, 0xfb, 0x90, 0x64], id3.length + frame * 417);
+  }
+  return bytes;
+};
+
+test("measureAudioDurationSec reads the WAV byte rate and data size", () => {
+  assert.equal(measureAudioDurationSec(buildWav(96000), "wav"), 2);
+  assert.equal(measureAudioDurationSec(new Uint8Array(10), "wav"), null);
+  assert.equal(measureAudioDurationSec(buildWav(96000), "opus"), null);
+});
+
+test("measureAudioDurationSec sums MP3 frames and skips ID3 tags between chunks", () => {
+  const frameSec = 1152 / 44100;
+  const single = measureAudioDurationSec(buildMp3(10, true), "mp3");
+  assert.ok(single !== null && Math.abs(single - 10 * frameSec) < 1e-9);
+
+  const joined = concatAudioChunks([buildMp3(10, true), buildMp3(5, true)], "mp3");
+  const joinedSec = measureAudioDurationSec(joined, "mp3");
+  assert.ok(joinedSec !== null && Math.abs(joinedSec - 15 * frameSec) < 1e-9);
+  assert.equal(measureAudioDurationSec(new Uint8Array(64), "mp3"), null);
+});
+
+test("concatAudioChunks joins WAV PCM under one header", () => {
+  const joined = concatAudioChunks([buildWav(48000), buildWav(24000)], "wav");
+
+  assert.equal(joined.length, 44 + 72000);
+  assert.equal(new DataView(joined.buffer).getUint32(40, true), 72000);
+  assert.equal(measureAudioDurationSec(joined, "wav"), 1.5);
+});
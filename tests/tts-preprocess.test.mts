@@ -21,3 +21,12 @@ test("preprocessForTTS en normalizes punctuation and show-notes phrase", () => {
   assert.equal(result.text.includes("please see the show notes"), true);
   assert.equal(result.text.includes("!!!"), false);
 });
+
+test("preprocessForTTS keeps section marker lines for sectioned synthesis", () => {
+  const result = preprocessForTTS("[OP]\nこんにちは「速報」\n[DEEPDIVE 1]\n本題です", "ja");
+
+  assert.equal(result.text.split("\n")[0], "[OP]");
+  assert.equal(result.text.includes("[DEEPDIVE 1]"), true);
+  assert.equal(result.text.includes("「"), false);
+  assert.equal(result.metrics.bracketRemovedCount, 2);
+});
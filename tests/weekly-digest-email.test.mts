@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+const { buildWeeklyDigestEmail } = await import("../app/lib/emailTemplates.ts");
+
+const baseCard = {
+  episode_published_at: "2026-03-12T00:00:00.000Z",
+  created_at: "2026-03-12T00:00:00.000Z",
+  genre: "tech",
+  frame_type: null
+};
+
+const cards = [
+  {
+    ...baseCard,
+    id: "card-use-1",
+    episode_id: "ep-1",
+    topic_title: "動画配信の見直し",
+    judgment_type: "use_now" as const,
+    judgment_summary: "広告なしプランに切り替える。",
+    deadline_at: "2026-03-15T03:00:00.000Z",
+    threshold_json: { price: [{ raw: "月額1,000円以下", value: 1000, unit: "JPY" }] }
+  },
+  {
+    ...baseCard,
+    id: "card-use-2",
+    episode_id: "ep-1",
+    topic_title: "ゲームのセール",
+    judgment_type: "use_now" as const,
+    judgment_summary: "セール中に購入する。",
+    deadline_at: null,
+    threshold_json: {}
+  },
+  {
+    ...baseCard,
+    id: "card-watch-1",
+    episode_id: "ep-2",
+    topic_title: "新作アニメ",
+    judgment_type: "watch" as const,
+    judgment_summary: "評判を待つ。",
+    deadline_at: null,
+    threshold_json: {}
+  }
+];
+
+const decisions = [
+  {
+    id: "decision-1",
+    judgment_card_id: "card-old",
+    episode_id: "ep-old",
+    topic_title: "音楽サブスクの整理",
+    frame_type: null,
+    genre: "music",
+    decision_type: "use_now" as const,
+    outcome: null,
+    created_at: "2026-03-01T00:00:00.000Z",
+    deadline_at: "2026-03-10T00:00:00.000Z"
+  }
+];
+
+const params = {
+  cards,
+  decisions,
+  windowStart: "2026-03-09T00:00:00.000Z",
+  windowEnd: "2026-03-16T00:00:00.000Z",
+  now: new Date("2026-03-16T00:00:00.000Z")
+};
+
+test("buildWeeklyDigestEmail renders every card with deadlines and thresholds for paid users", () => {
+  const email = buildWeeklyDigestEmail({ ...params, isPaid: true });
+
+  assert.equal(email.subject, "今週のまとめ (3件)");
+  assert.match(email.text, /■ 今すぐ \(2件\)/);
+  assert.match(email.text, /■ 様子見 \(1件\)/);
+  assert.doesNotMatch(email.text, /■ 見送り/);
+  assert.match(email.text, /・ゲームのセール/);
+  assert.match(email.text, /期限: 3\/15\(日\)/);
+  assert.match(email.text, /- 価格基準: 月額1,000円以下/);
+  assert.match(email.text, /\/decisions\/ep-1#card-card-use-1/);
+  assert.match(email.html, /href="https:\/\/signal-move\.com\/decisions\/ep-2#card-card-watch-1"/);
+  assert.doesNotMatch(email.text, /有料版であと/);
+});
+
+test("buildWeeklyDigestEmail shows one card per group and locked teasers for free users", () => {
+  const email = buildWeeklyDigestEmail({ ...params, isPaid: false });
+
+  assert.match(email.text, /・動画配信の見直し/);
+  assert.doesNotMatch(email.text, /ゲームのセール/);
+  assert.doesNotMatch(email.text, /期限: /);
+  assert.doesNotMatch(email.text, /価格基準/);
+  assert.match(email.text, /有料版であと1件のカードと期限・判断基準を確認できます/);
+  assert.match(email.html, /有料版であと1件/);
+});
+
+test("buildWeeklyDigestEmail lists unresolved outcomes with deep links", () => {
+  const email = buildWeeklyDigestEmail({ ...params, isPaid: false });
+
+  assert.match(email.text, /■ 結果を記録していない判断/);
+  assert.match(email.text, /・音楽サブスクの整理 \(期限から6日経過\) https:\/\/signal-move\.com\/decisions\/ep-old#card-card-old/);
+  assert.match(email.html, /履歴で結果を記録する/);
+
+  const withoutOutcomes = buildWeeklyDigestEmail({ ...params, decisions: [], isPaid: true });
+  assert.doesNotMatch(withoutOutcomes.text, /結果を記録していない判断/);
+});
+
+test("buildWeeklyDigestEmail escapes card text in HTML", () => {
+  const email = buildWeeklyDigestEmail({
+    ...params,
+    decisions: [],
+    isPaid: true,
+    cards: [{ ...cards[0], judgment_summary: "<script>alert(1)</script>" }]
+  });
+
+  assert.doesNotMatch(email.html, /<script>/);
+  assert.match(email.html, /&lt;script&gt;/);
+});